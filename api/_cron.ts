@@ -0,0 +1,51 @@
+// api/_cron.ts
+// Shared by the server functions (Vercel doesn't route files starting
+// with an underscore)
+//
+// Vercel Cron calls each path in vercel.json's "crons" with
+// "Authorization: Bearer $CRON_SECRET". The workers run with the service
+// role, so requests without the secret are turned away.
+
+import { lookup } from 'node:dns/promises'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * The error response for a request that isn't from the scheduler, or null
+ * when it is
+ */
+export function rejectUnscheduled(request: Request): Response | null {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return Response.json({ error: 'Missing CRON_SECRET' }, { status: 500 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
+
+/**
+ * A service-role client, or null when the environment lacks its settings
+ */
+export function createServiceClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.VITE_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabaseUrl || !serviceRoleKey) {
+    return null
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
+
+/**
+ * Every address a host name resolves to, for checking user-supplied URLs
+ * before fetching them
+ */
+export async function lookupHost(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true })
+  return addresses.map(entry => entry.address)
+}
@@ -0,0 +1,48 @@
+// api/booking-feed.ts
+// Vercel function serving organizers' ICS booking feeds
+//
+// GET /api/booking-feed?token=... (calendar apps subscribe with webcal://)
+// The token is the only credential, so the function uses the anon key;
+// get_booking_feed checks the token.
+
+import { createClient } from '@supabase/supabase-js'
+import { fetchBookingFeed } from '../src/lib/bookingFeed'
+
+export async function GET(request: Request): Promise<Response> {
+  const token = new URL(request.url).searchParams.get('token')
+  if (!token) {
+    return new Response('Missing feed token', { status: 400 })
+  }
+
+  const supabaseUrl = process.env.VITE_SUPABASE_URL
+  const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return new Response('Missing Supabase environment variables', { status: 500 })
+  }
+
+  const client = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+
+  try {
+    const calendar = await fetchBookingFeed(client, token, {
+      appName: process.env.VITE_APP_NAME || 'Schedlyx'
+    })
+
+    if (calendar === null) {
+      return new Response('Feed not found', { status: 404 })
+    }
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="bookings.ics"',
+        // Personal data; subscribers poll for changes anyway
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Booking feed error:', error)
+    return new Response('Feed unavailable', { status: 503 })
+  }
+}
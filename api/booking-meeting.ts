@@ -0,0 +1,63 @@
+// api/booking-meeting.ts
+// Vercel function creating the meeting link for a just-completed booking
+//
+// POST /api/booking-meeting with { "bookingId", "bookingReference", "email" }
+// Runs the meeting link worker for that booking only, so the link is
+// ready when the confirmation page loads. Guests book without signing in,
+// so the caller proves it just made the booking with the reference and
+// email from the confirmation; older bookings are left to the scheduled
+// run in api/process-meetings.ts. The worker's RPCs are granted to the
+// service role; bookings that aren't due are simply not claimed.
+
+import { createServiceClient } from './_cron'
+import { ConferencingService } from '../src/lib/services/conferencingService'
+
+/** How long after booking the confirmation page may ask for the link */
+const JUST_CREATED_MINUTES = 15
+
+export async function POST(request: Request): Promise<Response> {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    body = null
+  }
+
+  const { bookingId, bookingReference, email } = body || {}
+  if ([bookingId, bookingReference, email].some(value => typeof value !== 'string' || !value)) {
+    return Response.json({ error: 'Missing booking ID, reference or email' }, { status: 400 })
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return Response.json({ error: 'Missing Supabase environment variables' }, { status: 500 })
+  }
+
+  const { data: booking, error } = await client
+    .from('bookings')
+    .select('booking_reference, email, created_at')
+    .eq('id', bookingId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Booking meeting lookup error:', error)
+    return Response.json({ error: 'Meeting links unavailable' }, { status: 503 })
+  }
+
+  const justCreated = booking
+    && booking.booking_reference === bookingReference
+    && booking.email.toLowerCase() === email.trim().toLowerCase()
+    && Date.now() - new Date(booking.created_at).getTime() < JUST_CREATED_MINUTES * 60 * 1000
+
+  if (!justCreated) {
+    return Response.json({ error: 'Booking not found' }, { status: 404 })
+  }
+
+  try {
+    const report = await ConferencingService.processMeetings({ client, bookingId, limit: 1 })
+    return Response.json(report)
+  } catch (error) {
+    console.error('Booking meeting error:', error)
+    return Response.json({ error: 'Meeting links unavailable' }, { status: 503 })
+  }
+}
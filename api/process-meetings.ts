@@ -0,0 +1,30 @@
+// api/process-meetings.ts
+// Vercel Cron function running the meeting link worker
+//
+// GET /api/process-meetings, every five minutes (see vercel.json)
+// Creates the links api/booking-meeting.ts didn't get to, regenerates
+// those of moved bookings and revokes those of cancelled ones, retrying
+// failed provider calls.
+
+import { rejectUnscheduled, createServiceClient } from './_cron'
+import { ConferencingService } from '../src/lib/services/conferencingService'
+
+export async function GET(request: Request): Promise<Response> {
+  const rejection = rejectUnscheduled(request)
+  if (rejection) {
+    return rejection
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return Response.json({ error: 'Missing Supabase environment variables' }, { status: 500 })
+  }
+
+  try {
+    const report = await ConferencingService.processMeetings({ client })
+    return Response.json(report)
+  } catch (error) {
+    console.error('Meeting worker error:', error)
+    return Response.json({ error: 'Meeting links unavailable' }, { status: 503 })
+  }
+}
@@ -0,0 +1,74 @@
+// api/process-notifications.ts
+// Vercel Cron function delivering booking emails, reminders and texts
+//
+// GET /api/process-notifications, every five minutes (see vercel.json)
+// Queues the reminders that have come due, then sends what's waiting in
+// the email and SMS outboxes. Each channel only runs once its provider is
+// configured; until then its messages stay queued rather than being
+// marked sent.
+
+import { rejectUnscheduled, createServiceClient } from './_cron'
+import { EmailService, OutboxRunReport } from '../src/lib/services/emailService'
+import { SmsService, SmsRunReport } from '../src/lib/services/smsService'
+import { ResendEmailProvider } from '../src/lib/services/emailProvider'
+import { TwilioSmsProvider } from '../src/lib/services/smsProvider'
+
+export async function GET(request: Request): Promise<Response> {
+  const rejection = rejectUnscheduled(request)
+  if (rejection) {
+    return rejection
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return Response.json({ error: 'Missing Supabase environment variables' }, { status: 500 })
+  }
+
+  const appUrl = process.env.VITE_APP_URL || ''
+  let email: OutboxRunReport | string = 'not configured'
+  let sms: SmsRunReport | string = 'not configured'
+  let failed = false
+
+  if (process.env.RESEND_API_KEY && process.env.EMAIL_FROM) {
+    try {
+      email = await EmailService.processOutbox({
+        client,
+        provider: new ResendEmailProvider({
+          apiKey: process.env.RESEND_API_KEY,
+          from: process.env.EMAIL_FROM
+        }),
+        appUrl
+      })
+    } catch (error) {
+      console.error('Email outbox error:', error)
+      email = 'failed'
+      failed = true
+    }
+  } else {
+    // The email worker queues due reminders; texts need them queued too
+    const { error } = await client.rpc('enqueue_due_reminders')
+    if (error) {
+      console.error('enqueue_due_reminders RPC error:', error)
+    }
+  }
+
+  if (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM) {
+    try {
+      sms = await SmsService.processOutbox({
+        client,
+        provider: new TwilioSmsProvider({
+          accountSid: process.env.TWILIO_ACCOUNT_SID,
+          authToken: process.env.TWILIO_AUTH_TOKEN,
+          from: process.env.TWILIO_FROM
+        }),
+        appUrl
+      })
+    } catch (error) {
+      console.error('SMS outbox error:', error)
+      sms = 'failed'
+      failed = true
+    }
+  }
+
+  return Response.json({ email, sms }, { status: failed ? 503 : 200 })
+}
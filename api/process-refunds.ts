@@ -0,0 +1,42 @@
+// api/process-refunds.ts
+// Vercel Cron function sending pending refunds
+//
+// GET /api/process-refunds, every five minutes (see vercel.json)
+// Sends each pending refund through the provider that took the payment
+// and settles it as the service role. Register a provider here under the
+// name it records on payments; refunds of providers that aren't
+// registered fail after a few runs for the organizer to handle.
+
+import { rejectUnscheduled, createServiceClient } from './_cron'
+import { RefundProcessingService } from '../src/lib/services/refundProcessingService'
+import { FakePaymentProvider, PaymentProvider } from '../src/lib/services/paymentProvider'
+
+const providers = new Map<string, PaymentProvider>()
+
+// Development only, like the app's flag
+if (process.env.VITE_ENABLE_FAKE_PAYMENTS === 'true') {
+  providers.set('fake', new FakePaymentProvider())
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const rejection = rejectUnscheduled(request)
+  if (rejection) {
+    return rejection
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return Response.json({ error: 'Missing Supabase environment variables' }, { status: 500 })
+  }
+
+  try {
+    const report = await RefundProcessingService.processRefunds({
+      client,
+      getProvider: name => providers.get(name)
+    })
+    return Response.json(report)
+  } catch (error) {
+    console.error('Refund worker error:', error)
+    return Response.json({ error: 'Refunds unavailable' }, { status: 503 })
+  }
+}
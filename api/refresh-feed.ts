@@ -0,0 +1,66 @@
+// api/refresh-feed.ts
+// Vercel function refreshing one subscribed busy calendar for its owner
+//
+// POST /api/refresh-feed with { "feedId": "..." } and the owner's access
+// token as "Authorization: Bearer ...". Used when a feed is added and by
+// its refresh button: the feed is fetched here because calendar hosts
+// rarely allow cross-origin requests from the app.
+
+import { createServiceClient, lookupHost } from './_cron'
+import { IcsImportService } from '../src/lib/services/icsImportService'
+
+export async function POST(request: Request): Promise<Response> {
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!accessToken) {
+    return Response.json({ error: 'Sign in to refresh calendars' }, { status: 401 })
+  }
+
+  let feedId: unknown
+  try {
+    feedId = (await request.json())?.feedId
+  } catch {
+    feedId = undefined
+  }
+
+  if (typeof feedId !== 'string' || !feedId) {
+    return Response.json({ error: 'Missing feed ID' }, { status: 400 })
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return Response.json({ error: 'Missing Supabase environment variables' }, { status: 500 })
+  }
+
+  const { data: { user } } = await client.auth.getUser(accessToken)
+  if (!user) {
+    return Response.json({ error: 'Sign in to refresh calendars' }, { status: 401 })
+  }
+
+  const { data: feed, error } = await client
+    .from('calendar_feeds')
+    .select('*, owner:profiles(timezone)')
+    .eq('id', feedId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Calendar feed lookup error:', error)
+    return Response.json({ error: 'Calendar feeds unavailable' }, { status: 503 })
+  }
+
+  if (!feed) {
+    return Response.json({ error: 'Calendar not found' }, { status: 404 })
+  }
+
+  try {
+    const stored = await IcsImportService.refreshFeed(feed, {
+      client,
+      lookup: lookupHost,
+      timeZone: feed.owner?.timezone || 'UTC'
+    })
+    return Response.json({ stored })
+  } catch (error) {
+    // The reason is recorded on the feed and shown next to it
+    return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 422 })
+  }
+}
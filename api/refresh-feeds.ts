@@ -0,0 +1,29 @@
+// api/refresh-feeds.ts
+// Vercel Cron function refreshing subscribed busy calendars
+//
+// GET /api/refresh-feeds, every fifteen minutes (see vercel.json)
+// Fetches the URL feeds whose next fetch has come due and replaces their
+// busy blocks. Failed feeds are retried later and later, up to a day.
+
+import { rejectUnscheduled, createServiceClient, lookupHost } from './_cron'
+import { IcsImportService } from '../src/lib/services/icsImportService'
+
+export async function GET(request: Request): Promise<Response> {
+  const rejection = rejectUnscheduled(request)
+  if (rejection) {
+    return rejection
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return Response.json({ error: 'Missing Supabase environment variables' }, { status: 500 })
+  }
+
+  try {
+    const report = await IcsImportService.refreshDueFeeds({ client, lookup: lookupHost })
+    return Response.json(report)
+  } catch (error) {
+    console.error('Calendar feed refresh error:', error)
+    return Response.json({ error: 'Calendar feeds unavailable' }, { status: 503 })
+  }
+}
@@ -20,10 +20,13 @@ import { Dashboard } from './pages/Dashboard'
 import { CreateEvent } from './pages/CreateEvent'
 import { PublicEventPage } from './pages/PublicEventPage'
 import { AdminEventManager } from './pages/AdminEventManager'
+import { EventAdmin } from './pages/EventAdmin'
 import { EventsList } from './pages/EventsList'
 import { UpdatedBookingFlowPage } from './pages/UpdatedBookingFlow'
 import { AvailabilityPage } from './pages/Availability'
 import { BookingConfirmed } from './pages/BookingConfirmed'
+import { ManageBooking } from './pages/ManageBooking'
+import { Notifications } from './pages/Notifications'
 
 function App() {
   return (
@@ -42,6 +45,7 @@ function App() {
         <Route path="/event/:eventId" element={<PublicEventPage />} />
         <Route path="/events" element={<EventsList />} />
         <Route path="/booking/confirmed" element={<BookingConfirmed />} />
+        <Route path="/booking/manage" element={<ManageBooking />} />
 
         {/* FIXED: Feature-flagged booking route with path prop */}
         {featureFlags.ENABLE_BOOKING_ENGINE ? (
@@ -115,6 +119,14 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/events/:slug"
+          element={
+            <ProtectedRoute>
+              <EventAdmin />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/availability"
           element={
@@ -123,6 +135,14 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/notifications"
+          element={
+            <ProtectedRoute>
+              <Notifications />
+            </ProtectedRoute>
+          }
+        />
       </Routes>
     </Layout>
   )
@@ -53,7 +53,7 @@ export function BookingRouteGuard() {
     // FIX #3 & #4: Only verify lock validity when user returns to tab
     // This handles cases where user left tab and lock may have expired
     const handleVisibilityChange = () => {
-      if (!document.hidden && lockId && currentStep === 'fill-details') {
+      if (!document.hidden && lockId && (currentStep === 'fill-details' || currentStep === 'checkout')) {
         console.log('[BookingRouteGuard] Tab visible - verifying lock validity')
         verifyLockValidity()
       }
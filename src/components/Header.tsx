@@ -1,6 +1,7 @@
 import { Link, useNavigate } from 'react-router-dom'
 import { UserCircleIcon } from '@heroicons/react/24/outline'
 import { useAuth } from '../hooks/useAuth'
+import { NotificationBell } from './notifications/NotificationBell'
 import { useState } from 'react'
 
 export function Header() {
@@ -49,6 +50,7 @@ export function Header() {
           )}
           
           <div className="flex items-center space-x-4">
+            {isAuthenticated && user && <NotificationBell userId={user.id} />}
             {isAuthenticated ? (
               <div className="relative">
                 <button
@@ -85,6 +87,13 @@ export function Header() {
                     >
                       Availability
                     </Link>
+                    <Link
+                      to="/notifications"
+                      className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      onClick={() => setShowUserMenu(false)}
+                    >
+                      Notifications
+                    </Link>
                     <Link
                       to="/settings"
                       className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
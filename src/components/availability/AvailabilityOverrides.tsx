@@ -0,0 +1,465 @@
+// src/components/availability/AvailabilityOverrides.tsx
+// Month calendar and editor for date-specific availability overrides
+// (vacations, one-off busy blocks, extra hours)
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  ExclamationCircleIcon
+} from '@heroicons/react/24/outline'
+import { availabilityOverrideService, validateOverride } from '../../services/availabilityOverrideService'
+import { overrideAppliesOn } from '../../lib/availability'
+import type { AvailabilityOverride, AvailabilityOverrideInput } from '../../types'
+import type { AvailabilityType } from '../../types/database'
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const TYPE_OPTIONS: { value: AvailabilityType; label: string; className: string }[] = [
+  { value: 'unavailable', label: 'Unavailable', className: 'bg-red-100 text-red-800' },
+  { value: 'busy', label: 'Busy', className: 'bg-yellow-100 text-yellow-800' },
+  { value: 'available', label: 'Extra hours', className: 'bg-green-100 text-green-800' }
+]
+
+const typeOption = (type: AvailabilityType) =>
+  TYPE_OPTIONS.find(option => option.value === type) || TYPE_OPTIONS[0]
+
+// Calendar dates are handled as YYYY-MM-DD strings; UTC avoids local DST shifts
+const toDateString = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day)).toISOString().split('T')[0]
+
+const todayString = () => {
+  const now = new Date()
+  return toDateString(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+const emptyForm = (date: string): AvailabilityOverrideInput => ({
+  startDate: date,
+  endDate: date,
+  startTime: undefined,
+  endTime: undefined,
+  type: 'unavailable',
+  reason: '',
+  recurring: false,
+  daysOfWeek: []
+})
+
+const toFormInput = (override: AvailabilityOverride): AvailabilityOverrideInput => ({
+  startDate: override.startDate,
+  endDate: override.endDate,
+  startTime: override.startTime?.substring(0, 5),
+  endTime: override.endTime?.substring(0, 5),
+  type: override.type,
+  reason: override.reason || '',
+  recurring: override.recurring,
+  daysOfWeek: override.daysOfWeek || []
+})
+
+const describeWhen = (override: AvailabilityOverride) => {
+  const dates = override.startDate === override.endDate
+    ? override.startDate
+    : `${override.startDate} – ${override.endDate}`
+  const times = override.startTime && override.endTime
+    ? `${override.startTime.substring(0, 5)}–${override.endTime.substring(0, 5)}`
+    : 'All day'
+  const days = override.recurring && override.daysOfWeek?.length
+    ? `, every ${override.daysOfWeek.map(day => WEEKDAY_LABELS[day]).join(', ')}`
+    : ''
+  return `${dates}${days} · ${times}`
+}
+
+export function AvailabilityOverrides() {
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [month, setMonth] = useState(() => {
+    const now = new Date()
+    return { year: now.getFullYear(), month: now.getMonth() }
+  })
+
+  // null: form closed, 'new': creating, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<AvailabilityOverrideInput>(emptyForm(todayString()))
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchOverrides = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setOverrides(await availabilityOverrideService.getMyOverrides(todayString()))
+    } catch (err: any) {
+      console.error('Error fetching availability overrides:', err)
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOverrides()
+  }, [fetchOverrides])
+
+  const openNew = (date: string) => {
+    setEditingId('new')
+    setForm(emptyForm(date))
+    setFormError(null)
+  }
+
+  const openEdit = (override: AvailabilityOverride) => {
+    setEditingId(override.id)
+    setForm(toFormInput(override))
+    setFormError(null)
+  }
+
+  const closeForm = () => {
+    setEditingId(null)
+    setFormError(null)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationError = validateOverride(form)
+    if (validationError) {
+      setFormError(validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      if (editingId === 'new') {
+        await availabilityOverrideService.createOverride(form)
+      } else if (editingId) {
+        await availabilityOverrideService.updateOverride(editingId, form)
+      }
+
+      closeForm()
+      await fetchOverrides()
+    } catch (err: any) {
+      console.error('Error saving availability override:', err)
+      setFormError(err.message || 'Failed to save override')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (override: AvailabilityOverride) => {
+    if (!window.confirm(`Delete the override for ${describeWhen(override)}?`)) return
+
+    try {
+      await availabilityOverrideService.deleteOverride(override.id)
+      if (editingId === override.id) closeForm()
+      setOverrides(prev => prev.filter(o => o.id !== override.id))
+    } catch (err: any) {
+      console.error('Error deleting availability override:', err)
+      setError(err.message || 'Failed to delete override')
+    }
+  }
+
+  const shiftMonth = (delta: number) => {
+    setMonth(prev => {
+      const date = new Date(Date.UTC(prev.year, prev.month + delta, 1))
+      return { year: date.getUTCFullYear(), month: date.getUTCMonth() }
+    })
+  }
+
+  const firstWeekday = new Date(Date.UTC(month.year, month.month, 1)).getUTCDay()
+  const daysInMonth = new Date(Date.UTC(month.year, month.month + 1, 0)).getUTCDate()
+  const today = todayString()
+
+  const calendarCells: (string | null)[] = [
+    ...Array<null>(firstWeekday).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => toDateString(month.year, month.month, i + 1))
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Date Overrides</h2>
+          <p className="text-sm text-gray-600">
+            Block out time off or add extra hours on specific dates.
+          </p>
+        </div>
+        <button onClick={() => openNew(today)} className="btn-secondary flex items-center text-sm">
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Override
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 flex items-center text-red-600 bg-red-50 px-3 py-2 rounded-md text-sm">
+          <ExclamationCircleIcon className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Calendar */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => shiftMonth(-1)}
+              className="p-1 text-gray-500 hover:text-gray-900"
+              aria-label="Previous month"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <span className="font-medium text-gray-900">
+              {new Date(Date.UTC(month.year, month.month, 1)).toLocaleDateString(undefined, {
+                month: 'long',
+                year: 'numeric',
+                timeZone: 'UTC'
+              })}
+            </span>
+            <button
+              onClick={() => shiftMonth(1)}
+              className="p-1 text-gray-500 hover:text-gray-900"
+              aria-label="Next month"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+            {WEEKDAY_LABELS.map(label => <div key={label}>{label}</div>)}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {calendarCells.map((date, index) => {
+              if (!date) return <div key={`blank-${index}`} />
+
+              const dayOverrides = overrides.filter(override =>
+                // Rows start on Sunday, so the column is the weekday
+                overrideAppliesOn(override, date, index % 7)
+              )
+              const marker = dayOverrides[0] ? typeOption(dayOverrides[0].type).className : ''
+
+              return (
+                <button
+                  key={date}
+                  onClick={() => dayOverrides[0] ? openEdit(dayOverrides[0]) : openNew(date)}
+                  disabled={date < today}
+                  title={dayOverrides.map(o => `${typeOption(o.type).label}${o.reason ? `: ${o.reason}` : ''}`).join('\n')}
+                  className={`h-10 rounded-md text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                    marker || 'hover:bg-gray-100 text-gray-900'
+                  } ${date === today ? 'ring-2 ring-primary-600' : ''}`}
+                >
+                  {Number(date.split('-')[2])}
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="flex gap-4 mt-3 text-xs">
+            {TYPE_OPTIONS.map(option => (
+              <span key={option.value} className={`px-2 py-0.5 rounded ${option.className}`}>
+                {option.label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Form or list */}
+        <div>
+          {editingId ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <h3 className="font-medium text-gray-900">
+                {editingId === 'new' ? 'New Override' : 'Edit Override'}
+              </h3>
+
+              <div>
+                <label htmlFor="overrideType" className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  id="overrideType"
+                  className="input-field mt-1"
+                  value={form.type}
+                  onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as AvailabilityType }))}
+                >
+                  {TYPE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="overrideStartDate" className="block text-sm font-medium text-gray-700">From</label>
+                  <input
+                    type="date"
+                    id="overrideStartDate"
+                    className="input-field mt-1"
+                    value={form.startDate}
+                    onChange={(e) => setForm(prev => ({
+                      ...prev,
+                      startDate: e.target.value,
+                      endDate: prev.endDate < e.target.value ? e.target.value : prev.endDate
+                    }))}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="overrideEndDate" className="block text-sm font-medium text-gray-700">Until</label>
+                  <input
+                    type="date"
+                    id="overrideEndDate"
+                    className="input-field mt-1"
+                    value={form.endDate}
+                    onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                  checked={!form.startTime}
+                  onChange={(e) => setForm(prev => ({
+                    ...prev,
+                    startTime: e.target.checked ? undefined : '09:00',
+                    endTime: e.target.checked ? undefined : '17:00'
+                  }))}
+                />
+                All day
+              </label>
+
+              {form.startTime !== undefined && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="overrideStartTime" className="block text-sm font-medium text-gray-700">Start time</label>
+                    <input
+                      type="time"
+                      id="overrideStartTime"
+                      className="input-field mt-1"
+                      value={form.startTime}
+                      onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="overrideEndTime" className="block text-sm font-medium text-gray-700">End time</label>
+                    <input
+                      type="time"
+                      id="overrideEndTime"
+                      className="input-field mt-1"
+                      value={form.endTime || ''}
+                      onChange={(e) => setForm(prev => ({ ...prev, endTime: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                  checked={form.recurring}
+                  onChange={(e) => setForm(prev => ({ ...prev, recurring: e.target.checked }))}
+                />
+                Only on certain weekdays in this range
+              </label>
+
+              {form.recurring && (
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const selected = form.daysOfWeek?.includes(day)
+                    return (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => setForm(prev => ({
+                          ...prev,
+                          daysOfWeek: selected
+                            ? (prev.daysOfWeek || []).filter(d => d !== day)
+                            : [...(prev.daysOfWeek || []), day].sort()
+                        }))}
+                        className={`px-3 py-1 rounded-full text-sm border ${
+                          selected
+                            ? 'bg-primary-600 border-primary-600 text-white'
+                            : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="overrideReason" className="block text-sm font-medium text-gray-700">Reason</label>
+                <input
+                  type="text"
+                  id="overrideReason"
+                  className="input-field mt-1"
+                  placeholder="e.g. Holiday, Conference"
+                  value={form.reason || ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                />
+              </div>
+
+              {formError && (
+                <div className="flex items-center text-red-600 bg-red-50 px-3 py-2 rounded-md text-sm">
+                  <ExclamationCircleIcon className="h-5 w-5 mr-2" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={closeForm} className="btn-secondary">
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving} className="btn-primary disabled:opacity-50">
+                  {saving ? 'Saving...' : 'Save Override'}
+                </button>
+              </div>
+            </form>
+          ) : loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : overrides.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              No upcoming overrides. Click a date to add one.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {overrides.map(override => (
+                <li key={override.id} className="py-3 flex items-start justify-between">
+                  <div>
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${typeOption(override.type).className}`}>
+                      {typeOption(override.type).label}
+                    </span>
+                    <p className="text-sm text-gray-900 mt-1">{describeWhen(override)}</p>
+                    {override.reason && <p className="text-sm text-gray-500">{override.reason}</p>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => openEdit(override)}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      aria-label="Edit override"
+                    >
+                      <PencilSquareIcon className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(override)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label="Delete override"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+// src/components/availability/BusyCalendarFeeds.tsx
+// ICS files and feed URLs whose events block booking slots
+
+import { useState, useEffect, useCallback } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  ExclamationCircleIcon,
+  LinkIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+import { calendarService } from '../../services/calendarService'
+import { detectTimeZone } from '../../lib/timezone'
+import type { CalendarFeed } from '../../types/database'
+
+export function BusyCalendarFeeds() {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [name, setName] = useState('')
+  const [url, setUrl] = useState('')
+  const [working, setWorking] = useState<string | null>(null)
+
+  const fetchFeeds = useCallback(async () => {
+    try {
+      setLoading(true)
+      setFeeds(await calendarService.getMyFeeds())
+    } catch (err: any) {
+      console.error('Error fetching calendar feeds:', err)
+      setError(err.message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchFeeds()
+  }, [fetchFeeds])
+
+  // Runs an action, shows its error and reloads the list either way
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    try {
+      setWorking(key)
+      setError(null)
+      await action()
+    } catch (err: any) {
+      console.error('Calendar feed error:', err)
+      setError(err.message)
+    } finally {
+      setWorking(null)
+      await fetchFeeds()
+    }
+  }
+
+  const handleSubscribe = (e: React.FormEvent) => {
+    e.preventDefault()
+    run('new', async () => {
+      const feed = await calendarService.createFeed(name || 'Subscribed calendar', url)
+      setName('')
+      setUrl('')
+      await calendarService.refreshFeed(feed.id)
+    })
+  }
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    run('upload', async () => {
+      const feed = await calendarService.createFeed(name || file.name.replace(/\.ics$/i, ''))
+      setName('')
+      await calendarService.importFeedFile(feed, await file.text(), detectTimeZone())
+    })
+  }
+
+  const describeStatus = (feed: CalendarFeed) => {
+    if (feed.last_error && feed.source_url && feed.next_fetch_at) {
+      return `${feed.last_error}. Trying again ${formatDistanceToNow(new Date(feed.next_fetch_at), { addSuffix: true })}.`
+    }
+    if (feed.last_error) return feed.last_error
+    if (!feed.last_fetched_at) return 'Not imported yet'
+    const when = formatDistanceToNow(new Date(feed.last_fetched_at), { addSuffix: true })
+    return feed.source_url ? `Updated ${when}` : `Uploaded ${when}`
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Busy Calendars</h2>
+        <p className="text-sm text-gray-600">
+          Events in these calendars block the slots they overlap. Subscribed feeds are checked for changes every hour.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 flex items-center text-red-600 bg-red-50 px-3 py-2 rounded-md text-sm">
+          <ExclamationCircleIcon className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading calendars...</p>
+        ) : feeds.length === 0 ? (
+          <p className="text-sm text-gray-500">No calendars added yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {feeds.map(feed => (
+              <li key={feed.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{feed.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{feed.source_url || 'Uploaded file'}</p>
+                  <p className={`text-xs ${feed.last_error ? 'text-red-600' : 'text-gray-500'}`}>
+                    {describeStatus(feed)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-1"
+                      checked={feed.is_enabled}
+                      disabled={working !== null}
+                      onChange={() => run(feed.id, () =>
+                        calendarService.updateFeed(feed.id, { is_enabled: !feed.is_enabled })
+                      )}
+                    />
+                    Blocks slots
+                  </label>
+                  {feed.source_url && (
+                    <button
+                      onClick={() => run(feed.id, () =>
+                        calendarService.refreshFeed(feed.id)
+                      )}
+                      disabled={working !== null}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-50"
+                      aria-label={`Refresh ${feed.name}`}
+                    >
+                      <ArrowPathIcon className={`h-5 w-5 ${working === feed.id ? 'animate-spin' : ''}`} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => run(feed.id, () => calendarService.deleteFeed(feed.id))}
+                    disabled={working !== null}
+                    className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Remove ${feed.name}`}
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubscribe} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div>
+            <label htmlFor="feedName" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="feedName"
+              className="input-field mt-1"
+              placeholder="Work calendar"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="feedUrl" className="block text-sm font-medium text-gray-700">Feed URL</label>
+            <input
+              id="feedUrl"
+              type="url"
+              className="input-field mt-1"
+              placeholder="webcal://..."
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!url || working !== null}
+              className="btn-primary flex items-center text-sm disabled:opacity-50"
+            >
+              <LinkIcon className="h-4 w-4 mr-1" />
+              Subscribe
+            </button>
+            <label className={`btn-secondary flex items-center text-sm cursor-pointer ${working !== null ? 'opacity-50 pointer-events-none' : ''}`}>
+              <ArrowUpTrayIcon className="h-4 w-4 mr-1" />
+              Upload .ics
+              <input type="file" accept=".ics,text/calendar" className="sr-only" onChange={handleUpload} />
+            </label>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+// src/components/booking/CheckoutStep.tsx
+// UI-ONLY VERSION - Payment is collected by the booking store
+// Order summary and pay button for paid slots
+
+import {
+  CreditCardIcon,
+  LockClosedIcon,
+  ClockIcon
+} from '@heroicons/react/24/outline'
+import {
+  detectTimeZone,
+  formatTimeRange,
+  formatDateInTimeZone,
+  getTimeZoneAbbreviation
+} from '../../lib/timezone'
+import { formatCurrency } from '../../lib/utils'
+
+interface SlotAvailability {
+  slotId: string
+  startTime: string
+  endTime: string
+  totalCapacity: number
+  availableCount: number
+  price: number
+}
+
+interface CheckoutStepProps {
+  selectedSlot: SlotAvailability
+  selectedQuantity: number
+  /** Server-computed total; until checkout starts the slot price is shown */
+  amount?: number
+  currency?: string
+  timeRemaining?: number
+  onPay: () => void
+  onBack: () => void
+  loading?: boolean
+  timeZone?: string
+}
+
+export function CheckoutStep({
+  selectedSlot,
+  selectedQuantity,
+  amount,
+  currency = 'USD',
+  timeRemaining = 0,
+  onPay,
+  onBack,
+  loading,
+  timeZone = detectTimeZone()
+}: CheckoutStepProps) {
+  const total = amount ?? selectedSlot.price * selectedQuantity
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60)
+    const secs = seconds % 60
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+  }
+
+  return (
+    <div className="space-y-6">
+      {timeRemaining > 0 && (
+        <div className={`border-l-4 p-4 rounded-r-lg flex items-center ${
+          timeRemaining <= 60
+            ? 'text-red-600 bg-red-50 border-red-500 animate-pulse'
+            : 'text-green-600 bg-green-50 border-green-500'
+        }`}>
+          <ClockIcon className="h-5 w-5 mr-2" />
+          <p className="text-sm font-semibold">
+            Your spot is held for <span className="font-bold text-lg">{formatTime(timeRemaining)}</span> while you pay
+          </p>
+        </div>
+      )}
+
+      {/* Order Summary */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        <div className="p-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Order Summary</h3>
+          <p className="text-sm text-gray-700">
+            {formatDateInTimeZone(selectedSlot.startTime, timeZone)}
+          </p>
+          <p className="text-sm text-gray-700">
+            {formatTimeRange(selectedSlot.startTime, selectedSlot.endTime, timeZone)}{' '}
+            {getTimeZoneAbbreviation(timeZone, selectedSlot.startTime)}
+          </p>
+        </div>
+        <div className="p-4 flex justify-between text-sm text-gray-700">
+          <span>
+            {formatCurrency(selectedSlot.price, currency)} × {selectedQuantity} seat{selectedQuantity > 1 ? 's' : ''}
+          </span>
+          <span>{formatCurrency(selectedSlot.price * selectedQuantity, currency)}</span>
+        </div>
+        <div className="p-4 flex justify-between font-semibold text-gray-900">
+          <span>Total</span>
+          <span>{formatCurrency(total, currency)}</span>
+        </div>
+      </div>
+
+      <div className="flex gap-3 pt-4 border-t">
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={loading}
+          className="flex-1 btn-secondary disabled:opacity-50"
+        >
+          Edit Details
+        </button>
+        <button
+          type="button"
+          onClick={onPay}
+          disabled={loading}
+          className="flex-1 btn-primary disabled:opacity-50 flex items-center justify-center"
+        >
+          <CreditCardIcon className="h-5 w-5 mr-2" />
+          {loading ? 'Processing Payment...' : `Pay ${formatCurrency(total, currency)}`}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 text-center flex items-center justify-center">
+        <LockClosedIcon className="h-4 w-4 mr-1" />
+        Your booking is confirmed as soon as the payment goes through
+      </p>
+    </div>
+  )
+}
@@ -10,9 +10,20 @@ import {
   ShareIcon,
   ClockIcon,
   UserIcon,
-  DocumentDuplicateIcon
+  DocumentDuplicateIcon,
+  CreditCardIcon,
+  VideoCameraIcon
 } from '@heroicons/react/24/outline'
 import { ConfirmedBooking } from '../../types/booking'
+import { formatCurrency } from '../../lib/utils'
+import { formatPhoneNumber } from '../../lib/phone'
+import {
+  formatTimeRange,
+  formatDateInTimeZone,
+  getTimeZoneAbbreviation,
+  zonedTimeToUtc
+} from '../../lib/timezone'
+import { bookingCalendar } from '../../lib/ical'
 
 interface EnhancedBookingConfirmationProps {
   booking: ConfirmedBooking
@@ -25,6 +36,8 @@ export function EnhancedBookingConfirmation({
 }: EnhancedBookingConfirmationProps) {
   const [copied, setCopied] = useState(false)
   const [downloading, setDownloading] = useState(false)
+  // Events that require approval hold the spot as 'pending' until the organizer decides
+  const awaitingApproval = booking.status === 'pending'
 
   const handleCopyReference = async () => {
     try {
@@ -40,27 +53,22 @@ export function EnhancedBookingConfirmation({
     setDownloading(true)
     
     try {
-      const dateOnly = booking.date.replace(/-/g, '')
-      const timeOnly = booking.time.replace(/:/g, '').substring(0, 6)
-      const startTimestamp = `${dateOnly}T${timeOnly}Z`
-      
-      const event = {
-        title: `Booking ${booking.bookingReference}`,
-        description: `Your booking has been confirmed. Reference: ${booking.bookingReference}`
-      }
+      // date/time are wall-clock in booking.timeZone
+      const start = booking.startTime
+        ? new Date(booking.startTime)
+        : zonedTimeToUtc(booking.date, booking.time.substring(0, 5), booking.timeZone)
+      const end = booking.endTime ? new Date(booking.endTime) : start
 
-      const icsContent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//Schedlyx//Booking System//EN
-BEGIN:VEVENT
-UID:${booking.id}@schedlyx.app
-DTSTAMP:${new Date().toISOString().replace(/[-:]/g, '').split('.')[0]}Z
-DTSTART:${startTimestamp}
-SUMMARY:${event.title}
-DESCRIPTION:${event.description}
-STATUS:CONFIRMED
-END:VEVENT
-END:VCALENDAR`
+      const icsContent = bookingCalendar({
+        bookingId: booking.id,
+        start,
+        end,
+        timeZone: booking.timeZone,
+        summary: `Booking ${booking.bookingReference}`,
+        description: `Your booking has been confirmed. Reference: ${booking.bookingReference}`,
+        location: booking.meetingUrl || undefined,
+        url: booking.meetingUrl || undefined
+      })
 
       const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' })
       const url = URL.createObjectURL(blob)
@@ -111,10 +119,12 @@ END:VCALENDAR`
           </div>
         </div>
         <h2 className="text-3xl font-bold text-gray-900 mt-6">
-          Booking Confirmed!
+          {awaitingApproval ? 'Request Received!' : 'Booking Confirmed!'}
         </h2>
         <p className="mt-2 text-lg text-gray-600">
-          Your spot has been successfully reserved
+          {awaitingApproval
+            ? 'Your spot is held while the organizer reviews your request'
+            : 'Your spot has been successfully reserved'}
         </p>
       </div>
 
@@ -181,7 +191,7 @@ END:VCALENDAR`
               <div className="flex-1">
                 <p className="text-sm text-gray-600">Phone</p>
                 <p className="text-base font-semibold text-gray-900 mt-1">
-                  {booking.phone}
+                  {formatPhoneNumber(booking.phone)}
                 </p>
               </div>
             </div>
@@ -192,28 +202,85 @@ END:VCALENDAR`
             <CalendarIcon className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
             <div className="flex-1">
               <p className="text-sm text-gray-600">Date & Time</p>
-              <p className="text-base font-semibold text-gray-900 mt-1">
-                {new Date(booking.date).toLocaleDateString('en-US', {
-                  weekday: 'long',
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
-              </p>
-              <p className="text-sm text-gray-600 mt-1 flex items-center">
-                <ClockIcon className="h-4 w-4 mr-1" />
-                {booking.time}
-              </p>
+              {booking.startTime && booking.endTime ? (
+                <>
+                  <p className="text-base font-semibold text-gray-900 mt-1">
+                    {formatDateInTimeZone(booking.startTime, booking.timeZone)}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1 flex items-center">
+                    <ClockIcon className="h-4 w-4 mr-1" />
+                    {formatTimeRange(booking.startTime, booking.endTime, booking.timeZone)}{' '}
+                    {getTimeZoneAbbreviation(booking.timeZone, booking.startTime)} (your time)
+                  </p>
+                  {booking.eventTimeZone !== booking.timeZone && (
+                    <p className="text-sm text-gray-600 mt-1 flex items-center">
+                      <ClockIcon className="h-4 w-4 mr-1" />
+                      {formatDateInTimeZone(booking.startTime, booking.eventTimeZone)},{' '}
+                      {formatTimeRange(booking.startTime, booking.endTime, booking.eventTimeZone)}{' '}
+                      {getTimeZoneAbbreviation(booking.eventTimeZone, booking.startTime)} (organizer's time)
+                    </p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="text-base font-semibold text-gray-900 mt-1">
+                    {booking.date}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1 flex items-center">
+                    <ClockIcon className="h-4 w-4 mr-1" />
+                    {booking.time.substring(0, 5)} {booking.timeZone.replace(/_/g, ' ')}
+                  </p>
+                </>
+              )}
             </div>
           </div>
 
+          {/* Meeting link */}
+          {(booking.meetingUrl || booking.meetingStatus === 'pending') && (
+            <div className="flex items-start py-3 border-b border-gray-100">
+              <VideoCameraIcon className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+              <div className="flex-1">
+                <p className="text-sm text-gray-600">Online meeting</p>
+                {booking.meetingUrl ? (
+                  <a
+                    href={booking.meetingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-base font-semibold text-primary-600 hover:text-primary-700 underline mt-1 inline-block break-all"
+                  >
+                    Join meeting
+                  </a>
+                ) : (
+                  <p className="text-sm text-gray-900 mt-1">
+                    Your join link is on its way and will be in your reminder email
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Payment */}
+          {booking.paymentStatus === 'paid' && booking.paymentAmount !== null && (
+            <div className="flex items-start py-3">
+              <CreditCardIcon className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+              <div className="flex-1">
+                <p className="text-sm text-gray-600">Paid</p>
+                <p className="font-semibold text-gray-900">
+                  {formatCurrency(booking.paymentAmount, booking.paymentCurrency)}
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Status */}
           <div className="flex items-start py-3">
             <CheckCircleIcon className="h-5 w-5 text-green-500 mr-3 mt-0.5" />
             <div className="flex-1">
               <p className="text-sm text-gray-600">Status</p>
-              <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 mt-1">
-                {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+              <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium mt-1 ${
+                awaitingApproval ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+              }`}>
+                {awaitingApproval ? 'Awaiting approval' : booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
               </span>
             </div>
           </div>
@@ -8,6 +8,26 @@ import {
   CheckCircleIcon,
   InformationCircleIcon
 } from '@heroicons/react/24/outline'
+import {
+  detectTimeZone,
+  formatTimeRange,
+  formatDateInTimeZone,
+  getTimeZoneAbbreviation
+} from '../../lib/timezone'
+import {
+  validateCustomResponse,
+  validateCustomResponses,
+  cleanCustomResponses,
+  MAX_TEXT_LENGTH,
+  MAX_LONG_TEXT_LENGTH
+} from '../../lib/customFields'
+import {
+  PHONE_COUNTRIES,
+  normalizePhoneNumber,
+  formatPhoneNumber,
+  phoneCountryFromLocale
+} from '../../lib/phone'
+import type { CustomField, CustomResponses, CustomResponseValue } from '../../types/database'
 
 interface BookingFormData {
   firstName: string
@@ -15,6 +35,8 @@ interface BookingFormData {
   email: string
   phone?: string
   notes?: string
+  customResponses?: CustomResponses
+  smsOptIn?: boolean
 }
 
 interface SlotAvailability {
@@ -35,6 +57,10 @@ interface EnhancedBookingFormProps {
   onSubmit: () => void
   onCancel: () => void
   loading?: boolean
+  /** Zone the slot is shown in; defaults to the browser's zone */
+  timeZone?: string
+  /** The event's intake questions, asked after the contact details */
+  customFields?: CustomField[]
 }
 
 interface FormErrors {
@@ -49,12 +75,20 @@ export function EnhancedBookingForm({
   onUpdateFormData,
   onSubmit,
   onCancel,
-  loading
+  loading,
+  timeZone = detectTimeZone(),
+  customFields = []
 }: EnhancedBookingFormProps) {
   const [errors, setErrors] = useState<FormErrors>({})
   const [touched, setTouched] = useState<Record<string, boolean>>({})
+  // National numbers are read in this country; +/00 numbers carry their own
+  const [phoneCountry, setPhoneCountry] = useState(() => phoneCountryFromLocale())
 
-  const validateField = (name: string, value: string): string | null => {
+  const responses = formData.customResponses || {}
+  // Custom answers share the errors/touched maps with the contact fields
+  const customKey = (fieldId: string) => `custom:${fieldId}`
+
+  const validateField = (name: string, value: string, country: string = phoneCountry): string | null => {
     switch (name) {
       case 'firstName':
         if (!value.trim()) return 'First name is required'
@@ -75,7 +109,10 @@ export function EnhancedBookingForm({
         return null
 
       case 'phone':
-        if (value && !/^[\d\s\-\+\(\)]+$/.test(value)) {
+        if (!value.trim()) {
+          return formData.smsOptIn ? 'Enter a phone number to get text messages' : null
+        }
+        if (!normalizePhoneNumber(value, country)) {
           return 'Please enter a valid phone number'
         }
         return null
@@ -97,9 +134,12 @@ export function EnhancedBookingForm({
     const emailError = validateField('email', formData.email)
     if (emailError) newErrors.email = emailError
 
-    if (formData.phone) {
-      const phoneError = validateField('phone', formData.phone)
-      if (phoneError) newErrors.phone = phoneError
+    const phoneError = validateField('phone', formData.phone || '')
+    if (phoneError) newErrors.phone = phoneError
+
+    const customErrors = validateCustomResponses(customFields, responses)
+    for (const [fieldId, error] of Object.entries(customErrors)) {
+      newErrors[customKey(fieldId)] = error
     }
 
     setErrors(newErrors)
@@ -126,11 +166,57 @@ export function EnhancedBookingForm({
     })
   }
 
-  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name } = e.target
     setTouched(prev => ({ ...prev, [name]: true }))
   }
 
+  const setPhoneError = (error: string | null) => {
+    setErrors(prev => {
+      const newErrors = { ...prev }
+      if (error) {
+        newErrors.phone = error
+      } else {
+        delete newErrors.phone
+      }
+      return newErrors
+    })
+  }
+
+  // Show valid numbers in international format once typed
+  const handlePhoneBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    handleBlur(e)
+    const normalized = normalizePhoneNumber(e.target.value, phoneCountry)
+    if (normalized) onUpdateFormData({ phone: formatPhoneNumber(normalized) })
+  }
+
+  const handlePhoneCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setPhoneCountry(e.target.value)
+    if (formData.phone) setPhoneError(validateField('phone', formData.phone, e.target.value))
+  }
+
+  const handleSmsOptInChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onUpdateFormData({ smsOptIn: e.target.checked })
+    if (!e.target.checked && !formData.phone?.trim()) setPhoneError(null)
+  }
+
+  const handleCustomChange = (field: CustomField, value: CustomResponseValue) => {
+    const key = customKey(field.id)
+    onUpdateFormData({ customResponses: { ...responses, [field.id]: value } })
+    setTouched(prev => ({ ...prev, [key]: true }))
+
+    const error = validateCustomResponse(field, value)
+    setErrors(prev => {
+      const newErrors = { ...prev }
+      if (error) {
+        newErrors[key] = error
+      } else {
+        delete newErrors[key]
+      }
+      return newErrors
+    })
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -140,10 +226,17 @@ export function EnhancedBookingForm({
       lastName: true,
       email: true,
       phone: true,
-      notes: true
+      notes: true,
+      ...Object.fromEntries(customFields.map(field => [customKey(field.id), true]))
     })
     
     if (validateForm()) {
+      // Only answered questions are sent, with text trimmed and numbers parsed
+      onUpdateFormData({
+        customResponses: cleanCustomResponses(customFields, responses),
+        phone: formData.phone ? normalizePhoneNumber(formData.phone, phoneCountry) || '' : '',
+        smsOptIn: !!formData.smsOptIn
+      })
       onSubmit()
     }
   }
@@ -154,17 +247,8 @@ export function EnhancedBookingForm({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  const formatSlotTime = (startTime: string, endTime: string): string => {
-    const start = new Date(startTime)
-    const end = new Date(endTime)
-    return `${start.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })} - ${end.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })}`
-  }
+  const formatSlotTime = (startTime: string, endTime: string): string =>
+    `${formatTimeRange(startTime, endTime, timeZone)} ${getTimeZoneAbbreviation(timeZone, startTime)}`
 
   const getTimerColor = () => {
     if (timeRemaining <= 60) return 'text-red-600 bg-red-50 border-red-500'
@@ -181,7 +265,109 @@ export function EnhancedBookingForm({
   const isFormValid = Object.keys(errors).length === 0 && 
                       formData.firstName && 
                       formData.lastName && 
-                      formData.email
+                      formData.email &&
+                      (!formData.smsOptIn || !!formData.phone?.trim()) &&
+                      customFields.every(field => !field.required || !validateCustomResponse(field, responses[field.id]))
+
+  const renderCustomInput = (field: CustomField) => {
+    const key = customKey(field.id)
+    const value = responses[field.id]
+    const hasError = touched[key] && errors[key]
+    const className = `input-field ${hasError ? 'border-red-500 focus:ring-red-500' : ''}`
+
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            id={key}
+            name={key}
+            rows={3}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => handleCustomChange(field, e.target.value)}
+            onBlur={handleBlur}
+            className={`${className} resize-none`}
+            placeholder={field.placeholder}
+            disabled={loading}
+            maxLength={MAX_LONG_TEXT_LENGTH}
+          />
+        )
+
+      case 'select':
+        return (
+          <select
+            id={key}
+            name={key}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => handleCustomChange(field, e.target.value)}
+            onBlur={handleBlur}
+            className={className}
+            disabled={loading}
+          >
+            <option value="">{field.placeholder || 'Select an option'}</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : []
+        return (
+          <div className="space-y-2">
+            {(field.options || []).map(option => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) => handleCustomChange(
+                    field,
+                    e.target.checked
+                      ? [...selected, option]
+                      : selected.filter(item => item !== option)
+                  )}
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                  disabled={loading}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        )
+      }
+
+      case 'checkbox':
+        return (
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              id={key}
+              name={key}
+              checked={value === true}
+              onChange={(e) => handleCustomChange(field, e.target.checked)}
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+              disabled={loading}
+            />
+            {field.placeholder || 'Yes'}
+          </label>
+        )
+
+      default:
+        return (
+          <input
+            type={field.type === 'number' ? 'number' : field.type === 'phone' ? 'tel' : 'text'}
+            id={key}
+            name={key}
+            value={typeof value === 'string' || typeof value === 'number' ? value : ''}
+            onChange={(e) => handleCustomChange(field, e.target.value)}
+            onBlur={handleBlur}
+            className={className}
+            placeholder={field.placeholder}
+            disabled={loading}
+            maxLength={field.type === 'text' ? MAX_TEXT_LENGTH : undefined}
+          />
+        )
+    }
+  }
 
   return (
     <div className="space-y-6">
@@ -219,12 +405,7 @@ export function EnhancedBookingForm({
                 {formatSlotTime(selectedSlot.startTime, selectedSlot.endTime)}
               </p>
               <p>
-                {new Date(selectedSlot.startTime).toLocaleDateString('en-US', {
-                  weekday: 'long',
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
+                {formatDateInTimeZone(selectedSlot.startTime, timeZone)}
               </p>
               <p className="text-xs pt-2 border-t border-primary-200">
                 Quantity: <span className="font-semibold">{selectedQuantity}</span> slot{selectedQuantity > 1 ? 's' : ''}
@@ -366,23 +547,40 @@ export function EnhancedBookingForm({
         {/* Phone (Optional) */}
         <div>
           <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
-            Phone Number <span className="text-gray-500 text-xs">(Optional)</span>
+            Phone Number{' '}
+            {formData.smsOptIn ? '*' : <span className="text-gray-500 text-xs">(Optional)</span>}
           </label>
-          <input
-            type="tel"
-            id="phone"
-            name="phone"
-            value={formData.phone || ''}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            className={`input-field ${
-              touched.phone && errors.phone 
-                ? 'border-red-500 focus:ring-red-500' 
-                : ''
-            }`}
-            disabled={loading}
-            placeholder="+1 (555) 123-4567"
-          />
+          <div className="flex gap-2">
+            <select
+              value={phoneCountry}
+              onChange={handlePhoneCountryChange}
+              className="input-field w-28"
+              disabled={loading}
+              aria-label="Phone number country"
+            >
+              {PHONE_COUNTRIES.map(country => (
+                <option key={country.code} value={country.code}>
+                  {country.code} +{country.dialCode}
+                </option>
+              ))}
+            </select>
+            <input
+              type="tel"
+              id="phone"
+              name="phone"
+              value={formData.phone || ''}
+              onChange={handleChange}
+              onBlur={handlePhoneBlur}
+              className={`input-field flex-1 ${
+                touched.phone && errors.phone 
+                  ? 'border-red-500 focus:ring-red-500' 
+                  : ''
+              }`}
+              disabled={loading}
+              placeholder="(555) 123-4567"
+              autoComplete="tel"
+            />
+          </div>
           {touched.phone && errors.phone && (
             <div className="flex items-center mt-1 text-xs text-red-600">
               <ExclamationCircleIcon className="h-4 w-4 mr-1" />
@@ -392,8 +590,38 @@ export function EnhancedBookingForm({
           <p className="mt-1 text-xs text-gray-500">
             We'll only contact you about this booking
           </p>
+          <div className="flex items-center mt-2">
+            <input
+              id="smsOptIn"
+              type="checkbox"
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              checked={!!formData.smsOptIn}
+              onChange={handleSmsOptInChange}
+              disabled={loading}
+            />
+            <label htmlFor="smsOptIn" className="ml-2 block text-sm text-gray-700">
+              Text me my booking confirmation and reminders
+            </label>
+          </div>
         </div>
 
+        {/* Custom Questions */}
+        {customFields.map(field => (
+          <div key={field.id}>
+            <label htmlFor={customKey(field.id)} className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label}{' '}
+              {field.required ? '*' : <span className="text-gray-500 text-xs">(Optional)</span>}
+            </label>
+            {renderCustomInput(field)}
+            {touched[customKey(field.id)] && errors[customKey(field.id)] && (
+              <div className="flex items-center mt-1 text-xs text-red-600">
+                <ExclamationCircleIcon className="h-4 w-4 mr-1" />
+                {errors[customKey(field.id)]}
+              </div>
+            )}
+          </div>
+        ))}
+
         {/* Notes (Optional) */}
         <div>
           <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
@@ -461,10 +689,10 @@ export function EnhancedBookingForm({
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"/>
                 </svg>
-                Confirming Booking...
+                {selectedSlot.price > 0 ? 'Starting Checkout...' : 'Confirming Booking...'}
               </span>
             ) : (
-              `Confirm Booking`
+              selectedSlot.price > 0 ? 'Continue to Payment' : 'Confirm Booking'
             )}
           </button>
         </div>
@@ -13,6 +13,15 @@ import {
   ArrowPathIcon,
   InformationCircleIcon
 } from '@heroicons/react/24/outline'
+import { TimeZoneSelect } from './TimeZoneSelect'
+import { WaitlistJoinForm } from './WaitlistJoinForm'
+import {
+  detectTimeZone,
+  formatTimeRange,
+  formatDateInTimeZone,
+  getDateInTimeZone,
+  getTimeZoneAbbreviation
+} from '../../lib/timezone'
 
 interface SlotAvailability {
   slotId: string
@@ -23,6 +32,13 @@ interface SlotAvailability {
   price: number
 }
 
+interface WaitlistJoinData {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+}
+
 interface GroupedSlots {
   date: string
   dateObj: Date
@@ -39,6 +55,20 @@ interface EnhancedSlotSelectorProps {
   onSelectSlot: (slot: SlotAvailability, quantity: number) => void
   onRefresh?: () => void
   maxQuantity?: number
+  /** Zone slots are shown in; defaults to the browser's zone */
+  timeZone?: string
+  /** Organizer's zone, shown for reference when it differs */
+  eventTimeZone?: string
+  /** Renders the zone switcher when provided */
+  onTimeZoneChange?: (timeZone: string) => void
+  /** Offers the waitlist on full slots when provided; resolves true once joined */
+  onJoinWaitlist?: (slot: SlotAvailability, data: WaitlistJoinData, quantity: number) => Promise<boolean>
+  /** Waitlist positions for slots already joined, keyed by slot ID */
+  waitlistPositions?: Record<string, number>
+  /** Seat count that can't be changed (rescheduling); hides the quantity picker */
+  fixedQuantity?: number
+  /** Overrides the confirm button text */
+  confirmLabel?: string
 }
 
 export function EnhancedSlotSelector({ 
@@ -48,23 +78,26 @@ export function EnhancedSlotSelector({
   lastRefresh,
   onSelectSlot,
   onRefresh,
-  maxQuantity = 10
+  maxQuantity = 10,
+  timeZone = detectTimeZone(),
+  eventTimeZone,
+  onTimeZoneChange,
+  onJoinWaitlist,
+  waitlistPositions = {},
+  fixedQuantity,
+  confirmLabel
 }: EnhancedSlotSelectorProps) {
   const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null)
-  const [selectedQuantity, setSelectedQuantity] = useState<number>(1)
+  const [waitlistSlotId, setWaitlistSlotId] = useState<string | null>(null)
+  const [selectedQuantity, setSelectedQuantity] = useState<number>(fixedQuantity ?? 1)
   const [quantityError, setQuantityError] = useState<string | null>(null)
 
   const groupSlotsByDate = (slots: SlotAvailability[]): GroupedSlots[] => {
     const grouped: { [key: string]: SlotAvailability[] } = {}
 
+    // Group by calendar day in the display zone, not the browser's
     slots.forEach(slot => {
-      const dateObj = new Date(slot.startTime)
-      const dateKey = dateObj.toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      })
+      const dateKey = getDateInTimeZone(slot.startTime, timeZone)
       
       if (!grouped[dateKey]) {
         grouped[dateKey] = []
@@ -72,8 +105,8 @@ export function EnhancedSlotSelector({
       grouped[dateKey].push(slot)
     })
 
-    return Object.entries(grouped).map(([date, slots]) => ({
-      date,
+    return Object.entries(grouped).map(([, slots]) => ({
+      date: formatDateInTimeZone(slots[0].startTime, timeZone),
       dateObj: new Date(slots[0].startTime),
       slots: slots.sort((a, b) => 
         new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
@@ -129,26 +162,17 @@ export function EnhancedSlotSelector({
     }
   }
 
-  const formatSlotTime = (startTime: string, endTime: string): string => {
-    const start = new Date(startTime)
-    const end = new Date(endTime)
-    return `${start.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })} - ${end.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })}`
-  }
+  const formatSlotTime = (startTime: string, endTime: string): string =>
+    formatTimeRange(startTime, endTime, timeZone)
 
   const handleSlotClick = (slot: SlotAvailability) => {
-    if (slot.availableCount === 0 || loading) return
+    if (slot.availableCount < (fixedQuantity ?? 1) || loading) return
     
     setSelectedSlotId(slot.slotId)
     setQuantityError(null)
     
     // Reset quantity if it exceeds new slot's capacity
-    if (selectedQuantity > slot.availableCount) {
+    if (!fixedQuantity && selectedQuantity > slot.availableCount) {
       setSelectedQuantity(Math.min(1, slot.availableCount))
     }
   }
@@ -179,7 +203,15 @@ export function EnhancedSlotSelector({
     onSelectSlot(slot, selectedQuantity)
   }
 
+  const handleJoinWaitlist = async (slot: SlotAvailability, data: WaitlistJoinData, quantity: number) => {
+    if (!onJoinWaitlist) return
+    const joined = await onJoinWaitlist(slot, data, quantity)
+    if (joined) setWaitlistSlotId(null)
+  }
+
   const selectedSlot = slots.find(s => s.slotId === selectedSlotId)
+  const waitlistSlot = slots.find(s => s.slotId === waitlistSlotId)
+  const bookableCount = slots.filter(s => s.availableCount > 0).length
 
   // Loading state
   if (loading && slots.length === 0) {
@@ -252,8 +284,22 @@ export function EnhancedSlotSelector({
             Select a Time Slot
           </h2>
           <p className="text-sm text-gray-600 mt-1">
-            {slots.length} slot{slots.length !== 1 ? 's' : ''} available
+            {bookableCount} slot{bookableCount !== 1 ? 's' : ''} available
           </p>
+          {onTimeZoneChange ? (
+            <div className="mt-2">
+              <TimeZoneSelect
+                value={timeZone}
+                onChange={onTimeZoneChange}
+                eventTimeZone={eventTimeZone}
+                disabled={loading}
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 mt-1">
+              Times shown in {timeZone.replace(/_/g, ' ')} ({getTimeZoneAbbreviation(timeZone)})
+            </p>
+          )}
         </div>
         {onRefresh && lastRefresh && (
           <div className="flex items-center gap-3">
@@ -321,85 +367,115 @@ export function EnhancedSlotSelector({
               const isAvailable = slot.availableCount > 0
 
               return (
-                <button
-                  key={slot.slotId}
-                  onClick={() => handleSlotClick(slot)}
-                  disabled={!isAvailable || loading}
-                  className={`
-                    relative p-4 rounded-lg border-2 transition-all text-left
-                    ${isSelected 
-                      ? 'border-primary-600 bg-primary-50 ring-2 ring-primary-600' 
-                      : getCapacityBgColor(capacityLevel, false)
-                    }
-                    ${isAvailable && !loading
-                      ? 'cursor-pointer hover:shadow-md' 
-                      : 'opacity-60 cursor-not-allowed'
-                    }
-                  `}
-                >
-                  {/* Time */}
-                  <div className="flex items-center mb-2">
-                    <ClockIcon className="h-4 w-4 text-gray-500 mr-2" />
-                    <span className="text-sm font-medium text-gray-900">
-                      {formatSlotTime(slot.startTime, slot.endTime)}
-                    </span>
-                  </div>
-
-                  {/* Capacity Badge */}
-                  <div className={`
-                    inline-flex items-center px-2.5 py-1 rounded-md text-xs font-medium
-                    border ${capacityLevel === 'full' ? 'bg-gray-100 border-gray-300' : ''}
-                  `}>
-                    <div className="flex items-center gap-1.5">
-                      {getCapacityIcon(capacityLevel)}
-                      <UserGroupIcon className="h-3.5 w-3.5" />
-                      <span className={getCapacityColor(capacityLevel)}>
-                        {getCapacityMessage(capacityLevel, slot.availableCount)}
+                <div key={slot.slotId} className="flex flex-col">
+                  <button
+                    onClick={() => handleSlotClick(slot)}
+                    disabled={!isAvailable || loading}
+                    className={`
+                      relative p-4 rounded-lg border-2 transition-all text-left
+                      ${isSelected 
+                        ? 'border-primary-600 bg-primary-50 ring-2 ring-primary-600' 
+                        : getCapacityBgColor(capacityLevel, false)
+                      }
+                      ${isAvailable && !loading
+                        ? 'cursor-pointer hover:shadow-md' 
+                        : 'opacity-60 cursor-not-allowed'
+                      }
+                    `}
+                  >
+                    {/* Time */}
+                    <div className="flex items-center mb-2">
+                      <ClockIcon className="h-4 w-4 text-gray-500 mr-2" />
+                      <span className="text-sm font-medium text-gray-900">
+                        {formatSlotTime(slot.startTime, slot.endTime)}
                       </span>
                     </div>
-                  </div>
 
-                  {/* Capacity Bar */}
-                  <div className="mt-3">
-                    <div className="w-full bg-gray-200 rounded-full h-1.5">
-                      <div
-                        className={`h-1.5 rounded-full transition-all ${
-                          capacityLevel === 'high' ? 'bg-green-500' :
-                          capacityLevel === 'medium' ? 'bg-yellow-500' :
-                          capacityLevel === 'low' ? 'bg-orange-500' :
-                          'bg-gray-400'
-                        }`}
-                        style={{ 
-                          width: `${(slot.availableCount / slot.totalCapacity) * 100}%` 
-                        }}
-                      />
+                    {/* Capacity Badge */}
+                    <div className={`
+                      inline-flex items-center px-2.5 py-1 rounded-md text-xs font-medium
+                      border ${capacityLevel === 'full' ? 'bg-gray-100 border-gray-300' : ''}
+                    `}>
+                      <div className="flex items-center gap-1.5">
+                        {getCapacityIcon(capacityLevel)}
+                        <UserGroupIcon className="h-3.5 w-3.5" />
+                        <span className={getCapacityColor(capacityLevel)}>
+                          {getCapacityMessage(capacityLevel, slot.availableCount)}
+                        </span>
+                      </div>
                     </div>
-                    <p className="text-xs text-gray-500 mt-1">
-                      {slot.availableCount} / {slot.totalCapacity} available
-                    </p>
-                  </div>
 
-                  {/* Price */}
-                  {slot.price > 0 && (
-                    <div className="mt-2 text-sm font-semibold text-gray-900">
-                      ${slot.price.toFixed(2)}
+                    {/* Capacity Bar */}
+                    <div className="mt-3">
+                      <div className="w-full bg-gray-200 rounded-full h-1.5">
+                        <div
+                          className={`h-1.5 rounded-full transition-all ${
+                            capacityLevel === 'high' ? 'bg-green-500' :
+                            capacityLevel === 'medium' ? 'bg-yellow-500' :
+                            capacityLevel === 'low' ? 'bg-orange-500' :
+                            'bg-gray-400'
+                          }`}
+                          style={{ 
+                            width: `${(slot.availableCount / slot.totalCapacity) * 100}%` 
+                          }}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {slot.availableCount} / {slot.totalCapacity} available
+                      </p>
                     </div>
-                  )}
 
-                  {/* Selected Indicator */}
-                  {isSelected && (
-                    <div className="absolute top-2 right-2">
-                      <div className="h-6 w-6 bg-primary-600 rounded-full flex items-center justify-center">
-                        <svg className="h-4 w-4 text-white" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
+                    {/* Price */}
+                    {slot.price > 0 && (
+                      <div className="mt-2 text-sm font-semibold text-gray-900">
+                        ${slot.price.toFixed(2)}
                       </div>
-                    </div>
+                    )}
+
+                    {/* Selected Indicator */}
+                    {isSelected && (
+                      <div className="absolute top-2 right-2">
+                        <div className="h-6 w-6 bg-primary-600 rounded-full flex items-center justify-center">
+                          <svg className="h-4 w-4 text-white" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                          </svg>
+                        </div>
+                      </div>
+                    )}
+                  </button>
+
+                  {/* Waitlist for full slots */}
+                  {!isAvailable && onJoinWaitlist && (
+                    waitlistPositions[slot.slotId] ? (
+                      <p className="mt-2 text-xs text-primary-700 text-center">
+                        You're #{waitlistPositions[slot.slotId]} on the waitlist
+                      </p>
+                    ) : (
+                      <button
+                        onClick={() => setWaitlistSlotId(slot.slotId)}
+                        disabled={loading}
+                        className="mt-2 text-sm text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50"
+                      >
+                        Join waitlist
+                      </button>
+                    )
                   )}
-                </button>
+                </div>
               )
             })}
           </div>
+
+          {waitlistSlot && group.slots.includes(waitlistSlot) && (
+            <div className="px-4 pb-4">
+              <WaitlistJoinForm
+                slotLabel={formatSlotTime(waitlistSlot.startTime, waitlistSlot.endTime)}
+                maxQuantity={Math.min(maxQuantity, waitlistSlot.totalCapacity)}
+                loading={loading}
+                onSubmit={(data, quantity) => handleJoinWaitlist(waitlistSlot, data, quantity)}
+                onCancel={() => setWaitlistSlotId(null)}
+              />
+            </div>
+          )}
         </div>
       ))}
 
@@ -419,13 +495,14 @@ export function EnhancedSlotSelector({
                       {formatSlotTime(selectedSlot.startTime, selectedSlot.endTime)}
                     </p>
                     <p>
-                      {new Date(selectedSlot.startTime).toLocaleDateString('en-US', {
-                        weekday: 'long',
-                        year: 'numeric',
-                        month: 'long',
-                        day: 'numeric'
-                      })}
+                      {formatDateInTimeZone(selectedSlot.startTime, timeZone)}
                     </p>
+                    {eventTimeZone && eventTimeZone !== timeZone && (
+                      <p className="text-xs">
+                        Organizer's time: {formatTimeRange(selectedSlot.startTime, selectedSlot.endTime, eventTimeZone)}{' '}
+                        {getTimeZoneAbbreviation(eventTimeZone, selectedSlot.startTime)}
+                      </p>
+                    )}
                     <div className="flex items-center gap-2 pt-2">
                       {getCapacityIcon(getCapacityLevel(selectedSlot.availableCount, selectedSlot.totalCapacity))}
                       <span className="text-xs">
@@ -441,26 +518,28 @@ export function EnhancedSlotSelector({
             </div>
 
             {/* Quantity Selector */}
-            <div className="flex items-center justify-between">
-              <label className="text-sm font-medium text-gray-700">
-                Number of slots:
-              </label>
-              <select
-                value={selectedQuantity}
-                onChange={(e) => handleQuantityChange(parseInt(e.target.value))}
-                disabled={loading}
-                className="input-field w-32"
-              >
-                {Array.from(
-                  { length: Math.min(maxQuantity, selectedSlot.availableCount) }, 
-                  (_, i) => i + 1
-                ).map(num => (
-                  <option key={num} value={num}>
-                    {num} {num === 1 ? 'slot' : 'slots'}
-                  </option>
-                ))}
-              </select>
-            </div>
+            {!fixedQuantity && (
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700">
+                  Number of slots:
+                </label>
+                <select
+                  value={selectedQuantity}
+                  onChange={(e) => handleQuantityChange(parseInt(e.target.value))}
+                  disabled={loading}
+                  className="input-field w-32"
+                >
+                  {Array.from(
+                    { length: Math.min(maxQuantity, selectedSlot.availableCount) }, 
+                    (_, i) => i + 1
+                  ).map(num => (
+                    <option key={num} value={num}>
+                      {num} {num === 1 ? 'slot' : 'slots'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
 
             {/* Quantity Error */}
             {quantityError && (
@@ -492,7 +571,9 @@ export function EnhancedSlotSelector({
               disabled={loading}
               className="btn-primary w-full py-3 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Processing...' : `Continue with ${selectedQuantity} Slot${selectedQuantity > 1 ? 's' : ''}`}
+              {loading
+                ? 'Processing...'
+                : confirmLabel || `Continue with ${selectedQuantity} Slot${selectedQuantity > 1 ? 's' : ''}`}
             </button>
           </div>
         </div>
@@ -0,0 +1,48 @@
+// src/components/booking/TimeZoneSelect.tsx
+// Zone switcher for the booking flow - display preference only
+
+import { useMemo } from 'react'
+import { GlobeAltIcon } from '@heroicons/react/24/outline'
+import { getTimeZoneOptions, getTimeZoneAbbreviation } from '../../lib/timezone'
+
+interface TimeZoneSelectProps {
+  value: string
+  onChange: (timeZone: string) => void
+  /** Organizer's zone, always offered and labelled */
+  eventTimeZone?: string
+  disabled?: boolean
+}
+
+export function TimeZoneSelect({
+  value,
+  onChange,
+  eventTimeZone,
+  disabled = false
+}: TimeZoneSelectProps) {
+  // Building ~400 labels is not free; only redo it when the extras change
+  const options = useMemo(
+    () => getTimeZoneOptions(value, eventTimeZone).map(zone => ({
+      zone,
+      label: `${zone.replace(/_/g, ' ')} (${getTimeZoneAbbreviation(zone)})${zone === eventTimeZone ? ' - organizer' : ''}`
+    })),
+    [value, eventTimeZone]
+  )
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <GlobeAltIcon className="h-4 w-4 text-gray-500" />
+      <span className="sr-only">Time zone</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="input-field py-1 text-sm w-auto"
+        aria-label="Time zone"
+      >
+        {options.map(({ zone, label }) => (
+          <option key={zone} value={zone}>{label}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,143 @@
+// src/components/booking/WaitlistJoinForm.tsx
+// UI-ONLY - collects contact details for a full slot's waitlist
+// Joining is delegated to the booking store via onSubmit
+
+import { useState } from 'react'
+import { QueueListIcon } from '@heroicons/react/24/outline'
+
+interface WaitlistJoinData {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+}
+
+interface WaitlistJoinFormProps {
+  slotLabel: string
+  maxQuantity: number
+  loading?: boolean
+  onSubmit: (data: WaitlistJoinData, quantity: number) => void
+  onCancel: () => void
+}
+
+export function WaitlistJoinForm({
+  slotLabel,
+  maxQuantity,
+  loading = false,
+  onSubmit,
+  onCancel
+}: WaitlistJoinFormProps) {
+  const [data, setData] = useState<WaitlistJoinData>({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: ''
+  })
+  const [quantity, setQuantity] = useState(1)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    setData(prev => ({ ...prev, [name]: value }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!data.firstName.trim() || !data.lastName.trim()) {
+      setError('Please enter your first and last name')
+      return
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+      setError('Please enter a valid email address')
+      return
+    }
+
+    setError(null)
+    onSubmit({ ...data, phone: data.phone || undefined }, quantity)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-start">
+        <QueueListIcon className="h-5 w-5 text-primary-600 mr-2 flex-shrink-0 mt-0.5" />
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">Join the waitlist</h3>
+          <p className="text-xs text-gray-600 mt-1">
+            {slotLabel} is fully booked. If a spot opens up we'll hold it for you
+            and let you know, first come first served.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          name="firstName"
+          placeholder="First name"
+          value={data.firstName}
+          onChange={handleChange}
+          disabled={loading}
+          className="input-field"
+        />
+        <input
+          type="text"
+          name="lastName"
+          placeholder="Last name"
+          value={data.lastName}
+          onChange={handleChange}
+          disabled={loading}
+          className="input-field"
+        />
+        <input
+          type="email"
+          name="email"
+          placeholder="Email"
+          value={data.email}
+          onChange={handleChange}
+          disabled={loading}
+          className="input-field"
+        />
+        <input
+          type="tel"
+          name="phone"
+          placeholder="Phone (optional)"
+          value={data.phone}
+          onChange={handleChange}
+          disabled={loading}
+          className="input-field"
+        />
+      </div>
+
+      {maxQuantity > 1 && (
+        <div className="flex items-center justify-between">
+          <label htmlFor="waitlistQuantity" className="text-sm font-medium text-gray-700">
+            Spots needed:
+          </label>
+          <select
+            id="waitlistQuantity"
+            value={quantity}
+            onChange={(e) => setQuantity(parseInt(e.target.value))}
+            disabled={loading}
+            className="input-field w-32"
+          >
+            {Array.from({ length: maxQuantity }, (_, i) => i + 1).map(num => (
+              <option key={num} value={num}>{num}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} disabled={loading} className="btn-secondary text-sm">
+          Cancel
+        </button>
+        <button type="submit" disabled={loading} className="btn-primary text-sm disabled:opacity-50">
+          {loading ? 'Joining...' : 'Join Waitlist'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,199 @@
+// src/components/dashboard/ApprovalsInbox.tsx
+// Pending booking requests for events that require approval, with
+// approve and decline actions
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  CheckIcon,
+  XMarkIcon,
+  InboxIcon,
+  ExclamationCircleIcon
+} from '@heroicons/react/24/outline'
+import { approvalService, ApprovalRequest } from '../../services/approvalService'
+import { formatPhoneNumber } from '../../lib/phone'
+
+interface ApprovalsInboxProps {
+  userId: string
+  /** Called after a decision so the rest of the dashboard can refresh */
+  onDecision?: () => void
+}
+
+const formatWhen = (startTime: string | null) =>
+  startTime
+    ? new Date(startTime).toLocaleString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+      })
+    : 'No time set'
+
+const formatExpiry = (expiresAt: string) => {
+  const hours = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / (60 * 60 * 1000)))
+  return hours < 1 ? 'Expires within the hour' : `Expires in ${hours}h`
+}
+
+export function ApprovalsInbox({ userId, onDecision }: ApprovalsInboxProps) {
+  const [requests, setRequests] = useState<ApprovalRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [decliningId, setDecliningId] = useState<string | null>(null)
+  const [declineReason, setDeclineReason] = useState('')
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setRequests(await approvalService.getPendingApprovals(userId))
+    } catch (err: any) {
+      console.error('Error loading approval requests:', err)
+      setError(err?.message || 'Failed to load booking requests')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadRequests()
+  }, [loadRequests])
+
+  const decide = async (request: ApprovalRequest, approve: boolean) => {
+    try {
+      setBusyId(request.bookingId)
+      setError(null)
+
+      if (approve) {
+        await approvalService.approve(request.bookingId)
+      } else {
+        await approvalService.decline(request.bookingId, declineReason)
+      }
+
+      setRequests(prev => prev.filter(r => r.bookingId !== request.bookingId))
+      setDecliningId(null)
+      setDeclineReason('')
+      onDecision?.()
+    } catch (err: any) {
+      console.error('Error deciding booking request:', err)
+      setError(err?.message || 'Failed to update the booking request')
+      // The request may have expired meanwhile
+      loadRequests()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+        <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <InboxIcon className="h-5 w-5 mr-2 text-primary-600" />
+          Booking Requests
+        </h2>
+        {requests.length > 0 && (
+          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+            {requests.length} waiting
+          </span>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200">
+        {error && (
+          <div className="px-4 py-3 sm:px-6 flex items-center text-sm text-red-700 bg-red-50">
+            <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading requests...</div>
+        ) : requests.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            No booking requests waiting for approval.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {requests.map(request => (
+              <li key={request.bookingId} className="px-4 py-4 sm:px-6">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">
+                      {request.attendeeName}
+                      {request.quantity > 1 && (
+                        <span className="text-gray-500 font-normal"> · {request.quantity} spots</span>
+                      )}
+                    </p>
+                    <p className="text-gray-600">{request.email}{request.phone ? ` · ${formatPhoneNumber(request.phone)}` : ''}</p>
+                    <p className="text-gray-600 mt-1">
+                      {request.eventTitle} · {formatWhen(request.startTime)}
+                    </p>
+                    {request.notes && (
+                      <p className="text-gray-500 mt-1 italic">"{request.notes}"</p>
+                    )}
+                    {request.expiresAt && (
+                      <p className="text-xs text-orange-600 mt-1">{formatExpiry(request.expiresAt)}</p>
+                    )}
+                  </div>
+
+                  {decliningId !== request.bookingId && (
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => decide(request, true)}
+                        disabled={busyId !== null}
+                        className="btn-primary text-sm flex items-center disabled:opacity-50"
+                      >
+                        <CheckIcon className="h-4 w-4 mr-1" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => {
+                          setDecliningId(request.bookingId)
+                          setDeclineReason('')
+                        }}
+                        disabled={busyId !== null}
+                        className="btn-secondary text-sm flex items-center disabled:opacity-50"
+                      >
+                        <XMarkIcon className="h-4 w-4 mr-1" />
+                        Decline
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {decliningId === request.bookingId && (
+                  <div className="mt-3 space-y-2">
+                    <input
+                      type="text"
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                      placeholder="Reason (optional, shared with the attendee)"
+                      disabled={busyId !== null}
+                      className="input-field text-sm"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setDecliningId(null)}
+                        disabled={busyId !== null}
+                        className="btn-secondary text-sm"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => decide(request, false)}
+                        disabled={busyId !== null}
+                        className="px-4 py-2 rounded-lg bg-red-600 text-white text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                      >
+                        {busyId === request.bookingId ? 'Declining...' : 'Decline Request'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+// src/components/dashboard/BookingFeedLink.tsx
+// Private calendar subscription link for the organizer's bookings, with
+// copy, reset and turn-off actions
+
+import { useState, useEffect } from 'react'
+import {
+  CalendarDaysIcon,
+  ClipboardDocumentIcon,
+  CheckIcon,
+  ArrowPathIcon,
+  ExclamationCircleIcon
+} from '@heroicons/react/24/outline'
+import { calendarService } from '../../services/calendarService'
+import { bookingFeedUrl } from '../../lib/bookingFeed'
+
+const appUrl = () => import.meta.env.VITE_APP_URL || window.location.origin
+
+export function BookingFeedLink() {
+  const [token, setToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    calendarService.getBookingFeedToken()
+      .then(setToken)
+      .catch((err: any) => {
+        console.error('Error loading booking feed:', err)
+        setError(err?.message || 'Failed to load the calendar feed')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const feedUrl = token ? bookingFeedUrl(appUrl(), token) : null
+
+  const rotate = async () => {
+    if (token && !window.confirm('Calendars subscribed to the current link will stop updating. Reset it?')) {
+      return
+    }
+
+    try {
+      setBusy(true)
+      setError(null)
+      setToken(await calendarService.rotateBookingFeedToken())
+    } catch (err: any) {
+      console.error('Error creating booking feed:', err)
+      setError(err?.message || 'Failed to create the calendar feed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revoke = async () => {
+    if (!window.confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) return
+
+    try {
+      setBusy(true)
+      setError(null)
+      await calendarService.revokeBookingFeedToken()
+      setToken(null)
+    } catch (err: any) {
+      console.error('Error turning off booking feed:', err)
+      setError(err?.message || 'Failed to turn off the calendar feed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const copy = async () => {
+    if (!feedUrl) return
+
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error('Failed to copy:', err)
+    }
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-4 py-5 sm:px-6">
+        <h2 className="text-lg leading-6 font-medium text-gray-900 flex items-center">
+          <CalendarDaysIcon className="h-5 w-5 mr-2 text-primary-600" />
+          Calendar Feed
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see your upcoming bookings there.
+          Anyone with the link can see them, so keep it private.
+        </p>
+      </div>
+
+      <div className="border-t border-gray-200 px-4 py-4 sm:px-6">
+        {error && (
+          <div className="mb-3 flex items-center text-sm text-red-700">
+            <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading calendar feed...</p>
+        ) : feedUrl ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className="input-field text-sm font-mono"
+              />
+              <button
+                onClick={copy}
+                className="btn-secondary text-sm flex items-center flex-shrink-0"
+              >
+                {copied ? (
+                  <CheckIcon className="h-4 w-4 mr-1 text-green-600" />
+                ) : (
+                  <ClipboardDocumentIcon className="h-4 w-4 mr-1" />
+                )}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <div className="flex gap-4 text-sm">
+              <button
+                onClick={rotate}
+                disabled={busy}
+                className="flex items-center text-primary-600 hover:text-primary-500 disabled:opacity-50"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-1" />
+                Reset link
+              </button>
+              <button
+                onClick={revoke}
+                disabled={busy}
+                className="text-red-600 hover:text-red-500 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={rotate}
+            disabled={busy}
+            className="btn-primary text-sm disabled:opacity-50"
+          >
+            {busy ? 'Creating...' : 'Create Calendar Feed'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
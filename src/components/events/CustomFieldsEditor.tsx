@@ -0,0 +1,179 @@
+// src/components/events/CustomFieldsEditor.tsx
+// Editor for an event's intake questions (events.custom_fields)
+
+import {
+  PlusIcon,
+  TrashIcon,
+  ArrowUpIcon,
+  ArrowDownIcon
+} from '@heroicons/react/24/outline'
+import { CUSTOM_FIELD_TYPES, createCustomField, hasOptions } from '../../lib/customFields'
+import type { CustomField, CustomFieldType } from '../../types/database'
+
+interface CustomFieldsEditorProps {
+  fields: CustomField[]
+  onChange: (fields: CustomField[]) => void
+  disabled?: boolean
+}
+
+export function CustomFieldsEditor({ fields, onChange, disabled }: CustomFieldsEditorProps) {
+  const updateField = (index: number, changes: Partial<CustomField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)))
+  }
+
+  const changeType = (index: number, type: CustomFieldType) => {
+    const field = fields[index]
+    updateField(index, {
+      type,
+      options: hasOptions(type) ? field.options || [] : undefined
+    })
+  }
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= fields.length) return
+
+    const next = [...fields]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500">
+          Invitees are only asked for their name, email, phone and notes.
+        </p>
+      )}
+
+      {fields.map((field, index) => (
+        <div key={field.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="flex-1">
+              <label htmlFor={`${field.id}-label`} className="block text-sm font-medium text-gray-700">
+                Question {index + 1}
+              </label>
+              <input
+                type="text"
+                id={`${field.id}-label`}
+                className="input-field mt-1"
+                placeholder="e.g. Company name"
+                value={field.label}
+                onChange={(e) => updateField(index, { label: e.target.value })}
+                disabled={disabled}
+                maxLength={200}
+              />
+            </div>
+            <div className="md:w-48">
+              <label htmlFor={`${field.id}-type`} className="block text-sm font-medium text-gray-700">
+                Answer type
+              </label>
+              <select
+                id={`${field.id}-type`}
+                className="input-field mt-1"
+                value={field.type}
+                onChange={(e) => changeType(index, e.target.value as CustomFieldType)}
+                disabled={disabled}
+              >
+                {CUSTOM_FIELD_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {hasOptions(field.type) && (
+            <div>
+              <label htmlFor={`${field.id}-options`} className="block text-sm font-medium text-gray-700">
+                Options <span className="text-gray-500 text-xs">(one per line)</span>
+              </label>
+              <textarea
+                id={`${field.id}-options`}
+                rows={3}
+                className="input-field mt-1"
+                value={(field.options || []).join('\n')}
+                onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {field.type !== 'multiselect' && (
+            <div>
+              <label htmlFor={`${field.id}-placeholder`} className="block text-sm font-medium text-gray-700">
+                {field.type === 'checkbox' ? 'Checkbox text' : 'Placeholder'}{' '}
+                <span className="text-gray-500 text-xs">(Optional)</span>
+              </label>
+              <input
+                type="text"
+                id={`${field.id}-placeholder`}
+                className="input-field mt-1"
+                value={field.placeholder || ''}
+                onChange={(e) => updateField(index, { placeholder: e.target.value || undefined })}
+                disabled={disabled}
+                maxLength={200}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center text-sm text-gray-900">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                checked={field.required}
+                onChange={(e) => updateField(index, { required: e.target.checked })}
+                disabled={disabled}
+              />
+              Required
+            </label>
+
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => moveField(index, -1)}
+                disabled={disabled || index === 0}
+                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUpIcon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveField(index, 1)}
+                disabled={disabled || index === fields.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDownIcon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeField(index)}
+                disabled={disabled}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                title="Remove question"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...fields, createCustomField()])}
+        disabled={disabled}
+        className="btn-secondary text-sm flex items-center"
+      >
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Add Question
+      </button>
+    </div>
+  )
+}
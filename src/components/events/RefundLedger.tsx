@@ -0,0 +1,184 @@
+// src/components/events/RefundLedger.tsx
+// Refunds of an event's paid bookings, with retry for refunds that failed
+// and payments that need refunding by hand
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  ArrowPathIcon,
+  BanknotesIcon,
+  ExclamationCircleIcon
+} from '@heroicons/react/24/outline'
+import {
+  refundService,
+  summarizeRefundLedger,
+  RefundLedgerEntry
+} from '../../services/refundService'
+import { formatCurrency, formatDate } from '../../lib/utils'
+
+interface RefundLedgerProps {
+  eventId: string
+}
+
+const STATUS_STYLES: Record<RefundLedgerEntry['status'], { label: string; className: string }> = {
+  succeeded: { label: 'Refunded', className: 'bg-green-100 text-green-800' },
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  not_started: { label: 'Not refunded', className: 'bg-gray-100 text-gray-800' }
+}
+
+const entryKey = (entry: RefundLedgerEntry) => entry.refundId || entry.paymentId
+
+export function RefundLedger({ eventId }: RefundLedgerProps) {
+  const [entries, setEntries] = useState<RefundLedgerEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  const loadLedger = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setEntries(await refundService.getLedger(eventId))
+    } catch (err: any) {
+      console.error('Error loading refunds:', err)
+      setError(err?.message || 'Failed to load refunds')
+    } finally {
+      setLoading(false)
+    }
+  }, [eventId])
+
+  useEffect(() => {
+    loadLedger()
+  }, [loadLedger])
+
+  const sendRefund = async (entry: RefundLedgerEntry) => {
+    try {
+      setBusyKey(entryKey(entry))
+      setError(null)
+
+      await refundService.refund(entry)
+    } catch (err: any) {
+      console.error('Error sending refund:', err)
+      setError(err?.message || 'Failed to send the refund')
+    } finally {
+      setBusyKey(null)
+      loadLedger()
+    }
+  }
+
+  const summary = summarizeRefundLedger(entries)
+  const refundedTotals = Object.entries(summary.refunded)
+    .map(([currency, amount]) => formatCurrency(amount, currency))
+    .join(' + ')
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Refunds</h2>
+          {entries.length > 0 && (
+            <p className="text-sm text-gray-500">
+              {refundedTotals ? `${refundedTotals} refunded` : 'Nothing refunded yet'}
+              {summary.needsAttention > 0 && ` · ${summary.needsAttention} need${summary.needsAttention === 1 ? 's' : ''} attention`}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={loadLedger}
+          disabled={loading}
+          className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+          title="Refresh"
+        >
+          <ArrowPathIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-red-50 border-b border-red-200 flex items-center text-sm text-red-700">
+          <ExclamationCircleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading && entries.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-500 text-center">Loading refunds...</p>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <BanknotesIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No refunds</h3>
+          <p className="mt-1 text-sm text-gray-500">Refunds appear here when paid bookings are cancelled.</p>
+        </div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Attendee
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Refund
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Reason
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.map(entry => {
+              const status = STATUS_STYLES[entry.status]
+              const canSend = entry.status === 'failed' || entry.status === 'not_started'
+
+              return (
+                <tr key={entryKey(entry)} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm">
+                    <p className="text-gray-900">{entry.attendeeName || entry.email}</p>
+                    <p className="text-gray-500 font-mono text-xs">{entry.bookingReference || 'No booking'}</p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatCurrency(entry.amount, entry.currency)}
+                    {entry.percent < 100 && (
+                      <span className="text-gray-500">
+                        {' '}of {formatCurrency(entry.paidAmount, entry.currency)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    <p>{entry.reason}</p>
+                    <p className="text-xs text-gray-500">{formatDate(entry.settledAt || entry.createdAt)}</p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${status.className}`}>
+                      {status.label}
+                    </span>
+                    {entry.failureReason && (
+                      <p className="text-xs text-red-600 mt-1">{entry.failureReason}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    {canSend && (
+                      <button
+                        type="button"
+                        onClick={() => sendRefund(entry)}
+                        disabled={busyKey !== null}
+                        className="btn-secondary text-sm disabled:opacity-50"
+                      >
+                        {busyKey === entryKey(entry)
+                          ? 'Refunding...'
+                          : entry.status === 'failed' ? 'Retry' : 'Refund'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+// src/components/events/ReminderSettingsEditor.tsx
+// Editor for an event's reminder emails (events.reminder_settings)
+
+import { useState } from 'react'
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import {
+  REMINDER_PRESETS,
+  MAX_REMINDERS,
+  MAX_REMINDER_HOURS,
+  normalizeReminderHours,
+  describeReminderOffset
+} from '../../lib/reminders'
+import type { ReminderSettings } from '../../types/database'
+
+interface ReminderSettingsEditorProps {
+  settings: ReminderSettings
+  onChange: (settings: ReminderSettings) => void
+  disabled?: boolean
+}
+
+export function ReminderSettingsEditor({ settings, onChange, disabled }: ReminderSettingsEditorProps) {
+  const [newHours, setNewHours] = useState('')
+
+  const hours = normalizeReminderHours(settings.hours_before)
+  const presets = REMINDER_PRESETS.filter(preset => !hours.includes(preset))
+  const canAdd = settings.enabled && hours.length < MAX_REMINDERS
+
+  const addOffset = (value: number) => {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_REMINDER_HOURS) return
+    onChange({ ...settings, hours_before: normalizeReminderHours([...hours, value]) })
+    setNewHours('')
+  }
+
+  const removeOffset = (value: number) => {
+    onChange({ ...settings, hours_before: hours.filter(h => h !== value) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center">
+        <input
+          id="remindersEnabled"
+          type="checkbox"
+          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          disabled={disabled}
+        />
+        <label htmlFor="remindersEnabled" className="ml-2 block text-sm text-gray-900">
+          Email attendees a reminder before their booking
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <div className="ml-6 space-y-3">
+          {hours.length === 0 ? (
+            <p className="text-sm text-gray-500">No reminders yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {hours.map(value => (
+                <span
+                  key={value}
+                  className="inline-flex items-center rounded-full bg-primary-50 px-3 py-1 text-sm text-primary-700"
+                >
+                  {describeReminderOffset(value)}
+                  <button
+                    type="button"
+                    onClick={() => removeOffset(value)}
+                    disabled={disabled}
+                    className="ml-1 text-primary-400 hover:text-primary-700 disabled:opacity-30"
+                    title="Remove reminder"
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {canAdd && (
+            <div className="flex flex-wrap items-center gap-2">
+              {presets.slice(0, 4).map(preset => (
+                <button
+                  key={preset}
+                  type="button"
+                  onClick={() => addOffset(preset)}
+                  disabled={disabled}
+                  className="btn-secondary text-sm flex items-center"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  {describeReminderOffset(preset)}
+                </button>
+              ))}
+              <input
+                type="number"
+                min="1"
+                max={MAX_REMINDER_HOURS}
+                className="input-field w-28"
+                placeholder="Hours"
+                value={newHours}
+                onChange={(e) => setNewHours(e.target.value)}
+                disabled={disabled}
+                aria-label="Hours before the booking"
+              />
+              <button
+                type="button"
+                onClick={() => addOffset(Number(newHours))}
+                disabled={disabled || !newHours}
+                className="btn-secondary text-sm"
+              >
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,457 @@
+// src/components/events/SessionAgendaEditor.tsx
+// Agenda builder for multi-session events on the event admin page: add,
+// edit, cancel and delete sessions with their own time, capacity,
+// location and speakers
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  PencilSquareIcon,
+  PlusIcon,
+  TrashIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline'
+import { sessionService } from '../../services/sessionService'
+import { groupSessionsByDay, sessionCapacity } from '../../lib/agenda'
+import {
+  formatDateInTimeZone,
+  formatTimeRange,
+  getTimeZoneAbbreviation,
+  getWallClock,
+  zonedTimeToUtc
+} from '../../lib/timezone'
+import type { EventSession, EventSessionInput, SessionSpeaker } from '../../types/session'
+
+interface SessionAgendaEditorProps {
+  eventId: string
+  /** Session times are entered in the event's zone */
+  timeZone: string
+  eventMaxAttendees?: number | null
+  isOnline?: boolean
+}
+
+// Form state: wall-clock date and times in the event's zone
+interface SessionDraft {
+  title: string
+  description: string
+  date: string
+  startTime: string
+  endTime: string
+  capacity: string
+  location: string
+  meetingUrl: string
+  speakers: SessionSpeaker[]
+}
+
+const EMPTY_DRAFT: SessionDraft = {
+  title: '',
+  description: '',
+  date: '',
+  startTime: '09:00',
+  endTime: '10:00',
+  capacity: '',
+  location: '',
+  meetingUrl: '',
+  speakers: []
+}
+
+const toTimeInput = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+const toDraft = (session: EventSession, timeZone: string): SessionDraft => {
+  const start = getWallClock(session.startTime, timeZone)
+  const end = getWallClock(session.endTime, timeZone)
+  return {
+    title: session.title,
+    description: session.description || '',
+    date: start.date,
+    startTime: toTimeInput(start.minutes),
+    endTime: toTimeInput(end.minutes),
+    capacity: session.maxAttendees?.toString() || '',
+    location: session.location || '',
+    meetingUrl: session.meetingUrl || '',
+    speakers: session.speakers
+  }
+}
+
+const toInput = (draft: SessionDraft, timeZone: string): EventSessionInput => ({
+  title: draft.title,
+  description: draft.description,
+  startTime: draft.date ? zonedTimeToUtc(draft.date, draft.startTime, timeZone).toISOString() : '',
+  endTime: draft.date ? zonedTimeToUtc(draft.date, draft.endTime, timeZone).toISOString() : '',
+  maxAttendees: draft.capacity ? Number(draft.capacity) : undefined,
+  location: draft.location,
+  meetingUrl: draft.meetingUrl,
+  speakers: draft.speakers
+})
+
+export function SessionAgendaEditor({ eventId, timeZone, eventMaxAttendees, isOnline }: SessionAgendaEditorProps) {
+  const [sessions, setSessions] = useState<EventSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // null: form closed; 'new' or the ID of the session being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState<SessionDraft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setSessions(await sessionService.getEventSessions(eventId))
+    } catch (err: any) {
+      console.error('Error loading sessions:', err)
+      setError(err?.message || 'Failed to load the agenda')
+    } finally {
+      setLoading(false)
+    }
+  }, [eventId])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const openForm = (session?: EventSession) => {
+    setError(null)
+    setEditing(session?.id || 'new')
+    // New sessions start on the day of the last one
+    const last = sessions[sessions.length - 1]
+    setDraft(session
+      ? toDraft(session, timeZone)
+      : { ...EMPTY_DRAFT, date: last ? getWallClock(last.startTime, timeZone).date : '' })
+  }
+
+  const updateDraft = (changes: Partial<SessionDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  const updateSpeaker = (index: number, changes: Partial<SessionSpeaker>) => {
+    updateDraft({
+      speakers: draft.speakers.map((speaker, i) => i === index ? { ...speaker, ...changes } : speaker)
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing || saving) return
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const input = toInput(draft, timeZone)
+      if (editing === 'new') {
+        await sessionService.createSession(eventId, input)
+      } else {
+        await sessionService.updateSession(editing, input)
+      }
+      setEditing(null)
+      await loadSessions()
+    } catch (err: any) {
+      console.error('Error saving session:', err)
+      setError(err?.message || 'Failed to save the session')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancelSession = async (session: EventSession) => {
+    if (!window.confirm(`Cancel "${session.title}"? It stays on the agenda, closed to registration.`)) return
+
+    try {
+      setError(null)
+      await sessionService.cancelSession(session.id)
+      await loadSessions()
+    } catch (err: any) {
+      console.error('Error cancelling session:', err)
+      setError(err?.message || 'Failed to cancel the session')
+    }
+  }
+
+  const handleDelete = async (session: EventSession) => {
+    if (!window.confirm(`Delete "${session.title}" from the agenda?`)) return
+
+    try {
+      setError(null)
+      await sessionService.deleteSession(session)
+      await loadSessions()
+    } catch (err: any) {
+      console.error('Error deleting session:', err)
+      setError(err?.message || 'Failed to delete the session')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-8">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Agenda</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Attendees register for one or more sessions on the event page. Times are in {timeZone}.
+          </p>
+        </div>
+        {!editing && (
+          <button type="button" onClick={() => openForm()} className="btn-secondary flex items-center space-x-1">
+            <PlusIcon className="h-4 w-4" />
+            <span>Add Session</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {editing && (
+        <form onSubmit={handleSave} className="mb-6 rounded-md border border-gray-200 p-4 space-y-4">
+          <div>
+            <label htmlFor="sessionTitle" className="block text-sm font-medium text-gray-700">
+              Title
+            </label>
+            <input
+              type="text"
+              id="sessionTitle"
+              className="input-field mt-1"
+              placeholder="Opening keynote"
+              value={draft.title}
+              onChange={(e) => updateDraft({ title: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="sessionDate" className="block text-sm font-medium text-gray-700">
+                Date
+              </label>
+              <input
+                type="date"
+                id="sessionDate"
+                className="input-field mt-1"
+                value={draft.date}
+                onChange={(e) => updateDraft({ date: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="sessionStart" className="block text-sm font-medium text-gray-700">
+                Starts
+              </label>
+              <input
+                type="time"
+                id="sessionStart"
+                className="input-field mt-1"
+                value={draft.startTime}
+                onChange={(e) => updateDraft({ startTime: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="sessionEnd" className="block text-sm font-medium text-gray-700">
+                Ends
+              </label>
+              <input
+                type="time"
+                id="sessionEnd"
+                className="input-field mt-1"
+                value={draft.endTime}
+                onChange={(e) => updateDraft({ endTime: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="sessionCapacity" className="block text-sm font-medium text-gray-700">
+                Capacity
+              </label>
+              <input
+                type="number"
+                id="sessionCapacity"
+                min="1"
+                className="input-field mt-1"
+                placeholder={eventMaxAttendees ? String(eventMaxAttendees) : 'Unlimited'}
+                value={draft.capacity}
+                onChange={(e) => updateDraft({ capacity: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="sessionLocation" className="block text-sm font-medium text-gray-700">
+                Room or location
+              </label>
+              <input
+                type="text"
+                id="sessionLocation"
+                className="input-field mt-1"
+                placeholder="Same as the event"
+                value={draft.location}
+                onChange={(e) => updateDraft({ location: e.target.value })}
+              />
+            </div>
+            {isOnline && (
+              <div>
+                <label htmlFor="sessionMeetingUrl" className="block text-sm font-medium text-gray-700">
+                  Meeting link
+                </label>
+                <input
+                  type="url"
+                  id="sessionMeetingUrl"
+                  className="input-field mt-1"
+                  placeholder="Same as the event"
+                  value={draft.meetingUrl}
+                  onChange={(e) => updateDraft({ meetingUrl: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="sessionDescription" className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              id="sessionDescription"
+              rows={2}
+              className="input-field mt-1"
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700">Speakers</p>
+            <div className="mt-1 space-y-2">
+              {draft.speakers.map((speaker, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    aria-label={`Speaker ${index + 1} name`}
+                    className="input-field"
+                    placeholder="Name"
+                    value={speaker.name}
+                    onChange={(e) => updateSpeaker(index, { name: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    aria-label={`Speaker ${index + 1} title`}
+                    className="input-field"
+                    placeholder="Title or company"
+                    value={speaker.title || ''}
+                    onChange={(e) => updateSpeaker(index, { title: e.target.value })}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ speakers: draft.speakers.filter((_, i) => i !== index) })}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Remove speaker ${index + 1}`}
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateDraft({ speakers: [...draft.speakers, { name: '' }] })}
+                className="text-sm text-primary-600 hover:text-primary-700"
+              >
+                + Add speaker
+              </button>
+            </div>
+          </div>
+
+          <div className="flex space-x-3">
+            <button type="submit" className="btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : editing === 'new' ? 'Add Session' : 'Save Session'}
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => setEditing(null)} disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading agenda...</p>
+      ) : sessions.length === 0 ? (
+        !editing && (
+          <p className="text-sm text-gray-500">
+            No sessions yet. Add sessions to let attendees register for parts of this event.
+          </p>
+        )
+      ) : (
+        <div className="space-y-6">
+          {groupSessionsByDay(sessions, timeZone).map(day => (
+            <div key={day.date}>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                {formatDateInTimeZone(day.sessions[0].startTime, timeZone)}
+              </h3>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {day.sessions.map(session => {
+                  const capacity = sessionCapacity(session, eventMaxAttendees)
+                  const cancelled = session.status === 'cancelled'
+
+                  return (
+                    <li key={session.id} className="px-4 py-3 flex justify-between items-start">
+                      <div className={cancelled ? 'opacity-60' : ''}>
+                        <p className="text-sm font-medium text-gray-900">
+                          {session.title}
+                          {cancelled && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">
+                              Cancelled
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {formatTimeRange(session.startTime, session.endTime, timeZone)}{' '}
+                          {getTimeZoneAbbreviation(timeZone, session.startTime)}
+                          {session.location && ` · ${session.location}`}
+                          {' · '}
+                          {session.attendees}{capacity === null ? '' : `/${capacity}`} registered
+                        </p>
+                        {session.speakers.length > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {session.speakers.map(speaker => speaker.name).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                        <button
+                          type="button"
+                          onClick={() => openForm(session)}
+                          className="text-gray-400 hover:text-primary-600"
+                          aria-label={`Edit ${session.title}`}
+                        >
+                          <PencilSquareIcon className="h-5 w-5" />
+                        </button>
+                        {session.attendees > 0 ? (
+                          !cancelled && (
+                            <button
+                              type="button"
+                              onClick={() => handleCancelSession(session)}
+                              className="text-gray-400 hover:text-red-600"
+                              aria-label={`Cancel ${session.title}`}
+                            >
+                              <XCircleIcon className="h-5 w-5" />
+                            </button>
+                          )
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(session)}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label={`Delete ${session.title}`}
+                          >
+                            <TrashIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+// src/components/notifications/NotificationBell.tsx
+// Header bell with the unread count and a dropdown of recent notifications
+
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { BellIcon } from '@heroicons/react/24/outline'
+import { useNotificationStore } from '../../stores/notificationStore'
+import { NotificationEntry } from './NotificationEntry'
+import type { NotificationItem } from '../../services/notificationService'
+
+interface NotificationBellProps {
+  userId: string
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const { recent, unreadCount, loading, start, stop, markRead, markAllRead } = useNotificationStore()
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    start(userId)
+    return () => stop()
+  }, [userId, start, stop])
+
+  const handleOpen = (notification: NotificationItem) => {
+    setOpen(false)
+    if (!notification.isRead) {
+      markRead(notification.id).catch(error => console.error('Failed to mark notification read:', error))
+    }
+  }
+
+  const handleMarkAllRead = () => {
+    markAllRead().catch(error => console.error('Failed to mark notifications read:', error))
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-1 text-gray-700 hover:text-primary-600 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <BellIcon className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] rounded-full bg-red-600 px-1 text-center text-xs font-medium leading-5 text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-10">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            <button
+              onClick={handleMarkAllRead}
+              disabled={unreadCount === 0}
+              className="text-sm text-primary-600 hover:text-primary-700 disabled:text-gray-300"
+            >
+              Mark all read
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {loading && recent.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">Loading...</p>
+            ) : recent.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up.</p>
+            ) : (
+              recent.map(notification => (
+                <NotificationEntry
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={handleOpen}
+                  compact
+                />
+              ))
+            )}
+          </div>
+
+          <Link
+            to="/notifications"
+            onClick={() => setOpen(false)}
+            className="block px-4 py-2 text-center text-sm text-primary-600 hover:bg-gray-50 border-t border-gray-200"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+// src/components/notifications/NotificationEntry.tsx
+// One notification, linking to its event or booking when it has one
+
+import { Link } from 'react-router-dom'
+import { formatDistanceToNow } from 'date-fns'
+import type { NotificationItem } from '../../services/notificationService'
+
+interface NotificationEntryProps {
+  notification: NotificationItem
+  /** Called when the notification is opened */
+  onOpen: (notification: NotificationItem) => void
+  compact?: boolean
+}
+
+export function NotificationEntry({ notification, onOpen, compact }: NotificationEntryProps) {
+  const body = (
+    <div className="flex items-start">
+      <span
+        className={`mt-1.5 mr-3 h-2 w-2 flex-shrink-0 rounded-full ${
+          notification.isRead ? 'bg-transparent' : 'bg-primary-600'
+        }`}
+        aria-hidden="true"
+      />
+      <div className="min-w-0">
+        <p className={`text-sm ${notification.isRead ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+          {notification.title}
+        </p>
+        <p className={`text-sm text-gray-600 ${compact ? 'line-clamp-2' : ''}`}>
+          {notification.message}
+        </p>
+        <p className="mt-1 text-xs text-gray-400">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+        </p>
+      </div>
+    </div>
+  )
+
+  const className = `block w-full text-left ${compact ? 'px-4 py-3' : 'p-4'} hover:bg-gray-50`
+
+  return notification.link ? (
+    <Link to={notification.link} className={className} onClick={() => onOpen(notification)}>
+      {body}
+    </Link>
+  ) : (
+    <button type="button" className={className} onClick={() => onOpen(notification)}>
+      {body}
+    </button>
+  )
+}
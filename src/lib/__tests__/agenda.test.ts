@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findOverlappingSessions,
+  groupSessionsByDay,
+  isSessionOpen,
+  sessionCapacity,
+  spotsLeft
+} from '../agenda'
+import type { EventSession } from '../../types/session'
+
+const session = (overrides: Partial<EventSession> = {}): EventSession => ({
+  id: 's1',
+  eventId: 'e1',
+  title: 'Keynote',
+  startTime: '2024-06-10T16:00:00Z',
+  endTime: '2024-06-10T17:00:00Z',
+  attendees: 0,
+  status: 'scheduled',
+  speakers: [],
+  createdAt: '2024-05-01T00:00:00Z',
+  updatedAt: '2024-05-01T00:00:00Z',
+  ...overrides
+})
+
+describe('agenda', () => {
+  describe('groupSessionsByDay', () => {
+    it('groups by the start date in the event time zone, in start order', () => {
+      const sessions = [
+        session({ id: 'late', startTime: '2024-06-11T02:00:00Z', endTime: '2024-06-11T03:00:00Z' }),
+        session({ id: 'next', startTime: '2024-06-11T16:00:00Z', endTime: '2024-06-11T17:00:00Z' }),
+        session({ id: 'first' })
+      ]
+
+      // 02:00 UTC on the 11th is still the evening of the 10th in New York
+      expect(groupSessionsByDay(sessions, 'America/New_York')).toEqual([
+        { date: '2024-06-10', sessions: [sessions[2], sessions[0]] },
+        { date: '2024-06-11', sessions: [sessions[1]] }
+      ])
+      expect(groupSessionsByDay(sessions, 'UTC').map(day => day.sessions.map(s => s.id))).toEqual([
+        ['first'],
+        ['late', 'next']
+      ])
+    })
+
+    it('returns no days for an empty agenda', () => {
+      expect(groupSessionsByDay([], 'UTC')).toEqual([])
+    })
+  })
+
+  describe('capacity', () => {
+    it('uses the session limit, else the event limit, else unlimited', () => {
+      expect(sessionCapacity(session({ maxAttendees: 30 }), 100)).toBe(30)
+      expect(sessionCapacity(session(), 100)).toBe(100)
+      expect(sessionCapacity(session())).toBeNull()
+    })
+
+    it('counts spots left without going negative', () => {
+      expect(spotsLeft(session({ maxAttendees: 10, attendees: 4 }))).toBe(6)
+      expect(spotsLeft(session({ maxAttendees: 10, attendees: 12 }))).toBe(0)
+      expect(spotsLeft(session({ attendees: 500 }))).toBeNull()
+    })
+  })
+
+  describe('isSessionOpen', () => {
+    const now = new Date('2024-06-01T00:00:00Z')
+
+    it('is open when scheduled, upcoming and not full', () => {
+      expect(isSessionOpen(session({ maxAttendees: 10, attendees: 9 }), null, now)).toBe(true)
+      expect(isSessionOpen(session({ attendees: 9 }), null, now)).toBe(true)
+    })
+
+    it('is closed when full, cancelled or started', () => {
+      expect(isSessionOpen(session({ attendees: 10 }), 10, now)).toBe(false)
+      expect(isSessionOpen(session({ status: 'cancelled' }), null, now)).toBe(false)
+      expect(isSessionOpen(session(), null, new Date('2024-06-10T16:30:00Z'))).toBe(false)
+    })
+  })
+
+  describe('findOverlappingSessions', () => {
+    it('returns the first pair that runs at the same time', () => {
+      const a = session({ id: 'a' })
+      const b = session({ id: 'b', startTime: '2024-06-10T17:00:00Z', endTime: '2024-06-10T18:00:00Z' })
+      const c = session({ id: 'c', startTime: '2024-06-10T16:30:00Z', endTime: '2024-06-10T16:45:00Z' })
+
+      expect(findOverlappingSessions([b, a])).toBeNull()
+      expect(findOverlappingSessions([b, c, a])).toEqual([a, c])
+    })
+  })
+})
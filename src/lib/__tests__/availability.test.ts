@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { checkSlotAvailability, filterSlotsByAvailability, AvailabilityContext } from '../availability'
+import type { Availability, AvailabilityOverride } from '../../types'
+
+const weekly = (overrides: Partial<Availability>): Availability => ({
+  id: 'a1',
+  userId: 'u1',
+  dayOfWeek: 1,
+  startTime: '09:00:00',
+  endTime: '17:00:00',
+  isEnabled: true,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+})
+
+const override = (overrides: Partial<AvailabilityOverride>): AvailabilityOverride => ({
+  id: 'o1',
+  userId: 'u1',
+  startDate: '2024-01-01',
+  endDate: '2024-01-01',
+  type: 'unavailable',
+  recurring: false,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+})
+
+// Monday 2024-01-01 in UTC
+const slot = (start: string, end: string) => ({
+  startTime: `2024-01-01T${start}:00.000Z`,
+  endTime: `2024-01-01T${end}:00.000Z`
+})
+
+const context = (overrides: Partial<AvailabilityContext> = {}): AvailabilityContext => ({
+  weekly: [weekly({})],
+  overrides: [],
+  timeZone: 'UTC',
+  ...overrides
+})
+
+describe('availability', () => {
+  describe('checkSlotAvailability', () => {
+    it('accepts slots inside weekly hours', () => {
+      expect(checkSlotAvailability(slot('09:00', '09:30'), context())).toBeNull()
+      expect(checkSlotAvailability(slot('16:30', '17:00'), context())).toBeNull()
+    })
+
+    it('rejects slots that run past weekly hours', () => {
+      expect(checkSlotAvailability(slot('16:45', '17:15'), context()))
+        .toEqual({ reason: 'outside_availability' })
+    })
+
+    it('rejects days without enabled hours', () => {
+      const ctx = context({ weekly: [weekly({ isEnabled: false }), weekly({ dayOfWeek: 2 })] })
+      expect(checkSlotAvailability(slot('10:00', '10:30'), ctx))
+        .toEqual({ reason: 'outside_availability' })
+    })
+
+    it('does not restrict organizers without weekly hours', () => {
+      expect(checkSlotAvailability(slot('22:00', '22:30'), context({ weekly: [] }))).toBeNull()
+    })
+
+    it('treats touching windows as continuous', () => {
+      const ctx = context({
+        weekly: [
+          weekly({ startTime: '09:00:00', endTime: '12:00:00' }),
+          weekly({ startTime: '12:00:00', endTime: '17:00:00' })
+        ]
+      })
+      expect(checkSlotAvailability(slot('11:30', '12:30'), ctx)).toBeNull()
+    })
+
+    it('reads weekly hours in the organizer zone', () => {
+      // 14:00Z is 09:00 in New York
+      const ctx = context({ timeZone: 'America/New_York' })
+      expect(checkSlotAvailability(slot('14:00', '14:30'), ctx)).toBeNull()
+      expect(checkSlotAvailability(slot('09:00', '09:30'), ctx))
+        .toEqual({ reason: 'outside_availability' })
+    })
+
+    it('blocks all-day unavailable overrides', () => {
+      const ctx = context({ overrides: [override({ reason: 'Holiday' })] })
+      expect(checkSlotAvailability(slot('10:00', '10:30'), ctx))
+        .toEqual({ reason: 'unavailable_override', detail: 'Holiday' })
+    })
+
+    it('blocks busy overrides only where they overlap', () => {
+      const ctx = context({
+        overrides: [override({ type: 'busy', startTime: '10:00:00', endTime: '11:00:00' })]
+      })
+      expect(checkSlotAvailability(slot('09:30', '10:00'), ctx)).toBeNull()
+      expect(checkSlotAvailability(slot('10:45', '11:15'), ctx))
+        .toMatchObject({ reason: 'busy_override' })
+      expect(checkSlotAvailability(slot('11:00', '11:30'), ctx)).toBeNull()
+    })
+
+    it('extends weekly hours with available overrides', () => {
+      const ctx = context({
+        overrides: [override({ type: 'available', startTime: '17:00:00', endTime: '19:00:00' })]
+      })
+      expect(checkSlotAvailability(slot('16:30', '17:30'), ctx)).toBeNull()
+    })
+
+    it('applies recurring overrides on their weekdays only', () => {
+      const ctx = context({
+        overrides: [override({ recurring: true, daysOfWeek: [2], endDate: '2024-01-31' })]
+      })
+      expect(checkSlotAvailability(slot('10:00', '10:30'), ctx)).toBeNull()
+    })
+
+    it('blocks busy time from synced calendars where it overlaps', () => {
+      const ctx = context({
+        busyBlocks: [{ start: '2024-01-01T10:00:00.000Z', end: '2024-01-01T11:00:00.000Z', title: 'Dentist' }]
+      })
+      expect(checkSlotAvailability(slot('09:30', '10:00'), ctx)).toBeNull()
+      expect(checkSlotAvailability(slot('10:45', '11:15'), ctx))
+        .toEqual({ reason: 'calendar_busy', detail: 'Dentist' })
+      expect(checkSlotAvailability(slot('11:00', '11:30'), ctx)).toBeNull()
+    })
+  })
+
+  describe('filterSlotsByAvailability', () => {
+    it('splits candidates and reports every skipped slot', () => {
+      const { available, skipped } = filterSlotsByAvailability(
+        [slot('08:00', '08:30'), slot('09:00', '09:30'), slot('12:00', '12:30')],
+        context({ overrides: [override({ type: 'busy', startTime: '12:00:00', endTime: '13:00:00' })] })
+      )
+
+      expect(available).toEqual([slot('09:00', '09:30')])
+      expect(skipped.map(s => s.reason)).toEqual(['outside_availability', 'busy_override'])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import { bookingFeedUrl, fetchBookingFeed, renderBookingFeed } from '../bookingFeed'
+import { bookingEventUid } from '../ical'
+import type { BookingFeedRow } from '../../types/database'
+
+const now = new Date('2024-05-01T00:00:00Z')
+
+const row = (overrides: Partial<BookingFeedRow> = {}): BookingFeedRow => ({
+  booking_id: 'b1',
+  booking_reference: 'ABC123',
+  status: 'confirmed',
+  calendar_sequence: 0,
+  start_time: '2024-05-02T09:00:00Z',
+  end_time: '2024-05-02T09:30:00Z',
+  event_title: 'Intro call',
+  location: 'Room 1',
+  is_online: false,
+  meeting_url: null,
+  attendee_name: 'Ada Lovelace',
+  attendee_email: 'ada@example.com',
+  quantity: 1,
+  created_at: '2024-04-20T12:00:00Z',
+  updated_at: '2024-04-21T12:00:00Z',
+  ...overrides
+})
+
+const lines = (calendar: string) => calendar.split('\r\n')
+
+describe('bookingFeed', () => {
+  it('uses the same UID as the attendee download', () => {
+    const calendar = renderBookingFeed([row()], { now })
+
+    expect(lines(calendar)).toContain(`UID:${bookingEventUid('b1')}`)
+    expect(lines(calendar)).toContain('SUMMARY:Intro call: Ada Lovelace')
+    expect(lines(calendar)).toContain('LOCATION:Room 1')
+  })
+
+  it('marks moved and cancelled bookings with their sequence', () => {
+    const calendar = renderBookingFeed([row({ status: 'cancelled', calendar_sequence: 3 })], { now })
+
+    expect(lines(calendar)).toContain('SEQUENCE:3')
+    expect(lines(calendar)).toContain('STATUS:CANCELLED')
+  })
+
+  it('uses the meeting link as the location of online events', () => {
+    const calendar = renderBookingFeed([
+      row({ is_online: true, meeting_url: 'https://meet.example.com/x' })
+    ], { now })
+
+    expect(lines(calendar)).toContain('LOCATION:https://meet.example.com/x')
+  })
+
+  it('returns null for unknown tokens', async () => {
+    const client = {
+      rpc: vi.fn().mockResolvedValue({ data: null, error: { message: 'Booking feed not found' } })
+    }
+
+    await expect(fetchBookingFeed(client as any, 'nope')).resolves.toBeNull()
+    expect(client.rpc).toHaveBeenCalledWith('get_booking_feed', { p_token: 'nope' })
+  })
+
+  it('rethrows other errors', async () => {
+    const client = {
+      rpc: vi.fn().mockResolvedValue({ data: null, error: { message: 'connection refused' } })
+    }
+
+    await expect(fetchBookingFeed(client as any, 'tok')).rejects.toThrow('connection refused')
+  })
+
+  it('builds webcal subscription URLs', () => {
+    expect(bookingFeedUrl('https://app.example.com/', 'a b')).toBe('webcal://app.example.com/api/booking-feed?token=a%20b')
+    expect(bookingFeedUrl('https://app.example.com', 'tok', { webcal: false }))
+      .toBe('https://app.example.com/api/booking-feed?token=tok')
+  })
+})
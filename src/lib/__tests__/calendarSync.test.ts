@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { exportFingerprint, planCalendarExport, planCalendarImport } from '../calendarSync'
+import type { CalendarExportBooking } from '../../types/database'
+import type { ExternalCalendarEvent } from '../../types/calendar'
+
+const event = (overrides: Partial<ExternalCalendarEvent>): ExternalCalendarEvent => ({
+  id: 'e1',
+  start: '2024-05-02T10:00:00.000Z',
+  end: '2024-05-02T11:00:00.000Z',
+  title: 'Dentist',
+  transparency: 'busy',
+  status: 'confirmed',
+  etag: '"1"',
+  ...overrides
+})
+
+const booking = (overrides: Partial<CalendarExportBooking> = {}): CalendarExportBooking => ({
+  booking_id: 'b1',
+  booking_status: 'confirmed',
+  booking_reference: 'A1B2C3D4',
+  event_title: 'Intro call',
+  attendee_name: 'Sam Lee',
+  attendee_email: 'sam@example.com',
+  quantity: 1,
+  location: 'Studio 2',
+  is_online: false,
+  meeting_url: null,
+  start_time: '2024-05-02T09:00:00.000Z',
+  end_time: '2024-05-02T09:30:00.000Z',
+  link_external_event_id: null,
+  link_etag: null,
+  link_fingerprint: null,
+  link_status: null,
+  ...overrides
+})
+
+const exported = (overrides: Partial<CalendarExportBooking> = {}) => {
+  const row = booking(overrides)
+  return {
+    ...row,
+    link_external_event_id: 'e9',
+    link_etag: '"5"',
+    link_fingerprint: exportFingerprint(row),
+    link_status: 'active' as const,
+    ...overrides
+  }
+}
+
+describe('calendarSync', () => {
+  describe('planCalendarImport', () => {
+    it('keeps busy events and removes deleted or free ones', () => {
+      const plan = planCalendarImport([
+        event({ id: 'e1' }),
+        event({ id: 'e2', status: 'cancelled' }),
+        event({ id: 'e3', transparency: 'free' })
+      ])
+
+      expect(plan.blocks).toEqual([{
+        external_event_id: 'e1',
+        title: 'Dentist',
+        start_time: '2024-05-02T10:00:00.000Z',
+        end_time: '2024-05-02T11:00:00.000Z'
+      }])
+      expect(plan.removedEventIds).toEqual(['e2', 'e3'])
+    })
+
+    it('reports exported events instead of importing them', () => {
+      const plan = planCalendarImport([
+        event({ id: 'e1', bookingId: 'b1', etag: '"7"' }),
+        event({ id: 'e2', bookingId: 'b2', status: 'cancelled' })
+      ])
+
+      expect(plan.blocks).toEqual([])
+      expect(plan.exportedEtags).toEqual({ b1: '"7"' })
+      expect(plan.deletedBookingIds).toEqual(['b2'])
+    })
+  })
+
+  describe('planCalendarExport', () => {
+    it('creates, updates and deletes by booking status and fingerprint', () => {
+      const actions = planCalendarExport([
+        booking({ booking_id: 'new' }),
+        booking({ booking_id: 'pending', booking_status: 'pending' }),
+        exported({ booking_id: 'same' }),
+        { ...exported({ booking_id: 'moved' }), start_time: '2024-05-02T12:00:00.000Z' },
+        exported({ booking_id: 'cancelled', booking_status: 'cancelled' })
+      ])
+
+      expect(actions.map(action => [action.type, action.booking.booking_id])).toEqual([
+        ['create', 'new'],
+        ['update', 'moved'],
+        ['delete', 'cancelled']
+      ])
+    })
+
+    it('forces an update only when the calendar etag differs from the exported one', () => {
+      const rows = [exported({ booking_id: 'b1' }), exported({ booking_id: 'b2' })]
+
+      const actions = planCalendarExport(rows, { exportedEtags: { b1: '"6"', b2: '"5"' } })
+
+      expect(actions).toEqual([expect.objectContaining({ type: 'update', eventId: 'e9', force: true })])
+      expect(actions[0].booking.booking_id).toBe('b1')
+    })
+
+    it('detaches events deleted in the calendar and never re-creates them', () => {
+      expect(planCalendarExport([exported()], { deleted: ['b1'] }))
+        .toEqual([expect.objectContaining({ type: 'detach' })])
+      expect(planCalendarExport([exported({ link_status: 'detached' })])).toEqual([])
+      expect(planCalendarExport([exported({ link_status: 'detached', booking_status: 'cancelled' })]))
+        .toEqual([expect.objectContaining({ type: 'forget' })])
+    })
+  })
+})
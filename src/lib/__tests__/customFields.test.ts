@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCustomField,
+  validateCustomFieldDefinitions,
+  validateCustomResponses,
+  cleanCustomResponses
+} from '../customFields'
+import type { CustomField } from '../../types/database'
+
+const fields: CustomField[] = [
+  { id: 'company', label: 'Company', type: 'text', required: true },
+  { id: 'size', label: 'Team size', type: 'number', required: false },
+  { id: 'plan', label: 'Plan', type: 'select', required: true, options: ['Basic', 'Pro'] },
+  { id: 'topics', label: 'Topics', type: 'multiselect', required: false, options: ['Billing', 'Setup'] },
+  { id: 'terms', label: 'I accept the terms', type: 'checkbox', required: true },
+  { id: 'mobile', label: 'Mobile', type: 'phone', required: false }
+]
+
+describe('customFields', () => {
+  describe('createCustomField', () => {
+    it('starts choice fields with an empty option list', () => {
+      expect(createCustomField('select').options).toEqual([])
+      expect(createCustomField('text').options).toBeUndefined()
+      expect(createCustomField().id).not.toBe(createCustomField().id)
+    })
+  })
+
+  describe('validateCustomFieldDefinitions', () => {
+    it('accepts well-formed fields', () => {
+      expect(validateCustomFieldDefinitions(fields)).toBeNull()
+    })
+
+    it('requires a label', () => {
+      expect(validateCustomFieldDefinitions([{ ...fields[0], label: '  ' }]))
+        .toBe('Question 1 needs a label')
+    })
+
+    it('rejects duplicate labels', () => {
+      expect(validateCustomFieldDefinitions([fields[0], { ...fields[1], label: 'company' }]))
+        .toBe('"company" is used for more than one question')
+    })
+
+    it('requires options for choice fields', () => {
+      expect(validateCustomFieldDefinitions([{ ...fields[2], options: [' '] }]))
+        .toBe('"Plan" needs at least one option')
+    })
+  })
+
+  describe('validateCustomResponses', () => {
+    it('reports missing required answers', () => {
+      expect(validateCustomResponses(fields, { terms: false })).toEqual({
+        company: 'Company is required',
+        plan: 'Plan is required',
+        terms: 'I accept the terms is required'
+      })
+    })
+
+    it('checks answers against the field type', () => {
+      const errors = validateCustomResponses(fields, {
+        company: 'Acme',
+        size: 'a dozen',
+        plan: 'Enterprise',
+        topics: ['Billing', 'Other'],
+        terms: true,
+        mobile: 'call me'
+      })
+
+      expect(Object.keys(errors).sort()).toEqual(['mobile', 'plan', 'size', 'topics'])
+    })
+
+    it('passes complete, valid answers', () => {
+      expect(validateCustomResponses(fields, {
+        company: 'Acme',
+        size: '12',
+        plan: 'Pro',
+        topics: ['Setup'],
+        terms: true,
+        mobile: '+1 (555) 123-4567'
+      })).toEqual({})
+    })
+  })
+
+  describe('cleanCustomResponses', () => {
+    it('keeps answered known fields, trimming text and parsing numbers', () => {
+      expect(cleanCustomResponses(fields, {
+        company: '  Acme ',
+        size: '12',
+        topics: [],
+        terms: true,
+        unknown: 'dropped'
+      })).toEqual({ company: 'Acme', size: 12, terms: true })
+    })
+  })
+})
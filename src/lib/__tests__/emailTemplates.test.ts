@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest'
+import { renderBookingEmail, renderOutboxEmail, manageBookingUrl, escapeHtml } from '../emailTemplates'
+import type { BookingEmailPayload, WaitlistOfferEmailPayload } from '../../types/database'
+
+const payload: BookingEmailPayload = {
+  booking_reference: 'A1B2C3D4',
+  first_name: 'Sam',
+  last_name: 'Lee',
+  email: 'sam+test@example.com',
+  status: 'confirmed',
+  quantity: 2,
+  event_title: 'Intro <call>',
+  organizer_name: 'Alex Kim',
+  location: 'Room 4',
+  is_online: false,
+  meeting_url: null,
+  starts_at: '2024-05-02T07:00:00+00:00',
+  ends_at: '2024-05-02T07:30:00+00:00',
+  timezone: 'Europe/Berlin',
+  cancellation_reason: null
+}
+
+const offer: WaitlistOfferEmailPayload = {
+  waitlist_id: 'w1',
+  first_name: 'Sam',
+  last_name: 'Lee',
+  email: 'sam@example.com',
+  quantity: 1,
+  event_title: 'Intro call',
+  organizer_name: 'Alex Kim',
+  location: 'Room 4',
+  is_online: false,
+  starts_at: '2024-05-02T07:00:00+00:00',
+  ends_at: '2024-05-02T07:30:00+00:00',
+  timezone: 'Europe/Berlin',
+  expires_at: '2024-05-01T10:30:00+00:00',
+  booking_path: '/book/e1?waitlist=w1'
+}
+
+const options = { appUrl: 'https://app.example.com/' }
+
+describe('emailTemplates', () => {
+  describe('renderBookingEmail', () => {
+    it('renders the booking in the attendee time zone with a manage link', () => {
+      const email = renderBookingEmail('booking_confirmed', payload, options)
+
+      expect(email.subject).toBe('Booking confirmed: Intro <call>')
+      expect(email.text).toContain('Hi Sam,')
+      expect(email.text).toContain('Date: Thursday, May 2, 2024')
+      expect(email.text).toContain('Time: 9:00 AM - 9:30 AM')
+      expect(email.text).toContain('Where: Room 4')
+      expect(email.text).toContain('Spots: 2')
+      expect(email.text).toContain('Reference: A1B2C3D4')
+      expect(email.text).toContain(manageBookingUrl(options.appUrl, payload))
+    })
+
+    it('escapes values in the HTML body', () => {
+      const email = renderBookingEmail('booking_confirmed', payload, options)
+
+      expect(email.html).toContain('Intro &lt;call&gt;')
+      expect(email.html).not.toContain('<call>')
+    })
+
+    it('mentions the organizer while a request awaits approval', () => {
+      const email = renderBookingEmail('booking_created', payload, options)
+
+      expect(email.subject).toBe('Booking request received: Intro <call>')
+      expect(email.text).toContain('Alex Kim will review your request')
+    })
+
+    it('includes the reason and no manage link for cancellations', () => {
+      const email = renderBookingEmail('booking_cancelled', {
+        ...payload,
+        status: 'cancelled',
+        cancellation_reason: 'Declined by organizer'
+      }, options)
+
+      expect(email.text).toContain('Reason: Declined by organizer')
+      expect(email.text).not.toContain('/booking/manage')
+    })
+
+    it('shows the meeting link for online events', () => {
+      const email = renderBookingEmail('booking_reminder', {
+        ...payload,
+        is_online: true,
+        meeting_url: 'https://meet.example.com/abc'
+      }, options)
+
+      expect(email.subject).toBe('Reminder: Intro <call>')
+      expect(email.text).toContain('Where: https://meet.example.com/abc')
+    })
+  })
+
+  describe('calendar invites', () => {
+    const invited: BookingEmailPayload = {
+      ...payload,
+      booking_id: 'b1',
+      organizer_email: 'alex@example.com',
+      calendar_sequence: 1,
+      confirmed_at: '2024-04-20T12:00:00+00:00'
+    }
+
+    it('attaches a meeting request to confirmations and reschedules', () => {
+      for (const template of ['booking_confirmed', 'booking_rescheduled'] as const) {
+        const { invite } = renderBookingEmail(template, invited, options)
+
+        expect(invite?.method).toBe('REQUEST')
+        expect(invite?.contentType).toBe('text/calendar; charset=utf-8; method=REQUEST')
+        expect(invite?.content).toContain('METHOD:REQUEST')
+        expect(invite?.content).toContain('UID:b1@schedlyx.app')
+        expect(invite?.content).toContain('SEQUENCE:1')
+        expect(invite?.content).toContain('ORGANIZER;CN=Alex Kim:mailto:alex@example.com')
+      }
+    })
+
+    it('puts the meeting link of online bookings in LOCATION and URL', () => {
+      const { invite } = renderBookingEmail('booking_rescheduled', {
+        ...invited,
+        is_online: true,
+        meeting_url: 'https://meet.jit.si/schedlyx-abc'
+      }, options)
+
+      expect(invite?.content).toContain('LOCATION:https://meet.jit.si/schedlyx-abc')
+      expect(invite?.content).toContain('URL:https://meet.jit.si/schedlyx-abc')
+    })
+
+    it('attaches a cancellation to cancellations of confirmed bookings', () => {
+      const { invite } = renderBookingEmail('booking_cancelled', { ...invited, status: 'cancelled' }, options)
+
+      expect(invite?.method).toBe('CANCEL')
+      expect(invite?.content).toContain('STATUS:CANCELLED')
+    })
+
+    it('sends no invite for declined requests, reminders or older emails', () => {
+      expect(renderBookingEmail('booking_cancelled', { ...invited, confirmed_at: null }, options).invite)
+        .toBeUndefined()
+      expect(renderBookingEmail('booking_reminder', invited, options).invite).toBeUndefined()
+      expect(renderBookingEmail('booking_confirmed', payload, options).invite).toBeUndefined()
+    })
+  })
+
+  describe('waitlist offers', () => {
+    it('links to the held spot and says until when it is held', () => {
+      const email = renderOutboxEmail({ template: 'waitlist_spot_available', payload: offer }, options)
+
+      expect(email.subject).toBe('A spot opened up: Intro call')
+      expect(email.text).toContain('holding it for you until 12:30 PM GMT+2')
+      expect(email.text).toContain('Date: Thursday, May 2, 2024')
+      expect(email.text).toContain('Book your spot: https://app.example.com/book/e1?waitlist=w1')
+      expect(email.html).toContain('href="https://app.example.com/book/e1?waitlist=w1"')
+      expect(email.invite).toBeUndefined()
+    })
+
+    it('renders booking templates as booking emails', () => {
+      expect(renderOutboxEmail({ template: 'booking_confirmed', payload }, options))
+        .toEqual(renderBookingEmail('booking_confirmed', payload, options))
+    })
+  })
+
+  describe('manageBookingUrl', () => {
+    it('links to the manage page with the reference and encoded email', () => {
+      expect(manageBookingUrl('https://app.example.com/', payload))
+        .toBe('https://app.example.com/booking/manage?ref=A1B2C3D4&email=sam%2Btest%40example.com')
+    })
+  })
+
+  describe('escapeHtml', () => {
+    it('escapes markup and quotes', () => {
+      expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;')
+    })
+  })
+})
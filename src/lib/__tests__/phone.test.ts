@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizePhoneNumber,
+  formatPhoneNumber,
+  isE164,
+  phoneCountryFromLocale
+} from '../phone'
+
+describe('phone', () => {
+  describe('normalizePhoneNumber', () => {
+    it.each([
+      ['US', '(415) 555-2671', '+14155552671'],
+      ['US', '1-415-555-2671', '+14155552671'],
+      ['CA', '604.555.0123', '+16045550123'],
+      ['MX', '55 1234 5678', '+525512345678'],
+      ['BR', '(11) 91234-5678', '+5511912345678'],
+      ['GB', '020 7946 0958', '+442079460958'],
+      ['GB', '07700 900123', '+447700900123'],
+      ['DE', '030 12345678', '+493012345678'],
+      ['DE', '0151 23456789', '+4915123456789'],
+      ['FR', '06 12 34 56 78', '+33612345678'],
+      ['ES', '612 345 678', '+34612345678'],
+      ['IT', '06 1234 5678', '+390612345678'],
+      ['IT', '312 345 6789', '+393123456789'],
+      ['NL', '06-12345678', '+31612345678'],
+      ['CH', '044 668 18 00', '+41446681800'],
+      ['ZA', '082 123 4567', '+27821234567'],
+      ['IN', '098765 43210', '+919876543210'],
+      ['JP', '090-1234-5678', '+819012345678'],
+      ['SG', '8123 4567', '+6581234567'],
+      ['AU', '0412 345 678', '+61412345678']
+    ])('reads %s national number %s', (country, input, expected) => {
+      expect(normalizePhoneNumber(input, country)).toBe(expected)
+    })
+
+    it('reads international numbers whatever the default country', () => {
+      expect(normalizePhoneNumber('+44 20 7946 0958', 'US')).toBe('+442079460958')
+      expect(normalizePhoneNumber('0033 6 12 34 56 78', 'US')).toBe('+33612345678')
+      expect(normalizePhoneNumber('+44 (0)20 7946 0958', 'US')).toBe('+442079460958')
+    })
+
+    it('accepts valid E.164 numbers from countries without rules', () => {
+      expect(normalizePhoneNumber('+353 85 123 4567')).toBe('+353851234567')
+    })
+
+    it('rejects numbers with the wrong length or stray characters', () => {
+      expect(normalizePhoneNumber('555-2671', 'US')).toBeNull()
+      expect(normalizePhoneNumber('06 12 34 56', 'FR')).toBeNull()
+      expect(normalizePhoneNumber('+44 20 7946 09581234', 'US')).toBeNull()
+      expect(normalizePhoneNumber('415 555 2671 ext 3', 'US')).toBeNull()
+      expect(normalizePhoneNumber('41+5552671', 'US')).toBeNull()
+      expect(normalizePhoneNumber('', 'US')).toBeNull()
+    })
+  })
+
+  describe('formatPhoneNumber', () => {
+    it.each([
+      ['+14155552671', '+1 415 555 2671'],
+      ['+525512345678', '+52 55 1234 5678'],
+      ['+5511912345678', '+55 11 91234 5678'],
+      ['+442079460958', '+44 20 7946 0958'],
+      ['+447700900123', '+44 7700 900123'],
+      ['+493012345678', '+49 30 12345678'],
+      ['+4915123456789', '+49 151 23456789'],
+      ['+33612345678', '+33 6 12 34 56 78'],
+      ['+34612345678', '+34 612 345 678'],
+      ['+390612345678', '+39 06 12345678'],
+      ['+31612345678', '+31 6 12345678'],
+      ['+41446681800', '+41 44 668 18 00'],
+      ['+27821234567', '+27 82 123 4567'],
+      ['+919876543210', '+91 98765 43210'],
+      ['+819012345678', '+81 90 1234 5678'],
+      ['+6581234567', '+65 8123 4567'],
+      ['+61412345678', '+61 412 345 678'],
+      ['+61298765432', '+61 2 9876 5432']
+    ])('formats %s as %s', (e164, expected) => {
+      expect(formatPhoneNumber(e164)).toBe(expected)
+    })
+
+    it('leaves numbers it has no format for unchanged', () => {
+      expect(formatPhoneNumber('+353851234567')).toBe('+353851234567')
+      expect(formatPhoneNumber('not a number')).toBe('not a number')
+    })
+  })
+
+  describe('isE164', () => {
+    it('matches a plus, no leading zero and at most 15 digits', () => {
+      expect(isE164('+14155552671')).toBe(true)
+      expect(isE164('14155552671')).toBe(false)
+      expect(isE164('+04155552671')).toBe(false)
+      expect(isE164('+1234567890123456')).toBe(false)
+      expect(isE164(null)).toBe(false)
+    })
+  })
+
+  describe('phoneCountryFromLocale', () => {
+    it('uses the locale region, falling back to the US', () => {
+      expect(phoneCountryFromLocale('en-GB')).toBe('GB')
+      expect(phoneCountryFromLocale('de')).toBe('DE')
+      expect(phoneCountryFromLocale('pt-PT')).toBe('US')
+    })
+  })
+})
@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest'
+import {
+  expandRecurrence,
+  generateRecurringSlots,
+  validateRecurrenceRule,
+  describeRecurrence
+} from '../recurrence'
+import { zonedTimeToUtc } from '../timezone'
+import type { RecurrenceRule } from '../../types/recurrence'
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'weekly',
+  interval: 1,
+  startDate: '2024-01-01',
+  exceptionDates: [],
+  ...overrides
+})
+
+describe('Recurrence', () => {
+  describe('expandRecurrence', () => {
+    it('expands weekly rules on the selected days', () => {
+      // 2024-01-01 is a Monday
+      const dates = expandRecurrence(rule({ daysOfWeek: [1, 3] }), '2024-01-01', '2024-01-14')
+      expect(dates).toEqual(['2024-01-01', '2024-01-03', '2024-01-08', '2024-01-10'])
+    })
+
+    it('skips weeks for every-N-weeks rules', () => {
+      const dates = expandRecurrence(
+        rule({ daysOfWeek: [1], interval: 2 }),
+        '2024-01-01',
+        '2024-02-05'
+      )
+      expect(dates).toEqual(['2024-01-01', '2024-01-15', '2024-01-29'])
+    })
+
+    it('keeps the every-N-weeks phase when the range starts later', () => {
+      const dates = expandRecurrence(
+        rule({ daysOfWeek: [1], interval: 2 }),
+        '2024-01-08',
+        '2024-01-22'
+      )
+      expect(dates).toEqual(['2024-01-15'])
+    })
+
+    it('treats a Sunday as the end of its Monday-based week', () => {
+      // Start on Sunday 2024-01-07: the following Monday is in the next week
+      const dates = expandRecurrence(
+        rule({ startDate: '2024-01-07', daysOfWeek: [0, 1], interval: 2 }),
+        '2024-01-07',
+        '2024-01-22'
+      )
+      expect(dates).toEqual(['2024-01-07', '2024-01-15', '2024-01-21'])
+    })
+
+    it('respects the end date and exception dates', () => {
+      const dates = expandRecurrence(
+        rule({ daysOfWeek: [1], endDate: '2024-01-22', exceptionDates: ['2024-01-08'] }),
+        '2024-01-01',
+        '2024-03-01'
+      )
+      expect(dates).toEqual(['2024-01-01', '2024-01-15', '2024-01-22'])
+    })
+
+    it('never returns dates before the rule starts', () => {
+      const dates = expandRecurrence(
+        rule({ startDate: '2024-01-10', daysOfWeek: [1, 3] }),
+        '2024-01-01',
+        '2024-01-15'
+      )
+      expect(dates).toEqual(['2024-01-10', '2024-01-15'])
+    })
+
+    it('expands daily rules with an interval', () => {
+      const dates = expandRecurrence(
+        rule({ frequency: 'daily', interval: 3 }),
+        '2024-01-01',
+        '2024-01-10'
+      )
+      expect(dates).toEqual(['2024-01-01', '2024-01-04', '2024-01-07', '2024-01-10'])
+    })
+
+    describe('monthly by weekday', () => {
+      it('finds the Nth weekday of each month', () => {
+        // Second Tuesday
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', monthlyWeekday: { weekday: 2, week: 2 } }),
+          '2024-01-01',
+          '2024-03-31'
+        )
+        expect(dates).toEqual(['2024-01-09', '2024-02-13', '2024-03-12'])
+      })
+
+      it('finds the last weekday of each month', () => {
+        // Last Friday
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', monthlyWeekday: { weekday: 5, week: -1 } }),
+          '2024-01-01',
+          '2024-03-31'
+        )
+        expect(dates).toEqual(['2024-01-26', '2024-02-23', '2024-03-29'])
+      })
+
+      it('skips months without a fifth occurrence', () => {
+        // Fifth Thursday: only February 2024 (leap year) and May have one in Jan-May
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', monthlyWeekday: { weekday: 4, week: 5 } }),
+          '2024-01-01',
+          '2024-05-31'
+        )
+        expect(dates).toEqual(['2024-02-29', '2024-05-30'])
+      })
+
+      it('applies the month interval from the start month', () => {
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', interval: 2, monthlyWeekday: { weekday: 1, week: 1 } }),
+          '2024-01-01',
+          '2024-06-30'
+        )
+        expect(dates).toEqual(['2024-01-01', '2024-03-04', '2024-05-06'])
+      })
+    })
+
+    describe('month-end', () => {
+      it('skips months that do not have the requested day', () => {
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', dayOfMonth: 31 }),
+          '2024-01-01',
+          '2024-06-30'
+        )
+        expect(dates).toEqual(['2024-01-31', '2024-03-31', '2024-05-31'])
+      })
+
+      it('uses the real last day of each month for -1', () => {
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', startDate: '2023-12-01', dayOfMonth: -1 }),
+          '2023-12-01',
+          '2024-04-30'
+        )
+        expect(dates).toEqual(['2023-12-31', '2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30'])
+      })
+
+      it('handles February in non-leap years', () => {
+        const dates = expandRecurrence(
+          rule({ frequency: 'monthly', startDate: '2023-01-01', dayOfMonth: 29 }),
+          '2023-01-01',
+          '2023-03-31'
+        )
+        expect(dates).toEqual(['2023-01-29', '2023-03-29'])
+      })
+
+      it('crosses year boundaries', () => {
+        const dates = expandRecurrence(
+          rule({ startDate: '2024-12-30', daysOfWeek: [1, 3] }),
+          '2024-12-30',
+          '2025-01-06'
+        )
+        expect(dates).toEqual(['2024-12-30', '2025-01-01', '2025-01-06'])
+      })
+    })
+
+    it('rejects invalid rules', () => {
+      expect(() => expandRecurrence(rule({ daysOfWeek: [] }), '2024-01-01', '2024-01-31'))
+        .toThrow('Weekly schedules need at least one day of the week')
+    })
+  })
+
+  describe('validateRecurrenceRule', () => {
+    it('accepts a valid weekly rule', () => {
+      expect(validateRecurrenceRule(rule({ daysOfWeek: [1] }))).toEqual([])
+    })
+
+    it('reports bad intervals, dates and monthly settings', () => {
+      const errors = validateRecurrenceRule(rule({
+        frequency: 'monthly',
+        interval: 0,
+        endDate: '2023-12-31',
+        monthlyWeekday: { weekday: 7, week: 6 }
+      }))
+
+      expect(errors).toHaveLength(4)
+    })
+  })
+
+  describe('generateRecurringSlots', () => {
+    const template = {
+      window: { start: '09:00', end: '11:00' },
+      duration: 30,
+      bufferTime: 15,
+      timeZone: 'UTC'
+    }
+
+    it('fills each occurrence with slots separated by the buffer', () => {
+      const slots = generateRecurringSlots(rule({ daysOfWeek: [1] }), template, '2024-01-01', '2024-01-01')
+
+      expect(slots).toEqual([
+        { startTime: '2024-01-01T09:00:00.000Z', endTime: '2024-01-01T09:30:00.000Z' },
+        { startTime: '2024-01-01T09:45:00.000Z', endTime: '2024-01-01T10:15:00.000Z' },
+        { startTime: '2024-01-01T10:30:00.000Z', endTime: '2024-01-01T11:00:00.000Z' }
+      ])
+    })
+
+    describe('DST', () => {
+      const newYork = { ...template, window: { start: '09:00', end: '10:00' }, duration: 60, timeZone: 'America/New_York' }
+
+      it('keeps local start times across spring-forward', () => {
+        // US DST starts Sunday 2024-03-10
+        const slots = generateRecurringSlots(
+          rule({ startDate: '2024-03-04', daysOfWeek: [1] }),
+          newYork,
+          '2024-03-04',
+          '2024-03-11'
+        )
+
+        expect(slots.map(slot => slot.startTime)).toEqual([
+          '2024-03-04T14:00:00.000Z', // 09:00 EST
+          '2024-03-11T13:00:00.000Z'  // 09:00 EDT
+        ])
+      })
+
+      it('keeps local start times across fall-back', () => {
+        // US DST ends Sunday 2024-11-03
+        const slots = generateRecurringSlots(
+          rule({ startDate: '2024-10-28', daysOfWeek: [1] }),
+          newYork,
+          '2024-10-28',
+          '2024-11-04'
+        )
+
+        expect(slots.map(slot => slot.startTime)).toEqual([
+          '2024-10-28T13:00:00.000Z', // 09:00 EDT
+          '2024-11-04T14:00:00.000Z'  // 09:00 EST
+        ])
+      })
+
+      it('keeps exact durations for slots spanning the transition', () => {
+        const slots = generateRecurringSlots(
+          rule({ frequency: 'daily', startDate: '2024-03-10' }),
+          { ...newYork, bufferTime: 0, window: { start: '01:00', end: '04:00' } },
+          '2024-03-10',
+          '2024-03-10'
+        )
+
+        // 02:00 does not exist; it shifts to 03:00 EDT, which the 03:00 slot then duplicates
+        expect(slots).toEqual([
+          { startTime: '2024-03-10T06:00:00.000Z', endTime: '2024-03-10T07:00:00.000Z' },
+          { startTime: '2024-03-10T07:00:00.000Z', endTime: '2024-03-10T08:00:00.000Z' }
+        ])
+      })
+
+      it('handles zones east of UTC', () => {
+        // EU DST starts Sunday 2024-03-31
+        const slots = generateRecurringSlots(
+          rule({ frequency: 'daily', startDate: '2024-03-30' }),
+          { ...newYork, timeZone: 'Europe/Berlin' },
+          '2024-03-30',
+          '2024-03-31'
+        )
+
+        expect(slots.map(slot => slot.startTime)).toEqual([
+          '2024-03-30T08:00:00.000Z', // 09:00 CET
+          '2024-03-31T07:00:00.000Z'  // 09:00 CEST
+        ])
+      })
+    })
+  })
+
+  describe('describeRecurrence', () => {
+    it('summarizes weekly rules', () => {
+      expect(describeRecurrence(rule({ daysOfWeek: [3, 1], interval: 2, endDate: '2024-06-30' })))
+        .toBe('Every 2 weeks on Monday, Wednesday until 2024-06-30')
+    })
+
+    it('summarizes monthly weekday rules', () => {
+      expect(describeRecurrence(rule({ frequency: 'monthly', monthlyWeekday: { weekday: 5, week: -1 } })))
+        .toBe('Every month on the last Friday')
+    })
+  })
+})
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock time in a zone to UTC', () => {
+    expect(zonedTimeToUtc('2024-07-01', '09:00', 'America/Los_Angeles').toISOString())
+      .toBe('2024-07-01T16:00:00.000Z')
+    expect(zonedTimeToUtc('2024-01-01', '09:00', 'Asia/Kolkata').toISOString())
+      .toBe('2024-01-01T03:30:00.000Z')
+  })
+
+  it('moves times in a spring-forward gap forward', () => {
+    expect(zonedTimeToUtc('2024-03-10', '02:30', 'America/New_York').toISOString())
+      .toBe('2024-03-10T07:30:00.000Z')
+    expect(zonedTimeToUtc('2024-03-31', '02:30', 'Europe/Berlin').toISOString())
+      .toBe('2024-03-31T01:30:00.000Z')
+  })
+
+  it('resolves ambiguous fall-back times to the earlier instant', () => {
+    expect(zonedTimeToUtc('2024-11-03', '01:30', 'America/New_York').toISOString())
+      .toBe('2024-11-03T05:30:00.000Z')
+    expect(zonedTimeToUtc('2024-10-27', '02:30', 'Europe/Berlin').toISOString())
+      .toBe('2024-10-27T00:30:00.000Z')
+  })
+})
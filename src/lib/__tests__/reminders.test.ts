@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeReminderHours,
+  validateReminderSettings,
+  describeReminderOffset,
+  MAX_REMINDER_HOURS
+} from '../reminders'
+
+describe('reminders', () => {
+  describe('normalizeReminderHours', () => {
+    it('drops duplicates and orders the earliest reminder first', () => {
+      expect(normalizeReminderHours([1, 24, 1, 48])).toEqual([48, 24, 1])
+    })
+  })
+
+  describe('validateReminderSettings', () => {
+    it('accepts the defaults and disabled reminders', () => {
+      expect(validateReminderSettings({ enabled: true, hours_before: [24, 1] })).toBeNull()
+      expect(validateReminderSettings({ enabled: false, hours_before: [] })).toBeNull()
+    })
+
+    it('requires an offset while reminders are on', () => {
+      expect(validateReminderSettings({ enabled: true, hours_before: [] })).toMatch(/at least one/)
+    })
+
+    it('rejects fractional, zero and too distant offsets', () => {
+      expect(validateReminderSettings({ enabled: true, hours_before: [1.5] })).toMatch(/between 1/)
+      expect(validateReminderSettings({ enabled: true, hours_before: [0] })).toMatch(/between 1/)
+      expect(validateReminderSettings({ enabled: true, hours_before: [MAX_REMINDER_HOURS + 1] })).toMatch(/between 1/)
+    })
+
+    it('limits the number of reminders', () => {
+      expect(validateReminderSettings({ enabled: true, hours_before: [1, 2, 3, 4, 5, 6] })).toMatch(/Up to 5/)
+    })
+  })
+
+  describe('describeReminderOffset', () => {
+    it('uses the largest whole unit', () => {
+      expect(describeReminderOffset(1)).toBe('1 hour before')
+      expect(describeReminderOffset(36)).toBe('36 hours before')
+      expect(describeReminderOffset(24)).toBe('1 day before')
+      expect(describeReminderOffset(72)).toBe('3 days before')
+      expect(describeReminderOffset(168)).toBe('1 week before')
+      expect(describeReminderOffset(336)).toBe('2 weeks before')
+    })
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  getTimeZoneOptions,
+  getDateInTimeZone,
+  formatTimeRange
+} from '../timezone'
+
+describe('timezone', () => {
+  it('reads offsets on either side of a DST change', () => {
+    expect(getTimeZoneOffset('America/New_York', Date.UTC(2024, 0, 15))).toBe(-300)
+    expect(getTimeZoneOffset('America/New_York', Date.UTC(2024, 6, 15))).toBe(-240)
+  })
+
+  it('validates IANA zone names', () => {
+    expect(isValidTimeZone('Asia/Kolkata')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+    expect(isValidTimeZone('')).toBe(false)
+  })
+
+  it('always offers the requested zones', () => {
+    const options = getTimeZoneOptions('Etc/GMT+3', undefined)
+    expect(options).toContain('Etc/GMT+3')
+    expect(options).toContain('America/New_York')
+  })
+
+  it('groups instants by calendar day in the zone', () => {
+    // 02:00 UTC is still the previous evening in Los Angeles
+    expect(getDateInTimeZone('2024-03-05T02:00:00Z', 'America/Los_Angeles')).toBe('2024-03-04')
+    expect(getDateInTimeZone('2024-03-05T02:00:00Z', 'Asia/Tokyo')).toBe('2024-03-05')
+  })
+
+  it('formats ranges in the requested zone rather than the runtime zone', () => {
+    expect(formatTimeRange('2024-01-01T14:00:00Z', '2024-01-01T14:30:00Z', 'America/New_York', 'en-US'))
+      .toBe('9:00 AM - 9:30 AM')
+    expect(formatTimeRange('2024-01-01T14:00:00Z', '2024-01-01T14:30:00Z', 'Europe/Berlin', 'en-GB'))
+      .toBe('15:00 - 15:30')
+  })
+})
@@ -10,7 +10,8 @@ import {
   isValidEmail,
   generateId,
   capitalize,
-  truncate
+  truncate,
+  formatCurrency
 } from '../utils'
 
 describe('Utils', () => {
@@ -153,4 +154,11 @@ describe('Utils', () => {
       expect(truncate('', 5)).toBe('')
     })
   })
+
+  describe('formatCurrency', () => {
+    it('formats amounts in the given currency', () => {
+      expect(formatCurrency(15)).toBe('$15.00')
+      expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50')
+    })
+  })
 })
\ No newline at end of file
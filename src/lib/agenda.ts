@@ -0,0 +1,73 @@
+// src/lib/agenda.ts
+// Helpers for multi-session events, shared by the agenda editor on the
+// event admin page and the agenda on the public event page
+
+import { getDateInTimeZone } from './timezone'
+import type { EventSession } from '../types/session'
+
+export interface AgendaDay {
+  /** YYYY-MM-DD in the event's time zone */
+  date: string
+  sessions: EventSession[]
+}
+
+/**
+ * Sessions grouped by the day they start on in a time zone, in start order
+ */
+export function groupSessionsByDay(sessions: EventSession[], timeZone: string): AgendaDay[] {
+  const days = new Map<string, EventSession[]>()
+
+  const sorted = [...sessions].sort((a, b) =>
+    a.startTime.localeCompare(b.startTime) || a.endTime.localeCompare(b.endTime)
+  )
+  for (const session of sorted) {
+    const date = getDateInTimeZone(session.startTime, timeZone)
+    days.set(date, [...(days.get(date) || []), session])
+  }
+
+  return Array.from(days, ([date, daySessions]) => ({ date, sessions: daySessions }))
+}
+
+/**
+ * Seats a session can take: its own limit, else the event's; null when unlimited
+ */
+export function sessionCapacity(session: EventSession, eventMaxAttendees?: number | null): number | null {
+  return session.maxAttendees ?? eventMaxAttendees ?? null
+}
+
+/**
+ * Seats still free in a session, or null when it is unlimited
+ */
+export function spotsLeft(session: EventSession, eventMaxAttendees?: number | null): number | null {
+  const capacity = sessionCapacity(session, eventMaxAttendees)
+  return capacity === null ? null : Math.max(0, capacity - session.attendees)
+}
+
+/**
+ * Whether attendees can still register: scheduled, not started and not full
+ */
+export function isSessionOpen(
+  session: EventSession,
+  eventMaxAttendees?: number | null,
+  now: Date = new Date()
+): boolean {
+  return session.status === 'scheduled'
+    && new Date(session.startTime) > now
+    && spotsLeft(session, eventMaxAttendees) !== 0
+}
+
+/**
+ * The first two sessions that run at the same time, or null. Attendees
+ * can't register for both; the server rejects them too.
+ */
+export function findOverlappingSessions(sessions: EventSession[]): [EventSession, EventSession] | null {
+  const sorted = [...sessions].sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+  for (let i = 1; i < sorted.length; i++) {
+    const overlapping = sorted.slice(0, i).find(earlier => new Date(earlier.endTime) > new Date(sorted[i].startTime))
+    if (overlapping) {
+      return [overlapping, sorted[i]]
+    }
+  }
+  return null
+}
@@ -0,0 +1,145 @@
+// src/lib/availability.ts
+// Checks generated slots against the organizer's weekly availability,
+// overrides and busy time imported from their calendars
+
+import { getWallClock } from './timezone'
+import type { Availability, AvailabilityOverride } from '../types'
+import type { GeneratedSlot } from '../types/recurrence'
+import type { SkippedSlot, SlotSkipReason } from '../types/booking'
+import type { BusyBlock } from '../types/calendar'
+
+const DAY_MINUTES = 24 * 60
+
+export interface AvailabilityContext {
+  /** All weekly rows, enabled or not. No rows means no weekly restriction. */
+  weekly: Availability[]
+  overrides: AvailabilityOverride[]
+  /** Zone the weekly hours and override dates are expressed in */
+  timeZone: string
+  /** Busy time from synced calendars */
+  busyBlocks?: BusyBlock[]
+}
+
+interface Window {
+  start: number
+  end: number
+}
+
+// Accepts HH:mm and Postgres TIME (HH:mm:ss)
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Whether an override applies on a calendar date.
+ * Recurring overrides repeat on their weekdays within the date range.
+ */
+export const overrideAppliesOn = (override: AvailabilityOverride, date: string, dayOfWeek: number): boolean => {
+  if (date < override.startDate || date > override.endDate) return false
+  if (override.recurring && override.daysOfWeek?.length) {
+    return override.daysOfWeek.includes(dayOfWeek)
+  }
+  return true
+}
+
+const overrideWindow = (override: AvailabilityOverride): Window =>
+  override.startTime && override.endTime
+    ? { start: toMinutes(override.startTime), end: toMinutes(override.endTime) }
+    : { start: 0, end: DAY_MINUTES }
+
+/**
+ * Sort and merge overlapping or touching windows so a slot spanning
+ * 09:00-12:00 and 12:00-17:00 counts as available
+ */
+const mergeWindows = (windows: Window[]): Window[] =>
+  [...windows]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Window[]>((merged, window) => {
+      const last = merged[merged.length - 1]
+      if (last && window.start <= last.end) {
+        last.end = Math.max(last.end, window.end)
+      } else {
+        merged.push({ ...window })
+      }
+      return merged
+    }, [])
+
+/**
+ * Why a slot cannot be offered, or null if the organizer is available.
+ *
+ * Blocking overrides ('unavailable', 'busy') win over everything, then busy
+ * time from synced calendars. Otherwise, when the organizer has weekly
+ * hours, the slot must fit inside that day's enabled hours or an
+ * 'available' override on the same date.
+ */
+export function checkSlotAvailability(
+  slot: GeneratedSlot,
+  context: AvailabilityContext
+): { reason: SlotSkipReason; detail?: string } | null {
+  const start = getWallClock(slot.startTime, context.timeZone)
+  const end = getWallClock(slot.endTime, context.timeZone)
+  // Slots ending after midnight are measured on the start date
+  const endMinutes = end.date === start.date ? end.minutes : end.minutes + DAY_MINUTES
+
+  const dayOverrides = context.overrides.filter(override =>
+    overrideAppliesOn(override, start.date, start.dayOfWeek)
+  )
+
+  for (const override of dayOverrides) {
+    if (override.type === 'available') continue
+    const window = overrideWindow(override)
+    if (start.minutes < window.end && endMinutes > window.start) {
+      return {
+        reason: override.type === 'busy' ? 'busy_override' : 'unavailable_override',
+        detail: override.reason
+      }
+    }
+  }
+
+  const slotStart = new Date(slot.startTime).getTime()
+  const slotEnd = new Date(slot.endTime).getTime()
+  const busy = context.busyBlocks?.find(block =>
+    new Date(block.start).getTime() < slotEnd && new Date(block.end).getTime() > slotStart
+  )
+  if (busy) {
+    return { reason: 'calendar_busy', detail: busy.title }
+  }
+
+  if (context.weekly.length === 0) return null
+
+  const windows = mergeWindows([
+    ...context.weekly
+      .filter(row => row.isEnabled && row.dayOfWeek === start.dayOfWeek)
+      .map(row => ({ start: toMinutes(row.startTime), end: toMinutes(row.endTime) })),
+    ...dayOverrides
+      .filter(override => override.type === 'available')
+      .map(overrideWindow)
+  ])
+
+  const fits = windows.some(window => start.minutes >= window.start && endMinutes <= window.end)
+  return fits ? null : { reason: 'outside_availability' }
+}
+
+/**
+ * Split candidate slots into those the organizer is available for and a
+ * report of the rest
+ */
+export function filterSlotsByAvailability(
+  slots: GeneratedSlot[],
+  context: AvailabilityContext
+): { available: GeneratedSlot[]; skipped: SkippedSlot[] } {
+  const available: GeneratedSlot[] = []
+  const skipped: SkippedSlot[] = []
+
+  for (const slot of slots) {
+    const conflict = checkSlotAvailability(slot, context)
+    if (conflict) {
+      skipped.push({ ...slot, ...conflict })
+    } else {
+      available.push(slot)
+    }
+  }
+
+  return { available, skipped }
+}
@@ -0,0 +1,84 @@
+// src/lib/bookingFeed.ts
+// Organizers' ICS subscription feed of their bookings
+//
+// renderBookingFeed turns get_booking_feed rows into a calendar. Each
+// booking keeps the UID of the file attendees download from the
+// confirmation page, and its SEQUENCE is bookings.calendar_sequence, so
+// subscribed calendars update moved bookings in place and mark cancelled
+// ones. This module doesn't import the app's Supabase client: the feed
+// is served by api/booking-feed.ts, outside the browser.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { bookingEventUid, calendarEvent, serializeCalendar } from './ical'
+import type { BookingFeedRow } from '../types/database'
+
+/** How often subscribers are asked to check for changes */
+const REFRESH_MINUTES = 30
+
+export interface BookingFeedOptions {
+  appName?: string
+  now?: Date
+}
+
+/**
+ * Subscription URL for a feed token. webcal:// makes browsers hand the
+ * link to the calendar app instead of downloading it.
+ */
+export function bookingFeedUrl(appUrl: string, token: string, { webcal = true } = {}): string {
+  const url = `${appUrl.replace(/\/$/, '')}/api/booking-feed?token=${encodeURIComponent(token)}`
+  return webcal ? url.replace(/^https?:\/\//, 'webcal://') : url
+}
+
+export function renderBookingFeed(
+  rows: BookingFeedRow[],
+  { appName = 'Schedlyx', now = new Date() }: BookingFeedOptions = {}
+): string {
+  const events = rows.map(row => {
+    const description = [
+      `Booked by ${row.attendee_name} <${row.attendee_email}>`,
+      row.quantity > 1 ? `Spots: ${row.quantity}` : null,
+      `Reference: ${row.booking_reference}`,
+      row.is_online && row.meeting_url ? `Join: ${row.meeting_url}` : null
+    ].filter(Boolean).join('\n')
+
+    return calendarEvent({
+      uid: bookingEventUid(row.booking_id),
+      sequence: row.calendar_sequence,
+      status: row.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+      start: row.start_time,
+      end: row.end_time,
+      summary: `${row.event_title}: ${row.attendee_name}`,
+      description,
+      location: (row.is_online ? row.meeting_url : row.location) || undefined,
+      created: row.created_at,
+      lastModified: row.updated_at
+    }, now)
+  })
+
+  return serializeCalendar(events, {
+    prodId: `-//${appName}//Booking Feed//EN`,
+    name: `${appName} bookings`,
+    refreshMinutes: REFRESH_MINUTES
+  })
+}
+
+/**
+ * Load and render the feed for a token
+ *
+ * @returns The calendar, or null when the token is unknown
+ */
+export async function fetchBookingFeed(
+  client: Pick<SupabaseClient, 'rpc'>,
+  token: string,
+  options: BookingFeedOptions = {}
+): Promise<string | null> {
+  const { data, error } = await client.rpc('get_booking_feed', { p_token: token })
+
+  if (error) {
+    if (error.message?.includes('feed not found')) return null
+    console.error('get_booking_feed RPC error:', error)
+    throw new Error(error.message)
+  }
+
+  return renderBookingFeed((data || []) as BookingFeedRow[], options)
+}
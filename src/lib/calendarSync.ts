@@ -0,0 +1,158 @@
+// src/lib/calendarSync.ts
+// Decisions of the calendar sync engine, kept free of I/O
+//
+// planCalendarImport turns a provider listing into busy blocks to store
+// and remove. planCalendarExport compares each booking with what was
+// last exported for it and decides what to write to the calendar.
+
+import type { CalendarEventLinkStatus, CalendarExportBooking } from '../types/database'
+import type { CalendarEventInput, ExternalCalendarEvent } from '../types/calendar'
+
+export interface ImportBlock {
+  external_event_id: string
+  title: string | null
+  start_time: string
+  end_time: string
+}
+
+export interface CalendarImportPlan {
+  blocks: ImportBlock[]
+  /** Events that were deleted or no longer block time */
+  removedEventIds: string[]
+  /** Current etags of changed exported events, by booking */
+  exportedEtags: Record<string, string>
+  /** Bookings whose exported event was deleted in the calendar */
+  deletedBookingIds: string[]
+}
+
+export type CalendarExportAction =
+  | { type: 'create'; booking: CalendarExportBooking }
+  /** force: overwrite edits made in the calendar */
+  | { type: 'update'; booking: CalendarExportBooking; eventId: string; force: boolean }
+  | { type: 'delete'; booking: CalendarExportBooking; eventId: string }
+  /** Drop the link without touching the calendar */
+  | { type: 'forget'; booking: CalendarExportBooking }
+  | { type: 'detach'; booking: CalendarExportBooking }
+
+/**
+ * Events exported from bookings are skipped: the booked slot is already
+ * taken, and importing it would hide the slot it was booked on.
+ */
+export function planCalendarImport(events: ExternalCalendarEvent[]): CalendarImportPlan {
+  const plan: CalendarImportPlan = {
+    blocks: [],
+    removedEventIds: [],
+    exportedEtags: {},
+    deletedBookingIds: []
+  }
+
+  for (const event of events) {
+    if (event.bookingId) {
+      if (event.status === 'cancelled') {
+        plan.deletedBookingIds.push(event.bookingId)
+      } else {
+        plan.exportedEtags[event.bookingId] = event.etag
+      }
+      continue
+    }
+
+    if (event.status === 'cancelled' || event.transparency === 'free') {
+      plan.removedEventIds.push(event.id)
+      continue
+    }
+
+    plan.blocks.push({
+      external_event_id: event.id,
+      title: event.title || null,
+      start_time: event.start,
+      end_time: event.end
+    })
+  }
+
+  return plan
+}
+
+/**
+ * Everything shown in the exported event, so a change to any of it is
+ * pushed to the calendar
+ */
+export function exportFingerprint(booking: CalendarExportBooking): string {
+  return [
+    booking.event_title,
+    booking.attendee_name,
+    booking.attendee_email,
+    booking.quantity,
+    booking.is_online ? booking.meeting_url : booking.location,
+    new Date(booking.start_time).toISOString(),
+    new Date(booking.end_time).toISOString()
+  ].join('|')
+}
+
+export function toCalendarEventInput(booking: CalendarExportBooking): CalendarEventInput {
+  const description = [
+    `Booked by ${booking.attendee_name} <${booking.attendee_email}>`,
+    booking.quantity > 1 ? `Spots: ${booking.quantity}` : null,
+    `Reference: ${booking.booking_reference}`,
+    booking.is_online && booking.meeting_url ? `Join: ${booking.meeting_url}` : null
+  ].filter(Boolean).join('\n')
+
+  return {
+    title: `${booking.event_title}: ${booking.attendee_name}`,
+    description,
+    location: (booking.is_online ? booking.meeting_url : booking.location) || undefined,
+    start: booking.start_time,
+    end: booking.end_time,
+    bookingId: booking.booking_id
+  }
+}
+
+/**
+ * What to write to the calendar for each booking.
+ *
+ * Confirmed bookings are exported and kept up to date; bookings that are
+ * no longer confirmed are removed. When the organizer edited an exported
+ * event in the calendar, the booking wins and is written back. When they
+ * deleted it, the link is detached and the event is not re-created.
+ * Edits are spotted by an etag from the import differing from the one
+ * the engine last wrote, so its own writes don't count.
+ */
+export function planCalendarExport(
+  bookings: CalendarExportBooking[],
+  { exportedEtags = {}, deleted = [] }: { exportedEtags?: Record<string, string>; deleted?: string[] } = {}
+): CalendarExportAction[] {
+  const actions: CalendarExportAction[] = []
+
+  for (const booking of bookings) {
+    const wanted = booking.booking_status === 'confirmed'
+    const eventId = booking.link_external_event_id
+    const status: CalendarEventLinkStatus | null = eventId ? booking.link_status : null
+
+    if (status === 'active' && eventId && deleted.includes(booking.booking_id)) {
+      actions.push(wanted ? { type: 'detach', booking } : { type: 'forget', booking })
+      continue
+    }
+
+    if (status === 'detached') {
+      if (!wanted) actions.push({ type: 'forget', booking })
+      continue
+    }
+
+    if (!eventId) {
+      if (wanted) actions.push({ type: 'create', booking })
+      continue
+    }
+
+    if (!wanted) {
+      actions.push({ type: 'delete', booking, eventId })
+      continue
+    }
+
+    const calendarEtag = exportedEtags[booking.booking_id]
+    const force = calendarEtag !== undefined && calendarEtag !== booking.link_etag
+    if (force || booking.link_fingerprint !== exportFingerprint(booking)) {
+      actions.push({ type: 'update', booking, eventId, force })
+    }
+  }
+
+  return actions
+}
@@ -0,0 +1,174 @@
+// src/lib/customFields.ts
+// Organizer-defined intake questions: field definitions and answer validation.
+// validate_custom_responses enforces the same rules when the booking is made
+// (see 20240222000000_custom_response_types.sql).
+
+import { generateId } from './utils'
+import type {
+  CustomField,
+  CustomFieldType,
+  CustomResponses,
+  CustomResponseValue
+} from '../types/database'
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Short text' },
+  { value: 'textarea', label: 'Long text' },
+  { value: 'select', label: 'Single choice' },
+  { value: 'multiselect', label: 'Multiple choice' },
+  { value: 'checkbox', label: 'Checkbox' },
+  { value: 'number', label: 'Number' },
+  { value: 'phone', label: 'Phone number' }
+]
+
+// Matches the phone check on the booking form's contact details
+const PHONE_PATTERN = /^[\d\s\-\+\(\)]+$/
+
+export const MAX_TEXT_LENGTH = 500
+export const MAX_LONG_TEXT_LENGTH = 2000
+
+export const hasOptions = (type: CustomFieldType): boolean =>
+  type === 'select' || type === 'multiselect'
+
+export function createCustomField(type: CustomFieldType = 'text'): CustomField {
+  return {
+    id: `field_${generateId()}`,
+    label: '',
+    type,
+    required: false,
+    ...(hasOptions(type) ? { options: [] } : {})
+  }
+}
+
+/**
+ * Checks the organizer's field definitions before the event is saved.
+ * Returns the first problem found, or null.
+ */
+export function validateCustomFieldDefinitions(fields: CustomField[]): string | null {
+  const labels = new Set<string>()
+
+  for (const [index, field] of fields.entries()) {
+    const label = field.label.trim()
+    if (!label) return `Question ${index + 1} needs a label`
+
+    const key = label.toLowerCase()
+    if (labels.has(key)) return `"${label}" is used for more than one question`
+    labels.add(key)
+
+    if (hasOptions(field.type)) {
+      const options = (field.options || []).map(option => option.trim()).filter(Boolean)
+      if (options.length === 0) return `"${label}" needs at least one option`
+      if (new Set(options).size !== options.length) return `"${label}" has duplicate options`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether a value counts as an answer: blank text, empty selections
+ * and unticked boxes do not
+ */
+export function isAnswered(value: CustomResponseValue | undefined): boolean {
+  if (value === undefined || value === null) return false
+  if (typeof value === 'string') return value.trim() !== ''
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'number') return Number.isFinite(value)
+  return value
+}
+
+export function validateCustomResponse(
+  field: CustomField,
+  value: CustomResponseValue | undefined
+): string | null {
+  if (!isAnswered(value)) {
+    return field.required ? `${field.label} is required` : null
+  }
+
+  switch (field.type) {
+    case 'text':
+      if (String(value).length > MAX_TEXT_LENGTH) {
+        return `${field.label} must be ${MAX_TEXT_LENGTH} characters or fewer`
+      }
+      return null
+
+    case 'textarea':
+      if (String(value).length > MAX_LONG_TEXT_LENGTH) {
+        return `${field.label} must be ${MAX_LONG_TEXT_LENGTH} characters or fewer`
+      }
+      return null
+
+    case 'select':
+      if (typeof value !== 'string' || !(field.options || []).includes(value)) {
+        return `Please choose an option for ${field.label}`
+      }
+      return null
+
+    case 'multiselect':
+      if (!Array.isArray(value) || value.some(option => !(field.options || []).includes(option))) {
+        return `Please choose from the listed options for ${field.label}`
+      }
+      return null
+
+    case 'checkbox':
+      return typeof value === 'boolean' ? null : `${field.label} must be ticked or left blank`
+
+    case 'number':
+      if (typeof value !== 'number' && (typeof value !== 'string' || !Number.isFinite(Number(value)))) {
+        return `${field.label} must be a number`
+      }
+      return null
+
+    case 'phone':
+      if (typeof value !== 'string' || !PHONE_PATTERN.test(value)) {
+        return `Please enter a valid phone number for ${field.label}`
+      }
+      return null
+
+    default:
+      return null
+  }
+}
+
+/**
+ * Validates every answer against its field, keyed by field id
+ */
+export function validateCustomResponses(
+  fields: CustomField[],
+  responses: CustomResponses = {}
+): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  for (const field of fields) {
+    const error = validateCustomResponse(field, responses[field.id])
+    if (error) errors[field.id] = error
+  }
+
+  return errors
+}
+
+/**
+ * The answers to store with the booking: only answered, known fields,
+ * with text trimmed and numbers parsed
+ */
+export function cleanCustomResponses(
+  fields: CustomField[],
+  responses: CustomResponses = {}
+): CustomResponses {
+  const cleaned: CustomResponses = {}
+
+  for (const field of fields) {
+    const value = responses[field.id]
+    if (!isAnswered(value)) continue
+
+    if (field.type === 'number') {
+      cleaned[field.id] = Number(value)
+    } else if (typeof value === 'string') {
+      cleaned[field.id] = value.trim()
+    } else {
+      cleaned[field.id] = value
+    }
+  }
+
+  return cleaned
+}
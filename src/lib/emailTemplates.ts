@@ -0,0 +1,276 @@
+// src/lib/emailTemplates.ts
+// Outbox email templates, rendered by the email worker from the payload
+// stored with each outbox row: enqueue_booking_email builds the booking
+// emails' payload, enqueue_waitlist_offer_email the waitlist offer's
+
+import { formatDateInTimeZone, formatTimeRange, getTimeZoneAbbreviation } from './timezone'
+import { bookingCalendar, calendarContentType } from './ical'
+import type {
+  BookingEmailPayload,
+  EmailOutbox,
+  EmailTemplate,
+  WaitlistOfferEmailPayload
+} from '../types/database'
+
+/**
+ * An iCalendar meeting request or cancellation. Providers send it as a
+ * text/calendar part with contentType, so mail clients offer to update
+ * the attendee's calendar.
+ */
+export interface CalendarInvite {
+  method: 'REQUEST' | 'CANCEL'
+  contentType: string
+  content: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+  invite?: CalendarInvite
+}
+
+export interface EmailRenderOptions {
+  /** Base URL of the app, for the manage-booking link */
+  appUrl: string
+  appName?: string
+  /** Defaults to en-US, since the worker doesn't know the attendee's locale */
+  locale?: string
+  /** When the invite was written (its DTSTAMP) */
+  now?: Date
+}
+
+interface TemplateCopy {
+  subject: (payload: BookingEmailPayload) => string
+  heading: string
+  intro: (payload: BookingEmailPayload) => string
+  /** Whether to link to the manage page; cancelled bookings have nothing to manage */
+  showManageLink: boolean
+  /** Calendar invite to attach, if any */
+  inviteMethod?: CalendarInvite['method']
+}
+
+type BookingEmailTemplate = Exclude<EmailTemplate, 'waitlist_spot_available'>
+
+const TEMPLATES: Record<BookingEmailTemplate, TemplateCopy> = {
+  booking_created: {
+    subject: p => `Booking request received: ${p.event_title}`,
+    heading: 'We received your booking request',
+    intro: p => `${p.organizer_name || 'The organizer'} will review your request for "${p.event_title}". We'll email you as soon as it's confirmed.`,
+    showManageLink: true
+  },
+  booking_confirmed: {
+    subject: p => `Booking confirmed: ${p.event_title}`,
+    heading: 'Your booking is confirmed',
+    intro: p => `You're booked for "${p.event_title}".`,
+    showManageLink: true,
+    inviteMethod: 'REQUEST'
+  },
+  booking_rescheduled: {
+    subject: p => `Booking rescheduled: ${p.event_title}`,
+    heading: 'Your booking has a new time',
+    intro: p => `Your booking for "${p.event_title}" has been moved. Here are the new details.`,
+    showManageLink: true,
+    inviteMethod: 'REQUEST'
+  },
+  booking_cancelled: {
+    subject: p => `Booking cancelled: ${p.event_title}`,
+    heading: 'Your booking has been cancelled',
+    intro: p => `Your booking for "${p.event_title}" has been cancelled.${
+      p.cancellation_reason ? ` Reason: ${p.cancellation_reason}` : ''
+    }`,
+    showManageLink: false,
+    inviteMethod: 'CANCEL'
+  },
+  booking_reminder: {
+    subject: p => `Reminder: ${p.event_title}`,
+    heading: 'Your booking is coming up',
+    intro: p => `This is a reminder of your upcoming booking for "${p.event_title}".`,
+    showManageLink: true
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function manageBookingUrl(
+  appUrl: string,
+  payload: Pick<BookingEmailPayload, 'booking_reference' | 'email'>
+): string {
+  const params = new URLSearchParams({ ref: payload.booking_reference, email: payload.email })
+  return `${appUrl.replace(/\/+$/, '')}/booking/manage?${params.toString()}`
+}
+
+/**
+ * Label/value rows describing the booking, shared by the text and HTML bodies
+ */
+function detailRows(
+  payload: Pick<BookingEmailPayload, 'starts_at' | 'ends_at' | 'timezone' | 'is_online' | 'location' | 'quantity'> &
+    Partial<Pick<BookingEmailPayload, 'meeting_url' | 'booking_reference'>>,
+  locale: string
+): [string, string][] {
+  const rows: [string, string][] = [
+    ['Date', formatDateInTimeZone(payload.starts_at, payload.timezone, locale)],
+    ['Time', `${formatTimeRange(payload.starts_at, payload.ends_at, payload.timezone, locale)} ${getTimeZoneAbbreviation(payload.timezone, payload.starts_at)}`]
+  ]
+
+  if (payload.is_online) {
+    rows.push(['Where', payload.meeting_url || 'Online'])
+  } else if (payload.location) {
+    rows.push(['Where', payload.location])
+  }
+
+  if (payload.quantity > 1) {
+    rows.push(['Spots', String(payload.quantity)])
+  }
+
+  if (payload.booking_reference) {
+    rows.push(['Reference', payload.booking_reference])
+  }
+  return rows
+}
+
+/**
+ * Text and HTML bodies: greeting, intro, detail rows and an optional link
+ */
+function renderBodies(
+  heading: string,
+  greeting: string,
+  intro: string,
+  rows: [string, string][],
+  link: { url: string; label: string } | null,
+  appName: string
+): Pick<RenderedEmail, 'text' | 'html'> {
+  const text = [
+    greeting,
+    '',
+    intro,
+    '',
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    ...(link ? ['', `${link.label}: ${link.url}`] : []),
+    '',
+    `— ${appName}`
+  ].join('\n')
+
+  const html = [
+    `<h1 style="font-size:20px">${escapeHtml(heading)}</h1>`,
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    '<table cellpadding="4">',
+    ...rows.map(([label, value]) =>
+      `<tr><td style="color:#6b7280">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`
+    ),
+    '</table>',
+    ...(link
+      ? [`<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`]
+      : []),
+    `<p style="color:#6b7280">— ${escapeHtml(appName)}</p>`
+  ].join('\n')
+
+  return { text, html }
+}
+
+/**
+ * The invite for a template, or undefined when there is none to send:
+ * emails queued before invites lack the booking ID and organizer, and
+ * requests declined before confirmation were never invited
+ */
+export function renderCalendarInvite(
+  method: CalendarInvite['method'] | undefined,
+  payload: BookingEmailPayload,
+  { appName = 'Schedlyx', now = new Date() }: { appName?: string; now?: Date } = {}
+): CalendarInvite | undefined {
+  if (!method || !payload.booking_id || !payload.organizer_email) return undefined
+  if (method === 'CANCEL' && !payload.confirmed_at) return undefined
+
+  const content = bookingCalendar({
+    bookingId: payload.booking_id,
+    sequence: payload.calendar_sequence,
+    start: payload.starts_at,
+    end: payload.ends_at,
+    timeZone: payload.timezone,
+    summary: payload.event_title,
+    description: `Reference: ${payload.booking_reference}`,
+    location: (payload.is_online ? payload.meeting_url : payload.location) || undefined,
+    url: (payload.is_online && payload.meeting_url) || undefined,
+    organizer: {
+      email: payload.organizer_email,
+      name: payload.organizer_name || undefined
+    },
+    attendee: {
+      email: payload.email,
+      name: `${payload.first_name} ${payload.last_name}`.trim() || undefined
+    }
+  }, { method, prodId: `-//${appName}//Booking System//EN`, now })
+
+  return { method, contentType: calendarContentType(method), content }
+}
+
+export function renderBookingEmail(
+  template: BookingEmailTemplate,
+  payload: BookingEmailPayload,
+  { appUrl, appName = 'Schedlyx', locale = 'en-US', now = new Date() }: EmailRenderOptions
+): RenderedEmail {
+  const copy = TEMPLATES[template]
+  const manageUrl = copy.showManageLink ? manageBookingUrl(appUrl, payload) : null
+
+  return {
+    subject: copy.subject(payload),
+    ...renderBodies(
+      copy.heading,
+      `Hi ${payload.first_name || 'there'},`,
+      copy.intro(payload),
+      detailRows(payload, locale),
+      manageUrl ? { url: manageUrl, label: 'View, reschedule or cancel your booking' } : null,
+      appName
+    ),
+    invite: renderCalendarInvite(copy.inviteMethod, payload, { appName, now })
+  }
+}
+
+/**
+ * Tells a waitlisted invitee that seats are held for them, and until
+ * when, with the link that claims the hold
+ */
+export function renderWaitlistOfferEmail(
+  payload: WaitlistOfferEmailPayload,
+  { appUrl, appName = 'Schedlyx', locale = 'en-US' }: EmailRenderOptions
+): RenderedEmail {
+  const expiresAt = new Date(payload.expires_at)
+  const deadline = `${expiresAt.toLocaleTimeString(locale, {
+    timeZone: payload.timezone,
+    hour: 'numeric',
+    minute: '2-digit'
+  })} ${getTimeZoneAbbreviation(payload.timezone, expiresAt)}`
+
+  return {
+    subject: `A spot opened up: ${payload.event_title}`,
+    ...renderBodies(
+      'A spot has opened up',
+      `Hi ${payload.first_name || 'there'},`,
+      `A spot opened up for "${payload.event_title}" and we're holding it for you until ${deadline}. ` +
+        'After that it goes to the next person on the waitlist.',
+      detailRows(payload, locale),
+      { url: `${appUrl.replace(/\/+$/, '')}${payload.booking_path}`, label: 'Book your spot' },
+      appName
+    )
+  }
+}
+
+/**
+ * Renders an outbox email with the template it was queued for
+ */
+export function renderOutboxEmail(
+  email: Pick<EmailOutbox, 'template' | 'payload'>,
+  options: EmailRenderOptions
+): RenderedEmail {
+  return email.template === 'waitlist_spot_available'
+    ? renderWaitlistOfferEmail(email.payload as WaitlistOfferEmailPayload, options)
+    : renderBookingEmail(email.template, email.payload as BookingEmailPayload, options)
+}
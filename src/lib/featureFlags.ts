@@ -1,12 +1,17 @@
 export interface FeatureFlags {
   ENABLE_BOOKING_ENGINE: boolean
+  // Checkout with the in-browser fake payment provider; development only,
+  // and the database must have app.fake_payments on as well
+  ENABLE_FAKE_PAYMENTS: boolean
 }
 
 const DEFAULT_FLAGS: FeatureFlags = {
   ENABLE_BOOKING_ENGINE: false,
+  ENABLE_FAKE_PAYMENTS: false,
 }
 
 export const featureFlags: FeatureFlags = {
   ...DEFAULT_FLAGS,
   ENABLE_BOOKING_ENGINE: import.meta.env.VITE_ENABLE_BOOKING_ENGINE === 'true',
+  ENABLE_FAKE_PAYMENTS: import.meta.env.VITE_ENABLE_FAKE_PAYMENTS === 'true',
 }
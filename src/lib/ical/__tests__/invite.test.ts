@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { bookingCalendar, BookingInvite } from '../invite'
+import { parseIcs } from '../parser'
+import { vtimezone, formatUtcOffset } from '../timezone'
+import { serializeComponent } from '../writer'
+
+const now = new Date('2024-04-20T12:00:00Z')
+
+const invite: BookingInvite = {
+  bookingId: 'b1',
+  sequence: 0,
+  start: '2024-05-02T13:00:00Z',
+  end: '2024-05-02T13:30:00Z',
+  timeZone: 'America/New_York',
+  summary: 'Intro call',
+  description: 'Reference: A1B2C3D4',
+  location: 'Room 4, 2nd floor',
+  organizer: { email: 'alex@example.com', name: 'Alex Kim' },
+  attendee: { email: 'sam@example.com', name: 'Lee, Sam' }
+}
+
+// Known-good files: check changes against RFC 5545/5546 before updating them
+describe('bookingCalendar', () => {
+  it('writes meeting requests', async () => {
+    await expect(bookingCalendar(invite, { method: 'REQUEST', now }))
+      .toMatchFileSnapshot('./__snapshots__/booking-request.ics')
+  })
+
+  it('writes updates with a higher sequence', async () => {
+    await expect(bookingCalendar({
+      ...invite,
+      sequence: 1,
+      start: '2024-11-04T14:00:00Z',
+      end: '2024-11-04T14:30:00Z'
+    }, { method: 'REQUEST', now }))
+      .toMatchFileSnapshot('./__snapshots__/booking-update.ics')
+  })
+
+  it('writes cancellations without alarms', async () => {
+    await expect(bookingCalendar({ ...invite, sequence: 2 }, { method: 'CANCEL', now }))
+      .toMatchFileSnapshot('./__snapshots__/booking-cancel.ics')
+  })
+
+  it('writes downloads in UTC without a time zone', async () => {
+    await expect(bookingCalendar({
+      bookingId: 'b2',
+      start: '2024-05-02T13:00:00Z',
+      end: '2024-05-02T13:30:00Z',
+      summary: 'Intro call',
+      alarms: [60, 10]
+    }, { now }))
+      .toMatchFileSnapshot('./__snapshots__/booking-publish.ics')
+  })
+
+  it('requires an organizer for requests and cancellations', () => {
+    expect(() => bookingCalendar({ ...invite, organizer: undefined }, { method: 'REQUEST', now }))
+      .toThrow('REQUEST calendars need an organizer')
+  })
+
+  it('reads back as the same event', () => {
+    const [event] = parseIcs(bookingCalendar(invite, { method: 'REQUEST', now }))
+
+    expect(event.uid).toBe('b1@schedlyx.app')
+    expect(event.summary).toBe('Intro call')
+    expect(event.start).toEqual({ date: '2024-05-02', time: '09:00:00', timeZone: 'America/New_York' })
+  })
+})
+
+describe('vtimezone', () => {
+  it('lists the zone transitions around the event', () => {
+    const lines = serializeComponent(vtimezone('Europe/Berlin', '2024-07-01T10:00:00Z'))
+
+    expect(lines).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'BEGIN:STANDARD',
+      'DTSTART:20231029T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      expect.stringMatching(/^TZNAME:/),
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20240331T020000',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      expect.stringMatching(/^TZNAME:/),
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20241027T030000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      expect.stringMatching(/^TZNAME:/),
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ])
+  })
+
+  it('uses a single observance for zones without DST', () => {
+    const lines = serializeComponent(vtimezone('Asia/Kolkata', '2024-07-01T10:00:00Z'))
+
+    expect(lines.slice(0, 6)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Kolkata',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0530',
+      'TZOFFSETTO:+0530'
+    ])
+    expect(lines).toHaveLength(9)
+  })
+
+  it('formats offsets', () => {
+    expect(formatUtcOffset(-300)).toBe('-0500')
+    expect(formatUtcOffset(345)).toBe('+0545')
+    expect(formatUtcOffset(0)).toBe('+0000')
+  })
+})
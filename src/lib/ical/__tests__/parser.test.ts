@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest'
+import {
+  icsBusyIntervals,
+  parseDuration,
+  parseIcs,
+  parseProperty,
+  resolveTimeZone,
+  unfoldLines
+} from '../parser'
+
+const calendar = (...events: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example//Calendar//EN',
+  ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+  'END:VCALENDAR'
+].join('\r\n')
+
+const window = {
+  from: new Date('2024-05-01T00:00:00Z'),
+  to: new Date('2024-06-01T00:00:00Z'),
+  timeZone: 'Europe/Berlin'
+}
+
+const busy = (...events: string[][]) => icsBusyIntervals(parseIcs(calendar(...events)), window)
+
+describe('ics', () => {
+  describe('parsing', () => {
+    it('unfolds continuation lines', () => {
+      expect(unfoldLines('SUMMARY:Quarterly plan\r\n ning review\r\n\tcall\r\nUID:1')).toEqual([
+        'SUMMARY:Quarterly planning reviewcall',
+        'UID:1'
+      ])
+    })
+
+    it('reads parameters, including quoted values with colons', () => {
+      expect(parseProperty('DTSTART;TZID="America/New_York":20240502T090000')).toEqual({
+        name: 'DTSTART',
+        params: { TZID: 'America/New_York' },
+        value: '20240502T090000'
+      })
+      expect(parseProperty('ATTENDEE;CN="Lee: Sam";ROLE=CHAIR:mailto:sam@example.com')).toEqual({
+        name: 'ATTENDEE',
+        params: { CN: 'Lee: Sam', ROLE: 'CHAIR' },
+        value: 'mailto:sam@example.com'
+      })
+    })
+
+    it('reads durations', () => {
+      expect(parseDuration('PT1H30M')).toBe(5400)
+      expect(parseDuration('P1DT2H')).toBe(93600)
+      expect(parseDuration('P2W')).toBe(1209600)
+      expect(parseDuration('PT')).toBeNull()
+    })
+
+    it('reads events and ignores nested alarms', () => {
+      const [event] = parseIcs(calendar([
+        'UID:abc@example.com',
+        'SUMMARY:Dentist\\, downtown',
+        'DTSTART;TZID=Europe/Berlin:20240502T100000',
+        'DTEND;TZID=Europe/Berlin:20240502T110000',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'SUMMARY:Alarm',
+        'END:VALARM'
+      ]))
+
+      expect(event).toMatchObject({
+        uid: 'abc@example.com',
+        summary: 'Dentist, downtown',
+        start: { date: '2024-05-02', time: '10:00:00', timeZone: 'Europe/Berlin' },
+        end: { date: '2024-05-02', time: '11:00:00', timeZone: 'Europe/Berlin' },
+        transparent: false
+      })
+    })
+
+    it('skips events without a UID or start', () => {
+      expect(parseIcs(calendar(['SUMMARY:No UID', 'DTSTART:20240502T100000Z'], ['UID:x']))).toEqual([])
+    })
+
+    it('maps Windows zone names and falls back for unknown zones', () => {
+      expect(resolveTimeZone('Pacific Standard Time', 'UTC')).toBe('America/Los_Angeles')
+      expect(resolveTimeZone('/Europe/Paris', 'UTC')).toBe('Europe/Paris')
+      expect(resolveTimeZone('Custom Zone 1', 'Europe/Berlin')).toBe('Europe/Berlin')
+    })
+  })
+
+  describe('icsBusyIntervals', () => {
+    it('converts zoned, UTC and floating times', () => {
+      expect(busy(
+        ['UID:a', 'DTSTART;TZID=America/New_York:20240502T090000', 'DURATION:PT1H'],
+        ['UID:b', 'DTSTART:20240502T120000Z', 'DTEND:20240502T123000Z'],
+        ['UID:c', 'DTSTART:20240502T150000', 'DTEND:20240502T160000']
+      )).toEqual([
+        { id: 'a', start: '2024-05-02T13:00:00.000Z', end: '2024-05-02T14:00:00.000Z', title: undefined },
+        { id: 'b', start: '2024-05-02T12:00:00.000Z', end: '2024-05-02T12:30:00.000Z', title: undefined },
+        // Floating times are read in the calendar owner's zone
+        { id: 'c', start: '2024-05-02T13:00:00.000Z', end: '2024-05-02T14:00:00.000Z', title: undefined }
+      ])
+    })
+
+    it('blocks whole days for all-day events in the owner zone', () => {
+      expect(busy(['UID:a', 'SUMMARY:Off', 'DTSTART;VALUE=DATE:20240510'])).toEqual([
+        { id: 'a', start: '2024-05-09T22:00:00.000Z', end: '2024-05-10T22:00:00.000Z', title: 'Off' }
+      ])
+    })
+
+    it('skips free, cancelled and out-of-window events', () => {
+      expect(busy(
+        ['UID:a', 'DTSTART:20240502T120000Z', 'DTEND:20240502T130000Z', 'TRANSP:TRANSPARENT'],
+        ['UID:b', 'DTSTART:20240502T120000Z', 'DTEND:20240502T130000Z', 'STATUS:CANCELLED'],
+        ['UID:c', 'DTSTART:20240702T120000Z', 'DTEND:20240702T130000Z']
+      )).toEqual([])
+    })
+
+    it('expands weekly rules in the event zone across DST', () => {
+      const intervals = icsBusyIntervals(parseIcs(calendar([
+        'UID:standup',
+        'DTSTART;TZID=America/New_York:20240301T090000',
+        'DTEND;TZID=America/New_York:20240301T091500',
+        'RRULE:FREQ=WEEKLY;BYDAY=FR;COUNT=3'
+      ])), { from: new Date('2024-03-01T00:00:00Z'), to: new Date('2024-04-01T00:00:00Z'), timeZone: 'UTC' })
+
+      expect(intervals.map(interval => interval.start)).toEqual([
+        '2024-03-01T14:00:00.000Z',
+        '2024-03-08T14:00:00.000Z',
+        // Clocks went forward on March 10
+        '2024-03-15T13:00:00.000Z'
+      ])
+    })
+
+    it('applies UNTIL, EXDATE and edited occurrences', () => {
+      const intervals = busy(
+        [
+          'UID:sync',
+          'DTSTART:20240506T080000Z',
+          'DTEND:20240506T090000Z',
+          'RRULE:FREQ=DAILY;UNTIL=20240510T080000Z',
+          'EXDATE:20240508T080000Z'
+        ],
+        [
+          'UID:sync',
+          'RECURRENCE-ID:20240509T080000Z',
+          'DTSTART:20240509T140000Z',
+          'DTEND:20240509T150000Z'
+        ]
+      )
+
+      expect(intervals.map(interval => interval.start).sort()).toEqual([
+        '2024-05-06T08:00:00.000Z',
+        '2024-05-07T08:00:00.000Z',
+        '2024-05-09T14:00:00.000Z',
+        '2024-05-10T08:00:00.000Z'
+      ])
+      expect(new Set(intervals.map(interval => interval.id)).size).toBe(4)
+    })
+
+    it('expands monthly weekday rules', () => {
+      const intervals = busy([
+        'UID:board',
+        'DTSTART:20240102T160000Z',
+        'DTEND:20240102T170000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=1TU'
+      ])
+
+      expect(intervals.map(interval => interval.start)).toEqual(['2024-05-07T16:00:00.000Z'])
+    })
+
+    it('blocks only the first occurrence of rules it cannot expand', () => {
+      expect(busy([
+        'UID:a',
+        'DTSTART:20240502T120000Z',
+        'DTEND:20240502T123000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=MO,TU;BYSETPOS=-1'
+      ])).toHaveLength(1)
+    })
+  })
+})
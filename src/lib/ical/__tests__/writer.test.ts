@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  escapeText,
+  formatParamValue,
+  utcDateTime,
+  foldLine,
+  serializeProperty,
+  property,
+  calendarEvent,
+  serializeCalendar
+} from '../writer'
+
+const octets = (line: string) => new TextEncoder().encode(line).length
+
+describe('icalendar', () => {
+  it('escapes TEXT values', () => {
+    expect(escapeText('Lunch; bring snacks, drinks\\cups\nthanks'))
+      .toBe('Lunch\\; bring snacks\\, drinks\\\\cups\\nthanks')
+  })
+
+  it('quotes parameter values only when needed', () => {
+    expect(formatParamValue('Jane Doe')).toBe('Jane Doe')
+    expect(formatParamValue('Doe, Jane')).toBe('"Doe, Jane"')
+    expect(formatParamValue('mailto:"x"')).toBe('"mailto:x"')
+  })
+
+  it('formats UTC date-times', () => {
+    expect(utcDateTime('2024-05-02T09:30:15.250Z')).toBe('20240502T093015Z')
+  })
+
+  it('folds long lines at 75 octets', () => {
+    const line = `DESCRIPTION:${'a'.repeat(200)}`
+    const folded = foldLine(line).split('\r\n')
+
+    expect(folded.length).toBe(3)
+    folded.forEach((part, index) => {
+      expect(octets(part)).toBeLessThanOrEqual(75)
+      if (index > 0) expect(part.startsWith(' ')).toBe(true)
+    })
+    expect(folded.map((part, index) => index > 0 ? part.slice(1) : part).join('')).toBe(line)
+  })
+
+  it('never splits multibyte characters when folding', () => {
+    const line = `SUMMARY:${'é🎉'.repeat(30)}`
+    const folded = foldLine(line).split('\r\n')
+
+    folded.forEach(part => expect(octets(part)).toBeLessThanOrEqual(75))
+    expect(folded.map((part, index) => index > 0 ? part.slice(1) : part).join('')).toBe(line)
+  })
+
+  it('serializes parameters', () => {
+    expect(serializeProperty(property('ORGANIZER', 'mailto:jane@example.com', { CN: 'Doe, Jane' })))
+      .toBe('ORGANIZER;CN="Doe, Jane":mailto:jane@example.com')
+  })
+
+  it('writes a calendar with CRLF line endings', () => {
+    const now = new Date('2024-05-01T00:00:00Z')
+    const calendar = serializeCalendar([
+      calendarEvent({
+        uid: 'b1@schedlyx.app',
+        sequence: 2,
+        start: '2024-05-02T09:00:00Z',
+        end: '2024-05-02T09:30:00Z',
+        summary: 'Intro call, 30 min',
+        location: 'Room 1'
+      }, now)
+    ], { name: 'Bookings', refreshMinutes: 30 })
+
+    expect(calendar.endsWith('\r\n')).toBe(true)
+    expect(calendar.split('\r\n').slice(0, -1)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Schedlyx//Schedlyx//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Bookings',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT30M',
+      'X-PUBLISHED-TTL:PT30M',
+      'BEGIN:VEVENT',
+      'UID:b1@schedlyx.app',
+      'DTSTAMP:20240501T000000Z',
+      'DTSTART:20240502T090000Z',
+      'DTEND:20240502T093000Z',
+      'SEQUENCE:2',
+      'STATUS:CONFIRMED',
+      'SUMMARY:Intro call\\, 30 min',
+      'LOCATION:Room 1',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ])
+  })
+})
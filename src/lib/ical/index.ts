@@ -0,0 +1,8 @@
+// src/lib/ical/index.ts
+// iCalendar (RFC 5545): reading busy time from calendar files, writing
+// calendars, and booking invitations
+
+export * from './parser'
+export * from './writer'
+export * from './timezone'
+export * from './invite'
@@ -0,0 +1,107 @@
+// src/lib/ical/invite.ts
+// Booking calendars: downloads and emailed meeting requests
+//
+// bookingCalendar writes one booking as a complete calendar. PUBLISH is
+// a plain file to import, like the confirmation page download. REQUEST
+// and CANCEL are iTIP (RFC 5546) messages: attached to an email as a
+// text/calendar part with the same method, mail clients show them as a
+// meeting invitation, update or cancellation and keep the attendee's
+// calendar in step. UID and SEQUENCE tie them together, so a REQUEST
+// with a higher SEQUENCE moves the event and a CANCEL removes it.
+
+import { calendarEvent, serializeCalendar, IcalAddress, IcalComponent } from './writer'
+import { vtimezone } from './timezone'
+import { isValidTimeZone } from '../timezone'
+
+export const BOOKING_UID_DOMAIN = 'schedlyx.app'
+
+export const BOOKING_PRODID = '-//Schedlyx//Booking System//EN'
+
+/** Alarm added to bookings unless the caller picks its own */
+export const DEFAULT_ALARM_MINUTES = 15
+
+export type InviteMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL'
+
+export interface BookingInvite {
+  bookingId: string
+  /** bookings.calendar_sequence */
+  sequence?: number
+  start: Date | string
+  end: Date | string
+  /** Zone to show the times in; the event is written in UTC without one */
+  timeZone?: string
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  /** Required for REQUEST and CANCEL */
+  organizer?: IcalAddress
+  /** The person who booked */
+  attendee?: IcalAddress
+  /** Minutes before the start; defaults to DEFAULT_ALARM_MINUTES */
+  alarms?: number[]
+}
+
+export interface BookingCalendarOptions {
+  method?: InviteMethod
+  prodId?: string
+  now?: Date
+}
+
+/**
+ * UID of a booking's calendar event, the same in every file and feed
+ */
+export function bookingEventUid(bookingId: string): string {
+  return `${bookingId}@${BOOKING_UID_DOMAIN}`
+}
+
+/**
+ * Content-Type of a calendar sent with an email. Mail clients only treat
+ * it as a meeting request when the method matches the file's METHOD.
+ */
+export function calendarContentType(method: InviteMethod): string {
+  return `text/calendar; charset=utf-8; method=${method}`
+}
+
+export function bookingCalendar(
+  invite: BookingInvite,
+  { method = 'PUBLISH', prodId = BOOKING_PRODID, now = new Date() }: BookingCalendarOptions = {}
+): string {
+  if (method !== 'PUBLISH' && !invite.organizer) {
+    throw new Error(`${method} calendars need an organizer`)
+  }
+
+  const cancelled = method === 'CANCEL'
+  const timeZone = invite.timeZone && invite.timeZone !== 'UTC' && isValidTimeZone(invite.timeZone)
+    ? invite.timeZone
+    : undefined
+
+  const components: IcalComponent[] = []
+  if (timeZone) {
+    components.push(vtimezone(timeZone, invite.start, invite.end))
+  }
+
+  components.push(calendarEvent({
+    uid: bookingEventUid(invite.bookingId),
+    sequence: invite.sequence,
+    status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+    start: invite.start,
+    end: invite.end,
+    timeZone,
+    summary: invite.summary,
+    description: invite.description,
+    location: invite.location,
+    url: invite.url,
+    organizer: invite.organizer,
+    // The booking is the attendee's acceptance, so nothing asks them to reply
+    attendees: invite.attendee
+      ? [{ ...invite.attendee, role: 'REQ-PARTICIPANT', partStat: 'ACCEPTED', rsvp: false }]
+      : [],
+    alarms: cancelled ? [] : invite.alarms ?? [DEFAULT_ALARM_MINUTES]
+  }, now))
+
+  return serializeCalendar(components, {
+    prodId,
+    method: method === 'PUBLISH' ? undefined : method
+  })
+}
@@ -0,0 +1,418 @@
+// src/lib/ical/parser.ts
+// Reads iCalendar (RFC 5545) files into busy time
+//
+// parseIcs reads the VEVENTs of a calendar file or subscription feed.
+// icsBusyIntervals expands them, recurring events included, into the busy
+// time falling inside a window. Recurrence rules are mapped onto
+// RecurrenceRule and expanded by lib/recurrence, so rules it cannot
+// express (hourly, BYSETPOS, several monthly weekdays, ...) only block
+// their first occurrence.
+
+import { expandRecurrence, validateRecurrenceRule } from '../recurrence'
+import { getDateInTimeZone, isValidTimeZone, zonedTimeToUtc } from '../timezone'
+import type { RecurrenceRule } from '../../types/recurrence'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * A DATE or DATE-TIME value as written in the file
+ */
+export interface IcsDateTime {
+  /** YYYY-MM-DD */
+  date: string
+  /** HH:mm:ss; absent for all-day (DATE) values */
+  time?: string
+  /** 'UTC' for times ending in Z, the TZID parameter, or unset for floating times */
+  timeZone?: string
+}
+
+export interface IcsEvent {
+  uid: string
+  summary?: string
+  start: IcsDateTime
+  end?: IcsDateTime
+  /** DURATION in seconds */
+  duration?: number
+  /** CONFIRMED, TENTATIVE or CANCELLED */
+  status?: string
+  /** TRANSP:TRANSPARENT, shown as free */
+  transparent: boolean
+  /** RRULE parts, e.g. { FREQ: 'WEEKLY', BYDAY: 'MO,WE' } */
+  rrule?: Record<string, string>
+  exdates: IcsDateTime[]
+  /** Set on an edited occurrence of a recurring event */
+  recurrenceId?: IcsDateTime
+}
+
+export interface IcsBusyInterval {
+  /** UID, plus the occurrence start for recurring events */
+  id: string
+  start: string
+  end: string
+  title?: string
+}
+
+// Zones Outlook and Exchange write as Windows names
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'South Africa Standard Time': 'Africa/Johannesburg',
+  'India Standard Time': 'Asia/Kolkata',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC'
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+/**
+ * Split a file into content lines, joining folded continuation lines
+ */
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+}
+
+/**
+ * Read one content line, e.g. `DTSTART;TZID=Europe/Paris:20240502T090000`
+ */
+export function parseProperty(line: string): IcsProperty | null {
+  let index = 0
+  let inQuotes = false
+
+  // The value starts at the first colon outside a quoted parameter value
+  for (; index < line.length; index++) {
+    const char = line[index]
+    if (char === '"') inQuotes = !inQuotes
+    if (char === ':' && !inQuotes) break
+  }
+  if (index === line.length) return null
+
+  const [name, ...paramParts] = line.slice(0, index).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const equals = part.indexOf('=')
+    if (equals > 0) {
+      params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, '')
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) }
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+/**
+ * Read a DATE (20240502) or DATE-TIME (20240502T090000, optionally Z) value
+ */
+export function parseIcsDateTime(value: string, params: Record<string, string> = {}): IcsDateTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const date = `${year}-${month}-${day}`
+
+  if (!hour) return { date }
+
+  return {
+    date,
+    time: `${hour}:${minute}:${second}`,
+    timeZone: utc ? 'UTC' : params.TZID
+  }
+}
+
+/**
+ * Read a DURATION value such as PT1H30M or P1D, in seconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match || value.trim() === 'P' || /T$/.test(value.trim())) return null
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part || '0')
+  const total = Number(weeks) * 604800 + Number(days) * 86400 +
+    Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)
+
+  return sign === '-' ? -total : total
+}
+
+/**
+ * The VEVENTs of a calendar file. Events without a UID or start are skipped.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = []
+  // Nesting of BEGIN/END blocks; VALARMs inside a VEVENT are ignored
+  const stack: string[] = []
+  let current: Partial<IcsEvent> & { exdates: IcsDateTime[] } | null = null
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line)
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      const component = property.value.toUpperCase()
+      stack.push(component)
+      if (component === 'VEVENT' && stack.length === 2) {
+        current = { exdates: [], transparent: false }
+      }
+      continue
+    }
+
+    if (property.name === 'END') {
+      const component = stack.pop()
+      if (component === 'VEVENT' && current) {
+        if (current.uid && current.start) {
+          events.push(current as IcsEvent)
+        }
+        current = null
+      }
+      continue
+    }
+
+    if (!current || stack[stack.length - 1] !== 'VEVENT') continue
+
+    const { name, params, value } = property
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim()
+        break
+      case 'SUMMARY':
+        current.summary = unescapeText(value)
+        break
+      case 'DTSTART':
+        current.start = parseIcsDateTime(value, params) ?? undefined
+        break
+      case 'DTEND':
+        current.end = parseIcsDateTime(value, params) ?? undefined
+        break
+      case 'DURATION':
+        current.duration = parseDuration(value) ?? undefined
+        break
+      case 'STATUS':
+        current.status = value.trim().toUpperCase()
+        break
+      case 'TRANSP':
+        current.transparent = value.trim().toUpperCase() === 'TRANSPARENT'
+        break
+      case 'RRULE':
+        current.rrule = Object.fromEntries(
+          value.split(';')
+            .map(part => part.split('='))
+            .filter(([key, ruleValue]) => key && ruleValue)
+            .map(([key, ruleValue]) => [key.toUpperCase(), ruleValue.toUpperCase()])
+        )
+        break
+      case 'EXDATE':
+        for (const exdate of value.split(',')) {
+          const parsed = parseIcsDateTime(exdate, params)
+          if (parsed) current.exdates.push(parsed)
+        }
+        break
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseIcsDateTime(value, params) ?? undefined
+        break
+    }
+  }
+
+  return events
+}
+
+/**
+ * IANA zone for a TZID, accepting Windows names and the leading slash
+ * some exporters add; unknown zones fall back to `fallback`
+ */
+export function resolveTimeZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback
+
+  const name = tzid.replace(/^\/+/, '')
+  if (WINDOWS_TIME_ZONES[name]) return WINDOWS_TIME_ZONES[name]
+  return isValidTimeZone(name) ? name : fallback
+}
+
+/**
+ * The instant a value refers to. Floating times and all-day dates are read
+ * in `timeZone`, the calendar owner's zone.
+ */
+export function icsDateTimeToDate(value: IcsDateTime, timeZone: string): Date {
+  const zone = resolveTimeZone(value.timeZone, timeZone)
+  const [hours = '00', minutes = '00', seconds = '00'] = (value.time || '').split(':').filter(Boolean)
+  return new Date(zonedTimeToUtc(value.date, `${hours}:${minutes}`, zone).getTime() + Number(seconds) * 1000)
+}
+
+/**
+ * The event's length in milliseconds, per RFC 5545: DTEND, else DURATION,
+ * else one day for all-day events and nothing for timed ones
+ */
+function eventLength(event: IcsEvent, timeZone: string): number {
+  const start = icsDateTimeToDate(event.start, timeZone).getTime()
+  if (event.end) return icsDateTimeToDate(event.end, timeZone).getTime() - start
+  if (event.duration !== undefined) return event.duration * 1000
+  return event.start.time ? 0 : DAY_MS
+}
+
+/**
+ * Map an RRULE onto RecurrenceRule, or null when it can't be expressed
+ */
+function toRecurrenceRule(event: IcsEvent, zone: string): { rule: RecurrenceRule; count?: number } | null {
+  const rrule = event.rrule
+  if (!rrule) return null
+
+  const startDate = event.start.date
+  const startWeekday = new Date(`${startDate}T00:00:00Z`).getUTCDay()
+  const startDay = Number(startDate.split('-')[2])
+  const interval = Number(rrule.INTERVAL || 1)
+  const byDay = rrule.BYDAY ? rrule.BYDAY.split(',') : []
+
+  let endDate: string | undefined
+  if (rrule.UNTIL) {
+    const until = parseIcsDateTime(rrule.UNTIL)
+    if (!until) return null
+    endDate = until.time ? getDateInTimeZone(icsDateTimeToDate(until, zone), zone) : until.date
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: 'daily',
+    interval,
+    startDate,
+    endDate,
+    exceptionDates: event.exdates.map(exdate =>
+      exdate.time ? getDateInTimeZone(icsDateTimeToDate(exdate, zone), zone) : exdate.date
+    )
+  }
+
+  switch (rrule.FREQ) {
+    case 'DAILY':
+      if (byDay.length) {
+        // e.g. every weekday: FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR
+        if (interval !== 1) return null
+        rule.frequency = 'weekly'
+        rule.daysOfWeek = byDay.map(day => WEEKDAY_CODES.indexOf(day))
+      }
+      break
+
+    case 'WEEKLY':
+      rule.frequency = 'weekly'
+      rule.daysOfWeek = byDay.length ? byDay.map(day => WEEKDAY_CODES.indexOf(day)) : [startWeekday]
+      break
+
+    case 'MONTHLY':
+    case 'YEARLY': {
+      if (rrule.FREQ === 'YEARLY') {
+        if (rrule.BYMONTH && Number(rrule.BYMONTH) !== Number(startDate.split('-')[1])) return null
+        rule.interval = interval * 12
+      }
+      rule.frequency = 'monthly'
+
+      if (byDay.length) {
+        const match = byDay.length === 1 && byDay[0].match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+        if (!match || !match[1]) return null
+        rule.monthlyWeekday = { weekday: WEEKDAY_CODES.indexOf(match[2]), week: Number(match[1]) }
+      } else {
+        rule.dayOfMonth = rrule.BYMONTHDAY ? Number(rrule.BYMONTHDAY) : startDay
+      }
+      break
+    }
+
+    default:
+      return null
+  }
+
+  if (validateRecurrenceRule(rule).length > 0) return null
+  if (rrule.BYSETPOS || rrule.BYHOUR || rrule.BYMINUTE || rrule.BYYEARDAY || rrule.BYWEEKNO) return null
+
+  return { rule, count: rrule.COUNT ? Number(rrule.COUNT) : undefined }
+}
+
+/**
+ * Busy time from parsed events overlapping [from, to).
+ *
+ * Cancelled and transparent (free) events don't block time. Recurring
+ * events are expanded; edited occurrences (RECURRENCE-ID) replace the
+ * occurrence they override.
+ */
+export function icsBusyIntervals(
+  events: IcsEvent[],
+  { from, to, timeZone }: { from: Date; to: Date; timeZone: string }
+): IcsBusyInterval[] {
+  const intervals: IcsBusyInterval[] = []
+
+  // Occurrences replaced by an edited copy, keyed by UID and original start
+  const overridden = new Set(
+    events
+      .filter(event => event.recurrenceId)
+      .map(event => `${event.uid}/${icsDateTimeToDate(event.recurrenceId!, timeZone).toISOString()}`)
+  )
+
+  const push = (event: IcsEvent, start: Date, length: number, id: string) => {
+    const end = new Date(start.getTime() + length)
+    if (length > 0 && start < to && end > from) {
+      intervals.push({ id, start: start.toISOString(), end: end.toISOString(), title: event.summary })
+    }
+  }
+
+  for (const event of events) {
+    if (event.status === 'CANCELLED' || event.transparent) continue
+
+    const start = icsDateTimeToDate(event.start, timeZone)
+    const length = eventLength(event, timeZone)
+
+    if (event.recurrenceId) {
+      const original = icsDateTimeToDate(event.recurrenceId, timeZone).toISOString()
+      push(event, start, length, `${event.uid}/${original}`)
+      continue
+    }
+
+    const recurrence = toRecurrenceRule(event, resolveTimeZone(event.start.timeZone, timeZone))
+    if (!recurrence) {
+      push(event, start, length, event.uid)
+      continue
+    }
+
+    const zone = resolveTimeZone(event.start.timeZone, timeZone)
+    const lastDate = getDateInTimeZone(to, zone)
+    // COUNT is counted from the first occurrence, so expand from the start;
+    // otherwise start just before the window, keeping the rule's alignment
+    const firstDate = recurrence.count
+      ? event.start.date
+      : getDateInTimeZone(new Date(from.getTime() - length - DAY_MS), zone)
+
+    let dates: string[]
+    if (recurrence.count) {
+      // Excluded dates still count towards COUNT
+      const { exceptionDates, ...rule } = recurrence.rule
+      const excluded = new Set(exceptionDates)
+      dates = expandRecurrence({ ...rule, exceptionDates: [] }, firstDate, lastDate)
+        .slice(0, recurrence.count)
+        .filter(date => !excluded.has(date))
+    } else {
+      dates = expandRecurrence(recurrence.rule, firstDate, lastDate)
+    }
+
+    for (const date of dates) {
+      const occurrence = icsDateTimeToDate({ ...event.start, date, timeZone: event.start.timeZone }, timeZone)
+      const id = `${event.uid}/${occurrence.toISOString()}`
+      if (!overridden.has(id)) {
+        push(event, occurrence, length, id)
+      }
+    }
+  }
+
+  return intervals
+}
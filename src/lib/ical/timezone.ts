@@ -0,0 +1,134 @@
+// src/lib/ical/timezone.ts
+// VTIMEZONE components for IANA time zones
+//
+// Intl exposes a zone's offsets but not its rules, so instead of RRULEs
+// the observances are the zone's actual transitions: the last one before
+// the start's year and every one through the end's year. That covers the
+// event, and stays right for years in which a zone changed its rules.
+
+import { getTimeZoneAbbreviation, getTimeZoneOffset } from '../timezone'
+import type { IcalComponent, IcalProperty } from './writer'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+interface OffsetTransition {
+  /** UTC milliseconds of the first minute on the new offset */
+  at: number
+  from: number
+  to: number
+}
+
+/**
+ * Local DATE-TIME of an instant in a time zone, e.g. 20240502T090000
+ */
+export function localDateTime(instant: Date | string, timeZone: string): string {
+  const utcMs = new Date(instant).getTime()
+  return wallClock(utcMs, getTimeZoneOffset(timeZone, utcMs))
+}
+
+function wallClock(utcMs: number, offsetMinutes: number): string {
+  return new Date(utcMs + offsetMinutes * MINUTE_MS)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}Z$/, '')
+}
+
+/**
+ * UTC offset as TZOFFSETFROM/TZOFFSETTO want it, e.g. -0500, +0530
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const minutes = Math.abs(offsetMinutes)
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Offset changes between two instants, found day by day and narrowed
+ * down to the minute. Zones change at most once a day.
+ */
+function findTransitions(timeZone: string, fromMs: number, toMs: number): OffsetTransition[] {
+  const transitions: OffsetTransition[] = []
+  let previous = getTimeZoneOffset(timeZone, fromMs)
+
+  for (let dayEnd = fromMs + DAY_MS; dayEnd <= toMs; dayEnd += DAY_MS) {
+    const offset = getTimeZoneOffset(timeZone, dayEnd)
+    if (offset === previous) continue
+
+    let low = dayEnd - DAY_MS
+    let high = dayEnd
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+      if (getTimeZoneOffset(timeZone, mid) === previous) {
+        low = mid
+      } else {
+        high = mid
+      }
+    }
+
+    transitions.push({ at: high, from: previous, to: offset })
+    previous = offset
+  }
+
+  return transitions
+}
+
+function observance(
+  type: 'STANDARD' | 'DAYLIGHT',
+  start: string,
+  from: number,
+  to: number,
+  name: string
+): IcalComponent {
+  const properties: IcalProperty[] = [
+    { name: 'DTSTART', value: start },
+    { name: 'TZOFFSETFROM', value: formatUtcOffset(from) },
+    { name: 'TZOFFSETTO', value: formatUtcOffset(to) },
+    { name: 'TZNAME', value: name }
+  ]
+  return { type, properties }
+}
+
+/**
+ * The VTIMEZONE for events written with TZID=timeZone between start and end
+ */
+export function vtimezone(timeZone: string, start: Date | string, end: Date | string = start): IcalComponent {
+  const startYear = new Date(start).getUTCFullYear()
+  const endYear = new Date(end).getUTCFullYear()
+  const yearStart = Date.UTC(startYear, 0, 1)
+
+  const all = findTransitions(timeZone, Date.UTC(startYear - 1, 0, 1), Date.UTC(endYear + 1, 0, 1))
+  const before = all.filter(transition => transition.at < yearStart)
+  const transitions = [
+    ...before.slice(-1),
+    ...all.filter(transition => transition.at >= yearStart)
+  ]
+
+  const properties: IcalProperty[] = [{ name: 'TZID', value: timeZone }]
+
+  if (transitions.length === 0) {
+    const offset = getTimeZoneOffset(timeZone, new Date(start))
+    return {
+      type: 'VTIMEZONE',
+      properties,
+      components: [
+        observance('STANDARD', '19700101T000000', offset, offset, getTimeZoneAbbreviation(timeZone, start))
+      ]
+    }
+  }
+
+  return {
+    type: 'VTIMEZONE',
+    properties,
+    components: transitions.map(({ at, from, to }) =>
+      observance(
+        to > from ? 'DAYLIGHT' : 'STANDARD',
+        // Observances start at the local time before the change
+        wallClock(at, from),
+        from,
+        to,
+        getTimeZoneAbbreviation(timeZone, new Date(at))
+      )
+    )
+  }
+}
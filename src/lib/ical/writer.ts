@@ -0,0 +1,246 @@
+// src/lib/ical/writer.ts
+// Writes iCalendar (RFC 5545) files
+//
+// Components are built as plain objects and serialized with CRLF line
+// endings, TEXT escaping and lines folded at 75 octets. calendarEvent
+// builds the VEVENT for a booking-style event; anything else can be
+// written with the component and property helpers.
+
+import { localDateTime } from './timezone'
+
+export interface IcalProperty {
+  name: string
+  params?: Record<string, string>
+  /** Already formatted; see text(), utcDateTime() */
+  value: string
+}
+
+export interface IcalComponent {
+  type: string
+  properties: IcalProperty[]
+  components?: IcalComponent[]
+}
+
+export interface IcalAddress {
+  email: string
+  name?: string
+}
+
+export interface IcalAttendee extends IcalAddress {
+  role?: 'CHAIR' | 'REQ-PARTICIPANT' | 'OPT-PARTICIPANT' | 'NON-PARTICIPANT'
+  partStat?: 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE'
+  /** Whether the organizer expects a reply */
+  rsvp?: boolean
+}
+
+export interface IcalEventInput {
+  /** Stable across updates, so calendar apps replace their copy */
+  uid: string
+  /** Bumped on every significant change (time, cancellation) */
+  sequence?: number
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  start: Date | string
+  end: Date | string
+  /**
+   * IANA zone to write DTSTART and DTEND in (with TZID); UTC when unset.
+   * The calendar needs the zone's VTIMEZONE, see vtimezone().
+   */
+  timeZone?: string
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  created?: Date | string
+  lastModified?: Date | string
+  organizer?: IcalAddress
+  attendees?: IcalAttendee[]
+  /** Display alarms, in minutes before the start */
+  alarms?: number[]
+}
+
+export interface CalendarOptions {
+  /** PRODID, e.g. -//Schedlyx//Bookings//EN */
+  prodId?: string
+  /** Name shown for subscribed calendars (X-WR-CALNAME) */
+  name?: string
+  /** METHOD, for calendars sent as invitations */
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL'
+  /** How often subscribers should check for changes, in minutes */
+  refreshMinutes?: number
+}
+
+export const DEFAULT_PRODID = '-//Schedlyx//Schedlyx//EN'
+
+const MAX_LINE_OCTETS = 75
+const encoder = new TextEncoder()
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+/**
+ * Quote a parameter value when it contains characters that end one;
+ * double quotes can't be escaped and are dropped
+ */
+export function formatParamValue(value: string): string {
+  const cleaned = value.replace(/"/g, '')
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned
+}
+
+/**
+ * UTC DATE-TIME, e.g. 20240502T090000Z
+ */
+export function utcDateTime(value: Date | string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Fold a content line at 75 octets, never splitting a UTF-8 character.
+ * Continuation lines start with a space, which counts towards their 75.
+ */
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  lines.push(current)
+
+  return lines.join('\r\n ')
+}
+
+export function property(name: string, value: string, params?: Record<string, string>): IcalProperty {
+  return { name, value, params }
+}
+
+/**
+ * A TEXT property, escaped
+ */
+export function text(name: string, value: string, params?: Record<string, string>): IcalProperty {
+  return property(name, escapeText(value), params)
+}
+
+export function serializeProperty({ name, params, value }: IcalProperty): string {
+  const paramText = Object.entries(params || {})
+    .map(([key, paramValue]) => `;${key}=${formatParamValue(paramValue)}`)
+    .join('')
+
+  return foldLine(`${name}${paramText}:${value}`)
+}
+
+export function serializeComponent(component: IcalComponent): string[] {
+  return [
+    `BEGIN:${component.type}`,
+    ...component.properties.map(serializeProperty),
+    ...(component.components || []).flatMap(serializeComponent),
+    `END:${component.type}`
+  ]
+}
+
+/**
+ * A DATE-TIME property, in a time zone when one is given
+ */
+export function dateTime(name: string, value: Date | string, timeZone?: string): IcalProperty {
+  return timeZone
+    ? property(name, localDateTime(value, timeZone), { TZID: timeZone })
+    : property(name, utcDateTime(value))
+}
+
+/**
+ * An ORGANIZER or ATTENDEE, as a mailto: address
+ */
+export function calendarAddress(name: string, address: IcalAttendee): IcalProperty {
+  const params: Record<string, string> = {}
+  if (address.name) params.CN = address.name
+  if (address.role) params.ROLE = address.role
+  if (address.partStat) params.PARTSTAT = address.partStat
+  if (address.rsvp !== undefined) params.RSVP = address.rsvp ? 'TRUE' : 'FALSE'
+
+  return property(name, `mailto:${address.email}`, params)
+}
+
+/**
+ * A display alarm the given number of minutes before the start
+ */
+export function displayAlarm(minutesBefore: number, description: string): IcalComponent {
+  return {
+    type: 'VALARM',
+    properties: [
+      property('ACTION', 'DISPLAY'),
+      text('DESCRIPTION', description),
+      property('TRIGGER', minutesBefore > 0 ? `-PT${minutesBefore}M` : 'PT0M')
+    ]
+  }
+}
+
+/**
+ * The VEVENT for an event. DTSTAMP is when the file was written.
+ */
+export function calendarEvent(event: IcalEventInput, now: Date = new Date()): IcalComponent {
+  const properties: IcalProperty[] = [
+    property('UID', event.uid),
+    property('DTSTAMP', utcDateTime(now)),
+    dateTime('DTSTART', event.start, event.timeZone),
+    dateTime('DTEND', event.end, event.timeZone),
+    property('SEQUENCE', String(event.sequence ?? 0)),
+    property('STATUS', event.status || 'CONFIRMED'),
+    text('SUMMARY', event.summary)
+  ]
+
+  if (event.description) properties.push(text('DESCRIPTION', event.description))
+  if (event.location) properties.push(text('LOCATION', event.location))
+  if (event.url) properties.push(property('URL', event.url))
+  if (event.organizer) properties.push(calendarAddress('ORGANIZER', event.organizer))
+  for (const attendee of event.attendees || []) {
+    properties.push(calendarAddress('ATTENDEE', attendee))
+  }
+  if (event.created) properties.push(property('CREATED', utcDateTime(event.created)))
+  if (event.lastModified) properties.push(property('LAST-MODIFIED', utcDateTime(event.lastModified)))
+
+  const components = (event.alarms || []).map(minutes => displayAlarm(minutes, event.summary))
+
+  return { type: 'VEVENT', properties, components }
+}
+
+/**
+ * A complete calendar file with CRLF line endings
+ */
+export function serializeCalendar(
+  components: IcalComponent[],
+  { prodId = DEFAULT_PRODID, name, method, refreshMinutes }: CalendarOptions = {}
+): string {
+  const properties: IcalProperty[] = [
+    property('VERSION', '2.0'),
+    text('PRODID', prodId),
+    property('CALSCALE', 'GREGORIAN')
+  ]
+
+  if (method) properties.push(property('METHOD', method))
+  if (name) properties.push(text('X-WR-CALNAME', name))
+  if (refreshMinutes) {
+    properties.push(property('REFRESH-INTERVAL', `PT${refreshMinutes}M`, { VALUE: 'DURATION' }))
+    properties.push(property('X-PUBLISHED-TTL', `PT${refreshMinutes}M`))
+  }
+
+  const lines = serializeComponent({ type: 'VCALENDAR', properties, components })
+  return `${lines.join('\r\n')}\r\n`
+}
@@ -0,0 +1,177 @@
+// src/lib/phone.ts
+// Phone number normalization to E.164 (+14155552671), which is what
+// bookings store when the attendee opts in to text messages and what SMS
+// providers expect. National numbers are read in a country the attendee
+// picks; numbers typed with + or 00 carry their own country code.
+
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 */
+  code: string
+  name: string
+  /** Country calling code, without the + */
+  dialCode: string
+  /** Possible lengths of the national number, without trunk prefix */
+  lengths: number[]
+  /** Dialled before national numbers at home, dropped internationally */
+  trunkPrefix?: string
+  /** Digit groups for display */
+  groups: (national: string) => number[]
+}
+
+/** '+' and up to 15 digits; matches public.is_e164_phone */
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/
+
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, i) => min + i)
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'US', name: 'United States', dialCode: '1', lengths: [10], trunkPrefix: '1', groups: () => [3, 3, 4] },
+  { code: 'CA', name: 'Canada', dialCode: '1', lengths: [10], trunkPrefix: '1', groups: () => [3, 3, 4] },
+  {
+    code: 'MX', name: 'Mexico', dialCode: '52', lengths: [10],
+    groups: n => /^(55|33|81)/.test(n) ? [2, 4, 4] : [3, 3, 4]
+  },
+  {
+    code: 'BR', name: 'Brazil', dialCode: '55', lengths: [10, 11], trunkPrefix: '0',
+    groups: n => n.length === 11 ? [2, 5, 4] : [2, 4, 4]
+  },
+  {
+    code: 'GB', name: 'United Kingdom', dialCode: '44', lengths: [9, 10], trunkPrefix: '0',
+    groups: n => n.startsWith('2') ? [2, 4, 4] : /^[389]/.test(n) ? [3, 3, 4] : [4, 6]
+  },
+  {
+    code: 'DE', name: 'Germany', dialCode: '49', lengths: range(7, 12), trunkPrefix: '0',
+    groups: n => /^(30|40|69|89)/.test(n) ? [2] : [3]
+  },
+  { code: 'FR', name: 'France', dialCode: '33', lengths: [9], trunkPrefix: '0', groups: () => [1, 2, 2, 2, 2] },
+  { code: 'ES', name: 'Spain', dialCode: '34', lengths: [9], groups: () => [3, 3, 3] },
+  {
+    // Italian landlines keep their leading 0 internationally
+    code: 'IT', name: 'Italy', dialCode: '39', lengths: range(6, 11),
+    groups: n => /^0[26]/.test(n) ? [2] : [3]
+  },
+  {
+    code: 'NL', name: 'Netherlands', dialCode: '31', lengths: [9], trunkPrefix: '0',
+    groups: n => n.startsWith('6') ? [1, 8] : [2, 3, 4]
+  },
+  { code: 'CH', name: 'Switzerland', dialCode: '41', lengths: [9], trunkPrefix: '0', groups: () => [2, 3, 2, 2] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', lengths: [9], trunkPrefix: '0', groups: () => [2, 3, 4] },
+  { code: 'IN', name: 'India', dialCode: '91', lengths: [10], trunkPrefix: '0', groups: () => [5, 5] },
+  {
+    code: 'JP', name: 'Japan', dialCode: '81', lengths: [9, 10], trunkPrefix: '0',
+    groups: n => n.length === 10 ? [2, 4, 4] : [1, 4, 4]
+  },
+  { code: 'SG', name: 'Singapore', dialCode: '65', lengths: [8], groups: () => [4, 4] },
+  {
+    code: 'AU', name: 'Australia', dialCode: '61', lengths: [9], trunkPrefix: '0',
+    groups: n => n.startsWith('4') ? [3, 3, 3] : [1, 4, 4]
+  }
+]
+
+export const DEFAULT_PHONE_COUNTRY = 'US'
+
+export function getPhoneCountry(code: string): PhoneCountry | undefined {
+  return PHONE_COUNTRIES.find(country => country.code === code.toUpperCase())
+}
+
+/**
+ * The country whose calling code starts the digits. +1 resolves to the
+ * US, which shares its numbering plan with Canada.
+ */
+function countryForInternational(digits: string): PhoneCountry | undefined {
+  return PHONE_COUNTRIES
+    .filter(country => digits.startsWith(country.dialCode))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)[0]
+}
+
+/**
+ * The national number with any trunk prefix dropped, or null if it has
+ * the wrong length for the country
+ */
+function nationalNumber(country: PhoneCountry, digits: string): string | null {
+  const trunk = country.trunkPrefix
+  const national = trunk && digits.startsWith(trunk) && country.lengths.includes(digits.length - trunk.length)
+    ? digits.slice(trunk.length)
+    : digits
+
+  return country.lengths.includes(national.length) ? national : null
+}
+
+export function isE164(value: string | null | undefined): boolean {
+  return !!value && E164_PATTERN.test(value)
+}
+
+/**
+ * Normalizes a typed phone number to E.164.
+ *
+ * @param defaultCountry - Country national numbers are read in
+ * @returns The E.164 number, or null if it can't be a valid number
+ */
+export function normalizePhoneNumber(input: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string | null {
+  const trimmed = input.trim()
+
+  // Separators only, with at most one leading +
+  if (!trimmed || !/^\+?[\d\s().\-/]+$/.test(trimmed)) return null
+
+  let digits = trimmed.replace(/\D/g, '')
+
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    if (!trimmed.startsWith('+')) digits = digits.slice(2)
+
+    const country = countryForInternational(digits)
+    if (!country) {
+      return isE164(`+${digits}`) ? `+${digits}` : null
+    }
+
+    // "+44 (0)20 ..." leaves the trunk prefix in
+    const national = nationalNumber(country, digits.slice(country.dialCode.length))
+    return national ? `+${country.dialCode}${national}` : null
+  }
+
+  const country = getPhoneCountry(defaultCountry)
+  if (!country) return null
+
+  const national = nationalNumber(country, digits)
+  return national ? `+${country.dialCode}${national}` : null
+}
+
+/**
+ * Formats an E.164 number for display, e.g. +44 20 7946 0958. Numbers
+ * from countries without a known format are returned unchanged.
+ */
+export function formatPhoneNumber(e164: string): string {
+  if (!isE164(e164)) return e164
+
+  const digits = e164.slice(1)
+  const country = countryForInternational(digits)
+  if (!country) return e164
+
+  const national = digits.slice(country.dialCode.length)
+  if (!country.lengths.includes(national.length)) return e164
+
+  const parts: string[] = []
+  let position = 0
+  for (const size of country.groups(national)) {
+    if (position >= national.length) break
+    parts.push(national.slice(position, position + size))
+    position += size
+  }
+  if (position < national.length) parts.push(national.slice(position))
+
+  return `+${country.dialCode} ${parts.join(' ')}`
+}
+
+/**
+ * Country to read national numbers in, from a locale such as en-GB
+ */
+export function phoneCountryFromLocale(locale?: string): string {
+  try {
+    const tag = locale || (typeof navigator !== 'undefined' ? navigator.language : '')
+    const region = tag ? new Intl.Locale(tag).maximize().region : undefined
+    if (region && getPhoneCountry(region)) return region
+  } catch {
+    // Invalid locale tag
+  }
+
+  return DEFAULT_PHONE_COUNTRY
+}
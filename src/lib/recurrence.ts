@@ -0,0 +1,237 @@
+// src/lib/recurrence.ts
+// Expands RecurrenceRule into occurrence dates and bookable time slots
+
+import { zonedTimeToUtc } from './timezone'
+import type { RecurrenceRule, GeneratedSlot } from '../types/recurrence'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Guards against runaway expansion from a malformed rule
+const MAX_OCCURRENCES = 1000
+
+export interface SlotTemplate {
+  /** Daily window in the organizer's time zone, HH:mm */
+  window: { start: string; end: string }
+  /** Slot length in minutes */
+  duration: number
+  /** Gap between consecutive slots in minutes */
+  bufferTime: number
+  /** IANA time zone the window is expressed in */
+  timeZone: string
+}
+
+// Calendar dates are handled as UTC midnights so local DST never shifts a day
+const parseDate = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+const formatDate = (ms: number): string => new Date(ms).toISOString().split('T')[0]
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const fromMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+/**
+ * Monday of the week containing the given date
+ */
+const weekStart = (ms: number): number => {
+  const daysSinceMonday = (new Date(ms).getUTCDay() + 6) % 7
+  return ms - daysSinceMonday * DAY_MS
+}
+
+/**
+ * Day of the month for the Nth weekday, or null if the month has no such day
+ * (e.g. the 5th Monday of most months)
+ */
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, week: number): number | null => {
+  const lastDay = daysInMonth(year, month)
+
+  if (week === -1) {
+    const lastWeekday = new Date(Date.UTC(year, month, lastDay)).getUTCDay()
+    return lastDay - ((lastWeekday - weekday + 7) % 7)
+  }
+
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay()
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7
+  return day <= lastDay ? day : null
+}
+
+/**
+ * Check a rule for values the expander cannot handle.
+ * Returns a list of problems; empty when the rule is valid.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string[] {
+  const errors: string[] = []
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    errors.push('Interval must be a whole number of at least 1')
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(rule.startDate)) {
+    errors.push('Start date is required')
+  }
+  if (rule.endDate && rule.endDate < rule.startDate) {
+    errors.push('End date must be on or after the start date')
+  }
+
+  if (rule.frequency === 'weekly') {
+    if (!rule.daysOfWeek || rule.daysOfWeek.length === 0) {
+      errors.push('Weekly schedules need at least one day of the week')
+    } else if (rule.daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      errors.push('Days of the week must be between 0 (Sunday) and 6 (Saturday)')
+    }
+  }
+
+  if (rule.frequency === 'monthly') {
+    if (rule.monthlyWeekday) {
+      const { weekday, week } = rule.monthlyWeekday
+      if (weekday < 0 || weekday > 6) {
+        errors.push('Monthly weekday must be between 0 (Sunday) and 6 (Saturday)')
+      }
+      if (!(week === -1 || (week >= 1 && week <= 5))) {
+        errors.push('Week of month must be 1-5, or -1 for the last week')
+      }
+    } else if (rule.dayOfMonth === undefined) {
+      errors.push('Monthly schedules need a day of the month or a weekday')
+    } else if (!(rule.dayOfMonth === -1 || (rule.dayOfMonth >= 1 && rule.dayOfMonth <= 31))) {
+      errors.push('Day of month must be 1-31, or -1 for the last day')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Whether the rule produces an occurrence on the given calendar date
+ * (exception dates and the start/end bounds are not checked here)
+ */
+function matchesRule(rule: RecurrenceRule, ms: number, startMs: number): boolean {
+  const date = new Date(ms)
+
+  switch (rule.frequency) {
+    case 'daily':
+      return Math.round((ms - startMs) / DAY_MS) % rule.interval === 0
+
+    case 'weekly': {
+      if (!rule.daysOfWeek?.includes(date.getUTCDay())) return false
+      const weeks = Math.round((weekStart(ms) - weekStart(startMs)) / (7 * DAY_MS))
+      return weeks % rule.interval === 0
+    }
+
+    case 'monthly': {
+      const start = new Date(startMs)
+      const months = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (date.getUTCMonth() - start.getUTCMonth())
+      if (months % rule.interval !== 0) return false
+
+      const year = date.getUTCFullYear()
+      const month = date.getUTCMonth()
+
+      if (rule.monthlyWeekday) {
+        const { weekday, week } = rule.monthlyWeekday
+        return nthWeekdayOfMonth(year, month, weekday, week) === date.getUTCDate()
+      }
+
+      // RFC 5545: a day that doesn't exist in the month (e.g. the 31st in April) is skipped
+      const target = rule.dayOfMonth === -1 ? daysInMonth(year, month) : rule.dayOfMonth
+      return target === date.getUTCDate()
+    }
+  }
+}
+
+/**
+ * Expand a rule into occurrence dates (YYYY-MM-DD) within [from, until], inclusive
+ */
+export function expandRecurrence(rule: RecurrenceRule, from: string, until: string): string[] {
+  const errors = validateRecurrenceRule(rule)
+  if (errors.length > 0) {
+    throw new Error(`Invalid recurrence rule: ${errors.join('; ')}`)
+  }
+
+  const startMs = parseDate(rule.startDate)
+  const rangeStart = Math.max(parseDate(from), startMs)
+  const rangeEnd = rule.endDate
+    ? Math.min(parseDate(until), parseDate(rule.endDate))
+    : parseDate(until)
+  const exceptions = new Set(rule.exceptionDates)
+
+  const dates: string[] = []
+  for (let ms = rangeStart; ms <= rangeEnd && dates.length < MAX_OCCURRENCES; ms += DAY_MS) {
+    const date = formatDate(ms)
+    if (!exceptions.has(date) && matchesRule(rule, ms, startMs)) {
+      dates.push(date)
+    }
+  }
+  return dates
+}
+
+/**
+ * Expand a rule into concrete slots: every occurrence date gets consecutive
+ * slots of `duration` minutes (plus buffer) across the daily window.
+ *
+ * The window is wall-clock time in `timeZone`, so a 09:00 slot stays at 09:00
+ * local time across DST changes. Slot lengths are exact elapsed minutes.
+ */
+export function generateRecurringSlots(
+  rule: RecurrenceRule,
+  template: SlotTemplate,
+  from: string,
+  until: string
+): GeneratedSlot[] {
+  if (template.duration <= 0) {
+    throw new Error('Duration must be greater than 0')
+  }
+
+  const windowStart = toMinutes(template.window.start)
+  const windowEnd = toMinutes(template.window.end)
+  const step = template.duration + Math.max(0, template.bufferTime)
+
+  const slots: GeneratedSlot[] = []
+  for (const date of expandRecurrence(rule, from, until)) {
+    for (let minutes = windowStart; minutes + template.duration <= windowEnd; minutes += step) {
+      const start = zonedTimeToUtc(date, fromMinutes(minutes), template.timeZone)
+      const end = new Date(start.getTime() + template.duration * 60000)
+
+      // Wall-clock times inside a DST gap shift forward and can collide with the next slot
+      const previous = slots[slots.length - 1]
+      if (previous && new Date(previous.endTime) > start) continue
+
+      slots.push({ startTime: start.toISOString(), endTime: end.toISOString() })
+    }
+  }
+  return slots
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' }
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Monday, Wednesday until 2024-06-30"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency]
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  if (rule.frequency === 'weekly' && rule.daysOfWeek?.length) {
+    text += ` on ${[...rule.daysOfWeek].sort().map(day => WEEKDAY_NAMES[day]).join(', ')}`
+  } else if (rule.frequency === 'monthly' && rule.monthlyWeekday) {
+    text += ` on the ${ORDINALS[rule.monthlyWeekday.week]} ${WEEKDAY_NAMES[rule.monthlyWeekday.weekday]}`
+  } else if (rule.frequency === 'monthly' && rule.dayOfMonth !== undefined) {
+    text += rule.dayOfMonth === -1 ? ' on the last day' : ` on day ${rule.dayOfMonth}`
+  }
+
+  if (rule.endDate) {
+    text += ` until ${rule.endDate}`
+  }
+  if (rule.exceptionDates.length > 0) {
+    text += ` (${rule.exceptionDates.length} skipped ${rule.exceptionDates.length === 1 ? 'date' : 'dates'})`
+  }
+  return text
+}
@@ -0,0 +1,60 @@
+// src/lib/reminders.ts
+// Helpers for events.reminder_settings, shared by the event editor and
+// the reminder settings card on the event admin page
+
+import type { ReminderSettings } from '../types/database'
+
+/** Matches the column default */
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  hours_before: [24, 1]
+}
+
+export const MAX_REMINDERS = 5
+/** Four weeks */
+export const MAX_REMINDER_HOURS = 24 * 28
+
+export const REMINDER_PRESETS = [1, 2, 4, 12, 24, 48, 72, 168]
+
+/**
+ * Offsets as stored: whole hours, without duplicates, earliest reminder first
+ */
+export function normalizeReminderHours(hours: number[]): number[] {
+  return Array.from(new Set(hours.map(Number).filter(Number.isFinite)))
+    .sort((a, b) => b - a)
+}
+
+/**
+ * @returns An error message, or null if the settings can be saved
+ */
+export function validateReminderSettings(settings: ReminderSettings): string | null {
+  if (!settings.enabled) return null
+
+  if (settings.hours_before.length === 0) {
+    return 'Add at least one reminder, or turn reminders off'
+  }
+
+  if (settings.hours_before.some(hours => !Number.isInteger(hours) || hours < 1 || hours > MAX_REMINDER_HOURS)) {
+    return `Reminders must be between 1 and ${MAX_REMINDER_HOURS} hours before the booking`
+  }
+
+  if (normalizeReminderHours(settings.hours_before).length > MAX_REMINDERS) {
+    return `Up to ${MAX_REMINDERS} reminders can be sent per booking`
+  }
+
+  return null
+}
+
+/**
+ * e.g. "1 hour before", "2 days before", "36 hours before"
+ */
+export function describeReminderOffset(hours: number): string {
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24
+    return days % 7 === 0
+      ? `${days / 7} week${days === 7 ? '' : 's'} before`
+      : `${days} day${days === 1 ? '' : 's'} before`
+  }
+
+  return `${hours} hour${hours === 1 ? '' : 's'} before`
+}
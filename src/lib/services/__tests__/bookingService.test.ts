@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { BookingService, BookingErrorType } from '../bookingService'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const row = {
+  id: 'b1',
+  booking_reference: 'A1B2C3D4',
+  event_id: 'e1',
+  slot_id: 's1',
+  first_name: 'Sam',
+  last_name: 'Lee',
+  email: 'sam@example.com',
+  phone: null,
+  notes: null,
+  status: 'confirmed',
+  quantity: 2,
+  timezone: null,
+  confirmed_at: '2024-05-01T10:00:00Z',
+  cancelled_at: null,
+  created_at: '2024-05-01T10:00:00Z',
+  event_title: 'Intro call',
+  event_description: null,
+  event_type: 'meeting',
+  event_duration: 30,
+  event_location: null,
+  event_is_online: true,
+  event_timezone: 'Europe/Berlin',
+  allow_cancellation: true,
+  cancellation_deadline: 24,
+  slot_start_time: '2024-05-02T09:00:00Z',
+  slot_end_time: '2024-05-02T09:30:00Z',
+  slot_price: '15.00',
+  slot_currency: 'EUR',
+  starts_at: '2024-05-02T09:00:00Z',
+  cancel_by: '2024-05-01T09:00:00Z',
+  can_cancel: false
+}
+
+describe('BookingService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  describe('getBookingByReference', () => {
+    it('maps the booking with its event, slot and cancellation policy', async () => {
+      rpc.mockResolvedValueOnce({ data: [row], error: null } as any)
+
+      const booking = await BookingService.getBookingByReference(' a1b2c3d4 ', 'Sam@Example.com ')
+
+      expect(rpc).toHaveBeenCalledWith('get_booking_by_reference', {
+        p_reference: 'a1b2c3d4',
+        p_email: 'Sam@Example.com'
+      })
+      expect(booking).toMatchObject({
+        bookingReference: 'A1B2C3D4',
+        quantity: 2,
+        timeZone: 'Europe/Berlin',
+        event: { title: 'Intro call', isOnline: true },
+        slot: { price: 15, currency: 'EUR' },
+        allowCancellation: true,
+        cancellationDeadlineHours: 24,
+        canCancel: false
+      })
+    })
+
+    it('returns null when nothing matches the reference and email', async () => {
+      rpc.mockResolvedValueOnce({ data: [], error: null } as any)
+
+      expect(await BookingService.getBookingByReference('A1B2C3D4', 'other@example.com')).toBeNull()
+    })
+  })
+
+  describe('cancelBookingByReference', () => {
+    it('reports a passed deadline as CANCELLATION_NOT_ALLOWED', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Cancellation deadline has passed' }
+      } as any)
+
+      await expect(BookingService.cancelBookingByReference('A1B2C3D4', 'sam@example.com'))
+        .rejects.toMatchObject({ type: BookingErrorType.CANCELLATION_NOT_ALLOWED })
+    })
+
+    it('reports missing or already cancelled bookings as BOOKING_NOT_FOUND', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Booking not found or cannot be cancelled' }
+      } as any)
+
+      await expect(BookingService.cancelBookingByReference('A1B2C3D4', 'sam@example.com'))
+        .rejects.toMatchObject({ type: BookingErrorType.BOOKING_NOT_FOUND })
+    })
+
+    it('returns the refund recorded for a paid booking', async () => {
+      rpc.mockResolvedValueOnce({
+        data: [{
+          refund_id: 'r1',
+          amount: '15.00',
+          currency: 'EUR',
+          provider: 'fake',
+          provider_payment_id: 'fake_pay_1'
+        }],
+        error: null
+      } as any)
+
+      expect(await BookingService.cancelBookingByReference('A1B2C3D4', 'sam@example.com')).toEqual({
+        refundId: 'r1',
+        provider: 'fake',
+        providerPaymentId: 'fake_pay_1',
+        amount: 15,
+        currency: 'EUR'
+      })
+    })
+
+    it('returns null when there is nothing to refund', async () => {
+      rpc.mockResolvedValueOnce({ data: [], error: null } as any)
+
+      expect(await BookingService.cancelBookingByReference('A1B2C3D4', 'sam@example.com')).toBeNull()
+    })
+  })
+
+  describe('completeBooking', () => {
+    it('sends intake answers and reports missing required ones as INVALID_RESPONSES', async () => {
+      rpc.mockImplementation(((fn: string) => Promise.resolve(fn === 'complete_slot_booking'
+        ? { data: null, error: { code: 'P0001', message: 'Answer required for "Company"' } }
+        : { data: [], error: null })) as any)
+
+      const formData = {
+        firstName: 'Sam',
+        lastName: 'Lee',
+        email: 'sam@example.com',
+        customResponses: { company: 'Acme' }
+      }
+
+      await expect(BookingService.completeBooking('lock1', formData, 1))
+        .rejects.toMatchObject({ type: BookingErrorType.INVALID_RESPONSES })
+      expect(rpc).toHaveBeenCalledWith('complete_slot_booking', expect.objectContaining({
+        p_lock_id: 'lock1',
+        p_custom_responses: { company: 'Acme' }
+      }))
+    })
+
+    it('reports answers the server rejects for their type as INVALID_RESPONSES', async () => {
+      const message = 'Invalid answer for "Team size": enter a number'
+      rpc.mockImplementation(((fn: string) => Promise.resolve(fn === 'complete_slot_booking'
+        ? { data: null, error: { code: 'P0001', message } }
+        : { data: [], error: null })) as any)
+
+      await expect(BookingService.completeBooking('lock1', {
+        firstName: 'Sam',
+        lastName: 'Lee',
+        email: 'sam@example.com',
+        customResponses: { size: 'ten' }
+      }, 1)).rejects.toMatchObject({ type: BookingErrorType.INVALID_RESPONSES, message })
+    })
+  })
+
+  describe('rescheduleBooking', () => {
+    it('moves the booking and returns it reloaded', async () => {
+      rpc
+        .mockResolvedValueOnce({ data: 'b1', error: null } as any)
+        .mockResolvedValueOnce({ data: [{ ...row, slot_id: 's2' }], error: null } as any)
+
+      const booking = await BookingService.rescheduleBooking('A1B2C3D4', 'sam@example.com', 's2')
+
+      expect(rpc).toHaveBeenNthCalledWith(1, 'reschedule_booking', expect.objectContaining({
+        p_reference: 'A1B2C3D4',
+        p_email: 'sam@example.com',
+        p_new_slot_id: 's2'
+      }))
+      expect(booking.bookingReference).toBe('A1B2C3D4')
+      expect(booking.slotId).toBe('s2')
+    })
+
+    it('reports a full target slot as CAPACITY_EXCEEDED', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Insufficient slots available. Only 1 slot(s) remaining.' }
+      } as any)
+
+      await expect(BookingService.rescheduleBooking('A1B2C3D4', 'sam@example.com', 's2'))
+        .rejects.toMatchObject({ type: BookingErrorType.CAPACITY_EXCEEDED })
+      expect(rpc).toHaveBeenCalledTimes(1)
+    })
+
+    it('reports a passed deadline as CANCELLATION_NOT_ALLOWED', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Rescheduling deadline has passed' }
+      } as any)
+
+      await expect(BookingService.rescheduleBooking('A1B2C3D4', 'sam@example.com', 's2'))
+        .rejects.toMatchObject({ type: BookingErrorType.CANCELLATION_NOT_ALLOWED })
+    })
+
+    it('reports a differently priced slot as PAYMENT_REQUIRED', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Bookings can only move to a slot with the same price' }
+      } as any)
+
+      await expect(BookingService.rescheduleBooking('A1B2C3D4', 'sam@example.com', 's2'))
+        .rejects.toMatchObject({ type: BookingErrorType.PAYMENT_REQUIRED })
+    })
+  })
+})
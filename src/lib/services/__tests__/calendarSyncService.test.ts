@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { CalendarSyncService } from '../calendarSyncService'
+import { InMemoryCalendarProvider } from '../calendarProvider'
+import type { CalendarExportBooking, CalendarIntegration, SyncDirection } from '../../../types/database'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const now = new Date('2024-05-01T08:00:00Z')
+
+type Booking = Omit<CalendarExportBooking, 'link_external_event_id' | 'link_etag' | 'link_fingerprint' | 'link_status'>
+
+interface Link {
+  external_event_id: string
+  etag: string | null
+  fingerprint: string
+  status: 'active' | 'detached'
+}
+
+// The rows the sync RPCs read and write
+let db: {
+  syncToken: string | null
+  blocks: Map<string, { title: string | null; start_time: string; end_time: string }>
+  bookings: Booking[]
+  links: Map<string, Link>
+}
+
+const booking = (overrides: Partial<Booking> = {}): Booking => ({
+  booking_id: 'b1',
+  booking_status: 'confirmed',
+  booking_reference: 'A1B2C3D4',
+  event_title: 'Intro call',
+  attendee_name: 'Sam Lee',
+  attendee_email: 'sam@example.com',
+  quantity: 1,
+  location: 'Studio 2',
+  is_online: false,
+  meeting_url: null,
+  start_time: '2024-05-02T09:00:00.000Z',
+  end_time: '2024-05-02T09:30:00.000Z',
+  ...overrides
+})
+
+const integration = (direction: SyncDirection = 'both'): CalendarIntegration => ({
+  id: 'ci1',
+  user_id: 'u1',
+  provider: 'google',
+  provider_calendar_id: 'primary',
+  access_token: 'token',
+  sync_enabled: true,
+  sync_direction: direction,
+  sync_token: db.syncToken ?? undefined,
+  is_primary: true,
+  created_at: '',
+  updated_at: ''
+})
+
+const handlers: Record<string, (args: any) => unknown> = {
+  apply_calendar_import: ({ p_blocks, p_removed_event_ids, p_full_sync, p_sync_token }) => {
+    if (p_full_sync) db.blocks.clear()
+    p_removed_event_ids.forEach((id: string) => db.blocks.delete(id))
+    p_blocks.forEach(({ external_event_id, ...block }: any) => db.blocks.set(external_event_id, block))
+    db.syncToken = p_sync_token
+    return p_blocks.length
+  },
+  get_calendar_export_bookings: () =>
+    db.bookings.map(row => {
+      const link = db.links.get(row.booking_id)
+      return {
+        ...row,
+        link_external_event_id: link?.external_event_id ?? null,
+        link_etag: link?.etag ?? null,
+        link_fingerprint: link?.fingerprint ?? null,
+        link_status: link?.status ?? null
+      }
+    }),
+  record_calendar_export: ({ p_booking_id, p_external_event_id, p_etag, p_fingerprint, p_status }) => {
+    if (p_external_event_id) {
+      db.links.set(p_booking_id, {
+        external_event_id: p_external_event_id,
+        etag: p_etag,
+        fingerprint: p_fingerprint,
+        status: p_status
+      })
+    } else {
+      db.links.delete(p_booking_id)
+    }
+  },
+  complete_calendar_sync: () => null
+}
+
+const sync = (provider: InMemoryCalendarProvider, direction?: SyncDirection) =>
+  CalendarSyncService.syncIntegration(integration(direction), { provider, now })
+
+describe('CalendarSyncService', () => {
+  let provider: InMemoryCalendarProvider
+
+  beforeEach(() => {
+    db = { syncToken: null, blocks: new Map(), bookings: [], links: new Map() }
+    provider = new InMemoryCalendarProvider()
+    rpc.mockReset()
+    rpc.mockImplementation(((fn: string, args: any) =>
+      Promise.resolve({ data: handlers[fn](args), error: null })) as any)
+  })
+
+  describe('import', () => {
+    it('lists the window in full first, then only changes', async () => {
+      const dentist = provider.addExternalEvent('primary', {
+        title: 'Dentist',
+        start: '2024-05-02T10:00:00.000Z',
+        end: '2024-05-02T11:00:00.000Z'
+      })
+      provider.addExternalEvent('primary', {
+        title: 'Working from home',
+        start: '2024-05-02T00:00:00.000Z',
+        end: '2024-05-03T00:00:00.000Z',
+        transparency: 'free'
+      })
+      provider.addExternalEvent('other', {
+        start: '2024-05-02T12:00:00.000Z',
+        end: '2024-05-02T13:00:00.000Z'
+      })
+
+      const first = await sync(provider)
+
+      expect(first).toMatchObject({ fullSync: true, imported: 1 })
+      expect([...db.blocks.keys()]).toEqual([dentist.id])
+      expect(db.syncToken).toBeTruthy()
+
+      const lunch = provider.addExternalEvent('primary', {
+        title: 'Lunch',
+        start: '2024-05-03T12:00:00.000Z',
+        end: '2024-05-03T13:00:00.000Z'
+      })
+      provider.removeExternalEvent(dentist.id)
+
+      const second = await sync(provider)
+
+      expect(second).toMatchObject({ fullSync: false, imported: 1, removed: 1 })
+      expect(rpc).toHaveBeenLastCalledWith('complete_calendar_sync', { p_integration_id: 'ci1', p_error: null })
+      expect([...db.blocks.keys()]).toEqual([lunch.id])
+    })
+
+    it('lists the window again when the sync token expired', async () => {
+      await sync(provider)
+      provider.expireSyncTokens()
+
+      const report = await sync(provider)
+
+      expect(report.fullSync).toBe(true)
+      expect(rpc).toHaveBeenCalledWith('apply_calendar_import', expect.objectContaining({ p_full_sync: true }))
+    })
+
+    it('does not import events exported from bookings', async () => {
+      db.bookings = [booking()]
+
+      await sync(provider)
+      await sync(provider)
+
+      expect(db.blocks.size).toBe(0)
+    })
+  })
+
+  describe('export', () => {
+    it('exports confirmed bookings and keeps them up to date', async () => {
+      db.bookings = [booking(), booking({ booking_id: 'b2', booking_status: 'pending' })]
+
+      expect(await sync(provider, 'export')).toMatchObject({ created: 1, updated: 0 })
+      expect(provider.listEvents('primary')).toEqual([
+        expect.objectContaining({
+          title: 'Intro call: Sam Lee',
+          start: '2024-05-02T09:00:00.000Z',
+          bookingId: 'b1'
+        })
+      ])
+
+      expect(await sync(provider, 'export')).toMatchObject({ created: 0, updated: 0 })
+
+      db.bookings[0] = booking({ start_time: '2024-05-02T14:00:00.000Z', end_time: '2024-05-02T14:30:00.000Z' })
+      expect(await sync(provider, 'export')).toMatchObject({ updated: 1 })
+      expect(provider.listEvents('primary')[0].start).toBe('2024-05-02T14:00:00.000Z')
+
+      db.bookings[0] = booking({ booking_status: 'cancelled' })
+      expect(await sync(provider, 'export')).toMatchObject({ deleted: 1 })
+      expect(provider.listEvents('primary')).toEqual([])
+      expect(db.links.size).toBe(0)
+    })
+
+    it('writes the booking back over edits made in the calendar', async () => {
+      db.bookings = [booking()]
+      await sync(provider)
+
+      const exported = provider.listEvents('primary')[0]
+      provider.editExternalEvent(exported.id, { start: '2024-05-02T16:00:00.000Z' })
+
+      const report = await sync(provider)
+
+      expect(report).toMatchObject({ conflicts: 1, updated: 1 })
+      expect(provider.listEvents('primary')[0].start).toBe('2024-05-02T09:00:00.000Z')
+      expect(await sync(provider)).toMatchObject({ conflicts: 0, updated: 0 })
+    })
+
+    it('resolves stale etags without an import', async () => {
+      db.bookings = [booking()]
+      await sync(provider, 'export')
+
+      provider.editExternalEvent(provider.listEvents('primary')[0].id, { title: 'Renamed' })
+      db.bookings[0] = booking({ quantity: 2 })
+
+      expect(await sync(provider, 'export')).toMatchObject({ conflicts: 1, updated: 1 })
+      expect(provider.listEvents('primary')[0].title).toBe('Intro call: Sam Lee')
+    })
+
+    it('does not re-create events deleted in the calendar', async () => {
+      db.bookings = [booking()]
+      await sync(provider)
+
+      provider.removeExternalEvent(provider.listEvents('primary')[0].id)
+
+      expect(await sync(provider)).toMatchObject({ detached: 1, created: 0 })
+      expect(db.links.get('b1')?.status).toBe('detached')
+      expect(await sync(provider)).toMatchObject({ detached: 0, created: 0 })
+      expect(provider.listEvents('primary')).toEqual([])
+    })
+  })
+
+  it('records why a sync failed', async () => {
+    vi.spyOn(provider, 'listChanges').mockRejectedValue(new Error('Token revoked'))
+
+    await expect(sync(provider)).rejects.toThrow('Token revoked')
+    expect(rpc).toHaveBeenLastCalledWith('complete_calendar_sync', {
+      p_integration_id: 'ci1',
+      p_error: 'Token revoked'
+    })
+  })
+
+  it('fails without touching busy blocks when no provider serves the calendar', async () => {
+    db.blocks.set('kept', { external_event_id: 'kept' } as any)
+
+    await expect(CalendarSyncService.syncIntegration(integration(), { now })).rejects.toThrow('not set up')
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(rpc).toHaveBeenCalledWith('complete_calendar_sync', {
+      p_integration_id: 'ci1',
+      p_error: 'Calendar sync with google is not set up'
+    })
+    expect(db.blocks.has('kept')).toBe(true)
+  })
+
+  it('refuses integrations with sync turned off', async () => {
+    await expect(
+      CalendarSyncService.syncIntegration({ ...integration(), sync_enabled: false }, { provider, now })
+    ).rejects.toThrow('turned off')
+    expect(rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { ConferencingService } from '../conferencingService'
+import { GeneratedRoomProvider, InMemoryConferencingProvider, StaticRoomProvider } from '../conferencingProvider'
+import type { BookingMeetingClaim } from '../../../types/database'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const claimRow = (overrides: Partial<BookingMeetingClaim> = {}): BookingMeetingClaim => ({
+  booking_id: 'b1',
+  booking_reference: 'A1B2C3D4',
+  meeting_status: 'pending',
+  meeting_provider: 'in-memory',
+  meeting_url: null,
+  meeting_external_id: null,
+  calendar_sequence: 0,
+  start_time: '2024-05-02T09:00:00Z',
+  end_time: '2024-05-02T09:30:00Z',
+  event_title: 'Intro call',
+  room_url: null,
+  host_email: 'alex@example.com',
+  attendee_email: 'sam@example.com',
+  ...overrides
+})
+
+const claim = (...rows: BookingMeetingClaim[]) =>
+  rpc.mockImplementation(((fn: string) => Promise.resolve(
+    fn === 'claim_booking_meetings' ? { data: rows, error: null } : { data: 'active', error: null }
+  )) as any)
+
+const completions = () =>
+  rpc.mock.calls.filter(([fn]) => fn === 'complete_booking_meeting').map(([, args]) => args)
+
+describe('ConferencingService', () => {
+  let provider: InMemoryConferencingProvider
+
+  beforeEach(() => {
+    rpc.mockReset()
+    provider = new InMemoryConferencingProvider()
+  })
+
+  const run = (options: { bookingId?: string } = {}) =>
+    ConferencingService.processMeetings({ client: supabase, getProvider: () => provider, ...options })
+
+  it('creates a meeting for newly confirmed bookings', async () => {
+    claim(claimRow())
+
+    const report = await run()
+
+    expect(report).toEqual({ created: 1, updated: 0, revoked: 0, failed: 0 })
+    expect(rpc).toHaveBeenCalledWith('claim_booking_meetings', { p_limit: 20, p_booking_id: null })
+    expect(completions()).toEqual([{
+      p_booking_id: 'b1',
+      p_calendar_sequence: 0,
+      p_meeting_url: 'https://meet.schedlyx.test/meeting-1',
+      p_external_id: 'meeting-1'
+    }])
+    expect(provider.meetings.get('meeting-1')?.request).toMatchObject({
+      bookingReference: 'A1B2C3D4',
+      start: '2024-05-02T09:00:00Z',
+      attendeeEmail: 'sam@example.com'
+    })
+  })
+
+  it('claims only the given booking', async () => {
+    claim()
+
+    await run({ bookingId: 'b1' })
+
+    expect(rpc).toHaveBeenCalledWith('claim_booking_meetings', { p_limit: 20, p_booking_id: 'b1' })
+  })
+
+  it('moves the meeting of rescheduled bookings', async () => {
+    const meeting = await provider.createMeeting({
+      bookingId: 'b1',
+      bookingReference: 'A1B2C3D4',
+      title: 'Intro call',
+      start: '2024-05-02T09:00:00Z',
+      end: '2024-05-02T09:30:00Z',
+      hostEmail: null,
+      attendeeEmail: 'sam@example.com',
+      roomUrl: null
+    })
+    claim(claimRow({
+      meeting_external_id: meeting.externalId,
+      calendar_sequence: 1,
+      start_time: '2024-05-03T09:00:00Z'
+    }))
+
+    const report = await run()
+
+    expect(report.updated).toBe(1)
+    expect(completions()[0]).toMatchObject({ p_calendar_sequence: 1, p_meeting_url: meeting.joinUrl })
+    expect(provider.meetings.get('meeting-1')?.request.start).toBe('2024-05-03T09:00:00Z')
+  })
+
+  it('revokes the meeting of cancelled bookings', async () => {
+    const meeting = await provider.createMeeting({
+      bookingId: 'b1',
+      bookingReference: 'A1B2C3D4',
+      title: 'Intro call',
+      start: '2024-05-02T09:00:00Z',
+      end: '2024-05-02T09:30:00Z',
+      hostEmail: null,
+      attendeeEmail: 'sam@example.com',
+      roomUrl: null
+    })
+    claim(claimRow({ meeting_status: 'revoking', meeting_external_id: meeting.externalId }))
+
+    const report = await run()
+
+    expect(report.revoked).toBe(1)
+    expect(provider.isActive(meeting.joinUrl)).toBe(false)
+    expect(completions()).toEqual([{ p_booking_id: 'b1', p_calendar_sequence: 0 }])
+  })
+
+  it('records failures and keeps going', async () => {
+    provider = new InMemoryConferencingProvider({
+      fail: subject => 'bookingId' in subject && subject.bookingId === 'b1' ? 'Quota exceeded' : undefined
+    })
+    claim(claimRow(), claimRow({ booking_id: 'b2', booking_reference: 'E5F6G7H8' }))
+
+    const report = await run()
+
+    expect(report).toEqual({ created: 1, updated: 0, revoked: 0, failed: 1 })
+    expect(completions()[0]).toEqual({ p_booking_id: 'b1', p_calendar_sequence: 0, p_error: 'Quota exceeded' })
+  })
+
+  it('leaves meetings pending when their provider is not set up', async () => {
+    claim(claimRow({ meeting_provider: 'zoom' }))
+
+    const report = await ConferencingService.processMeetings({ client: supabase })
+
+    expect(report).toEqual({ created: 0, updated: 0, revoked: 0, failed: 1 })
+    expect(completions()).toEqual([{
+      p_booking_id: 'b1',
+      p_calendar_sequence: 0,
+      p_error: 'Meeting links from zoom are not set up'
+    }])
+  })
+
+  it('throws when bookings cannot be claimed', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } } as any)
+
+    await expect(run()).rejects.toThrow('permission denied')
+  })
+})
+
+describe('conferencing providers', () => {
+  const request = {
+    bookingId: 'b1',
+    bookingReference: 'A1B2C3D4',
+    title: 'Intro call',
+    start: '2024-05-02T09:00:00Z',
+    end: '2024-05-02T09:30:00Z',
+    hostEmail: null,
+    attendeeEmail: 'sam@example.com',
+    roomUrl: 'https://meet.example.com/alex'
+  }
+
+  it('shares the personal room and needs one', async () => {
+    const provider = new StaticRoomProvider()
+
+    expect(await provider.createMeeting(request)).toEqual({ joinUrl: 'https://meet.example.com/alex', externalId: null })
+    await expect(provider.createMeeting({ ...request, roomUrl: null })).rejects.toThrow('no meeting link')
+  })
+
+  it('generates a new room for every booking and move', async () => {
+    let id = 0
+    const provider = new GeneratedRoomProvider({ baseUrl: 'https://rooms.example.com/', randomId: () => `r${++id}` })
+
+    const meeting = await provider.createMeeting()
+    expect(meeting).toEqual({ joinUrl: 'https://rooms.example.com/schedlyx-r1', externalId: 'schedlyx-r1' })
+    expect((await provider.updateMeeting()).joinUrl).toBe('https://rooms.example.com/schedlyx-r2')
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { EmailService } from '../emailService'
+import { InMemoryEmailProvider, ResendEmailProvider } from '../emailProvider'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const now = new Date('2024-05-01T10:00:00Z')
+
+const outboxRow = (overrides: Record<string, any> = {}) => ({
+  id: 'mail1',
+  booking_id: 'b1',
+  template: 'booking_confirmed',
+  recipient_email: 'sam@example.com',
+  recipient_name: 'Sam Lee',
+  payload: {
+    booking_reference: 'A1B2C3D4',
+    first_name: 'Sam',
+    last_name: 'Lee',
+    email: 'sam@example.com',
+    status: 'confirmed',
+    quantity: 1,
+    event_title: 'Intro call',
+    organizer_name: null,
+    location: null,
+    is_online: true,
+    meeting_url: null,
+    starts_at: '2024-05-02T09:00:00Z',
+    ends_at: '2024-05-02T09:30:00Z',
+    timezone: 'UTC',
+    cancellation_reason: null
+  },
+  dedupe_key: 'booking_confirmed:b1',
+  status: 'sending',
+  attempts: 1,
+  ...overrides
+})
+
+const claim = (...rows: ReturnType<typeof outboxRow>[]) =>
+  rpc.mockImplementation(((fn: string) => Promise.resolve(
+    fn === 'claim_email_outbox'
+      ? { data: rows, error: null }
+      : { data: fn === 'enqueue_due_reminders' ? 0 : null, error: null }
+  )) as any)
+
+describe('EmailService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+    rpc.mockResolvedValue({ data: null, error: null } as any)
+  })
+
+  describe('nextAttemptAt', () => {
+    it('backs off exponentially and gives up after MAX_ATTEMPTS', () => {
+      expect(EmailService.nextAttemptAt(1, now)?.toISOString()).toBe('2024-05-01T10:01:00.000Z')
+      expect(EmailService.nextAttemptAt(3, now)?.toISOString()).toBe('2024-05-01T10:04:00.000Z')
+      expect(EmailService.nextAttemptAt(EmailService.MAX_ATTEMPTS, now)).toBeNull()
+    })
+  })
+
+  describe('processOutbox', () => {
+    it('renders and sends claimed emails, then records delivery', async () => {
+      claim(outboxRow())
+      const provider = new InMemoryEmailProvider()
+
+      const report = await EmailService.processOutbox({ client: supabase, provider, now, appUrl: 'https://app.example.com' })
+
+      expect(report).toEqual({ reminders: 0, sent: 1, retrying: 0, failed: 0 })
+      expect(provider.sent).toHaveLength(1)
+      expect(provider.sent[0]).toMatchObject({
+        to: 'sam@example.com',
+        toName: 'Sam Lee',
+        subject: 'Booking confirmed: Intro call',
+        idempotencyKey: 'mail1'
+      })
+      expect(rpc).toHaveBeenCalledWith('claim_email_outbox', { p_limit: 20 })
+      expect(rpc).toHaveBeenLastCalledWith('complete_email_delivery', {
+        p_email_id: 'mail1',
+        p_sent: true,
+        p_provider_message_id: provider.sent[0].messageId,
+        p_error: null,
+        p_retry_at: null
+      })
+    })
+
+    it('sends waitlist offers with the link that claims the hold', async () => {
+      claim(outboxRow({
+        id: 'mail2',
+        booking_id: null,
+        template: 'waitlist_spot_available',
+        payload: {
+          waitlist_id: 'w1',
+          first_name: 'Sam',
+          last_name: 'Lee',
+          email: 'sam@example.com',
+          quantity: 1,
+          event_title: 'Intro call',
+          organizer_name: null,
+          location: null,
+          is_online: true,
+          starts_at: '2024-05-02T09:00:00Z',
+          ends_at: '2024-05-02T09:30:00Z',
+          timezone: 'UTC',
+          expires_at: '2024-05-01T10:30:00Z',
+          booking_path: '/book/e1?waitlist=w1'
+        },
+        dedupe_key: 'waitlist_spot_available:w1:lock1'
+      }))
+      const provider = new InMemoryEmailProvider()
+
+      const report = await EmailService.processOutbox({ client: supabase, provider, now, appUrl: 'https://app.example.com' })
+
+      expect(report.sent).toBe(1)
+      expect(provider.sent[0].subject).toBe('A spot opened up: Intro call')
+      expect(provider.sent[0].text).toContain('https://app.example.com/book/e1?waitlist=w1')
+    })
+
+    it('schedules a retry when the provider rejects the message', async () => {
+      claim(outboxRow({ attempts: 2 }))
+      const provider = new InMemoryEmailProvider({ fail: () => 'Connection refused' })
+
+      const report = await EmailService.processOutbox({ client: supabase, provider, now })
+
+      expect(report).toEqual({ reminders: 0, sent: 0, retrying: 1, failed: 0 })
+      expect(rpc).toHaveBeenLastCalledWith('complete_email_delivery', expect.objectContaining({
+        p_sent: false,
+        p_error: 'Connection refused',
+        p_retry_at: '2024-05-01T10:02:00.000Z'
+      }))
+    })
+
+    it('gives up on the last attempt', async () => {
+      claim(outboxRow({ attempts: EmailService.MAX_ATTEMPTS }))
+      const provider = new InMemoryEmailProvider({ fail: () => 'Mailbox unavailable' })
+
+      const report = await EmailService.processOutbox({ client: supabase, provider, now })
+
+      expect(report).toEqual({ reminders: 0, sent: 0, retrying: 0, failed: 1 })
+      expect(rpc).toHaveBeenLastCalledWith('complete_email_delivery', expect.objectContaining({
+        p_sent: false,
+        p_retry_at: null
+      }))
+    })
+
+    it('queues due reminders before claiming emails', async () => {
+      claim()
+      rpc.mockImplementationOnce((() => Promise.resolve({ data: 3, error: null })) as any)
+
+      const report = await EmailService.processOutbox({ client: supabase, provider: new InMemoryEmailProvider(), now })
+
+      expect(report.reminders).toBe(3)
+      expect(rpc).toHaveBeenNthCalledWith(1, 'enqueue_due_reminders')
+      expect(rpc).toHaveBeenNthCalledWith(2, 'claim_email_outbox', { p_limit: 20 })
+    })
+
+    it('keeps going when one email fails', async () => {
+      claim(outboxRow({ id: 'mail1', recipient_email: 'bounce@example.com' }), outboxRow({ id: 'mail2' }))
+      const provider = new InMemoryEmailProvider({
+        fail: message => message.to === 'bounce@example.com' ? 'Unknown recipient' : undefined
+      })
+
+      const report = await EmailService.processOutbox({ client: supabase, provider, now })
+
+      expect(report).toEqual({ reminders: 0, sent: 1, retrying: 1, failed: 0 })
+      expect(provider.sent.map(message => message.idempotencyKey)).toEqual(['mail2'])
+    })
+  })
+
+  describe('ResendEmailProvider', () => {
+    const message = {
+      to: 'sam@example.com',
+      toName: 'Sam Lee',
+      subject: 'Booking confirmed: Intro call',
+      text: 'See you soon',
+      html: '<p>See you soon</p>',
+      idempotencyKey: 'mail1',
+      invite: { method: 'REQUEST' as const, content: 'BEGIN:VCALENDAR', contentType: 'text/calendar; method=REQUEST' }
+    }
+
+    it('sends with the outbox ID as the idempotency key', async () => {
+      const fetch = vi.fn().mockResolvedValue(Response.json({ id: 'msg_1' }))
+      const provider = new ResendEmailProvider({ apiKey: 're_key', from: 'Schedlyx <bookings@example.com>', fetch })
+
+      await expect(provider.send(message)).resolves.toBe('msg_1')
+
+      const [url, init] = fetch.mock.calls[0]
+      expect(url).toBe('https://api.resend.com/emails')
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer re_key', 'Idempotency-Key': 'mail1' })
+      expect(JSON.parse(init.body)).toMatchObject({
+        from: 'Schedlyx <bookings@example.com>',
+        to: ['Sam Lee <sam@example.com>'],
+        attachments: [{ filename: 'invite.ics', content: btoa('BEGIN:VCALENDAR') }]
+      })
+    })
+
+    it('rejects with the API error so the worker retries', async () => {
+      const fetch = vi.fn().mockResolvedValue(Response.json({ message: 'Rate limit exceeded' }, { status: 429 }))
+      const provider = new ResendEmailProvider({ apiKey: 're_key', from: 'bookings@example.com', fetch })
+
+      await expect(provider.send(message)).rejects.toThrow('Rate limit exceeded')
+    })
+  })
+})
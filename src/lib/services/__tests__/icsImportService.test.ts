@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { IcsImportService, feedFetchUrl, isPrivateAddress } from '../icsImportService'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const now = new Date('2024-05-01T00:00:00Z')
+
+const ics = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:dentist',
+  'SUMMARY:Dentist',
+  'DTSTART:20240502T100000Z',
+  'DTEND:20240502T110000Z',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:wfh',
+  'DTSTART;VALUE=DATE:20240503',
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n')
+
+const response = (body: string, status = 200, headers: Record<string, string> = {}) =>
+  Promise.resolve(new Response(body, { status, headers }))
+
+const lookup = vi.fn(async () => ['93.184.216.34'])
+
+describe('IcsImportService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+    rpc.mockResolvedValue({ data: 1, error: null } as any)
+  })
+
+  describe('importFeed', () => {
+    it('replaces the feed blocks with its busy events', async () => {
+      const stored = await IcsImportService.importFeed({ id: 'f1' }, ics, { client: supabase, now })
+
+      expect(stored).toBe(1)
+      expect(rpc).toHaveBeenCalledWith('replace_feed_busy_blocks', {
+        p_feed_id: 'f1',
+        p_blocks: [{
+          external_event_id: 'dentist',
+          title: 'Dentist',
+          start_time: '2024-05-02T10:00:00.000Z',
+          end_time: '2024-05-02T11:00:00.000Z'
+        }],
+        p_error: null
+      })
+    })
+
+    it('records files that are not calendars without touching the blocks', async () => {
+      await expect(IcsImportService.importFeed({ id: 'f1' }, '<html></html>', { client: supabase, now }))
+        .rejects.toThrow('not an iCalendar')
+      expect(rpc).toHaveBeenCalledWith('replace_feed_busy_blocks', {
+        p_feed_id: 'f1',
+        p_blocks: [],
+        p_error: 'The file is not an iCalendar (.ics) file'
+      })
+    })
+  })
+
+  describe('refreshFeed', () => {
+    it('fetches webcal feeds over https', async () => {
+      const fetch = vi.fn(() => response(ics))
+
+      await IcsImportService.refreshFeed({ id: 'f1', source_url: 'webcal://cal.example.com/u/1.ics' }, { client: supabase, fetch, lookup, now })
+
+      expect(fetch).toHaveBeenCalledWith('https://cal.example.com/u/1.ics', expect.anything())
+      expect(rpc).toHaveBeenCalledWith('replace_feed_busy_blocks', expect.objectContaining({ p_error: null }))
+    })
+
+    it('records failed fetches', async () => {
+      const fetch = vi.fn(() => response('Gone', 410))
+
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'https://cal.example.com/1.ics' }, { client: supabase, fetch, lookup, now })
+      ).rejects.toThrow('answered 410')
+      expect(rpc).toHaveBeenCalledWith('replace_feed_busy_blocks', {
+        p_feed_id: 'f1',
+        p_blocks: [],
+        p_error: 'The calendar host answered 410'
+      })
+    })
+
+    it('only fetches https URLs', async () => {
+      const fetch = vi.fn(() => response(ics))
+
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'http://cal.example.com/1.ics' }, { client: supabase, fetch, lookup, now })
+      ).rejects.toThrow('must start with https://')
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('refuses hosts that resolve to private addresses', async () => {
+      const fetch = vi.fn(() => response(ics))
+      const internal = vi.fn(async () => ['93.184.216.34', '10.0.0.5'])
+
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'https://intranet.example.com/1.ics' }, { client: supabase, fetch, lookup: internal, now })
+      ).rejects.toThrow('not on the public internet')
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'https://169.254.169.254/latest/meta-data' }, { client: supabase, fetch, lookup, now })
+      ).rejects.toThrow('not on the public internet')
+      expect(fetch).not.toHaveBeenCalled()
+      expect(rpc).toHaveBeenCalledWith('replace_feed_busy_blocks', expect.objectContaining({
+        p_error: 'The calendar host intranet.example.com is not on the public internet'
+      }))
+    })
+
+    it('checks where redirects lead before following them', async () => {
+      const fetch = vi.fn()
+        .mockImplementationOnce(() => response('', 302, { location: 'https://cal.example.com/moved.ics' }))
+        .mockImplementationOnce(() => response('', 302, { location: 'https://[::1]/admin' }))
+
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'https://cal.example.com/1.ics' }, { client: supabase, fetch, lookup, now })
+      ).rejects.toThrow('host ::1 is not on the public internet')
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(fetch).toHaveBeenLastCalledWith('https://cal.example.com/moved.ics', expect.objectContaining({ redirect: 'manual' }))
+    })
+
+    it('gives up on hosts that take too long', async () => {
+      const fetch = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(init.signal!.reason))
+      }))
+
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'https://cal.example.com/1.ics' }, { client: supabase, fetch: fetch as any, lookup, now, timeoutMs: 5 })
+      ).rejects.toThrow('took too long to answer')
+    })
+
+    it('stops reading feeds larger than the cap', async () => {
+      const fetch = vi.fn(() => response(ics))
+
+      await expect(
+        IcsImportService.refreshFeed({ id: 'f1', source_url: 'https://cal.example.com/1.ics' }, { client: supabase, fetch, lookup, now, maxBytes: 64 })
+      ).rejects.toThrow('The calendar is larger than')
+      expect(rpc).not.toHaveBeenCalledWith('replace_feed_busy_blocks', expect.objectContaining({ p_error: null }))
+    })
+  })
+
+  describe('isPrivateAddress', () => {
+    it('flags loopback, private, link-local and reserved addresses', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+        expect(isPrivateAddress(address), address).toBe(true)
+      }
+    })
+
+    it('allows public addresses', () => {
+      for (const address of ['93.184.216.34', '172.32.0.1', '2606:2800:220:1::1', '::ffff:8.8.8.8']) {
+        expect(isPrivateAddress(address), address).toBe(false)
+      }
+    })
+  })
+
+  describe('refreshDueFeeds', () => {
+    it('fetches only enabled URL feeds that are due, in the owner\'s zone', async () => {
+      const query: Record<string, any> = {}
+      for (const method of ['select', 'eq', 'not', 'or', 'order']) {
+        query[method] = vi.fn(() => query)
+      }
+      query.limit = vi.fn(() => Promise.resolve({
+        data: [{ id: 'f1', source_url: 'https://cal.example.com/1.ics', owner: { timezone: 'Europe/Berlin' } }],
+        error: null
+      }))
+      const client = { rpc: supabase.rpc, from: vi.fn(() => query) } as any
+      const fetch = vi.fn(() => response('Unavailable', 503))
+
+      const report = await IcsImportService.refreshDueFeeds({ client, fetch, lookup, now })
+
+      expect(report).toEqual({ refreshed: 0, failed: 1 })
+      expect(query.eq).toHaveBeenCalledWith('is_enabled', true)
+      expect(query.not).toHaveBeenCalledWith('source_url', 'is', null)
+      expect(query.or).toHaveBeenCalledWith('next_fetch_at.is.null,next_fetch_at.lte.2024-05-01T00:00:00.000Z')
+      expect(rpc).toHaveBeenCalledWith('replace_feed_busy_blocks', expect.objectContaining({
+        p_feed_id: 'f1',
+        p_error: 'The calendar host answered 503'
+      }))
+    })
+  })
+
+  it('leaves https URLs unchanged', () => {
+    expect(feedFetchUrl('https://cal.example.com/1.ics')).toBe('https://cal.example.com/1.ics')
+  })
+})
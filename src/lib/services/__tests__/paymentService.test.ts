@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { PaymentService } from '../paymentService'
+import { FakePaymentProvider } from '../paymentProvider'
+import { BookingErrorType } from '../bookingService'
+import type { CheckoutSession } from '../../../types/booking'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const formData = {
+  firstName: 'Sam',
+  lastName: 'Lee',
+  email: 'sam@example.com',
+  customResponses: { company: 'Acme' }
+}
+
+const paymentRow = {
+  payment_id: 'pay1',
+  amount: '30.00',
+  currency: 'EUR',
+  lock_expires_at: '2024-05-01T10:15:00Z'
+}
+
+describe('PaymentService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  describe('startCheckout', () => {
+    it('records the payment and opens it with the provider', async () => {
+      rpc.mockResolvedValueOnce({ data: [paymentRow], error: null } as any)
+      const provider = new FakePaymentProvider()
+
+      const checkout = await PaymentService.startCheckout('lock1', formData, 2, 'Europe/Berlin', provider)
+
+      expect(rpc).toHaveBeenCalledWith('start_slot_payment', expect.objectContaining({
+        p_lock_id: 'lock1',
+        p_provider: 'fake',
+        p_quantity: 2,
+        p_timezone: 'Europe/Berlin',
+        p_custom_responses: { company: 'Acme' }
+      }))
+      expect(checkout).toMatchObject({
+        provider: 'fake',
+        amount: 30,
+        currency: 'EUR',
+        lockExpiresAt: '2024-05-01T10:15:00Z',
+        intent: { paymentId: 'pay1' }
+      })
+    })
+
+    it('reports an expired lock as LOCK_EXPIRED', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Lock is invalid: Lock has expired' }
+      } as any)
+
+      await expect(PaymentService.startCheckout('lock1', formData, 1, undefined, new FakePaymentProvider()))
+        .rejects.toMatchObject({ type: BookingErrorType.LOCK_EXPIRED })
+    })
+
+    it('refuses checkout when no payment provider is registered', async () => {
+      await expect(PaymentService.startCheckout('lock1', formData, 1))
+        .rejects.toThrow(/not available/i)
+      expect(rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('payCheckout', () => {
+    const startCheckout = async (provider: FakePaymentProvider): Promise<CheckoutSession> => {
+      rpc.mockResolvedValueOnce({ data: [paymentRow], error: null } as any)
+      return PaymentService.startCheckout('lock1', formData, 2, undefined, provider)
+    }
+
+    it('settles a declined payment as failed without booking', async () => {
+      const provider = new FakePaymentProvider({ decline: () => true, failureReason: 'Insufficient funds' })
+      const checkout = await startCheckout(provider)
+      rpc.mockResolvedValueOnce({ data: null, error: null } as any)
+
+      await expect(PaymentService.payCheckout(checkout, provider))
+        .rejects.toMatchObject({ type: BookingErrorType.PAYMENT_FAILED, message: 'Insufficient funds' })
+      expect(rpc).toHaveBeenLastCalledWith('confirm_slot_payment', expect.objectContaining({
+        p_payment_id: 'pay1',
+        p_status: 'failed',
+        p_failure_reason: 'Insufficient funds'
+      }))
+    })
+
+    it('reports a payment that landed after the lock expired as LOCK_EXPIRED', async () => {
+      const provider = new FakePaymentProvider()
+      const checkout = await startCheckout(provider)
+      rpc.mockResolvedValueOnce({ data: null, error: null } as any)
+
+      await expect(PaymentService.payCheckout(checkout, provider))
+        .rejects.toMatchObject({ type: BookingErrorType.LOCK_EXPIRED })
+      expect(rpc).toHaveBeenLastCalledWith('confirm_slot_payment', expect.objectContaining({
+        p_status: 'paid',
+        p_provider_payment_id: checkout.intent.providerPaymentId
+      }))
+    })
+
+    it('refuses a checkout started with another provider', async () => {
+      const checkout = await startCheckout(new FakePaymentProvider())
+
+      await expect(PaymentService.payCheckout({ ...checkout, provider: 'stripe' }, new FakePaymentProvider()))
+        .rejects.toMatchObject({ type: BookingErrorType.SYSTEM_ERROR })
+    })
+  })
+})
+
+describe('FakePaymentProvider', () => {
+  it('pays by default and only captures a payment once', async () => {
+    const provider = new FakePaymentProvider()
+    const intent = await provider.createPayment({
+      paymentId: 'pay1',
+      amount: 10,
+      currency: 'USD',
+      description: 'Booking',
+      email: 'sam@example.com'
+    })
+
+    expect(await provider.capturePayment(intent)).toMatchObject({ paymentId: 'pay1', status: 'paid' })
+    expect(await provider.capturePayment(intent)).toMatchObject({ status: 'failed' })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { RefundProcessingService } from '../refundProcessingService'
+import { FakePaymentProvider } from '../paymentProvider'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const claimRow = (overrides: Record<string, any> = {}) => ({
+  refund_id: 'r1',
+  provider: 'fake',
+  provider_payment_id: 'fake_pay_1',
+  amount: '15.00',
+  currency: 'EUR',
+  attempts: 1,
+  ...overrides
+})
+
+const claim = (...rows: ReturnType<typeof claimRow>[]) =>
+  rpc.mockImplementation(((fn: string) => Promise.resolve(
+    fn === 'claim_pending_refunds' ? { data: rows, error: null } : { data: true, error: null }
+  )) as any)
+
+const run = (provider: FakePaymentProvider | undefined) =>
+  RefundProcessingService.processRefunds({
+    client: supabase,
+    getProvider: name => (name === 'fake' ? provider : undefined)
+  })
+
+describe('RefundProcessingService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  it('sends claimed refunds and settles them as succeeded', async () => {
+    claim(claimRow())
+    const provider = new FakePaymentProvider()
+    const refundPayment = vi.spyOn(provider, 'refundPayment')
+
+    const report = await run(provider)
+
+    expect(report).toEqual({ succeeded: 1, failed: 0, retrying: 0 })
+    expect(refundPayment).toHaveBeenCalledWith({
+      refundId: 'r1',
+      provider: 'fake',
+      providerPaymentId: 'fake_pay_1',
+      amount: 15,
+      currency: 'EUR'
+    })
+    expect(rpc).toHaveBeenCalledWith('claim_pending_refunds', { p_limit: 20 })
+    expect(rpc).toHaveBeenLastCalledWith('confirm_refund', expect.objectContaining({
+      p_refund_id: 'r1',
+      p_status: 'succeeded'
+    }))
+  })
+
+  it('settles a rejected refund as failed', async () => {
+    claim(claimRow())
+
+    const report = await run(new FakePaymentProvider({ declineRefund: () => true }))
+
+    expect(report).toEqual({ succeeded: 0, failed: 1, retrying: 0 })
+    expect(rpc).toHaveBeenLastCalledWith('confirm_refund', expect.objectContaining({
+      p_status: 'failed',
+      p_failure_reason: 'The refund was rejected'
+    }))
+  })
+
+  it('leaves refunds pending while the provider is unreachable, then gives up', async () => {
+    const provider = new FakePaymentProvider()
+    vi.spyOn(provider, 'refundPayment').mockRejectedValue(new Error('Connection reset'))
+
+    claim(claimRow({ attempts: 2 }))
+    expect(await run(provider)).toEqual({ succeeded: 0, failed: 0, retrying: 1 })
+    expect(rpc).not.toHaveBeenCalledWith('confirm_refund', expect.anything())
+
+    claim(claimRow({ attempts: RefundProcessingService.MAX_ATTEMPTS }))
+    expect(await run(provider)).toEqual({ succeeded: 0, failed: 1, retrying: 0 })
+    expect(rpc).toHaveBeenLastCalledWith('confirm_refund', expect.objectContaining({
+      p_status: 'failed',
+      p_failure_reason: 'Connection reset'
+    }))
+  })
+
+  it('does not send refunds of payments taken by a provider that is not registered', async () => {
+    claim(claimRow({ provider: 'stripe', attempts: RefundProcessingService.MAX_ATTEMPTS }))
+    const provider = new FakePaymentProvider()
+    const refundPayment = vi.spyOn(provider, 'refundPayment')
+
+    expect(await run(provider)).toEqual({ succeeded: 0, failed: 1, retrying: 0 })
+    expect(refundPayment).not.toHaveBeenCalled()
+    expect(rpc).toHaveBeenLastCalledWith('confirm_refund', expect.objectContaining({
+      p_failure_reason: 'Refunds through stripe are not set up'
+    }))
+  })
+
+  it('throws when refunds cannot be claimed', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } } as any)
+
+    await expect(run(new FakePaymentProvider())).rejects.toThrow('permission denied')
+  })
+})
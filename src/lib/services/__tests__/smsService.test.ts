@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { SmsService } from '../smsService'
+import { FakeSmsProvider, TwilioSmsProvider } from '../smsProvider'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const now = new Date('2024-05-01T10:00:00Z')
+
+const outboxRow = (overrides: Record<string, any> = {}) => ({
+  id: 'sms1',
+  booking_id: 'b1',
+  template: 'booking_reminder',
+  recipient_phone: '+447700900123',
+  payload: {
+    booking_reference: 'A1B2C3D4',
+    first_name: 'Sam',
+    last_name: 'Lee',
+    email: 'sam@example.com',
+    status: 'confirmed',
+    quantity: 1,
+    event_title: 'Intro call',
+    location: 'Studio 2',
+    is_online: false,
+    starts_at: '2024-05-02T09:00:00Z',
+    timezone: 'Europe/London'
+  },
+  dedupe_key: 'booking_reminder:r1',
+  status: 'sending',
+  attempts: 1,
+  ...overrides
+})
+
+const claim = (...rows: ReturnType<typeof outboxRow>[]) =>
+  rpc.mockImplementation(((fn: string) => Promise.resolve(
+    fn === 'claim_sms_outbox' ? { data: rows, error: null } : { data: null, error: null }
+  )) as any)
+
+describe('SmsService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+    rpc.mockResolvedValue({ data: null, error: null } as any)
+  })
+
+  describe('processOutbox', () => {
+    it('renders and texts claimed messages, then records delivery', async () => {
+      claim(outboxRow())
+      const provider = new FakeSmsProvider()
+
+      const report = await SmsService.processOutbox({ client: supabase, provider, now, appUrl: 'https://app.example.com' })
+
+      expect(report).toEqual({ sent: 1, retrying: 0, failed: 0 })
+      expect(provider.sent).toHaveLength(1)
+      expect(provider.sent[0]).toMatchObject({ to: '+447700900123', idempotencyKey: 'sms1' })
+      expect(provider.sent[0].body).toBe(
+        'Schedlyx: Reminder: Intro call is coming up on Thu, May 2, 10:00 AM GMT+1. ' +
+        'Where: Studio 2. Ref A1B2C3D4. ' +
+        'Manage: https://app.example.com/booking/manage?ref=A1B2C3D4&email=sam%40example.com'
+      )
+      expect(rpc).toHaveBeenCalledWith('claim_sms_outbox', { p_limit: 20 })
+      expect(rpc).toHaveBeenLastCalledWith('complete_sms_delivery', {
+        p_sms_id: 'sms1',
+        p_sent: true,
+        p_provider_message_id: 'fake_sms_1',
+        p_error: null,
+        p_retry_at: null
+      })
+    })
+
+    it('retries failed texts with the email backoff, then gives up', async () => {
+      claim(outboxRow({ id: 'sms1', attempts: 2 }), outboxRow({ id: 'sms2', attempts: 5 }))
+      const provider = new FakeSmsProvider({ fail: () => 'Unreachable number' })
+
+      const report = await SmsService.processOutbox({ client: supabase, provider, now })
+
+      expect(report).toEqual({ sent: 0, retrying: 1, failed: 1 })
+      expect(rpc).toHaveBeenCalledWith('complete_sms_delivery', {
+        p_sms_id: 'sms1',
+        p_sent: false,
+        p_provider_message_id: null,
+        p_error: 'Unreachable number',
+        p_retry_at: '2024-05-01T10:02:00.000Z'
+      })
+      expect(rpc).toHaveBeenCalledWith('complete_sms_delivery', expect.objectContaining({
+        p_sms_id: 'sms2',
+        p_retry_at: null
+      }))
+    })
+
+    it('throws when texts cannot be claimed', async () => {
+      rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } } as any)
+
+      await expect(SmsService.processOutbox({ client: supabase, now })).rejects.toThrow('permission denied')
+    })
+  })
+
+  describe('TwilioSmsProvider', () => {
+    const message = { to: '+15551234567', body: 'Reminder: Intro call tomorrow', idempotencyKey: 'sms1' }
+
+    it('sends from a number, or through a messaging service', async () => {
+      const fetch = vi.fn().mockImplementation(async () => Response.json({ sid: 'SM1' }, { status: 201 }))
+
+      await expect(
+        new TwilioSmsProvider({ accountSid: 'AC1', authToken: 'secret', from: '+15550000000', fetch }).send(message)
+      ).resolves.toBe('SM1')
+      await new TwilioSmsProvider({ accountSid: 'AC1', authToken: 'secret', from: 'MG1', fetch }).send(message)
+
+      const [url, init] = fetch.mock.calls[0]
+      expect(url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC1/Messages.json')
+      expect(init.headers.Authorization).toBe(`Basic ${btoa('AC1:secret')}`)
+      expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+        To: '+15551234567',
+        Body: 'Reminder: Intro call tomorrow',
+        From: '+15550000000'
+      })
+      expect(new URLSearchParams(fetch.mock.calls[1][1].body).get('MessagingServiceSid')).toBe('MG1')
+    })
+
+    it('rejects with the API error', async () => {
+      const fetch = vi.fn().mockResolvedValue(Response.json({ message: 'Invalid To number' }, { status: 400 }))
+      const provider = new TwilioSmsProvider({ accountSid: 'AC1', authToken: 'secret', from: '+15550000000', fetch })
+
+      await expect(provider.send(message)).rejects.toThrow('Invalid To number')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../supabase'
+import { WaitlistService } from '../waitlistService'
+import { BookingError, BookingErrorType } from '../bookingService'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const contact = {
+  firstName: 'Sam',
+  lastName: 'Lee',
+  email: 'sam@example.com'
+}
+
+describe('WaitlistService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  describe('joinWaitlist', () => {
+    it('returns the entry and its position', async () => {
+      rpc.mockResolvedValueOnce({ data: [{ waitlist_id: 'w1', waitlist_position: 3 }], error: null } as any)
+
+      const entry = await WaitlistService.joinWaitlist('e1', 's1', contact, 2)
+
+      expect(rpc).toHaveBeenCalledWith('add_to_waitlist', expect.objectContaining({
+        p_event_id: 'e1',
+        p_slot_id: 's1',
+        p_email: 'sam@example.com',
+        p_phone: null,
+        p_quantity: 2
+      }))
+      expect(entry).toEqual({ id: 'w1', slotId: 's1', position: 3, quantity: 2 })
+    })
+
+    it('rejects invalid quantities without calling the server', async () => {
+      await expect(WaitlistService.joinWaitlist('e1', 's1', contact, 0))
+        .rejects.toMatchObject({ type: BookingErrorType.INVALID_QUANTITY })
+      expect(rpc).not.toHaveBeenCalled()
+    })
+
+    it('reports slots that can no longer be waitlisted', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'Cannot join the waitlist for a slot in the past' }
+      } as any)
+
+      await expect(WaitlistService.joinWaitlist('e1', 's1', contact, 1))
+        .rejects.toMatchObject({ type: BookingErrorType.SLOT_FULL })
+    })
+  })
+
+  describe('claimOffer', () => {
+    it('maps the held lock, slot and contact details', async () => {
+      rpc.mockResolvedValueOnce({
+        data: [{
+          lock_id: 'l1',
+          expires_at: '2024-05-01T10:30:00Z',
+          event_id: 'e1',
+          slot_id: 's1',
+          start_time: '2024-05-02T09:00:00Z',
+          end_time: '2024-05-02T09:30:00Z',
+          total_capacity: 10,
+          price: 0,
+          quantity: 2,
+          first_name: 'Sam',
+          last_name: 'Lee',
+          email: 'sam@example.com',
+          phone: null
+        }],
+        error: null
+      } as any)
+
+      const offer = await WaitlistService.claimOffer('w1')
+
+      expect(offer.lockId).toBe('l1')
+      expect(offer.quantity).toBe(2)
+      expect(offer.slot).toMatchObject({ slotId: 's1', availableCount: 2, totalCapacity: 10 })
+      expect(offer.contact).toEqual({ ...contact, phone: undefined })
+    })
+
+    it('surfaces expired offers as WAITLIST_OFFER_INVALID', async () => {
+      rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: 'P0001', message: 'This waitlist offer has expired' }
+      } as any)
+
+      const error = await WaitlistService.claimOffer('w1').catch(e => e)
+
+      expect(error).toBeInstanceOf(BookingError)
+      expect(error.type).toBe(BookingErrorType.WAITLIST_OFFER_INVALID)
+      expect(error.message).toBe('This waitlist offer has expired')
+    })
+  })
+})
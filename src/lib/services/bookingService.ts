@@ -11,8 +11,18 @@ import {
   SlotAvailability,
   BookingFormData,
   ConfirmedBooking,
-  TimeSlot
+  ManagedBooking,
+  RefundRequest,
+  TimeSlot,
+  SlotGenerationReport
 } from '../../types/booking'
+import { mapDBRecurringScheduleToDomain, RecurrenceRule } from '../../types/recurrence'
+import { generateRecurringSlots, WEEKDAY_NAMES } from '../recurrence'
+import { filterSlotsByAvailability } from '../availability'
+import { availabilityService } from '../../services/availabilityService'
+import { availabilityOverrideService } from '../../services/availabilityOverrideService'
+import { calendarService } from '../../services/calendarService'
+import { detectTimeZone, formatTimeRange } from '../timezone'
 
 /**
  * =============================================================================
@@ -67,7 +77,14 @@ export enum BookingErrorType {
   RPC_NOT_AVAILABLE = 'RPC_NOT_AVAILABLE',
   LOCK_INVALID = 'LOCK_INVALID',  // FIX #1: Consistent enum name
   SYSTEM_ERROR = 'SYSTEM_ERROR',
-  BACKEND_NOT_INITIALIZED = 'BACKEND_NOT_INITIALIZED'
+  BACKEND_NOT_INITIALIZED = 'BACKEND_NOT_INITIALIZED',
+  WAITLIST_OFFER_INVALID = 'WAITLIST_OFFER_INVALID',
+  BOOKING_NOT_FOUND = 'BOOKING_NOT_FOUND',
+  CANCELLATION_NOT_ALLOWED = 'CANCELLATION_NOT_ALLOWED',
+  INVALID_RESPONSES = 'INVALID_RESPONSES',
+  INVALID_PHONE = 'INVALID_PHONE',
+  PAYMENT_REQUIRED = 'PAYMENT_REQUIRED',
+  PAYMENT_FAILED = 'PAYMENT_FAILED'
 }
 
 export class BookingError extends Error {
@@ -195,7 +212,9 @@ export class BookingService {
    * 
    * @param eventId - Event UUID
    * @param sessionId - Optional browser session ID for lock exclusion
-   * @returns Available slots with capacity accounting for active locks
+   * @returns Available slots with capacity accounting for active locks.
+   *   Slots overlapping the organizer's imported busy time (calendar sync
+   *   and ICS feeds) are left out by the RPC.
    * @throws BookingError with specific type if operation fails
    */
   static async getAvailableSlots(eventId: string, sessionId?: string): Promise<SlotAvailability[]> {
@@ -513,13 +532,15 @@ export class BookingService {
    * @param lockId - Valid lock ID
    * @param formData - Booking details
    * @param quantity - Number of seats to book (REQUIRED - no defaulting)
+   * @param timeZone - Invitee's IANA time zone; the server falls back to the event's zone
    * @returns Confirmed booking with reference number
    * @throws BookingError with specific type for different failure modes
    */
   static async completeBooking(
     lockId: string,
     formData: BookingFormData,
-    quantity: number  // ✅ FIX #2: Added required quantity parameter
+    quantity: number,  // ✅ FIX #2: Added required quantity parameter
+    timeZone?: string
   ): Promise<ConfirmedBooking> {
     await this.ensureRPCAvailable()
     
@@ -542,7 +563,10 @@ export class BookingService {
         p_email: formData.email,
         p_phone: formData.phone || null,
         p_notes: formData.notes || null,
-        p_quantity: quantity  // ✅ FIX #2: Quantity passed to backend
+        p_quantity: quantity,  // ✅ FIX #2: Quantity passed to backend
+        p_timezone: timeZone || null,
+        p_custom_responses: formData.customResponses || {},
+        p_sms_opt_in: !!formData.smsOptIn
       })
 
       if (error) {
@@ -550,6 +574,32 @@ export class BookingService {
         
         const errorMsg = error.message.toLowerCase()
         
+        if (errorMsg.includes('payment required')) {
+          throw new BookingError(
+            BookingErrorType.PAYMENT_REQUIRED,
+            'This time slot must be paid for at checkout.',
+            { lockId }
+          )
+        }
+        
+        // Intake answers are re-checked server-side
+        if (errorMsg.includes('answer required') || errorMsg.includes('invalid answer')) {
+          throw new BookingError(
+            BookingErrorType.INVALID_RESPONSES,
+            error.message,
+            { lockId }
+          )
+        }
+
+        // Text messages need an E.164 number
+        if (errorMsg.includes('phone number')) {
+          throw new BookingError(
+            BookingErrorType.INVALID_PHONE,
+            error.message,
+            { lockId }
+          )
+        }
+        
         if (errorMsg.includes('expired') || errorMsg.includes('not found')) {
           throw new BookingError(
             BookingErrorType.LOCK_EXPIRED,
@@ -590,36 +640,16 @@ export class BookingService {
         )
       }
 
-      // Fetch complete booking details
-      const { data: booking, error: fetchError } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('id', bookingId)
-        .single()
+      const booking = await this.getConfirmedBooking(bookingId)
 
-      if (fetchError) {
-        throw new BookingError(
-          BookingErrorType.SYSTEM_ERROR,
-          'Booking created but failed to retrieve details',
-          { bookingId, error: fetchError.message }
-        )
+      // Online events with a conferencing provider: create the join link
+      // now so it's on the confirmation page. The scheduled worker retries
+      // if this fails.
+      if (booking.meetingStatus === 'pending' && await this.requestMeetingLink(booking)) {
+        return await this.getConfirmedBooking(bookingId)
       }
 
-      return {
-        id: booking.id,
-        bookingReference: booking.booking_reference,
-        eventId: booking.event_id,
-        slotId: booking.slot_id,
-        firstName: booking.first_name,
-        lastName: booking.last_name,
-        email: booking.email,
-        phone: booking.phone,
-        date: booking.date,
-        time: booking.time,
-        status: booking.status,
-        confirmedAt: booking.confirmed_at,
-        createdAt: booking.created_at
-      } as ConfirmedBooking
+      return booking
     } catch (error: any) {
       if (error instanceof BookingError) {
         throw error
@@ -634,6 +664,294 @@ export class BookingService {
     }
   }
 
+  /**
+   * Ask api/booking-meeting.ts to create the meeting link of a booking
+   * that was just made; its reference and email show the caller made it
+   *
+   * @returns Whether a link was created
+   */
+  private static async requestMeetingLink(booking: ConfirmedBooking): Promise<boolean> {
+    try {
+      const response = await fetch('/api/booking-meeting', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bookingId: booking.id,
+          bookingReference: booking.bookingReference,
+          email: booking.email
+        })
+      })
+      if (!response.ok) {
+        return false
+      }
+      const report = await response.json()
+      return report.created > 0
+    } catch (error) {
+      console.warn('Meeting link not created yet:', error)
+      return false
+    }
+  }
+
+  /**
+   * Full details of a booking that was just created
+   *
+   * @throws BookingError if the booking cannot be read back
+   */
+  static async getConfirmedBooking(bookingId: string): Promise<ConfirmedBooking> {
+    const { data: booking, error } = await supabase
+      .from('bookings')
+      .select('*, slot:time_slots(start_time, end_time), event:events(timezone)')
+      .eq('id', bookingId)
+      .single()
+
+    if (error) {
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Booking created but failed to retrieve details',
+        { bookingId, error: error.message }
+      )
+    }
+
+    return {
+      id: booking.id,
+      bookingReference: booking.booking_reference,
+      eventId: booking.event_id,
+      slotId: booking.slot_id,
+      firstName: booking.first_name,
+      lastName: booking.last_name,
+      email: booking.email,
+      phone: booking.phone,
+      date: booking.date,
+      time: booking.time,
+      startTime: booking.slot?.start_time ?? null,
+      endTime: booking.slot?.end_time ?? null,
+      timeZone: booking.timezone,
+      eventTimeZone: booking.event?.timezone ?? booking.timezone,
+      status: booking.status,
+      paymentStatus: booking.payment_status,
+      paymentAmount: booking.payment_amount === null ? null : Number(booking.payment_amount),
+      paymentCurrency: booking.payment_currency,
+      meetingUrl: booking.meeting_url ?? null,
+      meetingStatus: booking.meeting_status ?? null,
+      confirmedAt: booking.confirmed_at,
+      createdAt: booking.created_at
+    } as ConfirmedBooking
+  }
+
+  /**
+   * Guest lookup by booking reference and email
+   *
+   * @returns The booking, or null if no booking matches both
+   * @throws BookingError if the lookup fails
+   */
+  static async getBookingByReference(reference: string, email: string): Promise<ManagedBooking | null> {
+    const { data, error } = await supabase.rpc('get_booking_by_reference', {
+      p_reference: reference.trim(),
+      p_email: email.trim()
+    })
+
+    if (error) {
+      console.error('get_booking_by_reference RPC error:', error)
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Failed to look up your booking. Please try again.',
+        { code: error.code, message: error.message }
+      )
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row) return null
+
+    return {
+      id: row.id,
+      bookingReference: row.booking_reference,
+      eventId: row.event_id,
+      slotId: row.slot_id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email,
+      phone: row.phone,
+      notes: row.notes,
+      status: row.status,
+      quantity: row.quantity,
+      timeZone: row.timezone || row.event_timezone,
+      confirmedAt: row.confirmed_at,
+      cancelledAt: row.cancelled_at,
+      createdAt: row.created_at,
+      event: {
+        title: row.event_title,
+        description: row.event_description,
+        type: row.event_type,
+        duration: row.event_duration,
+        location: row.event_location,
+        isOnline: !!row.event_is_online,
+        timeZone: row.event_timezone
+      },
+      slot: row.slot_start_time ? {
+        startTime: row.slot_start_time,
+        endTime: row.slot_end_time,
+        price: Number(row.slot_price) || 0,
+        currency: row.slot_currency || 'USD'
+      } : null,
+      startsAt: row.starts_at,
+      allowCancellation: row.allow_cancellation,
+      cancellationDeadlineHours: row.cancellation_deadline,
+      cancelBy: row.cancel_by,
+      canCancel: row.can_cancel,
+      lateRefundPercent: row.late_cancellation_refund_percent ?? null,
+      payment: row.payment_status && row.payment_status !== 'free' ? {
+        status: row.payment_status,
+        amount: Number(row.payment_amount) || 0,
+        currency: row.payment_currency || 'USD'
+      } : null,
+      refund: row.refund_amount != null ? {
+        amount: Number(row.refund_amount),
+        status: row.refund_status
+      } : null
+    }
+  }
+
+  /**
+   * Guest cancellation by booking reference and email
+   * The server enforces the event's allow_cancellation and cancellation_deadline,
+   * and records a refund for paid bookings by the event's refund rules
+   *
+   * @returns The pending refund the refund worker will send, if any
+   * @throws BookingError CANCELLATION_NOT_ALLOWED when the policy forbids it
+   */
+  static async cancelBookingByReference(
+    reference: string,
+    email: string,
+    reason?: string
+  ): Promise<RefundRequest | null> {
+    const { data, error } = await supabase.rpc('cancel_booking_by_reference', {
+      p_reference: reference.trim(),
+      p_email: email.trim(),
+      p_cancellation_reason: reason || null
+    })
+
+    if (error) {
+      console.error('cancel_booking_by_reference RPC error:', error)
+      const errorMsg = error.message.toLowerCase()
+
+      if (errorMsg.includes('not allowed') || errorMsg.includes('deadline')) {
+        throw new BookingError(
+          BookingErrorType.CANCELLATION_NOT_ALLOWED,
+          errorMsg.includes('deadline')
+            ? 'The cancellation deadline for this booking has passed.'
+            : 'The organizer does not allow cancellations for this event.',
+          { reference }
+        )
+      }
+
+      if (errorMsg.includes('not found') || errorMsg.includes('cannot be cancelled')) {
+        throw new BookingError(
+          BookingErrorType.BOOKING_NOT_FOUND,
+          'This booking could not be found or is already cancelled.',
+          { reference }
+        )
+      }
+
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Failed to cancel your booking. Please try again.',
+        { code: error.code, message: error.message }
+      )
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row) return null
+
+    return {
+      refundId: row.refund_id,
+      provider: row.provider,
+      providerPaymentId: row.provider_payment_id,
+      amount: Number(row.amount),
+      currency: row.currency
+    }
+  }
+
+  /**
+   * Move a slot booking to another slot of the same event
+   * The server holds the new seats before releasing the old ones, all in one
+   * transaction, and the booking keeps its reference
+   *
+   * @returns The booking as it reads after the move
+   * @throws BookingError if the new slot can't take the booking, has a
+   *         different price, or the event's cancellation policy forbids moving it
+   */
+  static async rescheduleBooking(reference: string, email: string, newSlotId: string): Promise<ManagedBooking> {
+    const { error } = await supabase.rpc('reschedule_booking', {
+      p_reference: reference.trim(),
+      p_email: email.trim(),
+      p_new_slot_id: newSlotId,
+      p_session_id: this.getSessionId()
+    })
+
+    if (error) {
+      console.error('reschedule_booking RPC error:', error)
+      const errorMsg = error.message.toLowerCase()
+
+      if (errorMsg.includes('same price')) {
+        throw new BookingError(
+          BookingErrorType.PAYMENT_REQUIRED,
+          'Your booking can only move to a time with the same price. Cancel and book again to pick a differently priced time.',
+          { reference, slotId: newSlotId }
+        )
+      }
+
+      if (errorMsg.includes('not allowed') || errorMsg.includes('deadline')) {
+        throw new BookingError(
+          BookingErrorType.CANCELLATION_NOT_ALLOWED,
+          errorMsg.includes('deadline')
+            ? 'It is too late to reschedule this booking.'
+            : 'The organizer does not allow rescheduling for this event.',
+          { reference }
+        )
+      }
+
+      if (errorMsg.includes('insufficient')) {
+        throw new BookingError(
+          BookingErrorType.CAPACITY_EXCEEDED,
+          'That time no longer has enough seats for your booking. Please pick another.',
+          { reference, slotId: newSlotId }
+        )
+      }
+
+      if (errorMsg.includes('slot not found') || errorMsg.includes('not available') || errorMsg.includes('past')) {
+        throw new BookingError(
+          BookingErrorType.SLOT_FULL,
+          'Slot is no longer available. Please select a different time.',
+          { reference, slotId: newSlotId }
+        )
+      }
+
+      if (errorMsg.includes('booking not found') || errorMsg.includes('cannot be rescheduled')) {
+        throw new BookingError(
+          BookingErrorType.BOOKING_NOT_FOUND,
+          'This booking could not be found or can no longer be changed.',
+          { reference }
+        )
+      }
+
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Failed to reschedule your booking. Please try again.',
+        { code: error.code, message: error.message }
+      )
+    }
+
+    const booking = await this.getBookingByReference(reference, email)
+    if (!booking) {
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Your booking was moved but could not be reloaded. Please look it up again.',
+        { reference }
+      )
+    }
+    return booking
+  }
+
   /**
    * Get session ID for lock tracking
    */
@@ -647,18 +965,11 @@ export class BookingService {
   }
 
   /**
-   * Format slot time for display
+   * Format slot time for display in the given zone and the viewer's locale
+   * (defaults to the browser's zone)
    */
-  static formatSlotTime(startTime: string, endTime: string): string {
-    const start = new Date(startTime)
-    const end = new Date(endTime)
-    return `${start.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })} - ${end.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    })}`
+  static formatSlotTime(startTime: string, endTime: string, timeZone: string = detectTimeZone()): string {
+    return formatTimeRange(startTime, endTime, timeZone)
   }
 
   /**
@@ -682,23 +993,113 @@ export class BookingService {
 export class BookingAdminService {
   /**
    * ADMIN ONLY: Generate event slots
+   *
+   * Expands the event's recurring_schedule (or its available_days as a
+   * weekly rule) into candidate slots in the event's time zone, then drops
+   * candidates outside the organizer's weekly availability, candidates
+   * blocked by 'unavailable'/'busy' overrides, and start times that already
+   * exist. Every dropped candidate is listed in the report with its reason.
    */
   static async generateEventSlots(
     eventId: string,
     startDate: string,
     endDate: string,
     capacityPerSlot: number = 10
-  ): Promise<number> {
+  ): Promise<SlotGenerationReport> {
     try {
-      const { data, error } = await supabase.rpc('generate_event_slots', {
-        p_event_id: eventId,
-        p_start_date: startDate,
-        p_end_date: endDate,
-        p_capacity_per_slot: capacityPerSlot
+      if (capacityPerSlot <= 0) {
+        throw new Error('Capacity must be greater than 0')
+      }
+
+      const { data: event, error: eventError } = await supabase
+        .from('events')
+        .select('id, user_id, duration, buffer_time, time_slots, available_days, recurring_schedule, timezone')
+        .eq('id', eventId)
+        .single()
+
+      if (eventError) throw eventError
+
+      const timeZone = event.timezone || 'UTC'
+      const rule: RecurrenceRule = event.recurring_schedule
+        ? mapDBRecurringScheduleToDomain(event.recurring_schedule)
+        : {
+            frequency: 'weekly',
+            interval: 1,
+            startDate,
+            daysOfWeek: (event.available_days || [])
+              .map((day: string) => WEEKDAY_NAMES.indexOf(day))
+              .filter((day: number) => day >= 0),
+            exceptionDates: []
+          }
+
+      if (rule.frequency === 'weekly' && !rule.daysOfWeek?.length) {
+        throw new Error('Event has no available days')
+      }
+
+      const candidates = generateRecurringSlots(
+        rule,
+        {
+          window: event.time_slots,
+          duration: event.duration,
+          bufferTime: event.buffer_time || 0,
+          timeZone
+        },
+        startDate,
+        endDate
+      )
+
+      if (candidates.length === 0) return { created: 0, skipped: [] }
+
+      const [weekly, overrides, busyBlocks] = await Promise.all([
+        availabilityService.getWeeklyAvailability(event.user_id),
+        availabilityOverrideService.getUserOverrides(event.user_id, startDate, endDate),
+        calendarService.getBusyBlocks(
+          event.user_id,
+          candidates[0].startTime,
+          candidates[candidates.length - 1].endTime
+        )
+      ])
+
+      const { available, skipped } = filterSlotsByAvailability(candidates, {
+        weekly,
+        overrides,
+        timeZone,
+        busyBlocks
       })
 
-      if (error) throw error
-      return data
+      if (available.length === 0) return { created: 0, skipped }
+
+      const { data: existing, error: existingError } = await supabase
+        .from('time_slots')
+        .select('start_time')
+        .eq('event_id', eventId)
+        .gte('start_time', available[0].startTime)
+        .lte('start_time', available[available.length - 1].startTime)
+
+      if (existingError) throw existingError
+
+      const taken = new Set((existing || []).map((row: any) => new Date(row.start_time).getTime()))
+      const rows = []
+      for (const slot of available) {
+        if (taken.has(new Date(slot.startTime).getTime())) {
+          skipped.push({ ...slot, reason: 'already_exists' })
+        } else {
+          rows.push({
+            event_id: eventId,
+            start_time: slot.startTime,
+            end_time: slot.endTime,
+            total_capacity: capacityPerSlot
+          })
+        }
+      }
+
+      if (rows.length > 0) {
+        const { error } = await supabase.from('time_slots').insert(rows)
+        if (error) throw error
+      }
+
+      skipped.sort((a, b) => a.startTime.localeCompare(b.startTime))
+      return { created: rows.length, skipped }
     } catch (error: any) {
       throw error
     }
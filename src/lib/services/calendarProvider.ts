@@ -0,0 +1,247 @@
+// src/lib/services/calendarProvider.ts
+// Pluggable calendar providers for the calendar sync engine
+//
+// A provider lists an organizer's calendar events, incrementally when
+// given the sync token from the previous listing, and writes the events
+// exported for bookings. Providers signal an expired sync token with
+// SyncTokenExpiredError and a stale etag with CalendarConflictError, and
+// the engine recovers from both. Integrations only sync with the provider
+// registered for their service. InMemoryCalendarProvider keeps calendars
+// in memory and is used in tests.
+
+import type { CalendarIntegration } from '../../types/database'
+import type {
+  CalendarChanges,
+  CalendarConnection,
+  CalendarEventInput,
+  ExternalCalendarEvent
+} from '../../types/calendar'
+
+export interface ListChangesOptions {
+  /** Token from the previous listing; null lists the whole window */
+  syncToken: string | null
+  /** Window of a full listing, ISO timestamps */
+  timeMin: string
+  timeMax: string
+}
+
+export interface CalendarProvider {
+  readonly name: string
+
+  /**
+   * @throws SyncTokenExpiredError when the provider no longer accepts the token
+   */
+  listChanges(connection: CalendarConnection, options: ListChangesOptions): Promise<CalendarChanges>
+
+  createEvent(connection: CalendarConnection, event: CalendarEventInput): Promise<ExternalCalendarEvent>
+
+  /**
+   * Replace an event. With an etag, only if the event is unchanged since.
+   * @throws CalendarConflictError when the etag is stale
+   * @throws CalendarEventNotFoundError when the event was deleted
+   */
+  updateEvent(
+    connection: CalendarConnection,
+    eventId: string,
+    event: CalendarEventInput,
+    options?: { etag?: string | null }
+  ): Promise<ExternalCalendarEvent>
+
+  /**
+   * Deleting an event that no longer exists succeeds
+   */
+  deleteEvent(connection: CalendarConnection, eventId: string): Promise<void>
+}
+
+export class SyncTokenExpiredError extends Error {
+  constructor() {
+    super('Calendar sync token expired')
+    this.name = 'SyncTokenExpiredError'
+  }
+}
+
+export class CalendarConflictError extends Error {
+  constructor(public eventId: string) {
+    super(`Calendar event ${eventId} was changed in the calendar`)
+    this.name = 'CalendarConflictError'
+  }
+}
+
+export class CalendarEventNotFoundError extends Error {
+  constructor(public eventId: string) {
+    super(`Calendar event ${eventId} no longer exists`)
+    this.name = 'CalendarEventNotFoundError'
+  }
+}
+
+interface StoredEvent {
+  calendarId: string
+  event: ExternalCalendarEvent
+  /** Change sequence the event was last written at */
+  changedAt: number
+}
+
+/**
+ * Calendars kept in memory. Tests play the organizer with
+ * addExternalEvent, editExternalEvent and removeExternalEvent.
+ */
+export class InMemoryCalendarProvider implements CalendarProvider {
+  readonly name = 'in-memory'
+
+  private events = new Map<string, StoredEvent>()
+  private sequence = 0
+  private nextId = 1
+  private validTokens = new Set<string>()
+
+  /** Events in a calendar that haven't been deleted */
+  listEvents(calendarId: string): ExternalCalendarEvent[] {
+    return [...this.events.values()]
+      .filter(stored => stored.calendarId === calendarId && stored.event.status !== 'cancelled')
+      .map(stored => ({ ...stored.event }))
+  }
+
+  addExternalEvent(
+    calendarId: string,
+    event: Omit<ExternalCalendarEvent, 'id' | 'etag' | 'status' | 'transparency'> &
+      Partial<Pick<ExternalCalendarEvent, 'transparency'>>
+  ): ExternalCalendarEvent {
+    return this.write(calendarId, {
+      transparency: 'busy',
+      ...event,
+      id: `event_${this.nextId++}`,
+      status: 'confirmed',
+      etag: ''
+    })
+  }
+
+  editExternalEvent(eventId: string, changes: Partial<Omit<ExternalCalendarEvent, 'id' | 'etag'>>): ExternalCalendarEvent {
+    const stored = this.getStored(eventId)
+    return this.write(stored.calendarId, { ...stored.event, ...changes })
+  }
+
+  removeExternalEvent(eventId: string): void {
+    this.editExternalEvent(eventId, { status: 'cancelled' })
+  }
+
+  /** Reject every sync token issued so far, as providers do after a while */
+  expireSyncTokens(): void {
+    this.validTokens.clear()
+  }
+
+  async listChanges(
+    connection: CalendarConnection,
+    { syncToken, timeMin, timeMax }: ListChangesOptions
+  ): Promise<CalendarChanges> {
+    const inCalendar = [...this.events.values()].filter(
+      stored => stored.calendarId === connection.provider_calendar_id
+    )
+    const nextSyncToken = `sync_${this.sequence}`
+
+    if (syncToken) {
+      if (!this.validTokens.has(syncToken)) {
+        throw new SyncTokenExpiredError()
+      }
+
+      const since = Number(syncToken.replace('sync_', ''))
+      this.validTokens.add(nextSyncToken)
+
+      return {
+        events: inCalendar.filter(stored => stored.changedAt > since).map(stored => ({ ...stored.event })),
+        nextSyncToken
+      }
+    }
+
+    this.validTokens.add(nextSyncToken)
+
+    const from = new Date(timeMin).getTime()
+    const to = new Date(timeMax).getTime()
+
+    return {
+      events: inCalendar
+        .filter(({ event }) =>
+          event.status !== 'cancelled' &&
+          new Date(event.start).getTime() < to &&
+          new Date(event.end).getTime() > from
+        )
+        .map(stored => ({ ...stored.event })),
+      nextSyncToken
+    }
+  }
+
+  async createEvent(connection: CalendarConnection, event: CalendarEventInput): Promise<ExternalCalendarEvent> {
+    return this.write(connection.provider_calendar_id, {
+      id: `event_${this.nextId++}`,
+      ...this.fromInput(event),
+      etag: ''
+    })
+  }
+
+  async updateEvent(
+    connection: CalendarConnection,
+    eventId: string,
+    event: CalendarEventInput,
+    { etag }: { etag?: string | null } = {}
+  ): Promise<ExternalCalendarEvent> {
+    const stored = this.events.get(eventId)
+    if (!stored || stored.event.status === 'cancelled') {
+      throw new CalendarEventNotFoundError(eventId)
+    }
+    if (etag && etag !== stored.event.etag) {
+      throw new CalendarConflictError(eventId)
+    }
+
+    return this.write(connection.provider_calendar_id, {
+      ...stored.event,
+      ...this.fromInput(event)
+    })
+  }
+
+  async deleteEvent(_connection: CalendarConnection, eventId: string): Promise<void> {
+    const stored = this.events.get(eventId)
+    if (stored && stored.event.status !== 'cancelled') {
+      this.removeExternalEvent(eventId)
+    }
+  }
+
+  private fromInput({ title, start, end, bookingId }: CalendarEventInput): Omit<ExternalCalendarEvent, 'id' | 'etag'> {
+    return { title, start, end, bookingId, transparency: 'busy', status: 'confirmed' }
+  }
+
+  private getStored(eventId: string): StoredEvent {
+    const stored = this.events.get(eventId)
+    if (!stored) {
+      throw new CalendarEventNotFoundError(eventId)
+    }
+    return stored
+  }
+
+  private write(calendarId: string, event: ExternalCalendarEvent): ExternalCalendarEvent {
+    const changedAt = ++this.sequence
+    const written = { ...event, etag: `"${changedAt}"` }
+    this.events.set(event.id, { calendarId, event: written, changedAt })
+    return { ...written }
+  }
+}
+
+const providers = new Map<string, CalendarProvider>()
+
+/**
+ * The provider registered for an integration's calendar service
+ *
+ * @throws when none is registered: syncing with another provider's view of
+ * the calendar would replace the integration's busy blocks with it
+ */
+export function getCalendarProvider(name: CalendarIntegration['provider']): CalendarProvider {
+  const provider = providers.get(name)
+  if (!provider) {
+    throw new Error(`Calendar sync with ${name} is not set up`)
+  }
+  return provider
+}
+
+/**
+ * Register the provider that syncs one calendar service, e.g. at start-up
+ */
+export function setCalendarProvider(provider: CalendarProvider, name: CalendarIntegration['provider']): void {
+  providers.set(name, provider)
+}
@@ -0,0 +1,255 @@
+// src/lib/services/calendarSyncService.ts
+// Two-way calendar sync engine
+//
+// syncIntegration syncs one calendar_integrations row with its calendar
+// provider:
+//   - import (sync_direction 'import' or 'both'): the organizer's calendar
+//     events become busy blocks, which get_available_slots and slot
+//     generation treat as unavailable time. After the first full listing
+//     only changes since the stored sync token are fetched; when the
+//     provider expires the token, the window is listed again in full.
+//   - export ('export' or 'both'): confirmed bookings on the organizer's
+//     events are written to the calendar and kept up to date, and removed
+//     once they are cancelled. See planCalendarExport for how edits and
+//     deletions made in the calendar are resolved.
+//
+// The outcome is recorded with complete_calendar_sync either way, so
+// last_sync_at and last_sync_error tell the organizer how it went.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: apply_calendar_import, get_calendar_export_bookings,
+//   record_calendar_export, complete_calendar_sync
+// - Migration: 20240210000000_calendar_sync.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '../supabase'
+import {
+  exportFingerprint,
+  planCalendarExport,
+  planCalendarImport,
+  toCalendarEventInput
+} from '../calendarSync'
+import {
+  CalendarConflictError,
+  CalendarEventNotFoundError,
+  CalendarProvider,
+  getCalendarProvider,
+  SyncTokenExpiredError
+} from './calendarProvider'
+import type {
+  CalendarEventLinkStatus,
+  CalendarExportBooking,
+  CalendarIntegration
+} from '../../types/database'
+import type { CalendarChanges, CalendarSyncReport, ExternalCalendarEvent } from '../../types/calendar'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type RpcClient = Pick<SupabaseClient, 'rpc'>
+
+export interface SyncCalendarOptions {
+  client?: RpcClient
+  /** Defaults to the provider registered for integration.provider */
+  provider?: CalendarProvider
+  now?: Date
+  /** How far ahead to import busy time and export bookings */
+  windowDays?: number
+}
+
+async function callRpc<T>(client: RpcClient, fn: string, args: Record<string, unknown>): Promise<T> {
+  const { data, error } = await client.rpc(fn, args)
+
+  if (error) {
+    console.error(`${fn} RPC error:`, error)
+    throw new Error(error.message)
+  }
+
+  return data as T
+}
+
+export class CalendarSyncService {
+  /**
+   * Sync one integration in the directions it is set up for
+   */
+  static async syncIntegration(
+    integration: CalendarIntegration,
+    {
+      client = supabase,
+      provider: providerOption,
+      now = new Date(),
+      windowDays = 90
+    }: SyncCalendarOptions = {}
+  ): Promise<CalendarSyncReport> {
+    if (!integration.sync_enabled) {
+      throw new Error('Calendar sync is turned off for this calendar')
+    }
+
+    const report: CalendarSyncReport = {
+      fullSync: false,
+      imported: 0,
+      removed: 0,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      conflicts: 0,
+      detached: 0
+    }
+    const timeMin = now.toISOString()
+    const timeMax = new Date(now.getTime() + windowDays * DAY_MS).toISOString()
+
+    try {
+      // Inside the try so a missing provider is recorded on the integration
+      const provider = providerOption ?? getCalendarProvider(integration.provider)
+      let exportedEtags: Record<string, string> = {}
+      let deleted: string[] = []
+
+      if (integration.sync_direction !== 'export') {
+        const changes = await this.listChanges(integration, provider, timeMin, timeMax, report)
+        const plan = planCalendarImport(changes.events)
+
+        report.imported = await callRpc<number>(client, 'apply_calendar_import', {
+          p_integration_id: integration.id,
+          p_blocks: plan.blocks,
+          p_removed_event_ids: plan.removedEventIds,
+          p_full_sync: report.fullSync,
+          p_sync_token: changes.nextSyncToken
+        })
+        report.removed = plan.removedEventIds.length
+        exportedEtags = plan.exportedEtags
+        deleted = plan.deletedBookingIds
+      }
+
+      if (integration.sync_direction !== 'import') {
+        const bookings = await callRpc<CalendarExportBooking[] | null>(client, 'get_calendar_export_bookings', {
+          p_integration_id: integration.id,
+          p_from: timeMin,
+          p_to: timeMax
+        })
+
+        for (const action of planCalendarExport(bookings || [], { exportedEtags, deleted })) {
+          const { booking } = action
+
+          switch (action.type) {
+            case 'create': {
+              const event = await provider.createEvent(integration, toCalendarEventInput(booking))
+              await this.recordExport(client, integration, booking, event)
+              report.created++
+              break
+            }
+            case 'update': {
+              const event = await this.updateEvent(integration, provider, action.eventId, booking, action.force, report)
+              await this.recordExport(client, integration, booking, event, event ? 'active' : 'detached')
+              if (event) {
+                report.updated++
+              } else {
+                report.detached++
+              }
+              break
+            }
+            case 'delete':
+              await provider.deleteEvent(integration, action.eventId)
+              await this.recordExport(client, integration, booking, null)
+              report.deleted++
+              break
+            case 'forget':
+              await this.recordExport(client, integration, booking, null)
+              break
+            case 'detach':
+              await this.recordExport(client, integration, booking, null, 'detached')
+              report.detached++
+              break
+          }
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      await client.rpc('complete_calendar_sync', { p_integration_id: integration.id, p_error: message })
+      throw err
+    }
+
+    await callRpc<void>(client, 'complete_calendar_sync', { p_integration_id: integration.id, p_error: null })
+
+    return report
+  }
+
+  /**
+   * Changes since the stored sync token, or the whole window when there is
+   * none or the provider no longer accepts it
+   */
+  private static async listChanges(
+    integration: CalendarIntegration,
+    provider: CalendarProvider,
+    timeMin: string,
+    timeMax: string,
+    report: CalendarSyncReport
+  ): Promise<CalendarChanges> {
+    if (integration.sync_token) {
+      try {
+        return await provider.listChanges(integration, { syncToken: integration.sync_token, timeMin, timeMax })
+      } catch (err) {
+        if (!(err instanceof SyncTokenExpiredError)) throw err
+      }
+    }
+
+    report.fullSync = true
+    return provider.listChanges(integration, { syncToken: null, timeMin, timeMax })
+  }
+
+  /**
+   * Write the booking over its exported event. A stale etag means the
+   * event was edited in the calendar: the booking wins and is written
+   * again without one.
+   *
+   * @returns The updated event, or null when it was deleted in the calendar
+   */
+  private static async updateEvent(
+    integration: CalendarIntegration,
+    provider: CalendarProvider,
+    eventId: string,
+    booking: CalendarExportBooking,
+    force: boolean,
+    report: CalendarSyncReport
+  ): Promise<ExternalCalendarEvent | null> {
+    const input = toCalendarEventInput(booking)
+
+    try {
+      if (!force) {
+        try {
+          return await provider.updateEvent(integration, eventId, input, { etag: booking.link_etag })
+        } catch (err) {
+          if (!(err instanceof CalendarConflictError)) throw err
+        }
+      }
+
+      report.conflicts++
+      return await provider.updateEvent(integration, eventId, input)
+    } catch (err) {
+      if (err instanceof CalendarEventNotFoundError) return null
+      throw err
+    }
+  }
+
+  /**
+   * Remember the calendar event a booking was exported as. Without an
+   * event, the link is forgotten, or kept as detached so the booking
+   * isn't exported again.
+   */
+  private static async recordExport(
+    client: RpcClient,
+    integration: CalendarIntegration,
+    booking: CalendarExportBooking,
+    event: ExternalCalendarEvent | null,
+    status: CalendarEventLinkStatus = 'active'
+  ): Promise<void> {
+    const detached = !event && status === 'detached'
+
+    await callRpc<void>(client, 'record_calendar_export', {
+      p_integration_id: integration.id,
+      p_booking_id: booking.booking_id,
+      p_external_event_id: event?.id ?? (detached ? booking.link_external_event_id : null),
+      p_etag: event?.etag ?? null,
+      p_fingerprint: exportFingerprint(booking),
+      p_status: status
+    })
+  }
+}
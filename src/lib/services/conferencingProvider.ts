@@ -0,0 +1,192 @@
+// src/lib/services/conferencingProvider.ts
+// Pluggable conferencing providers for bookings' meeting links
+//
+// A provider creates the meeting for a booking and resolves with its join
+// link, moves it when the booking is rescheduled and revokes it when the
+// booking is cancelled, where its rooms can be revoked. Built in:
+//   - StaticRoomProvider ('static'): every booking gets the event's
+//     meeting_url, the organizer's personal room; nothing is revoked.
+//   - GeneratedRoomProvider ('generated'): a unique, unguessable room per
+//     booking on a room host such as Jitsi Meet. Rescheduling issues a new
+//     room and only the new link is shared, but public rooms can't be
+//     deleted: old and cancelled links still open a room, just one nobody
+//     else is told about.
+//   - InMemoryConferencingProvider: keeps meetings in memory, for tests and
+//     development. It is never registered by default, so its fake links
+//     can't reach attendees.
+// Events name their provider in events.conferencing_provider; a name with
+// no provider registered fails the meeting, which stays pending with the
+// error until one is.
+
+import type { ConferencingProviderName } from '../../types/database'
+import type { Meeting, MeetingRequest } from '../../types/conferencing'
+
+export interface ConferencingProvider {
+  readonly name: string
+
+  /**
+   * @throws when the meeting could not be created
+   */
+  createMeeting(request: MeetingRequest): Promise<Meeting>
+
+  /**
+   * Move a meeting to the booking's new time. Providers may issue a new
+   * link; the returned meeting replaces the old one.
+   */
+  updateMeeting(meeting: Pick<Meeting, 'externalId'>, request: MeetingRequest): Promise<Meeting>
+
+  /**
+   * Revoke a meeting so its link stops working, where the provider can;
+   * providers whose links can't be revoked resolve without doing anything.
+   * Revoking one that is already gone succeeds.
+   */
+  deleteMeeting(meeting: Pick<Meeting, 'externalId'>): Promise<void>
+}
+
+export class StaticRoomProvider implements ConferencingProvider {
+  readonly name = 'static'
+
+  async createMeeting(request: MeetingRequest): Promise<Meeting> {
+    if (!request.roomUrl) {
+      throw new Error('The event has no meeting link to share')
+    }
+    return { joinUrl: request.roomUrl, externalId: null }
+  }
+
+  async updateMeeting(_meeting: Pick<Meeting, 'externalId'>, request: MeetingRequest): Promise<Meeting> {
+    return this.createMeeting(request)
+  }
+
+  async deleteMeeting(): Promise<void> {
+    // The room belongs to the organizer and outlives the booking
+  }
+}
+
+interface GeneratedRoomProviderOptions {
+  /** Rooms are created on first join under this URL */
+  baseUrl?: string
+  /** Room names start with this, e.g. to group them on a self-hosted server */
+  prefix?: string
+  randomId?: () => string
+}
+
+const randomRoomId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('')
+
+export class GeneratedRoomProvider implements ConferencingProvider {
+  readonly name = 'generated'
+
+  private baseUrl: string
+  private prefix: string
+  private randomId: () => string
+
+  constructor({ baseUrl = 'https://meet.jit.si', prefix = 'schedlyx', randomId = randomRoomId }: GeneratedRoomProviderOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.prefix = prefix
+    this.randomId = randomId
+  }
+
+  async createMeeting(): Promise<Meeting> {
+    const room = `${this.prefix}-${this.randomId()}`
+    return { joinUrl: `${this.baseUrl}/${room}`, externalId: room }
+  }
+
+  async updateMeeting(): Promise<Meeting> {
+    return this.createMeeting()
+  }
+
+  async deleteMeeting(): Promise<void> {
+    // Public rooms can't be deleted and open again for anyone with the
+    // link; the booking just stops sharing it
+  }
+}
+
+interface InMemoryConferencingProviderOptions {
+  /** Reject calls this returns an error for; everything succeeds by default */
+  fail?: (subject: MeetingRequest | Pick<Meeting, 'externalId'>) => string | undefined
+}
+
+interface StoredMeeting {
+  request: MeetingRequest
+  meeting: Meeting
+}
+
+/**
+ * Keeps meetings in `meetings` instead of creating them anywhere; revoked
+ * ones are removed. Links use the reserved .test domain.
+ */
+export class InMemoryConferencingProvider implements ConferencingProvider {
+  readonly name = 'in-memory'
+  readonly meetings = new Map<string, StoredMeeting>()
+
+  private nextId = 1
+
+  constructor(private options: InMemoryConferencingProviderOptions = {}) {}
+
+  /** Whether a join link leads to a meeting that hasn't been revoked */
+  isActive(joinUrl: string): boolean {
+    return [...this.meetings.values()].some(stored => stored.meeting.joinUrl === joinUrl)
+  }
+
+  async createMeeting(request: MeetingRequest): Promise<Meeting> {
+    this.check(request)
+
+    const externalId = `meeting-${this.nextId++}`
+    const meeting = { joinUrl: `https://meet.schedlyx.test/${externalId}`, externalId }
+    this.meetings.set(externalId, { request, meeting })
+    return meeting
+  }
+
+  async updateMeeting(meeting: Pick<Meeting, 'externalId'>, request: MeetingRequest): Promise<Meeting> {
+    this.check(request)
+
+    const stored = meeting.externalId ? this.meetings.get(meeting.externalId) : undefined
+    if (!stored) {
+      return this.createMeeting(request)
+    }
+    stored.request = request
+    return stored.meeting
+  }
+
+  async deleteMeeting(meeting: Pick<Meeting, 'externalId'>): Promise<void> {
+    this.check(meeting)
+
+    if (meeting.externalId) {
+      this.meetings.delete(meeting.externalId)
+    }
+  }
+
+  private check(subject: MeetingRequest | Pick<Meeting, 'externalId'>) {
+    const error = this.options.fail?.(subject)
+    if (error) {
+      throw new Error(error)
+    }
+  }
+}
+
+const providers = new Map<string, ConferencingProvider>([
+  ['static', new StaticRoomProvider()],
+  ['generated', new GeneratedRoomProvider()]
+])
+
+/**
+ * The provider registered under an event's conferencing_provider
+ *
+ * @throws when none is registered, rather than handing attendees a link
+ * that leads nowhere
+ */
+export function getConferencingProvider(name: string): ConferencingProvider {
+  const provider = providers.get(name)
+  if (!provider) {
+    throw new Error(`Meeting links from ${name} are not set up`)
+  }
+  return provider
+}
+
+/**
+ * Replace a built-in provider, e.g. 'generated' with a self-hosted room
+ * server, or the in-memory one in development
+ */
+export function setConferencingProvider(provider: ConferencingProvider, name: ConferencingProviderName): void {
+  providers.set(name, provider)
+}
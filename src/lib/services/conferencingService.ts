@@ -0,0 +1,123 @@
+// src/lib/services/conferencingService.ts
+// Meeting link worker
+//
+// Bookings of events with a conferencing provider are marked by
+// track_booking_meeting (see 20240214000000_booking_meetings.sql):
+// pending when the booking is confirmed or moves, revoking when it is
+// cancelled. processMeetings claims those bookings and asks the provider
+// named on each to create, regenerate or revoke its meeting, then records
+// the outcome. Failed calls are recorded on the booking and retried on
+// the next run.
+//
+// The RPCs are granted to the service role only, so callers pass a
+// service-role client: api/process-meetings.ts on a schedule, and
+// api/booking-meeting.ts for one booking right after it is completed so
+// the link is on the confirmation page. For that reason this module
+// doesn't import the app's client.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: claim_booking_meetings, complete_booking_meeting
+// - Migration: 20240214000000_booking_meetings.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ConferencingProvider, getConferencingProvider } from './conferencingProvider'
+import type { BookingMeetingClaim, CompleteBookingMeetingArgs } from '../../types/database'
+import type { Meeting, MeetingRequest, MeetingRunReport } from '../../types/conferencing'
+
+type RpcClient = Pick<SupabaseClient, 'rpc'>
+
+export interface ProcessMeetingsOptions {
+  /** A service-role client */
+  client: RpcClient
+  /** Defaults to the providers registered by name; throws for names without one */
+  getProvider?: (name: string) => ConferencingProvider
+  /** Most bookings to claim in one run */
+  limit?: number
+  /** Only this booking, e.g. right after it was completed */
+  bookingId?: string
+}
+
+export function toMeetingRequest(claim: BookingMeetingClaim): MeetingRequest {
+  return {
+    bookingId: claim.booking_id,
+    bookingReference: claim.booking_reference,
+    title: claim.event_title,
+    start: claim.start_time,
+    end: claim.end_time,
+    hostEmail: claim.host_email,
+    attendeeEmail: claim.attendee_email,
+    roomUrl: claim.room_url
+  }
+}
+
+export class ConferencingService {
+  /**
+   * Create, regenerate and revoke due meetings once
+   */
+  static async processMeetings({
+    client,
+    getProvider = getConferencingProvider,
+    limit = 20,
+    bookingId
+  }: ProcessMeetingsOptions): Promise<MeetingRunReport> {
+    const { data, error } = await client.rpc('claim_booking_meetings', {
+      p_limit: limit,
+      p_booking_id: bookingId ?? null
+    })
+
+    if (error) {
+      console.error('claim_booking_meetings RPC error:', error)
+      throw new Error(error.message)
+    }
+
+    const report: MeetingRunReport = { created: 0, updated: 0, revoked: 0, failed: 0 }
+
+    for (const claim of (data || []) as BookingMeetingClaim[]) {
+      const args: CompleteBookingMeetingArgs = {
+        p_booking_id: claim.booking_id,
+        p_calendar_sequence: claim.calendar_sequence
+      }
+      let outcome: keyof MeetingRunReport
+
+      try {
+        // Unregistered providers fail here, so the error is recorded
+        const provider = getProvider(claim.meeting_provider)
+
+        if (claim.meeting_status === 'revoking') {
+          await provider.deleteMeeting({ externalId: claim.meeting_external_id })
+          outcome = 'revoked'
+        } else {
+          const request = toMeetingRequest(claim)
+          let meeting: Meeting
+
+          // Moved bookings keep the provider's ID of their meeting
+          if (claim.meeting_external_id) {
+            meeting = await provider.updateMeeting({ externalId: claim.meeting_external_id }, request)
+            outcome = 'updated'
+          } else {
+            meeting = await provider.createMeeting(request)
+            outcome = 'created'
+          }
+
+          args.p_meeting_url = meeting.joinUrl
+          args.p_external_id = meeting.externalId
+        }
+      } catch (err) {
+        args.p_error = err instanceof Error ? err.message : String(err)
+        outcome = 'failed'
+      }
+
+      const { error: completeError } = await client.rpc('complete_booking_meeting', args)
+
+      if (completeError) {
+        // The claim lease runs out and the booking is picked up again
+        console.error('complete_booking_meeting RPC error:', completeError)
+        continue
+      }
+
+      report[outcome]++
+    }
+
+    return report
+  }
+}
@@ -0,0 +1,124 @@
+// src/lib/services/emailProvider.ts
+// Pluggable email providers for the outbox worker
+//
+// A provider delivers one rendered message and resolves with the
+// provider's message ID, or rejects when delivery failed; the worker
+// decides whether to retry. Messages with an invite carry it as a
+// text/calendar part (invite.contentType), which is what makes mail
+// clients show it as a meeting request. ResendEmailProvider sends through
+// Resend's HTTP API; InMemoryEmailProvider is the local SMTP stand-in used
+// in development and tests.
+
+import type { RenderedEmail } from '../emailTemplates'
+
+export interface EmailMessage extends RenderedEmail {
+  to: string
+  toName?: string
+  /** Outbox row ID, so providers that support it can deduplicate retries */
+  idempotencyKey: string
+}
+
+export interface EmailProvider {
+  readonly name: string
+
+  /**
+   * @returns The provider's ID for the delivered message
+   * @throws when the message could not be delivered
+   */
+  send(message: EmailMessage): Promise<string>
+}
+
+interface InMemoryEmailProviderOptions {
+  /** Reject messages this returns an error for; everything is delivered by default */
+  fail?: (message: EmailMessage) => string | undefined
+}
+
+/**
+ * Keeps delivered messages in `sent` instead of sending them. Like an SMTP
+ * catcher, it never reaches a real inbox.
+ */
+export class InMemoryEmailProvider implements EmailProvider {
+  readonly name = 'in-memory'
+  readonly sent: (EmailMessage & { messageId: string })[] = []
+
+  private nextId = 1
+
+  constructor(private options: InMemoryEmailProviderOptions = {}) {}
+
+  async send(message: EmailMessage): Promise<string> {
+    const error = this.options.fail?.(message)
+    if (error) {
+      throw new Error(error)
+    }
+
+    const messageId = `<local-${this.nextId++}@schedlyx.test>`
+    this.sent.push({ ...message, messageId })
+    return messageId
+  }
+}
+
+interface ResendEmailProviderOptions {
+  apiKey: string
+  /** Sender, e.g. "Schedlyx <bookings@example.com>" */
+  from: string
+  fetch?: typeof fetch
+}
+
+const toBase64 = (text: string) =>
+  btoa(Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join(''))
+
+/**
+ * Sends through the Resend API (https://resend.com/docs/api-reference/emails/send-email).
+ * The outbox row ID is the idempotency key, so a retried send after a lost
+ * response isn't delivered twice.
+ */
+export class ResendEmailProvider implements EmailProvider {
+  readonly name = 'resend'
+
+  constructor(private options: ResendEmailProviderOptions) {}
+
+  async send(message: EmailMessage): Promise<string> {
+    const request = this.options.fetch || fetch
+    const response = await request('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.options.apiKey}`,
+        'Content-Type': 'application/json',
+        'Idempotency-Key': message.idempotencyKey
+      },
+      body: JSON.stringify({
+        from: this.options.from,
+        to: [message.toName ? `${message.toName} <${message.to}>` : message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.invite
+          ? [{
+              filename: 'invite.ics',
+              content: toBase64(message.invite.content),
+              content_type: message.invite.contentType
+            }]
+          : undefined
+      })
+    })
+
+    const body = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(body?.message || `Resend responded with ${response.status}`)
+    }
+    return body.id
+  }
+}
+
+let activeProvider: EmailProvider = new InMemoryEmailProvider()
+
+export function getEmailProvider(): EmailProvider {
+  return activeProvider
+}
+
+/**
+ * Swap the provider the outbox worker sends through, e.g. at start-up
+ */
+export function setEmailProvider(provider: EmailProvider): void {
+  activeProvider = provider
+}
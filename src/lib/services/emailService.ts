@@ -0,0 +1,135 @@
+// src/lib/services/emailService.ts
+// Email outbox worker
+//
+// Booking changes and waitlist offers queue emails in email_outbox inside
+// the same transaction (see 20240206000000_email_outbox.sql). processOutbox
+// claims due emails, renders their template and sends them through the
+// email provider, then records each outcome: sent emails are marked on the
+// attendee's notification, failed ones are retried with exponential
+// backoff until MAX_ATTEMPTS is reached. Each run first queues the booking reminders
+// that have come due (see 20240207000000_booking_reminders.sql).
+//
+// The outbox RPCs are granted to the service role only, so the worker runs
+// with a service-role client from api/process-notifications.ts on a
+// schedule, never from the browser. For that reason this module doesn't
+// import the app's client.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: enqueue_due_reminders, claim_email_outbox, complete_email_delivery
+// - Migrations: 20240206000000_email_outbox.sql, 20240207000000_booking_reminders.sql,
+//   20240225000000_waitlist_offer_emails.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { renderOutboxEmail } from '../emailTemplates'
+import { getEmailProvider, EmailProvider } from './emailProvider'
+import type { EmailOutbox } from '../../types/database'
+
+export interface ProcessOutboxOptions {
+  /** A service-role client */
+  client: Pick<SupabaseClient, 'rpc'>
+  provider?: EmailProvider
+  /** Most emails to claim in one run */
+  limit?: number
+  appUrl?: string
+  now?: Date
+}
+
+export interface OutboxRunReport {
+  /** Reminders that came due and were queued */
+  reminders: number
+  sent: number
+  /** Failed this time, scheduled to try again */
+  retrying: number
+  /** Failed for the last time */
+  failed: number
+}
+
+export class EmailService {
+  static readonly MAX_ATTEMPTS = 5
+
+  /**
+   * Minutes to wait before retrying after the given attempt failed:
+   * 1, 2, 4, 8... capped at a day
+   */
+  static retryDelayMinutes(attempt: number): number {
+    return Math.min(2 ** Math.max(0, attempt - 1), 24 * 60)
+  }
+
+  /**
+   * When to retry an email whose latest attempt failed, or null to give up
+   */
+  static nextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+    if (attempts >= this.MAX_ATTEMPTS) return null
+    return new Date(now.getTime() + this.retryDelayMinutes(attempts) * 60 * 1000)
+  }
+
+  /**
+   * Deliver due outbox emails once. Call it on a schedule.
+   */
+  static async processOutbox({
+    client,
+    provider = getEmailProvider(),
+    limit = 20,
+    appUrl = '',
+    now = new Date()
+  }: ProcessOutboxOptions): Promise<OutboxRunReport> {
+    const { data: reminders, error: remindersError } = await client.rpc('enqueue_due_reminders')
+
+    if (remindersError) {
+      // Reminders are picked up on the next run; deliver what's queued
+      console.error('enqueue_due_reminders RPC error:', remindersError)
+    }
+
+    const { data, error } = await client.rpc('claim_email_outbox', { p_limit: limit })
+
+    if (error) {
+      console.error('claim_email_outbox RPC error:', error)
+      throw new Error(error.message)
+    }
+
+    const report: OutboxRunReport = { reminders: reminders || 0, sent: 0, retrying: 0, failed: 0 }
+
+    for (const email of (data || []) as EmailOutbox[]) {
+      let messageId: string | null = null
+      let sendError: string | null = null
+
+      try {
+        const rendered = renderOutboxEmail(email, { appUrl, now })
+        messageId = await provider.send({
+          ...rendered,
+          to: email.recipient_email,
+          toName: email.recipient_name,
+          idempotencyKey: email.id
+        })
+      } catch (err) {
+        sendError = err instanceof Error ? err.message : String(err)
+      }
+
+      const retryAt = sendError ? this.nextAttemptAt(email.attempts, now) : null
+
+      const { error: completeError } = await client.rpc('complete_email_delivery', {
+        p_email_id: email.id,
+        p_sent: !sendError,
+        p_provider_message_id: messageId,
+        p_error: sendError,
+        p_retry_at: retryAt?.toISOString() ?? null
+      })
+
+      if (completeError) {
+        // The claim lease runs out and the email is picked up again
+        console.error('complete_email_delivery RPC error:', completeError)
+        continue
+      }
+
+      if (!sendError) {
+        report.sent++
+      } else if (retryAt) {
+        report.retrying++
+      } else {
+        report.failed++
+      }
+    }
+
+    return report
+  }
+}
@@ -0,0 +1,337 @@
+// src/lib/services/icsImportService.ts
+// Imports busy time from ICS files and subscription feeds
+//
+// importFeed parses an ICS file (lib/ical), expands its events into busy
+// time over the coming weeks and replaces the feed's calendar_busy_blocks
+// with it. Uploaded files are imported once from the browser. URL feeds
+// are only fetched on the server, since most calendar hosts don't allow
+// cross-origin requests: refreshDueFeeds runs from api/refresh-feeds.ts on
+// a schedule, and api/refresh-feed.ts refreshes one feed for its owner.
+// Failed imports are recorded on the feed and keep the previous blocks;
+// the database backs off before the next attempt. Callers pass the client,
+// so the server doesn't load the app's.
+//
+// Feed URLs are user input fetched from inside our network, so only
+// public https hosts are fetched: each URL, including every redirect, must
+// resolve to public addresses only. Fetches time out and stop reading
+// past MAX_FEED_BYTES, so one slow or huge feed can't stall a run.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: replace_feed_busy_blocks
+// - Migrations: 20240211000000_ics_busy_feeds.sql, 20240220000000_feed_refresh_schedule.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { icsBusyIntervals, parseIcs } from '../ical'
+import type { CalendarFeed } from '../../types/database'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ImportIcsOptions {
+  /** The owner's client, or a service-role client */
+  client: Pick<SupabaseClient, 'rpc'>
+  now?: Date
+  /** How far ahead to import busy time */
+  windowDays?: number
+  /** Zone for floating times and all-day events, normally the owner's */
+  timeZone?: string
+}
+
+export interface RefreshFeedOptions extends ImportIcsOptions {
+  fetch?: typeof fetch
+  /** Addresses a host name resolves to, e.g. with node:dns */
+  lookup: (hostname: string) => Promise<string[]>
+  /** Give up on a host that hasn't answered in this long */
+  timeoutMs?: number
+  /** Largest feed to read */
+  maxBytes?: number
+}
+
+export interface FeedRefreshReport {
+  refreshed: number
+  failed: number
+}
+
+/**
+ * webcal:// is how calendar apps advertise subscriptions; it's plain HTTPS
+ */
+export function feedFetchUrl(sourceUrl: string): string {
+  return sourceUrl.replace(/^webcal:\/\//i, 'https://')
+}
+
+/**
+ * Whether an IPv4 or IPv6 address is loopback, private, link-local or
+ * otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase()
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  const v4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])]
+    return a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && Number(v4[3]) === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+  }
+
+  if (!ip.includes(':')) return true
+
+  return ip === '::' ||
+    ip === '::1' ||
+    /^f[cd]/.test(ip) ||
+    /^fe[89ab]/.test(ip) ||
+    /^ff/.test(ip)
+}
+
+/**
+ * The URL to fetch for a feed, once it is https and its host resolves to
+ * public addresses only
+ *
+ * @throws when the URL may not be fetched
+ */
+export async function checkFeedUrl(
+  url: string,
+  lookup: RefreshFeedOptions['lookup']
+): Promise<URL> {
+  let parsed: URL
+  try {
+    parsed = new URL(feedFetchUrl(url))
+  } catch {
+    throw new Error('The calendar URL is not valid')
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new Error('Calendar URLs must start with https:// or webcal://')
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  const isAddress = /^[\d.]+$/.test(host) || host.includes(':')
+
+  let addresses: string[]
+  try {
+    addresses = isAddress ? [host] : await lookup(host)
+  } catch {
+    addresses = []
+  }
+
+  if (addresses.length === 0) {
+    throw new Error(`The calendar host ${host} could not be found`)
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`The calendar host ${host} is not on the public internet`)
+  }
+
+  return parsed
+}
+
+/**
+ * Read a response body as text, giving up once it passes maxBytes
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  const tooLarge = () => new Error(`The calendar is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`)
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let received = 0
+  let text = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    received += value.byteLength
+    if (received > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+
+  return text + decoder.decode()
+}
+
+export class IcsImportService {
+  static readonly FETCH_TIMEOUT_MS = 15_000
+  static readonly MAX_FEED_BYTES = 5 * 1024 * 1024
+  static readonly MAX_REDIRECTS = 3
+
+  /**
+   * Replace a feed's busy blocks with the events of an ICS file
+   *
+   * @returns Number of busy blocks stored
+   * @throws when the file is not an iCalendar file or the import fails
+   */
+  static async importFeed(
+    feed: Pick<CalendarFeed, 'id'>,
+    ics: string,
+    { client, now = new Date(), windowDays = 90, timeZone = 'UTC' }: ImportIcsOptions
+  ): Promise<number> {
+    if (!/BEGIN:VCALENDAR/i.test(ics)) {
+      await this.recordFailure(client, feed, 'The file is not an iCalendar (.ics) file')
+      throw new Error('The file is not an iCalendar (.ics) file')
+    }
+
+    const intervals = icsBusyIntervals(parseIcs(ics), {
+      from: now,
+      to: new Date(now.getTime() + windowDays * DAY_MS),
+      timeZone
+    })
+
+    const { data, error } = await client.rpc('replace_feed_busy_blocks', {
+      p_feed_id: feed.id,
+      p_blocks: intervals.map(interval => ({
+        external_event_id: interval.id,
+        title: interval.title || null,
+        start_time: interval.start,
+        end_time: interval.end
+      })),
+      p_error: null
+    })
+
+    if (error) {
+      console.error('replace_feed_busy_blocks RPC error:', error)
+      throw new Error(error.message)
+    }
+
+    return data ?? intervals.length
+  }
+
+  /**
+   * Fetch a URL feed and import it
+   */
+  static async refreshFeed(
+    feed: Pick<CalendarFeed, 'id' | 'source_url'>,
+    {
+      fetch: fetchFn = globalThis.fetch,
+      lookup,
+      timeoutMs = this.FETCH_TIMEOUT_MS,
+      maxBytes = this.MAX_FEED_BYTES,
+      ...options
+    }: RefreshFeedOptions
+  ): Promise<number> {
+    if (!feed.source_url) {
+      throw new Error('Uploaded calendars cannot be refreshed; upload the file again')
+    }
+
+    let ics: string
+    try {
+      const signal = AbortSignal.timeout(timeoutMs)
+      let url = await checkFeedUrl(feed.source_url, lookup)
+      let response: Response
+
+      // Redirects are followed here so each hop is checked like the first
+      for (let redirects = 0; ; redirects++) {
+        response = await fetchFn(url.href, {
+          headers: { Accept: 'text/calendar' },
+          redirect: 'manual',
+          signal
+        })
+
+        const location = response.headers.get('location')
+        if (response.status < 300 || response.status >= 400 || !location) break
+
+        await response.body?.cancel()
+        if (redirects >= this.MAX_REDIRECTS) {
+          throw new Error('The calendar host redirected too many times')
+        }
+        url = await checkFeedUrl(new URL(location, url).href, lookup)
+      }
+
+      if (!response.ok) {
+        throw new Error(`The calendar host answered ${response.status}`)
+      }
+      ics = await readCapped(response, maxBytes)
+    } catch (err) {
+      const message = err instanceof Error && err.name === 'TimeoutError'
+        ? 'The calendar host took too long to answer'
+        : err instanceof Error ? err.message : String(err)
+      await this.recordFailure(options.client, feed, message)
+      throw new Error(message)
+    }
+
+    return this.importFeed(feed, ics, options)
+  }
+
+  /**
+   * Refresh enabled URL feeds whose next fetch has come due. Call it on a
+   * schedule with a service-role client.
+   */
+  static async refreshDueFeeds({
+    client,
+    now = new Date(),
+    limit = 50,
+    ...options
+  }: RefreshFeedOptions & {
+    client: Pick<SupabaseClient, 'rpc' | 'from'>
+    /** Most feeds to fetch in one run */
+    limit?: number
+  }): Promise<FeedRefreshReport> {
+    const { data, error } = await client
+      .from('calendar_feeds')
+      .select('*, owner:profiles(timezone)')
+      .eq('is_enabled', true)
+      .not('source_url', 'is', null)
+      .or(`next_fetch_at.is.null,next_fetch_at.lte.${now.toISOString()}`)
+      .order('next_fetch_at', { ascending: true, nullsFirst: true })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error loading calendar feeds:', error)
+      throw new Error(error.message)
+    }
+
+    const due = (data || []) as (CalendarFeed & { owner?: { timezone?: string } | null })[]
+
+    const report: FeedRefreshReport = { refreshed: 0, failed: 0 }
+
+    for (const feed of due) {
+      try {
+        await this.refreshFeed(feed, {
+          ...options,
+          client,
+          now,
+          timeZone: feed.owner?.timezone || options.timeZone
+        })
+        report.refreshed++
+      } catch (err) {
+        console.error(`Calendar feed ${feed.id} refresh failed:`, err)
+        report.failed++
+      }
+    }
+
+    return report
+  }
+
+  private static async recordFailure(
+    client: Pick<SupabaseClient, 'rpc'>,
+    feed: Pick<CalendarFeed, 'id'>,
+    message: string
+  ): Promise<void> {
+    const { error } = await client.rpc('replace_feed_busy_blocks', {
+      p_feed_id: feed.id,
+      p_blocks: [],
+      p_error: message
+    })
+
+    if (error) {
+      console.error('replace_feed_busy_blocks RPC error:', error)
+    }
+  }
+}
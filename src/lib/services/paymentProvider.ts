@@ -0,0 +1,136 @@
+// src/lib/services/paymentProvider.ts
+// Pluggable payment providers for paid slots
+//
+// A provider creates a payment for the amount start_slot_payment computed,
+// collects it, and reports the outcome as a PaymentWebhookEvent. Real
+// providers deliver that event to their webhook handler, which settles it
+// server-side with the service role; FakePaymentProvider settles in the
+// browser, which confirm_slot_payment allows only for provider 'fake' and
+// only while the database has app.fake_payments on (development).
+// Refunds work the same way through refundPayment and confirm_refund.
+//
+// No provider is active by default, so paid slots can't be checked out
+// until the app registers one with setPaymentProvider.
+
+import type {
+  PaymentIntent,
+  PaymentRequest,
+  PaymentWebhookEvent,
+  RefundRequest,
+  RefundWebhookEvent
+} from '../../types/booking'
+
+export interface PaymentProvider {
+  /** Stored as payments.provider */
+  readonly name: string
+
+  createPayment(request: PaymentRequest): Promise<PaymentIntent>
+
+  /**
+   * Collects the payment and resolves with the event the provider
+   * reports for it. Declined payments resolve with status 'failed'.
+   */
+  capturePayment(intent: PaymentIntent): Promise<PaymentWebhookEvent>
+
+  /**
+   * Sends money back for a captured payment. Rejected refunds resolve
+   * with status 'failed'.
+   */
+  refundPayment(request: RefundRequest): Promise<RefundWebhookEvent>
+}
+
+interface FakePaymentProviderOptions {
+  /** Decline payments this returns true for; nothing is declined by default */
+  decline?: (request: PaymentRequest) => boolean
+  failureReason?: string
+  /** Reject refunds this returns true for; every refund succeeds by default */
+  declineRefund?: (request: RefundRequest) => boolean
+}
+
+/**
+ * In-memory provider for development and tests. Never charges anyone.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake'
+
+  private requests = new Map<string, PaymentRequest>()
+  private nextId = 1
+
+  constructor(private options: FakePaymentProviderOptions = {}) {}
+
+  async createPayment(request: PaymentRequest): Promise<PaymentIntent> {
+    const providerPaymentId = `fake_pay_${this.nextId++}`
+    this.requests.set(providerPaymentId, request)
+
+    return {
+      paymentId: request.paymentId,
+      providerPaymentId,
+      clientSecret: `${providerPaymentId}_secret`
+    }
+  }
+
+  async capturePayment(intent: PaymentIntent): Promise<PaymentWebhookEvent> {
+    const request = this.requests.get(intent.providerPaymentId)
+
+    if (!request) {
+      return {
+        paymentId: intent.paymentId,
+        providerPaymentId: intent.providerPaymentId,
+        status: 'failed',
+        failureReason: 'Unknown payment'
+      }
+    }
+
+    this.requests.delete(intent.providerPaymentId)
+
+    if (this.options.decline?.(request)) {
+      return {
+        paymentId: intent.paymentId,
+        providerPaymentId: intent.providerPaymentId,
+        status: 'failed',
+        failureReason: this.options.failureReason || 'Your card was declined'
+      }
+    }
+
+    return {
+      paymentId: intent.paymentId,
+      providerPaymentId: intent.providerPaymentId,
+      status: 'paid'
+    }
+  }
+
+  async refundPayment(request: RefundRequest): Promise<RefundWebhookEvent> {
+    if (this.options.declineRefund?.(request)) {
+      return {
+        refundId: request.refundId,
+        status: 'failed',
+        failureReason: 'The refund was rejected'
+      }
+    }
+
+    return {
+      refundId: request.refundId,
+      providerRefundId: `fake_refund_${this.nextId++}`,
+      status: 'succeeded'
+    }
+  }
+}
+
+let activeProvider: PaymentProvider | null = null
+
+/**
+ * @throws Error if no provider has been registered
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!activeProvider) {
+    throw new Error('Online payments are not available for this booking page')
+  }
+  return activeProvider
+}
+
+/**
+ * Swap the provider used for checkout, e.g. at app start-up
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  activeProvider = provider
+}
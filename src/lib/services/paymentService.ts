@@ -0,0 +1,209 @@
+// src/lib/services/paymentService.ts
+// Checkout for paid slots
+//
+// Paid slots are not booked through BookingService.completeBooking. Once
+// the invitee's details are in, startCheckout records a pending payment
+// (extending the slot lock while it is pending) and opens it with the
+// payment provider. payCheckout collects the payment and hands the
+// provider's outcome to handleWebhook, which creates the booking as paid,
+// or records the failure, in a single transaction.
+//
+// Refunds are recorded by the server when a paid booking is cancelled
+// (see 20240205000000_booking_refunds.sql) and sent by the refund worker
+// (refundProcessingService.ts); handleRefundWebhook settles an outcome the
+// provider reports later.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: start_slot_payment, confirm_slot_payment, confirm_refund
+// - Migrations: 20240204000000_booking_payments.sql, 20240205000000_booking_refunds.sql
+
+import { supabase } from '../supabase'
+import { BookingService, BookingError, BookingErrorType } from './bookingService'
+import { getPaymentProvider, PaymentProvider } from './paymentProvider'
+import type {
+  BookingFormData,
+  CheckoutSession,
+  ConfirmedBooking,
+  PaymentWebhookEvent,
+  RefundWebhookEvent
+} from '../../types/booking'
+
+export class PaymentService {
+  /**
+   * Start checkout for a held lock on a paid slot. The amount is
+   * computed server-side from the slot price and locked quantity.
+   *
+   * @throws BookingError if the lock is gone or the details are incomplete
+   */
+  static async startCheckout(
+    lockId: string,
+    formData: BookingFormData,
+    quantity: number,
+    timeZone?: string,
+    provider: PaymentProvider = getPaymentProvider()
+  ): Promise<CheckoutSession> {
+    const { data, error } = await supabase.rpc('start_slot_payment', {
+      p_lock_id: lockId,
+      p_provider: provider.name,
+      p_first_name: formData.firstName,
+      p_last_name: formData.lastName,
+      p_email: formData.email,
+      p_phone: formData.phone || null,
+      p_notes: formData.notes || null,
+      p_quantity: quantity,
+      p_timezone: timeZone || null,
+      p_custom_responses: formData.customResponses || {},
+      p_sms_opt_in: !!formData.smsOptIn
+    })
+
+    if (error) {
+      console.error('start_slot_payment RPC error:', error)
+
+      const errorMsg = error.message.toLowerCase()
+
+      if (errorMsg.includes('lock is invalid')) {
+        throw new BookingError(
+          BookingErrorType.LOCK_EXPIRED,
+          'Your reservation has expired. Please select a new time slot.',
+          { lockId }
+        )
+      }
+
+      if (errorMsg.includes('answer required') || errorMsg.includes('invalid answer')) {
+        throw new BookingError(BookingErrorType.INVALID_RESPONSES, error.message, { lockId })
+      }
+
+      if (errorMsg.includes('phone number')) {
+        throw new BookingError(BookingErrorType.INVALID_PHONE, error.message, { lockId })
+      }
+
+      if (errorMsg.includes('quantity')) {
+        throw new BookingError(BookingErrorType.INVALID_QUANTITY, error.message, { lockId, quantity })
+      }
+
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        error.message,
+        { code: error.code }
+      )
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row) {
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Checkout could not be started',
+        { lockId }
+      )
+    }
+
+    const amount = Number(row.amount)
+    const intent = await provider.createPayment({
+      paymentId: row.payment_id,
+      amount,
+      currency: row.currency,
+      description: `Booking for ${quantity} seat${quantity > 1 ? 's' : ''}`,
+      email: formData.email
+    })
+
+    return {
+      provider: provider.name,
+      intent,
+      amount,
+      currency: row.currency,
+      lockExpiresAt: row.lock_expires_at
+    }
+  }
+
+  /**
+   * Settle a payment from the provider's outcome. Safe to repeat, as
+   * providers retry webhooks.
+   *
+   * @returns The booking ID once paid; null if the payment failed, or
+   *          was paid after the reservation had already expired
+   */
+  static async handleWebhook(event: PaymentWebhookEvent): Promise<string | null> {
+    const { data, error } = await supabase.rpc('confirm_slot_payment', {
+      p_payment_id: event.paymentId,
+      p_status: event.status,
+      p_provider_payment_id: event.providerPaymentId,
+      p_failure_reason: event.failureReason || null
+    })
+
+    if (error) {
+      console.error('confirm_slot_payment RPC error:', error)
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        error.message,
+        { code: error.code, paymentId: event.paymentId }
+      )
+    }
+
+    return data ?? null
+  }
+
+  /**
+   * Collect payment for a checkout and return the booking it created.
+   * A declined payment leaves the lock held so the invitee can retry.
+   *
+   * @throws BookingError PAYMENT_FAILED if the provider declined the payment
+   */
+  static async payCheckout(
+    checkout: CheckoutSession,
+    provider: PaymentProvider = getPaymentProvider()
+  ): Promise<ConfirmedBooking> {
+    if (provider.name !== checkout.provider) {
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        `Checkout was started with ${checkout.provider}, not ${provider.name}`,
+        { paymentId: checkout.intent.paymentId }
+      )
+    }
+
+    const event = await provider.capturePayment(checkout.intent)
+    const bookingId = await this.handleWebhook(event)
+
+    if (event.status === 'failed') {
+      throw new BookingError(
+        BookingErrorType.PAYMENT_FAILED,
+        event.failureReason || 'Payment failed. Please try again.',
+        { paymentId: event.paymentId }
+      )
+    }
+
+    if (!bookingId) {
+      throw new BookingError(
+        BookingErrorType.LOCK_EXPIRED,
+        'Your reservation expired before the payment went through. The organizer will refund you.',
+        { paymentId: event.paymentId }
+      )
+    }
+
+    return BookingService.getConfirmedBooking(bookingId)
+  }
+
+  /**
+   * Settle a refund from the provider's outcome. Safe to repeat.
+   *
+   * @returns Whether the refund went through
+   */
+  static async handleRefundWebhook(event: RefundWebhookEvent): Promise<boolean> {
+    const { data, error } = await supabase.rpc('confirm_refund', {
+      p_refund_id: event.refundId,
+      p_status: event.status,
+      p_provider_refund_id: event.providerRefundId || null,
+      p_failure_reason: event.failureReason || null
+    })
+
+    if (error) {
+      console.error('confirm_refund RPC error:', error)
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        error.message,
+        { code: error.code, refundId: event.refundId }
+      )
+    }
+
+    return !!data
+  }
+}
@@ -0,0 +1,113 @@
+// src/lib/services/refundProcessingService.ts
+// Refund worker
+//
+// Refunds are recorded pending by the server: when a paid booking is
+// cancelled, declined or expires unapproved, or when the organizer refunds
+// a payment that never became a booking (see 20240205000000_booking_refunds.sql).
+// processRefunds claims pending refunds, sends each through the provider
+// that took the payment and settles the outcome with confirm_refund.
+// Refunds the provider rejects are settled as failed for the organizer to
+// retry; errors reaching the provider are retried on later runs until
+// MAX_ATTEMPTS is reached.
+//
+// The RPCs are granted to the service role only, so the worker runs with a
+// service-role client from api/process-refunds.ts on a schedule. For that
+// reason this module doesn't import the app's client.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: claim_pending_refunds, confirm_refund
+// - Migration: 20240221000000_refund_worker.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PaymentProvider } from './paymentProvider'
+import type { PendingRefundClaim } from '../../types/database'
+import type { RefundWebhookEvent } from '../../types/booking'
+
+export interface ProcessRefundsOptions {
+  /** A service-role client */
+  client: Pick<SupabaseClient, 'rpc'>
+  /** The provider that takes payments under this name, if any */
+  getProvider: (name: string) => PaymentProvider | undefined
+  /** Most refunds to claim in one run */
+  limit?: number
+}
+
+export interface RefundRunReport {
+  succeeded: number
+  /** Rejected by the provider, or given up on */
+  failed: number
+  /** Couldn't reach the provider this time */
+  retrying: number
+}
+
+export class RefundProcessingService {
+  static readonly MAX_ATTEMPTS = 5
+
+  /**
+   * Send and settle pending refunds once. Call it on a schedule.
+   */
+  static async processRefunds({
+    client,
+    getProvider,
+    limit = 20
+  }: ProcessRefundsOptions): Promise<RefundRunReport> {
+    const { data, error } = await client.rpc('claim_pending_refunds', { p_limit: limit })
+
+    if (error) {
+      console.error('claim_pending_refunds RPC error:', error)
+      throw new Error(error.message)
+    }
+
+    const report: RefundRunReport = { succeeded: 0, failed: 0, retrying: 0 }
+
+    for (const claim of (data || []) as PendingRefundClaim[]) {
+      let event: RefundWebhookEvent
+
+      try {
+        const provider = getProvider(claim.provider)
+        if (!provider) {
+          throw new Error(`Refunds through ${claim.provider} are not set up`)
+        }
+
+        event = await provider.refundPayment({
+          refundId: claim.refund_id,
+          provider: claim.provider,
+          providerPaymentId: claim.provider_payment_id || '',
+          amount: Number(claim.amount),
+          currency: claim.currency
+        })
+      } catch (err) {
+        if (claim.attempts < this.MAX_ATTEMPTS) {
+          // Claimed again once the lease runs out
+          console.error(`Refund ${claim.refund_id} not sent:`, err)
+          report.retrying++
+          continue
+        }
+
+        event = {
+          refundId: claim.refund_id,
+          status: 'failed',
+          failureReason: err instanceof Error ? err.message : String(err)
+        }
+      }
+
+      const { error: confirmError } = await client.rpc('confirm_refund', {
+        p_refund_id: event.refundId,
+        p_status: event.status,
+        p_provider_refund_id: event.providerRefundId || null,
+        p_failure_reason: event.failureReason || null
+      })
+
+      if (confirmError) {
+        // Providers deduplicate by refund ID, so sending it again is safe
+        console.error('confirm_refund RPC error:', confirmError)
+        report.retrying++
+        continue
+      }
+
+      report[event.status]++
+    }
+
+    return report
+  }
+}
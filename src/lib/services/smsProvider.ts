@@ -0,0 +1,108 @@
+// src/lib/services/smsProvider.ts
+// Pluggable SMS providers for the outbox worker
+//
+// Same contract as EmailProvider: a provider delivers one message and
+// resolves with the provider's message ID, or rejects when delivery
+// failed. TwilioSmsProvider sends through Twilio's REST API;
+// FakeSmsProvider records messages instead of sending them and is used in
+// development and tests.
+
+export interface SmsMessage {
+  /** E.164 */
+  to: string
+  body: string
+  /** Outbox row ID, so providers that support it can deduplicate retries */
+  idempotencyKey: string
+}
+
+export interface SmsProvider {
+  readonly name: string
+
+  /**
+   * @returns The provider's ID for the delivered message
+   * @throws when the message could not be delivered
+   */
+  send(message: SmsMessage): Promise<string>
+}
+
+interface FakeSmsProviderOptions {
+  /** Reject messages this returns an error for; everything is delivered by default */
+  fail?: (message: SmsMessage) => string | undefined
+}
+
+/**
+ * Keeps delivered messages in `sent`; never reaches a real phone
+ */
+export class FakeSmsProvider implements SmsProvider {
+  readonly name = 'fake'
+  readonly sent: (SmsMessage & { messageId: string })[] = []
+
+  private nextId = 1
+
+  constructor(private options: FakeSmsProviderOptions = {}) {}
+
+  async send(message: SmsMessage): Promise<string> {
+    const error = this.options.fail?.(message)
+    if (error) {
+      throw new Error(error)
+    }
+
+    const messageId = `fake_sms_${this.nextId++}`
+    this.sent.push({ ...message, messageId })
+    return messageId
+  }
+}
+
+interface TwilioSmsProviderOptions {
+  accountSid: string
+  authToken: string
+  /** Sending number in E.164, or a messaging service SID (MG...) */
+  from: string
+  fetch?: typeof fetch
+}
+
+/**
+ * Sends through Twilio's Messages API
+ * (https://www.twilio.com/docs/messaging/api/message-resource#create-a-message-resource)
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio'
+
+  constructor(private options: TwilioSmsProviderOptions) {}
+
+  async send(message: SmsMessage): Promise<string> {
+    const { accountSid, authToken, from } = this.options
+    const request = this.options.fetch || fetch
+
+    const params = new URLSearchParams({ To: message.to, Body: message.body })
+    params.set(from.startsWith('MG') ? 'MessagingServiceSid' : 'From', from)
+
+    const response = await request(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: params.toString()
+    })
+
+    const body = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(body?.message || `Twilio responded with ${response.status}`)
+    }
+    return body.sid
+  }
+}
+
+let activeProvider: SmsProvider = new FakeSmsProvider()
+
+export function getSmsProvider(): SmsProvider {
+  return activeProvider
+}
+
+/**
+ * Swap the provider the outbox worker sends through, e.g. at start-up
+ */
+export function setSmsProvider(provider: SmsProvider): void {
+  activeProvider = provider
+}
@@ -0,0 +1,104 @@
+// src/lib/services/smsService.ts
+// SMS outbox worker
+//
+// Confirmations and reminders for attendees who opted in to text messages
+// are queued in sms_outbox (see 20240209000000_sms_notifications.sql).
+// processOutbox claims due texts, renders them and sends them through the
+// SMS provider, retrying failures on the same schedule as emails. Due
+// reminders are queued by the email worker's enqueue_due_reminders call,
+// so run both workers on the same schedule.
+//
+// The outbox RPCs are granted to the service role only, so the worker runs
+// with a service-role client from api/process-notifications.ts, never
+// from the browser.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: claim_sms_outbox, complete_sms_delivery
+// - Migration: 20240209000000_sms_notifications.sql
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { renderBookingSms } from '../smsTemplates'
+import { getSmsProvider, SmsProvider } from './smsProvider'
+import { EmailService } from './emailService'
+import type { SmsOutbox } from '../../types/database'
+
+export interface ProcessSmsOutboxOptions {
+  /** A service-role client */
+  client: Pick<SupabaseClient, 'rpc'>
+  provider?: SmsProvider
+  /** Most texts to claim in one run */
+  limit?: number
+  appUrl?: string
+  now?: Date
+}
+
+export interface SmsRunReport {
+  sent: number
+  /** Failed this time, scheduled to try again */
+  retrying: number
+  /** Failed for the last time */
+  failed: number
+}
+
+export class SmsService {
+  /**
+   * Deliver due outbox texts once. Call it on a schedule.
+   */
+  static async processOutbox({
+    client,
+    provider = getSmsProvider(),
+    limit = 20,
+    appUrl = '',
+    now = new Date()
+  }: ProcessSmsOutboxOptions): Promise<SmsRunReport> {
+    const { data, error } = await client.rpc('claim_sms_outbox', { p_limit: limit })
+
+    if (error) {
+      console.error('claim_sms_outbox RPC error:', error)
+      throw new Error(error.message)
+    }
+
+    const report: SmsRunReport = { sent: 0, retrying: 0, failed: 0 }
+
+    for (const sms of (data || []) as SmsOutbox[]) {
+      let messageId: string | null = null
+      let sendError: string | null = null
+
+      try {
+        messageId = await provider.send({
+          to: sms.recipient_phone,
+          body: renderBookingSms(sms.template, sms.payload, { appUrl }),
+          idempotencyKey: sms.id
+        })
+      } catch (err) {
+        sendError = err instanceof Error ? err.message : String(err)
+      }
+
+      const retryAt = sendError ? EmailService.nextAttemptAt(sms.attempts, now) : null
+
+      const { error: completeError } = await client.rpc('complete_sms_delivery', {
+        p_sms_id: sms.id,
+        p_sent: !sendError,
+        p_provider_message_id: messageId,
+        p_error: sendError,
+        p_retry_at: retryAt?.toISOString() ?? null
+      })
+
+      if (completeError) {
+        // The claim lease runs out and the text is picked up again
+        console.error('complete_sms_delivery RPC error:', completeError)
+        continue
+      }
+
+      if (!sendError) {
+        report.sent++
+      } else if (retryAt) {
+        report.retrying++
+      } else {
+        report.failed++
+      }
+    }
+
+    return report
+  }
+}
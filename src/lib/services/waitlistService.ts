@@ -0,0 +1,154 @@
+// src/lib/services/waitlistService.ts
+// Slot waitlist: joining a full slot and claiming a spot once one is offered
+//
+// Offers are made server-side. When a booking is cancelled, cancel_booking
+// runs process_waitlist, which holds the freed seats for the next entries
+// as slot locks and notifies them. Claiming an offer returns that lock, so
+// the invitee finishes through the normal BookingService.completeBooking.
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: add_to_waitlist, claim_waitlist_offer
+// - Migration: 20240130000000_slot_waitlist.sql
+
+import { supabase } from '../supabase'
+import { BookingError, BookingErrorType } from './bookingService'
+import type { WaitlistEntry, WaitlistJoinData, WaitlistOffer } from '../../types/booking'
+
+export class WaitlistService {
+  /**
+   * Join the waitlist for a slot. Joining again with the same email
+   * returns the existing entry.
+   *
+   * @param quantity - Seats wanted; the offer is made only when this many free up
+   * @throws BookingError if the slot cannot be waitlisted
+   */
+  static async joinWaitlist(
+    eventId: string,
+    slotId: string,
+    data: WaitlistJoinData,
+    quantity: number
+  ): Promise<WaitlistEntry> {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new BookingError(
+        BookingErrorType.INVALID_QUANTITY,
+        `Invalid quantity: ${quantity}. Must be a positive integer.`,
+        { quantity }
+      )
+    }
+
+    const { data: rows, error } = await supabase.rpc('add_to_waitlist', {
+      p_event_id: eventId,
+      p_slot_id: slotId,
+      p_first_name: data.firstName,
+      p_last_name: data.lastName,
+      p_email: data.email,
+      p_phone: data.phone || null,
+      p_quantity: quantity
+    })
+
+    if (error) {
+      console.error('add_to_waitlist RPC error:', error)
+      const errorMsg = error.message.toLowerCase()
+
+      if (errorMsg.includes('not found') || errorMsg.includes('past')) {
+        throw new BookingError(
+          BookingErrorType.SLOT_FULL,
+          'This time slot is no longer available for the waitlist.',
+          { slotId }
+        )
+      }
+
+      if (errorMsg.includes('quantity')) {
+        throw new BookingError(
+          BookingErrorType.INVALID_QUANTITY,
+          error.message,
+          { slotId, quantity }
+        )
+      }
+
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Failed to join the waitlist. Please try again.',
+        { code: error.code, message: error.message }
+      )
+    }
+
+    const row = Array.isArray(rows) ? rows[0] : rows
+    if (!row) {
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Invalid response from booking system',
+        { received: rows }
+      )
+    }
+
+    return {
+      id: row.waitlist_id,
+      slotId,
+      position: row.waitlist_position,
+      quantity
+    }
+  }
+
+  /**
+   * Fetch the held lock for an open waitlist offer
+   *
+   * @throws BookingError WAITLIST_OFFER_INVALID if the offer expired,
+   *         was already booked, or has not been made yet
+   */
+  static async claimOffer(waitlistId: string): Promise<WaitlistOffer> {
+    const { data, error } = await supabase.rpc('claim_waitlist_offer', {
+      p_waitlist_id: waitlistId
+    })
+
+    if (error) {
+      console.error('claim_waitlist_offer RPC error:', error)
+
+      if (error.code === 'P0001') {
+        throw new BookingError(
+          BookingErrorType.WAITLIST_OFFER_INVALID,
+          error.message,
+          { waitlistId }
+        )
+      }
+
+      throw new BookingError(
+        BookingErrorType.SYSTEM_ERROR,
+        'Failed to load your waitlist offer. Please try again.',
+        { code: error.code, message: error.message }
+      )
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row) {
+      throw new BookingError(
+        BookingErrorType.WAITLIST_OFFER_INVALID,
+        'This waitlist offer is no longer available.',
+        { waitlistId }
+      )
+    }
+
+    return {
+      waitlistId,
+      lockId: row.lock_id,
+      expiresAt: row.expires_at,
+      eventId: row.event_id,
+      slot: {
+        slotId: row.slot_id,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        totalCapacity: row.total_capacity,
+        // The held seats are the only ones this invitee can take
+        availableCount: row.quantity,
+        price: row.price
+      },
+      quantity: row.quantity,
+      contact: {
+        firstName: row.first_name,
+        lastName: row.last_name,
+        email: row.email,
+        phone: row.phone || undefined
+      }
+    }
+  }
+}
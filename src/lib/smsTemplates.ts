@@ -0,0 +1,54 @@
+// src/lib/smsTemplates.ts
+// Booking text messages, rendered by the SMS worker from the payload
+// enqueue_booking_sms stores with each outbox row. Texts stay short: the
+// email carries the full details.
+
+import { getTimeZoneAbbreviation } from './timezone'
+import { manageBookingUrl } from './emailTemplates'
+import type { BookingSmsPayload, SmsTemplate } from '../types/database'
+
+export interface SmsRenderOptions {
+  /** Base URL of the app, for the manage-booking link */
+  appUrl: string
+  appName?: string
+  /** Defaults to en-US, since the worker doesn't know the attendee's locale */
+  locale?: string
+}
+
+const TEMPLATES: Record<SmsTemplate, (payload: BookingSmsPayload, when: string) => string> = {
+  booking_confirmed: (p, when) => `You're booked for ${p.event_title} on ${when}.`,
+  booking_reminder: (p, when) => `Reminder: ${p.event_title} is coming up on ${when}.`
+}
+
+/**
+ * e.g. "Thu, May 16, 9:00 AM CEST" in the booking's zone
+ */
+function formatWhen(payload: BookingSmsPayload, locale: string): string {
+  const when = new Date(payload.starts_at).toLocaleString(locale, {
+    timeZone: payload.timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+  return `${when} ${getTimeZoneAbbreviation(payload.timezone, payload.starts_at)}`
+}
+
+export function renderBookingSms(
+  template: SmsTemplate,
+  payload: BookingSmsPayload,
+  { appUrl, appName = 'Schedlyx', locale = 'en-US' }: SmsRenderOptions
+): string {
+  const parts = [`${appName}: ${TEMPLATES[template](payload, formatWhen(payload, locale))}`]
+
+  if (!payload.is_online && payload.location) {
+    parts.push(`Where: ${payload.location}.`)
+  }
+
+  parts.push(`Ref ${payload.booking_reference}.`)
+  parts.push(`Manage: ${manageBookingUrl(appUrl, payload)}`)
+
+  return parts.join(' ')
+}
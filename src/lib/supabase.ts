@@ -2,6 +2,7 @@
 // FIXED: Proper storage key migration from custom to default
 
 import { createClient } from '@supabase/supabase-js'
+import type { EventStatus } from '../types'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -180,16 +181,42 @@ export const auth = {
   }
 }
 
+/**
+ * Server-side filters for db.getEvents
+ * page is 1-based; pagination is only applied when both page and limit are set
+ */
+export interface EventQueryOptions {
+  status?: EventStatus
+  search?: string
+  page?: number
+  limit?: number
+}
+
 /**
  * Database Helper Functions
  */
 export const db = {
   // Events
-  getEvents: async (userId?: string) => {
-    let query = supabase.from('events').select('*')
+  getEvents: async (userId?: string, options: EventQueryOptions = {}) => {
+    let query = supabase
+      .from('events')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
     if (userId) {
       query = query.eq('user_id', userId)
     }
+    if (options.status) {
+      query = query.eq('status', options.status)
+    }
+    if (options.search) {
+      // Escape LIKE wildcards so the term is matched literally
+      const term = options.search.replace(/[%_\\]/g, '\\$&')
+      query = query.ilike('title', `%${term}%`)
+    }
+    if (options.page && options.limit) {
+      const from = (options.page - 1) * options.limit
+      query = query.range(from, from + options.limit - 1)
+    }
     return await query
   },
 
@@ -197,6 +224,10 @@ export const db = {
     return await supabase.from('events').select('*').eq('id', id).single()
   },
 
+  getEventBySlug: async (slug: string) => {
+    return await supabase.from('events').select('*').eq('slug', slug).single()
+  },
+
   createEvent: async (eventData: any) => {
     return await supabase.from('events').insert(eventData).select().single()
   },
@@ -209,6 +240,14 @@ export const db = {
     return await supabase.from('events').delete().eq('id', id)
   },
 
+  getEventStats: async (eventId: string) => {
+    return await supabase.rpc('get_event_stats', { p_event_id: eventId }).single()
+  },
+
+  getEventsStats: async (eventIds: string[]) => {
+    return await supabase.rpc('get_events_stats', { p_event_ids: eventIds })
+  },
+
   // Bookings
   getBookings: async (eventId?: string, userId?: string) => {
     let query = supabase.from('bookings').select('*')
@@ -248,6 +287,8 @@ export const db = {
         status,
         confirmed_at,
         created_at,
+        calendar_sequence,
+        meeting_url,
         event:events (
           id,
           title,
@@ -255,7 +296,9 @@ export const db = {
           type,
           duration,
           location,
-          is_online
+          is_online,
+          meeting_url,
+          timezone
         ),
         slot:time_slots (
           id,
@@ -0,0 +1,187 @@
+// src/lib/timezone.ts
+// IANA time zone helpers built on Intl (no tz database dependency)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes
+ * (e.g. -300 for America/New_York in winter)
+ */
+export function getTimeZoneOffset(timeZone: string, instant: Date | number): number {
+  const utcMs = typeof instant === 'number' ? instant : instant.getTime()
+  const parts = getFormatter(timeZone).formatToParts(new Date(utcMs))
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value)
+
+  const wallClockAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  )
+  // Drop sub-second precision so the difference is whole minutes
+  return Math.round((wallClockAsUtc - Math.floor(utcMs / 1000) * 1000) / 60000)
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to a UTC instant.
+ *
+ * DST handling:
+ * - Times skipped by a spring-forward transition move forward by the gap
+ *   (02:30 on the transition day in New York becomes 03:30 EDT)
+ * - Ambiguous times during a fall-back transition resolve to the earlier instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const naive = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Offsets either side of any transition on this day
+  const offsetBefore = getTimeZoneOffset(timeZone, naive - DAY_MS)
+  const offsetAfter = getTimeZoneOffset(timeZone, naive + DAY_MS)
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => naive - offset * 60000)
+    .filter(candidate => naive - getTimeZoneOffset(timeZone, candidate) * 60000 === candidate)
+
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates))
+  }
+
+  // Wall-clock time falls in a DST gap
+  return new Date(naive - offsetBefore * 60000)
+}
+
+// Used when the runtime cannot list its zones (Intl.supportedValuesOf is ES2022)
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+]
+
+/**
+ * Whether the runtime recognizes an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The browser's time zone, falling back to UTC
+ */
+export function detectTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC'
+}
+
+/**
+ * Zone names for a picker, always including the given extras
+ */
+export function getTimeZoneOptions(...include: (string | undefined)[]): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as ((key: string) => string[]) | undefined
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES
+  const extras = include.filter((zone): zone is string => !!zone && !zones.includes(zone))
+  return [...extras, ...zones]
+}
+
+/**
+ * Short zone name at an instant, e.g. "EST", "GMT+5:30"
+ */
+export function getTimeZoneAbbreviation(timeZone: string, instant: Date | string = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(instant))
+  return parts.find(part => part.type === 'timeZoneName')?.value || timeZone
+}
+
+/**
+ * Wall-clock date (YYYY-MM-DD), weekday (0 = Sunday) and minutes since
+ * midnight of an instant in a time zone
+ */
+export function getWallClock(
+  instant: Date | string,
+  timeZone: string
+): { date: string; dayOfWeek: number; minutes: number } {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant))
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || ''
+  const date = `${get('year')}-${get('month')}-${get('day')}`
+
+  return {
+    date,
+    dayOfWeek: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: Number(get('hour')) * 60 + Number(get('minute'))
+  }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function getDateInTimeZone(instant: Date | string, timeZone: string): string {
+  return getWallClock(instant, timeZone).date
+}
+
+/**
+ * Time range in a time zone using the viewer's locale, e.g. "9:00 AM - 9:30 AM"
+ */
+export function formatTimeRange(
+  startTime: string,
+  endTime: string,
+  timeZone: string,
+  locale?: string
+): string {
+  const options: Intl.DateTimeFormatOptions = { timeZone, hour: 'numeric', minute: '2-digit' }
+  return `${new Date(startTime).toLocaleTimeString(locale, options)} - ${new Date(endTime).toLocaleTimeString(locale, options)}`
+}
+
+/**
+ * Long date in a time zone using the viewer's locale, e.g. "Monday, January 1, 2024"
+ */
+export function formatDateInTimeZone(instant: Date | string, timeZone: string, locale?: string): string {
+  return new Date(instant).toLocaleDateString(locale, {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
@@ -145,4 +145,10 @@ export function capitalize(str: string): string {
 export function truncate(text: string, length: number): string {
   if (text.length <= length) return text
   return text.substring(0, length) + '...'
-}
\ No newline at end of file
+}
+/**
+ * Format an amount in the given ISO 4217 currency
+ */
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+}
@@ -2,8 +2,14 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import { featureFlags } from './lib/featureFlags'
+import { FakePaymentProvider, setPaymentProvider } from './lib/services/paymentProvider'
 import './index.css'
 
+if (featureFlags.ENABLE_FAKE_PAYMENTS) {
+  setPaymentProvider(new FakePaymentProvider())
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <BrowserRouter>
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Link } from 'react-router-dom'
 import { 
   PlusIcon, 
@@ -6,83 +6,137 @@ import {
   TrashIcon, 
   EyeIcon,
   ChartBarIcon,
-  CalendarDaysIcon
+  CalendarDaysIcon,
+  PauseIcon,
+  PlayIcon
 } from '@heroicons/react/24/outline'
+import { useAuth } from '../hooks/useAuth'
+import { eventService, ManagedEvent } from '../services/eventService'
+import type { EventStatus, PaginatedResponse } from '../types'
+
+const PAGE_SIZE = 10
+
+const STATUS_FILTERS: Array<'all' | EventStatus> = ['all', 'active', 'draft', 'paused', 'completed', 'cancelled']
 
 export function AdminEventManager() {
-  const [filter, setFilter] = useState('all') // all, active, draft, past
+  const { user } = useAuth()
+  const [filter, setFilter] = useState<'all' | EventStatus>('all')
   const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [page, setPage] = useState(1)
+
+  const [events, setEvents] = useState<ManagedEvent[]>([])
+  const [pagination, setPagination] = useState<PaginatedResponse['pagination']>({
+    page: 1,
+    limit: PAGE_SIZE,
+    total: 0,
+    totalPages: 1
+  })
+  const [statusCounts, setStatusCounts] = useState<Record<EventStatus, number> | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingActionId, setPendingActionId] = useState<string | null>(null)
+
+  // Debounce search so each keystroke doesn't hit the database
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  const loadEvents = useCallback(async () => {
+    if (!user) return
 
-  // Mock data - replace with real data from Supabase
-  const events = [
-    {
-      id: 1,
-      title: 'Team Standup',
-      type: 'meeting',
-      status: 'active',
-      date: '2024-01-15',
-      bookings: 8,
-      maxAttendees: 10,
-      createdAt: '2024-01-10'
-    },
-    {
-      id: 2,
-      title: 'Product Demo',
-      type: 'presentation',
-      status: 'active',
-      date: '2024-01-18',
-      bookings: 15,
-      maxAttendees: 20,
-      createdAt: '2024-01-12'
-    },
-    {
-      id: 3,
-      title: 'Workshop: React Basics',
-      type: 'workshop',
-      status: 'draft',
-      date: '2024-01-22',
-      bookings: 0,
-      maxAttendees: 25,
-      createdAt: '2024-01-14'
-    },
-    {
-      id: 4,
-      title: 'Client Consultation',
-      type: 'consultation',
-      status: 'past',
-      date: '2024-01-05',
-      bookings: 3,
-      maxAttendees: 5,
-      createdAt: '2024-01-01'
+    setLoading(true)
+    setError(null)
+
+    try {
+      const [result, counts] = await Promise.all([
+        eventService.getManagedEvents(user.id, {
+          status: filter === 'all' ? undefined : filter,
+          search: debouncedSearch || undefined,
+          page,
+          limit: PAGE_SIZE
+        }),
+        eventService.getStatusCounts(user.id)
+      ])
+
+      setEvents(result.data || [])
+      setPagination(result.pagination)
+      setStatusCounts(counts)
+    } catch (err: any) {
+      console.error('Error loading events:', err)
+      setError(err?.message || 'Failed to load events')
+    } finally {
+      setLoading(false)
     }
-  ]
+  }, [user, filter, debouncedSearch, page])
 
-  const filteredEvents = events.filter(event => {
-    const matchesFilter = filter === 'all' || event.status === filter
-    const matchesSearch = event.title.toLowerCase().includes(searchTerm.toLowerCase())
-    return matchesFilter && matchesSearch
-  })
+  useEffect(() => {
+    loadEvents()
+  }, [loadEvents])
 
-  const getStatusColor = (status: string) => {
+  const handleFilterChange = (status: 'all' | EventStatus) => {
+    setFilter(status)
+    setPage(1)
+  }
+
+  const getStatusColor = (status: EventStatus) => {
     switch (status) {
       case 'active':
         return 'bg-green-100 text-green-800'
       case 'draft':
         return 'bg-yellow-100 text-yellow-800'
-      case 'past':
-        return 'bg-gray-100 text-gray-800'
+      case 'paused':
+        return 'bg-orange-100 text-orange-800'
+      case 'cancelled':
+        return 'bg-red-100 text-red-800'
+      case 'completed':
       default:
         return 'bg-gray-100 text-gray-800'
     }
   }
 
-  const handleDelete = (eventId: number) => {
+  const runAction = async (eventId: string, action: () => Promise<unknown>) => {
+    setPendingActionId(eventId)
+    setError(null)
+
+    try {
+      await action()
+      await loadEvents()
+    } catch (err: any) {
+      console.error('Error updating event:', err)
+      setError(err?.message || 'Failed to update event')
+    } finally {
+      setPendingActionId(null)
+    }
+  }
+
+  const handleDelete = (eventId: string) => {
     if (confirm('Are you sure you want to delete this event?')) {
-      // TODO: Implement delete logic with Supabase
-      console.log('Deleting event:', eventId)
+      runAction(eventId, async () => {
+        await eventService.deleteEvent(eventId)
+        // Step back if the last event on this page was removed
+        if (events.length === 1 && page > 1) {
+          setPage(page - 1)
+        }
+      })
     }
   }
 
+  const handleToggleStatus = (event: ManagedEvent) => {
+    const nextStatus: EventStatus = event.status === 'active' ? 'paused' : 'active'
+    runAction(event.id, () => eventService.setEventStatus(event.id, nextStatus))
+  }
+
+  const totalEvents = statusCounts
+    ? Object.values(statusCounts).reduce((sum, count) => sum + count, 0)
+    : 0
+  const firstShown = pagination.total === 0 ? 0 : (pagination.page - 1) * pagination.limit + 1
+  const lastShown = Math.min(pagination.page * pagination.limit, pagination.total)
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
@@ -106,7 +160,7 @@ export function AdminEventManager() {
             <CalendarDaysIcon className="h-8 w-8 text-blue-600" />
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Events</p>
-              <p className="text-2xl font-bold text-gray-900">{events.length}</p>
+              <p className="text-2xl font-bold text-gray-900">{totalEvents}</p>
             </div>
           </div>
         </div>
@@ -117,7 +171,7 @@ export function AdminEventManager() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Active Events</p>
               <p className="text-2xl font-bold text-gray-900">
-                {events.filter(e => e.status === 'active').length}
+                {statusCounts?.active ?? 0}
               </p>
             </div>
           </div>
@@ -131,7 +185,7 @@ export function AdminEventManager() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Draft Events</p>
               <p className="text-2xl font-bold text-gray-900">
-                {events.filter(e => e.status === 'draft').length}
+                {statusCounts?.draft ?? 0}
               </p>
             </div>
           </div>
@@ -139,13 +193,11 @@ export function AdminEventManager() {
         
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center">
-            <div className="h-8 w-8 bg-primary-600 rounded flex items-center justify-center">
-              <span className="text-white font-bold text-sm">B</span>
-            </div>
+            <PauseIcon className="h-8 w-8 text-orange-600" />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Total Bookings</p>
+              <p className="text-sm font-medium text-gray-600">Paused Events</p>
               <p className="text-2xl font-bold text-gray-900">
-                {events.reduce((sum, e) => sum + e.bookings, 0)}
+                {statusCounts?.paused ?? 0}
               </p>
             </div>
           </div>
@@ -155,11 +207,11 @@ export function AdminEventManager() {
       {/* Filters and Search */}
       <div className="bg-white rounded-lg shadow p-6 mb-6">
         <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
-          <div className="flex space-x-4">
-            {['all', 'active', 'draft', 'past'].map(status => (
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map(status => (
               <button
                 key={status}
-                onClick={() => setFilter(status)}
+                onClick={() => handleFilterChange(status)}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
                   filter === status
                     ? 'bg-primary-100 text-primary-700'
@@ -183,6 +235,12 @@ export function AdminEventManager() {
         </div>
       </div>
 
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-4 mb-6">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
       {/* Events Table */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="overflow-x-auto">
@@ -198,9 +256,6 @@ export function AdminEventManager() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
-                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Bookings
                 </th>
@@ -210,11 +265,16 @@ export function AdminEventManager() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredEvents.map((event) => (
+              {events.map((event) => (
                 <tr key={event.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
-                      <div className="text-sm font-medium text-gray-900">{event.title}</div>
+                      <Link
+                        to={`/admin/events/${event.slug}`}
+                        className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                      >
+                        {event.title}
+                      </Link>
                       <div className="text-sm text-gray-500">
                         Created {new Date(event.createdAt).toLocaleDateString()}
                       </div>
@@ -228,19 +288,24 @@ export function AdminEventManager() {
                       {event.status}
                     </span>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {new Date(event.date).toLocaleDateString()}
-                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">
-                      {event.bookings}/{event.maxAttendees}
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
-                      <div 
-                        className="bg-primary-600 h-2 rounded-full" 
-                        style={{ width: `${(event.bookings / event.maxAttendees) * 100}%` }}
-                      />
+                      {event.stats.confirmedBookings}
+                      {event.maxAttendees ? `/${event.maxAttendees}` : ''} confirmed
                     </div>
+                    {event.stats.pendingBookings > 0 && (
+                      <div className="text-xs text-yellow-700">
+                        {event.stats.pendingBookings} pending
+                      </div>
+                    )}
+                    {event.maxAttendees && (
+                      <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                        <div 
+                          className="bg-primary-600 h-2 rounded-full" 
+                          style={{ width: `${Math.min(100, (event.stats.confirmedBookings / event.maxAttendees) * 100)}%` }}
+                        />
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex space-x-2">
@@ -265,9 +330,22 @@ export function AdminEventManager() {
                       >
                         <ChartBarIcon className="h-4 w-4" />
                       </Link>
+                      {['active', 'paused', 'draft'].includes(event.status) && (
+                        <button
+                          onClick={() => handleToggleStatus(event)}
+                          disabled={pendingActionId === event.id}
+                          className="text-orange-600 hover:text-orange-900 disabled:opacity-50"
+                          title={event.status === 'active' ? 'Pause Event' : 'Activate Event'}
+                        >
+                          {event.status === 'active'
+                            ? <PauseIcon className="h-4 w-4" />
+                            : <PlayIcon className="h-4 w-4" />}
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDelete(event.id)}
-                        className="text-red-600 hover:text-red-900"
+                        disabled={pendingActionId === event.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
                         title="Delete Event"
                       >
                         <TrashIcon className="h-4 w-4" />
@@ -280,14 +358,23 @@ export function AdminEventManager() {
           </table>
         </div>
         
-        {filteredEvents.length === 0 && (
+        {loading && events.length === 0 && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+            <p className="mt-4 text-sm text-gray-600">Loading events...</p>
+          </div>
+        )}
+
+        {!loading && events.length === 0 && (
           <div className="text-center py-12">
             <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400" />
             <h3 className="mt-2 text-sm font-medium text-gray-900">No events found</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {searchTerm ? 'Try adjusting your search terms.' : 'Get started by creating a new event.'}
+              {searchTerm || filter !== 'all'
+                ? 'Try adjusting your search terms or filters.'
+                : 'Get started by creating a new event.'}
             </p>
-            {!searchTerm && (
+            {!searchTerm && filter === 'all' && (
               <div className="mt-6">
                 <Link to="/create-event" className="btn-primary">
                   <PlusIcon className="h-5 w-5 mr-2" />
@@ -297,6 +384,30 @@ export function AdminEventManager() {
             )}
           </div>
         )}
+
+        {pagination.total > 0 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Showing {firstShown}–{lastShown} of {pagination.total} events
+            </p>
+            <div className="flex space-x-2">
+              <button
+                className="btn-secondary"
+                onClick={() => setPage(page - 1)}
+                disabled={loading || pagination.page <= 1}
+              >
+                Previous
+              </button>
+              <button
+                className="btn-secondary"
+                onClick={() => setPage(page + 1)}
+                disabled={loading || pagination.page >= pagination.totalPages}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
 import { Availability } from '../types'
 import { availabilityService, AvailabilitySlotInput } from '../services/availabilityService'
+import { AvailabilityOverrides } from '../components/availability/AvailabilityOverrides'
+import { BusyCalendarFeeds } from '../components/availability/BusyCalendarFeeds'
 import { PlusIcon, TrashIcon, ClockIcon, CheckCircleIcon, ExclamationCircleIcon, ArrowLeftIcon } from '@heroicons/react/24/outline'
 
 const DAYS = [
@@ -286,6 +288,9 @@ export function AvailabilityPage() {
           </button>
         </div>
       </div>
+
+      <AvailabilityOverrides />
+      <BusyCalendarFeeds />
     </div>
   )
 }
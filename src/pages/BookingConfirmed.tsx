@@ -6,46 +6,16 @@ import { useSearchParams, useNavigate, Link } from 'react-router-dom'
 import {
     CheckCircleIcon,
     CalendarIcon,
-    ClockIcon,
     EnvelopeIcon,
     PrinterIcon,
     ShareIcon,
-    UserIcon,
     DocumentDuplicateIcon,
-    MapPinIcon,
     ArrowLeftIcon,
     ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
 import { db } from '../lib/supabase'
-
-interface BookingDetails {
-    id: string
-    booking_reference: string
-    first_name: string
-    last_name: string
-    email: string
-    phone: string | null
-    notes: string | null
-    status: string
-    confirmed_at: string
-    created_at: string
-    event: {
-        id: string
-        title: string
-        description: string
-        type: string
-        duration: number
-        location: string | null
-        is_online: boolean
-    } | null
-    slot: {
-        id: string
-        start_time: string
-        end_time: string
-        price: number
-        currency: string
-    } | null
-}
+import { BookingSummaryCards, BookingDetails, bookingJoinUrl } from '../components/booking/BookingSummaryCards'
+import { bookingCalendar } from '../lib/ical'
 
 export function BookingConfirmed() {
     const [searchParams] = useSearchParams()
@@ -110,34 +80,25 @@ export function BookingConfirmed() {
     const handleAddToCalendar = () => {
         if (!booking || !booking.slot) return
 
+        const joinUrl = bookingJoinUrl(booking)
+
         setDownloading(true)
 
         try {
-            const startDate = new Date(booking.slot.start_time)
-            const endDate = new Date(booking.slot.end_time)
-
-            const formatDateForICS = (date: Date) => {
-                return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
-            }
-
-            const eventTitle = booking.event?.title || 'Scheduled Event'
-            const eventLocation = booking.event?.location || ''
-            const eventDescription = `Booking Reference: ${booking.booking_reference}\\n${booking.event?.description || ''}`
-
-            const icsContent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//Schedlyx//Booking System//EN
-BEGIN:VEVENT
-UID:${booking.id}@schedlyx.app
-DTSTAMP:${formatDateForICS(new Date())}
-DTSTART:${formatDateForICS(startDate)}
-DTEND:${formatDateForICS(endDate)}
-SUMMARY:${eventTitle}
-DESCRIPTION:${eventDescription}
-LOCATION:${eventLocation}
-STATUS:CONFIRMED
-END:VEVENT
-END:VCALENDAR`
+            const icsContent = bookingCalendar({
+                bookingId: booking.id,
+                sequence: booking.calendar_sequence,
+                start: booking.slot.start_time,
+                end: booking.slot.end_time,
+                timeZone: booking.event?.timezone,
+                summary: booking.event?.title || 'Scheduled Event',
+                description: [
+                    `Booking Reference: ${booking.booking_reference}`,
+                    booking.event?.description
+                ].filter(Boolean).join('\n'),
+                location: joinUrl || booking.event?.location || undefined,
+                url: joinUrl || undefined
+            })
 
             const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' })
             const url = URL.createObjectURL(blob)
@@ -179,23 +140,6 @@ END:VCALENDAR`
         }
     }
 
-    const formatDate = (dateString: string) => {
-        return new Date(dateString).toLocaleDateString('en-US', {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-        })
-    }
-
-    const formatTime = (dateString: string) => {
-        return new Date(dateString).toLocaleTimeString('en-US', {
-            hour: '2-digit',
-            minute: '2-digit',
-            hour12: true
-        })
-    }
-
     // Loading state
     if (loading) {
         return (
@@ -262,10 +206,12 @@ END:VCALENDAR`
                         </div>
                     </div>
                     <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mt-6">
-                        Booking Confirmed!
+                        {booking.status === 'pending' ? 'Request Received!' : 'Booking Confirmed!'}
                     </h1>
                     <p className="mt-3 text-lg text-gray-600">
-                        Your spot has been successfully reserved
+                        {booking.status === 'pending'
+                            ? 'Your spot is held while the organizer reviews your request'
+                            : 'Your spot has been successfully reserved'}
                     </p>
                 </div>
 
@@ -297,157 +243,7 @@ END:VCALENDAR`
                     </div>
                 </div>
 
-                {/* Event Details Card */}
-                {booking.event && (
-                    <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 mb-6">
-                        <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
-                            <CalendarIcon className="h-6 w-6 mr-3 text-primary-600" />
-                            Event Details
-                        </h2>
-
-                        <div className="space-y-5">
-                            <div className="bg-gradient-to-r from-primary-50 to-blue-50 rounded-xl p-5">
-                                <h3 className="text-lg font-bold text-gray-900 mb-2">{booking.event.title}</h3>
-                                {booking.event.description && (
-                                    <p className="text-gray-600 text-sm">{booking.event.description}</p>
-                                )}
-                                <div className="mt-3 flex flex-wrap gap-2">
-                                    <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-primary-100 text-primary-800 capitalize">
-                                        {booking.event.type}
-                                    </span>
-                                    <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
-                                        {booking.event.duration} minutes
-                                    </span>
-                                </div>
-                            </div>
-
-                            {/* Date & Time */}
-                            {booking.slot && (
-                                <div className="flex items-start py-4 border-b border-gray-100">
-                                    <div className="flex-shrink-0 h-10 w-10 rounded-lg bg-primary-100 flex items-center justify-center">
-                                        <CalendarIcon className="h-5 w-5 text-primary-600" />
-                                    </div>
-                                    <div className="ml-4 flex-1">
-                                        <p className="text-sm text-gray-500 font-medium">Date & Time</p>
-                                        <p className="text-base font-semibold text-gray-900 mt-1">
-                                            {formatDate(booking.slot.start_time)}
-                                        </p>
-                                        <p className="text-sm text-gray-600 mt-1 flex items-center">
-                                            <ClockIcon className="h-4 w-4 mr-1.5 text-gray-400" />
-                                            {formatTime(booking.slot.start_time)} – {formatTime(booking.slot.end_time)}
-                                        </p>
-                                    </div>
-                                </div>
-                            )}
-
-                            {/* Location */}
-                            {booking.event.location && (
-                                <div className="flex items-start py-4 border-b border-gray-100">
-                                    <div className="flex-shrink-0 h-10 w-10 rounded-lg bg-blue-100 flex items-center justify-center">
-                                        <MapPinIcon className="h-5 w-5 text-blue-600" />
-                                    </div>
-                                    <div className="ml-4 flex-1">
-                                        <p className="text-sm text-gray-500 font-medium">Location</p>
-                                        <p className="text-base font-semibold text-gray-900 mt-1">
-                                            {booking.event.is_online ? '🌐 Online Event' : booking.event.location}
-                                        </p>
-                                        {booking.event.is_online && booking.event.location && (
-                                            <a
-                                                href={booking.event.location}
-                                                target="_blank"
-                                                rel="noopener noreferrer"
-                                                className="text-sm text-primary-600 hover:text-primary-700 underline mt-1 inline-block"
-                                            >
-                                                Join Meeting Link
-                                            </a>
-                                        )}
-                                    </div>
-                                </div>
-                            )}
-
-                            {/* Price */}
-                            {booking.slot && booking.slot.price > 0 && (
-                                <div className="flex items-start py-4">
-                                    <div className="flex-shrink-0 h-10 w-10 rounded-lg bg-green-100 flex items-center justify-center">
-                                        <span className="text-lg font-bold text-green-600">$</span>
-                                    </div>
-                                    <div className="ml-4 flex-1">
-                                        <p className="text-sm text-gray-500 font-medium">Price</p>
-                                        <p className="text-base font-semibold text-gray-900 mt-1">
-                                            {new Intl.NumberFormat('en-US', {
-                                                style: 'currency',
-                                                currency: booking.slot.currency
-                                            }).format(booking.slot.price)}
-                                        </p>
-                                    </div>
-                                </div>
-                            )}
-                        </div>
-                    </div>
-                )}
-
-                {/* Your Information Card */}
-                <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 mb-6">
-                    <h2 className="text-xl font-bold text-gray-900 mb-6 flex items-center">
-                        <UserIcon className="h-6 w-6 mr-3 text-primary-600" />
-                        Your Information
-                    </h2>
-
-                    <div className="space-y-4">
-                        <div className="flex items-center py-3 border-b border-gray-100">
-                            <UserIcon className="h-5 w-5 text-gray-400 mr-4" />
-                            <div>
-                                <p className="text-sm text-gray-500">Name</p>
-                                <p className="font-semibold text-gray-900">{booking.first_name} {booking.last_name}</p>
-                            </div>
-                        </div>
-
-                        <div className="flex items-center py-3 border-b border-gray-100">
-                            <EnvelopeIcon className="h-5 w-5 text-gray-400 mr-4" />
-                            <div>
-                                <p className="text-sm text-gray-500">Email</p>
-                                <p className="font-semibold text-gray-900">{booking.email}</p>
-                            </div>
-                        </div>
-
-                        {booking.phone && (
-                            <div className="flex items-center py-3 border-b border-gray-100">
-                                <svg className="h-5 w-5 text-gray-400 mr-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
-                                </svg>
-                                <div>
-                                    <p className="text-sm text-gray-500">Phone</p>
-                                    <p className="font-semibold text-gray-900">{booking.phone}</p>
-                                </div>
-                            </div>
-                        )}
-
-                        {booking.notes && (
-                            <div className="flex items-start py-3">
-                                <svg className="h-5 w-5 text-gray-400 mr-4 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                                </svg>
-                                <div>
-                                    <p className="text-sm text-gray-500">Notes</p>
-                                    <p className="font-medium text-gray-700">{booking.notes}</p>
-                                </div>
-                            </div>
-                        )}
-
-                        {/* Status Badge */}
-                        <div className="pt-4">
-                            <span className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-semibold ${booking.status === 'confirmed'
-                                ? 'bg-green-100 text-green-800'
-                                : booking.status === 'pending'
-                                    ? 'bg-yellow-100 text-yellow-800'
-                                    : 'bg-gray-100 text-gray-800'
-                                }`}>
-                                <CheckCircleIcon className="h-4 w-4 mr-2" />
-                                {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
-                            </span>
-                        </div>
-                    </div>
-                </div>
+                <BookingSummaryCards booking={booking} />
 
                 {/* Email Confirmation Notice */}
                 <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-2xl p-6 mb-6">
@@ -523,6 +319,12 @@ END:VCALENDAR`
                             {booking.booking_reference}
                         </span>
                     </p>
+                    <Link
+                        to={`/booking/manage?ref=${encodeURIComponent(booking.booking_reference)}&email=${encodeURIComponent(booking.email)}`}
+                        className="inline-block mt-3 text-primary-600 hover:text-primary-700 font-medium underline print:hidden"
+                    >
+                        Reschedule or cancel this booking
+                    </Link>
                 </div>
 
                 {/* Print Styles */}
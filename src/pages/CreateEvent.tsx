@@ -1,44 +1,197 @@
 import { useState, useCallback } from 'react'
-import { ClockIcon, MapPinIcon } from '@heroicons/react/24/outline'
+import { useNavigate } from 'react-router-dom'
+import { ClockIcon, MapPinIcon, CalendarDaysIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '../hooks/useAuth'
+import { db } from '../lib/supabase'
+import { BookingAdminService } from '../lib/services/bookingService'
+import { detectTimeZone, getDateInTimeZone, getTimeZoneOptions } from '../lib/timezone'
+import { validateCustomFieldDefinitions } from '../lib/customFields'
+import { DEFAULT_REMINDER_SETTINGS, validateReminderSettings } from '../lib/reminders'
+import { CustomFieldsEditor } from '../components/events/CustomFieldsEditor'
+import { ReminderSettingsEditor } from '../components/events/ReminderSettingsEditor'
+import { mapEventFormToDBInsert } from '../types'
+import type { EventForm, EventStatus } from '../types'
+import type { SlotGenerationReport } from '../types/booking'
+
+// Slots are generated up to the default booking window (2160 hours)
+const MAX_SLOT_RANGE_DAYS = 90
+
+// Slot range dates are calendar days (YYYY-MM-DD) in the event's time zone
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().split('T')[0]
 
 export function CreateEvent() {
-  const [formData, setFormData] = useState({
+  const navigate = useNavigate()
+  const { user } = useAuth()
+
+  const [formData, setFormData] = useState<EventForm>({
     title: '',
     description: '',
     type: 'meeting', // meeting, workshop, conference
     duration: 30,
     location: '',
     isOnline: false,
+    conferencingProvider: '',
     maxAttendees: '',
     requiresApproval: false,
     allowCancellation: true,
     cancellationDeadline: 24,
+    allowLateCancellation: false,
+    lateCancellationRefundPercent: 0,
     bufferTime: 0,
-    availableDays: [] as string[],
+    availableDays: [],
     timeSlots: {
       start: '09:00',
       end: '17:00'
+    },
+    timezone: detectTimeZone(),
+    customFields: [],
+    reminderSettings: DEFAULT_REMINDER_SETTINGS
+  })
+
+  // Date range passed to BookingAdminService.generateEventSlots after the event is created
+  const [slotRange, setSlotRange] = useState(() => {
+    const today = getDateInTimeZone(new Date(), detectTimeZone())
+    return {
+      startDate: today,
+      endDate: addDays(today, 30),
+      capacityPerSlot: 1
     }
   })
 
   // Prevent duplicate submissions
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [validationError, setValidationError] = useState<string | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+
+  const validateForm = () => {
+    if (!formData.title.trim()) {
+      setValidationError('Event title is required')
+      return false
+    }
+
+    const duration = Number(formData.duration)
+    if (!Number.isInteger(duration) || duration < 15 || duration > 480) {
+      setValidationError('Duration must be between 15 and 480 minutes')
+      return false
+    }
+
+    if (formData.isOnline && formData.conferencingProvider === 'static' && !formData.location.trim()) {
+      setValidationError('Enter the link of your personal meeting room')
+      return false
+    }
+
+    if (formData.maxAttendees && !(parseInt(formData.maxAttendees, 10) > 0)) {
+      setValidationError('Max attendees must be at least 1')
+      return false
+    }
+
+    if (formData.availableDays.length === 0) {
+      setValidationError('Select at least one available day')
+      return false
+    }
+
+    const [startHour, startMinute] = formData.timeSlots.start.split(':').map(Number)
+    const [endHour, endMinute] = formData.timeSlots.end.split(':').map(Number)
+    const windowMinutes = (endHour * 60 + endMinute) - (startHour * 60 + startMinute)
+    if (windowMinutes < duration) {
+      setValidationError('The daily time window must be at least as long as the event duration')
+      return false
+    }
+
+    if (!slotRange.startDate || !slotRange.endDate || slotRange.endDate < slotRange.startDate) {
+      setValidationError('Slot generation end date must be on or after the start date')
+      return false
+    }
+
+    if (slotRange.startDate < getDateInTimeZone(new Date(), formData.timezone)) {
+      setValidationError('Slot generation cannot start in the past')
+      return false
+    }
+
+    const rangeDays = (new Date(slotRange.endDate).getTime() - new Date(slotRange.startDate).getTime()) / 86400000
+    if (rangeDays > MAX_SLOT_RANGE_DAYS) {
+      setValidationError(`Slots can be generated for at most ${MAX_SLOT_RANGE_DAYS} days at a time`)
+      return false
+    }
+
+    const maxAttendees = formData.maxAttendees ? parseInt(formData.maxAttendees, 10) : null
+    if (slotRange.capacityPerSlot < 1 || (maxAttendees !== null && slotRange.capacityPerSlot > maxAttendees)) {
+      setValidationError('Capacity per slot must be at least 1 and no more than max attendees')
+      return false
+    }
+
+    const latePercent = Number(formData.lateCancellationRefundPercent)
+    if (formData.allowLateCancellation && (!Number.isInteger(latePercent) || latePercent < 0 || latePercent > 100)) {
+      setValidationError('Late cancellation refund must be a whole percentage between 0 and 100')
+      return false
+    }
+
+    const customFieldError = validateCustomFieldDefinitions(formData.customFields || [])
+    if (customFieldError) {
+      setValidationError(customFieldError)
+      return false
+    }
+
+    const reminderError = formData.reminderSettings && validateReminderSettings(formData.reminderSettings)
+    if (reminderError) {
+      setValidationError(reminderError)
+      return false
+    }
 
-  const handleSubmit = useCallback(async () => {
+    setValidationError(null)
+    return true
+  }
+
+  const submitEvent = useCallback(async (status: EventStatus) => {
     if (isSubmitting) return
+    setSubmitError(null)
+
+    if (!user) {
+      setSubmitError('You must be signed in to create an event')
+      return
+    }
+
+    if (!validateForm()) return
 
     setIsSubmitting(true)
 
     try {
-      // TODO: Implement event creation with Supabase
-      console.log('Creating event:', formData)
-      // Add actual API call here
-    } catch (error) {
+      const { data: event, error } = await db.createEvent(
+        mapEventFormToDBInsert(formData, user.id, status)
+      )
+
+      if (error) throw error
+
+      // The event row exists at this point; a slot generation failure is
+      // reported on the admin page where slots can be generated again
+      let slotError: string | null = null
+      let slotReport: SlotGenerationReport | null = null
+      try {
+        slotReport = await BookingAdminService.generateEventSlots(
+          event.id,
+          slotRange.startDate,
+          slotRange.endDate,
+          slotRange.capacityPerSlot
+        )
+      } catch (error: any) {
+        console.error('Error generating slots:', error)
+        slotError = error?.message || 'Failed to generate time slots'
+      }
+
+      navigate(`/admin/events/${event.slug}`, { state: { created: true, slotError, slotReport } })
+    } catch (error: any) {
       console.error('Error creating event:', error)
+      setSubmitError(error?.message || 'Failed to create event')
     } finally {
       setIsSubmitting(false)
     }
-  }, [formData, isSubmitting])
+  }, [formData, slotRange, isSubmitting, user, navigate])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    submitEvent('active')
+  }
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target
@@ -48,6 +201,9 @@ export function CreateEvent() {
     } else {
       setFormData(prev => ({ ...prev, [name]: value }))
     }
+    if (validationError) {
+      setValidationError(null)
+    }
   }
 
   const handleDayToggle = (day: string) => {
@@ -68,6 +224,16 @@ export function CreateEvent() {
         <p className="text-gray-600 mt-1">Set up a new event or booking page for your audience.</p>
       </div>
 
+      {/* Error Message */}
+      {(validationError || submitError) && (
+        <div className="mb-6 rounded-md bg-red-50 border border-red-200 p-4">
+          <h3 className="text-sm font-medium text-red-800">
+            {validationError ? 'Validation Error' : 'Could not create event'}
+          </h3>
+          <p className="mt-2 text-sm text-red-700">{validationError || submitError}</p>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-8">
         {/* Basic Information */}
         <div className="bg-white rounded-lg shadow p-6">
@@ -163,22 +329,48 @@ export function CreateEvent() {
                 This is an online event
               </label>
             </div>
-            
-            <div>
-              <label htmlFor="location" className="block text-sm font-medium text-gray-700">
-                <MapPinIcon className="h-4 w-4 inline mr-1" />
-                {formData.isOnline ? 'Meeting Link' : 'Location'}
-              </label>
-              <input
-                type="text"
-                id="location"
-                name="location"
-                className="input-field mt-1"
-                placeholder={formData.isOnline ? 'https://zoom.us/j/...' : 'Office address or venue'}
-                value={formData.location}
-                onChange={handleChange}
-              />
-            </div>
+
+            {formData.isOnline && (
+              <div>
+                <label htmlFor="conferencingProvider" className="block text-sm font-medium text-gray-700">
+                  Meeting links
+                </label>
+                <select
+                  id="conferencingProvider"
+                  name="conferencingProvider"
+                  className="input-field mt-1"
+                  value={formData.conferencingProvider}
+                  onChange={handleChange}
+                >
+                  <option value="">Share the link I enter</option>
+                  <option value="static">Same link for every booking (personal room)</option>
+                  <option value="generated">A unique link for each booking</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  {formData.conferencingProvider === 'generated'
+                    ? 'Each confirmed booking gets its own room. Rescheduling issues a new one and cancelling revokes it.'
+                    : 'Attendees see the link on their confirmation page, in calendar invites and in reminder emails.'}
+                </p>
+              </div>
+            )}
+
+            {!(formData.isOnline && formData.conferencingProvider === 'generated') && (
+              <div>
+                <label htmlFor="location" className="block text-sm font-medium text-gray-700">
+                  <MapPinIcon className="h-4 w-4 inline mr-1" />
+                  {formData.isOnline ? 'Meeting Link' : 'Location'}
+                </label>
+                <input
+                  type="text"
+                  id="location"
+                  name="location"
+                  className="input-field mt-1"
+                  placeholder={formData.isOnline ? 'https://zoom.us/j/...' : 'Office address or venue'}
+                  value={formData.location}
+                  onChange={handleChange}
+                />
+              </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -279,6 +471,85 @@ export function CreateEvent() {
                 />
               </div>
             </div>
+
+            <div>
+              <label htmlFor="timezone" className="block text-sm font-medium text-gray-700">
+                Time Zone
+              </label>
+              <select
+                id="timezone"
+                name="timezone"
+                className="input-field mt-1"
+                value={formData.timezone}
+                onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+              >
+                {getTimeZoneOptions(formData.timezone).map(zone => (
+                  <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Available days and times are in this zone. Invitees see slots in their own zone.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Slot Generation */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            <CalendarDaysIcon className="h-5 w-5 inline mr-2" />
+            Bookable Slots
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Time slots are generated for the available days and hours above within this date range.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="slotStartDate" className="block text-sm font-medium text-gray-700">
+                From
+              </label>
+              <input
+                type="date"
+                id="slotStartDate"
+                name="slotStartDate"
+                className="input-field mt-1"
+                value={slotRange.startDate}
+                onChange={(e) => setSlotRange(prev => ({ ...prev, startDate: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="slotEndDate" className="block text-sm font-medium text-gray-700">
+                Until
+              </label>
+              <input
+                type="date"
+                id="slotEndDate"
+                name="slotEndDate"
+                className="input-field mt-1"
+                value={slotRange.endDate}
+                onChange={(e) => setSlotRange(prev => ({ ...prev, endDate: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="capacityPerSlot" className="block text-sm font-medium text-gray-700">
+                Capacity per slot
+              </label>
+              <input
+                type="number"
+                id="capacityPerSlot"
+                name="capacityPerSlot"
+                min="1"
+                className="input-field mt-1"
+                value={slotRange.capacityPerSlot}
+                onChange={(e) => setSlotRange(prev => ({
+                  ...prev,
+                  capacityPerSlot: parseInt(e.target.value, 10) || 0
+                }))}
+              />
+            </div>
           </div>
         </div>
 
@@ -330,14 +601,91 @@ export function CreateEvent() {
                   value={formData.cancellationDeadline}
                   onChange={handleChange}
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  Paid bookings cancelled before the deadline are refunded in full
+                </p>
+
+                <div className="flex items-center mt-4">
+                  <input
+                    id="allowLateCancellation"
+                    name="allowLateCancellation"
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    checked={!!formData.allowLateCancellation}
+                    onChange={handleChange}
+                  />
+                  <label htmlFor="allowLateCancellation" className="ml-2 block text-sm text-gray-900">
+                    Allow cancellations after the deadline
+                  </label>
+                </div>
+
+                {formData.allowLateCancellation && (
+                  <div className="ml-6 mt-2">
+                    <label htmlFor="lateCancellationRefundPercent" className="block text-sm font-medium text-gray-700">
+                      Refund for late cancellations (%)
+                    </label>
+                    <input
+                      type="number"
+                      id="lateCancellationRefundPercent"
+                      name="lateCancellationRefundPercent"
+                      min="0"
+                      max="100"
+                      className="input-field mt-1 max-w-xs"
+                      value={formData.lateCancellationRefundPercent}
+                      onChange={handleChange}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      0 accepts late cancellations without a refund
+                    </p>
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
 
+        {/* Booking Questions */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Booking Questions</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Extra questions invitees answer when they book
+          </p>
+
+          <CustomFieldsEditor
+            fields={formData.customFields || []}
+            onChange={(customFields) => {
+              setFormData(prev => ({ ...prev, customFields }))
+              if (validationError) setValidationError(null)
+            }}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        {/* Reminders */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Reminders</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            When attendees get a reminder email before their booking
+          </p>
+
+          <ReminderSettingsEditor
+            settings={formData.reminderSettings || DEFAULT_REMINDER_SETTINGS}
+            onChange={(reminderSettings) => {
+              setFormData(prev => ({ ...prev, reminderSettings }))
+              if (validationError) setValidationError(null)
+            }}
+            disabled={isSubmitting}
+          />
+        </div>
+
         {/* Submit */}
         <div className="flex justify-end space-x-4">
-          <button type="button" className="btn-secondary" disabled={isSubmitting}>
+          <button
+            type="button"
+            className="btn-secondary"
+            disabled={isSubmitting}
+            onClick={() => submitEvent('draft')}
+          >
             Save as Draft
           </button>
           <button
@@ -1,104 +1,72 @@
-import React, { useEffect, useState } from 'react';
-import { useAuthStore } from '../store/authStore';
-import { supabase } from '../lib/supabase';
-import { Calendar, Users, Clock, ArrowRight, AlertCircle } from 'lucide-react';
-import { Link } from 'react-router-dom';
-import type { Event } from '../types';
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  CalendarDaysIcon,
+  UserGroupIcon,
+  XCircleIcon,
+  EyeSlashIcon,
+  ArrowRightIcon,
+  ExclamationCircleIcon,
+  PlusIcon,
+  Cog6ToothIcon,
+  ClockIcon
+} from '@heroicons/react/24/outline'
+import { useAuth } from '../hooks/useAuth'
+import { dashboardService, DashboardData, AgendaItem } from '../services/dashboardService'
+import { ApprovalsInbox } from '../components/dashboard/ApprovalsInbox'
+import { BookingFeedLink } from '../components/dashboard/BookingFeedLink'
 
 export function Dashboard() {
-  const { user } = useAuthStore();
-  const [stats, setStats] = useState({
-    totalEvents: 0,
-    totalBookings: 0,
-    thisMonthEvents: 0,
-  });
-  const [recentEvents, setRecentEvents] = useState<Event[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth()
+  const [data, setData] = useState<DashboardData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped after an approval decision to reload KPIs and the agenda
+  const [reloadKey, setReloadKey] = useState(0)
 
   useEffect(() => {
-    async function fetchDashboardData() {
+    if (!user) return
+
+    let cancelled = false
+
+    async function fetchDashboardData(userId: string) {
       try {
-        if (!user) return;
-        setLoading(true);
-        setError(null);
-
-        // 1. Fetch Events created by user
-        const { data: eventsData, error: eventsError } = await supabase
-          .from('events')
-          .select('*')
-          .eq('organizer_id', user.id)
-          .order('date', { ascending: true });
-
-        if (eventsError) throw eventsError;
-
-        // 2. Fetch Bookings for these events to calculate stats
-        const { data: bookingsData, error: bookingsError } = await supabase
-          .from('bookings')
-          .select('id, event_id, status')
-          .in('event_id', eventsData.map(e => e.id));
-
-        if (bookingsError) throw bookingsError;
-
-        // FIX #1: Safe Data Mapping (No more 'as unknown as')
-        // We explicitly map the DB response to match your Event interface
-        const mappedEvents: Event[] = (eventsData || []).map(event => ({
-          id: event.id,
-          title: event.title,
-          description: event.description || '',
-          date: event.date,
-          time: event.time,
-          location: event.location,
-          capacity: event.capacity,
-          price: event.price,
-          organizer_id: event.organizer_id,
-          image_url: event.image_url,
-          category: event.category
-        }));
-
-        setRecentEvents(mappedEvents.slice(0, 3)); // Show top 3
-
-        // Calculate Stats
-        const now = new Date();
-        const thisMonth = eventsData.filter(e => {
-          const d = new Date(e.date);
-          return d.getMonth() === now.getMonth() && d.getFullYear() === now.getFullYear();
-        }).length;
-
-        setStats({
-          totalEvents: eventsData.length,
-          totalBookings: bookingsData?.length || 0,
-          thisMonthEvents: thisMonth,
-        });
+        setLoading(true)
+        setError(null)
 
+        const result = await dashboardService.getDashboardData(userId)
+        if (!cancelled) setData(result)
       } catch (err: any) {
-        console.error('Error loading dashboard:', err);
-        // FIX #2: Set Error State for UI
-        setError(err.message || 'Failed to load dashboard data');
+        console.error('Error loading dashboard:', err)
+        if (!cancelled) setError(err?.message || 'Failed to load dashboard data')
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false)
       }
     }
 
-    fetchDashboardData();
-  }, [user]);
+    fetchDashboardData(user.id)
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, reloadKey])
 
-  if (loading) {
+  // Reloads keep the current data on screen
+  if (loading && !data) {
     return (
       <div className="flex items-center justify-center min-h-screen">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
       </div>
-    );
+    )
   }
 
-  // FIX #2: Error Fallback UI
-  if (error) {
+  if (error || !data) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="bg-red-50 border-l-4 border-red-400 p-4">
           <div className="flex">
             <div className="flex-shrink-0">
-              <AlertCircle className="h-5 w-5 text-red-400" aria-hidden="true" />
+              <ExclamationCircleIcon className="h-5 w-5 text-red-400" aria-hidden="true" />
             </div>
             <div className="ml-3">
               <p className="text-sm text-red-700">
@@ -108,118 +76,172 @@ export function Dashboard() {
           </div>
         </div>
       </div>
-    );
+    )
   }
 
+  const { kpis, fillRates, agenda } = data
+
+  // Group agenda items by calendar day for display
+  const agendaByDay = agenda.reduce<Record<string, AgendaItem[]>>((groups, item) => {
+    const day = new Date(item.startTime).toDateString()
+    groups[day] = [...(groups[day] || []), item]
+    return groups
+  }, {})
+
+  const kpiCards = [
+    { label: 'Upcoming Bookings', value: String(kpis.upcomingBookings), icon: UserGroupIcon, color: 'text-blue-600' },
+    { label: 'Cancellations This Week', value: String(kpis.cancellationsThisWeek), icon: XCircleIcon, color: 'text-red-600' },
+    { label: 'No-show Rate', value: kpis.noShowRate === null ? '—' : `${kpis.noShowRate}%`, icon: EyeSlashIcon, color: 'text-yellow-600' },
+    { label: 'Events', value: String(fillRates.length), icon: CalendarDaysIcon, color: 'text-green-600' }
+  ]
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <div className="mb-8">
-        {/* FIX #3: Safe Name Greeting */}
-        <h1 className="text-3xl font-bold text-gray-900">
-          Welcome back{user?.first_name ? `, ${user.first_name}` : ''}!
-        </h1>
-        <p className="mt-2 text-gray-600">Here's what's happening with your events.</p>
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+          <p className="mt-2 text-gray-600">
+            Welcome back{user?.firstName ? `, ${user.firstName}` : ''}! Here's what's happening with your events.
+          </p>
+        </div>
+        <Link to="/create-event" className="btn-primary flex items-center space-x-2 justify-center">
+          <PlusIcon className="h-5 w-5" />
+          <span>Create Event</span>
+        </Link>
       </div>
 
-      {/* Stats Grid */}
-      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3 mb-8">
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <Calendar className="h-6 w-6 text-gray-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">Total Events</dt>
-                  <dd className="text-lg font-medium text-gray-900">{stats.totalEvents}</dd>
-                </dl>
+      {/* KPI Grid */}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+        {kpiCards.map(card => (
+          <div key={card.label} className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <card.icon className={`h-6 w-6 ${card.color}`} />
+                </div>
+                <div className="ml-5 w-0 flex-1">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">{card.label}</dt>
+                    <dd className="text-lg font-medium text-gray-900">{card.value}</dd>
+                  </dl>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        ))}
+      </div>
+
+      {user && (
+        <ApprovalsInbox userId={user.id} onDecision={() => setReloadKey(key => key + 1)} />
+      )}
 
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <Users className="h-6 w-6 text-gray-400" />
+      {user && <BookingFeedLink />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        {/* Next 7 Days Agenda */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:px-6">
+            <h2 className="text-lg leading-6 font-medium text-gray-900">Next 7 Days</h2>
+          </div>
+          <div className="border-t border-gray-200">
+            {agenda.length > 0 ? (
+              <div className="divide-y divide-gray-200">
+                {Object.entries(agendaByDay).map(([day, items]) => (
+                  <div key={day} className="px-4 py-4 sm:px-6">
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                      {new Date(day).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                    </h3>
+                    <ul className="space-y-2">
+                      {items.map(item => (
+                        <li key={item.bookingId} className="flex items-start text-sm">
+                          <ClockIcon className="h-4 w-4 text-gray-400 mr-2 mt-0.5 flex-shrink-0" />
+                          <div>
+                            <span className="font-medium text-gray-900">
+                              {new Date(item.startTime).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                            </span>
+                            <span className="text-gray-600"> · {item.eventTitle}</span>
+                            <div className="text-gray-500">{item.attendeeName} ({item.email})</div>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
               </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">Total Bookings</dt>
-                  <dd className="text-lg font-medium text-gray-900">{stats.totalBookings}</dd>
-                </dl>
+            ) : (
+              <div className="p-6 text-center text-gray-500">
+                No confirmed bookings in the next 7 days.
               </div>
-            </div>
+            )}
           </div>
         </div>
 
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <Clock className="h-6 w-6 text-gray-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">Events This Month</dt>
-                  <dd className="text-lg font-medium text-gray-900">{stats.thisMonthEvents}</dd>
-                </dl>
+        {/* Fill Rate per Event */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+            <h2 className="text-lg leading-6 font-medium text-gray-900">Fill Rate</h2>
+            <Link to="/admin/events" className="text-sm font-medium text-primary-600 hover:text-primary-500 flex items-center">
+              View all <ArrowRightIcon className="ml-1 h-4 w-4" />
+            </Link>
+          </div>
+          <div className="border-t border-gray-200">
+            {fillRates.length > 0 ? (
+              <ul className="divide-y divide-gray-200">
+                {fillRates.map(event => (
+                  <li key={event.eventId} className="px-4 py-4 sm:px-6 hover:bg-gray-50">
+                    <Link to={`/admin/events/${event.slug}`} className="block">
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm font-medium text-primary-600 truncate">{event.title}</div>
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                          {event.status}
+                        </span>
+                      </div>
+                      {event.fillRate === null ? (
+                        <p className="mt-1 text-sm text-gray-500">No upcoming slots</p>
+                      ) : (
+                        <>
+                          <p className="mt-1 text-sm text-gray-500">
+                            {event.bookedCount}/{event.totalCapacity} seats · {event.fillRate}%
+                          </p>
+                          <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+                            <div
+                              className="bg-primary-600 h-2 rounded-full"
+                              style={{ width: `${event.fillRate}%` }}
+                            />
+                          </div>
+                        </>
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="p-6 text-center text-gray-500">
+                No events created yet.
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
 
-      {/* Recent Events Section */}
-      <div className="bg-white shadow rounded-lg">
-        <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
-          <h2 className="text-lg leading-6 font-medium text-gray-900">Recent Events</h2>
-          <Link to="/events" className="text-sm font-medium text-indigo-600 hover:text-indigo-500 flex items-center">
-            View all <ArrowRight className="ml-1 h-4 w-4" />
-          </Link>
-        </div>
-        <div className="border-t border-gray-200">
-          {recentEvents.length > 0 ? (
-            <ul className="divide-y divide-gray-200">
-              {recentEvents.map((event) => (
-                <li key={event.id} className="px-4 py-4 sm:px-6 hover:bg-gray-50">
-                  <Link to={`/events/${event.id}`} className="block">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0">
-                          <img
-                            className="h-10 w-10 rounded-full object-cover"
-                            src={event.image_url || 'https://images.unsplash.com/photo-1492684223066-81342ee5ff30'}
-                            alt=""
-                          />
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-indigo-600 truncate">{event.title}</div>
-                          <div className="flex items-center text-sm text-gray-500">
-                            <Calendar className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
-                            {new Date(event.date).toLocaleDateString()}
-                          </div>
-                        </div>
-                      </div>
-                      <div className="ml-5 flex-shrink-0">
-                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                          Active
-                        </span>
-                      </div>
-                    </div>
-                  </Link>
-                </li>
-              ))}
-            </ul>
-          ) : (
-            <div className="p-6 text-center text-gray-500">
-              No events created yet.
-            </div>
-          )}
-        </div>
+      {/* Quick Actions */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Link to="/create-event" className="bg-white shadow rounded-lg p-6 hover:shadow-md transition-shadow">
+          <PlusIcon className="h-8 w-8 text-primary-600 mb-2" />
+          <h3 className="font-semibold text-gray-900">New Event</h3>
+          <p className="text-sm text-gray-600">Set up a new event or booking page</p>
+        </Link>
+        <Link to="/admin/events" className="bg-white shadow rounded-lg p-6 hover:shadow-md transition-shadow">
+          <CalendarDaysIcon className="h-8 w-8 text-primary-600 mb-2" />
+          <h3 className="font-semibold text-gray-900">Manage Events</h3>
+          <p className="text-sm text-gray-600">Edit and organize your events</p>
+        </Link>
+        <Link to="/availability" className="bg-white shadow rounded-lg p-6 hover:shadow-md transition-shadow">
+          <Cog6ToothIcon className="h-8 w-8 text-primary-600 mb-2" />
+          <h3 className="font-semibold text-gray-900">Availability</h3>
+          <p className="text-sm text-gray-600">Set the hours you can be booked</p>
+        </Link>
       </div>
     </div>
-  );
-}
\ No newline at end of file
+  )
+}
@@ -0,0 +1,393 @@
+// src/pages/EventAdmin.tsx
+// Organizer view of a single event: details, generated time slots, slot generation,
+// the session agenda, reminder settings and the refund ledger
+
+import { useState, useEffect, useCallback } from 'react'
+import { Link, useParams, useLocation } from 'react-router-dom'
+import {
+  ArrowLeftIcon,
+  CalendarDaysIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  EyeIcon
+} from '@heroicons/react/24/outline'
+import { RefundLedger } from '../components/events/RefundLedger'
+import { ReminderSettingsEditor } from '../components/events/ReminderSettingsEditor'
+import { SessionAgendaEditor } from '../components/events/SessionAgendaEditor'
+import { db } from '../lib/supabase'
+import { BookingAdminService, BookingService } from '../lib/services/bookingService'
+import { eventService } from '../services/eventService'
+import { formatDate } from '../lib/utils'
+import { DEFAULT_REMINDER_SETTINGS, validateReminderSettings } from '../lib/reminders'
+import { describeRecurrence } from '../lib/recurrence'
+import { getTimeZoneAbbreviation } from '../lib/timezone'
+import { mapDBRecurringScheduleToDomain } from '../types/recurrence'
+import type { Event, ReminderSettings } from '../types/database'
+import type { TimeSlot, SlotGenerationReport, SlotSkipReason } from '../types/booking'
+
+interface EventAdminLocationState {
+  created?: boolean
+  slotError?: string | null
+  slotReport?: SlotGenerationReport | null
+}
+
+const SKIP_REASON_LABELS: Record<SlotSkipReason, string> = {
+  outside_availability: 'Outside your weekly availability',
+  unavailable_override: 'Marked unavailable',
+  busy_override: 'Marked busy',
+  calendar_busy: 'Busy in your calendar',
+  already_exists: 'Slot already exists'
+}
+
+export function EventAdmin() {
+  const { slug } = useParams()
+  const location = useLocation()
+  const locationState = (location.state as EventAdminLocationState | null) || {}
+
+  const [event, setEvent] = useState<Event | null>(null)
+  const [slots, setSlots] = useState<TimeSlot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [generateRange, setGenerateRange] = useState({
+    startDate: '',
+    endDate: '',
+    capacityPerSlot: 1
+  })
+  const [generating, setGenerating] = useState(false)
+  const [generateMessage, setGenerateMessage] = useState<string | null>(null)
+  const [generateError, setGenerateError] = useState<string | null>(locationState.slotError || null)
+  const [slotReport, setSlotReport] = useState<SlotGenerationReport | null>(locationState.slotReport || null)
+
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS)
+  const [savingReminders, setSavingReminders] = useState(false)
+  const [reminderMessage, setReminderMessage] = useState<string | null>(null)
+  const [reminderError, setReminderError] = useState<string | null>(null)
+
+  const loadEvent = useCallback(async () => {
+    if (!slug) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error } = await db.getEventBySlug(slug)
+      if (error) throw error
+
+      setEvent(data)
+      setReminderSettings(data.reminder_settings || DEFAULT_REMINDER_SETTINGS)
+      setSlots(await BookingAdminService.getEventSlots(data.id))
+    } catch (err: any) {
+      console.error('Error loading event:', err)
+      setError(err?.message || 'Event not found')
+    } finally {
+      setLoading(false)
+    }
+  }, [slug])
+
+  useEffect(() => {
+    loadEvent()
+  }, [loadEvent])
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!event || generating) return
+
+    if (!generateRange.startDate || !generateRange.endDate || generateRange.endDate < generateRange.startDate) {
+      setGenerateError('End date must be on or after the start date')
+      return
+    }
+
+    setGenerating(true)
+    setGenerateError(null)
+    setGenerateMessage(null)
+    setSlotReport(null)
+
+    try {
+      const report = await BookingAdminService.generateEventSlots(
+        event.id,
+        generateRange.startDate,
+        generateRange.endDate,
+        generateRange.capacityPerSlot
+      )
+      setGenerateMessage(`Generated ${report.created} time slot${report.created === 1 ? '' : 's'}`)
+      setSlotReport(report)
+      setSlots(await BookingAdminService.getEventSlots(event.id))
+    } catch (err: any) {
+      console.error('Error generating slots:', err)
+      setGenerateError(err?.message || 'Failed to generate time slots')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleSaveReminders = async () => {
+    if (!event || savingReminders) return
+
+    const validationError = validateReminderSettings(reminderSettings)
+    if (validationError) {
+      setReminderError(validationError)
+      return
+    }
+
+    setSavingReminders(true)
+    setReminderError(null)
+    setReminderMessage(null)
+
+    try {
+      const saved = await eventService.updateReminderSettings(event.id, reminderSettings)
+      setReminderSettings(saved)
+      setEvent({ ...event, reminder_settings: saved })
+      setReminderMessage('Reminders updated for upcoming bookings')
+    } catch (err: any) {
+      console.error('Error saving reminders:', err)
+      setReminderError(err?.message || 'Failed to save reminders')
+    } finally {
+      setSavingReminders(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading event...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !event) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Event not found</h3>
+          <p className="mt-1 text-sm text-gray-500">{error}</p>
+          <div className="mt-6">
+            <Link to="/admin/events" className="btn-secondary">
+              Back to Event Manager
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const upcomingSlots = slots.filter(slot => new Date(slot.startTime) >= new Date())
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <Link to="/admin/events" className="text-sm text-gray-600 hover:text-gray-900 flex items-center">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Event Manager
+        </Link>
+      </div>
+
+      {locationState.created && (
+        <div className="mb-6 rounded-md bg-green-50 border border-green-200 p-4 flex items-start">
+          <CheckCircleIcon className="h-5 w-5 text-green-600 mr-2 flex-shrink-0" />
+          <p className="text-sm text-green-800">
+            Event created with {slots.length} time slot{slots.length === 1 ? '' : 's'}.
+          </p>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{event.title}</h1>
+          <p className="text-gray-600 mt-1 capitalize">
+            {event.type} · {event.duration} minutes · {event.status}
+          </p>
+        </div>
+        <Link to={`/event/${event.id}`} className="btn-secondary flex items-center space-x-2">
+          <EyeIcon className="h-5 w-5" />
+          <span>View Public Page</span>
+        </Link>
+      </div>
+
+      {/* Slot Generation */}
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Generate Time Slots</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {event.recurring_schedule
+            ? `${describeRecurrence(mapDBRecurringScheduleToDomain(event.recurring_schedule))}, ${event.time_slots.start}–${event.time_slots.end}`
+            : `${event.available_days.join(', ') || 'No days selected'}, ${event.time_slots.start}–${event.time_slots.end}`}
+          {` (${event.timezone})`}
+        </p>
+
+        {generateError && (
+          <div className="mb-4 rounded-md bg-red-50 border border-red-200 p-3">
+            <p className="text-sm text-red-700">{generateError}</p>
+          </div>
+        )}
+        {generateMessage && (
+          <div className="mb-4 rounded-md bg-green-50 border border-green-200 p-3">
+            <p className="text-sm text-green-700">{generateMessage}</p>
+          </div>
+        )}
+        {slotReport && slotReport.skipped.length > 0 && (
+          <details className="mb-4 rounded-md bg-yellow-50 border border-yellow-200 p-3">
+            <summary className="text-sm text-yellow-800 cursor-pointer">
+              Skipped {slotReport.skipped.length} slot{slotReport.skipped.length === 1 ? '' : 's'}:{' '}
+              {Object.entries(
+                slotReport.skipped.reduce<Record<string, number>>((counts, slot) => {
+                  counts[slot.reason] = (counts[slot.reason] || 0) + 1
+                  return counts
+                }, {})
+              ).map(([reason, count]) => `${SKIP_REASON_LABELS[reason as SlotSkipReason]} (${count})`).join(', ')}
+            </summary>
+            <ul className="mt-2 max-h-48 overflow-y-auto text-sm text-yellow-900 space-y-1">
+              {slotReport.skipped.map(slot => (
+                <li key={`${slot.startTime}-${slot.reason}`}>
+                  {formatDate(slot.startTime, { weekday: 'short', month: 'short', day: 'numeric', timeZone: event.timezone })},{' '}
+                  {BookingService.formatSlotTime(slot.startTime, slot.endTime, event.timezone)}: {SKIP_REASON_LABELS[slot.reason]}
+                  {slot.detail ? ` – ${slot.detail}` : ''}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        <form onSubmit={handleGenerate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="generateStartDate" className="block text-sm font-medium text-gray-700">
+              From
+            </label>
+            <input
+              type="date"
+              id="generateStartDate"
+              className="input-field mt-1"
+              value={generateRange.startDate}
+              onChange={(e) => setGenerateRange(prev => ({ ...prev, startDate: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label htmlFor="generateEndDate" className="block text-sm font-medium text-gray-700">
+              Until
+            </label>
+            <input
+              type="date"
+              id="generateEndDate"
+              className="input-field mt-1"
+              value={generateRange.endDate}
+              onChange={(e) => setGenerateRange(prev => ({ ...prev, endDate: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label htmlFor="generateCapacity" className="block text-sm font-medium text-gray-700">
+              Capacity per slot
+            </label>
+            <input
+              type="number"
+              id="generateCapacity"
+              min="1"
+              className="input-field mt-1"
+              value={generateRange.capacityPerSlot}
+              onChange={(e) => setGenerateRange(prev => ({
+                ...prev,
+                capacityPerSlot: parseInt(e.target.value, 10) || 1
+              }))}
+            />
+          </div>
+          <button type="submit" className="btn-primary" disabled={generating}>
+            {generating ? 'Generating...' : 'Generate Slots'}
+          </button>
+        </form>
+      </div>
+
+      {/* Slots */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Upcoming Slots ({upcomingSlots.length})
+          </h2>
+        </div>
+
+        {upcomingSlots.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No upcoming slots</h3>
+            <p className="mt-1 text-sm text-gray-500">Generate slots above to open this event for booking.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time ({getTimeZoneAbbreviation(event.timezone)})
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Booked
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {upcomingSlots.map(slot => (
+                <tr key={slot.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatDate(slot.startTime, { weekday: 'short', month: 'short', day: 'numeric', timeZone: event.timezone })}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {BookingService.formatSlotTime(slot.startTime, slot.endTime, event.timezone)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {slot.bookedCount}/{slot.totalCapacity}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="capitalize text-sm text-gray-900">{slot.status}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <SessionAgendaEditor
+        eventId={event.id}
+        timeZone={event.timezone}
+        eventMaxAttendees={event.max_attendees}
+        isOnline={event.is_online}
+      />
+
+      {/* Reminders */}
+      <div className="bg-white rounded-lg shadow p-6 mt-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Reminders</h2>
+
+        {reminderMessage && <p className="mb-4 text-sm text-green-700">{reminderMessage}</p>}
+        {reminderError && <p className="mb-4 text-sm text-red-600">{reminderError}</p>}
+
+        <ReminderSettingsEditor
+          settings={reminderSettings}
+          onChange={(settings) => {
+            setReminderSettings(settings)
+            setReminderMessage(null)
+            setReminderError(null)
+          }}
+          disabled={savingReminders}
+        />
+
+        <button
+          type="button"
+          onClick={handleSaveReminders}
+          disabled={savingReminders || reminderSettings === event.reminder_settings}
+          className="btn-primary mt-4"
+        >
+          {savingReminders ? 'Saving...' : 'Save Reminders'}
+        </button>
+      </div>
+
+      <RefundLedger eventId={event.id} />
+    </div>
+  )
+}
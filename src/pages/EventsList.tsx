@@ -1,145 +1,123 @@
-import { useState } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Link } from 'react-router-dom'
-import { PlusIcon, MagnifyingGlassIcon, FunnelIcon } from '@heroicons/react/24/outline'
+import { PlusIcon, MagnifyingGlassIcon, FunnelIcon, TagIcon, XMarkIcon } from '@heroicons/react/24/outline'
 import { EventCard } from '../components/EventCard'
-import { Event } from '../types'
+import { eventService } from '../services/eventService'
+import { Event, EventType } from '../types'
+
+const PAGE_SIZE = 12
 
 export function EventsList() {
   const [searchTerm, setSearchTerm] = useState('')
-  const [filterType, setFilterType] = useState<string>('all')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [filterType, setFilterType] = useState<'all' | EventType>('all')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [tagInput, setTagInput] = useState('')
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
 
-  // Mock data - replace with real data from Supabase
-  const events: Event[] = [
-    {
-      id: '1',
-      userId: 'user1',
-      title: 'Product Strategy Workshop',
-      description: 'Join us for an interactive workshop where we\'ll dive deep into product strategy, roadmap planning, and user research methodologies.',
-      type: 'workshop',
-      duration: 120,
-      location: 'Conference Room A, Tech Hub',
-      isOnline: false,
-      maxAttendees: 25,
-      requiresApproval: true,
-      allowCancellation: true,
-      cancellationDeadline: 24,
-      bufferTime: 15,
-      status: 'active',
-      availableDays: ['Monday', 'Wednesday', 'Friday'],
-      timeSlots: { start: '09:00', end: '17:00' },
-      createdAt: '2024-01-01T00:00:00Z',
-      updatedAt: '2024-01-01T00:00:00Z'
-    },
-    {
-      id: '2',
-      userId: 'user1',
-      title: 'React Advanced Patterns',
-      description: 'Deep dive into advanced React patterns including hooks, context, and performance optimization.',
-      type: 'webinar',
-      duration: 90,
-      location: 'https://zoom.us/j/123456789',
-      isOnline: true,
-      maxAttendees: 100,
-      requiresApproval: false,
-      allowCancellation: true,
-      cancellationDeadline: 2,
-      bufferTime: 0,
-      status: 'active',
-      availableDays: ['Tuesday', 'Thursday'],
-      timeSlots: { start: '14:00', end: '18:00' },
-      createdAt: '2024-01-02T00:00:00Z',
-      updatedAt: '2024-01-02T00:00:00Z'
-    },
-    {
-      id: '3',
-      userId: 'user1',
-      title: 'Team Standup Meeting',
-      description: 'Daily team synchronization and progress updates.',
-      type: 'meeting',
-      duration: 30,
-      location: 'Meeting Room B',
-      isOnline: false,
-      maxAttendees: 10,
-      requiresApproval: false,
-      allowCancellation: false,
-      cancellationDeadline: 0,
-      bufferTime: 5,
-      status: 'active',
-      availableDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
-      timeSlots: { start: '09:00', end: '10:00' },
-      createdAt: '2024-01-03T00:00:00Z',
-      updatedAt: '2024-01-03T00:00:00Z'
-    },
-    {
-      id: '4',
-      userId: 'user1',
-      title: 'Career Consultation',
-      description: 'One-on-one career guidance and mentorship session.',
-      type: 'consultation',
-      duration: 60,
-      location: 'https://meet.google.com/abc-defg-hij',
-      isOnline: true,
-      maxAttendees: 1,
-      requiresApproval: true,
-      allowCancellation: true,
-      cancellationDeadline: 48,
-      bufferTime: 30,
-      status: 'active',
-      availableDays: ['Wednesday', 'Friday'],
-      timeSlots: { start: '10:00', end: '16:00' },
-      createdAt: '2024-01-04T00:00:00Z',
-      updatedAt: '2024-01-04T00:00:00Z'
-    },
-    {
-      id: '5',
-      userId: 'user1',
-      title: 'Tech Conference 2024',
-      description: 'Annual technology conference featuring industry leaders and innovators.',
-      type: 'conference',
-      duration: 480,
-      location: 'Grand Convention Center',
-      isOnline: false,
-      maxAttendees: 500,
-      requiresApproval: false,
-      allowCancellation: true,
-      cancellationDeadline: 168,
-      bufferTime: 0,
-      status: 'active',
-      availableDays: ['Saturday'],
-      timeSlots: { start: '08:00', end: '18:00' },
-      createdAt: '2024-01-05T00:00:00Z',
-      updatedAt: '2024-01-05T00:00:00Z'
-    },
-    {
-      id: '6',
-      userId: 'user1',
-      title: 'Frontend Developer Interview',
-      description: 'Technical interview for frontend developer position.',
-      type: 'interview',
-      duration: 45,
-      location: 'https://teams.microsoft.com/xyz',
-      isOnline: true,
-      requiresApproval: true,
-      allowCancellation: true,
-      cancellationDeadline: 24,
-      bufferTime: 15,
-      status: 'draft',
-      availableDays: ['Monday', 'Tuesday', 'Wednesday'],
-      timeSlots: { start: '10:00', end: '17:00' },
-      createdAt: '2024-01-06T00:00:00Z',
-      updatedAt: '2024-01-06T00:00:00Z'
+  const [events, setEvents] = useState<Event[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Debounce search so each keystroke doesn't hit the RPC
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
+
+  const fetchPage = useCallback((cursor: string | null) => {
+    return eventService.searchPublicEvents({
+      query: debouncedSearch || undefined,
+      type: filterType === 'all' ? undefined : filterType,
+      tags: selectedTags,
+      cursor,
+      limit: PAGE_SIZE
+    })
+  }, [debouncedSearch, filterType, selectedTags])
+
+  // The query pages are appended to; load-more responses for an older one are dropped
+  const currentFetch = useRef(fetchPage)
+
+  // Any filter change restarts from the first page
+  useEffect(() => {
+    let cancelled = false
+
+    currentFetch.current = fetchPage
+    setLoading(true)
+    setLoadingMore(false)
+    setError(null)
+
+    fetchPage(null)
+      .then(page => {
+        if (cancelled) return
+        setEvents(page.events)
+        setNextCursor(page.nextCursor)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error loading events:', err)
+        setError(err?.message || 'Failed to load events')
+        setEvents([])
+        setNextCursor(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [fetchPage])
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || loadingMore) return
+
+    const query = fetchPage
+    const isCurrent = () => currentFetch.current === query
+
+    setLoadingMore(true)
+    try {
+      const page = await query(nextCursor)
+      if (!isCurrent()) return
+      setEvents(prev => [...prev, ...page.events])
+      setNextCursor(page.nextCursor)
+    } catch (err: any) {
+      if (!isCurrent()) return
+      console.error('Error loading more events:', err)
+      setError(err?.message || 'Failed to load more events')
+    } finally {
+      if (isCurrent()) setLoadingMore(false)
+    }
+  }
+
+  const addTag = (tag: string) => {
+    const normalized = tag.trim().toLowerCase()
+    if (normalized && !selectedTags.includes(normalized)) {
+      setSelectedTags(prev => [...prev, normalized])
+    }
+  }
+
+  const removeTag = (tag: string) => {
+    setSelectedTags(prev => prev.filter(t => t !== tag))
+  }
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(tagInput)
+      setTagInput('')
     }
-  ]
+  }
 
-  const filteredEvents = events.filter(event => {
-    const matchesSearch = event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         event.description?.toLowerCase().includes(searchTerm.toLowerCase())
-    const matchesType = filterType === 'all' || event.type === filterType
-    return matchesSearch && matchesType
-  })
+  // Suggest tags from the loaded results that aren't already applied
+  const suggestedTags = Array.from(new Set(events.flatMap(event => event.tags || [])))
+    .filter(tag => !selectedTags.includes(tag))
+    .slice(0, 10)
 
-  const eventTypes = ['all', 'meeting', 'workshop', 'conference', 'consultation', 'interview', 'webinar']
+  const eventTypes: Array<'all' | EventType> = ['all', 'meeting', 'workshop', 'conference', 'consultation', 'interview', 'webinar']
+  const hasFilters = Boolean(searchTerm || filterType !== 'all' || selectedTags.length > 0)
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -180,7 +158,7 @@ export function EventsList() {
             <select
               className="input-field"
               value={filterType}
-              onChange={(e) => setFilterType(e.target.value)}
+              onChange={(e) => setFilterType(e.target.value as 'all' | EventType)}
             >
               {eventTypes.map(type => (
                 <option key={type} value={type}>
@@ -214,34 +192,99 @@ export function EventsList() {
             </button>
           </div>
         </div>
+
+        {/* Tag Filter */}
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <TagIcon className="h-5 w-5 text-gray-400" />
+          {selectedTags.map(tag => (
+            <span
+              key={tag}
+              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-700"
+            >
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="ml-1 hover:text-primary-900"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            placeholder="Filter by tag..."
+            className="input-field py-1 text-sm w-40"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+          />
+          {suggestedTags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => addTag(tag)}
+              className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Results Count */}
       <div className="mb-4">
         <p className="text-gray-600">
-          {filteredEvents.length} {filteredEvents.length === 1 ? 'event' : 'events'} found
+          {loading
+            ? 'Loading events...'
+            : `${events.length}${nextCursor ? '+' : ''} ${events.length === 1 ? 'event' : 'events'} found`}
         </p>
       </div>
 
+      {error && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-4 mb-6">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
       {/* Events Grid/List */}
-      {filteredEvents.length > 0 ? (
-        <div className={viewMode === 'grid' 
-          ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'
-          : 'space-y-4'
-        }>
-          {filteredEvents.map(event => (
-            <EventCard 
-              key={event.id} 
-              event={event}
-              className={viewMode === 'list' ? 'max-w-4xl' : ''}
-            />
-          ))}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
         </div>
+      ) : events.length > 0 ? (
+        <>
+          <div className={viewMode === 'grid' 
+            ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'
+            : 'space-y-4'
+          }>
+            {events.map(event => (
+              <EventCard 
+                key={event.id} 
+                event={event}
+                className={viewMode === 'list' ? 'max-w-4xl' : ''}
+              />
+            ))}
+          </div>
+
+          {nextCursor && (
+            <div className="text-center mt-8">
+              <button
+                className="btn-secondary"
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Load more events'}
+              </button>
+            </div>
+          )}
+        </>
       ) : (
         <div className="text-center py-12 bg-white rounded-lg shadow">
           <h3 className="text-lg font-medium text-gray-900 mb-2">No events found</h3>
           <p className="text-gray-600 mb-4">
-            {searchTerm || filterType !== 'all'
+            {hasFilters
               ? 'Try adjusting your search or filter criteria'
               : 'There are no events available at the moment'}
           </p>
@@ -0,0 +1,457 @@
+// src/pages/ManageBooking.tsx
+// Guest self-service: look up a booking by reference and email, then view,
+// cancel or reschedule it. Rescheduling runs through the booking store's
+// reschedule step
+
+import { useState, useEffect } from 'react'
+import { useSearchParams, Link } from 'react-router-dom'
+import {
+  MagnifyingGlassIcon,
+  ArrowLeftIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+  InformationCircleIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline'
+import { BookingService, BookingError } from '../lib/services/bookingService'
+import { useBookingStore } from '../stores/bookingStore'
+import { BookingSummaryCards, BookingDetails } from '../components/booking/BookingSummaryCards'
+import { EnhancedSlotSelector } from '../components/booking/EnhancedSlotSelector'
+import { formatDateInTimeZone } from '../lib/timezone'
+import { formatCurrency } from '../lib/utils'
+import type { ManagedBooking, SlotAvailability } from '../types/booking'
+
+function toBookingDetails(booking: ManagedBooking): BookingDetails {
+  return {
+    id: booking.id,
+    booking_reference: booking.bookingReference,
+    first_name: booking.firstName,
+    last_name: booking.lastName,
+    email: booking.email,
+    phone: booking.phone,
+    notes: booking.notes,
+    status: booking.status,
+    confirmed_at: booking.confirmedAt,
+    created_at: booking.createdAt,
+    event: {
+      id: booking.eventId,
+      title: booking.event.title,
+      description: booking.event.description,
+      type: booking.event.type,
+      duration: booking.event.duration,
+      location: booking.event.location,
+      is_online: booking.event.isOnline
+    },
+    slot: booking.slot && {
+      id: booking.slotId!,
+      start_time: booking.slot.startTime,
+      end_time: booking.slot.endTime,
+      price: booking.slot.price,
+      currency: booking.slot.currency
+    }
+  }
+}
+
+/**
+ * What a paid booking gets back if cancelled now, by the event's refund rules
+ */
+function refundNotice(booking: ManagedBooking): string | null {
+  if (!booking.payment || booking.payment.status !== 'paid') return null
+
+  const late = new Date() > new Date(booking.cancelBy)
+  const percent = late ? booking.lateRefundPercent ?? 0 : 100
+  if (percent === 0) {
+    return 'Cancellations this close to the start time are not refunded.'
+  }
+
+  const amount = Math.round(booking.payment.amount * percent) / 100
+  return `You'll be refunded ${formatCurrency(amount, booking.payment.currency)}${percent < 100 ? ` (${percent}% of what you paid)` : ''}.`
+}
+
+/**
+ * Why a booking can't be cancelled, for guests who can't see the policy
+ */
+function cancellationBlockedReason(booking: ManagedBooking): string {
+  if (booking.status === 'cancelled') {
+    return 'This booking has been cancelled.'
+  }
+  if (booking.status === 'completed' || booking.status === 'no_show') {
+    return 'This booking has already taken place.'
+  }
+  if (!booking.allowCancellation) {
+    return 'The organizer does not allow online cancellations for this event. Please contact them directly.'
+  }
+  const cancelBy = new Date(booking.cancelBy)
+  return `Cancellations closed on ${formatDateInTimeZone(cancelBy, booking.timeZone)} at ${cancelBy.toLocaleTimeString(undefined, {
+    timeZone: booking.timeZone,
+    hour: 'numeric',
+    minute: '2-digit'
+  })}.`
+}
+
+export function ManageBooking() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [reference, setReference] = useState(searchParams.get('ref') || '')
+  const [email, setEmail] = useState(searchParams.get('email') || '')
+  const [booking, setBooking] = useState<ManagedBooking | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [confirmingCancel, setConfirmingCancel] = useState(false)
+  const [cancelReason, setCancelReason] = useState('')
+  const [cancelling, setCancelling] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+
+  const {
+    currentStep,
+    rescheduleFrom,
+    loading: rescheduling,
+    error: rescheduleError,
+    startReschedule,
+    rescheduleToSlot,
+    resetBooking
+  } = useBookingStore()
+  const [slots, setSlots] = useState<SlotAvailability[]>([])
+  const [slotsLoading, setSlotsLoading] = useState(false)
+  const [rescheduled, setRescheduled] = useState(false)
+  const isRescheduling = currentStep === 'reschedule' && rescheduleFrom?.id === booking?.id
+
+  // Leaving the page abandons an unfinished reschedule
+  useEffect(() => resetBooking, [])
+
+  useEffect(() => {
+    // Links from confirmation pages and emails carry both values
+    if (reference && email) {
+      lookup(reference, email)
+    }
+  }, [])
+
+  const lookup = async (ref: string, mail: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const result = await BookingService.getBookingByReference(ref, mail)
+      if (!result) {
+        setBooking(null)
+        setError('We couldn\'t find a booking with that reference and email. Please check your confirmation email and try again.')
+        return
+      }
+
+      setBooking(result)
+      setSearchParams({ ref: result.bookingReference, email: mail.trim() }, { replace: true })
+    } catch (err) {
+      setError(err instanceof BookingError ? err.message : 'Failed to look up your booking. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!reference.trim() || !email.trim()) {
+      setError('Please enter your booking reference and email')
+      return
+    }
+
+    setCancelled(false)
+    lookup(reference, email)
+  }
+
+  const handleCancel = async () => {
+    if (!booking) return
+
+    try {
+      setCancelling(true)
+      setError(null)
+
+      // Any refund is recorded pending and sent by the refund worker
+      await BookingService.cancelBookingByReference(
+        booking.bookingReference,
+        email,
+        cancelReason.trim() || undefined
+      )
+
+      setCancelled(true)
+      setConfirmingCancel(false)
+      setCancelReason('')
+      await lookup(booking.bookingReference, email)
+    } catch (err) {
+      setError(err instanceof BookingError ? err.message : 'Failed to cancel your booking. Please try again.')
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const loadSlots = async (eventId: string) => {
+    try {
+      setSlotsLoading(true)
+      setSlots(await BookingService.getAvailableSlots(eventId))
+    } catch (err) {
+      setError(err instanceof BookingError ? err.message : 'Failed to load available times. Please try again.')
+    } finally {
+      setSlotsLoading(false)
+    }
+  }
+
+  const handleStartReschedule = () => {
+    if (!booking) return
+
+    setRescheduled(false)
+    setCancelled(false)
+    startReschedule(booking)
+    loadSlots(booking.eventId)
+  }
+
+  const handleReschedule = async (slot: SlotAvailability) => {
+    const updated = await rescheduleToSlot(slot)
+    if (updated) {
+      setBooking(updated)
+      setRescheduled(true)
+    } else if (booking) {
+      // Availability changed under us; show the latest
+      loadSlots(booking.eventId)
+    }
+  }
+
+  const handleReset = () => {
+    resetBooking()
+    setRescheduled(false)
+    setBooking(null)
+    setReference('')
+    setEmail('')
+    setError(null)
+    setCancelled(false)
+    setConfirmingCancel(false)
+    setSearchParams({}, { replace: true })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50 to-primary-50 py-8 sm:py-12 px-4">
+      <div className="max-w-2xl mx-auto">
+        <Link
+          to="/"
+          className="mb-6 inline-flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-2" />
+          <span className="text-sm font-medium">Back to Home</span>
+        </Link>
+
+        <div className="text-center mb-8">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-900">Manage Your Booking</h1>
+          <p className="mt-3 text-lg text-gray-600">
+            View, reschedule or cancel a booking using the reference from your confirmation email
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4 flex items-start">
+            <ExclamationTriangleIcon className="h-5 w-5 text-red-600 mr-3 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {!booking && (
+          <form onSubmit={handleLookup} className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 space-y-5">
+            <div>
+              <label htmlFor="reference" className="block text-sm font-medium text-gray-700 mb-1">
+                Booking reference
+              </label>
+              <input
+                id="reference"
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value.toUpperCase())}
+                placeholder="e.g. A1B2C3D4"
+                disabled={loading}
+                className="input-field font-mono tracking-widest"
+              />
+            </div>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email used to book
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                disabled={loading}
+                className="input-field"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary w-full py-3 flex items-center justify-center disabled:opacity-50"
+            >
+              <MagnifyingGlassIcon className="h-5 w-5 mr-2" />
+              {loading ? 'Looking up...' : 'Find My Booking'}
+            </button>
+          </form>
+        )}
+
+        {booking && (
+          <>
+            {rescheduled && (
+              <div className="mb-6 bg-green-50 border border-green-200 rounded-xl p-4">
+                <p className="text-sm text-green-800 font-medium">
+                  Your booking has been moved. Your reference stays the same.
+                </p>
+              </div>
+            )}
+
+            {cancelled && (
+              <div className="mb-6 bg-green-50 border border-green-200 rounded-xl p-4">
+                <p className="text-sm text-green-800 font-medium">
+                  Your booking has been cancelled. A confirmation has been sent to {booking.email}.
+                </p>
+                {booking.refund && booking.payment && (
+                  <p className="text-sm text-green-800 mt-1">
+                    {booking.refund.status === 'succeeded'
+                      ? `${formatCurrency(booking.refund.amount, booking.payment.currency)} has been refunded to your original payment method.`
+                      : `Your refund of ${formatCurrency(booking.refund.amount, booking.payment.currency)} is being processed.`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Booking Reference Card */}
+            <div className="bg-gradient-to-r from-primary-600 to-blue-600 rounded-2xl p-6 sm:p-8 shadow-2xl mb-6 text-white text-center">
+              <p className="text-sm font-medium text-primary-100 mb-3 uppercase tracking-widest">
+                Booking Reference
+              </p>
+              <p className="text-3xl sm:text-4xl font-bold tracking-widest font-mono">
+                {booking.bookingReference}
+              </p>
+              {booking.quantity > 1 && (
+                <p className="text-sm text-primary-100 mt-3">{booking.quantity} spots</p>
+              )}
+            </div>
+
+            <BookingSummaryCards booking={toBookingDetails(booking)} timeZone={booking.timeZone} />
+
+            {/* Rescheduling: same policy as cancelling, since it gives up the current slot */}
+            {booking.slot && booking.canCancel && (
+              <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 mb-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                  <ArrowPathIcon className="h-6 w-6 mr-3 text-primary-600" />
+                  Reschedule
+                </h2>
+
+                {!isRescheduling ? (
+                  <>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Move to another time for this event. You keep your current spot until the new one is confirmed.
+                    </p>
+                    <button onClick={handleStartReschedule} className="btn-secondary">
+                      Choose a new time
+                    </button>
+                  </>
+                ) : (
+                  <div className="space-y-4">
+                    {rescheduleError && (
+                      <p className="text-sm text-red-600">{rescheduleError}</p>
+                    )}
+                    <EnhancedSlotSelector
+                      slots={slots.filter(slot =>
+                        slot.slotId !== booking.slotId
+                        // The booking keeps its payment, so only same-price times
+                        && slot.price === (booking.slot?.price ?? 0)
+                      )}
+                      loading={slotsLoading || rescheduling}
+                      onSelectSlot={handleReschedule}
+                      onRefresh={() => loadSlots(booking.eventId)}
+                      timeZone={booking.timeZone}
+                      eventTimeZone={booking.event.timeZone}
+                      fixedQuantity={booking.quantity}
+                      confirmLabel="Move My Booking"
+                    />
+                    <button onClick={resetBooking} disabled={rescheduling} className="btn-secondary">
+                      Keep Current Time
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Cancellation */}
+            <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8 mb-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                <XCircleIcon className="h-6 w-6 mr-3 text-red-600" />
+                Cancel Booking
+              </h2>
+
+              {!booking.canCancel ? (
+                <div className="flex items-start text-sm text-gray-600">
+                  <InformationCircleIcon className="h-5 w-5 text-gray-400 mr-2 flex-shrink-0" />
+                  <p>{cancellationBlockedReason(booking)}</p>
+                </div>
+              ) : !confirmingCancel ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {new Date() > new Date(booking.cancelBy)
+                      ? 'The cancellation deadline has passed, but you can still cancel before the start time.'
+                      : booking.cancellationDeadlineHours > 0
+                        ? `You can cancel up to ${booking.cancellationDeadlineHours} hour${booking.cancellationDeadlineHours === 1 ? '' : 's'} before the start time.`
+                        : 'You can cancel any time before the start time.'}
+                    {refundNotice(booking) && ` ${refundNotice(booking)}`}
+                  </p>
+                  <button
+                    onClick={() => setConfirmingCancel(true)}
+                    className="px-4 py-2 rounded-lg border-2 border-red-200 text-red-700 font-medium hover:bg-red-50 transition-colors"
+                  >
+                    Cancel this booking
+                  </button>
+                </>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="cancelReason" className="block text-sm font-medium text-gray-700 mb-1">
+                      Reason (optional)
+                    </label>
+                    <textarea
+                      id="cancelReason"
+                      rows={3}
+                      value={cancelReason}
+                      onChange={(e) => setCancelReason(e.target.value)}
+                      disabled={cancelling}
+                      className="input-field"
+                      placeholder="Let the organizer know why you're cancelling"
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    Your spot will be released to other guests. This can't be undone.
+                    {refundNotice(booking) && ` ${refundNotice(booking)}`}
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setConfirmingCancel(false)}
+                      disabled={cancelling}
+                      className="btn-secondary"
+                    >
+                      Keep Booking
+                    </button>
+                    <button
+                      onClick={handleCancel}
+                      disabled={cancelling}
+                      className="px-4 py-2 rounded-lg bg-red-600 text-white font-medium hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      {cancelling ? 'Cancelling...' : 'Yes, Cancel Booking'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <button onClick={handleReset} className="btn-secondary w-full py-3">
+              Look up another booking
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+// src/pages/Notifications.tsx
+// Full notification history with type and unread filters
+
+import { useState, useEffect, useCallback } from 'react'
+import { BellIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '../hooks/useAuth'
+import { useNotificationStore } from '../stores/notificationStore'
+import {
+  notificationService,
+  NotificationItem,
+  NOTIFICATION_TYPE_LABELS
+} from '../services/notificationService'
+import { NotificationEntry } from '../components/notifications/NotificationEntry'
+import type { NotificationType } from '../types'
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]
+
+export function Notifications() {
+  const { user } = useAuth()
+  const { markRead, markAllRead, refresh } = useNotificationStore()
+  // Changes whenever the realtime subscription reloads the bell
+  const latest = useNotificationStore(state => state.recent)
+
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [type, setType] = useState<NotificationType | ''>('')
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setError(null)
+      setNotifications(await notificationService.list(user.id, { type: type || null, unreadOnly, limit: 100 }))
+    } catch (err: any) {
+      console.error('Error loading notifications:', err)
+      setError(err?.message || 'Failed to load notifications')
+    } finally {
+      setLoading(false)
+    }
+  }, [user, type, unreadOnly])
+
+  useEffect(() => {
+    loadNotifications()
+  }, [loadNotifications, latest])
+
+  const handleOpen = async (notification: NotificationItem) => {
+    if (notification.isRead) return
+
+    try {
+      await markRead(notification.id)
+      setNotifications(current =>
+        current.map(n => n.id === notification.id ? { ...n, isRead: true } : n)
+      )
+    } catch (err) {
+      console.error('Failed to mark notification read:', err)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      if (type) {
+        await notificationService.markAllRead(type)
+        await refresh()
+      } else {
+        await markAllRead()
+      }
+      await loadNotifications()
+    } catch (err: any) {
+      setError(err?.message || 'Failed to mark notifications read')
+    }
+  }
+
+  const hasUnread = notifications.some(n => !n.isRead)
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+        <button
+          onClick={handleMarkAllRead}
+          disabled={!hasUnread}
+          className="btn-secondary disabled:opacity-50"
+        >
+          Mark all read
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <select
+          className="input-field w-auto"
+          value={type}
+          onChange={(e) => setType(e.target.value as NotificationType | '')}
+          aria-label="Notification type"
+        >
+          <option value="">All notifications</option>
+          {NOTIFICATION_TYPES.map(value => (
+            <option key={value} value={value}>
+              {NOTIFICATION_TYPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="h-4 w-4 mr-2 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            checked={unreadOnly}
+            onChange={(e) => setUnreadOnly(e.target.checked)}
+          />
+          Unread only
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4">
+          <div className="flex">
+            <ExclamationCircleIcon className="h-5 w-5 text-red-400" aria-hidden="true" />
+            <p className="ml-3 text-sm text-red-700">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+        {loading ? (
+          <p className="p-8 text-center text-sm text-gray-500">Loading...</p>
+        ) : notifications.length === 0 ? (
+          <div className="p-8 text-center">
+            <BellIcon className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-sm text-gray-500">
+              {type || unreadOnly ? 'No notifications match these filters.' : 'No notifications yet.'}
+            </p>
+          </div>
+        ) : (
+          notifications.map(notification => (
+            <NotificationEntry
+              key={notification.id}
+              notification={notification}
+              onOpen={handleOpen}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
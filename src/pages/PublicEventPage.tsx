@@ -1,42 +1,164 @@
+// src/pages/PublicEventPage.tsx
+// Public landing page for an event. Multi-session events show their agenda
+// and let attendees register for one or more sessions here; other events
+// link to the slot booking flow.
+
+import { useState, useEffect, useCallback } from 'react'
 import { useParams, Link } from 'react-router-dom'
-import { 
-  CalendarDaysIcon, 
-  ClockIcon, 
-  MapPinIcon, 
-  UserGroupIcon 
+import {
+  CalendarDaysIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  MapPinIcon,
+  UserGroupIcon,
+  VideoCameraIcon
 } from '@heroicons/react/24/outline'
+import { db } from '../lib/supabase'
+import { sessionService, SessionRegistrationForm } from '../services/sessionService'
+import {
+  findOverlappingSessions,
+  groupSessionsByDay,
+  isSessionOpen,
+  spotsLeft
+} from '../lib/agenda'
+import {
+  detectTimeZone,
+  formatDateInTimeZone,
+  formatTimeRange,
+  getTimeZoneAbbreviation
+} from '../lib/timezone'
+import type { Event } from '../types/database'
+import type { EventSession, SessionRegistration } from '../types/session'
+
+const EMPTY_FORM: SessionRegistrationForm = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  notes: ''
+}
 
 export function PublicEventPage() {
   const { eventId } = useParams()
-  
-  // Mock data - replace with real data from Supabase
-  const event = {
-    id: eventId,
-    title: 'Product Strategy Workshop',
-    description: 'Join us for an interactive workshop where we\'ll dive deep into product strategy, roadmap planning, and user research methodologies. Perfect for product managers, designers, and entrepreneurs.',
-    type: 'workshop',
-    duration: 120,
-    location: 'Conference Room A, Tech Hub',
-    isOnline: false,
-    maxAttendees: 25,
-    currentAttendees: 18,
-    date: '2024-01-25',
-    time: '14:00',
-    organizer: {
-      name: 'Sarah Johnson',
-      title: 'Senior Product Manager',
-      avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150'
-    },
-    agenda: [
-      { time: '14:00', item: 'Welcome & Introductions' },
-      { time: '14:15', item: 'Product Strategy Fundamentals' },
-      { time: '15:00', item: 'Hands-on Exercise: Roadmap Planning' },
-      { time: '15:45', item: 'Break' },
-      { time: '16:00', item: 'User Research Best Practices' },
-      { time: '16:30', item: 'Q&A and Wrap-up' }
-    ]
+
+  const [event, setEvent] = useState<Event | null>(null)
+  const [sessions, setSessions] = useState<EventSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [selected, setSelected] = useState<string[]>([])
+  const [form, setForm] = useState<SessionRegistrationForm>(EMPTY_FORM)
+  const [registering, setRegistering] = useState(false)
+  const [registerError, setRegisterError] = useState<string | null>(null)
+  const [registrations, setRegistrations] = useState<SessionRegistration[]>([])
+
+  const loadEvent = useCallback(async () => {
+    if (!eventId) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const { data, error } = await db.getEvent(eventId)
+      if (error) throw error
+
+      setEvent(data)
+      setSessions(await sessionService.getEventSessions(data.id))
+    } catch (err: any) {
+      console.error('Error loading event:', err)
+      setError(err?.message || 'Event not found')
+    } finally {
+      setLoading(false)
+    }
+  }, [eventId])
+
+  useEffect(() => {
+    loadEvent()
+  }, [loadEvent])
+
+  const toggleSession = (id: string) => {
+    setRegisterError(null)
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id])
+  }
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!event || registering) return
+
+    if (!form.firstName.trim() || !form.lastName.trim() || !form.email.trim()) {
+      setRegisterError('Name and email are required')
+      return
+    }
+
+    try {
+      setRegistering(true)
+      setRegisterError(null)
+
+      const result = await sessionService.registerForSessions(event.id, selected, form, detectTimeZone())
+      setRegistrations(result)
+      setSelected([])
+      setSessions(await sessionService.getEventSessions(event.id))
+    } catch (err: any) {
+      console.error('Error registering for sessions:', err)
+      setRegisterError(err?.message || 'Registration failed. Please try again.')
+    } finally {
+      setRegistering(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading event...</p>
+        </div>
+      </div>
+    )
   }
 
+  if (error || !event) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center py-12">
+          <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Event not found</h3>
+          <p className="mt-1 text-sm text-gray-500">{error}</p>
+          <div className="mt-6">
+            <Link to="/events" className="btn-secondary">
+              Browse Events
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const hasAgenda = sessions.length > 0
+  const days = groupSessionsByDay(sessions, event.timezone)
+  const selectedSessions = sessions.filter(session => selected.includes(session.id))
+  const overlap = findOverlappingSessions(selectedSessions)
+  const eventSpotsLeft = event.max_attendees
+    ? Math.max(0, event.max_attendees - event.current_attendees)
+    : null
+
+  const registerLink = hasAgenda ? (
+    <a
+      href="#register"
+      className="bg-white text-primary-600 font-semibold px-6 py-3 rounded-lg hover:bg-gray-100 transition-colors inline-block"
+    >
+      Choose Sessions
+    </a>
+  ) : (
+    <Link
+      to={`/book/${event.id}`}
+      className="bg-white text-primary-600 font-semibold px-6 py-3 rounded-lg hover:bg-gray-100 transition-colors inline-block"
+    >
+      Register Now
+    </Link>
+  )
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Event Header */}
@@ -49,123 +171,301 @@ export function PublicEventPage() {
               </span>
               <h1 className="text-3xl font-bold mb-2">{event.title}</h1>
               <div className="flex flex-wrap items-center gap-4 text-primary-100">
+                {hasAgenda ? (
+                  <div className="flex items-center">
+                    <CalendarDaysIcon className="h-5 w-5 mr-2" />
+                    {formatDateInTimeZone(days[0].sessions[0].startTime, event.timezone)}
+                    {days.length > 1 && ` – ${formatDateInTimeZone(days[days.length - 1].sessions[0].startTime, event.timezone)}`}
+                  </div>
+                ) : (
+                  <div className="flex items-center">
+                    <ClockIcon className="h-5 w-5 mr-2" />
+                    {event.duration} minutes
+                  </div>
+                )}
                 <div className="flex items-center">
-                  <CalendarDaysIcon className="h-5 w-5 mr-2" />
-                  {new Date(event.date).toLocaleDateString('en-US', { 
-                    weekday: 'long', 
-                    year: 'numeric', 
-                    month: 'long', 
-                    day: 'numeric' 
-                  })}
-                </div>
-                <div className="flex items-center">
-                  <ClockIcon className="h-5 w-5 mr-2" />
-                  {event.time} ({event.duration} minutes)
-                </div>
-                <div className="flex items-center">
-                  <MapPinIcon className="h-5 w-5 mr-2" />
-                  {event.location}
+                  {event.is_online ? (
+                    <>
+                      <VideoCameraIcon className="h-5 w-5 mr-2" />
+                      Online
+                    </>
+                  ) : (
+                    <>
+                      <MapPinIcon className="h-5 w-5 mr-2" />
+                      {event.location || 'Location to be announced'}
+                    </>
+                  )}
                 </div>
               </div>
             </div>
             <div className="text-right">
-              <div className="flex items-center text-primary-100 mb-2">
-                <UserGroupIcon className="h-5 w-5 mr-2" />
-                {event.currentAttendees}/{event.maxAttendees} registered
-              </div>
-              <Link 
-                to={`/book/${event.id}`}
-                className="bg-white text-primary-600 font-semibold px-6 py-3 rounded-lg hover:bg-gray-100 transition-colors inline-block"
-              >
-                Register Now
-              </Link>
+              {!hasAgenda && eventSpotsLeft !== null && (
+                <div className="flex items-center text-primary-100 mb-2">
+                  <UserGroupIcon className="h-5 w-5 mr-2" />
+                  {event.current_attendees}/{event.max_attendees} registered
+                </div>
+              )}
+              {registerLink}
             </div>
           </div>
         </div>
-        
+
         <div className="px-6 py-6">
           {/* Description */}
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">About This Event</h2>
-            <p className="text-gray-700 leading-relaxed">{event.description}</p>
-          </div>
-          
-          {/* Organizer */}
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Organizer</h2>
-            <div className="flex items-center">
-              <img 
-                src={event.organizer.avatar} 
-                alt={event.organizer.name}
-                className="w-12 h-12 rounded-full mr-4"
-              />
-              <div>
-                <h3 className="font-medium text-gray-900">{event.organizer.name}</h3>
-                <p className="text-gray-600">{event.organizer.title}</p>
-              </div>
+          {event.description && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">About This Event</h2>
+              <p className="text-gray-700 leading-relaxed whitespace-pre-line">{event.description}</p>
             </div>
-          </div>
-          
+          )}
+
           {/* Agenda */}
-          <div className="mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Agenda</h2>
-            <div className="space-y-3">
-              {event.agenda.map((item, index) => (
-                <div key={index} className="flex items-start">
-                  <div className="flex-shrink-0 w-16 text-sm font-medium text-primary-600">
-                    {item.time}
+          {hasAgenda && (
+            <div className="mb-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-1">Agenda</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Times in {getTimeZoneAbbreviation(event.timezone, sessions[0].startTime)} ({event.timezone})
+              </p>
+              <div className="space-y-6">
+                {days.map(day => (
+                  <div key={day.date}>
+                    <h3 className="font-medium text-gray-900 mb-3">
+                      {formatDateInTimeZone(day.sessions[0].startTime, event.timezone)}
+                    </h3>
+                    <div className="space-y-4">
+                      {day.sessions.map(session => {
+                        const left = spotsLeft(session, event.max_attendees)
+                        const cancelled = session.status === 'cancelled'
+
+                        return (
+                          <div key={session.id} className={`flex items-start ${cancelled ? 'opacity-60' : ''}`}>
+                            <div className="flex-shrink-0 w-40 text-sm font-medium text-primary-600">
+                              {formatTimeRange(session.startTime, session.endTime, event.timezone)}
+                            </div>
+                            <div className="flex-1">
+                              <p className="font-medium text-gray-900">
+                                {session.title}
+                                {cancelled ? (
+                                  <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">
+                                    Cancelled
+                                  </span>
+                                ) : left === 0 && (
+                                  <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                                    Full
+                                  </span>
+                                )}
+                              </p>
+                              {session.description && (
+                                <p className="text-sm text-gray-700 mt-1">{session.description}</p>
+                              )}
+                              {session.speakers.length > 0 && (
+                                <p className="text-sm text-gray-600 mt-1">
+                                  {session.speakers
+                                    .map(speaker => speaker.title ? `${speaker.name}, ${speaker.title}` : speaker.name)
+                                    .join(' · ')}
+                                </p>
+                              )}
+                              <p className="text-xs text-gray-500 mt-1">
+                                {session.location && `${session.location} · `}
+                                {left === null ? 'Open seating' : `${left} spot${left === 1 ? '' : 's'} left`}
+                              </p>
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
                   </div>
-                  <div className="text-gray-700">{item.item}</div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
-          </div>
-          
-          {/* Registration Status */}
-          <div className="bg-gray-50 rounded-lg p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="text-lg font-medium text-gray-900">Registration Status</h3>
-                <p className="text-gray-600">
-                  {event.maxAttendees - event.currentAttendees} spots remaining
-                </p>
-                <div className="mt-2 bg-gray-200 rounded-full h-2">
-                  <div 
-                    className="bg-primary-600 h-2 rounded-full" 
-                    style={{ width: `${(event.currentAttendees / event.maxAttendees) * 100}%` }}
+          )}
+
+          {/* Registration */}
+          {hasAgenda ? (
+            <div id="register" className="bg-gray-50 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Register for Sessions</h3>
+
+              {registrations.length > 0 && (
+                <div className="mb-6 rounded-md bg-green-50 border border-green-200 p-4 flex items-start">
+                  <CheckCircleIcon className="h-5 w-5 text-green-600 mr-2 flex-shrink-0" />
+                  <div className="text-sm text-green-800">
+                    <p className="font-medium">
+                      {registrations.some(r => r.status === 'pending')
+                        ? 'Registration received. The organizer will confirm your seats.'
+                        : 'You\'re registered! A confirmation is on its way to your inbox.'}
+                    </p>
+                    <ul className="mt-2 space-y-1">
+                      {registrations.map(registration => (
+                        <li key={registration.bookingId}>
+                          {sessions.find(s => s.id === registration.sessionId)?.title}:{' '}
+                          <Link
+                            to={`/booking/manage?ref=${encodeURIComponent(registration.bookingReference)}&email=${encodeURIComponent(form.email)}`}
+                            className="font-mono underline"
+                          >
+                            {registration.bookingReference}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleRegister} className="space-y-4">
+                <fieldset>
+                  <legend className="text-sm font-medium text-gray-700 mb-2">Sessions</legend>
+                  <div className="space-y-2">
+                    {sessions.map(session => {
+                      const open = isSessionOpen(session, event.max_attendees)
+
+                      return (
+                        <label
+                          key={session.id}
+                          className={`flex items-center text-sm ${open ? 'text-gray-900' : 'text-gray-400'}`}
+                        >
+                          <input
+                            type="checkbox"
+                            className="mr-2"
+                            checked={selected.includes(session.id)}
+                            disabled={!open || registering}
+                            onChange={() => toggleSession(session.id)}
+                          />
+                          {session.title}
+                          <span className="ml-2 text-gray-500">
+                            {formatDateInTimeZone(session.startTime, event.timezone)},{' '}
+                            {formatTimeRange(session.startTime, session.endTime, event.timezone)}
+                          </span>
+                        </label>
+                      )
+                    })}
+                  </div>
+                </fieldset>
+
+                {overlap && (
+                  <p className="text-sm text-yellow-700">
+                    "{overlap[0].title}" and "{overlap[1].title}" run at the same time. Choose one of them.
+                  </p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">
+                      First name
+                    </label>
+                    <input
+                      type="text"
+                      id="firstName"
+                      className="input-field mt-1"
+                      value={form.firstName}
+                      onChange={(e) => setForm(prev => ({ ...prev, firstName: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">
+                      Last name
+                    </label>
+                    <input
+                      type="text"
+                      id="lastName"
+                      className="input-field mt-1"
+                      value={form.lastName}
+                      onChange={(e) => setForm(prev => ({ ...prev, lastName: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                      Email
+                    </label>
+                    <input
+                      type="email"
+                      id="email"
+                      className="input-field mt-1"
+                      value={form.email}
+                      onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+                      Phone (optional)
+                    </label>
+                    <input
+                      type="tel"
+                      id="phone"
+                      className="input-field mt-1"
+                      value={form.phone}
+                      onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                    Notes (optional)
+                  </label>
+                  <textarea
+                    id="notes"
+                    rows={2}
+                    className="input-field mt-1"
+                    value={form.notes}
+                    onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
                   />
                 </div>
+
+                {registerError && <p className="text-sm text-red-600">{registerError}</p>}
+
+                <button
+                  type="submit"
+                  className="btn-primary"
+                  disabled={registering || selected.length === 0 || overlap !== null}
+                >
+                  {registering
+                    ? 'Registering...'
+                    : `Register for ${selected.length || ''} Session${selected.length === 1 ? '' : 's'}`}
+                </button>
+              </form>
+            </div>
+          ) : (
+            <div className="bg-gray-50 rounded-lg p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">Registration</h3>
+                  {eventSpotsLeft !== null && event.max_attendees ? (
+                    <>
+                      <p className="text-gray-600">{eventSpotsLeft} spots remaining</p>
+                      <div className="mt-2 bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary-600 h-2 rounded-full"
+                          style={{ width: `${Math.min(100, (event.current_attendees / event.max_attendees) * 100)}%` }}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-gray-600">Pick a time that works for you</p>
+                  )}
+                </div>
+                <Link
+                  to={`/book/${event.id}`}
+                  className="btn-primary"
+                >
+                  Register Now
+                </Link>
               </div>
-              <Link 
-                to={`/book/${event.id}`}
-                className="btn-primary"
-              >
-                Register Now
-              </Link>
             </div>
-          </div>
+          )}
         </div>
       </div>
-      
+
       {/* Additional Information */}
-      <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">What to Bring</h3>
-          <ul className="space-y-2 text-gray-700">
-            <li>• Laptop or notebook for exercises</li>
-            <li>• Any current product roadmaps (optional)</li>
-            <li>• Questions about your product challenges</li>
-          </ul>
-        </div>
-        
-        <div className="bg-white rounded-lg shadow p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Cancellation Policy</h3>
-          <p className="text-gray-700">
-            Free cancellation up to 24 hours before the event. 
-            No-shows will be charged the full amount.
-          </p>
-        </div>
+      <div className="mt-8 bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Cancellation Policy</h3>
+        <p className="text-gray-700">
+          {event.allow_cancellation
+            ? event.cancellation_deadline > 0
+              ? `Free cancellation up to ${event.cancellation_deadline} hour${event.cancellation_deadline === 1 ? '' : 's'} before the start.`
+              : 'Free cancellation any time before the start.'
+            : 'Registrations can\'t be cancelled online. Contact the organizer for changes.'}
+        </p>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
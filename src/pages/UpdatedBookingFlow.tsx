@@ -7,11 +7,13 @@ import { ArrowLeftIcon } from '@heroicons/react/24/outline'
 import { EnhancedSlotSelector } from '../components/booking/EnhancedSlotSelector'
 import { EnhancedBookingForm } from '../components/booking/EnhancedBookingForm'
 import { EnhancedBookingConfirmation } from '../components/booking/EnhancedBookingConfirmation'
+import { CheckoutStep } from '../components/booking/CheckoutStep'
+import type { CustomField } from '../types/database'
 
 // These would be passed in as props from the booking store/service
 interface UpdatedBookingFlowPageProps {
   // Current state
-  currentStep: 'select-slot' | 'fill-details' | 'completed'
+  currentStep: 'select-slot' | 'fill-details' | 'checkout' | 'completed'
   
   // Data
   slots: any[]
@@ -19,6 +21,8 @@ interface UpdatedBookingFlowPageProps {
   selectedQuantity: number
   formData: any
   booking: any | null
+  // Pending payment for a paid slot: { amount, currency, ... }
+  checkout?: any | null
   
   // Status
   loading: boolean
@@ -26,12 +30,26 @@ interface UpdatedBookingFlowPageProps {
   timeRemaining: number
   lastRefresh?: Date
   
+  // Time zones: display zone (invitee) and the event's zone (organizer)
+  timeZone?: string
+  eventTimeZone?: string
+  
+  // Waitlist positions for full slots the invitee joined, keyed by slot ID
+  waitlistPositions?: Record<string, number>
+  
+  // The event's intake questions (events.custom_fields)
+  customFields?: CustomField[]
+  
   // Actions from booking service/store
   onSelectSlot: (slot: any, quantity: number) => void
   onUpdateFormData: (data: any) => void
   onConfirmBooking: () => void
+  onPay?: () => void
+  onBackToDetails?: () => void
   onCancelBooking: () => void
   onRefreshSlots?: () => void
+  onTimeZoneChange?: (timeZone: string) => void
+  onJoinWaitlist?: (slot: any, data: any, quantity: number) => Promise<boolean>
   onClose: () => void
 }
 
@@ -42,22 +60,33 @@ export function UpdatedBookingFlowPage({
   selectedQuantity,
   formData,
   booking,
+  checkout,
   loading,
   error,
   timeRemaining,
   lastRefresh,
+  timeZone,
+  eventTimeZone,
+  waitlistPositions,
+  customFields,
   onSelectSlot,
   onUpdateFormData,
   onConfirmBooking,
+  onPay,
+  onBackToDetails,
   onCancelBooking,
   onRefreshSlots,
+  onTimeZoneChange,
+  onJoinWaitlist,
   onClose
 }: UpdatedBookingFlowPageProps) {
   const { eventId } = useParams<{ eventId: string }>()
   const navigate = useNavigate()
 
   const handleBack = () => {
-    if (currentStep === 'fill-details') {
+    if (currentStep === 'checkout' && onBackToDetails) {
+      onBackToDetails()
+    } else if (currentStep === 'fill-details' || currentStep === 'checkout') {
       if (confirm('Going back will release your slot reservation. Continue?')) {
         onCancelBooking()
       }
@@ -70,6 +99,7 @@ export function UpdatedBookingFlowPage({
     switch (currentStep) {
       case 'select-slot': return 'Select Time Slot'
       case 'fill-details': return 'Enter Your Details'
+      case 'checkout': return 'Payment'
       case 'completed': return 'Booking Confirmed'
       default: return 'Book Your Spot'
     }
@@ -79,6 +109,7 @@ export function UpdatedBookingFlowPage({
     switch (currentStep) {
       case 'select-slot': return 'Choose your preferred time slot and quantity'
       case 'fill-details': return 'Complete your booking information'
+      case 'checkout': return 'Pay to confirm your booking'
       case 'completed': return 'Your booking has been confirmed'
       default: return ''
     }
@@ -152,10 +183,12 @@ export function UpdatedBookingFlowPage({
                     h-10 w-10 rounded-full flex items-center justify-center font-semibold text-sm
                     ${currentStep === 'fill-details' 
                       ? 'bg-primary-600 text-white' 
+                      : currentStep === 'checkout'
+                      ? 'bg-green-500 text-white'
                       : 'bg-gray-300 text-gray-600'
                     }
                   `}>
-                    2
+                    {currentStep === 'checkout' ? '✓' : '2'}
                   </div>
                   <span className={`
                     ml-2 text-sm font-medium
@@ -164,6 +197,31 @@ export function UpdatedBookingFlowPage({
                     Your Details
                   </span>
                 </div>
+
+                {/* Paid slots only */}
+                {selectedSlot?.price > 0 && (
+                  <>
+                    <div className="h-0.5 w-12 bg-gray-300 mx-2"></div>
+
+                    <div className="flex items-center">
+                      <div className={`
+                        h-10 w-10 rounded-full flex items-center justify-center font-semibold text-sm
+                        ${currentStep === 'checkout' 
+                          ? 'bg-primary-600 text-white' 
+                          : 'bg-gray-300 text-gray-600'
+                        }
+                      `}>
+                        3
+                      </div>
+                      <span className={`
+                        ml-2 text-sm font-medium
+                        ${currentStep === 'checkout' ? 'text-gray-900' : 'text-gray-500'}
+                      `}>
+                        Payment
+                      </span>
+                    </div>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -187,6 +245,11 @@ export function UpdatedBookingFlowPage({
                 lastRefresh={lastRefresh}
                 onSelectSlot={onSelectSlot}
                 onRefresh={onRefreshSlots}
+                timeZone={timeZone}
+                eventTimeZone={eventTimeZone}
+                onTimeZoneChange={onTimeZoneChange}
+                onJoinWaitlist={onJoinWaitlist}
+                waitlistPositions={waitlistPositions}
               />
             )}
 
@@ -200,6 +263,22 @@ export function UpdatedBookingFlowPage({
                 onSubmit={onConfirmBooking}
                 onCancel={onCancelBooking}
                 loading={loading}
+                timeZone={timeZone}
+                customFields={customFields}
+              />
+            )}
+
+            {currentStep === 'checkout' && selectedSlot && onPay && (
+              <CheckoutStep
+                selectedSlot={selectedSlot}
+                selectedQuantity={selectedQuantity}
+                amount={checkout?.amount}
+                currency={checkout?.currency}
+                timeRemaining={timeRemaining}
+                onPay={onPay}
+                onBack={onBackToDetails || onCancelBooking}
+                loading={loading}
+                timeZone={timeZone}
               />
             )}
 
@@ -254,9 +333,13 @@ export function UpdatedBookingFlowPage({
 
 // Example usage with booking store/service from PR #41:
 /*
+import { useEffect } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useBookingStore } from '../stores/bookingStore'
 
 export function UpdatedBookingFlowPageContainer() {
+  const { eventId } = useParams<{ eventId: string }>()
+  const [searchParams] = useSearchParams()
   const {
     currentStep,
     slots,
@@ -264,17 +347,31 @@ export function UpdatedBookingFlowPageContainer() {
     selectedQuantity,
     formData,
     booking,
+    checkout,
     loading,
     error,
     timeRemaining,
+    timeZone,
+    waitlistEntries,
     selectSlot,
     updateFormData,
     confirmBooking,
+    payForBooking,
+    backToDetails,
     cancelBooking,
     resetBooking,
-    refreshSlots
+    refreshSlots,
+    setTimeZone,
+    joinWaitlist,
+    claimWaitlistOffer
   } = useBookingStore()
 
+  // Arriving from a waitlist_spot_available notification
+  const waitlistId = searchParams.get('waitlist')
+  useEffect(() => {
+    if (waitlistId) claimWaitlistOffer(waitlistId)
+  }, [waitlistId])
+
   return (
     <UpdatedBookingFlowPage
       currentStep={currentStep}
@@ -283,14 +380,23 @@ export function UpdatedBookingFlowPageContainer() {
       selectedQuantity={selectedQuantity}
       formData={formData}
       booking={booking}
+      checkout={checkout}
       loading={loading}
       error={error}
       timeRemaining={timeRemaining}
+      timeZone={timeZone}
+      waitlistPositions={Object.fromEntries(
+        Object.values(waitlistEntries).map(entry => [entry.slotId, entry.position])
+      )}
       onSelectSlot={selectSlot}
       onUpdateFormData={updateFormData}
       onConfirmBooking={confirmBooking}
+      onPay={payForBooking}
+      onBackToDetails={backToDetails}
       onCancelBooking={cancelBooking}
       onRefreshSlots={refreshSlots}
+      onTimeZoneChange={setTimeZone}
+      onJoinWaitlist={(slot, data, quantity) => joinWaitlist(eventId!, slot, data, quantity)}
       onClose={resetBooking}
     />
   )
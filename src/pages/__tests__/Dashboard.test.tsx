@@ -1,7 +1,19 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import { BrowserRouter } from 'react-router-dom'
 import { Dashboard } from '../Dashboard'
+import { useAuth } from '../../hooks/useAuth'
+import { dashboardService } from '../../services/dashboardService'
+
+vi.mock('../../hooks/useAuth')
+vi.mock('../../services/dashboardService', () => ({
+  dashboardService: {
+    getDashboardData: vi.fn()
+  }
+}))
+
+const mockUseAuth = useAuth as any
+const mockGetDashboardData = dashboardService.getDashboardData as any
 
 const DashboardWithRouter = () => (
   <BrowserRouter>
@@ -9,70 +21,109 @@ const DashboardWithRouter = () => (
   </BrowserRouter>
 )
 
+const inTwoDays = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString()
+
 describe('Dashboard', () => {
-  it('renders dashboard header', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockUseAuth.mockReturnValue({
+      user: { id: 'user1', email: 'jane@example.com', firstName: 'Jane', lastName: 'Doe' },
+      loading: false,
+      isAuthenticated: true
+    })
+
+    mockGetDashboardData.mockResolvedValue({
+      kpis: { upcomingBookings: 12, cancellationsThisWeek: 3, noShowRate: 7.5 },
+      fillRates: [
+        { eventId: 'e1', title: 'Team Standup', slug: 'team-standup-e1', status: 'active', bookedCount: 8, totalCapacity: 10, fillRate: 80 },
+        { eventId: 'e2', title: 'Workshop: React Basics', slug: 'workshop-e2', status: 'draft', bookedCount: 0, totalCapacity: 0, fillRate: null }
+      ],
+      agenda: [
+        {
+          bookingId: 'b1',
+          eventId: 'e1',
+          eventTitle: 'Team Standup',
+          attendeeName: 'Sam Lee',
+          email: 'sam@example.com',
+          startTime: inTwoDays,
+          endTime: null
+        }
+      ]
+    })
+  })
+
+  it('renders dashboard header', async () => {
+    render(<DashboardWithRouter />)
+
+    expect(await screen.findByText('Dashboard')).toBeInTheDocument()
+    expect(screen.getByText(/Welcome back, Jane! Here's what's happening/)).toBeInTheDocument()
+    expect(mockGetDashboardData).toHaveBeenCalledWith('user1')
+  })
+
+  it('renders create event button', async () => {
     render(<DashboardWithRouter />)
-    
-    expect(screen.getByText('Dashboard')).toBeInTheDocument()
-    expect(screen.getByText(/Welcome back! Here's what's happening/)).toBeInTheDocument()
+
+    const createEventButton = await screen.findByText('Create Event')
+    expect(createEventButton.closest('a')).toHaveAttribute('href', '/create-event')
   })
 
-  it('renders create event button', () => {
+  it('renders KPI cards', async () => {
     render(<DashboardWithRouter />)
-    
-    const createEventButtons = screen.getAllByText('Create Event')
-    expect(createEventButtons.length).toBeGreaterThan(0)
-    
-    // Check that at least one button links to create-event
-    const createEventLink = createEventButtons[0].closest('a')
-    expect(createEventLink).toHaveAttribute('href', '/create-event')
+
+    expect(await screen.findByText('Upcoming Bookings')).toBeInTheDocument()
+    expect(screen.getByText('12')).toBeInTheDocument()
+    expect(screen.getByText('Cancellations This Week')).toBeInTheDocument()
+    expect(screen.getByText('3')).toBeInTheDocument()
+    expect(screen.getByText('No-show Rate')).toBeInTheDocument()
+    expect(screen.getByText('7.5%')).toBeInTheDocument()
   })
 
-  it('renders stats cards', () => {
+  it('renders fill rate per event', async () => {
     render(<DashboardWithRouter />)
-    
-    expect(screen.getByText('Total Events')).toBeInTheDocument()
-    expect(screen.getByText('Total Bookings')).toBeInTheDocument()
-    expect(screen.getByText('This Month')).toBeInTheDocument()
+
+    expect(await screen.findByText('Fill Rate')).toBeInTheDocument()
+    expect(screen.getByText('8/10 seats · 80%')).toBeInTheDocument()
+    expect(screen.getByText('No upcoming slots')).toBeInTheDocument()
+    expect(screen.getByText('Workshop: React Basics').closest('a')).toHaveAttribute('href', '/admin/events/workshop-e2')
   })
 
-  it('renders recent events section', () => {
+  it('renders the next 7 days agenda', async () => {
     render(<DashboardWithRouter />)
-    
-    expect(screen.getByText('Recent Events')).toBeInTheDocument()
-    expect(screen.getByText('View all')).toBeInTheDocument()
-    
-    // Check for mock events
-    expect(screen.getByText('Team Standup')).toBeInTheDocument()
-    expect(screen.getByText('Product Demo')).toBeInTheDocument()
-    expect(screen.getByText('Workshop: React Basics')).toBeInTheDocument()
+
+    expect(await screen.findByText('Next 7 Days')).toBeInTheDocument()
+    expect(screen.getByText('Sam Lee (sam@example.com)')).toBeInTheDocument()
   })
 
-  it('renders quick actions section', () => {
+  it('renders quick actions section', async () => {
     render(<DashboardWithRouter />)
-    
-    expect(screen.getByText('Set up a new event or booking page')).toBeInTheDocument()
+
+    expect(await screen.findByText('Set up a new event or booking page')).toBeInTheDocument()
     expect(screen.getByText('Edit and organize your events')).toBeInTheDocument()
-    expect(screen.getByText('View detailed insights and reports')).toBeInTheDocument()
   })
 
-  it('has correct navigation links', () => {
+  it('has correct navigation links', async () => {
     render(<DashboardWithRouter />)
-    
-    const viewAllLink = screen.getByText('View all').closest('a')
+
+    const viewAllLink = (await screen.findByText('View all')).closest('a')
     expect(viewAllLink).toHaveAttribute('href', '/admin/events')
-    
+
     const manageEventsLink = screen.getByText('Manage Events').closest('a')
     expect(manageEventsLink).toHaveAttribute('href', '/admin/events')
-    
-    const analyticsLink = screen.getByText('Analytics').closest('a')
-    expect(analyticsLink).toHaveAttribute('href', '/analytics')
   })
 
-  it('displays event status badges', () => {
+  it('displays event status badges', async () => {
     render(<DashboardWithRouter />)
-    
-    expect(screen.getAllByText('active').length).toBeGreaterThan(0)
+
+    expect(await screen.findByText('active')).toBeInTheDocument()
     expect(screen.getByText('draft')).toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('shows an error when loading fails', async () => {
+    mockGetDashboardData.mockRejectedValue(new Error('boom'))
+
+    render(<DashboardWithRouter />)
+
+    expect(await screen.findByText('Error loading dashboard: boom')).toBeInTheDocument()
+  })
+})
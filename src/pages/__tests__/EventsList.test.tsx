@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import { BrowserRouter } from 'react-router-dom'
+import { EventsList } from '../EventsList'
+import { eventService, PublicEventPage } from '../../services/eventService'
+import type { Event } from '../../types'
+
+vi.mock('../../services/eventService', () => ({
+  eventService: {
+    searchPublicEvents: vi.fn()
+  }
+}))
+
+const mockSearch = vi.mocked(eventService.searchPublicEvents)
+
+const EventsListWithRouter = () => (
+  <BrowserRouter>
+    <EventsList />
+  </BrowserRouter>
+)
+
+const event = (id: string, title: string) => ({
+  id,
+  title,
+  type: 'workshop',
+  duration: 60,
+  bufferTime: 0,
+  isOnline: true,
+  requiresApproval: false,
+  allowCancellation: true,
+  cancellationDeadline: 24,
+  status: 'active',
+  tags: []
+}) as unknown as Event
+
+describe('EventsList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('appends the next page when loading more', async () => {
+    mockSearch
+      .mockResolvedValueOnce({ events: [event('e1', 'Yoga basics')], nextCursor: 'c1' })
+      .mockResolvedValueOnce({ events: [event('e2', 'Pottery night')], nextCursor: null })
+    render(<EventsListWithRouter />)
+
+    fireEvent.click(await screen.findByText('Load more events'))
+
+    expect(await screen.findByText('Pottery night')).toBeInTheDocument()
+    expect(screen.getByText('Yoga basics')).toBeInTheDocument()
+    expect(mockSearch).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'c1' }))
+  })
+
+  it('drops a page that arrives after the filters changed', async () => {
+    let resolveMore: (page: PublicEventPage) => void = () => {}
+    mockSearch
+      .mockResolvedValueOnce({ events: [event('e1', 'Yoga basics')], nextCursor: 'c1' })
+      .mockReturnValueOnce(new Promise(resolve => { resolveMore = resolve }))
+      .mockResolvedValueOnce({ events: [event('e3', 'Team offsite')], nextCursor: null })
+    render(<EventsListWithRouter />)
+
+    fireEvent.click(await screen.findByText('Load more events'))
+    fireEvent.change(screen.getByDisplayValue('All'), { target: { value: 'conference' } })
+    expect(await screen.findByText('Team offsite')).toBeInTheDocument()
+
+    await act(async () => {
+      resolveMore({ events: [event('e2', 'Pottery night')], nextCursor: 'c2' })
+    })
+
+    expect(screen.queryByText('Pottery night')).not.toBeInTheDocument()
+    expect(screen.queryByText('Yoga basics')).not.toBeInTheDocument()
+    expect(screen.queryByText('Load more events')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../lib/supabase'
+import { approvalService, toApprovalRequest, sortApprovalRequests } from '../approvalService'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const row = (overrides: Record<string, any> = {}) => ({
+  id: 'b1',
+  booking_reference: 'A1B2C3D4',
+  event_id: 'e1',
+  first_name: 'Sam',
+  last_name: 'Lee',
+  email: 'sam@example.com',
+  phone: null,
+  notes: 'First time',
+  quantity: 2,
+  date: '2024-05-16',
+  time: '09:00:00',
+  created_at: '2024-05-14T08:00:00Z',
+  approval_expires_at: '2024-05-16T08:00:00Z',
+  event: { title: 'Workshop' },
+  slot: { start_time: '2024-05-16T09:00:00Z', end_time: '2024-05-16T10:00:00Z' },
+  ...overrides
+})
+
+describe('approvalService', () => {
+  describe('toApprovalRequest', () => {
+    it('maps a pending booking row', () => {
+      expect(toApprovalRequest(row())).toEqual({
+        bookingId: 'b1',
+        bookingReference: 'A1B2C3D4',
+        eventId: 'e1',
+        eventTitle: 'Workshop',
+        attendeeName: 'Sam Lee',
+        email: 'sam@example.com',
+        phone: null,
+        notes: 'First time',
+        quantity: 2,
+        startTime: '2024-05-16T09:00:00Z',
+        endTime: '2024-05-16T10:00:00Z',
+        requestedAt: '2024-05-14T08:00:00Z',
+        expiresAt: '2024-05-16T08:00:00Z'
+      })
+    })
+
+    it('tolerates bookings without a slot', () => {
+      const request = toApprovalRequest(row({ slot: null, event: null }))
+      expect(request.startTime).toBeNull()
+      expect(request.eventTitle).toBe('Event')
+    })
+  })
+
+  describe('sortApprovalRequests', () => {
+    it('puts the requests closest to expiring first', () => {
+      const sorted = sortApprovalRequests([
+        toApprovalRequest(row({ id: 'late', approval_expires_at: '2024-05-20T00:00:00Z' })),
+        toApprovalRequest(row({ id: 'soon', approval_expires_at: '2024-05-15T00:00:00Z' }))
+      ])
+      expect(sorted.map(r => r.bookingId)).toEqual(['soon', 'late'])
+    })
+  })
+
+  describe('decisions', () => {
+    beforeEach(() => {
+      rpc.mockReset()
+      rpc.mockResolvedValue({ data: true, error: null } as any)
+    })
+
+    it('approves through approve_booking', async () => {
+      await approvalService.approve('b1')
+      expect(rpc).toHaveBeenCalledWith('approve_booking', { p_booking_id: 'b1' })
+    })
+
+    it('declines with a trimmed reason, or none', async () => {
+      await approvalService.decline('b1', '  Fully staffed  ')
+      expect(rpc).toHaveBeenCalledWith('decline_booking', { p_booking_id: 'b1', p_reason: 'Fully staffed' })
+
+      await approvalService.decline('b2', '   ')
+      expect(rpc).toHaveBeenLastCalledWith('decline_booking', { p_booking_id: 'b2', p_reason: null })
+    })
+
+    it('surfaces server errors', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'Approval request has expired' } } as any)
+      await expect(approvalService.approve('b1')).rejects.toMatchObject({ message: 'Approval request has expired' })
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { validateOverride } from '../availabilityOverrideService'
+import {
+  mapDomainAvailabilityOverrideToDBInsert,
+  mapDomainAvailabilityOverrideToDBUpdate,
+  AvailabilityOverrideInput
+} from '../../types'
+
+const input = (overrides: Partial<AvailabilityOverrideInput> = {}): AvailabilityOverrideInput => ({
+  startDate: '2024-03-01',
+  endDate: '2024-03-05',
+  type: 'unavailable',
+  recurring: false,
+  ...overrides
+})
+
+describe('availabilityOverrideService', () => {
+  describe('validateOverride', () => {
+    it('accepts an all-day override', () => {
+      expect(validateOverride(input())).toBeNull()
+    })
+
+    it('rejects an end date before the start date', () => {
+      expect(validateOverride(input({ endDate: '2024-02-28' }))).toMatch(/end date/i)
+    })
+
+    it('requires times in pairs and in order', () => {
+      expect(validateOverride(input({ startTime: '09:00' }))).toMatch(/both/i)
+      expect(validateOverride(input({ startTime: '12:00', endTime: '11:00' }))).toMatch(/after/i)
+      expect(validateOverride(input({ startTime: '09:00', endTime: '11:00' }))).toBeNull()
+    })
+
+    it('requires weekdays for recurring overrides', () => {
+      expect(validateOverride(input({ recurring: true, daysOfWeek: [] }))).toMatch(/weekday/i)
+      expect(validateOverride(input({ recurring: true, daysOfWeek: [1, 3] }))).toBeNull()
+    })
+  })
+
+  describe('mappers', () => {
+    it('omits empty optional fields on insert', () => {
+      const row = mapDomainAvailabilityOverrideToDBInsert(input({ reason: '' }), 'u1')
+      expect(row).toMatchObject({ user_id: 'u1', start_date: '2024-03-01', type: 'unavailable' })
+      expect(row.reason).toBeUndefined()
+      expect(row.start_time).toBeUndefined()
+    })
+
+    it('stores recurring weekdays as a weekly pattern', () => {
+      const row = mapDomainAvailabilityOverrideToDBInsert(input({ recurring: true, daysOfWeek: [1, 3] }), 'u1')
+      expect(row.recurring).toBe(true)
+      expect(row.recurrence_pattern).toMatchObject({ days_of_week: [1, 3] })
+    })
+
+    it('clears removed fields on update', () => {
+      const row = mapDomainAvailabilityOverrideToDBUpdate(input())
+      expect(row.start_time).toBeNull()
+      expect(row.end_time).toBeNull()
+      expect(row.reason).toBeNull()
+      expect(row.recurrence_pattern).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest'
+import { supabase } from '../../lib/supabase'
+import {
+  dashboardService,
+  startOfWeek,
+  computeKpis,
+  computeFillRates,
+  buildAgenda
+} from '../dashboardService'
+
+// Wednesday 10:00 local time
+const now = new Date(2024, 4, 15, 10, 0, 0)
+
+const booking = (overrides: Record<string, any> = {}) => ({
+  id: 'b1',
+  event_id: 'e1',
+  first_name: 'Sam',
+  last_name: 'Lee',
+  email: 'sam@example.com',
+  status: 'confirmed' as const,
+  date: '2024-05-16',
+  time: '09:00:00',
+  cancelled_at: null,
+  slot: null,
+  ...overrides
+})
+
+const events = [
+  { id: 'e1', title: 'Standup', slug: 'standup-e1', status: 'active' as const },
+  { id: 'e2', title: 'Workshop', slug: 'workshop-e2', status: 'draft' as const }
+]
+
+describe('dashboardService', () => {
+  describe('startOfWeek', () => {
+    it('returns the preceding Monday at midnight', () => {
+      const start = startOfWeek(now)
+      expect(start.getDay()).toBe(1)
+      expect(start.getDate()).toBe(13)
+      expect(start.getHours()).toBe(0)
+    })
+
+    it('treats Sunday as the end of the week', () => {
+      const start = startOfWeek(new Date(2024, 4, 19, 12))
+      expect(start.getDate()).toBe(13)
+    })
+  })
+
+  describe('computeKpis', () => {
+    it('counts upcoming pending and confirmed bookings only', () => {
+      const kpis = computeKpis([
+        booking(),
+        booking({ id: 'b2', status: 'pending' }),
+        booking({ id: 'b3', status: 'cancelled' }),
+        booking({ id: 'b4', date: '2024-05-01' })
+      ], [], now)
+
+      expect(kpis.upcomingBookings).toBe(2)
+    })
+
+    it('prefers the slot start time over date/time columns', () => {
+      const kpis = computeKpis([
+        booking({ slot: { start_time: '2024-05-01T09:00:00Z', end_time: '2024-05-01T10:00:00Z' } })
+      ], [], now)
+
+      expect(kpis.upcomingBookings).toBe(0)
+    })
+
+    it('counts cancellations made since the start of the week', () => {
+      const kpis = computeKpis([
+        booking({ status: 'cancelled', cancelled_at: new Date(2024, 4, 14).toISOString() }),
+        booking({ id: 'b2', status: 'cancelled', cancelled_at: new Date(2024, 4, 10).toISOString() })
+      ], [], now)
+
+      expect(kpis.cancellationsThisWeek).toBe(1)
+    })
+
+    it('computes no-show rate from analytics rows', () => {
+      const kpis = computeKpis([], [
+        { no_shows: 1, attendees: 9 },
+        { no_shows: 2, attendees: 28 }
+      ], now)
+
+      expect(kpis.noShowRate).toBe(7.5)
+    })
+
+    it('adds upcoming bookings counted past the loaded window', () => {
+      expect(computeKpis([booking()], [], now, 5).upcomingBookings).toBe(6)
+    })
+
+    it('returns a null no-show rate without attendance data', () => {
+      expect(computeKpis([], [], now).noShowRate).toBeNull()
+    })
+  })
+
+  describe('computeFillRates', () => {
+    it('sums slot capacity per event', () => {
+      const rates = computeFillRates(events, [
+        { event_id: 'e1', booked_count: 3, total_capacity: 4 },
+        { event_id: 'e1', booked_count: 1, total_capacity: 4 }
+      ])
+
+      expect(rates[0]).toMatchObject({ bookedCount: 4, totalCapacity: 8, fillRate: 50 })
+      expect(rates[1]).toMatchObject({ totalCapacity: 0, fillRate: null })
+    })
+  })
+
+  describe('buildAgenda', () => {
+    it('lists confirmed bookings in the next 7 days, soonest first', () => {
+      const agenda = buildAgenda([
+        booking({ id: 'later', date: '2024-05-18' }),
+        booking({ id: 'soon', date: '2024-05-16' }),
+        booking({ id: 'pending', status: 'pending' }),
+        booking({ id: 'too-far', date: '2024-05-25' }),
+        booking({ id: 'past', date: '2024-05-14' })
+      ], events, now)
+
+      expect(agenda.map(item => item.bookingId)).toEqual(['soon', 'later'])
+      expect(agenda[0]).toMatchObject({ eventTitle: 'Standup', attendeeName: 'Sam Lee' })
+    })
+  })
+
+  describe('getDashboardData', () => {
+    it('only loads the bookings the agenda and KPIs need', async () => {
+      const queries: Record<string, any[]>[] = []
+      vi.mocked(supabase.from).mockImplementation(((table: string) => {
+        const calls: Record<string, any[]> = { table: [table] }
+        queries.push(calls)
+        const result = table === 'events'
+          ? { data: events, error: null }
+          : { data: [], count: 3, error: null }
+        const query: any = {
+          then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+        }
+        for (const method of ['select', 'eq', 'neq', 'in', 'gte', 'lt', 'order']) {
+          query[method] = (...args: any[]) => {
+            calls[method] = [...(calls[method] || []), args]
+            return query
+          }
+        }
+        return query
+      }) as any)
+
+      const data = await dashboardService.getDashboardData('u1', new Date('2024-05-15T10:00:00Z'))
+
+      const bookingQueries = queries.filter(calls => calls.table[0] === 'bookings')
+      expect(bookingQueries).toHaveLength(3)
+      expect(bookingQueries[0].gte).toEqual([['date', '2024-05-14']])
+      expect(bookingQueries[0].lt).toEqual([['date', '2024-05-23']])
+      expect(bookingQueries[1].gte).toEqual([['date', '2024-05-23']])
+      expect(bookingQueries[2].eq).toEqual([['status', 'cancelled']])
+      expect(bookingQueries[2].gte[0][0]).toBe('cancelled_at')
+      expect(data.kpis.upcomingBookings).toBe(3)
+    })
+  })
+})
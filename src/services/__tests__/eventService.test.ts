@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase, db } from '../../lib/supabase'
+import { eventService } from '../eventService'
+
+const rpc = vi.mocked(supabase.rpc)
+const getEventsStats = vi.fn()
+Object.assign(db, { getEventsStats })
+
+const eventRow = (overrides: Record<string, any> = {}) => ({
+  id: 'e1',
+  user_id: 'u1',
+  title: 'Workshop',
+  slug: 'workshop',
+  description: null,
+  type: 'workshop',
+  duration: 60,
+  buffer_time: 0,
+  location: null,
+  is_online: true,
+  max_attendees: 10,
+  requires_approval: false,
+  allow_cancellation: true,
+  cancellation_deadline: 24,
+  available_days: ['monday'],
+  time_slots: { start: '09:00', end: '17:00' },
+  status: 'active',
+  tags: ['yoga'],
+  created_at: '2024-05-01T08:00:00Z',
+  updated_at: '2024-05-01T08:00:00Z',
+  ...overrides
+})
+
+describe('eventService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('searchPublicEvents', () => {
+    it('returns a cursor when the page is full', async () => {
+      rpc.mockResolvedValueOnce({
+        data: [eventRow({ id: 'e1', relevance: 0.5 }), eventRow({ id: 'e2', relevance: 0.25 })],
+        error: null
+      } as any)
+
+      const page = await eventService.searchPublicEvents({ query: ' yoga ', tags: ['yoga'], limit: 2 })
+
+      expect(rpc).toHaveBeenCalledWith('search_events', {
+        p_query: 'yoga',
+        p_type: null,
+        p_tags: ['yoga'],
+        p_limit: 2,
+        p_cursor_relevance: null,
+        p_cursor_created_at: null,
+        p_cursor_id: null
+      })
+      expect(page.events.map(event => event.id)).toEqual(['e1', 'e2'])
+      expect(page.nextCursor).not.toBeNull()
+    })
+
+    it('passes the cursor back as the last row of the previous page', async () => {
+      rpc.mockResolvedValueOnce({
+        data: [eventRow({ id: 'e1', relevance: 0.5 }), eventRow({ id: 'e2', relevance: 0.25 })],
+        error: null
+      } as any)
+      const first = await eventService.searchPublicEvents({ limit: 2 })
+
+      rpc.mockResolvedValueOnce({ data: [eventRow({ id: 'e3', relevance: 0.1 })], error: null } as any)
+      const second = await eventService.searchPublicEvents({ limit: 2, cursor: first.nextCursor })
+
+      expect(rpc).toHaveBeenLastCalledWith('search_events', expect.objectContaining({
+        p_tags: null,
+        p_cursor_relevance: 0.25,
+        p_cursor_created_at: '2024-05-01T08:00:00Z',
+        p_cursor_id: 'e2'
+      }))
+      expect(second.nextCursor).toBeNull()
+    })
+
+    it('rejects a malformed cursor without searching', async () => {
+      await expect(eventService.searchPublicEvents({ cursor: 'not a cursor' }))
+        .rejects.toThrow('Invalid pagination cursor')
+      expect(rpc).not.toHaveBeenCalled()
+    })
+
+    it('throws search errors', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: new Error('Limit must be between 1 and 100') } as any)
+
+      await expect(eventService.searchPublicEvents({ limit: 500 }))
+        .rejects.toThrow('Limit must be between 1 and 100')
+    })
+  })
+
+  describe('getManagedEvents', () => {
+    it('attaches booking counts and paginates by the total count', async () => {
+      vi.mocked(db.getEvents).mockResolvedValueOnce({
+        data: [eventRow({ id: 'e1' }), eventRow({ id: 'e2' })],
+        error: null,
+        count: 21
+      } as any)
+      getEventsStats.mockResolvedValueOnce({
+        data: [{ event_id: 'e1', total_bookings: 3, confirmed_bookings: '2', pending_bookings: 1, cancelled_bookings: 0, attendance_rate: 50 }],
+        error: null
+      })
+
+      const result = await eventService.getManagedEvents('u1', { page: 2, limit: 10, status: 'active' })
+
+      expect(db.getEvents).toHaveBeenCalledWith('u1', { page: 2, limit: 10, status: 'active' })
+      expect(getEventsStats).toHaveBeenCalledTimes(1)
+      expect(getEventsStats).toHaveBeenCalledWith(['e1', 'e2'])
+      expect(result.data?.map(event => event.stats)).toEqual([
+        { totalBookings: 3, confirmedBookings: 2, pendingBookings: 1, cancelledBookings: 0, attendanceRate: 50 },
+        { totalBookings: 0, confirmedBookings: 0, pendingBookings: 0, cancelledBookings: 0, attendanceRate: 0 }
+      ])
+      expect(result.pagination).toEqual({ page: 2, limit: 10, total: 21, totalPages: 3 })
+    })
+
+    it('still lists events when their counts fail to load', async () => {
+      vi.mocked(db.getEvents).mockResolvedValueOnce({ data: [eventRow({ id: 'e1' })], error: null, count: 1 } as any)
+      getEventsStats.mockResolvedValueOnce({ data: null, error: new Error('stats unavailable') })
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await eventService.getManagedEvents('u1', { page: 1, limit: 10 })
+
+      expect(result.data?.[0].stats).toEqual({
+        totalBookings: 0, confirmedBookings: 0, pendingBookings: 0, cancelledBookings: 0, attendanceRate: 0
+      })
+      consoleError.mockRestore()
+    })
+
+    it('throws query errors', async () => {
+      vi.mocked(db.getEvents).mockResolvedValueOnce({ data: null, error: new Error('denied'), count: null } as any)
+
+      await expect(eventService.getManagedEvents('u1', { page: 1, limit: 10 })).rejects.toThrow('denied')
+    })
+  })
+
+  describe('getStatusCounts', () => {
+    it('counts events per status', async () => {
+      const eq = vi.fn().mockResolvedValue({
+        data: [{ status: 'active' }, { status: 'draft' }, { status: 'active' }],
+        error: null
+      })
+      vi.mocked(supabase.from).mockReturnValueOnce({ select: () => ({ eq }) } as any)
+
+      const counts = await eventService.getStatusCounts('u1')
+
+      expect(eq).toHaveBeenCalledWith('user_id', 'u1')
+      expect(counts).toEqual({ draft: 1, active: 2, paused: 0, completed: 0, cancelled: 0 })
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../lib/supabase'
+import { notificationService, notificationLink, toNotificationItem } from '../notificationService'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const row = (overrides: Record<string, any> = {}) => ({
+  id: 'n1',
+  user_id: 'u1',
+  type: 'booking_approved' as const,
+  title: 'Booking Approved',
+  message: 'Your booking for "Workshop" has been approved.',
+  event_id: 'e1',
+  booking_id: 'b1',
+  is_read: false,
+  sent_via_email: true,
+  sent_via_sms: false,
+  data: {},
+  created_at: '2024-05-14T08:00:00Z',
+  event: { slug: 'workshop', user_id: 'organizer' },
+  booking: { booking_reference: 'A1B2C3D4', email: 'sam@example.com' },
+  ...overrides
+})
+
+describe('notificationService', () => {
+  describe('notificationLink', () => {
+    it('sends attendees to their booking', () => {
+      expect(notificationLink(row(), 'u1')).toBe('/booking/manage?ref=A1B2C3D4&email=sam%40example.com')
+    })
+
+    it('sends organizers to the event admin page', () => {
+      expect(notificationLink(row({ type: 'booking_created', user_id: 'organizer' }), 'organizer'))
+        .toBe('/admin/events/workshop')
+    })
+
+    it('sends approval requests to the dashboard inbox', () => {
+      expect(notificationLink(row({ type: 'booking_approval_requested', user_id: 'organizer' }), 'organizer'))
+        .toBe('/dashboard')
+    })
+
+    it('sends waitlist offers to the booking page that claims the spot', () => {
+      const offer = row({
+        type: 'waitlist_spot_available',
+        booking_id: null,
+        booking: null,
+        data: { waitlist_id: 'w1', booking_path: '/book/e1?waitlist=w1' }
+      })
+      expect(notificationLink(offer, 'u1')).toBe('/book/e1?waitlist=w1')
+    })
+
+    it('falls back to the public event page, or nothing', () => {
+      const waitlist = row({ type: 'waitlist_spot_available', booking_id: null, booking: null })
+      expect(notificationLink(waitlist, 'u1')).toBe('/event/e1')
+
+      const system = row({ type: 'system_update', event_id: null, booking_id: null, event: null, booking: null })
+      expect(notificationLink(system, 'u1')).toBeNull()
+    })
+  })
+
+  describe('toNotificationItem', () => {
+    it('maps the row and its link', () => {
+      expect(toNotificationItem(row(), 'u1')).toMatchObject({
+        id: 'n1',
+        userId: 'u1',
+        type: 'booking_approved',
+        eventId: 'e1',
+        bookingId: 'b1',
+        isRead: false,
+        createdAt: '2024-05-14T08:00:00Z',
+        link: '/booking/manage?ref=A1B2C3D4&email=sam%40example.com'
+      })
+    })
+  })
+
+  describe('markAllRead', () => {
+    beforeEach(() => {
+      rpc.mockReset()
+    })
+
+    it('marks every type unless one is given', async () => {
+      rpc.mockResolvedValueOnce({ data: 3, error: null } as any)
+      await expect(notificationService.markAllRead()).resolves.toBe(3)
+      expect(rpc).toHaveBeenCalledWith('mark_all_notifications_read', { p_type: null })
+
+      rpc.mockResolvedValueOnce({ data: 1, error: null } as any)
+      await notificationService.markAllRead('booking_reminder')
+      expect(rpc).toHaveBeenLastCalledWith('mark_all_notifications_read', { p_type: 'booking_reminder' })
+    })
+
+    it('throws the RPC error', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'denied' } } as any)
+      await expect(notificationService.markAllRead()).rejects.toEqual({ message: 'denied' })
+    })
+  })
+})
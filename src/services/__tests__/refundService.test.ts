@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../lib/supabase'
+import {
+  refundService,
+  toRefundLedgerEntry,
+  toUnbookedPaymentEntry,
+  sortRefundLedger,
+  summarizeRefundLedger,
+  RefundLedgerEntry
+} from '../refundService'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const details = { first_name: 'Sam', last_name: 'Lee', email: 'sam@example.com' }
+
+const refundRow = (overrides: Record<string, any> = {}) => ({
+  id: 'r1',
+  payment_id: 'pay1',
+  provider: 'fake',
+  amount: '15.00',
+  currency: 'EUR',
+  percent: 50,
+  reason: 'Cancelled after the deadline',
+  status: 'succeeded' as const,
+  failure_reason: null,
+  created_at: '2024-05-02T08:00:00Z',
+  settled_at: '2024-05-02T08:00:01Z',
+  payment: { amount: '30.00', provider_payment_id: 'fake_pay_1', booking_details: details },
+  booking: { booking_reference: 'A1B2C3D4' },
+  ...overrides
+})
+
+const paymentRow = {
+  id: 'pay2',
+  provider: 'fake',
+  provider_payment_id: 'fake_pay_2',
+  amount: '30.00',
+  currency: 'EUR',
+  failure_reason: 'Reservation expired before payment was confirmed',
+  booking_details: details,
+  settled_at: '2024-05-03T08:00:00Z',
+  created_at: '2024-05-03T07:50:00Z',
+  refunds: []
+}
+
+const entry = (overrides: Partial<RefundLedgerEntry>): RefundLedgerEntry => ({
+  ...toRefundLedgerEntry(refundRow()),
+  ...overrides
+})
+
+describe('refundService', () => {
+  describe('toRefundLedgerEntry', () => {
+    it('maps a refund with its payment and booking', () => {
+      expect(toRefundLedgerEntry(refundRow())).toMatchObject({
+        paymentId: 'pay1',
+        refundId: 'r1',
+        bookingReference: 'A1B2C3D4',
+        attendeeName: 'Sam Lee',
+        email: 'sam@example.com',
+        paidAmount: 30,
+        amount: 15,
+        percent: 50,
+        status: 'succeeded'
+      })
+    })
+  })
+
+  describe('toUnbookedPaymentEntry', () => {
+    it('offers a full refund that has not started yet', () => {
+      expect(toUnbookedPaymentEntry(paymentRow)).toMatchObject({
+        paymentId: 'pay2',
+        refundId: null,
+        bookingReference: null,
+        amount: 30,
+        percent: 100,
+        status: 'not_started',
+        reason: 'Reservation expired before payment was confirmed'
+      })
+    })
+  })
+
+  describe('sortRefundLedger', () => {
+    it('lists entries needing action first, then newest first', () => {
+      const sorted = sortRefundLedger([
+        entry({ refundId: 'old', status: 'succeeded', createdAt: '2024-05-01T00:00:00Z' }),
+        entry({ refundId: 'new', status: 'succeeded', createdAt: '2024-05-03T00:00:00Z' }),
+        entry({ refundId: 'pending', status: 'pending' }),
+        entry({ refundId: 'failed', status: 'failed' })
+      ])
+
+      expect(sorted.map(e => e.refundId)).toEqual(['failed', 'pending', 'new', 'old'])
+    })
+  })
+
+  describe('summarizeRefundLedger', () => {
+    it('totals refunds per currency and counts entries needing action', () => {
+      expect(summarizeRefundLedger([
+        entry({ amount: 15, currency: 'EUR' }),
+        entry({ amount: 10.1, currency: 'EUR' }),
+        entry({ amount: 20, currency: 'USD' }),
+        entry({ status: 'failed' }),
+        entry({ status: 'not_started' }),
+        entry({ status: 'pending' })
+      ])).toEqual({
+        refunded: { EUR: 25.1, USD: 20 },
+        needsAttention: 2
+      })
+    })
+  })
+
+  describe('refund', () => {
+    beforeEach(() => {
+      rpc.mockReset()
+      rpc.mockResolvedValue({ data: null, error: null } as any)
+    })
+
+    it('records a refund for an unbooked payment for the refund worker', async () => {
+      await refundService.refund(toUnbookedPaymentEntry(paymentRow))
+
+      expect(rpc).toHaveBeenCalledTimes(1)
+      expect(rpc).toHaveBeenCalledWith('refund_unbooked_payment', { p_payment_id: 'pay2' })
+    })
+
+    it('queues a failed refund again', async () => {
+      await refundService.refund(entry({ status: 'failed' }))
+
+      expect(rpc).toHaveBeenCalledTimes(1)
+      expect(rpc).toHaveBeenCalledWith('retry_refund', { p_refund_id: 'r1' })
+    })
+
+    it('reports refunds that cannot be queued', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'Only failed refunds can be retried' } } as any)
+
+      await expect(refundService.refund(entry({ status: 'pending' }))).rejects.toMatchObject({
+        message: 'Only failed refunds can be retried'
+      })
+    })
+  })
+})
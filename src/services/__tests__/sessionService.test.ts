@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { supabase } from '../../lib/supabase'
+import { sessionService, validateSession } from '../sessionService'
+import {
+  mapDomainEventSessionToDBInsert,
+  mapDomainEventSessionToDBUpdate,
+  EventSession,
+  EventSessionInput
+} from '../../types/session'
+
+const rpc = vi.mocked(supabase.rpc)
+
+const input = (overrides: Partial<EventSessionInput> = {}): EventSessionInput => ({
+  title: 'Opening keynote',
+  startTime: '2024-06-10T16:00:00.000Z',
+  endTime: '2024-06-10T17:00:00.000Z',
+  speakers: [],
+  ...overrides
+})
+
+describe('sessionService', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  describe('validateSession', () => {
+    it('accepts a titled session with ordered times', () => {
+      expect(validateSession(input())).toBeNull()
+      expect(validateSession(input({ maxAttendees: 40 }))).toBeNull()
+    })
+
+    it('requires a title and both times', () => {
+      expect(validateSession(input({ title: '  ' }))).toMatch(/title/i)
+      expect(validateSession(input({ startTime: '' }))).toMatch(/required/i)
+    })
+
+    it('rejects a session that ends before it starts', () => {
+      expect(validateSession(input({ endTime: '2024-06-10T16:00:00.000Z' }))).toMatch(/after/i)
+    })
+
+    it('rejects a capacity below one or fractional', () => {
+      expect(validateSession(input({ maxAttendees: 0 }))).toMatch(/capacity/i)
+      expect(validateSession(input({ maxAttendees: 2.5 }))).toMatch(/capacity/i)
+    })
+  })
+
+  describe('mappers', () => {
+    it('trims fields and drops unnamed speakers on insert', () => {
+      const row = mapDomainEventSessionToDBInsert(input({
+        title: ' Keynote ',
+        location: '  ',
+        speakers: [{ name: ' Ada ', title: ' CTO ' }, { name: '' }]
+      }), 'e1')
+
+      expect(row).toMatchObject({
+        event_id: 'e1',
+        title: 'Keynote',
+        location: undefined,
+        speakers: [{ name: 'Ada', title: 'CTO', bio: undefined }]
+      })
+    })
+
+    it('clears overrides with null on update', () => {
+      expect(mapDomainEventSessionToDBUpdate(input())).toMatchObject({
+        max_attendees: null,
+        location: null,
+        meeting_url: null,
+        description: null
+      })
+    })
+  })
+
+  describe('registerForSessions', () => {
+    const form = { firstName: ' Sam ', lastName: 'Lee', email: 'sam@example.com ', phone: '' }
+
+    it('books the chosen sessions through the RPC', async () => {
+      rpc.mockResolvedValueOnce({
+        data: [
+          { booking_id: 'b1', booking_reference: 'A1B2C3D4', session_id: 's1', status: 'confirmed' },
+          { booking_id: 'b2', booking_reference: 'E5F6G7H8', session_id: 's2', status: 'confirmed' }
+        ],
+        error: null
+      } as any)
+
+      const registrations = await sessionService.registerForSessions('e1', ['s1', 's2'], form, 'Europe/Berlin')
+
+      expect(rpc).toHaveBeenCalledWith('register_for_sessions', {
+        p_event_id: 'e1',
+        p_session_ids: ['s1', 's2'],
+        p_first_name: 'Sam',
+        p_last_name: 'Lee',
+        p_email: 'sam@example.com',
+        p_phone: null,
+        p_notes: null,
+        p_timezone: 'Europe/Berlin',
+        p_custom_responses: {}
+      })
+      expect(registrations).toEqual([
+        { bookingId: 'b1', bookingReference: 'A1B2C3D4', sessionId: 's1', status: 'confirmed' },
+        { bookingId: 'b2', bookingReference: 'E5F6G7H8', sessionId: 's2', status: 'confirmed' }
+      ])
+    })
+
+    it('surfaces capacity errors from the server', async () => {
+      rpc.mockResolvedValueOnce({ data: null, error: { message: 'Session "Keynote" is full' } } as any)
+
+      await expect(sessionService.registerForSessions('e1', ['s1'], form))
+        .rejects.toMatchObject({ message: 'Session "Keynote" is full' })
+    })
+
+    it('requires at least one session', async () => {
+      await expect(sessionService.registerForSessions('e1', [], form)).rejects.toThrow(/at least one/i)
+      expect(rpc).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteSession', () => {
+    it('refuses sessions that have registrations', async () => {
+      const session = { id: 's1', attendees: 3 } as EventSession
+
+      await expect(sessionService.deleteSession(session)).rejects.toThrow(/cancelled/i)
+      expect(supabase.from).not.toHaveBeenCalledWith('event_sessions')
+    })
+  })
+})
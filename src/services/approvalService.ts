@@ -0,0 +1,106 @@
+import { supabase } from '../lib/supabase'
+
+export interface ApprovalRequest {
+  bookingId: string
+  bookingReference: string
+  eventId: string
+  eventTitle: string
+  attendeeName: string
+  email: string
+  phone: string | null
+  notes: string | null
+  quantity: number
+  startTime: string | null
+  endTime: string | null
+  requestedAt: string
+  /** The request is cancelled and its seats freed if not answered by then */
+  expiresAt: string | null
+}
+
+interface PendingBookingRow {
+  id: string
+  booking_reference: string
+  event_id: string
+  first_name: string
+  last_name: string
+  email: string
+  phone: string | null
+  notes: string | null
+  quantity: number
+  date: string
+  time: string
+  created_at: string
+  approval_expires_at: string | null
+  event: { title: string } | null
+  slot: { start_time: string; end_time: string } | null
+}
+
+export function toApprovalRequest(row: PendingBookingRow): ApprovalRequest {
+  return {
+    bookingId: row.id,
+    bookingReference: row.booking_reference,
+    eventId: row.event_id,
+    eventTitle: row.event?.title || 'Event',
+    attendeeName: `${row.first_name} ${row.last_name}`.trim(),
+    email: row.email,
+    phone: row.phone,
+    notes: row.notes,
+    quantity: row.quantity,
+    startTime: row.slot?.start_time || null,
+    endTime: row.slot?.end_time || null,
+    requestedAt: row.created_at,
+    expiresAt: row.approval_expires_at
+  }
+}
+
+/**
+ * Requests closest to expiring first, so nothing lapses unseen
+ */
+export function sortApprovalRequests(requests: ApprovalRequest[]): ApprovalRequest[] {
+  const deadline = (request: ApprovalRequest) =>
+    new Date(request.expiresAt || request.startTime || request.requestedAt).getTime()
+
+  return [...requests].sort((a, b) => deadline(a) - deadline(b))
+}
+
+export const approvalService = {
+  /**
+   * Pending booking requests for the organizer's requires_approval events
+   */
+  async getPendingApprovals(userId: string): Promise<ApprovalRequest[]> {
+    // Lapsed requests are cancelled server-side before listing
+    const { error: expireError } = await supabase.rpc('expire_pending_approvals', { p_event_id: null })
+    if (expireError) throw expireError
+
+    const { data, error } = await supabase
+      .from('bookings')
+      .select(
+        'id, booking_reference, event_id, first_name, last_name, email, phone, notes, quantity, date, time, created_at, approval_expires_at, ' +
+        'event:events!inner(title, user_id, requires_approval), slot:time_slots(start_time, end_time)'
+      )
+      .eq('status', 'pending')
+      .eq('event.user_id', userId)
+      .eq('event.requires_approval', true)
+
+    if (error) throw error
+
+    const rows = (data || []) as unknown as PendingBookingRow[]
+    return sortApprovalRequests(rows.map(toApprovalRequest))
+  },
+
+  async approve(bookingId: string): Promise<void> {
+    const { error } = await supabase.rpc('approve_booking', { p_booking_id: bookingId })
+    if (error) throw error
+  },
+
+  /**
+   * Declining frees the held seats and notifies the attendee
+   */
+  async decline(bookingId: string, reason?: string): Promise<void> {
+    const { error } = await supabase.rpc('decline_booking', {
+      p_booking_id: bookingId,
+      p_reason: reason?.trim() || null
+    })
+    if (error) throw error
+  }
+}
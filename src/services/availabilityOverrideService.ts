@@ -0,0 +1,116 @@
+import { supabase } from '../lib/supabase'
+import {
+  AvailabilityOverride,
+  AvailabilityOverrideInput,
+  mapDBAvailabilityOverrideToDomain,
+  mapDomainAvailabilityOverrideToDBInsert,
+  mapDomainAvailabilityOverrideToDBUpdate
+} from '../types'
+
+/**
+ * Client-side checks mirroring the table constraints, plus the ones the
+ * table can't express (paired times, weekdays for recurring overrides).
+ * Returns an error message, or null when the override is valid.
+ */
+export function validateOverride(input: AvailabilityOverrideInput): string | null {
+  if (!input.startDate || !input.endDate) {
+    return 'Start and end dates are required'
+  }
+  if (input.endDate < input.startDate) {
+    return 'End date must be on or after the start date'
+  }
+  if (!!input.startTime !== !!input.endTime) {
+    return 'Set both a start and end time, or neither for the whole day'
+  }
+  if (input.startTime && input.endTime && input.endTime <= input.startTime) {
+    return 'End time must be after the start time'
+  }
+  if (input.recurring && !input.daysOfWeek?.length) {
+    return 'Choose at least one weekday for a recurring override'
+  }
+  return null
+}
+
+const assertValid = (input: AvailabilityOverrideInput) => {
+  const message = validateOverride(input)
+  if (message) throw new Error(message)
+}
+
+export const availabilityOverrideService = {
+  /**
+   * Fetch the current user's overrides, optionally only those ending on or after a date
+   */
+  async getMyOverrides(fromDate?: string): Promise<AvailabilityOverride[]> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    let query = supabase
+      .from('availability_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+
+    if (fromDate) {
+      query = query.gte('end_date', fromDate)
+    }
+
+    const { data, error } = await query.order('start_date', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(mapDBAvailabilityOverrideToDomain)
+  },
+
+  /**
+   * Fetch a user's overrides that overlap a date range (YYYY-MM-DD, inclusive)
+   */
+  async getUserOverrides(userId: string, startDate: string, endDate: string): Promise<AvailabilityOverride[]> {
+    const { data, error } = await supabase
+      .from('availability_overrides')
+      .select('*')
+      .eq('user_id', userId)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .order('start_date', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(mapDBAvailabilityOverrideToDomain)
+  },
+
+  async createOverride(input: AvailabilityOverrideInput): Promise<AvailabilityOverride> {
+    assertValid(input)
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('availability_overrides')
+      .insert(mapDomainAvailabilityOverrideToDBInsert(input, user.id))
+      .select()
+      .single()
+
+    if (error) throw error
+    return mapDBAvailabilityOverrideToDomain(data)
+  },
+
+  async updateOverride(id: string, input: AvailabilityOverrideInput): Promise<AvailabilityOverride> {
+    assertValid(input)
+
+    const { data, error } = await supabase
+      .from('availability_overrides')
+      .update(mapDomainAvailabilityOverrideToDBUpdate(input))
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return mapDBAvailabilityOverrideToDomain(data)
+  },
+
+  async deleteOverride(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('availability_overrides')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+}
@@ -56,6 +56,22 @@ export const availabilityService = {
       .order('day_of_week', { ascending: true })
       .order('start_time', { ascending: true })
 
+    if (error) throw error
+    return (data || []).map(mapDBAvailabilityToDomain)
+  },
+
+  /**
+   * Fetch all of a user's weekly availability rows, including disabled days.
+   * Used by slot generation, which needs to know whether any hours are set.
+   */
+  async getWeeklyAvailability(userId: string): Promise<Availability[]> {
+    const { data, error } = await supabase
+      .from('availabilities')
+      .select('*')
+      .eq('user_id', userId)
+      .order('day_of_week', { ascending: true })
+      .order('start_time', { ascending: true })
+
     if (error) throw error
     return (data || []).map(mapDBAvailabilityToDomain)
   }
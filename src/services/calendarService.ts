@@ -0,0 +1,197 @@
+// src/services/calendarService.ts
+import { supabase } from '../lib/supabase'
+import { IcsImportService } from '../lib/services/icsImportService'
+import type { CalendarFeed, CalendarFeedUpdate, CalendarIntegration } from '../types/database'
+import type { BusyBlock } from '../types/calendar'
+
+export const calendarService = {
+  /**
+   * Fetch the current user's connected calendars
+   */
+  async getMyIntegrations(): Promise<CalendarIntegration[]> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('calendar_integrations')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('is_primary', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  /**
+   * Fetch the current user's ICS feeds and uploaded calendars
+   */
+  async getMyFeeds(): Promise<CalendarFeed[]> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  },
+
+  /**
+   * Add a feed for the current user. Without a URL, the feed holds an
+   * uploaded file; import it with importFeedFile.
+   */
+  async createFeed(name: string, sourceUrl?: string): Promise<CalendarFeed> {
+    const url = sourceUrl?.trim()
+    if (!name.trim()) throw new Error('Name the calendar')
+    if (url && !/^(https?|webcal):\/\//i.test(url)) {
+      throw new Error('Enter a feed URL starting with https:// or webcal://')
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .insert({ user_id: user.id, name: name.trim(), source_url: url || null })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async updateFeed(id: string, changes: CalendarFeedUpdate): Promise<CalendarFeed> {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  /**
+   * Replace an uploaded calendar's busy blocks with the events of a file
+   *
+   * @returns Number of busy blocks stored
+   */
+  async importFeedFile(feed: Pick<CalendarFeed, 'id'>, ics: string, timeZone: string): Promise<number> {
+    return IcsImportService.importFeed(feed, ics, { client: supabase, timeZone })
+  },
+
+  /**
+   * Fetch a subscribed feed now. The server fetches it (calendar hosts
+   * rarely allow it from the browser) and records failures on the feed.
+   *
+   * @returns Number of busy blocks stored
+   */
+  async refreshFeed(feedId: string): Promise<number> {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) throw new Error('User not authenticated')
+
+    const response = await fetch('/api/refresh-feed', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ feedId })
+    })
+
+    const body = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(body?.error || 'The calendar could not be refreshed')
+    }
+    return body.stored
+  },
+
+  /**
+   * Remove a feed along with its busy blocks
+   */
+  async deleteFeed(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  /**
+   * Busy time imported from a user's calendars and feeds that overlaps a
+   * window. Blocks from sources that are turned off are left out, as in
+   * is_organizer_busy.
+   */
+  async getBusyBlocks(userId: string, from: string, to: string): Promise<BusyBlock[]> {
+    const { data, error } = await supabase
+      .from('calendar_busy_blocks')
+      .select(`
+        start_time,
+        end_time,
+        title,
+        integration:calendar_integrations(sync_enabled, sync_direction),
+        feed:calendar_feeds(is_enabled)
+      `)
+      .eq('user_id', userId)
+      .lt('start_time', to)
+      .gt('end_time', from)
+      .order('start_time', { ascending: true })
+
+    if (error) throw error
+    return (data || [])
+      .filter((row: any) =>
+        (row.integration?.sync_enabled && row.integration.sync_direction !== 'export') ||
+        row.feed?.is_enabled
+      )
+      .map((row: any) => ({
+        start: row.start_time,
+        end: row.end_time,
+        title: row.title ?? undefined
+      }))
+  },
+
+  /**
+   * The current user's booking feed token, or null when the feed is off
+   */
+  async getBookingFeedToken(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('booking_feed_tokens')
+      .select('token')
+      .eq('user_id', user.id)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      throw error
+    }
+    return data.token
+  },
+
+  /**
+   * Turn on the booking feed, or replace its token so old subscription
+   * URLs stop working
+   */
+  async rotateBookingFeedToken(): Promise<string> {
+    const { data, error } = await supabase.rpc('rotate_booking_feed_token')
+
+    if (error) throw error
+    return data as string
+  },
+
+  /**
+   * Turn off the booking feed
+   */
+  async revokeBookingFeedToken(): Promise<void> {
+    const { error } = await supabase.rpc('revoke_booking_feed_token')
+
+    if (error) throw error
+  }
+}
@@ -0,0 +1,269 @@
+import { supabase } from '../lib/supabase'
+import { BookingStatus, EventStatus } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// No-show rate looks back over this many days of event_analytics rows
+const NO_SHOW_WINDOW_DAYS = 90
+
+// The agenda covers this many days
+const AGENDA_DAYS = 7
+
+const BOOKING_COLUMNS =
+  'id, event_id, first_name, last_name, email, status, date, time, cancelled_at, slot:time_slots(start_time, end_time)'
+
+const toDateOnly = (date: Date) => date.toISOString().split('T')[0]
+
+export interface EventFillRate {
+  eventId: string
+  title: string
+  slug: string
+  status: EventStatus
+  bookedCount: number
+  totalCapacity: number
+  /** 0-100, or null when the event has no upcoming slots */
+  fillRate: number | null
+}
+
+export interface AgendaItem {
+  bookingId: string
+  eventId: string
+  eventTitle: string
+  attendeeName: string
+  email: string
+  startTime: string
+  endTime: string | null
+}
+
+export interface DashboardKpis {
+  upcomingBookings: number
+  cancellationsThisWeek: number
+  /** 0-100, or null when nothing has been attended or missed yet */
+  noShowRate: number | null
+}
+
+export interface DashboardData {
+  kpis: DashboardKpis
+  fillRates: EventFillRate[]
+  agenda: AgendaItem[]
+}
+
+interface EventRow {
+  id: string
+  title: string
+  slug: string
+  status: EventStatus
+}
+
+interface SlotRow {
+  event_id: string
+  booked_count: number
+  total_capacity: number
+}
+
+interface BookingRow {
+  id: string
+  event_id: string
+  first_name: string
+  last_name: string
+  email: string
+  status: BookingStatus
+  date: string
+  time: string
+  cancelled_at: string | null
+  slot: { start_time: string; end_time: string } | null
+}
+
+interface AnalyticsRow {
+  no_shows: number | null
+  attendees: number | null
+}
+
+/**
+ * Start of the current week (Monday 00:00 local time)
+ */
+export function startOfWeek(now: Date): Date {
+  const start = new Date(now)
+  const daysSinceMonday = (start.getDay() + 6) % 7
+  start.setDate(start.getDate() - daysSinceMonday)
+  start.setHours(0, 0, 0, 0)
+  return start
+}
+
+/**
+ * When a booking takes place. Slot bookings use the slot's start time;
+ * older bookings only carry the date/time columns.
+ */
+export function getBookingStart(booking: Pick<BookingRow, 'date' | 'time' | 'slot'>): Date {
+  if (booking.slot?.start_time) {
+    return new Date(booking.slot.start_time)
+  }
+  return new Date(`${booking.date}T${booking.time}`)
+}
+
+/**
+ * Fill rate of each event's upcoming slots
+ */
+export function computeFillRates(events: EventRow[], slots: SlotRow[]): EventFillRate[] {
+  return events.map(event => {
+    const eventSlots = slots.filter(slot => slot.event_id === event.id)
+    const bookedCount = eventSlots.reduce((sum, slot) => sum + slot.booked_count, 0)
+    const totalCapacity = eventSlots.reduce((sum, slot) => sum + slot.total_capacity, 0)
+
+    return {
+      eventId: event.id,
+      title: event.title,
+      slug: event.slug,
+      status: event.status,
+      bookedCount,
+      totalCapacity,
+      fillRate: totalCapacity > 0 ? Math.round((bookedCount / totalCapacity) * 100) : null
+    }
+  })
+}
+
+/**
+ * @param laterBookings Upcoming bookings beyond those passed in, counted
+ * by the database
+ */
+export function computeKpis(
+  bookings: BookingRow[],
+  analytics: AnalyticsRow[],
+  now: Date,
+  laterBookings = 0
+): DashboardKpis {
+  const weekStart = startOfWeek(now)
+
+  const upcomingBookings = laterBookings + bookings.filter(booking =>
+    (booking.status === 'confirmed' || booking.status === 'pending') &&
+    getBookingStart(booking) >= now
+  ).length
+
+  const cancellationsThisWeek = bookings.filter(booking =>
+    booking.status === 'cancelled' &&
+    booking.cancelled_at !== null &&
+    new Date(booking.cancelled_at) >= weekStart
+  ).length
+
+  const noShows = analytics.reduce((sum, row) => sum + (row.no_shows || 0), 0)
+  const attendees = analytics.reduce((sum, row) => sum + (row.attendees || 0), 0)
+
+  return {
+    upcomingBookings,
+    cancellationsThisWeek,
+    noShowRate: noShows + attendees > 0
+      ? Math.round((noShows / (noShows + attendees)) * 1000) / 10
+      : null
+  }
+}
+
+/**
+ * Confirmed bookings starting within the next 7 days, soonest first
+ */
+export function buildAgenda(
+  bookings: BookingRow[],
+  events: EventRow[],
+  now: Date
+): AgendaItem[] {
+  const horizon = new Date(now.getTime() + AGENDA_DAYS * DAY_MS)
+  const titles = new Map(events.map(event => [event.id, event.title]))
+
+  return bookings
+    .filter(booking => booking.status === 'confirmed')
+    .map(booking => ({ booking, start: getBookingStart(booking) }))
+    .filter(({ start }) => start >= now && start < horizon)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ booking, start }) => ({
+      bookingId: booking.id,
+      eventId: booking.event_id,
+      eventTitle: titles.get(booking.event_id) || 'Event',
+      attendeeName: `${booking.first_name} ${booking.last_name}`.trim(),
+      email: booking.email,
+      startTime: start.toISOString(),
+      endTime: booking.slot?.end_time || null
+    }))
+}
+
+export const dashboardService = {
+  /**
+   * Load organizer KPIs, per-event fill rates and the 7-day agenda
+   */
+  async getDashboardData(userId: string, now: Date = new Date()): Promise<DashboardData> {
+    const { data: events, error: eventsError } = await supabase
+      .from('events')
+      .select('id, title, slug, status')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (eventsError) throw eventsError
+
+    const eventRows: EventRow[] = events || []
+    if (eventRows.length === 0) {
+      return {
+        kpis: { upcomingBookings: 0, cancellationsThisWeek: 0, noShowRate: null },
+        fillRates: [],
+        agenda: []
+      }
+    }
+
+    const eventIds = eventRows.map(event => event.id)
+    const analyticsSince = toDateOnly(new Date(now.getTime() - NO_SHOW_WINDOW_DAYS * DAY_MS))
+
+    // Bookings are loaded for the agenda and the start of the upcoming
+    // count only; booking dates are in the event's time zone, so the
+    // window has a day to spare on either side. Upcoming bookings past it
+    // are only counted.
+    const nearFrom = toDateOnly(new Date(now.getTime() - DAY_MS))
+    const nearTo = toDateOnly(new Date(now.getTime() + (AGENDA_DAYS + 1) * DAY_MS))
+
+    const [slotsResult, nearResult, laterResult, cancelledResult, analyticsResult] = await Promise.all([
+      supabase
+        .from('time_slots')
+        .select('event_id, booked_count, total_capacity')
+        .in('event_id', eventIds)
+        .neq('status', 'cancelled')
+        .gte('start_time', now.toISOString()),
+      supabase
+        .from('bookings')
+        .select(BOOKING_COLUMNS)
+        .in('event_id', eventIds)
+        .in('status', ['confirmed', 'pending'])
+        .gte('date', nearFrom)
+        .lt('date', nearTo),
+      supabase
+        .from('bookings')
+        .select('id', { count: 'exact', head: true })
+        .in('event_id', eventIds)
+        .in('status', ['confirmed', 'pending'])
+        .gte('date', nearTo),
+      supabase
+        .from('bookings')
+        .select(BOOKING_COLUMNS)
+        .in('event_id', eventIds)
+        .eq('status', 'cancelled')
+        .gte('cancelled_at', startOfWeek(now).toISOString()),
+      supabase
+        .from('event_analytics')
+        .select('no_shows, attendees')
+        .in('event_id', eventIds)
+        .gte('date', analyticsSince)
+    ])
+
+    if (slotsResult.error) throw slotsResult.error
+    if (nearResult.error) throw nearResult.error
+    if (laterResult.error) throw laterResult.error
+    if (cancelledResult.error) throw cancelledResult.error
+    if (analyticsResult.error) throw analyticsResult.error
+
+    const bookings = [
+      ...(nearResult.data || []),
+      ...(cancelledResult.data || [])
+    ] as unknown as BookingRow[]
+
+    return {
+      kpis: computeKpis(bookings, analyticsResult.data || [], now, laterResult.count || 0),
+      fillRates: computeFillRates(eventRows, slotsResult.data || []),
+      agenda: buildAgenda(bookings, eventRows, now)
+    }
+  }
+}
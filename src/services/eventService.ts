@@ -0,0 +1,202 @@
+import { supabase, db, EventQueryOptions } from '../lib/supabase'
+import {
+  Event,
+  EventType,
+  EventStatus,
+  EventBookingStats,
+  PaginatedResponse,
+  mapDBEventToDomain,
+  mapDBEventStatsToDomain
+} from '../types'
+import type { EventStats, EventStatsRow, ReminderSettings, SearchResult } from '../types/database'
+
+export interface ManagedEvent extends Event {
+  stats: EventBookingStats
+}
+
+export interface PublicEventSearch {
+  query?: string
+  type?: EventType
+  tags?: string[]
+  cursor?: string | null
+  limit?: number
+}
+
+export interface PublicEventPage {
+  events: Event[]
+  /** Opaque cursor for the next page, or null when there are no more results */
+  nextCursor: string | null
+}
+
+interface SearchCursor {
+  relevance: number
+  createdAt: string
+  id: string
+}
+
+const encodeCursor = (cursor: SearchCursor): string => btoa(JSON.stringify(cursor))
+
+const decodeCursor = (cursor: string): SearchCursor => {
+  try {
+    return JSON.parse(atob(cursor))
+  } catch {
+    throw new Error('Invalid pagination cursor')
+  }
+}
+
+const EMPTY_STATS: EventBookingStats = {
+  totalBookings: 0,
+  confirmedBookings: 0,
+  pendingBookings: 0,
+  cancelledBookings: 0,
+  attendanceRate: 0
+}
+
+export const eventService = {
+  /**
+   * Fetch one page of an organizer's events with booking counts.
+   * Status, search and pagination are applied in the database query.
+   */
+  async getManagedEvents(
+    userId: string,
+    options: EventQueryOptions & { page: number; limit: number }
+  ): Promise<PaginatedResponse<ManagedEvent>> {
+    const { data, error, count } = await db.getEvents(userId, options)
+
+    if (error) throw error
+
+    const events = (data || []).map(mapDBEventToDomain)
+    const stats = await eventService.getEventsStats(events.map(event => event.id))
+    const total = count ?? events.length
+
+    return {
+      success: true,
+      data: events.map(event => ({ ...event, stats: stats.get(event.id) ?? EMPTY_STATS })),
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / options.limit))
+      }
+    }
+  },
+
+  /**
+   * Search public, active events through the search_events RPC.
+   * Uses keyset pagination: pass the returned nextCursor to load the next page.
+   */
+  async searchPublicEvents({
+    query,
+    type,
+    tags,
+    cursor,
+    limit = 12
+  }: PublicEventSearch = {}): Promise<PublicEventPage> {
+    const after = cursor ? decodeCursor(cursor) : null
+
+    const { data, error } = await supabase.rpc('search_events', {
+      p_query: query?.trim() || null,
+      p_type: type || null,
+      p_tags: tags && tags.length > 0 ? tags : null,
+      p_limit: limit,
+      p_cursor_relevance: after?.relevance ?? null,
+      p_cursor_created_at: after?.createdAt ?? null,
+      p_cursor_id: after?.id ?? null
+    })
+
+    if (error) throw error
+
+    const rows: SearchResult[] = data || []
+    const last = rows[rows.length - 1]
+
+    return {
+      events: rows.map(mapDBEventToDomain),
+      // A short page means the result set is exhausted
+      nextCursor: rows.length === limit && last
+        ? encodeCursor({ relevance: last.relevance, createdAt: last.created_at, id: last.id })
+        : null
+    }
+  },
+
+  /**
+   * Booking counts for an event via get_event_stats
+   */
+  async getEventStats(eventId: string): Promise<EventBookingStats> {
+    const { data, error } = await db.getEventStats(eventId)
+
+    if (error) {
+      // A missing stats row should not hide the event from its organizer
+      console.error('Error loading event stats:', error)
+      return EMPTY_STATS
+    }
+    return data ? mapDBEventStatsToDomain(data as EventStats) : EMPTY_STATS
+  },
+
+  /**
+   * Booking counts for several events in one get_events_stats call, keyed
+   * by event id. Events the caller doesn't organize are left out.
+   */
+  async getEventsStats(eventIds: string[]): Promise<Map<string, EventBookingStats>> {
+    if (eventIds.length === 0) return new Map()
+
+    const { data, error } = await db.getEventsStats(eventIds)
+
+    if (error) {
+      // Missing counts should not hide the events from their organizer
+      console.error('Error loading event stats:', error)
+      return new Map()
+    }
+    const rows = (data || []) as EventStatsRow[]
+    return new Map(rows.map(row => [row.event_id, mapDBEventStatsToDomain(row)]))
+  },
+
+  /**
+   * Number of events per status for the organizer's summary cards
+   */
+  async getStatusCounts(userId: string): Promise<Record<EventStatus, number>> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('status')
+      .eq('user_id', userId)
+
+    if (error) throw error
+
+    const counts: Record<EventStatus, number> = {
+      draft: 0,
+      active: 0,
+      paused: 0,
+      completed: 0,
+      cancelled: 0
+    }
+    for (const row of data || []) {
+      counts[row.status as EventStatus] += 1
+    }
+    return counts
+  },
+
+  /**
+   * Move an event between draft / active / paused
+   */
+  async setEventStatus(eventId: string, status: EventStatus): Promise<Event> {
+    const { data, error } = await db.updateEvent(eventId, { status })
+
+    if (error) throw error
+    return mapDBEventToDomain(data)
+  },
+
+  /**
+   * Upcoming confirmed bookings have their reminders recalculated server-side
+   */
+  async updateReminderSettings(eventId: string, settings: ReminderSettings): Promise<ReminderSettings> {
+    const { data, error } = await db.updateEvent(eventId, { reminder_settings: settings })
+
+    if (error) throw error
+    return data.reminder_settings
+  },
+
+  async deleteEvent(eventId: string): Promise<void> {
+    const { error } = await db.deleteEvent(eventId)
+
+    if (error) throw error
+  }
+}
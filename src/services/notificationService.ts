@@ -0,0 +1,147 @@
+// src/services/notificationService.ts
+// In-app notification center: the header bell and the /notifications page
+//
+// REQUIRED BACKEND DEPENDENCIES:
+// - RPCs: mark_notification_read, mark_all_notifications_read
+// - Realtime: notifications in the supabase_realtime publication
+// - Migration: 20240208000000_notification_center.sql
+
+import { supabase } from '../lib/supabase'
+import { mapDBNotificationToDomain } from '../types'
+import type { Notification, NotificationType } from '../types'
+import type { Notification as DBNotification } from '../types/database'
+
+/**
+ * A notification with the page it opens, or null if it has nowhere to go
+ */
+export interface NotificationItem extends Notification {
+  link: string | null
+}
+
+export interface NotificationListOptions {
+  type?: NotificationType | null
+  unreadOnly?: boolean
+  limit?: number
+}
+
+interface NotificationRow extends DBNotification {
+  event: { slug: string; user_id: string } | null
+  booking: { booking_reference: string; email: string } | null
+}
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  booking_created: 'New bookings',
+  booking_confirmed: 'Confirmed bookings',
+  booking_rescheduled: 'Rescheduled bookings',
+  booking_cancelled: 'Cancellations',
+  booking_reminder: 'Reminders',
+  event_updated: 'Event updates',
+  event_cancelled: 'Cancelled events',
+  payment_received: 'Payments',
+  waitlist_spot_available: 'Waitlist',
+  system_update: 'System updates',
+  booking_approval_requested: 'Approval requests',
+  booking_approved: 'Approved bookings',
+  booking_declined: 'Declined bookings'
+}
+
+/**
+ * Where a notification leads. Waitlist offers lead to the booking page
+ * that claims the held spot. Organizers land on the event's admin page
+ * (approval requests on the dashboard inbox); attendees on their booking.
+ */
+export function notificationLink(row: NotificationRow, userId: string): string | null {
+  const bookingPath = row.data?.booking_path
+  if (row.type === 'waitlist_spot_available' && typeof bookingPath === 'string' && /^\/(?!\/)/.test(bookingPath)) {
+    return bookingPath
+  }
+
+  const isOrganizer = row.event?.user_id === userId
+
+  if (isOrganizer) {
+    if (row.type === 'booking_approval_requested') return '/dashboard'
+    return `/admin/events/${row.event!.slug}`
+  }
+
+  if (row.booking) {
+    const params = new URLSearchParams({ ref: row.booking.booking_reference, email: row.booking.email })
+    return `/booking/manage?${params.toString()}`
+  }
+
+  return row.event_id ? `/event/${row.event_id}` : null
+}
+
+export function toNotificationItem(row: NotificationRow, userId: string): NotificationItem {
+  return {
+    ...mapDBNotificationToDomain(row),
+    link: notificationLink(row, userId)
+  }
+}
+
+export const notificationService = {
+  /**
+   * The user's notifications, newest first
+   */
+  async list(userId: string, { type, unreadOnly = false, limit = 50 }: NotificationListOptions = {}): Promise<NotificationItem[]> {
+    let query = supabase
+      .from('notifications')
+      .select('*, event:events(slug, user_id), booking:bookings(booking_reference, email)')
+      .eq('user_id', userId)
+
+    if (type) query = query.eq('type', type)
+    if (unreadOnly) query = query.eq('is_read', false)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+
+    const rows = (data || []) as unknown as NotificationRow[]
+    return rows.map(row => toNotificationItem(row, userId))
+  },
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+
+    if (error) throw error
+    return count || 0
+  },
+
+  async markRead(notificationId: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_notification_read', { p_notification_id: notificationId })
+    if (error) throw error
+  },
+
+  /**
+   * @returns How many notifications were marked read
+   */
+  async markAllRead(type?: NotificationType | null): Promise<number> {
+    const { data, error } = await supabase.rpc('mark_all_notifications_read', { p_type: type || null })
+    if (error) throw error
+    return data || 0
+  },
+
+  /**
+   * Calls onChange whenever one of the user's notifications is created,
+   * read or deleted. Returns a function that stops listening.
+   */
+  subscribe(userId: string, onChange: () => void): () => void {
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => onChange()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { supabase } from '../lib/supabase'
+import type { RefundStatus } from '../types/database'
+
+/**
+ * A line in an event's refund ledger: a refund, or a paid payment whose
+ * reservation expired before it was confirmed and still needs refunding
+ */
+export interface RefundLedgerEntry {
+  paymentId: string
+  refundId: string | null
+  bookingReference: string | null
+  attendeeName: string
+  email: string
+  provider: string
+  providerPaymentId: string | null
+  paidAmount: number
+  /** Refunded, or still to refund */
+  amount: number
+  currency: string
+  percent: number
+  reason: string
+  status: RefundStatus | 'not_started'
+  failureReason: string | null
+  createdAt: string
+  settledAt: string | null
+}
+
+export interface RefundLedgerSummary {
+  /** Refunded so far, per currency */
+  refunded: Record<string, number>
+  /** Entries the organizer has to act on: failed or not yet started */
+  needsAttention: number
+}
+
+interface BookingDetailsJson {
+  first_name?: string
+  last_name?: string
+  email?: string
+}
+
+interface RefundRow {
+  id: string
+  payment_id: string
+  provider: string
+  amount: number | string
+  currency: string
+  percent: number
+  reason: string
+  status: RefundStatus
+  failure_reason: string | null
+  created_at: string
+  settled_at: string | null
+  payment: {
+    amount: number | string
+    provider_payment_id: string | null
+    booking_details: BookingDetailsJson
+  } | null
+  booking: { booking_reference: string } | null
+}
+
+interface UnbookedPaymentRow {
+  id: string
+  provider: string
+  provider_payment_id: string | null
+  amount: number | string
+  currency: string
+  failure_reason: string | null
+  booking_details: BookingDetailsJson
+  settled_at: string | null
+  created_at: string
+  refunds: { id: string }[] | null
+}
+
+const attendeeName = (details: BookingDetailsJson | undefined) =>
+  `${details?.first_name || ''} ${details?.last_name || ''}`.trim()
+
+export function toRefundLedgerEntry(row: RefundRow): RefundLedgerEntry {
+  return {
+    paymentId: row.payment_id,
+    refundId: row.id,
+    bookingReference: row.booking?.booking_reference || null,
+    attendeeName: attendeeName(row.payment?.booking_details),
+    email: row.payment?.booking_details?.email || '',
+    provider: row.provider,
+    providerPaymentId: row.payment?.provider_payment_id || null,
+    paidAmount: Number(row.payment?.amount) || 0,
+    amount: Number(row.amount),
+    currency: row.currency,
+    percent: row.percent,
+    reason: row.reason,
+    status: row.status,
+    failureReason: row.failure_reason,
+    createdAt: row.created_at,
+    settledAt: row.settled_at
+  }
+}
+
+export function toUnbookedPaymentEntry(row: UnbookedPaymentRow): RefundLedgerEntry {
+  const amount = Number(row.amount)
+
+  return {
+    paymentId: row.id,
+    refundId: null,
+    bookingReference: null,
+    attendeeName: attendeeName(row.booking_details),
+    email: row.booking_details?.email || '',
+    provider: row.provider,
+    providerPaymentId: row.provider_payment_id,
+    paidAmount: amount,
+    amount,
+    currency: row.currency,
+    percent: 100,
+    reason: row.failure_reason || 'Paid without a booking',
+    status: 'not_started',
+    failureReason: null,
+    createdAt: row.settled_at || row.created_at,
+    settledAt: null
+  }
+}
+
+const STATUS_ORDER: Record<RefundLedgerEntry['status'], number> = {
+  failed: 0,
+  not_started: 1,
+  pending: 2,
+  succeeded: 3
+}
+
+/**
+ * Entries needing action first, then newest first
+ */
+export function sortRefundLedger(entries: RefundLedgerEntry[]): RefundLedgerEntry[] {
+  return [...entries].sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )
+}
+
+export function summarizeRefundLedger(entries: RefundLedgerEntry[]): RefundLedgerSummary {
+  const refunded: Record<string, number> = {}
+  let needsAttention = 0
+
+  for (const entry of entries) {
+    if (entry.status === 'succeeded') {
+      refunded[entry.currency] = Math.round(((refunded[entry.currency] || 0) + entry.amount) * 100) / 100
+    } else if (entry.status === 'failed' || entry.status === 'not_started') {
+      needsAttention++
+    }
+  }
+
+  return { refunded, needsAttention }
+}
+
+export const refundService = {
+  /**
+   * Refunds of an event's paid bookings, plus payments that never became
+   * a booking and haven't been refunded yet
+   */
+  async getLedger(eventId: string): Promise<RefundLedgerEntry[]> {
+    const { data: refunds, error: refundsError } = await supabase
+      .from('refunds')
+      .select(
+        'id, payment_id, provider, amount, currency, percent, reason, status, failure_reason, created_at, settled_at, ' +
+        'payment:payments!inner(amount, provider_payment_id, booking_details, slot:time_slots!inner(event_id)), ' +
+        'booking:bookings(booking_reference)'
+      )
+      .eq('payment.slot.event_id', eventId)
+
+    if (refundsError) throw refundsError
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payments')
+      .select(
+        'id, provider, provider_payment_id, amount, currency, failure_reason, booking_details, settled_at, created_at, ' +
+        'slot:time_slots!inner(event_id), refunds(id)'
+      )
+      .eq('slot.event_id', eventId)
+      .eq('status', 'paid')
+      .is('booking_id', null)
+
+    if (paymentsError) throw paymentsError
+
+    const refundRows = (refunds || []) as unknown as RefundRow[]
+    const paymentRows = (payments || []) as unknown as UnbookedPaymentRow[]
+
+    return sortRefundLedger([
+      ...refundRows.map(toRefundLedgerEntry),
+      ...paymentRows
+        .filter(row => !row.refunds?.length)
+        .map(toUnbookedPaymentEntry)
+    ])
+  },
+
+  /**
+   * Queue a refund that failed or never started for the refund worker.
+   * Payments without a booking get a full refund recorded.
+   */
+  async refund(entry: RefundLedgerEntry): Promise<void> {
+    const { error } = entry.refundId
+      ? await supabase.rpc('retry_refund', { p_refund_id: entry.refundId })
+      : await supabase.rpc('refund_unbooked_payment', { p_payment_id: entry.paymentId })
+
+    if (error) throw error
+  }
+}
@@ -0,0 +1,157 @@
+import { supabase } from '../lib/supabase'
+import {
+  EventSession,
+  EventSessionInput,
+  SessionRegistration,
+  mapDBEventSessionToDomain,
+  mapDBSessionRegistrationToDomain,
+  mapDomainEventSessionToDBInsert,
+  mapDomainEventSessionToDBUpdate
+} from '../types/session'
+import type { CustomResponses, RegisterForSessionsArgs } from '../types/database'
+
+export interface SessionRegistrationForm {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+  notes?: string
+  customResponses?: CustomResponses
+}
+
+/**
+ * Client-side checks mirroring the table constraints, plus a title so
+ * the agenda can name the session. Returns an error message, or null
+ * when the session is valid.
+ */
+export function validateSession(input: EventSessionInput): string | null {
+  if (!input.title.trim()) {
+    return 'Session title is required'
+  }
+  if (!input.startTime || !input.endTime) {
+    return 'Start and end times are required'
+  }
+  if (new Date(input.endTime) <= new Date(input.startTime)) {
+    return 'The session must end after it starts'
+  }
+  if (input.maxAttendees !== undefined && !(Number.isInteger(input.maxAttendees) && input.maxAttendees > 0)) {
+    return 'Capacity must be at least 1, or empty to use the event\'s'
+  }
+  return null
+}
+
+const assertValid = (input: EventSessionInput) => {
+  const message = validateSession(input)
+  if (message) throw new Error(message)
+}
+
+export const sessionService = {
+  /**
+   * An event's agenda in start order, including cancelled sessions
+   */
+  async getEventSessions(eventId: string): Promise<EventSession[]> {
+    const { data, error } = await supabase
+      .from('event_sessions')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('start_time', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(mapDBEventSessionToDomain)
+  },
+
+  async createSession(eventId: string, input: EventSessionInput): Promise<EventSession> {
+    assertValid(input)
+
+    const { data, error } = await supabase
+      .from('event_sessions')
+      .insert(mapDomainEventSessionToDBInsert(input, eventId))
+      .select()
+      .single()
+
+    if (error) throw error
+    return mapDBEventSessionToDomain(data)
+  },
+
+  async updateSession(id: string, input: EventSessionInput): Promise<EventSession> {
+    assertValid(input)
+
+    const { data, error } = await supabase
+      .from('event_sessions')
+      .update(mapDomainEventSessionToDBUpdate(input))
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return mapDBEventSessionToDomain(data)
+  },
+
+  /**
+   * Close a session to registration and mark it cancelled on the agenda.
+   * Its bookings are kept.
+   */
+  async cancelSession(id: string): Promise<EventSession> {
+    const { data, error } = await supabase
+      .from('event_sessions')
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return mapDBEventSessionToDomain(data)
+  },
+
+  /**
+   * Deleting a session deletes its bookings, so only sessions nobody has
+   * registered for can be deleted; cancel the others.
+   */
+  async deleteSession(session: EventSession): Promise<void> {
+    if (session.attendees > 0) {
+      throw new Error('Sessions with registrations can only be cancelled')
+    }
+
+    const { error } = await supabase
+      .from('event_sessions')
+      .delete()
+      .eq('id', session.id)
+
+    if (error) throw error
+  },
+
+  /**
+   * Book one seat in each chosen session. All or nothing: nothing is
+   * booked when any session is full, closed, already booked by this
+   * email, or overlaps another.
+   *
+   * @param timeZone - Attendee's IANA time zone; the server falls back to the event's
+   */
+  async registerForSessions(
+    eventId: string,
+    sessionIds: string[],
+    form: SessionRegistrationForm,
+    timeZone?: string
+  ): Promise<SessionRegistration[]> {
+    if (sessionIds.length === 0) {
+      throw new Error('Choose at least one session')
+    }
+
+    const args: RegisterForSessionsArgs = {
+      p_event_id: eventId,
+      p_session_ids: sessionIds,
+      p_first_name: form.firstName.trim(),
+      p_last_name: form.lastName.trim(),
+      p_email: form.email.trim(),
+      p_phone: form.phone?.trim() || null,
+      p_notes: form.notes?.trim() || null,
+      p_timezone: timeZone || null,
+      p_custom_responses: form.customResponses || {}
+    }
+
+    const { data, error } = await supabase.rpc('register_for_sessions', args)
+
+    if (error) throw error
+    return (data || []).map(mapDBSessionRegistrationToDomain)
+  }
+}
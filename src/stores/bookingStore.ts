@@ -11,6 +11,11 @@
 
 import { create } from 'zustand'
 import { BookingService, BookingError, BookingErrorType } from '../lib/services/bookingService'
+import { WaitlistService } from '../lib/services/waitlistService'
+import { PaymentService } from '../lib/services/paymentService'
+import type { CheckoutSession, ManagedBooking, WaitlistEntry, WaitlistJoinData } from '../types/booking'
+import type { CustomResponses } from '../types/database'
+import { detectTimeZone, isValidTimeZone } from '../lib/timezone'
 
 interface SlotAvailability {
   slotId: string
@@ -27,6 +32,8 @@ interface BookingFormData {
   email: string
   phone?: string
   notes?: string
+  customResponses?: CustomResponses
+  smsOptIn?: boolean
 }
 
 interface ConfirmedBooking {
@@ -40,12 +47,21 @@ interface ConfirmedBooking {
   phone: string | null
   date: string
   time: string
+  startTime: string | null
+  endTime: string | null
+  timeZone: string
+  eventTimeZone: string
   status: string
+  paymentStatus: string
+  paymentAmount: number | null
+  paymentCurrency: string
+  meetingUrl: string | null
+  meetingStatus: string | null
   confirmedAt: string
   createdAt: string
 }
 
-type BookingStep = 'select-slot' | 'fill-details' | 'completed'
+type BookingStep = 'select-slot' | 'fill-details' | 'checkout' | 'reschedule' | 'completed'
 
 interface BookingState {
   currentStep: BookingStep
@@ -59,16 +75,33 @@ interface BookingState {
   errorType: BookingErrorType | null
   loading: boolean
   timeRemaining: number
+  // Zone slots are displayed in; sent with the booking as the invitee's zone
+  timeZone: string
+  // Waitlists joined this session, keyed by slot ID
+  waitlistEntries: Record<string, WaitlistEntry>
+  // Set while completing a booking from a waitlist offer
+  waitlistId: string | null
+  // Existing booking being moved to a new slot (the reschedule step)
+  rescheduleFrom: ManagedBooking | null
+  // Pending payment for a paid slot (the checkout step)
+  checkout: CheckoutSession | null
 }
 
 interface BookingStore extends BookingState {
   selectSlot: (slot: SlotAvailability, quantity: number) => Promise<void>
   updateFormData: (data: Partial<BookingFormData>) => void
   confirmBooking: () => Promise<void>
+  payForBooking: () => Promise<void>
+  backToDetails: () => void
   cancelBooking: () => void
   resetBooking: () => void
   clearError: () => void
   verifyLockValidity: () => Promise<boolean>
+  setTimeZone: (timeZone: string) => void
+  joinWaitlist: (eventId: string, slot: SlotAvailability, data: WaitlistJoinData, quantity: number) => Promise<boolean>
+  claimWaitlistOffer: (waitlistId: string) => Promise<void>
+  startReschedule: (booking: ManagedBooking) => void
+  rescheduleToSlot: (slot: SlotAvailability) => Promise<ManagedBooking | null>
 }
 
 const initialFormData: BookingFormData = {
@@ -76,13 +109,72 @@ const initialFormData: BookingFormData = {
   lastName: '',
   email: '',
   phone: '',
-  notes: ''
+  notes: '',
+  customResponses: {},
+  smsOptIn: false
 }
 
 export const useBookingStore = create<BookingStore>((set, get) => {
   // Timer interval ID (stored outside Zustand state to avoid re-renders)
   let timerIntervalId: NodeJS.Timeout | null = null
 
+  // FIX #3: Countdown for the held lock, with automatic verification on expiry
+  const startLockTimer = () => {
+    // Clear any existing timer
+    if (timerIntervalId) {
+      clearInterval(timerIntervalId)
+    }
+
+    timerIntervalId = setInterval(() => {
+      const state = get()
+      if (state.lockExpiresAt) {
+        const remaining = BookingService.getTimeRemaining(state.lockExpiresAt)
+        set({ timeRemaining: remaining })
+
+        // FIX #3: When timer hits zero, force verification and reset
+        if (remaining <= 0) {
+          console.warn('[Timer Expiry] Lock timer expired - forcing verification')
+
+          if (timerIntervalId) {
+            clearInterval(timerIntervalId)
+            timerIntervalId = null
+          }
+
+          // Force lock verification to confirm expiry
+          get().verifyLockValidity().then(isValid => {
+            if (!isValid) {
+              console.error('[Timer Expiry] Lock verification failed - resetting booking flow')
+            }
+          })
+        }
+      }
+    }, 1000)
+  }
+
+  const stopLockTimer = () => {
+    if (timerIntervalId) {
+      clearInterval(timerIntervalId)
+      timerIntervalId = null
+    }
+  }
+
+  // The held seats are gone: back to slot selection with the reason shown
+  const loseReservation = (error: BookingError) => {
+    stopLockTimer()
+    set({
+      error: error.message,
+      errorType: error.type,
+      currentStep: 'select-slot',
+      selectedSlot: null,
+      selectedQuantity: 1,
+      lockId: null,
+      lockExpiresAt: null,
+      checkout: null,
+      timeRemaining: 0,
+      loading: false
+    })
+  }
+
   return {
     // Initial state
     currentStep: 'select-slot',
@@ -96,6 +188,11 @@ export const useBookingStore = create<BookingStore>((set, get) => {
     errorType: null,
     loading: false,
     timeRemaining: 0,
+    timeZone: detectTimeZone(),
+    waitlistEntries: {},
+    waitlistId: null,
+    rescheduleFrom: null,
+    checkout: null,
 
     /**
      * FIX #2: Removed client-side availableCount validation from blocking logic
@@ -143,41 +240,13 @@ export const useBookingStore = create<BookingStore>((set, get) => {
           lockId,
           lockExpiresAt: expiresAt,
           currentStep: 'fill-details',
+          waitlistId: null,
           loading: false,
           error: null,
           errorType: null
         })
         
-        // Clear any existing timer
-        if (timerIntervalId) {
-          clearInterval(timerIntervalId)
-        }
-        
-        // FIX #3: Start countdown timer with automatic verification on expiry
-        timerIntervalId = setInterval(() => {
-          const state = get()
-          if (state.lockExpiresAt) {
-            const remaining = BookingService.getTimeRemaining(state.lockExpiresAt)
-            set({ timeRemaining: remaining })
-            
-            // FIX #3: When timer hits zero, force verification and reset
-            if (remaining <= 0) {
-              console.warn('[Timer Expiry] Lock timer expired - forcing verification')
-              
-              if (timerIntervalId) {
-                clearInterval(timerIntervalId)
-                timerIntervalId = null
-              }
-              
-              // Force lock verification to confirm expiry
-              get().verifyLockValidity().then(isValid => {
-                if (!isValid) {
-                  console.error('[Timer Expiry] Lock verification failed - resetting booking flow')
-                }
-              })
-            }
-          }
-        }, 1000)
+        startLockTimer()
         
       } catch (error: any) {
         console.error('Error selecting slot:', error)
@@ -209,7 +278,7 @@ export const useBookingStore = create<BookingStore>((set, get) => {
      * Atomic booking confirmation with full quantity validation
      */
     confirmBooking: async () => {
-      const { lockId, formData, selectedQuantity } = get()
+      const { lockId, formData, selectedSlot, selectedQuantity, timeZone } = get()
       
       // FIX #1: Using consistent enum - LOCK_INVALID (not INVALID_LOCK)
       if (!lockId) {
@@ -232,12 +301,31 @@ export const useBookingStore = create<BookingStore>((set, get) => {
       set({ loading: true, error: null, errorType: null })
       
       try {
+        // Paid slots are booked once payment goes through at checkout
+        if (selectedSlot && selectedSlot.price > 0) {
+          const checkout = await PaymentService.startCheckout(
+            lockId,
+            formData,
+            selectedQuantity,
+            timeZone
+          )
+          
+          set({
+            checkout,
+            currentStep: 'checkout',
+            lockExpiresAt: checkout.lockExpiresAt,
+            loading: false
+          })
+          return
+        }
+        
         // FIX #2: Pass quantity to completeBooking for server-side validation
         // The backend RPC will re-validate quantity against current capacity
         const booking = await BookingService.completeBooking(
           lockId, 
           formData,
-          selectedQuantity  // ✅ FIX #2: Quantity now enforced at completion
+          selectedQuantity,  // ✅ FIX #2: Quantity now enforced at completion
+          timeZone
         )
         
         // Clear timer on success
@@ -249,6 +337,7 @@ export const useBookingStore = create<BookingStore>((set, get) => {
         set({
           booking,
           currentStep: 'completed',
+          waitlistId: null,
           loading: false,
           error: null,
           errorType: null
@@ -260,25 +349,7 @@ export const useBookingStore = create<BookingStore>((set, get) => {
           if (error.type === BookingErrorType.LOCK_EXPIRED ||
               error.type === BookingErrorType.CAPACITY_CHANGED ||
               error.type === BookingErrorType.CAPACITY_EXCEEDED) {
-            
-            // Clear timer
-            if (timerIntervalId) {
-              clearInterval(timerIntervalId)
-              timerIntervalId = null
-            }
-            
-            // Reset to slot selection
-            set({
-              error: error.message,
-              errorType: error.type,
-              currentStep: 'select-slot',
-              selectedSlot: null,
-              selectedQuantity: 1,
-              lockId: null,
-              lockExpiresAt: null,
-              timeRemaining: 0,
-              loading: false
-            })
+            loseReservation(error)
           } else {
             set({
               loading: false,
@@ -296,6 +367,70 @@ export const useBookingStore = create<BookingStore>((set, get) => {
       }
     },
 
+    /**
+     * Pay for the pending checkout. A declined payment keeps the lock, so
+     * paying again starts a fresh checkout for the same seats.
+     */
+    payForBooking: async () => {
+      const { lockId, formData, selectedQuantity, timeZone } = get()
+      
+      if (!lockId) {
+        set({ 
+          error: 'No active reservation found',
+          errorType: BookingErrorType.LOCK_INVALID
+        })
+        return
+      }
+      
+      set({ loading: true, error: null, errorType: null })
+      
+      try {
+        let checkout = get().checkout
+        if (!checkout) {
+          checkout = await PaymentService.startCheckout(lockId, formData, selectedQuantity, timeZone)
+          set({ checkout, lockExpiresAt: checkout.lockExpiresAt })
+        }
+        
+        const booking = await PaymentService.payCheckout(checkout)
+        
+        stopLockTimer()
+        set({
+          booking,
+          checkout: null,
+          currentStep: 'completed',
+          waitlistId: null,
+          loading: false
+        })
+      } catch (error: any) {
+        console.error('Error paying for booking:', error)
+        
+        if (error instanceof BookingError && error.type === BookingErrorType.LOCK_EXPIRED) {
+          loseReservation(error)
+          return
+        }
+        
+        set({
+          // The failed payment is settled; a retry needs a new one
+          checkout: null,
+          loading: false,
+          error: error.message || 'Payment failed. Please try again.',
+          errorType: error instanceof BookingError ? error.type : BookingErrorType.PAYMENT_FAILED
+        })
+      }
+    },
+
+    /**
+     * Leave checkout to edit details; the seats stay held
+     */
+    backToDetails: () => {
+      set({
+        currentStep: 'fill-details',
+        checkout: null,
+        error: null,
+        errorType: null
+      })
+    },
+
     /**
      * FIX #4: Enhanced verification with forced UI reset on failure
      * Single canonical lock verification method
@@ -368,11 +503,13 @@ export const useBookingStore = create<BookingStore>((set, get) => {
      * Best-effort lock release - server will expire anyway
      */
     cancelBooking: () => {
-      const { lockId } = get()
+      const { lockId, waitlistId } = get()
       
       // Best-effort cleanup - errors are logged but not thrown
       // Server will expire lock after timeout anyway
-      if (lockId) {
+      // A waitlist offer keeps its hold so it can be reopened until it
+      // expires, after which the server passes it to the next in line
+      if (lockId && !waitlistId) {
         BookingService.releaseSlotLock(lockId).then(released => {
           if (!released) {
             console.warn('[Cleanup] Failed to release lock - server will expire it automatically')
@@ -396,6 +533,9 @@ export const useBookingStore = create<BookingStore>((set, get) => {
         lockId: null,
         lockExpiresAt: null,
         timeRemaining: 0,
+        waitlistId: null,
+        rescheduleFrom: null,
+        checkout: null,
         error: null,
         errorType: null
       })
@@ -423,12 +563,149 @@ export const useBookingStore = create<BookingStore>((set, get) => {
         error: null,
         errorType: null,
         loading: false,
-        timeRemaining: 0
+        timeRemaining: 0,
+        waitlistId: null,
+        rescheduleFrom: null,
+        checkout: null
       })
     },
 
     clearError: () => {
       set({ error: null, errorType: null })
+    },
+
+    /**
+     * Display zone is a viewer preference, so resetBooking keeps it
+     */
+    setTimeZone: (timeZone: string) => {
+      if (!isValidTimeZone(timeZone)) return
+      set({ timeZone })
+    },
+
+    /**
+     * Join the waitlist for a full slot
+     * Returns false (with error set) if joining failed
+     */
+    joinWaitlist: async (eventId: string, slot: SlotAvailability, data: WaitlistJoinData, quantity: number) => {
+      set({ loading: true, error: null, errorType: null })
+
+      try {
+        const entry = await WaitlistService.joinWaitlist(eventId, slot.slotId, data, quantity)
+
+        set(state => ({
+          waitlistEntries: { ...state.waitlistEntries, [slot.slotId]: entry },
+          loading: false
+        }))
+        return true
+      } catch (error: any) {
+        console.error('Error joining waitlist:', error)
+
+        set({
+          loading: false,
+          error: error.message || 'Failed to join the waitlist. Please try again.',
+          errorType: error instanceof BookingError ? error.type : BookingErrorType.SYSTEM_ERROR
+        })
+        return false
+      }
+    },
+
+    /**
+     * Resume from a waitlist offer (the link in the notification)
+     * The server already holds the seats, so this goes straight to the
+     * details step with the held lock and the contact details given
+     * when joining
+     */
+    claimWaitlistOffer: async (waitlistId: string) => {
+      set({ loading: true, error: null, errorType: null })
+
+      try {
+        const offer = await WaitlistService.claimOffer(waitlistId)
+
+        set(state => ({
+          selectedSlot: offer.slot,
+          selectedQuantity: offer.quantity,
+          lockId: offer.lockId,
+          lockExpiresAt: offer.expiresAt,
+          formData: { ...state.formData, ...offer.contact },
+          waitlistId,
+          currentStep: 'fill-details',
+          loading: false,
+          error: null,
+          errorType: null
+        }))
+
+        startLockTimer()
+      } catch (error: any) {
+        console.error('Error claiming waitlist offer:', error)
+
+        set({
+          loading: false,
+          error: error.message || 'Failed to load your waitlist offer. Please try again.',
+          errorType: error instanceof BookingError ? error.type : BookingErrorType.SYSTEM_ERROR
+        })
+      }
+    },
+
+    /**
+     * Enter the reschedule step for an existing booking
+     * The seat count is fixed to the booking's; only the slot changes
+     */
+    startReschedule: (booking: ManagedBooking) => {
+      set({
+        rescheduleFrom: booking,
+        selectedSlot: null,
+        selectedQuantity: booking.quantity,
+        currentStep: 'reschedule',
+        error: null,
+        errorType: null
+      })
+    },
+
+    /**
+     * Move the booking to the chosen slot
+     * No client-side lock: the server takes one on the new slot inside the
+     * same transaction that frees the old seats
+     * Returns the updated booking, or null (with error set) on failure
+     */
+    rescheduleToSlot: async (slot: SlotAvailability) => {
+      const { rescheduleFrom } = get()
+
+      if (!rescheduleFrom) {
+        set({
+          error: 'No booking selected to reschedule',
+          errorType: BookingErrorType.BOOKING_NOT_FOUND
+        })
+        return null
+      }
+
+      set({ loading: true, error: null, errorType: null })
+
+      try {
+        const updated = await BookingService.rescheduleBooking(
+          rescheduleFrom.bookingReference,
+          rescheduleFrom.email,
+          slot.slotId
+        )
+
+        set({
+          rescheduleFrom: null,
+          selectedSlot: null,
+          selectedQuantity: 1,
+          currentStep: 'select-slot',
+          loading: false
+        })
+        return updated
+      } catch (error: any) {
+        console.error('Error rescheduling booking:', error)
+
+        // Stay on the reschedule step so another slot can be picked
+        set({
+          loading: false,
+          error: error.message || 'Failed to reschedule your booking. Please try again.',
+          errorType: error instanceof BookingError ? error.type : BookingErrorType.SYSTEM_ERROR
+        })
+        return null
+      }
     }
   }
 })
\ No newline at end of file
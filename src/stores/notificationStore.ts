@@ -0,0 +1,92 @@
+// src/stores/notificationStore.ts
+// Header bell state: the latest notifications and the unread count, kept
+// current through a realtime subscription while a user is signed in
+
+import { create } from 'zustand'
+import { notificationService, NotificationItem } from '../services/notificationService'
+
+/** Notifications shown in the bell dropdown */
+export const RECENT_NOTIFICATIONS = 8
+
+interface NotificationStore {
+  userId: string | null
+  recent: NotificationItem[]
+  unreadCount: number
+  loading: boolean
+
+  start: (userId: string) => void
+  stop: () => void
+  refresh: () => Promise<void>
+  markRead: (notificationId: string) => Promise<void>
+  markAllRead: () => Promise<void>
+}
+
+export const useNotificationStore = create<NotificationStore>((set, get) => {
+  // Realtime unsubscribe (stored outside Zustand state to avoid re-renders)
+  let unsubscribe: (() => void) | null = null
+
+  return {
+    userId: null,
+    recent: [],
+    unreadCount: 0,
+    loading: false,
+
+    start: (userId) => {
+      if (get().userId === userId) return
+
+      get().stop()
+      set({ userId, loading: true })
+
+      unsubscribe = notificationService.subscribe(userId, () => {
+        get().refresh()
+      })
+      get().refresh()
+    },
+
+    stop: () => {
+      unsubscribe?.()
+      unsubscribe = null
+      set({ userId: null, recent: [], unreadCount: 0, loading: false })
+    },
+
+    refresh: async () => {
+      const userId = get().userId
+      if (!userId) return
+
+      try {
+        const [recent, unreadCount] = await Promise.all([
+          notificationService.list(userId, { limit: RECENT_NOTIFICATIONS }),
+          notificationService.getUnreadCount(userId)
+        ])
+
+        // Signed out or switched user while loading
+        if (get().userId !== userId) return
+        set({ recent, unreadCount, loading: false })
+      } catch (error) {
+        console.error('Failed to load notifications:', error)
+        set({ loading: false })
+      }
+    },
+
+    markRead: async (notificationId) => {
+      const notification = get().recent.find(n => n.id === notificationId)
+      if (notification?.isRead) return
+
+      await notificationService.markRead(notificationId)
+
+      set(state => ({
+        recent: state.recent.map(n => n.id === notificationId ? { ...n, isRead: true } : n),
+        unreadCount: Math.max(0, state.unreadCount - 1)
+      }))
+    },
+
+    markAllRead: async () => {
+      await notificationService.markAllRead()
+
+      set(state => ({
+        recent: state.recent.map(n => ({ ...n, isRead: true })),
+        unreadCount: 0
+      }))
+    }
+  }
+})
@@ -54,6 +54,7 @@ vi.mock('../lib/supabase', () => ({
       eq: vi.fn().mockReturnThis(),
       single: vi.fn(),
     })),
+    rpc: vi.fn(() => Promise.resolve({ data: [], error: null })),
   },
   auth: {
     signUp: vi.fn(),
@@ -65,6 +66,7 @@ vi.mock('../lib/supabase', () => ({
   db: {
     getEvents: vi.fn(),
     getEvent: vi.fn(),
+    getEventBySlug: vi.fn(),
     createEvent: vi.fn(),
     updateEvent: vi.fn(),
     deleteEvent: vi.fn(),
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest'
+import { mapEventFormToDBInsert, mapDBEventStatsToDomain } from '../index'
 import type {
   User,
   Event,
@@ -6,7 +7,8 @@ import type {
   EventType,
   EventStatus,
   BookingStatus,
-  NotificationType
+  NotificationType,
+  EventForm
 } from '../index'
 
 describe('Types', () => {
@@ -184,4 +186,124 @@ describe('Types', () => {
       })
     })
   })
-})
\ No newline at end of file
+
+  describe('mapEventFormToDBInsert', () => {
+    const form: EventForm = {
+      title: '  Office Hours  ',
+      description: '',
+      type: 'consultation',
+      duration: 30,
+      location: 'Room 4',
+      isOnline: false,
+      maxAttendees: '',
+      requiresApproval: false,
+      allowCancellation: true,
+      cancellationDeadline: 24,
+      bufferTime: 10,
+      availableDays: ['Monday', 'Wednesday'],
+      timeSlots: { start: '09:00', end: '12:00' },
+      timezone: 'Europe/Berlin'
+    }
+
+    it('maps form fields to snake_case columns', () => {
+      const insert = mapEventFormToDBInsert(form, 'user1')
+
+      expect(insert).toMatchObject({
+        user_id: 'user1',
+        title: 'Office Hours',
+        type: 'consultation',
+        duration: 30,
+        buffer_time: 10,
+        location: 'Room 4',
+        available_days: ['Monday', 'Wednesday'],
+        time_slots: { start: '09:00', end: '12:00' },
+        timezone: 'Europe/Berlin',
+        status: 'active'
+      })
+      expect(insert.slug).toBeUndefined()
+    })
+
+    it('treats empty optional fields as unset', () => {
+      const insert = mapEventFormToDBInsert(form, 'user1', 'draft')
+
+      expect(insert.description).toBeUndefined()
+      expect(insert.max_attendees).toBeUndefined()
+      expect(insert.status).toBe('draft')
+    })
+
+    it('shares the link of online events unless each booking gets its own', () => {
+      const online = { ...form, isOnline: true, location: ' https://meet.example.com/alex ' }
+
+      expect(mapEventFormToDBInsert({ ...online, conferencingProvider: 'static' }, 'user1')).toMatchObject({
+        meeting_url: 'https://meet.example.com/alex',
+        conferencing_provider: 'static'
+      })
+      expect(mapEventFormToDBInsert({ ...online, conferencingProvider: 'generated' }, 'user1')).toMatchObject({
+        meeting_url: undefined,
+        conferencing_provider: 'generated'
+      })
+      expect(mapEventFormToDBInsert({ ...form, conferencingProvider: 'generated' }, 'user1')).toMatchObject({
+        meeting_url: undefined,
+        conferencing_provider: null
+      })
+    })
+
+    it('parses max attendees', () => {
+      const insert = mapEventFormToDBInsert({ ...form, maxAttendees: '12' }, 'user1')
+
+      expect(insert.max_attendees).toBe(12)
+    })
+
+    it('maps the late cancellation refund only when late cancellations are allowed', () => {
+      const late = { ...form, allowLateCancellation: true, lateCancellationRefundPercent: 50 }
+
+      expect(mapEventFormToDBInsert(late, 'user1').late_cancellation_refund_percent).toBe(50)
+      expect(mapEventFormToDBInsert({ ...late, allowCancellation: false }, 'user1').late_cancellation_refund_percent).toBeNull()
+      expect(mapEventFormToDBInsert(form, 'user1').late_cancellation_refund_percent).toBeNull()
+    })
+
+    it('passes reminder settings through, leaving the column default otherwise', () => {
+      const reminderSettings = { enabled: true, hours_before: [48, 2] }
+
+      expect(mapEventFormToDBInsert({ ...form, reminderSettings }, 'user1').reminder_settings).toEqual(reminderSettings)
+      expect(mapEventFormToDBInsert(form, 'user1').reminder_settings).toBeUndefined()
+    })
+
+    it('trims intake questions and drops options from non-choice fields', () => {
+      const insert = mapEventFormToDBInsert({
+        ...form,
+        customFields: [
+          { id: 'f1', label: ' Company ', type: 'text', required: true, options: ['stale'] },
+          { id: 'f2', label: 'Plan', type: 'select', required: false, options: [' Pro ', ''] }
+        ]
+      }, 'user1')
+
+      expect(insert.custom_fields).toEqual([
+        { id: 'f1', label: 'Company', type: 'text', required: true, options: undefined },
+        { id: 'f2', label: 'Plan', type: 'select', required: false, options: ['Pro'] }
+      ])
+      expect(mapEventFormToDBInsert(form, 'user1').custom_fields).toBeUndefined()
+    })
+  })
+
+  describe('mapDBEventStatsToDomain', () => {
+    it('converts BIGINT counts serialized as strings', () => {
+      const stats = mapDBEventStatsToDomain({
+        total_bookings: '5' as any,
+        confirmed_bookings: '3' as any,
+        pending_bookings: '1' as any,
+        cancelled_bookings: '1' as any,
+        attendance_rate: '66.67' as any,
+        avg_booking_lead_time: '2 days'
+      })
+
+      expect(stats).toEqual({
+        totalBookings: 5,
+        confirmedBookings: 3,
+        pendingBookings: 1,
+        cancelledBookings: 1,
+        attendanceRate: 66.67
+      })
+    })
+  })
+})
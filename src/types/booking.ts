@@ -58,6 +58,7 @@
  * - Route Guard: src/components/BookingRouteGuard.tsx
  */
 
+import type { CustomResponses } from './database'
 
 
 export interface TimeSlot {
@@ -77,6 +78,32 @@ export interface TimeSlot {
   updatedAt: string
 }
 
+/**
+ * Why slot generation left out a candidate slot
+ */
+export type SlotSkipReason =
+  | 'outside_availability'   // not inside the organizer's weekly hours
+  | 'unavailable_override'   // blocked by an 'unavailable' override
+  | 'busy_override'          // blocked by a 'busy' override
+  | 'calendar_busy'          // overlaps busy time in a synced calendar
+  | 'already_exists'         // a slot with this start time exists
+
+export interface SkippedSlot {
+  startTime: string
+  endTime: string
+  reason: SlotSkipReason
+  /** Override reason or calendar event title, if there is one */
+  detail?: string
+}
+
+/**
+ * Result of BookingAdminService.generateEventSlots
+ */
+export interface SlotGenerationReport {
+  created: number
+  skipped: SkippedSlot[]
+}
+
 export interface SlotLock {
   id: string
   slotId: string
@@ -113,8 +140,13 @@ export interface BookingFormData {
   firstName: string
   lastName: string
   email: string
+  // E.164 once the form has been submitted
   phone?: string
   notes?: string
+  // Answers to the event's custom_fields, keyed by field id
+  customResponses?: CustomResponses
+  // Text the confirmation and reminders to phone
+  smsOptIn?: boolean
 }
 
 export interface ConfirmedBooking {
@@ -126,19 +158,189 @@ export interface ConfirmedBooking {
   lastName: string
   email: string
   phone: string | null
+  /** Wall-clock date/time of the start in timeZone */
   date: string
   time: string
+  startTime: string | null
+  endTime: string | null
+  /** Invitee's time zone */
+  timeZone: string
+  /** Organizer's time zone */
+  eventTimeZone: string
   status: string
+  /** 'free' unless the slot was paid for at checkout */
+  paymentStatus: string
+  paymentAmount: number | null
+  paymentCurrency: string
+  /** The booking's own join link for online events with a conferencing provider */
+  meetingUrl: string | null
+  /** 'pending' while the link is being created; null without a provider */
+  meetingStatus: string | null
   confirmedAt: string
   createdAt: string
 }
 
+/**
+ * Contact details for joining a slot's waitlist
+ */
+export interface WaitlistJoinData {
+  firstName: string
+  lastName: string
+  email: string
+  phone?: string
+}
+
+/**
+ * A waitlist entry the invitee joined
+ */
+export interface WaitlistEntry {
+  id: string
+  slotId: string
+  position: number
+  quantity: number
+}
+
+/**
+ * An open waitlist offer: seats held for the invitee under lockId
+ * until expiresAt
+ */
+export interface WaitlistOffer {
+  waitlistId: string
+  lockId: string
+  expiresAt: string
+  eventId: string
+  slot: SlotAvailability
+  quantity: number
+  contact: WaitlistJoinData
+}
+
+/**
+ * Sent to the payment provider when checkout starts. paymentId is our
+ * payments.id and comes back in the provider's webhook event.
+ */
+export interface PaymentRequest {
+  paymentId: string
+  amount: number
+  currency: string
+  description: string
+  email: string
+}
+
+/**
+ * The provider's handle on a payment it is collecting
+ */
+export interface PaymentIntent {
+  paymentId: string
+  providerPaymentId: string
+  /** Passed to the provider's client-side SDK, when it has one */
+  clientSecret?: string
+}
+
+/**
+ * Outcome a provider reports once a payment settles
+ */
+export interface PaymentWebhookEvent {
+  paymentId: string
+  providerPaymentId: string
+  status: 'paid' | 'failed'
+  failureReason?: string
+}
+
+/**
+ * Checkout in progress for a paid slot. The slot lock is extended to
+ * lockExpiresAt while payment is pending.
+ */
+export interface CheckoutSession {
+  provider: string
+  intent: PaymentIntent
+  amount: number
+  currency: string
+  lockExpiresAt: string
+}
+
+/**
+ * A refund recorded on the server, waiting for the provider to send it
+ */
+export interface RefundRequest {
+  refundId: string
+  provider: string
+  providerPaymentId: string
+  amount: number
+  currency: string
+}
+
+/**
+ * Outcome a provider reports once a refund settles
+ */
+export interface RefundWebhookEvent {
+  refundId: string
+  providerRefundId?: string
+  status: 'succeeded' | 'failed'
+  failureReason?: string
+}
+
+/**
+ * A booking as seen by a guest managing it by reference and email
+ */
+export interface ManagedBooking {
+  id: string
+  bookingReference: string
+  eventId: string
+  slotId: string | null
+  firstName: string
+  lastName: string
+  email: string
+  phone: string | null
+  notes: string | null
+  status: string
+  quantity: number
+  /** Invitee's time zone */
+  timeZone: string
+  confirmedAt: string | null
+  cancelledAt: string | null
+  createdAt: string
+  event: {
+    title: string
+    description: string | null
+    type: string
+    duration: number
+    location: string | null
+    isOnline: boolean
+    timeZone: string
+  }
+  slot: {
+    startTime: string
+    endTime: string
+    price: number
+    currency: string
+  } | null
+  startsAt: string
+  /** Organizer's cancellation policy */
+  allowCancellation: boolean
+  cancellationDeadlineHours: number
+  /** Last moment the guest may cancel */
+  cancelBy: string
+  canCancel: boolean
+  /** Share refunded for cancellations after cancelBy; null when they're refused */
+  lateRefundPercent: number | null
+  payment: {
+    status: string
+    amount: number
+    currency: string
+  } | null
+  refund: {
+    amount: number
+    status: string
+  } | null
+}
+
 export interface BookingState {
-  currentStep: 'select-slot' | 'fill-details' | 'confirm' | 'completed'
+  currentStep: 'select-slot' | 'fill-details' | 'checkout' | 'confirm' | 'completed'
   selectedSlot: SlotAvailability | null
   lockId: string | null
   lockExpiresAt: string | null
   formData: BookingFormData
+  checkout: CheckoutSession | null
   booking: ConfirmedBooking | null
   error: string | null
   loading: boolean
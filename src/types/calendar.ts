@@ -0,0 +1,78 @@
+// src/types/calendar.ts
+// Types shared by the calendar sync engine and calendar providers
+
+import type { CalendarIntegration } from './database'
+
+/**
+ * What a provider needs to reach one connected calendar
+ */
+export type CalendarConnection = Pick<
+  CalendarIntegration,
+  'id' | 'provider' | 'provider_calendar_id' | 'access_token' | 'refresh_token' | 'token_expires_at'
+>
+
+/**
+ * An event as the calendar provider reports it
+ */
+export interface ExternalCalendarEvent {
+  id: string
+  /** ISO timestamps */
+  start: string
+  end: string
+  title?: string
+  /** Free events (e.g. "working from home") don't block time */
+  transparency: 'busy' | 'free'
+  /** Deleted events are reported as cancelled by incremental listings */
+  status: 'confirmed' | 'cancelled'
+  /** Set on events exported from a booking */
+  bookingId?: string
+  /** Changes whenever the event changes in the calendar */
+  etag: string
+}
+
+/**
+ * An event to write to the calendar for a confirmed booking
+ */
+export interface CalendarEventInput {
+  title: string
+  description: string
+  location?: string
+  start: string
+  end: string
+  bookingId: string
+}
+
+export interface CalendarChanges {
+  /**
+   * Every event in the window for a full listing; only events changed
+   * since the sync token, including deleted ones, otherwise
+   */
+  events: ExternalCalendarEvent[]
+  /** Pass to the next listChanges call to get only newer changes */
+  nextSyncToken: string
+}
+
+/**
+ * Busy time imported from a connected calendar
+ */
+export interface BusyBlock {
+  start: string
+  end: string
+  title?: string
+}
+
+export interface CalendarSyncReport {
+  /** Whether the import listed the whole window instead of changes */
+  fullSync: boolean
+  /** Busy blocks added or updated */
+  imported: number
+  /** Busy blocks removed */
+  removed: number
+  created: number
+  updated: number
+  deleted: number
+  /** Exported events edited in the calendar; the booking was written back */
+  conflicts: number
+  /** Exported events deleted in the calendar; they are not re-created */
+  detached: number
+}
@@ -0,0 +1,36 @@
+// src/types/conferencing.ts
+// Types shared by the meeting link worker and conferencing providers
+
+/**
+ * What a provider needs to set up the meeting for one booking
+ */
+export interface MeetingRequest {
+  bookingId: string
+  bookingReference: string
+  title: string
+  /** ISO timestamps */
+  start: string
+  end: string
+  /** The organizer's email, for providers that host meetings per account */
+  hostEmail: string | null
+  attendeeEmail: string
+  /** The event's meeting_url, used as a personal room */
+  roomUrl: string | null
+}
+
+/**
+ * A meeting as the provider created it
+ */
+export interface Meeting {
+  joinUrl: string
+  /** The provider's ID for revoking or updating it; null when there is nothing to revoke */
+  externalId: string | null
+}
+
+export interface MeetingRunReport {
+  created: number
+  /** Regenerated after the booking moved */
+  updated: number
+  revoked: number
+  failed: number
+}
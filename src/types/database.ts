@@ -60,6 +60,58 @@ export interface Database {
         Insert: AuditLogInsert
         Update: never
       }
+      // Written only by start_slot_payment / confirm_slot_payment
+      payments: {
+        Row: Payment
+        Insert: never
+        Update: never
+      }
+      // Written only by cancellation, refund_unbooked_payment / confirm_refund
+      refunds: {
+        Row: Refund
+        Insert: never
+        Update: never
+      }
+      // Written by the bookings trigger and the email worker's RPCs
+      email_outbox: {
+        Row: EmailOutbox
+        Insert: never
+        Update: never
+      }
+      // Maintained by triggers on bookings and events.reminder_settings
+      booking_reminders: {
+        Row: BookingReminder
+        Insert: never
+        Update: never
+      }
+      // Written by the bookings trigger and the SMS worker's RPCs
+      sms_outbox: {
+        Row: SmsOutbox
+        Insert: never
+        Update: never
+      }
+      calendar_feeds: {
+        Row: CalendarFeed
+        Insert: CalendarFeedInsert
+        Update: CalendarFeedUpdate
+      }
+      // Written by rotate_booking_feed_token / revoke_booking_feed_token
+      booking_feed_tokens: {
+        Row: BookingFeedToken
+        Insert: never
+        Update: never
+      }
+      // Written only by the calendar sync and feed import RPCs
+      calendar_busy_blocks: {
+        Row: CalendarBusyBlock
+        Insert: never
+        Update: never
+      }
+      calendar_event_links: {
+        Row: CalendarEventLink
+        Insert: never
+        Update: never
+      }
     }
     Functions: {
       create_booking: {
@@ -70,9 +122,109 @@ export interface Database {
         Args: { p_booking_id: string; p_cancellation_reason?: string }
         Returns: boolean
       }
+      approve_booking: {
+        Args: { p_booking_id: string }
+        Returns: boolean
+      }
+      decline_booking: {
+        Args: { p_booking_id: string; p_reason?: string }
+        Returns: boolean
+      }
+      reschedule_booking: {
+        Args: RescheduleBookingArgs
+        Returns: string
+      }
+      start_slot_payment: {
+        Args: StartSlotPaymentArgs
+        Returns: { payment_id: string; amount: number; currency: string; lock_expires_at: string }[]
+      }
+      confirm_slot_payment: {
+        Args: ConfirmSlotPaymentArgs
+        Returns: string | null
+      }
+      refund_unbooked_payment: {
+        Args: { p_payment_id: string }
+        Returns: string
+      }
+      confirm_refund: {
+        Args: ConfirmRefundArgs
+        Returns: boolean
+      }
+      claim_pending_refunds: {
+        Args: { p_limit?: number; p_lease_minutes?: number }
+        Returns: PendingRefundClaim[]
+      }
+      retry_refund: {
+        Args: { p_refund_id: string }
+        Returns: void
+      }
+      enqueue_due_reminders: {
+        Args: { p_limit?: number }
+        Returns: number
+      }
+      claim_email_outbox: {
+        Args: { p_limit?: number; p_lease_minutes?: number }
+        Returns: EmailOutbox[]
+      }
+      complete_email_delivery: {
+        Args: CompleteEmailDeliveryArgs
+        Returns: void
+      }
+      claim_sms_outbox: {
+        Args: { p_limit?: number; p_lease_minutes?: number }
+        Returns: SmsOutbox[]
+      }
+      complete_sms_delivery: {
+        Args: CompleteSmsDeliveryArgs
+        Returns: void
+      }
+      get_calendar_export_bookings: {
+        Args: { p_integration_id: string; p_from: string; p_to: string }
+        Returns: CalendarExportBooking[]
+      }
+      apply_calendar_import: {
+        Args: ApplyCalendarImportArgs
+        Returns: number
+      }
+      record_calendar_export: {
+        Args: RecordCalendarExportArgs
+        Returns: void
+      }
+      complete_calendar_sync: {
+        Args: { p_integration_id: string; p_error?: string | null }
+        Returns: void
+      }
+      replace_feed_busy_blocks: {
+        Args: ReplaceFeedBusyBlocksArgs
+        Returns: number
+      }
+      rotate_booking_feed_token: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      revoke_booking_feed_token: {
+        Args: Record<string, never>
+        Returns: void
+      }
+      get_booking_feed: {
+        Args: { p_token: string }
+        Returns: BookingFeedRow[]
+      }
+      claim_booking_meetings: {
+        Args: { p_limit?: number; p_booking_id?: string | null; p_lease_minutes?: number }
+        Returns: BookingMeetingClaim[]
+      }
+      complete_booking_meeting: {
+        Args: CompleteBookingMeetingArgs
+        Returns: BookingMeetingStatus
+      }
+      register_for_sessions: {
+        Args: RegisterForSessionsArgs
+        Returns: SessionRegistration[]
+      }
       add_to_waitlist: {
         Args: AddToWaitlistArgs
-        Returns: string
+        Returns: { waitlist_id: string; waitlist_position: number }[]
       }
       get_available_slots: {
         Args: { p_event_id: string; p_date: string }
@@ -91,10 +243,22 @@ export interface Database {
         Args: { p_event_id: string }
         Returns: EventStats
       }
+      get_events_stats: {
+        Args: { p_event_ids: string[] }
+        Returns: EventStatsRow[]
+      }
       search_events: {
-        Args: { p_query: string; p_limit?: number; p_offset?: number }
+        Args: SearchEventsArgs
         Returns: SearchResult[]
       }
+      mark_notification_read: {
+        Args: { p_notification_id: string }
+        Returns: boolean
+      }
+      mark_all_notifications_read: {
+        Args: { p_type?: NotificationType | null }
+        Returns: number
+      }
     }
   }
 }
@@ -164,17 +328,22 @@ export interface Event {
   location?: string
   is_online: boolean
   meeting_url?: string
+  // Who makes bookings' meeting links; null shares meeting_url as entered
+  conferencing_provider?: ConferencingProviderName | null
   max_attendees?: number
   min_attendees: number
   current_attendees: number
   requires_approval: boolean
   allow_cancellation: boolean
   cancellation_deadline: number
+  // Refund share after the deadline; null refuses late cancellations
+  late_cancellation_refund_percent: number | null
   booking_window_start: number
   booking_window_end: number
   available_days: string[]
   time_slots: TimeSlotRange
   recurring_schedule?: RecurringSchedule
+  timezone: string
   status: EventStatus
   visibility: EventVisibility
   custom_fields: CustomField[]
@@ -198,16 +367,19 @@ export interface EventInsert {
   location?: string
   is_online?: boolean
   meeting_url?: string
+  conferencing_provider?: ConferencingProviderName | null
   max_attendees?: number
   min_attendees?: number
   requires_approval?: boolean
   allow_cancellation?: boolean
   cancellation_deadline?: number
+  late_cancellation_refund_percent?: number | null
   booking_window_start?: number
   booking_window_end?: number
   available_days?: string[]
   time_slots?: TimeSlotRange
   recurring_schedule?: RecurringSchedule
+  timezone?: string
   status?: EventStatus
   visibility?: EventVisibility
   custom_fields?: CustomField[]
@@ -228,16 +400,19 @@ export interface EventUpdate {
   location?: string
   is_online?: boolean
   meeting_url?: string
+  conferencing_provider?: ConferencingProviderName | null
   max_attendees?: number
   min_attendees?: number
   requires_approval?: boolean
   allow_cancellation?: boolean
   cancellation_deadline?: number
+  late_cancellation_refund_percent?: number | null
   booking_window_start?: number
   booking_window_end?: number
   available_days?: string[]
   time_slots?: TimeSlotRange
   recurring_schedule?: RecurringSchedule
+  timezone?: string
   status?: EventStatus
   visibility?: EventVisibility
   custom_fields?: CustomField[]
@@ -255,8 +430,11 @@ export interface EventSession {
   description?: string
   start_time: string
   end_time: string
+  // Falls back to the event's max_attendees
   max_attendees?: number
+  // Seats taken by pending and confirmed bookings
   current_attendees: number
+  // Override the event's
   location?: string
   meeting_url?: string
   status: SessionStatus
@@ -282,12 +460,12 @@ export interface EventSessionInsert {
 
 export interface EventSessionUpdate {
   title?: string
-  description?: string
+  description?: string | null
   start_time?: string
   end_time?: string
-  max_attendees?: number
-  location?: string
-  meeting_url?: string
+  max_attendees?: number | null
+  location?: string | null
+  meeting_url?: string | null
   status?: SessionStatus
   hosts?: string[]
   speakers?: Speaker[]
@@ -305,14 +483,29 @@ export interface Booking {
   date: string
   time: string
   timezone: string
+  quantity: number
   status: BookingStatus
   notes?: string
-  custom_responses: Record<string, any>
+  custom_responses: CustomResponses
+  // Requires an E.164 phone
+  sms_opt_in: boolean
+  // iCalendar SEQUENCE, bumped when the booking moves or is cancelled
+  calendar_sequence: number
+  // Join link made for this booking by the event's conferencing provider
+  meeting_url?: string
+  meeting_provider?: string
+  meeting_external_id?: string
+  meeting_status?: BookingMeetingStatus
+  meeting_error?: string
+  meeting_locked_at?: string
   checked_in: boolean
   checked_in_at?: string
   attended: boolean
   cancelled_at?: string
   cancellation_reason?: string
+  approval_expires_at?: string
+  approval_decision?: ApprovalDecision
+  approval_decided_at?: string
   payment_status: PaymentStatus
   payment_amount?: number
   payment_currency: string
@@ -333,9 +526,11 @@ export interface BookingInsert {
   date: string
   time: string
   timezone?: string
+  quantity?: number
   status?: BookingStatus
   notes?: string
-  custom_responses?: Record<string, any>
+  custom_responses?: CustomResponses
+  sms_opt_in?: boolean
   source?: string
   referrer?: string
 }
@@ -356,14 +551,19 @@ export interface WaitlistEntry {
   id: string
   event_id: string
   session_id?: string
+  slot_id?: string
   user_id?: string
   first_name: string
   last_name: string
   email: string
   phone?: string
   position: number
+  quantity: number
   notified: boolean
   notified_at?: string
+  lock_id?: string
+  offer_expires_at?: string
+  offer_expired_at?: string
   converted_to_booking: boolean
   converted_at?: string
   notes?: string
@@ -374,11 +574,13 @@ export interface WaitlistEntry {
 export interface WaitlistInsert {
   event_id: string
   session_id?: string
+  slot_id?: string
   user_id?: string
   first_name: string
   last_name: string
   email: string
   phone?: string
+  quantity?: number
   notes?: string
 }
 
@@ -446,12 +648,12 @@ export interface AvailabilityOverrideInsert {
 export interface AvailabilityOverrideUpdate {
   start_date?: string
   end_date?: string
-  start_time?: string
-  end_time?: string
+  start_time?: string | null
+  end_time?: string | null
   type?: AvailabilityType
-  reason?: string
+  reason?: string | null
   recurring?: boolean
-  recurrence_pattern?: RecurrencePattern
+  recurrence_pattern?: RecurrencePattern | null
 }
 
 export interface CalendarIntegration {
@@ -465,6 +667,9 @@ export interface CalendarIntegration {
   sync_enabled: boolean
   sync_direction: SyncDirection
   last_sync_at?: string
+  // Provider cursor for incremental import; unset forces a full sync
+  sync_token?: string
+  last_sync_error?: string
   calendar_name?: string
   calendar_color?: string
   is_primary: boolean
@@ -530,6 +735,263 @@ export interface NotificationUpdate {
   read_at?: string
 }
 
+export interface EmailOutbox {
+  id: string
+  booking_id?: string
+  template: EmailTemplate
+  recipient_email: string
+  recipient_name?: string
+  // Set when the recipient has an account, to mark their notification emailed
+  recipient_user_id?: string
+  // WaitlistOfferEmailPayload for waitlist_spot_available
+  payload: BookingEmailPayload | WaitlistOfferEmailPayload
+  dedupe_key: string
+  status: EmailOutboxStatus
+  // Including the attempt in progress once claimed
+  attempts: number
+  next_attempt_at: string
+  locked_at?: string
+  last_error?: string
+  provider_message_id?: string
+  sent_at?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface BookingReminder {
+  id: string
+  booking_id: string
+  hours_before: number
+  remind_at: string
+  status: BookingReminderStatus
+  email_id?: string
+  sms_id?: string
+  processed_at?: string
+  created_at: string
+}
+
+// Built by enqueue_booking_email
+export interface BookingEmailPayload {
+  // booking_id, calendar_sequence, confirmed_at and organizer_email are
+  // missing from emails queued before calendar invites
+  booking_id?: string
+  booking_reference: string
+  first_name: string
+  last_name: string
+  email: string
+  status: BookingStatus
+  quantity: number
+  event_title: string
+  organizer_name: string | null
+  organizer_email?: string | null
+  location: string | null
+  is_online: boolean
+  meeting_url: string | null
+  starts_at: string
+  ends_at: string
+  timezone: string
+  cancellation_reason: string | null
+  calendar_sequence?: number
+  // Set once the booking has been confirmed, and so sent an invitation
+  confirmed_at?: string | null
+}
+
+// Built by enqueue_waitlist_offer_email
+export interface WaitlistOfferEmailPayload {
+  waitlist_id: string
+  first_name: string
+  last_name: string
+  email: string
+  quantity: number
+  event_title: string
+  organizer_name: string | null
+  location: string | null
+  is_online: boolean
+  starts_at: string
+  ends_at: string
+  timezone: string
+  // When the held seats are released
+  expires_at: string
+  // /book/<event id>?waitlist=<waitlist id>, which claims the hold
+  booking_path: string
+}
+
+export interface SmsOutbox {
+  id: string
+  booking_id?: string
+  template: SmsTemplate
+  // E.164
+  recipient_phone: string
+  recipient_user_id?: string
+  payload: BookingSmsPayload
+  dedupe_key: string
+  status: EmailOutboxStatus
+  attempts: number
+  next_attempt_at: string
+  locked_at?: string
+  last_error?: string
+  provider_message_id?: string
+  sent_at?: string
+  created_at: string
+  updated_at: string
+}
+
+// Built by enqueue_booking_sms
+export type BookingSmsPayload = Pick<BookingEmailPayload,
+  | 'booking_reference'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'status'
+  | 'quantity'
+  | 'event_title'
+  | 'location'
+  | 'is_online'
+  | 'starts_at'
+  | 'timezone'
+>
+
+export interface CalendarFeed {
+  id: string
+  user_id: string
+  name: string
+  // https:// or webcal:// feed; unset for uploaded files
+  source_url?: string
+  is_enabled: boolean
+  refresh_interval_minutes: number
+  last_fetched_at?: string
+  last_error?: string
+  // Set by each import; later after consecutive failures
+  next_fetch_at?: string
+  consecutive_failures: number
+  created_at: string
+  updated_at: string
+}
+
+export interface CalendarFeedInsert {
+  user_id: string
+  name: string
+  source_url?: string | null
+  is_enabled?: boolean
+  refresh_interval_minutes?: number
+}
+
+export interface CalendarFeedUpdate {
+  name?: string
+  source_url?: string | null
+  is_enabled?: boolean
+  refresh_interval_minutes?: number
+}
+
+export interface BookingFeedToken {
+  user_id: string
+  token: string
+  created_at: string
+}
+
+// Returned by register_for_sessions, one per session in start order
+export interface SessionRegistration {
+  booking_id: string
+  booking_reference: string
+  session_id: string
+  status: Extract<BookingStatus, 'pending' | 'confirmed'>
+}
+
+// Returned by claim_booking_meetings
+export interface BookingMeetingClaim {
+  booking_id: string
+  booking_reference: string
+  meeting_status: Extract<BookingMeetingStatus, 'pending' | 'revoking'>
+  meeting_provider: string
+  meeting_url: string | null
+  meeting_external_id: string | null
+  calendar_sequence: number
+  start_time: string
+  end_time: string
+  event_title: string
+  // The event's meeting_url, for personal rooms
+  room_url: string | null
+  host_email: string | null
+  attendee_email: string
+}
+
+export interface CompleteBookingMeetingArgs {
+  p_booking_id: string
+  // From the claim, so a booking that moved meanwhile stays pending
+  p_calendar_sequence: number
+  p_meeting_url?: string | null
+  p_external_id?: string | null
+  p_error?: string | null
+}
+
+// Returned by get_booking_feed
+export interface BookingFeedRow {
+  booking_id: string
+  booking_reference: string
+  status: Extract<BookingStatus, 'confirmed' | 'cancelled'>
+  calendar_sequence: number
+  start_time: string
+  end_time: string
+  event_title: string
+  location: string | null
+  is_online: boolean
+  meeting_url: string | null
+  attendee_name: string
+  attendee_email: string
+  quantity: number
+  created_at: string
+  updated_at: string
+}
+
+// From exactly one of a calendar integration or a feed
+export interface CalendarBusyBlock {
+  id: string
+  integration_id?: string
+  feed_id?: string
+  user_id: string
+  external_event_id: string
+  title?: string
+  start_time: string
+  end_time: string
+  created_at: string
+  updated_at: string
+}
+
+export interface CalendarEventLink {
+  id: string
+  integration_id: string
+  booking_id: string
+  external_event_id: string
+  etag?: string
+  // What was last exported, see calendarSync.exportFingerprint
+  fingerprint: string
+  status: CalendarEventLinkStatus
+  last_synced_at: string
+  created_at: string
+  updated_at: string
+}
+
+// Returned by get_calendar_export_bookings
+export interface CalendarExportBooking {
+  booking_id: string
+  booking_status: BookingStatus
+  booking_reference: string
+  event_title: string
+  attendee_name: string
+  attendee_email: string
+  quantity: number
+  location: string | null
+  is_online: boolean
+  meeting_url: string | null
+  start_time: string
+  end_time: string
+  // Set when the booking was exported before
+  link_external_event_id: string | null
+  link_etag: string | null
+  link_fingerprint: string | null
+  link_status: CalendarEventLinkStatus | null
+}
+
 export interface EventAnalytics {
   id: string
   event_id: string
@@ -593,6 +1055,55 @@ export interface AuditLogInsert {
   user_agent?: string
 }
 
+export interface Payment {
+  id: string
+  lock_id?: string
+  slot_id: string
+  booking_id?: string
+  provider: string
+  provider_payment_id?: string
+  amount: number
+  currency: string
+  status: PaymentRecordStatus
+  // Set when failed, or when paid after the slot lock had already expired
+  failure_reason?: string
+  settled_at?: string
+  booking_details: Record<string, any>
+  created_at: string
+  updated_at: string
+}
+
+export interface Refund {
+  id: string
+  payment_id: string
+  // Unset for payments that never became a booking
+  booking_id?: string
+  provider: string
+  provider_refund_id?: string
+  amount: number
+  currency: string
+  percent: number
+  reason: string
+  status: RefundStatus
+  failure_reason?: string
+  settled_at?: string
+  // Sends by the refund worker; reset when the organizer retries
+  attempts: number
+  locked_at?: string
+  created_at: string
+  updated_at: string
+}
+
+// Returned by claim_pending_refunds
+export interface PendingRefundClaim {
+  refund_id: string
+  provider: string
+  provider_payment_id: string | null
+  amount: number | string
+  currency: string
+  attempts: number
+}
+
 // =====================================================
 // ENUMS AND TYPES
 // =====================================================
@@ -638,6 +1149,35 @@ export type PaymentStatus =
   | 'refunded'
   | 'failed'
 
+// payments.status; bookings only exist once paid
+export type PaymentRecordStatus = 'pending' | 'paid' | 'failed'
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed'
+
+// Notification types that are also emailed
+export type EmailTemplate = Extract<NotificationType,
+  | 'booking_created'
+  | 'booking_confirmed'
+  | 'booking_rescheduled'
+  | 'booking_cancelled'
+  | 'booking_reminder'
+  | 'waitlist_spot_available'
+>
+
+// Texted to attendees who opted in
+export type SmsTemplate = Extract<EmailTemplate, 'booking_confirmed' | 'booking_reminder'>
+
+// pending and revoking meetings are due for ConferencingService.processMeetings
+export type BookingMeetingStatus = 'pending' | 'active' | 'revoking' | 'revoked'
+
+// events.conferencing_provider; apps can replace the provider behind each
+export type ConferencingProviderName = 'static' | 'generated'
+
+// Shared by email_outbox and sms_outbox
+export type EmailOutboxStatus = 'pending' | 'sending' | 'sent' | 'failed'
+
+export type BookingReminderStatus = 'scheduled' | 'enqueued' | 'skipped'
+
 export type AvailabilityType = 
   | 'unavailable'
   | 'available'
@@ -654,9 +1194,15 @@ export type SyncDirection =
   | 'export'
   | 'both'
 
+// detached: deleted from the calendar by the organizer, not re-created
+export type CalendarEventLinkStatus =
+  | 'active'
+  | 'detached'
+
 export type NotificationType = 
   | 'booking_created'
   | 'booking_confirmed'
+  | 'booking_rescheduled'
   | 'booking_cancelled'
   | 'booking_reminder'
   | 'event_updated'
@@ -664,6 +1210,14 @@ export type NotificationType =
   | 'payment_received'
   | 'waitlist_spot_available'
   | 'system_update'
+  | 'booking_approval_requested'
+  | 'booking_approved'
+  | 'booking_declined'
+
+export type ApprovalDecision =
+  | 'approved'
+  | 'declined'
+  | 'expired'
 
 export type AuditAction = 
   | 'create'
@@ -694,26 +1248,58 @@ export interface TimeSlot {
   available: boolean
 }
 
+export type CustomFieldType =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'multiselect'
+  | 'checkbox'
+  | 'number'
+  | 'phone'
+
+/**
+ * Stored shape of one entry in events.custom_fields.
+ * Answers are keyed by id in bookings.custom_responses.
+ */
 export interface CustomField {
   id: string
   label: string
-  type: 'text' | 'email' | 'phone' | 'select' | 'textarea' | 'checkbox'
+  type: CustomFieldType
   required: boolean
+  // select and multiselect only
   options?: string[]
   placeholder?: string
 }
 
+// text/textarea/select/phone: string, multiselect: string[], checkbox: boolean, number: number
+export type CustomResponseValue = string | string[] | boolean | number
+
+export type CustomResponses = Record<string, CustomResponseValue>
+
 export interface ReminderSettings {
   enabled: boolean
   hours_before: number[]
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Stored shape of events.recurring_schedule (RRULE-style).
+ * Dates are YYYY-MM-DD in the organizer's calendar; times come from events.time_slots.
+ */
 export interface RecurringSchedule {
-  frequency: 'daily' | 'weekly' | 'monthly'
+  frequency: RecurrenceFrequency
   interval: number
+  start_date: string
   end_date?: string
+  // weekly: 0 = Sunday ... 6 = Saturday
   days_of_week?: number[]
+  // monthly by date: 1-31, or -1 for the last day of the month
   day_of_month?: number
+  // monthly by weekday: weekday (0-6) in week_of_month (1-5, or -1 for last)
+  weekday?: number
+  week_of_month?: number
+  exception_dates?: string[]
 }
 
 export interface RecurrencePattern {
@@ -739,11 +1325,38 @@ export interface EventStats {
   avg_booking_lead_time: string
 }
 
-export interface SearchResult {
-  id: string
-  title: string
-  description?: string
-  type: EventType
+// get_events_stats: EventStats for one of the requested events
+export interface EventStatsRow extends EventStats {
+  event_id: string
+}
+
+/**
+ * Event columns needed to list an event publicly
+ */
+export type EventSummary = Pick<Event,
+  | 'id'
+  | 'user_id'
+  | 'title'
+  | 'slug'
+  | 'description'
+  | 'type'
+  | 'duration'
+  | 'buffer_time'
+  | 'location'
+  | 'is_online'
+  | 'max_attendees'
+  | 'requires_approval'
+  | 'allow_cancellation'
+  | 'cancellation_deadline'
+  | 'available_days'
+  | 'time_slots'
+  | 'status'
+  | 'tags'
+  | 'created_at'
+  | 'updated_at'
+>
+
+export interface SearchResult extends EventSummary {
   relevance: number
 }
 
@@ -764,6 +1377,97 @@ export interface CreateBookingArgs {
   p_custom_responses?: Record<string, any>
 }
 
+export interface RescheduleBookingArgs {
+  p_reference: string
+  p_email: string
+  p_new_slot_id: string
+  p_session_id?: string
+}
+
+export interface StartSlotPaymentArgs {
+  p_lock_id: string
+  p_provider: string
+  p_first_name: string
+  p_last_name: string
+  p_email: string
+  p_phone?: string | null
+  p_notes?: string | null
+  p_quantity?: number
+  p_timezone?: string | null
+  p_custom_responses?: CustomResponses
+  p_sms_opt_in?: boolean
+}
+
+export interface ConfirmSlotPaymentArgs {
+  p_payment_id: string
+  p_status: 'paid' | 'failed'
+  p_provider_payment_id?: string | null
+  p_failure_reason?: string | null
+}
+
+export interface RegisterForSessionsArgs {
+  p_event_id: string
+  p_session_ids: string[]
+  p_first_name: string
+  p_last_name: string
+  p_email: string
+  p_phone?: string | null
+  p_notes?: string | null
+  p_timezone?: string | null
+  p_custom_responses?: CustomResponses
+}
+
+export interface ConfirmRefundArgs {
+  p_refund_id: string
+  p_status: 'succeeded' | 'failed'
+  p_provider_refund_id?: string | null
+  p_failure_reason?: string | null
+}
+
+export interface CompleteEmailDeliveryArgs {
+  p_email_id: string
+  p_sent: boolean
+  p_provider_message_id?: string | null
+  p_error?: string | null
+  // Omit to give up on a failed email
+  p_retry_at?: string | null
+}
+
+export interface ApplyCalendarImportArgs {
+  p_integration_id: string
+  p_blocks: { external_event_id: string; title: string | null; start_time: string; end_time: string }[]
+  p_removed_event_ids?: string[]
+  // Replace every block of the integration instead of merging
+  p_full_sync?: boolean
+  p_sync_token?: string | null
+}
+
+export interface ReplaceFeedBusyBlocksArgs {
+  p_feed_id: string
+  p_blocks: { external_event_id: string; title: string | null; start_time: string; end_time: string }[]
+  // Record a failed import; the previous blocks are kept
+  p_error?: string | null
+}
+
+export interface RecordCalendarExportArgs {
+  p_integration_id: string
+  p_booking_id: string
+  // Null forgets the link
+  p_external_event_id: string | null
+  p_etag?: string | null
+  p_fingerprint?: string | null
+  p_status?: CalendarEventLinkStatus
+}
+
+export interface CompleteSmsDeliveryArgs {
+  p_sms_id: string
+  p_sent: boolean
+  p_provider_message_id?: string | null
+  p_error?: string | null
+  // Omit to give up on a failed text
+  p_retry_at?: string | null
+}
+
 export interface AddToWaitlistArgs {
   p_event_id: string
   p_session_id?: string
@@ -772,4 +1476,15 @@ export interface AddToWaitlistArgs {
   p_email: string
   p_phone?: string
   p_notes?: string
-}
\ No newline at end of file
+  p_slot_id?: string
+  p_quantity?: number
+}
+export interface SearchEventsArgs {
+  p_query?: string
+  p_type?: EventType
+  p_tags?: string[]
+  p_limit?: number
+  p_cursor_relevance?: number
+  p_cursor_created_at?: string
+  p_cursor_id?: string
+}
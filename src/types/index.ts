@@ -1,6 +1,17 @@
 import { 
   Availability as DBAvailability,
-  AvailabilityInsert as DBAvailabilityInsert
+  AvailabilityInsert as DBAvailabilityInsert,
+  AvailabilityOverride as DBAvailabilityOverride,
+  AvailabilityOverrideInsert as DBAvailabilityOverrideInsert,
+  AvailabilityOverrideUpdate as DBAvailabilityOverrideUpdate,
+  AvailabilityType,
+  CustomField,
+  ReminderSettings,
+  ConferencingProviderName,
+  EventSummary as DBEventSummary,
+  EventInsert as DBEventInsert,
+  EventStats as DBEventStats,
+  Notification as DBNotification
 } from './database'
 
 export interface User {
@@ -53,10 +64,96 @@ export const mapDomainAvailabilityToDBInsert = (domain: Partial<Availability>, u
   is_enabled: domain.isEnabled ?? true
 })
 
+/**
+ * Date-specific exception to the weekly availability.
+ * Dates and times are wall-clock values in the organizer's time zone;
+ * no start/end time means the whole day.
+ */
+export interface AvailabilityOverride {
+  id: string
+  userId: string
+  startDate: string
+  endDate: string
+  startTime?: string
+  endTime?: string
+  type: AvailabilityType
+  reason?: string
+  recurring: boolean
+  // Weekdays (0 = Sunday) a recurring override applies on within its date range
+  daysOfWeek?: number[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Mapper to convert Database AvailabilityOverride to Domain AvailabilityOverride
+ */
+export const mapDBAvailabilityOverrideToDomain = (db: DBAvailabilityOverride): AvailabilityOverride => ({
+  id: db.id,
+  userId: db.user_id,
+  startDate: db.start_date,
+  endDate: db.end_date,
+  startTime: db.start_time || undefined,
+  endTime: db.end_time || undefined,
+  type: db.type,
+  reason: db.reason || undefined,
+  recurring: db.recurring,
+  daysOfWeek: db.recurring ? db.recurrence_pattern?.days_of_week : undefined,
+  createdAt: db.created_at,
+  updatedAt: db.updated_at
+})
+
+/**
+ * Editable fields of an override
+ */
+export type AvailabilityOverrideInput = Omit<AvailabilityOverride, 'id' | 'userId' | 'createdAt' | 'updatedAt'>
+
+// Recurring overrides repeat weekly on daysOfWeek
+const toRecurrencePattern = (input: AvailabilityOverrideInput) =>
+  input.recurring && input.daysOfWeek?.length
+    ? { frequency: 'weekly' as const, interval: 1, days_of_week: input.daysOfWeek }
+    : undefined
+
+/**
+ * Mapper to convert Domain AvailabilityOverride to Database Insert
+ */
+export const mapDomainAvailabilityOverrideToDBInsert = (
+  input: AvailabilityOverrideInput,
+  userId: string
+): DBAvailabilityOverrideInsert => ({
+  user_id: userId,
+  start_date: input.startDate,
+  end_date: input.endDate,
+  start_time: input.startTime || undefined,
+  end_time: input.endTime || undefined,
+  type: input.type,
+  reason: input.reason?.trim() || undefined,
+  recurring: input.recurring,
+  recurrence_pattern: toRecurrencePattern(input)
+})
+
+/**
+ * Mapper to convert Domain AvailabilityOverride to Database Update.
+ * Cleared optional fields are sent as null so the column is reset.
+ */
+export const mapDomainAvailabilityOverrideToDBUpdate = (
+  input: AvailabilityOverrideInput
+): DBAvailabilityOverrideUpdate => ({
+  start_date: input.startDate,
+  end_date: input.endDate,
+  start_time: input.startTime || null,
+  end_time: input.endTime || null,
+  type: input.type,
+  reason: input.reason?.trim() || null,
+  recurring: input.recurring,
+  recurrence_pattern: toRecurrencePattern(input) ?? null
+})
+
 export interface Event {
   id: string
   userId: string
   title: string
+  slug?: string
   description?: string
   type: EventType
   duration: number // in minutes
@@ -73,10 +170,60 @@ export interface Event {
     start: string
     end: string
   }
+  tags?: string[]
   createdAt: string
   updatedAt: string
 }
 
+/**
+ * Mapper to convert Database Event to Domain Event
+ */
+export const mapDBEventToDomain = (db: DBEventSummary): Event => ({
+  id: db.id,
+  userId: db.user_id,
+  title: db.title,
+  slug: db.slug,
+  description: db.description,
+  type: db.type,
+  duration: db.duration,
+  location: db.location,
+  isOnline: db.is_online,
+  maxAttendees: db.max_attendees,
+  requiresApproval: db.requires_approval,
+  allowCancellation: db.allow_cancellation,
+  cancellationDeadline: db.cancellation_deadline,
+  bufferTime: db.buffer_time,
+  status: db.status,
+  availableDays: db.available_days || [],
+  timeSlots: db.time_slots,
+  tags: db.tags || [],
+  createdAt: db.created_at,
+  updatedAt: db.updated_at
+})
+
+/**
+ * Booking counts for a single event, as returned by get_event_stats
+ */
+export interface EventBookingStats {
+  totalBookings: number
+  confirmedBookings: number
+  pendingBookings: number
+  cancelledBookings: number
+  attendanceRate: number
+}
+
+/**
+ * Mapper to convert get_event_stats row to Domain EventBookingStats.
+ * COUNT(*) comes back as BIGINT, which PostgREST may serialize as a string.
+ */
+export const mapDBEventStatsToDomain = (db: DBEventStats): EventBookingStats => ({
+  totalBookings: Number(db.total_bookings) || 0,
+  confirmedBookings: Number(db.confirmed_bookings) || 0,
+  pendingBookings: Number(db.pending_bookings) || 0,
+  cancelledBookings: Number(db.cancelled_bookings) || 0,
+  attendanceRate: Number(db.attendance_rate) || 0
+})
+
 export interface Booking {
   id: string
   eventId: string
@@ -151,18 +298,45 @@ export interface Notification {
   type: NotificationType
   title: string
   message: string
+  eventId?: string
+  bookingId?: string
   isRead: boolean
+  readAt?: string
   data?: Record<string, any>
   createdAt: string
 }
 
 export type NotificationType = 
   | 'booking_created'
+  | 'booking_confirmed'
+  | 'booking_rescheduled'
   | 'booking_cancelled'
   | 'booking_reminder'
   | 'event_updated'
+  | 'event_cancelled'
   | 'payment_received'
+  | 'waitlist_spot_available'
   | 'system_update'
+  | 'booking_approval_requested'
+  | 'booking_approved'
+  | 'booking_declined'
+
+/**
+ * Mapper to convert DB Notification to Domain Notification
+ */
+export const mapDBNotificationToDomain = (db: DBNotification): Notification => ({
+  id: db.id,
+  userId: db.user_id,
+  type: db.type,
+  title: db.title,
+  message: db.message,
+  eventId: db.event_id || undefined,
+  bookingId: db.booking_id || undefined,
+  isRead: db.is_read,
+  readAt: db.read_at || undefined,
+  data: db.data || undefined,
+  createdAt: db.created_at
+})
 
 export interface ApiResponse<T = any> {
   data?: T
@@ -203,18 +377,72 @@ export interface EventForm {
   duration: number
   location: string
   isOnline: boolean
+  conferencingProvider?: ConferencingProviderName | '' // Who makes online bookings' links; '' shares the location link as entered
   maxAttendees: string
   requiresApproval: boolean
   allowCancellation: boolean
   cancellationDeadline: number
+  allowLateCancellation?: boolean // Accept cancellations after the deadline
+  lateCancellationRefundPercent?: number // Share of the payment refunded for them
   bufferTime: number
   availableDays: string[]
   timeSlots: {
     start: string
     end: string
   }
+  timezone: string // IANA zone the days and time window are in
+  customFields?: CustomField[] // Intake questions asked when booking
+  reminderSettings?: ReminderSettings // Reminder emails before each booking
 }
 
+/**
+ * Mapper to convert the CreateEvent form to a Database Insert.
+ * The slug is left unset so the generate_event_slug trigger fills it in.
+ */
+export const mapEventFormToDBInsert = (
+  form: EventForm,
+  userId: string,
+  status: EventStatus = 'active'
+): DBEventInsert => ({
+  user_id: userId,
+  title: form.title.trim(),
+  description: form.description.trim() || undefined,
+  type: form.type,
+  duration: Number(form.duration),
+  buffer_time: Number(form.bufferTime),
+  // Generated links replace the one entered, so none is shared as a fallback
+  location: form.isOnline && form.conferencingProvider === 'generated'
+    ? undefined
+    : form.location.trim() || undefined,
+  is_online: form.isOnline,
+  meeting_url: form.isOnline && form.conferencingProvider !== 'generated'
+    ? form.location.trim() || undefined
+    : undefined,
+  conferencing_provider: form.isOnline ? form.conferencingProvider || null : null,
+  max_attendees: form.maxAttendees ? parseInt(form.maxAttendees, 10) : undefined,
+  requires_approval: form.requiresApproval,
+  allow_cancellation: form.allowCancellation,
+  cancellation_deadline: Number(form.cancellationDeadline),
+  late_cancellation_refund_percent: form.allowCancellation && form.allowLateCancellation
+    ? Number(form.lateCancellationRefundPercent) || 0
+    : null,
+  available_days: form.availableDays,
+  time_slots: form.timeSlots,
+  timezone: form.timezone,
+  custom_fields: form.customFields?.length
+    ? form.customFields.map(field => ({
+        ...field,
+        label: field.label.trim(),
+        // Options left over from switching a choice field to another type are dropped
+        options: field.type === 'select' || field.type === 'multiselect'
+          ? field.options?.map(option => option.trim()).filter(Boolean)
+          : undefined
+      }))
+    : undefined,
+  reminder_settings: form.reminderSettings,
+  status
+})
+
 export interface BookingForm {
   firstName: string
   lastName: string
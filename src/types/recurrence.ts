@@ -0,0 +1,78 @@
+// src/types/recurrence.ts
+// Domain types for recurring event schedules (events.recurring_schedule)
+
+import {
+  RecurringSchedule as DBRecurringSchedule,
+  RecurrenceFrequency
+} from './database'
+
+export type { RecurrenceFrequency }
+
+/**
+ * Nth weekday of the month, e.g. { weekday: 2, week: 1 } is the first Tuesday.
+ * week is 1-5, or -1 for the last occurrence in the month.
+ */
+export interface MonthlyWeekday {
+  weekday: number
+  week: number
+}
+
+/**
+ * Canonical recurrence rule for the domain.
+ *
+ * - daily:   every `interval` days from startDate
+ * - weekly:  on `daysOfWeek` every `interval` weeks (weeks start on Monday)
+ * - monthly: on `monthlyWeekday` or `dayOfMonth` every `interval` months
+ *
+ * All dates are YYYY-MM-DD calendar dates in the organizer's time zone.
+ * endDate is inclusive; exceptionDates are skipped.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  startDate: string
+  endDate?: string
+  daysOfWeek?: number[]
+  dayOfMonth?: number
+  monthlyWeekday?: MonthlyWeekday
+  exceptionDates: string[]
+}
+
+/**
+ * A generated slot, ready to insert into time_slots
+ */
+export interface GeneratedSlot {
+  startTime: string
+  endTime: string
+}
+
+/**
+ * Mapper to convert Database RecurringSchedule to Domain RecurrenceRule
+ */
+export const mapDBRecurringScheduleToDomain = (db: DBRecurringSchedule): RecurrenceRule => ({
+  frequency: db.frequency,
+  interval: db.interval || 1,
+  startDate: db.start_date,
+  endDate: db.end_date,
+  daysOfWeek: db.days_of_week,
+  dayOfMonth: db.day_of_month,
+  monthlyWeekday: db.weekday !== undefined && db.week_of_month !== undefined
+    ? { weekday: db.weekday, week: db.week_of_month }
+    : undefined,
+  exceptionDates: db.exception_dates || []
+})
+
+/**
+ * Mapper to convert Domain RecurrenceRule to Database RecurringSchedule
+ */
+export const mapDomainRecurrenceToDB = (rule: RecurrenceRule): DBRecurringSchedule => ({
+  frequency: rule.frequency,
+  interval: rule.interval,
+  start_date: rule.startDate,
+  end_date: rule.endDate,
+  days_of_week: rule.daysOfWeek,
+  day_of_month: rule.dayOfMonth,
+  weekday: rule.monthlyWeekday?.weekday,
+  week_of_month: rule.monthlyWeekday?.week,
+  exception_dates: rule.exceptionDates.length > 0 ? rule.exceptionDates : undefined
+})
@@ -0,0 +1,129 @@
+// src/types/session.ts
+// Domain types for multi-session events (event_sessions)
+
+import {
+  EventSession as DBEventSession,
+  EventSessionInsert as DBEventSessionInsert,
+  EventSessionUpdate as DBEventSessionUpdate,
+  SessionRegistration as DBSessionRegistration,
+  SessionStatus
+} from './database'
+
+export type { SessionStatus }
+
+export interface SessionSpeaker {
+  name: string
+  title?: string
+  bio?: string
+}
+
+/**
+ * One session on an event's agenda. Times are ISO timestamps; location,
+ * meeting link and capacity fall back to the event's when unset.
+ */
+export interface EventSession {
+  id: string
+  eventId: string
+  title: string
+  description?: string
+  startTime: string
+  endTime: string
+  maxAttendees?: number
+  attendees: number
+  location?: string
+  meetingUrl?: string
+  status: SessionStatus
+  speakers: SessionSpeaker[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Mapper to convert Database EventSession to Domain EventSession
+ */
+export const mapDBEventSessionToDomain = (db: DBEventSession): EventSession => ({
+  id: db.id,
+  eventId: db.event_id,
+  title: db.title || 'Untitled session',
+  description: db.description || undefined,
+  startTime: db.start_time,
+  endTime: db.end_time,
+  maxAttendees: db.max_attendees ?? undefined,
+  attendees: db.current_attendees || 0,
+  location: db.location || undefined,
+  meetingUrl: db.meeting_url || undefined,
+  status: db.status,
+  speakers: (db.speakers || []).map(speaker => ({
+    name: speaker.name,
+    title: speaker.title || undefined,
+    bio: speaker.bio || undefined
+  })),
+  createdAt: db.created_at,
+  updatedAt: db.updated_at
+})
+
+/**
+ * Editable fields of a session
+ */
+export type EventSessionInput = Pick<EventSession,
+  'title' | 'description' | 'startTime' | 'endTime' | 'maxAttendees' | 'location' | 'meetingUrl' | 'speakers'
+>
+
+const toDBSpeakers = (speakers: SessionSpeaker[]) =>
+  speakers
+    .filter(speaker => speaker.name.trim())
+    .map(speaker => ({
+      name: speaker.name.trim(),
+      title: speaker.title?.trim() || undefined,
+      bio: speaker.bio?.trim() || undefined
+    }))
+
+/**
+ * Mapper to convert Domain EventSession to Database Insert
+ */
+export const mapDomainEventSessionToDBInsert = (
+  input: EventSessionInput,
+  eventId: string
+): DBEventSessionInsert => ({
+  event_id: eventId,
+  title: input.title.trim(),
+  description: input.description?.trim() || undefined,
+  start_time: input.startTime,
+  end_time: input.endTime,
+  max_attendees: input.maxAttendees,
+  location: input.location?.trim() || undefined,
+  meeting_url: input.meetingUrl?.trim() || undefined,
+  speakers: toDBSpeakers(input.speakers)
+})
+
+/**
+ * Mapper to convert Domain EventSession to Database Update.
+ * Cleared optional fields are written as null so they fall back to the event's.
+ */
+export const mapDomainEventSessionToDBUpdate = (input: EventSessionInput): DBEventSessionUpdate => ({
+  title: input.title.trim(),
+  description: input.description?.trim() || null,
+  start_time: input.startTime,
+  end_time: input.endTime,
+  max_attendees: input.maxAttendees ?? null,
+  location: input.location?.trim() || null,
+  meeting_url: input.meetingUrl?.trim() || null,
+  speakers: toDBSpeakers(input.speakers)
+})
+
+/**
+ * The booking made for one session by register_for_sessions
+ */
+export interface SessionRegistration {
+  bookingId: string
+  bookingReference: string
+  sessionId: string
+  status: DBSessionRegistration['status']
+}
+
+export const mapDBSessionRegistrationToDomain = (db: DBSessionRegistration): SessionRegistration => ({
+  bookingId: db.booking_id,
+  bookingReference: db.booking_reference,
+  sessionId: db.session_id,
+  status: db.status
+})
@@ -0,0 +1,111 @@
+-- supabase/migrations/20240128000000_search_events_filters.sql
+-- Extend search_events for the public events listing:
+-- optional free-text query, type filter, tag filter and keyset (cursor) pagination
+
+-- Drop the offset-paginated version
+DROP FUNCTION IF EXISTS public.search_events(TEXT, INTEGER, INTEGER);
+
+-- =====================================================
+-- SEARCH EVENTS
+-- Only public, active events are ever returned.
+-- Results are ordered by (relevance, created_at, id) descending; pass the
+-- last row's values back as the cursor to fetch the next page.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.search_events(
+  p_query TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_relevance REAL DEFAULT NULL,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  slug TEXT,
+  description TEXT,
+  type TEXT,
+  duration INTEGER,
+  buffer_time INTEGER,
+  location TEXT,
+  is_online BOOLEAN,
+  max_attendees INTEGER,
+  requires_approval BOOLEAN,
+  allow_cancellation BOOLEAN,
+  cancellation_deadline INTEGER,
+  available_days TEXT[],
+  time_slots JSONB,
+  status TEXT,
+  tags TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  relevance REAL
+) AS $$
+DECLARE
+  v_query TEXT := NULLIF(TRIM(p_query), '');
+BEGIN
+  IF p_limit IS NULL OR p_limit <= 0 OR p_limit > 100 THEN
+    RAISE EXCEPTION 'Limit must be between 1 and 100';
+  END IF;
+
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      e.*,
+      CASE
+        WHEN v_query IS NULL THEN 0::REAL
+        ELSE ts_rank(
+          to_tsvector('english', e.title || ' ' || COALESCE(e.description, '')),
+          plainto_tsquery('english', v_query)
+        )
+      END AS rank
+    FROM public.events e
+    WHERE
+      e.status = 'active'
+      AND e.visibility = 'public'
+      AND (
+        v_query IS NULL
+        OR to_tsvector('english', e.title || ' ' || COALESCE(e.description, '')) @@
+           plainto_tsquery('english', v_query)
+      )
+      AND (p_type IS NULL OR e.type = p_type)
+      -- Events must carry every requested tag
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR e.tags @> p_tags)
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.title,
+    r.slug,
+    r.description,
+    r.type,
+    r.duration,
+    r.buffer_time,
+    r.location,
+    r.is_online,
+    r.max_attendees,
+    r.requires_approval,
+    r.allow_cancellation,
+    r.cancellation_deadline,
+    r.available_days,
+    r.time_slots,
+    r.status,
+    r.tags,
+    r.created_at,
+    r.updated_at,
+    r.rank
+  FROM ranked r
+  WHERE
+    p_cursor_id IS NULL
+    OR (r.rank, r.created_at, r.id) < (p_cursor_relevance, p_cursor_created_at, p_cursor_id)
+  ORDER BY r.rank DESC, r.created_at DESC, r.id DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_events(TEXT, TEXT, TEXT[], INTEGER, REAL, TIMESTAMPTZ, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_events(TEXT, TEXT, TEXT[], INTEGER, REAL, TIMESTAMPTZ, UUID) IS
+'Searches public, active events with optional full-text query, type and tag filters. Uses keyset pagination on (relevance, created_at, id).';
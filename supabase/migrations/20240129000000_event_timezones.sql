@@ -0,0 +1,265 @@
+-- supabase/migrations/20240129000000_event_timezones.sql
+-- Give every event an IANA time zone and generate/book slots in it.
+-- time_slots.start_time/end_time are TIMESTAMPTZ, so the zone only matters
+-- when turning the event's wall-clock window (time_slots JSONB) into instants.
+
+-- =====================================================
+-- TIME ZONE VALIDATION
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- EVENTS.TIMEZONE
+-- =====================================================
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+-- Existing events take the organizer's profile zone
+UPDATE public.events e
+SET timezone = p.timezone
+FROM public.profiles p
+WHERE p.id = e.user_id
+  AND p.timezone IS NOT NULL
+  AND public.is_valid_timezone(p.timezone);
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_timezone_valid CHECK (public.is_valid_timezone(timezone));
+
+-- =====================================================
+-- GENERATE EVENT SLOTS (Admin Only)
+-- Same rules as before, but the daily window is read as wall-clock time
+-- in the event's zone instead of the database session's zone
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.generate_event_slots(
+  p_event_id UUID,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_capacity_per_slot INTEGER DEFAULT 10
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_event RECORD;
+  v_curr DATE;
+  v_start TIME;
+  v_end TIME;
+  v_count INTEGER := 0;
+BEGIN
+  -- Get event details
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  -- Validate capacity
+  IF p_capacity_per_slot <= 0 THEN
+    RAISE EXCEPTION 'Capacity must be greater than 0';
+  END IF;
+
+  -- Loop through dates
+  v_curr := p_start_date;
+  WHILE v_curr <= p_end_date LOOP
+    -- Check if current day is in available days
+    IF TRIM(TO_CHAR(v_curr, 'Day')) = ANY(v_event.available_days) THEN
+      v_start := (v_event.time_slots->>'start')::TIME;
+      v_end := v_start + (v_event.duration || ' minutes')::INTERVAL;
+
+      WHILE v_end <= (v_event.time_slots->>'end')::TIME LOOP
+        -- AT TIME ZONE on a plain TIMESTAMP interprets it in the event's zone
+        INSERT INTO public.time_slots (
+          event_id, start_time, end_time, total_capacity
+        ) VALUES (
+          p_event_id,
+          (v_curr + v_start) AT TIME ZONE v_event.timezone,
+          (v_curr + v_end) AT TIME ZONE v_event.timezone,
+          p_capacity_per_slot
+        );
+
+        v_count := v_count + 1;
+
+        v_start := v_end + (v_event.buffer_time || ' minutes')::INTERVAL;
+        v_end := v_start + (v_event.duration || ' minutes')::INTERVAL;
+      END LOOP;
+    END IF;
+
+    v_curr := v_curr + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SLOT BOOKING
+-- Adds p_timezone: the invitee's zone. bookings.date/time are stored as
+-- wall-clock time in that zone and bookings.timezone records which zone.
+-- Falls back to the event's zone when the invitee's zone is missing or unknown.
+-- =====================================================
+DROP FUNCTION IF EXISTS public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.complete_slot_booking(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_lock_validation RECORD;
+  v_quantity_to_book INTEGER;
+  v_timezone TEXT;
+BEGIN
+  -- Verify lock is valid
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  -- Get lock details
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  -- Validate provided quantity matches lock quantity
+  IF p_quantity IS NOT NULL THEN
+    IF p_quantity != v_lock.quantity THEN
+      RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+    END IF;
+    v_quantity_to_book := p_quantity;
+  ELSE
+    v_quantity_to_book := v_lock.quantity;
+  END IF;
+
+  IF v_quantity_to_book <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity: %', v_quantity_to_book;
+  END IF;
+
+  -- Get slot details with row lock
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- Final capacity check with explicit quantity
+  IF v_slot.booked_count + v_quantity_to_book > v_slot.total_capacity THEN
+    RAISE EXCEPTION 'Insufficient capacity. Requested: %, Available: %',
+      v_quantity_to_book,
+      (v_slot.total_capacity - v_slot.booked_count);
+  END IF;
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    SELECT timezone INTO v_timezone FROM public.events WHERE id = v_slot.event_id;
+  END IF;
+
+  -- Create booking
+  INSERT INTO public.bookings (
+    event_id,
+    slot_id,
+    user_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    date,
+    time,
+    timezone,
+    status,
+    notes,
+    confirmed_at
+  )
+  SELECT
+    v_slot.event_id,
+    v_slot.id,
+    v_lock.user_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    (v_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    (v_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    v_timezone,
+    'confirmed',
+    CASE
+      WHEN p_notes IS NOT NULL THEN p_notes
+      WHEN v_quantity_to_book > 1 THEN format('Group booking: %s seats', v_quantity_to_book)
+      ELSE NULL
+    END,
+    NOW()
+  RETURNING id INTO v_booking_id;
+
+  -- Update slot booked count with explicit quantity
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_quantity_to_book,
+    status = CASE
+      WHEN booked_count + v_quantity_to_book >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_slot.id;
+
+  -- Release lock
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = p_lock_id;
+
+  -- Log the booking with quantity
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    new_data
+  ) VALUES (
+    'create',
+    'booking',
+    v_booking_id,
+    jsonb_build_object(
+      'lock_id', p_lock_id,
+      'slot_id', v_slot.id,
+      'quantity', v_quantity_to_book,
+      'email', p_email,
+      'timezone', v_timezone
+    )
+  );
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.is_valid_timezone(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- COMMENTS FOR DOCUMENTATION
+-- =====================================================
+COMMENT ON COLUMN public.events.timezone IS
+'IANA time zone of the organizer. available_days and time_slots are wall-clock values in this zone.';
+
+COMMENT ON FUNCTION public.generate_event_slots(UUID, DATE, DATE, INTEGER) IS
+'Admin function to generate time slots for an event based on availability rules. The daily window is interpreted in events.timezone.';
+
+COMMENT ON FUNCTION public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT) IS
+'Converts a valid lock into a confirmed booking with quantity validation. Records the booking date/time in the invitee''s time zone (p_timezone), falling back to the event''s zone.';
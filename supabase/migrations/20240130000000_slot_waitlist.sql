@@ -0,0 +1,683 @@
+-- supabase/migrations/20240130000000_slot_waitlist.sql
+-- Per-slot waitlist with time-boxed offers
+--
+-- Invitees can join the waitlist for a full time slot. When seats free up
+-- (a booking is cancelled) the next entries in line get an offer: a slot
+-- lock held for them for a limited time plus a 'waitlist_spot_available'
+-- notification. Unclaimed offers expire and pass to the next entry.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+ALTER TABLE public.waitlist
+  ADD COLUMN IF NOT EXISTS slot_id UUID REFERENCES public.time_slots(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  ADD COLUMN IF NOT EXISTS lock_id UUID REFERENCES public.slot_locks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS offer_expired_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_slot_id ON public.waitlist(slot_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_lock_id ON public.waitlist(lock_id);
+
+-- Seats per booking, so cancellations can give the right number back
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0);
+
+-- Group bookings made before this column existed recorded their size in the audit log
+UPDATE public.bookings b
+SET quantity = (a.new_data->>'quantity')::INTEGER
+FROM public.audit_log a
+WHERE a.entity_type = 'booking'
+  AND a.action = 'create'
+  AND a.entity_id = b.id
+  AND (a.new_data->>'quantity')::INTEGER > 1;
+
+-- =====================================================
+-- GET AVAILABLE SLOTS
+-- Now also returns full slots (available_count = 0) so the
+-- booking page can offer the waitlist for them
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_event_id UUID,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  total_capacity INTEGER,
+  available_count INTEGER,
+  price DECIMAL(10, 2)
+) AS $$
+#variable_conflict use_column
+BEGIN
+  -- Clean up expired locks and pass on unclaimed waitlist offers first
+  PERFORM public.release_expired_locks();
+  PERFORM public.expire_waitlist_offers(p_event_id);
+
+  RETURN QUERY
+  SELECT
+    ts.id AS slot_id,
+    ts.start_time,
+    ts.end_time,
+    ts.total_capacity,
+    -- Subtract active locks (excluding caller's own locks)
+    GREATEST(0, ts.available_count - COALESCE(
+      (SELECT SUM(sl.quantity)
+       FROM public.slot_locks sl
+       WHERE sl.slot_id = ts.id
+         AND sl.is_active = true
+         AND sl.expires_at > NOW()
+         AND (p_session_id IS NULL OR sl.session_id != p_session_id)),
+      0
+    ))::INTEGER AS available_count,
+    ts.price
+  FROM public.time_slots ts
+  WHERE ts.event_id = p_event_id
+    AND ts.status IN ('available', 'full')
+    AND ts.start_time > NOW()
+  ORDER BY ts.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ADD TO WAITLIST
+-- Adds p_slot_id and p_quantity. Slot entries are queued per slot;
+-- joining twice with the same email returns the existing entry.
+-- =====================================================
+DROP FUNCTION IF EXISTS public.add_to_waitlist(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.add_to_waitlist(
+  p_event_id UUID,
+  p_session_id UUID DEFAULT NULL,
+  p_first_name TEXT DEFAULT NULL,
+  p_last_name TEXT DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_quantity INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  waitlist_id UUID,
+  waitlist_position INTEGER
+) AS $$
+DECLARE
+  v_slot RECORD;
+  v_existing RECORD;
+  v_waitlist_id UUID;
+  v_position INTEGER;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  IF p_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM public.time_slots
+    WHERE id = p_slot_id
+      AND event_id = p_event_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Slot not found';
+    END IF;
+
+    IF v_slot.start_time <= NOW() THEN
+      RAISE EXCEPTION 'Cannot join the waitlist for a slot in the past';
+    END IF;
+
+    IF p_quantity > v_slot.total_capacity THEN
+      RAISE EXCEPTION 'Quantity exceeds slot capacity of %', v_slot.total_capacity;
+    END IF;
+
+    -- Already waiting for this slot
+    SELECT id, position INTO v_existing
+    FROM public.waitlist
+    WHERE slot_id = p_slot_id
+      AND LOWER(email) = LOWER(p_email)
+      AND notified = FALSE
+      AND converted_to_booking = FALSE;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_existing.id, v_existing.position;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Get next position
+  SELECT COALESCE(MAX(position), 0) + 1 INTO v_position
+  FROM public.waitlist
+  WHERE event_id = p_event_id
+    AND (p_session_id IS NULL OR session_id = p_session_id)
+    AND slot_id IS NOT DISTINCT FROM p_slot_id;
+
+  -- Add to waitlist
+  INSERT INTO public.waitlist (
+    event_id, session_id, slot_id, first_name, last_name, email, phone,
+    notes, position, quantity, user_id
+  ) VALUES (
+    p_event_id, p_session_id, p_slot_id, p_first_name, p_last_name, p_email, p_phone,
+    p_notes, v_position, p_quantity, auth.uid()
+  ) RETURNING id INTO v_waitlist_id;
+
+  RETURN QUERY SELECT v_waitlist_id, v_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- PROCESS WAITLIST
+-- Event-level entries keep the old behaviour (notify the next person).
+-- Slot entries are offered freed seats in position order: each offer is
+-- a slot lock held for p_hold_minutes under the session 'waitlist_<id>'.
+-- Stops at the first entry that does not fit so nobody is skipped over.
+-- Returns the number of entries notified.
+-- =====================================================
+DROP FUNCTION IF EXISTS public.process_waitlist(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.process_waitlist(
+  p_event_id UUID,
+  p_session_id UUID DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_hold_minutes INTEGER DEFAULT 30
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_next_waitlist RECORD;
+  v_slot RECORD;
+  v_event RECORD;
+  v_available INTEGER;
+  v_lock_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_notified INTEGER := 0;
+BEGIN
+  IF p_slot_id IS NULL THEN
+    -- Get next person on the event waitlist
+    SELECT * INTO v_next_waitlist
+    FROM public.waitlist
+    WHERE event_id = p_event_id
+      AND slot_id IS NULL
+      AND (p_session_id IS NULL OR session_id = p_session_id)
+      AND notified = FALSE
+      AND converted_to_booking = FALSE
+    ORDER BY position
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RETURN 0;
+    END IF;
+
+    UPDATE public.waitlist
+    SET
+      notified = TRUE,
+      notified_at = NOW()
+    WHERE id = v_next_waitlist.id;
+
+    IF v_next_waitlist.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (
+        user_id, type, title, message, event_id
+      ) VALUES (
+        v_next_waitlist.user_id,
+        'waitlist_spot_available',
+        'Spot Available!',
+        'A spot has opened up for the event you''re waitlisted for.',
+        p_event_id
+      );
+    END IF;
+
+    RETURN 1;
+  END IF;
+
+  -- Row lock serializes against create_slot_lock and complete_slot_booking
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = p_slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_slot.start_time <= NOW() THEN
+    RETURN 0;
+  END IF;
+
+  SELECT id, title INTO v_event FROM public.events WHERE id = v_slot.event_id;
+
+  FOR v_next_waitlist IN
+    SELECT *
+    FROM public.waitlist
+    WHERE slot_id = p_slot_id
+      AND notified = FALSE
+      AND converted_to_booking = FALSE
+    ORDER BY position
+  LOOP
+    SELECT (v_slot.available_count - COALESCE(
+      (SELECT SUM(sl.quantity)
+       FROM public.slot_locks sl
+       WHERE sl.slot_id = p_slot_id
+         AND sl.is_active = true
+         AND sl.expires_at > NOW()),
+      0
+    )) INTO v_available;
+
+    EXIT WHEN v_available < v_next_waitlist.quantity;
+
+    v_expires_at := NOW() + (p_hold_minutes || ' minutes')::INTERVAL;
+
+    INSERT INTO public.slot_locks (
+      slot_id, user_id, session_id, quantity, expires_at, is_active
+    ) VALUES (
+      p_slot_id, v_next_waitlist.user_id, 'waitlist_' || v_next_waitlist.id,
+      v_next_waitlist.quantity, v_expires_at, true
+    ) RETURNING id INTO v_lock_id;
+
+    UPDATE public.waitlist
+    SET
+      notified = TRUE,
+      notified_at = NOW(),
+      lock_id = v_lock_id,
+      offer_expires_at = v_expires_at
+    WHERE id = v_next_waitlist.id;
+
+    -- Guests without an account have no inbox; they are reached by email
+    IF v_next_waitlist.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (
+        user_id, type, title, message, event_id, data
+      ) VALUES (
+        v_next_waitlist.user_id,
+        'waitlist_spot_available',
+        'Spot Available!',
+        format(
+          'A spot has opened up for "%s". We''re holding it for you for %s minutes.',
+          v_event.title, p_hold_minutes
+        ),
+        v_event.id,
+        jsonb_build_object(
+          'waitlist_id', v_next_waitlist.id,
+          'slot_id', p_slot_id,
+          'lock_id', v_lock_id,
+          'quantity', v_next_waitlist.quantity,
+          'expires_at', v_expires_at,
+          'booking_path', format('/book/%s?waitlist=%s', v_event.id, v_next_waitlist.id)
+        )
+      );
+    END IF;
+
+    v_notified := v_notified + 1;
+  END LOOP;
+
+  RETURN v_notified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- EXPIRE WAITLIST OFFERS
+-- Releases offers whose hold ran out and passes the seats on.
+-- Runs on every get_available_slots call; can also be scheduled.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers(p_event_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_entry RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_entry IN
+    SELECT id, event_id, slot_id, lock_id
+    FROM public.waitlist
+    WHERE slot_id IS NOT NULL
+      AND notified = TRUE
+      AND converted_to_booking = FALSE
+      AND offer_expired_at IS NULL
+      AND offer_expires_at <= NOW()
+      AND (p_event_id IS NULL OR event_id = p_event_id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.waitlist
+    SET offer_expired_at = NOW()
+    WHERE id = v_entry.id;
+
+    UPDATE public.slot_locks
+    SET is_active = false, released_at = NOW()
+    WHERE id = v_entry.lock_id AND is_active = true;
+
+    PERFORM public.process_waitlist(v_entry.event_id, NULL, v_entry.slot_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CLAIM WAITLIST OFFER
+-- Returns the held lock and slot for an open offer so the invitee can
+-- continue with complete_slot_booking. The entry id is the capability,
+-- as with booking references.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.claim_waitlist_offer(p_waitlist_id UUID)
+RETURNS TABLE (
+  lock_id UUID,
+  expires_at TIMESTAMPTZ,
+  event_id UUID,
+  slot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  total_capacity INTEGER,
+  price DECIMAL(10, 2),
+  quantity INTEGER,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  phone TEXT
+) AS $$
+DECLARE
+  v_entry RECORD;
+  v_lock_validation RECORD;
+BEGIN
+  SELECT * INTO v_entry FROM public.waitlist WHERE id = p_waitlist_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  IF v_entry.converted_to_booking THEN
+    RAISE EXCEPTION 'This waitlist offer has already been booked';
+  END IF;
+
+  IF NOT v_entry.notified OR v_entry.lock_id IS NULL THEN
+    RAISE EXCEPTION 'No spot has been offered for this waitlist entry yet';
+  END IF;
+
+  SELECT * INTO v_lock_validation FROM public.verify_lock(v_entry.lock_id);
+
+  IF NOT v_lock_validation.is_valid OR v_entry.offer_expired_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This waitlist offer has expired';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_entry.lock_id,
+    v_lock_validation.expires_at,
+    ts.event_id,
+    ts.id,
+    ts.start_time,
+    ts.end_time,
+    ts.total_capacity,
+    ts.price,
+    v_entry.quantity,
+    v_entry.first_name,
+    v_entry.last_name,
+    v_entry.email,
+    v_entry.phone
+  FROM public.time_slots ts
+  WHERE ts.id = v_entry.slot_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CANCEL BOOKING
+-- Slot bookings now give their seats back to the slot and hand them to
+-- the slot's waitlist; the deadline is measured from the slot start.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id UUID,
+  p_cancellation_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_booking RECORD;
+  v_event RECORD;
+  v_starts_at TIMESTAMPTZ;
+  v_hours_until_event INTEGER;
+BEGIN
+  -- Get booking details
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  -- Check if booking can be cancelled
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be cancelled';
+  END IF;
+
+  -- Get event details
+  SELECT * INTO v_event FROM public.events WHERE id = v_booking.event_id;
+
+  -- Check if cancellation is allowed
+  IF NOT v_event.allow_cancellation THEN
+    RAISE EXCEPTION 'Cancellation not allowed for this event';
+  END IF;
+
+  IF v_booking.slot_id IS NOT NULL THEN
+    SELECT start_time INTO v_starts_at FROM public.time_slots WHERE id = v_booking.slot_id;
+  END IF;
+
+  v_starts_at := COALESCE(
+    v_starts_at,
+    (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_event.timezone)
+  );
+
+  -- Check cancellation deadline
+  v_hours_until_event := EXTRACT(EPOCH FROM (v_starts_at - NOW())) / 3600;
+
+  IF v_hours_until_event < v_event.cancellation_deadline THEN
+    RAISE EXCEPTION 'Cancellation deadline has passed';
+  END IF;
+
+  -- Cancel the booking
+  UPDATE public.bookings
+  SET
+    status = 'cancelled',
+    cancelled_at = NOW(),
+    cancellation_reason = p_cancellation_reason
+  WHERE id = p_booking_id;
+
+  -- Update current attendees count
+  UPDATE public.events
+  SET current_attendees = GREATEST(0, current_attendees - 1)
+  WHERE id = v_booking.event_id;
+
+  IF v_booking.slot_id IS NOT NULL THEN
+    -- Give the seats back to the slot
+    UPDATE public.time_slots
+    SET
+      booked_count = GREATEST(0, booked_count - v_booking.quantity),
+      status = CASE WHEN status = 'full' THEN 'available' ELSE status END
+    WHERE id = v_booking.slot_id;
+
+    PERFORM public.process_waitlist(v_booking.event_id, NULL, v_booking.slot_id);
+  ELSE
+    PERFORM public.process_waitlist(v_booking.event_id, v_booking.session_id);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SLOT BOOKING
+-- Records the seat count on the booking and marks a waitlist offer
+-- as converted when its lock is the one being booked
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_slot_booking(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_lock_validation RECORD;
+  v_quantity_to_book INTEGER;
+  v_timezone TEXT;
+BEGIN
+  -- Verify lock is valid
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  -- Get lock details
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  -- Validate provided quantity matches lock quantity
+  IF p_quantity IS NOT NULL THEN
+    IF p_quantity != v_lock.quantity THEN
+      RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+    END IF;
+    v_quantity_to_book := p_quantity;
+  ELSE
+    v_quantity_to_book := v_lock.quantity;
+  END IF;
+
+  IF v_quantity_to_book <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity: %', v_quantity_to_book;
+  END IF;
+
+  -- Get slot details with row lock
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- Final capacity check with explicit quantity
+  IF v_slot.booked_count + v_quantity_to_book > v_slot.total_capacity THEN
+    RAISE EXCEPTION 'Insufficient capacity. Requested: %, Available: %',
+      v_quantity_to_book,
+      (v_slot.total_capacity - v_slot.booked_count);
+  END IF;
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    SELECT timezone INTO v_timezone FROM public.events WHERE id = v_slot.event_id;
+  END IF;
+
+  -- Create booking
+  INSERT INTO public.bookings (
+    event_id,
+    slot_id,
+    user_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    date,
+    time,
+    timezone,
+    quantity,
+    status,
+    notes,
+    confirmed_at
+  )
+  SELECT
+    v_slot.event_id,
+    v_slot.id,
+    v_lock.user_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    (v_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    (v_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    v_timezone,
+    v_quantity_to_book,
+    'confirmed',
+    CASE
+      WHEN p_notes IS NOT NULL THEN p_notes
+      WHEN v_quantity_to_book > 1 THEN format('Group booking: %s seats', v_quantity_to_book)
+      ELSE NULL
+    END,
+    NOW()
+  RETURNING id INTO v_booking_id;
+
+  -- Update slot booked count with explicit quantity
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_quantity_to_book,
+    status = CASE
+      WHEN booked_count + v_quantity_to_book >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_slot.id;
+
+  -- Release lock
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = p_lock_id;
+
+  -- Booked through a waitlist offer
+  UPDATE public.waitlist
+  SET
+    converted_to_booking = true,
+    converted_at = NOW()
+  WHERE lock_id = p_lock_id;
+
+  -- Log the booking with quantity
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    new_data
+  ) VALUES (
+    'create',
+    'booking',
+    v_booking_id,
+    jsonb_build_object(
+      'lock_id', p_lock_id,
+      'slot_id', v_slot.id,
+      'quantity', v_quantity_to_book,
+      'email', p_email,
+      'timezone', v_timezone
+    )
+  );
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.add_to_waitlist(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_waitlist(UUID, UUID, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_waitlist_offer(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.waitlist.lock_id IS
+'Slot lock held for this entry while its offer is open';
+
+COMMENT ON COLUMN public.bookings.quantity IS
+'Seats taken by this booking';
+
+COMMENT ON FUNCTION public.add_to_waitlist(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, INTEGER) IS
+'Joins the event or slot waitlist; idempotent per slot and email';
+
+COMMENT ON FUNCTION public.process_waitlist(UUID, UUID, UUID, INTEGER) IS
+'Offers freed slot seats to waitlisted invitees as time-boxed locks';
+
+COMMENT ON FUNCTION public.expire_waitlist_offers(UUID) IS
+'Releases unclaimed waitlist offers and passes the seats on';
+
+COMMENT ON FUNCTION public.claim_waitlist_offer(UUID) IS
+'Returns the held lock and slot for an open waitlist offer';
@@ -0,0 +1,138 @@
+-- supabase/migrations/20240131000000_manage_booking_by_reference.sql
+-- Guest self-service: look up and cancel a booking by reference and email
+--
+-- get_booking_by_reference now returns everything the manage page shows
+-- (event, slot, seat count) plus whether the booking can still be
+-- cancelled, so guests see the organizer's policy before they try.
+-- Emails are matched case-insensitively in both functions.
+
+-- =====================================================
+-- GET BOOKING BY REFERENCE
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_booking_by_reference(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_booking_by_reference(p_reference TEXT, p_email TEXT)
+RETURNS TABLE (
+  id UUID,
+  booking_reference TEXT,
+  event_id UUID,
+  slot_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  status TEXT,
+  quantity INTEGER,
+  timezone TEXT,
+  confirmed_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  event_title TEXT,
+  event_description TEXT,
+  event_type TEXT,
+  event_duration INTEGER,
+  event_location TEXT,
+  event_is_online BOOLEAN,
+  event_timezone TEXT,
+  allow_cancellation BOOLEAN,
+  cancellation_deadline INTEGER,
+  slot_start_time TIMESTAMPTZ,
+  slot_end_time TIMESTAMPTZ,
+  slot_price DECIMAL(10, 2),
+  slot_currency TEXT,
+  starts_at TIMESTAMPTZ,
+  cancel_by TIMESTAMPTZ,
+  can_cancel BOOLEAN
+) AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH found AS (
+    SELECT
+      b.*,
+      e.title AS e_title,
+      e.description AS e_description,
+      e.type AS e_type,
+      e.duration AS e_duration,
+      e.location AS e_location,
+      e.is_online AS e_is_online,
+      e.timezone AS e_timezone,
+      COALESCE(e.allow_cancellation, true) AS e_allow_cancellation,
+      COALESCE(e.cancellation_deadline, 0) AS e_cancellation_deadline,
+      ts.start_time AS ts_start_time,
+      ts.end_time AS ts_end_time,
+      ts.price AS ts_price,
+      ts.currency AS ts_currency,
+      COALESCE(
+        ts.start_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+      ) AS v_starts_at
+    FROM public.bookings b
+    JOIN public.events e ON e.id = b.event_id
+    LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+    WHERE b.booking_reference = UPPER(TRIM(p_reference))
+      AND LOWER(b.email) = LOWER(TRIM(p_email))
+  )
+  SELECT
+    f.id, f.booking_reference, f.event_id, f.slot_id,
+    f.first_name, f.last_name, f.email, f.phone, f.notes,
+    f.status, f.quantity, f.timezone,
+    f.confirmed_at, f.cancelled_at, f.created_at,
+    f.e_title, f.e_description, f.e_type, f.e_duration,
+    f.e_location, f.e_is_online, f.e_timezone,
+    f.e_allow_cancellation, f.e_cancellation_deadline,
+    f.ts_start_time, f.ts_end_time, f.ts_price, f.ts_currency,
+    f.v_starts_at,
+    f.v_starts_at - make_interval(hours => f.e_cancellation_deadline),
+    f.status IN ('pending', 'confirmed')
+      AND f.e_allow_cancellation
+      AND NOW() <= f.v_starts_at - make_interval(hours => f.e_cancellation_deadline)
+  FROM found f;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- CANCEL BOOKING BY REFERENCE
+-- Policy checks (allow_cancellation, cancellation_deadline) stay in
+-- cancel_booking so every cancellation path enforces them
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cancel_booking_by_reference(
+  p_reference TEXT,
+  p_email TEXT,
+  p_cancellation_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_booking_id UUID;
+BEGIN
+  -- Find booking
+  SELECT id INTO v_booking_id
+  FROM public.bookings
+  WHERE booking_reference = UPPER(TRIM(p_reference))
+    AND LOWER(email) = LOWER(TRIM(p_email))
+    AND status IN ('pending', 'confirmed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or cannot be cancelled';
+  END IF;
+
+  -- Use existing cancel_booking function
+  RETURN public.cancel_booking(v_booking_id, p_cancellation_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.get_booking_by_reference(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_booking_by_reference(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.get_booking_by_reference(TEXT, TEXT) IS
+'Guest lookup by reference and email, including whether the booking can still be cancelled';
+
+COMMENT ON FUNCTION public.cancel_booking_by_reference(TEXT, TEXT, TEXT) IS
+'Guest cancellation by reference and email; policy is enforced by cancel_booking';
@@ -0,0 +1,533 @@
+-- supabase/migrations/20240202000000_booking_approvals.sql
+-- Organizer approval for events with requires_approval
+--
+-- Slot bookings for these events are created as 'pending' and keep their
+-- seats while the organizer decides. Approving confirms the booking;
+-- declining, or leaving the request unanswered until it expires, cancels
+-- it and gives the seats back (offering them to the slot's waitlist).
+-- Organizers are notified of new requests and attendees of the decision.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS approval_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS approval_decision TEXT,
+  ADD COLUMN IF NOT EXISTS approval_decided_at TIMESTAMPTZ;
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_approval_decision_check;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_approval_decision_check
+  CHECK (approval_decision IN ('approved', 'declined', 'expired'));
+
+CREATE INDEX IF NOT EXISTS idx_bookings_pending_approval
+  ON public.bookings(approval_expires_at)
+  WHERE status = 'pending' AND approval_expires_at IS NOT NULL;
+
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'booking_created', 'booking_confirmed', 'booking_cancelled',
+    'booking_reminder', 'event_updated', 'event_cancelled',
+    'payment_received', 'waitlist_spot_available', 'system_update',
+    'booking_approval_requested', 'booking_approved', 'booking_declined'
+  ));
+
+-- =====================================================
+-- RESOLVE PENDING BOOKING (internal)
+-- Cancels a pending request, frees its seats and tells the attendee.
+-- Shared by decline_booking and expire_pending_approvals.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.resolve_pending_booking(
+  p_booking_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_booking RECORD;
+  v_event RECORD;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings
+  WHERE id = p_booking_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT id, title INTO v_event FROM public.events WHERE id = v_booking.event_id;
+
+  UPDATE public.bookings
+  SET
+    status = 'cancelled',
+    cancelled_at = NOW(),
+    cancellation_reason = COALESCE(
+      p_reason,
+      CASE p_decision
+        WHEN 'declined' THEN 'Declined by organizer'
+        ELSE 'Approval request expired'
+      END
+    ),
+    approval_decision = p_decision,
+    approval_decided_at = NOW()
+  WHERE id = p_booking_id;
+
+  IF v_booking.slot_id IS NOT NULL THEN
+    UPDATE public.time_slots
+    SET
+      booked_count = GREATEST(0, booked_count - v_booking.quantity),
+      status = CASE WHEN status = 'full' THEN 'available' ELSE status END
+    WHERE id = v_booking.slot_id;
+
+    PERFORM public.process_waitlist(v_booking.event_id, NULL, v_booking.slot_id);
+  END IF;
+
+  IF v_booking.user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id
+    ) VALUES (
+      v_booking.user_id,
+      'booking_declined',
+      CASE p_decision WHEN 'declined' THEN 'Booking Declined' ELSE 'Booking Request Expired' END,
+      CASE p_decision
+        WHEN 'declined' THEN format(
+          'Your booking request for "%s" was declined.%s',
+          v_event.title,
+          CASE WHEN p_reason IS NOT NULL THEN ' Reason: ' || p_reason ELSE '' END
+        )
+        ELSE format('Your booking request for "%s" expired before the organizer responded.', v_event.title)
+      END,
+      v_event.id,
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    old_data,
+    new_data
+  ) VALUES (
+    auth.uid(),
+    'update',
+    'booking',
+    p_booking_id,
+    jsonb_build_object('status', 'pending'),
+    jsonb_build_object('status', 'cancelled', 'approval_decision', p_decision, 'reason', p_reason)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- EXPIRE PENDING APPROVALS
+-- Runs on every get_available_slots call; can also be scheduled.
+-- p_event_id NULL sweeps every event.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.expire_pending_approvals(p_event_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_booking_id UUID;
+  v_expired INTEGER := 0;
+BEGIN
+  FOR v_booking_id IN
+    SELECT id
+    FROM public.bookings
+    WHERE status = 'pending'
+      AND approval_expires_at IS NOT NULL
+      AND approval_expires_at <= NOW()
+      AND (p_event_id IS NULL OR event_id = p_event_id)
+  LOOP
+    PERFORM public.resolve_pending_booking(v_booking_id, 'expired');
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- APPROVE BOOKING
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.approve_booking(p_booking_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_booking RECORD;
+  v_event RECORD;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT id, user_id, title INTO v_event FROM public.events WHERE id = v_booking.event_id;
+
+  IF v_event.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the event organizer can approve bookings';
+  END IF;
+
+  IF v_booking.status != 'pending' THEN
+    RAISE EXCEPTION 'Booking is not awaiting approval';
+  END IF;
+
+  IF v_booking.approval_expires_at IS NOT NULL AND v_booking.approval_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Approval request has expired';
+  END IF;
+
+  UPDATE public.bookings
+  SET
+    status = 'confirmed',
+    confirmed_at = NOW(),
+    approval_decision = 'approved',
+    approval_decided_at = NOW()
+  WHERE id = p_booking_id;
+
+  IF v_booking.user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id
+    ) VALUES (
+      v_booking.user_id,
+      'booking_approved',
+      'Booking Approved',
+      format('Your booking for "%s" has been approved.', v_event.title),
+      v_event.id,
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    old_data,
+    new_data
+  ) VALUES (
+    auth.uid(),
+    'update',
+    'booking',
+    p_booking_id,
+    jsonb_build_object('status', 'pending'),
+    jsonb_build_object('status', 'confirmed', 'approval_decision', 'approved')
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- DECLINE BOOKING
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.decline_booking(
+  p_booking_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_booking RECORD;
+  v_organizer_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  SELECT user_id INTO v_organizer_id FROM public.events WHERE id = v_booking.event_id;
+
+  IF v_organizer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the event organizer can decline bookings';
+  END IF;
+
+  IF v_booking.status != 'pending' THEN
+    RAISE EXCEPTION 'Booking is not awaiting approval';
+  END IF;
+
+  PERFORM public.resolve_pending_booking(p_booking_id, 'declined', NULLIF(TRIM(p_reason), ''));
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SLOT BOOKING
+-- Bookings for requires_approval events are created as 'pending' with
+-- an approval deadline (48 hours, or the slot start if sooner) and the
+-- organizer is notified. Seats are taken either way.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_slot_booking(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_lock_validation RECORD;
+  v_quantity_to_book INTEGER;
+  v_timezone TEXT;
+  v_event RECORD;
+  v_requires_approval BOOLEAN;
+BEGIN
+  -- Verify lock is valid
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  -- Get lock details
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  -- Validate provided quantity matches lock quantity
+  IF p_quantity IS NOT NULL THEN
+    IF p_quantity != v_lock.quantity THEN
+      RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+    END IF;
+    v_quantity_to_book := p_quantity;
+  ELSE
+    v_quantity_to_book := v_lock.quantity;
+  END IF;
+
+  IF v_quantity_to_book <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity: %', v_quantity_to_book;
+  END IF;
+
+  -- Get slot details with row lock
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- Final capacity check with explicit quantity
+  IF v_slot.booked_count + v_quantity_to_book > v_slot.total_capacity THEN
+    RAISE EXCEPTION 'Insufficient capacity. Requested: %, Available: %',
+      v_quantity_to_book,
+      (v_slot.total_capacity - v_slot.booked_count);
+  END IF;
+
+  SELECT id, user_id, title, timezone, requires_approval INTO v_event
+  FROM public.events
+  WHERE id = v_slot.event_id;
+
+  v_requires_approval := COALESCE(v_event.requires_approval, false);
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    v_timezone := v_event.timezone;
+  END IF;
+
+  -- Create booking
+  INSERT INTO public.bookings (
+    event_id,
+    slot_id,
+    user_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    date,
+    time,
+    timezone,
+    quantity,
+    status,
+    notes,
+    confirmed_at,
+    approval_expires_at
+  )
+  SELECT
+    v_slot.event_id,
+    v_slot.id,
+    v_lock.user_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    (v_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    (v_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    v_timezone,
+    v_quantity_to_book,
+    CASE WHEN v_requires_approval THEN 'pending' ELSE 'confirmed' END,
+    CASE
+      WHEN p_notes IS NOT NULL THEN p_notes
+      WHEN v_quantity_to_book > 1 THEN format('Group booking: %s seats', v_quantity_to_book)
+      ELSE NULL
+    END,
+    CASE WHEN v_requires_approval THEN NULL ELSE NOW() END,
+    CASE
+      WHEN v_requires_approval THEN LEAST(NOW() + INTERVAL '48 hours', v_slot.start_time)
+      ELSE NULL
+    END
+  RETURNING id INTO v_booking_id;
+
+  -- Update slot booked count with explicit quantity
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_quantity_to_book,
+    status = CASE
+      WHEN booked_count + v_quantity_to_book >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_slot.id;
+
+  -- Release lock
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = p_lock_id;
+
+  -- Booked through a waitlist offer
+  UPDATE public.waitlist
+  SET
+    converted_to_booking = true,
+    converted_at = NOW()
+  WHERE lock_id = p_lock_id;
+
+  -- Log the booking with quantity
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    new_data
+  ) VALUES (
+    'create',
+    'booking',
+    v_booking_id,
+    jsonb_build_object(
+      'lock_id', p_lock_id,
+      'slot_id', v_slot.id,
+      'quantity', v_quantity_to_book,
+      'email', p_email,
+      'timezone', v_timezone,
+      'requires_approval', v_requires_approval
+    )
+  );
+
+  -- Seats stay held while the organizer decides
+  IF v_requires_approval THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id, data
+    ) VALUES (
+      v_event.user_id,
+      'booking_approval_requested',
+      'Booking Request',
+      format(
+        '%s %s requested %s for "%s".',
+        p_first_name, p_last_name,
+        CASE WHEN v_quantity_to_book = 1 THEN 'a spot' ELSE v_quantity_to_book || ' spots' END,
+        v_event.title
+      ),
+      v_event.id,
+      v_booking_id,
+      jsonb_build_object('slot_id', v_slot.id, 'quantity', v_quantity_to_book)
+    );
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GET AVAILABLE SLOTS
+-- Also expires unanswered approval requests so their seats show as free
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_event_id UUID,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  total_capacity INTEGER,
+  available_count INTEGER,
+  price DECIMAL(10, 2)
+) AS $$
+#variable_conflict use_column
+BEGIN
+  -- Clean up expired locks, unclaimed waitlist offers and approval
+  -- requests nobody answered first
+  PERFORM public.release_expired_locks();
+  PERFORM public.expire_pending_approvals(p_event_id);
+  PERFORM public.expire_waitlist_offers(p_event_id);
+
+  RETURN QUERY
+  SELECT
+    ts.id AS slot_id,
+    ts.start_time,
+    ts.end_time,
+    ts.total_capacity,
+    -- Subtract active locks (excluding caller's own locks)
+    GREATEST(0, ts.available_count - COALESCE(
+      (SELECT SUM(sl.quantity)
+       FROM public.slot_locks sl
+       WHERE sl.slot_id = ts.id
+         AND sl.is_active = true
+         AND sl.expires_at > NOW()
+         AND (p_session_id IS NULL OR sl.session_id != p_session_id)),
+      0
+    ))::INTEGER AS available_count,
+    ts.price
+  FROM public.time_slots ts
+  WHERE ts.event_id = p_event_id
+    AND ts.status IN ('available', 'full')
+    AND ts.start_time > NOW()
+  ORDER BY ts.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.resolve_pending_booking(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_pending_approvals(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_booking(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_booking(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.bookings.approval_expires_at IS
+'Pending requests not answered by this time are cancelled and their seats freed';
+
+COMMENT ON COLUMN public.bookings.approval_decision IS
+'How an approval request ended: approved, declined or expired';
+
+COMMENT ON FUNCTION public.approve_booking(UUID) IS
+'Organizer confirms a pending booking request';
+
+COMMENT ON FUNCTION public.decline_booking(UUID, TEXT) IS
+'Organizer declines a pending booking request, freeing its seats';
+
+COMMENT ON FUNCTION public.expire_pending_approvals(UUID) IS
+'Cancels approval requests past their deadline and frees their seats';
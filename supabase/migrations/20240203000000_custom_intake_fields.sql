@@ -0,0 +1,272 @@
+-- supabase/migrations/20240203000000_custom_intake_fields.sql
+-- Custom intake questions per event
+--
+-- events.custom_fields holds the organizer's questions as a JSON array of
+-- { id, label, type, required, options?, placeholder? }, with type one of
+-- text, textarea, select, multiselect, checkbox, number or phone.
+-- complete_slot_booking now takes the invitee's answers, keyed by field id,
+-- rejects the booking if a required question is unanswered and stores the
+-- answers for known fields in bookings.custom_responses.
+
+-- =====================================================
+-- VALIDATE CUSTOM RESPONSES
+-- Returns the answers to store: only fields the event defines, and only
+-- answered ones. Blank text, empty selections and unticked boxes count as
+-- unanswered. Type-specific checks are left to the booking form.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.validate_custom_responses(
+  p_fields JSONB,
+  p_responses JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_field JSONB;
+  v_answer JSONB;
+  v_answered BOOLEAN;
+  v_result JSONB := '{}'::jsonb;
+BEGIN
+  IF p_fields IS NULL OR jsonb_typeof(p_fields) != 'array' THEN
+    RETURN v_result;
+  END IF;
+
+  FOR v_field IN SELECT value FROM jsonb_array_elements(p_fields)
+  LOOP
+    v_answer := COALESCE(p_responses, '{}'::jsonb) -> (v_field->>'id');
+
+    v_answered := CASE jsonb_typeof(v_answer)
+      WHEN 'string' THEN TRIM(v_answer #>> '{}') != ''
+      WHEN 'array' THEN jsonb_array_length(v_answer) > 0
+      WHEN 'boolean' THEN (v_answer #>> '{}')::BOOLEAN
+      WHEN 'number' THEN true
+      ELSE false
+    END;
+
+    IF NOT v_answered THEN
+      IF COALESCE((v_field->>'required')::BOOLEAN, false) THEN
+        RAISE EXCEPTION 'Answer required for "%"', v_field->>'label';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    v_result := v_result || jsonb_build_object(v_field->>'id', v_answer);
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- =====================================================
+-- COMPLETE SLOT BOOKING
+-- Same as 20240202000000_booking_approvals.sql plus p_custom_responses
+-- =====================================================
+DROP FUNCTION IF EXISTS public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.complete_slot_booking(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_lock_validation RECORD;
+  v_quantity_to_book INTEGER;
+  v_timezone TEXT;
+  v_event RECORD;
+  v_requires_approval BOOLEAN;
+  v_custom_responses JSONB;
+BEGIN
+  -- Verify lock is valid
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  -- Get lock details
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  -- Validate provided quantity matches lock quantity
+  IF p_quantity IS NOT NULL THEN
+    IF p_quantity != v_lock.quantity THEN
+      RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+    END IF;
+    v_quantity_to_book := p_quantity;
+  ELSE
+    v_quantity_to_book := v_lock.quantity;
+  END IF;
+
+  IF v_quantity_to_book <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity: %', v_quantity_to_book;
+  END IF;
+
+  -- Get slot details with row lock
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- Final capacity check with explicit quantity
+  IF v_slot.booked_count + v_quantity_to_book > v_slot.total_capacity THEN
+    RAISE EXCEPTION 'Insufficient capacity. Requested: %, Available: %',
+      v_quantity_to_book,
+      (v_slot.total_capacity - v_slot.booked_count);
+  END IF;
+
+  SELECT id, user_id, title, timezone, requires_approval, custom_fields INTO v_event
+  FROM public.events
+  WHERE id = v_slot.event_id;
+
+  v_custom_responses := public.validate_custom_responses(v_event.custom_fields, p_custom_responses);
+
+  v_requires_approval := COALESCE(v_event.requires_approval, false);
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    v_timezone := v_event.timezone;
+  END IF;
+
+  -- Create booking
+  INSERT INTO public.bookings (
+    event_id,
+    slot_id,
+    user_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    date,
+    time,
+    timezone,
+    quantity,
+    status,
+    notes,
+    custom_responses,
+    confirmed_at,
+    approval_expires_at
+  )
+  SELECT
+    v_slot.event_id,
+    v_slot.id,
+    v_lock.user_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    (v_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    (v_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    v_timezone,
+    v_quantity_to_book,
+    CASE WHEN v_requires_approval THEN 'pending' ELSE 'confirmed' END,
+    CASE
+      WHEN p_notes IS NOT NULL THEN p_notes
+      WHEN v_quantity_to_book > 1 THEN format('Group booking: %s seats', v_quantity_to_book)
+      ELSE NULL
+    END,
+    v_custom_responses,
+    CASE WHEN v_requires_approval THEN NULL ELSE NOW() END,
+    CASE
+      WHEN v_requires_approval THEN LEAST(NOW() + INTERVAL '48 hours', v_slot.start_time)
+      ELSE NULL
+    END
+  RETURNING id INTO v_booking_id;
+
+  -- Update slot booked count with explicit quantity
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_quantity_to_book,
+    status = CASE
+      WHEN booked_count + v_quantity_to_book >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_slot.id;
+
+  -- Release lock
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = p_lock_id;
+
+  -- Booked through a waitlist offer
+  UPDATE public.waitlist
+  SET
+    converted_to_booking = true,
+    converted_at = NOW()
+  WHERE lock_id = p_lock_id;
+
+  -- Log the booking with quantity
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    new_data
+  ) VALUES (
+    'create',
+    'booking',
+    v_booking_id,
+    jsonb_build_object(
+      'lock_id', p_lock_id,
+      'slot_id', v_slot.id,
+      'quantity', v_quantity_to_book,
+      'email', p_email,
+      'timezone', v_timezone,
+      'requires_approval', v_requires_approval
+    )
+  );
+
+  -- Seats stay held while the organizer decides
+  IF v_requires_approval THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id, data
+    ) VALUES (
+      v_event.user_id,
+      'booking_approval_requested',
+      'Booking Request',
+      format(
+        '%s %s requested %s for "%s".',
+        p_first_name, p_last_name,
+        CASE WHEN v_quantity_to_book = 1 THEN 'a spot' ELSE v_quantity_to_book || ' spots' END,
+        v_event.title
+      ),
+      v_event.id,
+      v_booking_id,
+      jsonb_build_object('slot_id', v_slot.id, 'quantity', v_quantity_to_book)
+    );
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.validate_custom_responses(JSONB, JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB) TO anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.validate_custom_responses(JSONB, JSONB) IS
+'Checks required intake answers against events.custom_fields and returns the answers to store';
+
+COMMENT ON FUNCTION public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB) IS
+'Completes a locked slot booking, storing answers to the event''s intake questions';
@@ -0,0 +1,552 @@
+-- supabase/migrations/20240204000000_booking_payments.sql
+-- Paid bookings
+--
+-- Slots with a price are paid for in a checkout step between entering
+-- details and the booking being created:
+--   1. start_slot_payment records a pending payment (amount computed from
+--      the slot price and locked quantity) and extends the slot lock so the
+--      seats stay held while the provider collects payment.
+--   2. The payment provider reports the outcome, webhook-style, through
+--      confirm_slot_payment. 'paid' creates the booking with
+--      payment_status = 'paid' in the same transaction; 'failed' marks the
+--      payment failed and leaves the lock in place so the invitee can retry.
+-- complete_slot_booking now refuses paid slots.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lock_id UUID REFERENCES public.slot_locks(id) ON DELETE SET NULL,
+  slot_id UUID NOT NULL REFERENCES public.time_slots(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+
+  -- Provider
+  provider TEXT NOT NULL,
+  provider_payment_id TEXT,
+
+  -- Amount
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+
+  -- Status
+  status TEXT NOT NULL DEFAULT 'pending',
+  failure_reason TEXT,
+  settled_at TIMESTAMPTZ,
+
+  -- Contact details and answers the booking is created from once paid
+  booking_details JSONB NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT payments_status_check CHECK (status IN ('pending', 'paid', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_lock_id ON public.payments(lock_id);
+CREATE INDEX IF NOT EXISTS idx_payments_booking_id ON public.payments(booking_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_payment
+  ON public.payments(provider, provider_payment_id)
+  WHERE provider_payment_id IS NOT NULL;
+
+-- Only reachable through the functions below
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- BOOK LOCKED SLOT (internal)
+-- Body of complete_slot_booking from 20240203000000_custom_intake_fields.sql,
+-- recording the payment when the booking comes from confirm_slot_payment
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.book_locked_slot(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb,
+  p_payment_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_lock_validation RECORD;
+  v_quantity_to_book INTEGER;
+  v_timezone TEXT;
+  v_event RECORD;
+  v_requires_approval BOOLEAN;
+  v_custom_responses JSONB;
+  v_payment_amount DECIMAL(10, 2);
+  v_payment_currency TEXT;
+BEGIN
+  -- Verify lock is valid
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  -- Get lock details
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  -- Validate provided quantity matches lock quantity
+  IF p_quantity IS NOT NULL THEN
+    IF p_quantity != v_lock.quantity THEN
+      RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+    END IF;
+    v_quantity_to_book := p_quantity;
+  ELSE
+    v_quantity_to_book := v_lock.quantity;
+  END IF;
+
+  IF v_quantity_to_book <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity: %', v_quantity_to_book;
+  END IF;
+
+  -- Get slot details with row lock
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- Final capacity check with explicit quantity
+  IF v_slot.booked_count + v_quantity_to_book > v_slot.total_capacity THEN
+    RAISE EXCEPTION 'Insufficient capacity. Requested: %, Available: %',
+      v_quantity_to_book,
+      (v_slot.total_capacity - v_slot.booked_count);
+  END IF;
+
+  SELECT id, user_id, title, timezone, requires_approval, custom_fields INTO v_event
+  FROM public.events
+  WHERE id = v_slot.event_id;
+
+  v_custom_responses := public.validate_custom_responses(v_event.custom_fields, p_custom_responses);
+
+  IF p_payment_id IS NOT NULL THEN
+    SELECT amount, currency INTO v_payment_amount, v_payment_currency
+    FROM public.payments
+    WHERE id = p_payment_id;
+  END IF;
+
+  v_requires_approval := COALESCE(v_event.requires_approval, false);
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    v_timezone := v_event.timezone;
+  END IF;
+
+  -- Create booking
+  INSERT INTO public.bookings (
+    event_id,
+    slot_id,
+    user_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    date,
+    time,
+    timezone,
+    quantity,
+    status,
+    notes,
+    custom_responses,
+    payment_status,
+    payment_amount,
+    payment_currency,
+    confirmed_at,
+    approval_expires_at
+  )
+  SELECT
+    v_slot.event_id,
+    v_slot.id,
+    v_lock.user_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    (v_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    (v_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    v_timezone,
+    v_quantity_to_book,
+    CASE WHEN v_requires_approval THEN 'pending' ELSE 'confirmed' END,
+    CASE
+      WHEN p_notes IS NOT NULL THEN p_notes
+      WHEN v_quantity_to_book > 1 THEN format('Group booking: %s seats', v_quantity_to_book)
+      ELSE NULL
+    END,
+    v_custom_responses,
+    CASE WHEN p_payment_id IS NULL THEN 'free' ELSE 'paid' END,
+    v_payment_amount,
+    COALESCE(v_payment_currency, v_slot.currency, 'USD'),
+    CASE WHEN v_requires_approval THEN NULL ELSE NOW() END,
+    CASE
+      WHEN v_requires_approval THEN LEAST(NOW() + INTERVAL '48 hours', v_slot.start_time)
+      ELSE NULL
+    END
+  RETURNING id INTO v_booking_id;
+
+  -- Update slot booked count with explicit quantity
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_quantity_to_book,
+    status = CASE
+      WHEN booked_count + v_quantity_to_book >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_slot.id;
+
+  -- Release lock
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = p_lock_id;
+
+  -- Booked through a waitlist offer
+  UPDATE public.waitlist
+  SET
+    converted_to_booking = true,
+    converted_at = NOW()
+  WHERE lock_id = p_lock_id;
+
+  -- Log the booking with quantity
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    new_data
+  ) VALUES (
+    'create',
+    'booking',
+    v_booking_id,
+    jsonb_build_object(
+      'lock_id', p_lock_id,
+      'slot_id', v_slot.id,
+      'quantity', v_quantity_to_book,
+      'email', p_email,
+      'timezone', v_timezone,
+      'requires_approval', v_requires_approval,
+      'payment_id', p_payment_id
+    )
+  );
+
+  -- Seats stay held while the organizer decides
+  IF v_requires_approval THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id, data
+    ) VALUES (
+      v_event.user_id,
+      'booking_approval_requested',
+      'Booking Request',
+      format(
+        '%s %s requested %s for "%s".',
+        p_first_name, p_last_name,
+        CASE WHEN v_quantity_to_book = 1 THEN 'a spot' ELSE v_quantity_to_book || ' spots' END,
+        v_event.title
+      ),
+      v_event.id,
+      v_booking_id,
+      jsonb_build_object('slot_id', v_slot.id, 'quantity', v_quantity_to_book)
+    );
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SLOT BOOKING
+-- Free slots only; paid slots go through start_slot_payment
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_slot_booking(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_price DECIMAL(10, 2);
+BEGIN
+  SELECT ts.price INTO v_price
+  FROM public.slot_locks sl
+  JOIN public.time_slots ts ON ts.id = sl.slot_id
+  WHERE sl.id = p_lock_id;
+
+  IF COALESCE(v_price, 0) > 0 THEN
+    RAISE EXCEPTION 'Payment required for this slot';
+  END IF;
+
+  RETURN public.book_locked_slot(
+    p_lock_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    p_notes,
+    p_quantity,
+    p_timezone,
+    p_custom_responses
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- START SLOT PAYMENT
+-- Records a pending payment for a held lock and extends the lock
+-- while the provider collects payment
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.start_slot_payment(
+  p_lock_id UUID,
+  p_provider TEXT,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  payment_id UUID,
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  lock_expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_lock_validation RECORD;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_custom_fields JSONB;
+  v_amount DECIMAL(10, 2);
+  v_currency TEXT;
+  v_expires_at TIMESTAMPTZ;
+  v_payment_id UUID;
+BEGIN
+  IF NULLIF(TRIM(p_provider), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment provider is required';
+  END IF;
+
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  IF p_quantity IS NOT NULL AND p_quantity != v_lock.quantity THEN
+    RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id;
+
+  v_amount := COALESCE(v_slot.price, 0) * v_lock.quantity;
+  v_currency := COALESCE(v_slot.currency, 'USD');
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Slot does not require payment';
+  END IF;
+
+  -- Catch unanswered questions before the invitee is charged
+  SELECT custom_fields INTO v_custom_fields
+  FROM public.events
+  WHERE id = v_slot.event_id;
+
+  PERFORM public.validate_custom_responses(v_custom_fields, p_custom_responses);
+
+  -- A restarted checkout replaces the previous attempt
+  UPDATE public.payments
+  SET
+    status = 'failed',
+    failure_reason = 'Checkout restarted',
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE lock_id = p_lock_id
+    AND status = 'pending';
+
+  v_expires_at := GREATEST(v_lock.expires_at, NOW() + INTERVAL '15 minutes');
+
+  UPDATE public.slot_locks
+  SET expires_at = v_expires_at
+  WHERE id = p_lock_id;
+
+  INSERT INTO public.payments (
+    lock_id,
+    slot_id,
+    provider,
+    amount,
+    currency,
+    booking_details
+  ) VALUES (
+    p_lock_id,
+    v_slot.id,
+    TRIM(p_provider),
+    v_amount,
+    v_currency,
+    jsonb_build_object(
+      'first_name', p_first_name,
+      'last_name', p_last_name,
+      'email', p_email,
+      'phone', p_phone,
+      'notes', p_notes,
+      'quantity', v_lock.quantity,
+      'timezone', p_timezone,
+      'custom_responses', COALESCE(p_custom_responses, '{}'::jsonb)
+    )
+  )
+  RETURNING id INTO v_payment_id;
+
+  RETURN QUERY SELECT v_payment_id, v_amount, v_currency, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CONFIRM SLOT PAYMENT
+-- Webhook-style outcome from the payment provider. Returns the booking
+-- ID once paid, or NULL when the payment failed or the lock had already
+-- expired (the payment is then kept as paid with a failure_reason so the
+-- organizer can refund it). Repeating an outcome is a no-op, since
+-- providers retry webhooks.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_slot_payment(
+  p_payment_id UUID,
+  p_status TEXT,
+  p_provider_payment_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_lock_validation RECORD;
+  v_booking_id UUID;
+BEGIN
+  IF p_status NOT IN ('paid', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Only the in-browser fake provider settles from the client; real
+  -- providers report from their webhook handler with the service role
+  IF v_payment.provider != 'fake' AND COALESCE(auth.role(), '') != 'service_role' THEN
+    RAISE EXCEPTION 'Payment outcomes must come from the payment provider';
+  END IF;
+
+  IF v_payment.status = p_status THEN
+    RETURN v_payment.booking_id;
+  END IF;
+
+  IF v_payment.status != 'pending' THEN
+    RAISE EXCEPTION 'Payment already settled as %', v_payment.status;
+  END IF;
+
+  IF p_status = 'failed' THEN
+    UPDATE public.payments
+    SET
+      status = 'failed',
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = COALESCE(NULLIF(TRIM(p_failure_reason), ''), 'Payment failed'),
+      settled_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(v_payment.lock_id);
+
+  IF NOT COALESCE(v_lock_validation.is_valid, false) THEN
+    UPDATE public.payments
+    SET
+      status = 'paid',
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = 'Reservation expired before payment was confirmed',
+      settled_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN NULL;
+  END IF;
+
+  v_booking_id := public.book_locked_slot(
+    v_payment.lock_id,
+    v_payment.booking_details->>'first_name',
+    v_payment.booking_details->>'last_name',
+    v_payment.booking_details->>'email',
+    v_payment.booking_details->>'phone',
+    v_payment.booking_details->>'notes',
+    (v_payment.booking_details->>'quantity')::INTEGER,
+    v_payment.booking_details->>'timezone',
+    v_payment.booking_details->'custom_responses',
+    p_payment_id
+  );
+
+  UPDATE public.payments
+  SET
+    status = 'paid',
+    booking_id = v_booking_id,
+    provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.book_locked_slot(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.start_slot_payment(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_slot_payment(UUID, TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.payments IS
+'Checkout attempts for paid slots; a paid payment links to the booking it created';
+
+COMMENT ON FUNCTION public.start_slot_payment(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB) IS
+'Starts checkout for a held lock: records a pending payment and extends the lock';
+
+COMMENT ON FUNCTION public.confirm_slot_payment(UUID, TEXT, TEXT, TEXT) IS
+'Settles a payment as paid (creating the booking) or failed';
@@ -0,0 +1,616 @@
+-- supabase/migrations/20240205000000_booking_refunds.sql
+-- Refunds for paid bookings
+--
+-- Cancelling a paid booking now records a refund according to the event's
+-- refund rules:
+--   - before the cancellation deadline the payment is refunded in full;
+--   - after it, events with late_cancellation_refund_percent set still
+--     accept cancellations and refund that share (0 = no refund); events
+--     without it keep refusing late cancellations.
+-- Declined or expired approval requests are refunded in full.
+--
+-- A refund starts out pending. The payment provider reports the outcome
+-- through confirm_refund, which sets bookings.payment_status = 'refunded'
+-- once it succeeds. Organizers see every refund, and paid payments whose
+-- reservation expired before they were confirmed, in the refund ledger.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS late_cancellation_refund_percent INTEGER;
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_late_cancellation_refund_percent_check
+  CHECK (late_cancellation_refund_percent IS NULL OR late_cancellation_refund_percent BETWEEN 0 AND 100);
+
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+
+  -- Provider
+  provider TEXT NOT NULL,
+  provider_refund_id TEXT,
+
+  -- Amount
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  percent INTEGER NOT NULL CHECK (percent BETWEEN 1 AND 100),
+  reason TEXT NOT NULL,
+
+  -- Status
+  status TEXT NOT NULL DEFAULT 'pending',
+  failure_reason TEXT,
+  settled_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT refunds_status_check CHECK (status IN ('pending', 'succeeded', 'failed'))
+);
+
+-- A payment is refunded at most once; failed refunds are retried in place
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_payment_id ON public.refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_booking_id ON public.refunds(booking_id);
+CREATE INDEX IF NOT EXISTS idx_payments_slot_id ON public.payments(slot_id);
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- RLS POLICIES
+-- Organizers can read payments and refunds for their own events
+-- =====================================================
+
+CREATE POLICY "Organizers can view payments for their events"
+  ON public.payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.time_slots ts
+      JOIN public.events e ON e.id = ts.event_id
+      WHERE ts.id = payments.slot_id
+        AND e.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Organizers can view refunds for their events"
+  ON public.refunds FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.payments p
+      JOIN public.time_slots ts ON ts.id = p.slot_id
+      JOIN public.events e ON e.id = ts.event_id
+      WHERE p.id = refunds.payment_id
+        AND e.user_id = auth.uid()
+    )
+  );
+
+-- =====================================================
+-- CREATE BOOKING REFUND (internal)
+-- Records a pending refund of p_percent of the booking's payment.
+-- Returns NULL when there is nothing to refund: the booking was not paid
+-- for, the percent is 0, or the payment already has a refund.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_booking_refund(
+  p_booking_id UUID,
+  p_percent INTEGER,
+  p_reason TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_amount DECIMAL(10, 2);
+  v_refund_id UUID;
+BEGIN
+  IF COALESCE(p_percent, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE booking_id = p_booking_id
+    AND status = 'paid';
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_amount := ROUND(v_payment.amount * LEAST(p_percent, 100) / 100.0, 2);
+
+  IF v_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.refunds (
+    payment_id, booking_id, provider, amount, currency, percent, reason
+  ) VALUES (
+    v_payment.id, p_booking_id, v_payment.provider, v_amount,
+    v_payment.currency, LEAST(p_percent, 100), p_reason
+  )
+  ON CONFLICT (payment_id) DO NOTHING
+  RETURNING id INTO v_refund_id;
+
+  RETURN v_refund_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CANCEL BOOKING
+-- Late cancellations are accepted when the event refunds them (even at
+-- 0%), but never once the booking has started. Paid bookings get a
+-- refund recorded by the event's rules.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id UUID,
+  p_cancellation_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_booking RECORD;
+  v_event RECORD;
+  v_starts_at TIMESTAMPTZ;
+  v_hours_until_event INTEGER;
+  v_late BOOLEAN;
+BEGIN
+  -- Get booking details
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  -- Check if booking can be cancelled
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be cancelled';
+  END IF;
+
+  -- Get event details
+  SELECT * INTO v_event FROM public.events WHERE id = v_booking.event_id;
+
+  -- Check if cancellation is allowed
+  IF NOT v_event.allow_cancellation THEN
+    RAISE EXCEPTION 'Cancellation not allowed for this event';
+  END IF;
+
+  IF v_booking.slot_id IS NOT NULL THEN
+    SELECT start_time INTO v_starts_at FROM public.time_slots WHERE id = v_booking.slot_id;
+  END IF;
+
+  v_starts_at := COALESCE(
+    v_starts_at,
+    (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_event.timezone)
+  );
+
+  -- Check cancellation deadline
+  v_hours_until_event := EXTRACT(EPOCH FROM (v_starts_at - NOW())) / 3600;
+  v_late := v_hours_until_event < v_event.cancellation_deadline;
+
+  IF v_late AND (v_event.late_cancellation_refund_percent IS NULL OR v_starts_at <= NOW()) THEN
+    RAISE EXCEPTION 'Cancellation deadline has passed';
+  END IF;
+
+  -- Cancel the booking
+  UPDATE public.bookings
+  SET
+    status = 'cancelled',
+    cancelled_at = NOW(),
+    cancellation_reason = p_cancellation_reason
+  WHERE id = p_booking_id;
+
+  -- Refund paid bookings by the event's rules
+  PERFORM public.create_booking_refund(
+    p_booking_id,
+    CASE WHEN v_late THEN v_event.late_cancellation_refund_percent ELSE 100 END,
+    CASE WHEN v_late THEN 'Cancelled after the deadline' ELSE 'Cancelled before the deadline' END
+  );
+
+  -- Update current attendees count
+  UPDATE public.events
+  SET current_attendees = GREATEST(0, current_attendees - 1)
+  WHERE id = v_booking.event_id;
+
+  IF v_booking.slot_id IS NOT NULL THEN
+    -- Give the seats back to the slot
+    UPDATE public.time_slots
+    SET
+      booked_count = GREATEST(0, booked_count - v_booking.quantity),
+      status = CASE WHEN status = 'full' THEN 'available' ELSE status END
+    WHERE id = v_booking.slot_id;
+
+    PERFORM public.process_waitlist(v_booking.event_id, NULL, v_booking.slot_id);
+  ELSE
+    PERFORM public.process_waitlist(v_booking.event_id, v_booking.session_id);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- RESOLVE PENDING BOOKING (internal)
+-- Body from 20240202000000_booking_approvals.sql; declined and expired
+-- requests that were paid for are refunded in full.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.resolve_pending_booking(
+  p_booking_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_booking RECORD;
+  v_event RECORD;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings
+  WHERE id = p_booking_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT id, title INTO v_event FROM public.events WHERE id = v_booking.event_id;
+
+  UPDATE public.bookings
+  SET
+    status = 'cancelled',
+    cancelled_at = NOW(),
+    cancellation_reason = COALESCE(
+      p_reason,
+      CASE p_decision
+        WHEN 'declined' THEN 'Declined by organizer'
+        ELSE 'Approval request expired'
+      END
+    ),
+    approval_decision = p_decision,
+    approval_decided_at = NOW()
+  WHERE id = p_booking_id;
+
+  -- Paid requests that never went ahead are refunded in full
+  PERFORM public.create_booking_refund(
+    p_booking_id,
+    100,
+    CASE p_decision WHEN 'declined' THEN 'Declined by organizer' ELSE 'Approval request expired' END
+  );
+
+  IF v_booking.slot_id IS NOT NULL THEN
+    UPDATE public.time_slots
+    SET
+      booked_count = GREATEST(0, booked_count - v_booking.quantity),
+      status = CASE WHEN status = 'full' THEN 'available' ELSE status END
+    WHERE id = v_booking.slot_id;
+
+    PERFORM public.process_waitlist(v_booking.event_id, NULL, v_booking.slot_id);
+  END IF;
+
+  IF v_booking.user_id IS NOT NULL THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id
+    ) VALUES (
+      v_booking.user_id,
+      'booking_declined',
+      CASE p_decision WHEN 'declined' THEN 'Booking Declined' ELSE 'Booking Request Expired' END,
+      CASE p_decision
+        WHEN 'declined' THEN format(
+          'Your booking request for "%s" was declined.%s',
+          v_event.title,
+          CASE WHEN p_reason IS NOT NULL THEN ' Reason: ' || p_reason ELSE '' END
+        )
+        ELSE format('Your booking request for "%s" expired before the organizer responded.', v_event.title)
+      END,
+      v_event.id,
+      p_booking_id
+    );
+  END IF;
+
+  INSERT INTO public.audit_log (
+    user_id,
+    action,
+    entity_type,
+    entity_id,
+    old_data,
+    new_data
+  ) VALUES (
+    auth.uid(),
+    'update',
+    'booking',
+    p_booking_id,
+    jsonb_build_object('status', 'pending'),
+    jsonb_build_object('status', 'cancelled', 'approval_decision', p_decision, 'reason', p_reason)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+-- =====================================================
+-- GET BOOKING BY REFERENCE
+-- Adds the payment and refund so guests see what they'll get back, and
+-- lets late cancellations through when the event refunds them
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_booking_by_reference(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_booking_by_reference(p_reference TEXT, p_email TEXT)
+RETURNS TABLE (
+  id UUID,
+  booking_reference TEXT,
+  event_id UUID,
+  slot_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  phone TEXT,
+  notes TEXT,
+  status TEXT,
+  quantity INTEGER,
+  timezone TEXT,
+  confirmed_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  event_title TEXT,
+  event_description TEXT,
+  event_type TEXT,
+  event_duration INTEGER,
+  event_location TEXT,
+  event_is_online BOOLEAN,
+  event_timezone TEXT,
+  allow_cancellation BOOLEAN,
+  cancellation_deadline INTEGER,
+  slot_start_time TIMESTAMPTZ,
+  slot_end_time TIMESTAMPTZ,
+  slot_price DECIMAL(10, 2),
+  slot_currency TEXT,
+  starts_at TIMESTAMPTZ,
+  cancel_by TIMESTAMPTZ,
+  can_cancel BOOLEAN,
+  late_cancellation_refund_percent INTEGER,
+  payment_status TEXT,
+  payment_amount DECIMAL(10, 2),
+  payment_currency TEXT,
+  refund_amount DECIMAL(10, 2),
+  refund_status TEXT
+) AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH found AS (
+    SELECT
+      b.*,
+      e.title AS e_title,
+      e.description AS e_description,
+      e.type AS e_type,
+      e.duration AS e_duration,
+      e.location AS e_location,
+      e.is_online AS e_is_online,
+      e.timezone AS e_timezone,
+      COALESCE(e.allow_cancellation, true) AS e_allow_cancellation,
+      COALESCE(e.cancellation_deadline, 0) AS e_cancellation_deadline,
+      e.late_cancellation_refund_percent AS e_late_refund_percent,
+      ts.start_time AS ts_start_time,
+      ts.end_time AS ts_end_time,
+      ts.price AS ts_price,
+      ts.currency AS ts_currency,
+      r.amount AS r_amount,
+      r.status AS r_status,
+      COALESCE(
+        ts.start_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+      ) AS v_starts_at
+    FROM public.bookings b
+    JOIN public.events e ON e.id = b.event_id
+    LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+    LEFT JOIN public.refunds r ON r.booking_id = b.id
+    WHERE b.booking_reference = UPPER(TRIM(p_reference))
+      AND LOWER(b.email) = LOWER(TRIM(p_email))
+  )
+  SELECT
+    f.id, f.booking_reference, f.event_id, f.slot_id,
+    f.first_name, f.last_name, f.email, f.phone, f.notes,
+    f.status, f.quantity, f.timezone,
+    f.confirmed_at, f.cancelled_at, f.created_at,
+    f.e_title, f.e_description, f.e_type, f.e_duration,
+    f.e_location, f.e_is_online, f.e_timezone,
+    f.e_allow_cancellation, f.e_cancellation_deadline,
+    f.ts_start_time, f.ts_end_time, f.ts_price, f.ts_currency,
+    f.v_starts_at,
+    f.v_starts_at - make_interval(hours => f.e_cancellation_deadline),
+    f.status IN ('pending', 'confirmed')
+      AND f.e_allow_cancellation
+      AND (
+        NOW() <= f.v_starts_at - make_interval(hours => f.e_cancellation_deadline)
+        OR (f.e_late_refund_percent IS NOT NULL AND NOW() < f.v_starts_at)
+      ),
+    f.e_late_refund_percent,
+    f.payment_status, f.payment_amount, f.payment_currency,
+    f.r_amount, f.r_status
+  FROM found f;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- CANCEL BOOKING BY REFERENCE
+-- Now returns the refund the cancellation recorded (no rows when there
+-- is none) so the client can hand it to the payment provider
+-- =====================================================
+DROP FUNCTION IF EXISTS public.cancel_booking_by_reference(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.cancel_booking_by_reference(
+  p_reference TEXT,
+  p_email TEXT,
+  p_cancellation_reason TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  refund_id UUID,
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  provider TEXT,
+  provider_payment_id TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_booking_id UUID;
+BEGIN
+  -- Find booking
+  SELECT b.id INTO v_booking_id
+  FROM public.bookings b
+  WHERE b.booking_reference = UPPER(TRIM(p_reference))
+    AND LOWER(b.email) = LOWER(TRIM(p_email))
+    AND b.status IN ('pending', 'confirmed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found or cannot be cancelled';
+  END IF;
+
+  -- Use existing cancel_booking function
+  PERFORM public.cancel_booking(v_booking_id, p_cancellation_reason);
+
+  RETURN QUERY
+  SELECT r.id, r.amount, r.currency, r.provider, p.provider_payment_id
+  FROM public.refunds r
+  JOIN public.payments p ON p.id = r.payment_id
+  WHERE r.booking_id = v_booking_id
+    AND r.status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- REFUND UNBOOKED PAYMENT
+-- Organizer refund for a payment that was confirmed after its
+-- reservation expired, so it never became a booking
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.refund_unbooked_payment(p_payment_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_refund_id UUID;
+BEGIN
+  SELECT p.* INTO v_payment
+  FROM public.payments p
+  JOIN public.time_slots ts ON ts.id = p.slot_id
+  JOIN public.events e ON e.id = ts.event_id
+  WHERE p.id = p_payment_id
+    AND e.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status != 'paid' OR v_payment.booking_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only payments without a booking can be refunded here';
+  END IF;
+
+  INSERT INTO public.refunds (
+    payment_id, provider, amount, currency, percent, reason
+  ) VALUES (
+    v_payment.id, v_payment.provider, v_payment.amount,
+    v_payment.currency, 100, 'Reservation expired before payment was confirmed'
+  )
+  ON CONFLICT (payment_id) DO NOTHING
+  RETURNING id INTO v_refund_id;
+
+  IF v_refund_id IS NULL THEN
+    RAISE EXCEPTION 'Payment has already been refunded';
+  END IF;
+
+  RETURN v_refund_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CONFIRM REFUND
+-- Webhook-style outcome from the payment provider. A failed refund
+-- stays retryable; a succeeded one marks the booking refunded. Repeating
+-- an outcome is a no-op, since providers retry webhooks.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_refund(
+  p_refund_id UUID,
+  p_status TEXT,
+  p_provider_refund_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_refund RECORD;
+BEGIN
+  IF p_status NOT IN ('succeeded', 'failed') THEN
+    RAISE EXCEPTION 'Invalid refund status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_refund
+  FROM public.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  -- Same rule as confirm_slot_payment: only the fake provider settles
+  -- from the client
+  IF v_refund.provider != 'fake' AND COALESCE(auth.role(), '') != 'service_role' THEN
+    RAISE EXCEPTION 'Refund outcomes must come from the payment provider';
+  END IF;
+
+  IF v_refund.status = 'succeeded' THEN
+    IF p_status = 'succeeded' THEN
+      RETURN TRUE;
+    END IF;
+    RAISE EXCEPTION 'Refund already succeeded';
+  END IF;
+
+  UPDATE public.refunds
+  SET
+    status = p_status,
+    provider_refund_id = COALESCE(p_provider_refund_id, provider_refund_id),
+    failure_reason = CASE
+      WHEN p_status = 'failed' THEN COALESCE(NULLIF(TRIM(p_failure_reason), ''), 'Refund failed')
+      ELSE NULL
+    END,
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_refund_id;
+
+  IF p_status = 'succeeded' AND v_refund.booking_id IS NOT NULL THEN
+    UPDATE public.bookings
+    SET payment_status = 'refunded'
+    WHERE id = v_refund.booking_id;
+  END IF;
+
+  RETURN p_status = 'succeeded';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.create_booking_refund(UUID, INTEGER, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.resolve_pending_booking(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_booking_by_reference(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_booking_by_reference(TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_unbooked_payment(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_refund(UUID, TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.events.late_cancellation_refund_percent IS
+'Share of the payment refunded for cancellations after the deadline; NULL refuses late cancellations';
+
+COMMENT ON TABLE public.refunds IS
+'Refunds of paid bookings, settled by the payment provider through confirm_refund';
+
+COMMENT ON FUNCTION public.get_booking_by_reference(TEXT, TEXT) IS
+'Guest lookup by reference and email, including the cancellation policy, payment and refund';
+
+COMMENT ON FUNCTION public.cancel_booking_by_reference(TEXT, TEXT, TEXT) IS
+'Guest cancellation by reference and email; returns the pending refund, if any';
+
+COMMENT ON FUNCTION public.refund_unbooked_payment(UUID) IS
+'Organizer refund for a payment confirmed after its reservation expired';
+
+COMMENT ON FUNCTION public.confirm_refund(UUID, TEXT, TEXT, TEXT) IS
+'Settles a refund as succeeded (marking the booking refunded) or failed';
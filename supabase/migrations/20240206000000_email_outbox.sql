@@ -0,0 +1,308 @@
+-- supabase/migrations/20240206000000_email_outbox.sql
+-- Transactional email outbox
+--
+-- Booking emails are written to email_outbox in the same transaction as
+-- the change that causes them, so an email is queued if and only if the
+-- booking change commits. A worker running with the service role
+-- (EmailService.processOutbox) claims due rows, renders the template and
+-- sends through the email provider, then reports back:
+--   - sent: the row is marked sent, and the matching notification (if the
+--     recipient has an account) gets sent_via_email / sent_at;
+--   - failed: the row goes back to pending with a later next_attempt_at,
+--     or to failed once the worker gives up.
+--
+-- Templates: booking_created, booking_confirmed, booking_cancelled and
+-- booking_reminder. The first three are queued by a trigger on bookings;
+-- reminders are queued with enqueue_booking_email.
+--
+-- Attendees with an account and email_notifications turned off get no
+-- emails; guests always get them, since email is their only channel.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+
+  -- What to send, and to whom
+  template TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  recipient_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- One email per key, e.g. 'booking_confirmed:<booking id>'
+  dedupe_key TEXT NOT NULL,
+
+  -- Delivery
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT email_outbox_template_check CHECK (template IN (
+    'booking_created', 'booking_confirmed', 'booking_cancelled', 'booking_reminder'
+  )),
+  CONSTRAINT email_outbox_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_outbox_dedupe_key ON public.email_outbox(dedupe_key);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+  ON public.email_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_booking_id ON public.email_outbox(booking_id);
+
+-- Only reachable through the functions below
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- ENQUEUE BOOKING EMAIL (internal)
+-- Queues a template for the booking's attendee with everything needed
+-- to render it. Returns NULL when the attendee opted out or the key was
+-- already queued.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_booking_email(
+  p_booking_id UUID,
+  p_template TEXT,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking RECORD;
+  v_email_id UUID;
+BEGIN
+  SELECT
+    b.*,
+    e.title AS event_title,
+    e.location AS event_location,
+    e.is_online AS event_is_online,
+    e.meeting_url AS event_meeting_url,
+    e.timezone AS event_timezone,
+    e.duration AS event_duration,
+    TRIM(o.first_name || ' ' || o.last_name) AS organizer_name,
+    ts.start_time AS slot_start_time,
+    ts.end_time AS slot_end_time,
+    p.email_notifications AS attendee_email_notifications
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.events e ON e.id = b.event_id
+  LEFT JOIN public.profiles o ON o.id = e.user_id
+  LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_booking.user_id IS NOT NULL AND NOT COALESCE(v_booking.attendee_email_notifications, true) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.email_outbox (
+    booking_id,
+    template,
+    recipient_email,
+    recipient_name,
+    recipient_user_id,
+    payload,
+    dedupe_key
+  ) VALUES (
+    p_booking_id,
+    p_template,
+    v_booking.email,
+    TRIM(v_booking.first_name || ' ' || v_booking.last_name),
+    v_booking.user_id,
+    jsonb_build_object(
+      'booking_reference', v_booking.booking_reference,
+      'first_name', v_booking.first_name,
+      'last_name', v_booking.last_name,
+      'email', v_booking.email,
+      'status', v_booking.status,
+      'quantity', v_booking.quantity,
+      'event_title', v_booking.event_title,
+      'organizer_name', NULLIF(v_booking.organizer_name, ''),
+      'location', v_booking.event_location,
+      'is_online', v_booking.event_is_online,
+      'meeting_url', v_booking.event_meeting_url,
+      'starts_at', COALESCE(
+        v_booking.slot_start_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+      ),
+      'ends_at', COALESCE(
+        v_booking.slot_end_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+          + make_interval(mins => v_booking.event_duration)
+      ),
+      'timezone', COALESCE(v_booking.timezone, v_booking.event_timezone),
+      'cancellation_reason', v_booking.cancellation_reason
+    ),
+    COALESCE(p_dedupe_key, p_template || ':' || p_booking_id)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_email_id;
+
+  RETURN v_email_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- BOOKING EMAIL TRIGGER
+-- New requests awaiting approval get booking_created; bookings that are
+-- confirmed, on creation or approval, get booking_confirmed.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.queue_booking_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_created');
+    ELSIF NEW.status = 'confirmed' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_confirmed');
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_confirmed');
+    ELSIF NEW.status = 'cancelled' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_cancelled');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_booking_emails_trigger ON public.bookings;
+
+CREATE TRIGGER queue_booking_emails_trigger
+  AFTER INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.queue_booking_emails();
+
+-- =====================================================
+-- CLAIM EMAIL OUTBOX
+-- Hands the worker up to p_limit due emails and marks them sending.
+-- Emails left sending by a worker that died are reclaimed after
+-- p_lease_minutes.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(
+  p_limit INTEGER DEFAULT 10,
+  p_lease_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF public.email_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox o
+  SET
+    status = 'sending',
+    attempts = o.attempts + 1,
+    locked_at = NOW(),
+    updated_at = NOW()
+  WHERE o.id IN (
+    SELECT id
+    FROM public.email_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - make_interval(mins => p_lease_minutes))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE EMAIL DELIVERY
+-- Records the outcome of a send. Failed sends are retried at
+-- p_retry_at, or given up on when it is NULL.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_email_delivery(
+  p_email_id UUID,
+  p_sent BOOLEAN,
+  p_provider_message_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_email RECORD;
+BEGIN
+  SELECT * INTO v_email
+  FROM public.email_outbox
+  WHERE id = p_email_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found';
+  END IF;
+
+  IF v_email.status = 'sent' THEN
+    RETURN;
+  END IF;
+
+  IF p_sent THEN
+    UPDATE public.email_outbox
+    SET
+      status = 'sent',
+      provider_message_id = p_provider_message_id,
+      sent_at = NOW(),
+      locked_at = NULL,
+      last_error = NULL,
+      updated_at = NOW()
+    WHERE id = p_email_id;
+
+    IF v_email.recipient_user_id IS NOT NULL THEN
+      UPDATE public.notifications
+      SET
+        sent_via_email = TRUE,
+        sent_at = COALESCE(sent_at, NOW())
+      WHERE user_id = v_email.recipient_user_id
+        AND booking_id = v_email.booking_id
+        AND type = v_email.template;
+    END IF;
+  ELSE
+    UPDATE public.email_outbox
+    SET
+      status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE 'pending' END,
+      next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+      last_error = COALESCE(NULLIF(TRIM(p_error), ''), 'Delivery failed'),
+      locked_at = NULL,
+      updated_at = NOW()
+    WHERE id = p_email_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_email(UUID, TEXT, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.complete_email_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_booking_email(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_email_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.email_outbox IS
+'Transactional outbox of booking emails, delivered by the email worker';
+
+COMMENT ON FUNCTION public.enqueue_booking_email(UUID, TEXT, TEXT) IS
+'Queues a booking email for the attendee unless they opted out or it is already queued';
+
+COMMENT ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) IS
+'Claims due outbox emails for the worker, reclaiming ones stuck sending';
+
+COMMENT ON FUNCTION public.complete_email_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) IS
+'Records a send outcome, scheduling a retry or writing delivery back to notifications';
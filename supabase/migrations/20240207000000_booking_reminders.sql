@@ -0,0 +1,239 @@
+-- supabase/migrations/20240207000000_booking_reminders.sql
+-- Booking reminders from events.reminder_settings
+--
+-- Every confirmed booking gets one booking_reminders row per offset in
+-- its event's reminder_settings.hours_before. Rows are recalculated
+-- whenever the booking's status or time changes (approval, reschedule,
+-- cancellation) or the organizer edits the offsets; reminders that have
+-- already gone out are kept, so nothing is sent twice.
+--
+-- enqueue_due_reminders, run by the email worker before each outbox run,
+-- moves due reminders into email_outbox as booking_reminder emails. When
+-- several reminders for a booking are due at once (e.g. the worker was
+-- down) only the latest one is sent.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.booking_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  hours_before INTEGER NOT NULL CHECK (hours_before > 0),
+  remind_at TIMESTAMPTZ NOT NULL,
+
+  -- scheduled -> enqueued (handed to email_outbox) or skipped
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  email_id UUID REFERENCES public.email_outbox(id) ON DELETE SET NULL,
+  processed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT booking_reminders_status_check CHECK (status IN ('scheduled', 'enqueued', 'skipped'))
+);
+
+-- The same reminder for the same start time exists once, whatever its status
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_reminders_unique
+  ON public.booking_reminders(booking_id, hours_before, remind_at);
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_due
+  ON public.booking_reminders(remind_at)
+  WHERE status = 'scheduled';
+
+-- Only reachable through the functions below
+ALTER TABLE public.booking_reminders ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- SCHEDULE BOOKING REMINDERS (internal)
+-- Replaces the booking's scheduled reminders with one per offset that is
+-- still in the future. Bookings that aren't confirmed get none.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.schedule_booking_reminders(p_booking_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_booking RECORD;
+  v_starts_at TIMESTAMPTZ;
+  v_hours INTEGER;
+  v_scheduled INTEGER := 0;
+BEGIN
+  DELETE FROM public.booking_reminders
+  WHERE booking_id = p_booking_id
+    AND status = 'scheduled';
+
+  SELECT
+    b.*,
+    e.reminder_settings,
+    e.timezone AS event_timezone,
+    ts.start_time AS slot_start_time
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.events e ON e.id = b.event_id
+  LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND
+    OR v_booking.status != 'confirmed'
+    OR NOT COALESCE((v_booking.reminder_settings->>'enabled')::BOOLEAN, false)
+  THEN
+    RETURN 0;
+  END IF;
+
+  v_starts_at := COALESCE(
+    v_booking.slot_start_time,
+    (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+  );
+
+  FOR v_hours IN
+    SELECT DISTINCT value::INTEGER
+    FROM jsonb_array_elements_text(COALESCE(v_booking.reminder_settings->'hours_before', '[]'::jsonb))
+    WHERE value ~ '^[0-9]+$'
+  LOOP
+    IF v_hours > 0 AND v_starts_at - make_interval(hours => v_hours) > NOW() THEN
+      INSERT INTO public.booking_reminders (booking_id, hours_before, remind_at)
+      VALUES (p_booking_id, v_hours, v_starts_at - make_interval(hours => v_hours))
+      ON CONFLICT (booking_id, hours_before, remind_at) DO NOTHING;
+
+      IF FOUND THEN
+        v_scheduled := v_scheduled + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.reschedule_booking_reminders()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.schedule_booking_reminders(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS schedule_booking_reminders_trigger ON public.bookings;
+
+CREATE TRIGGER schedule_booking_reminders_trigger
+  AFTER INSERT OR UPDATE OF status, slot_id, date, time ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.reschedule_booking_reminders();
+
+-- Edited offsets apply to upcoming confirmed bookings
+CREATE OR REPLACE FUNCTION public.reschedule_event_reminders()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_booking_id UUID;
+BEGIN
+  IF NEW.reminder_settings IS DISTINCT FROM OLD.reminder_settings THEN
+    FOR v_booking_id IN
+      SELECT b.id
+      FROM public.bookings b
+      LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+      WHERE b.event_id = NEW.id
+        AND b.status = 'confirmed'
+        AND COALESCE(ts.start_time, b.date + b.time) > NOW()
+    LOOP
+      PERFORM public.schedule_booking_reminders(v_booking_id);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reschedule_event_reminders_trigger ON public.events;
+
+CREATE TRIGGER reschedule_event_reminders_trigger
+  AFTER UPDATE OF reminder_settings ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.reschedule_event_reminders();
+
+-- =====================================================
+-- ENQUEUE DUE REMINDERS
+-- Hands due reminders to the email outbox. Returns how many were queued.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_due_reminders(p_limit INTEGER DEFAULT 100)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reminder RECORD;
+  v_email_id UUID;
+  v_enqueued INTEGER := 0;
+BEGIN
+  FOR v_reminder IN
+    SELECT r.*, b.status AS booking_status
+    FROM public.booking_reminders r
+    JOIN public.bookings b ON b.id = r.booking_id
+    WHERE r.status = 'scheduled'
+      AND r.remind_at <= NOW()
+    ORDER BY r.remind_at
+    LIMIT p_limit
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    -- Skip reminders for bookings no longer confirmed, and ones a later
+    -- reminder for the same booking supersedes
+    IF v_reminder.booking_status != 'confirmed' OR EXISTS (
+      SELECT 1
+      FROM public.booking_reminders later
+      WHERE later.booking_id = v_reminder.booking_id
+        AND later.status = 'scheduled'
+        AND later.remind_at <= NOW()
+        AND later.remind_at > v_reminder.remind_at
+    ) THEN
+      UPDATE public.booking_reminders
+      SET status = 'skipped', processed_at = NOW()
+      WHERE id = v_reminder.id;
+
+      CONTINUE;
+    END IF;
+
+    v_email_id := public.enqueue_booking_email(
+      v_reminder.booking_id,
+      'booking_reminder',
+      'booking_reminder:' || v_reminder.id
+    );
+
+    UPDATE public.booking_reminders
+    SET
+      status = CASE WHEN v_email_id IS NULL THEN 'skipped' ELSE 'enqueued' END,
+      email_id = v_email_id,
+      processed_at = NOW()
+    WHERE id = v_reminder.id;
+
+    IF v_email_id IS NOT NULL THEN
+      v_enqueued := v_enqueued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_enqueued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- BACKFILL
+-- Upcoming confirmed bookings made before reminders existed
+-- =====================================================
+SELECT public.schedule_booking_reminders(b.id)
+FROM public.bookings b
+LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+WHERE b.status = 'confirmed'
+  AND COALESCE(ts.start_time, b.date + b.time) > NOW();
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.schedule_booking_reminders(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.enqueue_due_reminders(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_due_reminders(INTEGER) TO service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.booking_reminders IS
+'Reminder emails per confirmed booking and reminder_settings offset';
+
+COMMENT ON FUNCTION public.schedule_booking_reminders(UUID) IS
+'Recalculates a booking''s scheduled reminders from its start time and event offsets';
+
+COMMENT ON FUNCTION public.enqueue_due_reminders(INTEGER) IS
+'Moves due reminders into the email outbox; skips superseded and no longer confirmed ones';
@@ -0,0 +1,67 @@
+-- supabase/migrations/20240208000000_notification_center.sql
+-- In-app notification center
+--
+-- Adds mark-all-read and streams notification changes to the app through
+-- Supabase realtime. Realtime honours the existing RLS policies, so users
+-- only receive their own notifications.
+
+-- =====================================================
+-- INDEXES
+-- The bell counts unread notifications on every page
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON public.notifications(user_id, created_at DESC)
+  WHERE is_read = false;
+
+-- =====================================================
+-- MARK ALL NOTIFICATIONS READ
+-- Marks the caller's unread notifications read, optionally only those of
+-- one type. Returns how many were marked.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read(p_type TEXT DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_marked INTEGER;
+BEGIN
+  UPDATE public.notifications
+  SET
+    is_read = TRUE,
+    read_at = NOW()
+  WHERE user_id = auth.uid()
+    AND is_read = FALSE
+    AND (p_type IS NULL OR type = p_type);
+
+  GET DIAGNOSTICS v_marked = ROW_COUNT;
+  RETURN v_marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- REALTIME
+-- =====================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read(TEXT) TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.mark_all_notifications_read(TEXT) IS
+'Marks the caller''s unread notifications read, optionally of one type only';
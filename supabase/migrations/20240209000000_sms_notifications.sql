@@ -0,0 +1,881 @@
+-- supabase/migrations/20240209000000_sms_notifications.sql
+-- SMS notifications
+--
+-- Attendees can opt in to text messages when they book (bookings.sms_opt_in,
+-- which requires an E.164 phone number), and account holders can opt in
+-- for every booking with profiles.sms_notifications. Opted-in attendees
+-- get their booking confirmation and reminders by SMS as well as email.
+--
+-- Texts go through sms_outbox, which works like email_outbox: rows are
+-- queued in the same transaction as the booking change, and a worker with
+-- the service role (SmsService.processOutbox) claims, sends and reports
+-- back, writing sent_via_sms onto the matching notification.
+-- enqueue_due_reminders now queues each due reminder on both channels.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+-- '+' followed by up to 15 digits, no leading zero
+CREATE OR REPLACE FUNCTION public.is_e164_phone(p_phone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(p_phone ~ '^\+[1-9][0-9]{6,14}$', false);
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS sms_opt_in BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_sms_opt_in_phone_check;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_sms_opt_in_phone_check
+  CHECK (NOT sms_opt_in OR public.is_e164_phone(phone));
+
+CREATE TABLE IF NOT EXISTS public.sms_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+
+  -- What to send, and to whom
+  template TEXT NOT NULL,
+  recipient_phone TEXT NOT NULL,
+  recipient_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- One text per key, e.g. 'booking_confirmed:<booking id>'
+  dedupe_key TEXT NOT NULL,
+
+  -- Delivery
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT sms_outbox_template_check CHECK (template IN ('booking_confirmed', 'booking_reminder')),
+  CONSTRAINT sms_outbox_phone_check CHECK (public.is_e164_phone(recipient_phone)),
+  CONSTRAINT sms_outbox_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sms_outbox_dedupe_key ON public.sms_outbox(dedupe_key);
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_due
+  ON public.sms_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_booking_id ON public.sms_outbox(booking_id);
+
+-- Only reachable through the functions below
+ALTER TABLE public.sms_outbox ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.booking_reminders
+  ADD COLUMN IF NOT EXISTS sms_id UUID REFERENCES public.sms_outbox(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- BOOK LOCKED SLOT (internal)
+-- From 20240204000000_booking_payments.sql, recording the SMS opt-in
+-- =====================================================
+DROP FUNCTION IF EXISTS public.book_locked_slot(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.book_locked_slot(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb,
+  p_payment_id UUID DEFAULT NULL,
+  p_sms_opt_in BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_lock_validation RECORD;
+  v_quantity_to_book INTEGER;
+  v_timezone TEXT;
+  v_event RECORD;
+  v_requires_approval BOOLEAN;
+  v_custom_responses JSONB;
+  v_payment_amount DECIMAL(10, 2);
+  v_payment_currency TEXT;
+BEGIN
+  -- Verify lock is valid
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  -- Get lock details
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  -- Validate provided quantity matches lock quantity
+  IF p_quantity IS NOT NULL THEN
+    IF p_quantity != v_lock.quantity THEN
+      RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+    END IF;
+    v_quantity_to_book := p_quantity;
+  ELSE
+    v_quantity_to_book := v_lock.quantity;
+  END IF;
+
+  IF v_quantity_to_book <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity: %', v_quantity_to_book;
+  END IF;
+
+  -- Get slot details with row lock
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- Final capacity check with explicit quantity
+  IF v_slot.booked_count + v_quantity_to_book > v_slot.total_capacity THEN
+    RAISE EXCEPTION 'Insufficient capacity. Requested: %, Available: %',
+      v_quantity_to_book,
+      (v_slot.total_capacity - v_slot.booked_count);
+  END IF;
+
+  SELECT id, user_id, title, timezone, requires_approval, custom_fields INTO v_event
+  FROM public.events
+  WHERE id = v_slot.event_id;
+
+  v_custom_responses := public.validate_custom_responses(v_event.custom_fields, p_custom_responses);
+
+  IF COALESCE(p_sms_opt_in, false) AND NOT public.is_e164_phone(p_phone) THEN
+    RAISE EXCEPTION 'A phone number in international format is required for text messages';
+  END IF;
+
+  IF p_payment_id IS NOT NULL THEN
+    SELECT amount, currency INTO v_payment_amount, v_payment_currency
+    FROM public.payments
+    WHERE id = p_payment_id;
+  END IF;
+
+  v_requires_approval := COALESCE(v_event.requires_approval, false);
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    v_timezone := v_event.timezone;
+  END IF;
+
+  -- Create booking
+  INSERT INTO public.bookings (
+    event_id,
+    slot_id,
+    user_id,
+    first_name,
+    last_name,
+    email,
+    phone,
+    date,
+    time,
+    timezone,
+    quantity,
+    status,
+    notes,
+    custom_responses,
+    sms_opt_in,
+    payment_status,
+    payment_amount,
+    payment_currency,
+    confirmed_at,
+    approval_expires_at
+  )
+  SELECT
+    v_slot.event_id,
+    v_slot.id,
+    v_lock.user_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    (v_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    (v_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    v_timezone,
+    v_quantity_to_book,
+    CASE WHEN v_requires_approval THEN 'pending' ELSE 'confirmed' END,
+    CASE
+      WHEN p_notes IS NOT NULL THEN p_notes
+      WHEN v_quantity_to_book > 1 THEN format('Group booking: %s seats', v_quantity_to_book)
+      ELSE NULL
+    END,
+    v_custom_responses,
+    COALESCE(p_sms_opt_in, false),
+    CASE WHEN p_payment_id IS NULL THEN 'free' ELSE 'paid' END,
+    v_payment_amount,
+    COALESCE(v_payment_currency, v_slot.currency, 'USD'),
+    CASE WHEN v_requires_approval THEN NULL ELSE NOW() END,
+    CASE
+      WHEN v_requires_approval THEN LEAST(NOW() + INTERVAL '48 hours', v_slot.start_time)
+      ELSE NULL
+    END
+  RETURNING id INTO v_booking_id;
+
+  -- Update slot booked count with explicit quantity
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_quantity_to_book,
+    status = CASE
+      WHEN booked_count + v_quantity_to_book >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_slot.id;
+
+  -- Release lock
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = p_lock_id;
+
+  -- Booked through a waitlist offer
+  UPDATE public.waitlist
+  SET
+    converted_to_booking = true,
+    converted_at = NOW()
+  WHERE lock_id = p_lock_id;
+
+  -- Log the booking with quantity
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    new_data
+  ) VALUES (
+    'create',
+    'booking',
+    v_booking_id,
+    jsonb_build_object(
+      'lock_id', p_lock_id,
+      'slot_id', v_slot.id,
+      'quantity', v_quantity_to_book,
+      'email', p_email,
+      'timezone', v_timezone,
+      'requires_approval', v_requires_approval,
+      'payment_id', p_payment_id
+    )
+  );
+
+  -- Seats stay held while the organizer decides
+  IF v_requires_approval THEN
+    INSERT INTO public.notifications (
+      user_id, type, title, message, event_id, booking_id, data
+    ) VALUES (
+      v_event.user_id,
+      'booking_approval_requested',
+      'Booking Request',
+      format(
+        '%s %s requested %s for "%s".',
+        p_first_name, p_last_name,
+        CASE WHEN v_quantity_to_book = 1 THEN 'a spot' ELSE v_quantity_to_book || ' spots' END,
+        v_event.title
+      ),
+      v_event.id,
+      v_booking_id,
+      jsonb_build_object('slot_id', v_slot.id, 'quantity', v_quantity_to_book)
+    );
+  END IF;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SLOT BOOKING
+-- Free slots only; paid slots go through start_slot_payment
+-- =====================================================
+DROP FUNCTION IF EXISTS public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.complete_slot_booking(
+  p_lock_id UUID,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb,
+  p_sms_opt_in BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_price DECIMAL(10, 2);
+BEGIN
+  SELECT ts.price INTO v_price
+  FROM public.slot_locks sl
+  JOIN public.time_slots ts ON ts.id = sl.slot_id
+  WHERE sl.id = p_lock_id;
+
+  IF COALESCE(v_price, 0) > 0 THEN
+    RAISE EXCEPTION 'Payment required for this slot';
+  END IF;
+
+  RETURN public.book_locked_slot(
+    p_lock_id,
+    p_first_name,
+    p_last_name,
+    p_email,
+    p_phone,
+    p_notes,
+    p_quantity,
+    p_timezone,
+    p_custom_responses,
+    NULL,
+    p_sms_opt_in
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- START SLOT PAYMENT
+-- Keeps the SMS opt-in with the contact details until payment settles
+-- =====================================================
+DROP FUNCTION IF EXISTS public.start_slot_payment(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.start_slot_payment(
+  p_lock_id UUID,
+  p_provider TEXT,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_quantity INTEGER DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb,
+  p_sms_opt_in BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  payment_id UUID,
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  lock_expires_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_lock_validation RECORD;
+  v_lock RECORD;
+  v_slot RECORD;
+  v_custom_fields JSONB;
+  v_amount DECIMAL(10, 2);
+  v_currency TEXT;
+  v_expires_at TIMESTAMPTZ;
+  v_payment_id UUID;
+BEGIN
+  IF NULLIF(TRIM(p_provider), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment provider is required';
+  END IF;
+
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(p_lock_id);
+
+  IF NOT v_lock_validation.is_valid THEN
+    RAISE EXCEPTION 'Lock is invalid: %', v_lock_validation.reason;
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM public.slot_locks
+  WHERE id = p_lock_id
+  FOR UPDATE;
+
+  IF p_quantity IS NOT NULL AND p_quantity != v_lock.quantity THEN
+    RAISE EXCEPTION 'Quantity mismatch: requested %, locked %', p_quantity, v_lock.quantity;
+  END IF;
+
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = v_lock.slot_id;
+
+  v_amount := COALESCE(v_slot.price, 0) * v_lock.quantity;
+  v_currency := COALESCE(v_slot.currency, 'USD');
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Slot does not require payment';
+  END IF;
+
+  -- Catch unanswered questions before the invitee is charged
+  SELECT custom_fields INTO v_custom_fields
+  FROM public.events
+  WHERE id = v_slot.event_id;
+
+  PERFORM public.validate_custom_responses(v_custom_fields, p_custom_responses);
+
+  IF COALESCE(p_sms_opt_in, false) AND NOT public.is_e164_phone(p_phone) THEN
+    RAISE EXCEPTION 'A phone number in international format is required for text messages';
+  END IF;
+
+  -- A restarted checkout replaces the previous attempt
+  UPDATE public.payments
+  SET
+    status = 'failed',
+    failure_reason = 'Checkout restarted',
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE lock_id = p_lock_id
+    AND status = 'pending';
+
+  v_expires_at := GREATEST(v_lock.expires_at, NOW() + INTERVAL '15 minutes');
+
+  UPDATE public.slot_locks
+  SET expires_at = v_expires_at
+  WHERE id = p_lock_id;
+
+  INSERT INTO public.payments (
+    lock_id,
+    slot_id,
+    provider,
+    amount,
+    currency,
+    booking_details
+  ) VALUES (
+    p_lock_id,
+    v_slot.id,
+    TRIM(p_provider),
+    v_amount,
+    v_currency,
+    jsonb_build_object(
+      'first_name', p_first_name,
+      'last_name', p_last_name,
+      'email', p_email,
+      'phone', p_phone,
+      'notes', p_notes,
+      'quantity', v_lock.quantity,
+      'timezone', p_timezone,
+      'custom_responses', COALESCE(p_custom_responses, '{}'::jsonb),
+      'sms_opt_in', COALESCE(p_sms_opt_in, false)
+    )
+  )
+  RETURNING id INTO v_payment_id;
+
+  RETURN QUERY SELECT v_payment_id, v_amount, v_currency, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CONFIRM SLOT PAYMENT
+-- From 20240204000000_booking_payments.sql, passing the SMS opt-in on
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_slot_payment(
+  p_payment_id UUID,
+  p_status TEXT,
+  p_provider_payment_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_lock_validation RECORD;
+  v_booking_id UUID;
+BEGIN
+  IF p_status NOT IN ('paid', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Only the in-browser fake provider settles from the client; real
+  -- providers report from their webhook handler with the service role
+  IF v_payment.provider != 'fake' AND COALESCE(auth.role(), '') != 'service_role' THEN
+    RAISE EXCEPTION 'Payment outcomes must come from the payment provider';
+  END IF;
+
+  IF v_payment.status = p_status THEN
+    RETURN v_payment.booking_id;
+  END IF;
+
+  IF v_payment.status != 'pending' THEN
+    RAISE EXCEPTION 'Payment already settled as %', v_payment.status;
+  END IF;
+
+  IF p_status = 'failed' THEN
+    UPDATE public.payments
+    SET
+      status = 'failed',
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = COALESCE(NULLIF(TRIM(p_failure_reason), ''), 'Payment failed'),
+      settled_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(v_payment.lock_id);
+
+  IF NOT COALESCE(v_lock_validation.is_valid, false) THEN
+    UPDATE public.payments
+    SET
+      status = 'paid',
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = 'Reservation expired before payment was confirmed',
+      settled_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN NULL;
+  END IF;
+
+  v_booking_id := public.book_locked_slot(
+    v_payment.lock_id,
+    v_payment.booking_details->>'first_name',
+    v_payment.booking_details->>'last_name',
+    v_payment.booking_details->>'email',
+    v_payment.booking_details->>'phone',
+    v_payment.booking_details->>'notes',
+    (v_payment.booking_details->>'quantity')::INTEGER,
+    v_payment.booking_details->>'timezone',
+    v_payment.booking_details->'custom_responses',
+    p_payment_id,
+    COALESCE((v_payment.booking_details->>'sms_opt_in')::BOOLEAN, false)
+  );
+
+  UPDATE public.payments
+  SET
+    status = 'paid',
+    booking_id = v_booking_id,
+    provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ENQUEUE BOOKING SMS (internal)
+-- Queues a text for the booking's attendee if they opted in on the
+-- booking or in their profile. Returns NULL when they didn't, have no
+-- usable number, or the key was already queued.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_booking_sms(
+  p_booking_id UUID,
+  p_template TEXT,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking RECORD;
+  v_phone TEXT;
+  v_sms_id UUID;
+BEGIN
+  SELECT
+    b.*,
+    e.title AS event_title,
+    e.location AS event_location,
+    e.is_online AS event_is_online,
+    e.timezone AS event_timezone,
+    ts.start_time AS slot_start_time,
+    p.sms_notifications AS attendee_sms_notifications,
+    p.phone AS attendee_profile_phone
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.events e ON e.id = b.event_id
+  LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_booking.sms_opt_in THEN
+    v_phone := v_booking.phone;
+  ELSIF COALESCE(v_booking.attendee_sms_notifications, false) THEN
+    v_phone := CASE
+      WHEN public.is_e164_phone(v_booking.phone) THEN v_booking.phone
+      ELSE v_booking.attendee_profile_phone
+    END;
+  END IF;
+
+  IF NOT public.is_e164_phone(v_phone) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.sms_outbox (
+    booking_id,
+    template,
+    recipient_phone,
+    recipient_user_id,
+    payload,
+    dedupe_key
+  ) VALUES (
+    p_booking_id,
+    p_template,
+    v_phone,
+    v_booking.user_id,
+    jsonb_build_object(
+      'booking_reference', v_booking.booking_reference,
+      'first_name', v_booking.first_name,
+      'last_name', v_booking.last_name,
+      'email', v_booking.email,
+      'status', v_booking.status,
+      'quantity', v_booking.quantity,
+      'event_title', v_booking.event_title,
+      'location', v_booking.event_location,
+      'is_online', v_booking.event_is_online,
+      'starts_at', COALESCE(
+        v_booking.slot_start_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+      ),
+      'timezone', COALESCE(v_booking.timezone, v_booking.event_timezone)
+    ),
+    COALESCE(p_dedupe_key, p_template || ':' || p_booking_id)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_sms_id;
+
+  RETURN v_sms_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- BOOKING SMS TRIGGER
+-- Bookings that are confirmed, on creation or approval, get
+-- booking_confirmed
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.queue_booking_sms()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'confirmed'
+    AND (TG_OP = 'INSERT' OR OLD.status = 'pending')
+  THEN
+    PERFORM public.enqueue_booking_sms(NEW.id, 'booking_confirmed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_booking_sms_trigger ON public.bookings;
+
+CREATE TRIGGER queue_booking_sms_trigger
+  AFTER INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.queue_booking_sms();
+
+-- =====================================================
+-- ENQUEUE DUE REMINDERS
+-- From 20240207000000_booking_reminders.sql, queuing each reminder as an
+-- email and, for opted-in attendees, a text. Returns how many reminders
+-- were queued on at least one channel.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_due_reminders(p_limit INTEGER DEFAULT 100)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reminder RECORD;
+  v_email_id UUID;
+  v_sms_id UUID;
+  v_enqueued INTEGER := 0;
+BEGIN
+  FOR v_reminder IN
+    SELECT r.*, b.status AS booking_status
+    FROM public.booking_reminders r
+    JOIN public.bookings b ON b.id = r.booking_id
+    WHERE r.status = 'scheduled'
+      AND r.remind_at <= NOW()
+    ORDER BY r.remind_at
+    LIMIT p_limit
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    -- Skip reminders for bookings no longer confirmed, and ones a later
+    -- reminder for the same booking supersedes
+    IF v_reminder.booking_status != 'confirmed' OR EXISTS (
+      SELECT 1
+      FROM public.booking_reminders later
+      WHERE later.booking_id = v_reminder.booking_id
+        AND later.status = 'scheduled'
+        AND later.remind_at <= NOW()
+        AND later.remind_at > v_reminder.remind_at
+    ) THEN
+      UPDATE public.booking_reminders
+      SET status = 'skipped', processed_at = NOW()
+      WHERE id = v_reminder.id;
+
+      CONTINUE;
+    END IF;
+
+    v_email_id := public.enqueue_booking_email(
+      v_reminder.booking_id,
+      'booking_reminder',
+      'booking_reminder:' || v_reminder.id
+    );
+
+    v_sms_id := public.enqueue_booking_sms(
+      v_reminder.booking_id,
+      'booking_reminder',
+      'booking_reminder:' || v_reminder.id
+    );
+
+    UPDATE public.booking_reminders
+    SET
+      status = CASE WHEN v_email_id IS NULL AND v_sms_id IS NULL THEN 'skipped' ELSE 'enqueued' END,
+      email_id = v_email_id,
+      sms_id = v_sms_id,
+      processed_at = NOW()
+    WHERE id = v_reminder.id;
+
+    IF v_email_id IS NOT NULL OR v_sms_id IS NOT NULL THEN
+      v_enqueued := v_enqueued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_enqueued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CLAIM SMS OUTBOX
+-- Same leasing as claim_email_outbox
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.claim_sms_outbox(
+  p_limit INTEGER DEFAULT 10,
+  p_lease_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF public.sms_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.sms_outbox o
+  SET
+    status = 'sending',
+    attempts = o.attempts + 1,
+    locked_at = NOW(),
+    updated_at = NOW()
+  WHERE o.id IN (
+    SELECT id
+    FROM public.sms_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - make_interval(mins => p_lease_minutes))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SMS DELIVERY
+-- Records the outcome of a send. Failed sends are retried at
+-- p_retry_at, or given up on when it is NULL.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_sms_delivery(
+  p_sms_id UUID,
+  p_sent BOOLEAN,
+  p_provider_message_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_sms RECORD;
+BEGIN
+  SELECT * INTO v_sms
+  FROM public.sms_outbox
+  WHERE id = p_sms_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SMS not found';
+  END IF;
+
+  IF v_sms.status = 'sent' THEN
+    RETURN;
+  END IF;
+
+  IF p_sent THEN
+    UPDATE public.sms_outbox
+    SET
+      status = 'sent',
+      provider_message_id = p_provider_message_id,
+      sent_at = NOW(),
+      locked_at = NULL,
+      last_error = NULL,
+      updated_at = NOW()
+    WHERE id = p_sms_id;
+
+    IF v_sms.recipient_user_id IS NOT NULL THEN
+      UPDATE public.notifications
+      SET
+        sent_via_sms = TRUE,
+        sent_at = COALESCE(sent_at, NOW())
+      WHERE user_id = v_sms.recipient_user_id
+        AND booking_id = v_sms.booking_id
+        AND type = v_sms.template;
+    END IF;
+  ELSE
+    UPDATE public.sms_outbox
+    SET
+      status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE 'pending' END,
+      next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+      last_error = COALESCE(NULLIF(TRIM(p_error), ''), 'Delivery failed'),
+      locked_at = NULL,
+      updated_at = NOW()
+    WHERE id = p_sms_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.book_locked_slot(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, BOOLEAN) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_slot_payment(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, BOOLEAN) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_sms(UUID, TEXT, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.complete_sms_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_booking_sms(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_sms_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.bookings.sms_opt_in IS
+'The attendee asked for text messages about this booking; requires an E.164 phone';
+
+COMMENT ON TABLE public.sms_outbox IS
+'Transactional outbox of booking text messages, delivered by the SMS worker';
+
+COMMENT ON FUNCTION public.complete_slot_booking(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, BOOLEAN) IS
+'Completes a locked slot booking, storing the intake answers and SMS opt-in';
+
+COMMENT ON FUNCTION public.start_slot_payment(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, BOOLEAN) IS
+'Starts checkout for a held lock: records a pending payment and extends the lock';
+
+COMMENT ON FUNCTION public.enqueue_booking_sms(UUID, TEXT, TEXT) IS
+'Queues a booking text for an opted-in attendee unless it is already queued';
+
+COMMENT ON FUNCTION public.claim_sms_outbox(INTEGER, INTEGER) IS
+'Claims due outbox texts for the worker, reclaiming ones stuck sending';
+
+COMMENT ON FUNCTION public.complete_sms_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) IS
+'Records a send outcome, scheduling a retry or writing delivery back to notifications';
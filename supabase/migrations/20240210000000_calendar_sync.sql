@@ -0,0 +1,440 @@
+-- supabase/migrations/20240210000000_calendar_sync.sql
+-- Two-way calendar sync for calendar_integrations
+--
+-- The sync engine (CalendarSyncService) talks to the calendar provider and
+-- records the outcome through the functions below:
+--   - import: events from the organizer's calendar become
+--     calendar_busy_blocks, which hide overlapping slots in
+--     get_available_slots and are skipped by slot generation. After the
+--     first full sync only changes since calendar_integrations.sync_token
+--     are fetched.
+--   - export: confirmed bookings on the organizer's events are written to
+--     the calendar. calendar_event_links remembers the calendar event, its
+--     etag and a fingerprint of what was exported, so only changed
+--     bookings are pushed and edits made in the calendar are detected.
+--
+-- The functions can be called by the integration's owner (syncing from
+-- the app) or the service role (a scheduled sync).
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+ALTER TABLE public.calendar_integrations
+  ADD COLUMN IF NOT EXISTS sync_token TEXT,
+  ADD COLUMN IF NOT EXISTS last_sync_error TEXT;
+
+CREATE TABLE IF NOT EXISTS public.calendar_busy_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  integration_id UUID NOT NULL REFERENCES public.calendar_integrations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  -- The calendar event the block comes from
+  external_event_id TEXT NOT NULL,
+  title TEXT,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT calendar_busy_blocks_time_check CHECK (end_time > start_time),
+  CONSTRAINT calendar_busy_blocks_unique_event UNIQUE (integration_id, external_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_busy_blocks_user_time
+  ON public.calendar_busy_blocks(user_id, start_time, end_time);
+
+CREATE TABLE IF NOT EXISTS public.calendar_event_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  integration_id UUID NOT NULL REFERENCES public.calendar_integrations(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+
+  -- The calendar event the booking was exported as
+  external_event_id TEXT NOT NULL,
+  etag TEXT,
+  -- What was last exported, to tell whether the booking changed since
+  fingerprint TEXT NOT NULL,
+
+  -- detached: deleted from the calendar by the organizer, not re-created
+  status TEXT NOT NULL DEFAULT 'active',
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT calendar_event_links_status_check CHECK (status IN ('active', 'detached')),
+  CONSTRAINT calendar_event_links_unique_booking UNIQUE (integration_id, booking_id),
+  CONSTRAINT calendar_event_links_unique_event UNIQUE (integration_id, external_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_event_links_booking_id ON public.calendar_event_links(booking_id);
+
+-- Written only through the functions below
+ALTER TABLE public.calendar_busy_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calendar_event_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own busy blocks"
+  ON public.calendar_busy_blocks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own calendar event links"
+  ON public.calendar_event_links FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.calendar_integrations ci
+    WHERE ci.id = integration_id
+      AND ci.user_id = auth.uid()
+  ));
+
+-- =====================================================
+-- CALENDAR INTEGRATION ACCESS (internal)
+-- Locks and returns the integration if the caller may sync it
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.lock_calendar_integration(p_integration_id UUID)
+RETURNS public.calendar_integrations AS $$
+DECLARE
+  v_integration public.calendar_integrations;
+BEGIN
+  SELECT * INTO v_integration
+  FROM public.calendar_integrations
+  WHERE id = p_integration_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar integration not found';
+  END IF;
+
+  IF v_integration.user_id IS DISTINCT FROM auth.uid()
+    AND COALESCE(auth.role(), '') != 'service_role'
+  THEN
+    RAISE EXCEPTION 'Not authorized to sync this calendar';
+  END IF;
+
+  RETURN v_integration;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GET CALENDAR EXPORT BOOKINGS
+-- Confirmed bookings on the owner's events starting in the window, plus
+-- every booking already exported, so cancelled and moved bookings can be
+-- removed from the calendar
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_calendar_export_bookings(
+  p_integration_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_status TEXT,
+  booking_reference TEXT,
+  event_title TEXT,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  quantity INTEGER,
+  location TEXT,
+  is_online BOOLEAN,
+  meeting_url TEXT,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  link_external_event_id TEXT,
+  link_etag TEXT,
+  link_fingerprint TEXT,
+  link_status TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_integration public.calendar_integrations;
+BEGIN
+  v_integration := public.lock_calendar_integration(p_integration_id);
+
+  RETURN QUERY
+  WITH booking_times AS (
+    SELECT
+      b.*,
+      e.title AS event_title,
+      e.location AS event_location,
+      e.is_online AS event_is_online,
+      e.meeting_url AS event_meeting_url,
+      COALESCE(
+        ts.start_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+      ) AS starts_at,
+      COALESCE(
+        ts.end_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+          + make_interval(mins => e.duration)
+      ) AS ends_at
+    FROM public.bookings b
+    JOIN public.events e ON e.id = b.event_id
+    LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+    WHERE e.user_id = v_integration.user_id
+  )
+  SELECT
+    bt.id,
+    bt.status,
+    bt.booking_reference,
+    bt.event_title,
+    TRIM(bt.first_name || ' ' || bt.last_name),
+    bt.email,
+    bt.quantity,
+    bt.event_location,
+    COALESCE(bt.event_is_online, false),
+    bt.event_meeting_url,
+    bt.starts_at,
+    bt.ends_at,
+    l.external_event_id,
+    l.etag,
+    l.fingerprint,
+    l.status
+  FROM booking_times bt
+  LEFT JOIN public.calendar_event_links l
+    ON l.booking_id = bt.id
+   AND l.integration_id = p_integration_id
+  WHERE l.id IS NOT NULL
+     OR (bt.status = 'confirmed' AND bt.starts_at >= p_from AND bt.starts_at < p_to)
+  ORDER BY bt.starts_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- APPLY CALENDAR IMPORT
+-- Upserts busy blocks and removes the ones whose calendar events were
+-- deleted or freed. A full sync replaces all of the integration's
+-- blocks. Stores the provider's next sync token.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.apply_calendar_import(
+  p_integration_id UUID,
+  p_blocks JSONB,
+  p_removed_event_ids TEXT[] DEFAULT '{}',
+  p_full_sync BOOLEAN DEFAULT false,
+  p_sync_token TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_integration public.calendar_integrations;
+  v_upserted INTEGER;
+BEGIN
+  v_integration := public.lock_calendar_integration(p_integration_id);
+
+  IF p_full_sync THEN
+    DELETE FROM public.calendar_busy_blocks
+    WHERE integration_id = p_integration_id
+      AND external_event_id NOT IN (
+        SELECT block->>'external_event_id'
+        FROM jsonb_array_elements(COALESCE(p_blocks, '[]'::jsonb)) AS block
+      );
+  END IF;
+
+  DELETE FROM public.calendar_busy_blocks
+  WHERE integration_id = p_integration_id
+    AND external_event_id = ANY(COALESCE(p_removed_event_ids, '{}'));
+
+  INSERT INTO public.calendar_busy_blocks (
+    integration_id,
+    user_id,
+    external_event_id,
+    title,
+    start_time,
+    end_time
+  )
+  SELECT
+    p_integration_id,
+    v_integration.user_id,
+    block.external_event_id,
+    block.title,
+    block.start_time,
+    block.end_time
+  FROM jsonb_to_recordset(COALESCE(p_blocks, '[]'::jsonb)) AS block(
+    external_event_id TEXT,
+    title TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ
+  )
+  WHERE block.end_time > block.start_time
+  ON CONFLICT (integration_id, external_event_id) DO UPDATE
+  SET
+    title = EXCLUDED.title,
+    start_time = EXCLUDED.start_time,
+    end_time = EXCLUDED.end_time,
+    updated_at = NOW();
+
+  GET DIAGNOSTICS v_upserted = ROW_COUNT;
+
+  UPDATE public.calendar_integrations
+  SET sync_token = p_sync_token
+  WHERE id = p_integration_id;
+
+  RETURN v_upserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- RECORD CALENDAR EXPORT
+-- Remembers the calendar event a booking was exported as. A NULL
+-- external event ID forgets the link (the calendar event was deleted).
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.record_calendar_export(
+  p_integration_id UUID,
+  p_booking_id UUID,
+  p_external_event_id TEXT,
+  p_etag TEXT DEFAULT NULL,
+  p_fingerprint TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'active'
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.lock_calendar_integration(p_integration_id);
+
+  IF p_external_event_id IS NULL THEN
+    DELETE FROM public.calendar_event_links
+    WHERE integration_id = p_integration_id
+      AND booking_id = p_booking_id;
+
+    RETURN;
+  END IF;
+
+  INSERT INTO public.calendar_event_links (
+    integration_id,
+    booking_id,
+    external_event_id,
+    etag,
+    fingerprint,
+    status
+  ) VALUES (
+    p_integration_id,
+    p_booking_id,
+    p_external_event_id,
+    p_etag,
+    COALESCE(p_fingerprint, ''),
+    p_status
+  )
+  ON CONFLICT (integration_id, booking_id) DO UPDATE
+  SET
+    external_event_id = EXCLUDED.external_event_id,
+    etag = EXCLUDED.etag,
+    fingerprint = EXCLUDED.fingerprint,
+    status = EXCLUDED.status,
+    last_synced_at = NOW(),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE CALENDAR SYNC
+-- Records when the integration last synced, or why it failed
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_calendar_sync(
+  p_integration_id UUID,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.lock_calendar_integration(p_integration_id);
+
+  UPDATE public.calendar_integrations
+  SET
+    last_sync_at = CASE WHEN p_error IS NULL THEN NOW() ELSE last_sync_at END,
+    last_sync_error = NULLIF(TRIM(p_error), '')
+  WHERE id = p_integration_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GET AVAILABLE SLOTS
+-- From 20240202000000_booking_approvals.sql, also hiding slots that
+-- overlap busy time imported from the organizer's calendars
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_event_id UUID,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  total_capacity INTEGER,
+  available_count INTEGER,
+  price DECIMAL(10, 2)
+) AS $$
+#variable_conflict use_column
+BEGIN
+  -- Clean up expired locks, unclaimed waitlist offers and approval
+  -- requests nobody answered first
+  PERFORM public.release_expired_locks();
+  PERFORM public.expire_pending_approvals(p_event_id);
+  PERFORM public.expire_waitlist_offers(p_event_id);
+
+  RETURN QUERY
+  SELECT
+    ts.id AS slot_id,
+    ts.start_time,
+    ts.end_time,
+    ts.total_capacity,
+    -- Subtract active locks (excluding caller's own locks)
+    GREATEST(0, ts.available_count - COALESCE(
+      (SELECT SUM(sl.quantity)
+       FROM public.slot_locks sl
+       WHERE sl.slot_id = ts.id
+         AND sl.is_active = true
+         AND sl.expires_at > NOW()
+         AND (p_session_id IS NULL OR sl.session_id != p_session_id)),
+      0
+    ))::INTEGER AS available_count,
+    ts.price
+  FROM public.time_slots ts
+  JOIN public.events e ON e.id = ts.event_id
+  WHERE ts.event_id = p_event_id
+    AND ts.status IN ('available', 'full')
+    AND ts.start_time > NOW()
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.calendar_busy_blocks bb
+      JOIN public.calendar_integrations ci ON ci.id = bb.integration_id
+      WHERE bb.user_id = e.user_id
+        AND ci.sync_enabled
+        AND ci.sync_direction IN ('import', 'both')
+        AND bb.start_time < ts.end_time
+        AND bb.end_time > ts.start_time
+    )
+  ORDER BY ts.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.lock_calendar_integration(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_calendar_export_bookings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.apply_calendar_import(UUID, JSONB, TEXT[], BOOLEAN, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.record_calendar_export(UUID, UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.complete_calendar_sync(UUID, TEXT) TO authenticated, service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.calendar_busy_blocks IS
+'Busy time imported from connected calendars; hides overlapping slots';
+
+COMMENT ON TABLE public.calendar_event_links IS
+'Calendar events that confirmed bookings were exported as';
+
+COMMENT ON COLUMN public.calendar_integrations.sync_token IS
+'Provider cursor for incremental import; NULL forces a full sync';
+
+COMMENT ON FUNCTION public.get_calendar_export_bookings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) IS
+'Bookings to export to a calendar, with what was last exported for each';
+
+COMMENT ON FUNCTION public.apply_calendar_import(UUID, JSONB, TEXT[], BOOLEAN, TEXT) IS
+'Stores imported busy blocks and the next sync token';
+
+COMMENT ON FUNCTION public.record_calendar_export(UUID, UUID, TEXT, TEXT, TEXT, TEXT) IS
+'Links a booking to the calendar event it was exported as, or forgets the link';
+
+COMMENT ON FUNCTION public.complete_calendar_sync(UUID, TEXT) IS
+'Records the outcome of a calendar sync run';
@@ -0,0 +1,232 @@
+-- supabase/migrations/20240211000000_ics_busy_feeds.sql
+-- Busy time from ICS files and subscription feeds
+--
+-- Organizers without a two-way calendar integration can upload an .ics
+-- file or subscribe to an ICS feed URL (calendar_feeds). The app parses
+-- the file (IcsImportService) and stores its events as
+-- calendar_busy_blocks, next to the blocks imported by calendar sync.
+-- URL feeds are fetched again on a schedule; each import replaces the
+-- feed's blocks.
+--
+-- get_available_slots now asks is_organizer_busy whether a slot overlaps
+-- busy time from any enabled source.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  -- NULL for uploaded files
+  source_url TEXT,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  refresh_interval_minutes INTEGER NOT NULL DEFAULT 60,
+
+  last_fetched_at TIMESTAMPTZ,
+  last_error TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT calendar_feeds_name_check CHECK (length(trim(name)) > 0),
+  CONSTRAINT calendar_feeds_url_check CHECK (source_url IS NULL OR source_url ~* '^(https?|webcal)://'),
+  CONSTRAINT calendar_feeds_refresh_check CHECK (refresh_interval_minutes >= 15)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON public.calendar_feeds(user_id);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON public.calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own calendar feeds"
+  ON public.calendar_feeds FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Busy blocks come from a calendar integration or a feed
+ALTER TABLE public.calendar_busy_blocks
+  ALTER COLUMN integration_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS feed_id UUID REFERENCES public.calendar_feeds(id) ON DELETE CASCADE,
+  ADD CONSTRAINT calendar_busy_blocks_source_check CHECK (num_nonnulls(integration_id, feed_id) = 1),
+  ADD CONSTRAINT calendar_busy_blocks_unique_feed_event UNIQUE (feed_id, external_event_id);
+
+-- =====================================================
+-- IS ORGANIZER BUSY
+-- Whether busy time from an enabled calendar integration or feed
+-- overlaps a time range
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.is_organizer_busy(
+  p_user_id UUID,
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.calendar_busy_blocks bb
+    LEFT JOIN public.calendar_integrations ci ON ci.id = bb.integration_id
+    LEFT JOIN public.calendar_feeds cf ON cf.id = bb.feed_id
+    WHERE bb.user_id = p_user_id
+      AND bb.start_time < p_end
+      AND bb.end_time > p_start
+      AND (
+        (ci.sync_enabled AND ci.sync_direction IN ('import', 'both'))
+        OR cf.is_enabled
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- REPLACE FEED BUSY BLOCKS
+-- Stores a feed import, replacing the feed's previous blocks. With an
+-- error, only records it and keeps the blocks from the last good import.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.replace_feed_busy_blocks(
+  p_feed_id UUID,
+  p_blocks JSONB,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_feed public.calendar_feeds;
+  v_inserted INTEGER;
+BEGIN
+  SELECT * INTO v_feed
+  FROM public.calendar_feeds
+  WHERE id = p_feed_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found';
+  END IF;
+
+  IF v_feed.user_id IS DISTINCT FROM auth.uid()
+    AND COALESCE(auth.role(), '') != 'service_role'
+  THEN
+    RAISE EXCEPTION 'Not authorized to update this calendar feed';
+  END IF;
+
+  IF p_error IS NOT NULL THEN
+    UPDATE public.calendar_feeds
+    SET last_error = p_error
+    WHERE id = p_feed_id;
+
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.calendar_busy_blocks
+  WHERE feed_id = p_feed_id;
+
+  INSERT INTO public.calendar_busy_blocks (
+    feed_id,
+    user_id,
+    external_event_id,
+    title,
+    start_time,
+    end_time
+  )
+  SELECT DISTINCT ON (block.external_event_id)
+    p_feed_id,
+    v_feed.user_id,
+    block.external_event_id,
+    block.title,
+    block.start_time,
+    block.end_time
+  FROM jsonb_to_recordset(COALESCE(p_blocks, '[]'::jsonb)) AS block(
+    external_event_id TEXT,
+    title TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ
+  )
+  WHERE block.external_event_id IS NOT NULL
+    AND block.end_time > block.start_time;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE public.calendar_feeds
+  SET
+    last_fetched_at = NOW(),
+    last_error = NULL
+  WHERE id = p_feed_id;
+
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GET AVAILABLE SLOTS
+-- From 20240210000000_calendar_sync.sql, checking busy time from feeds
+-- as well as calendar integrations
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_available_slots(
+  p_event_id UUID,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  slot_id UUID,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  total_capacity INTEGER,
+  available_count INTEGER,
+  price DECIMAL(10, 2)
+) AS $$
+#variable_conflict use_column
+BEGIN
+  -- Clean up expired locks, unclaimed waitlist offers and approval
+  -- requests nobody answered first
+  PERFORM public.release_expired_locks();
+  PERFORM public.expire_pending_approvals(p_event_id);
+  PERFORM public.expire_waitlist_offers(p_event_id);
+
+  RETURN QUERY
+  SELECT
+    ts.id AS slot_id,
+    ts.start_time,
+    ts.end_time,
+    ts.total_capacity,
+    -- Subtract active locks (excluding caller's own locks)
+    GREATEST(0, ts.available_count - COALESCE(
+      (SELECT SUM(sl.quantity)
+       FROM public.slot_locks sl
+       WHERE sl.slot_id = ts.id
+         AND sl.is_active = true
+         AND sl.expires_at > NOW()
+         AND (p_session_id IS NULL OR sl.session_id != p_session_id)),
+      0
+    ))::INTEGER AS available_count,
+    ts.price
+  FROM public.time_slots ts
+  JOIN public.events e ON e.id = ts.event_id
+  WHERE ts.event_id = p_event_id
+    AND ts.status IN ('available', 'full')
+    AND ts.start_time > NOW()
+    AND NOT public.is_organizer_busy(e.user_id, ts.start_time, ts.end_time)
+  ORDER BY ts.start_time;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.is_organizer_busy(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.replace_feed_busy_blocks(UUID, JSONB, TEXT) TO authenticated, service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.calendar_feeds IS
+'Uploaded ICS files and subscribed ICS feed URLs whose events block booking slots';
+
+COMMENT ON FUNCTION public.is_organizer_busy(UUID, TIMESTAMPTZ, TIMESTAMPTZ) IS
+'Whether imported busy time from an enabled calendar or feed overlaps a range';
+
+COMMENT ON FUNCTION public.replace_feed_busy_blocks(UUID, JSONB, TEXT) IS
+'Replaces a feed''s busy blocks with a new import, or records why the import failed';
@@ -0,0 +1,189 @@
+-- supabase/migrations/20240212000000_booking_feeds.sql
+-- Private ICS subscription feed of an organizer's bookings
+--
+-- Each organizer can create a secret feed token (booking_feed_tokens).
+-- Calendar apps subscribe to /api/booking-feed?token=..., which reads the
+-- organizer's bookings through get_booking_feed and renders them as
+-- iCalendar (src/lib/bookingFeed.ts). Rotating the token invalidates old
+-- subscription URLs.
+--
+-- bookings.calendar_sequence is the iCalendar SEQUENCE of the booking's
+-- event. It goes up when the booking moves or is cancelled, so calendar
+-- apps replace the copy they have instead of ignoring the change.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.booking_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Read only by the owner; written by the functions below
+ALTER TABLE public.booking_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own booking feed token"
+  ON public.booking_feed_tokens FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- CALENDAR SEQUENCE
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.bump_booking_calendar_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.slot_id IS DISTINCT FROM OLD.slot_id
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.time IS DISTINCT FROM OLD.time
+    OR (NEW.status = 'cancelled' AND OLD.status != 'cancelled')
+  THEN
+    NEW.calendar_sequence := OLD.calendar_sequence + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_booking_calendar_sequence_trigger ON public.bookings;
+CREATE TRIGGER bump_booking_calendar_sequence_trigger
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.bump_booking_calendar_sequence();
+
+-- =====================================================
+-- ROTATE / REVOKE BOOKING FEED TOKEN
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.rotate_booking_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- 244 random bits
+  v_token := replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+
+  INSERT INTO public.booking_feed_tokens (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token,
+      created_at = NOW();
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.revoke_booking_feed_token()
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.booking_feed_tokens
+  WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GET BOOKING FEED
+-- Upcoming confirmed and cancelled bookings on the token owner's events.
+-- Cancelled ones are listed so subscribers remove them.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_booking_feed(p_token TEXT)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_reference TEXT,
+  status TEXT,
+  calendar_sequence INTEGER,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  event_title TEXT,
+  location TEXT,
+  is_online BOOLEAN,
+  meeting_url TEXT,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  quantity INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM public.booking_feed_tokens
+  WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking feed not found';
+  END IF;
+
+  RETURN QUERY
+  WITH booking_times AS (
+    SELECT
+      b.*,
+      e.title AS event_title,
+      e.location AS event_location,
+      e.is_online AS event_is_online,
+      e.meeting_url AS event_meeting_url,
+      COALESCE(
+        ts.start_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+      ) AS starts_at,
+      COALESCE(
+        ts.end_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+          + make_interval(mins => e.duration)
+      ) AS ends_at
+    FROM public.bookings b
+    JOIN public.events e ON e.id = b.event_id
+    LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+    WHERE e.user_id = v_user_id
+      AND b.status IN ('confirmed', 'cancelled')
+  )
+  SELECT
+    bt.id,
+    bt.booking_reference,
+    bt.status,
+    bt.calendar_sequence,
+    bt.starts_at,
+    bt.ends_at,
+    bt.event_title,
+    bt.event_location,
+    COALESCE(bt.event_is_online, false),
+    bt.event_meeting_url,
+    TRIM(bt.first_name || ' ' || bt.last_name),
+    bt.email,
+    bt.quantity,
+    bt.created_at,
+    bt.updated_at
+  FROM booking_times bt
+  WHERE bt.ends_at > NOW()
+  ORDER BY bt.starts_at
+  LIMIT 1000;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.rotate_booking_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_booking_feed_token() TO authenticated;
+-- Calendar apps fetch the feed without signing in; the token is the secret
+GRANT EXECUTE ON FUNCTION public.get_booking_feed(TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON TABLE public.booking_feed_tokens IS
+'Secret tokens of organizers'' ICS booking feeds';
+
+COMMENT ON COLUMN public.bookings.calendar_sequence IS
+'iCalendar SEQUENCE; bumped when the booking moves or is cancelled';
+
+COMMENT ON FUNCTION public.get_booking_feed(TEXT) IS
+'Upcoming confirmed and cancelled bookings for an ICS feed token';
@@ -0,0 +1,193 @@
+-- supabase/migrations/20240213000000_email_calendar_invites.sql
+-- Calendar invitations with booking emails
+--
+-- The email worker attaches an iCalendar meeting request to confirmation
+-- and reschedule emails and a cancellation to cancellation emails (see
+-- src/lib/ical/invite.ts), so mail clients add, move and remove the
+-- booking in the attendee's calendar. The payload gains what the invite
+-- needs: the booking ID (the event's UID), its calendar_sequence, the
+-- organizer's email, and confirmed_at, since bookings declined before
+-- confirmation never had an invite to cancel.
+--
+-- Moving a confirmed booking now emails the attendee a
+-- booking_rescheduled update, one per calendar_sequence, and notifies
+-- attendees with an account.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'booking_created', 'booking_confirmed', 'booking_rescheduled', 'booking_cancelled',
+    'booking_reminder', 'event_updated', 'event_cancelled',
+    'payment_received', 'waitlist_spot_available', 'system_update',
+    'booking_approval_requested', 'booking_approved', 'booking_declined'
+  ));
+
+ALTER TABLE public.email_outbox
+  DROP CONSTRAINT IF EXISTS email_outbox_template_check;
+
+ALTER TABLE public.email_outbox
+  ADD CONSTRAINT email_outbox_template_check CHECK (template IN (
+    'booking_created', 'booking_confirmed', 'booking_rescheduled',
+    'booking_cancelled', 'booking_reminder'
+  ));
+
+-- =====================================================
+-- ENQUEUE BOOKING EMAIL (internal)
+-- Recreated to add booking_id, calendar_sequence, confirmed_at and
+-- organizer_email to the payload.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_booking_email(
+  p_booking_id UUID,
+  p_template TEXT,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking RECORD;
+  v_email_id UUID;
+BEGIN
+  SELECT
+    b.*,
+    e.title AS event_title,
+    e.location AS event_location,
+    e.is_online AS event_is_online,
+    e.meeting_url AS event_meeting_url,
+    e.timezone AS event_timezone,
+    e.duration AS event_duration,
+    TRIM(o.first_name || ' ' || o.last_name) AS organizer_name,
+    o.email AS organizer_email,
+    ts.start_time AS slot_start_time,
+    ts.end_time AS slot_end_time,
+    p.email_notifications AS attendee_email_notifications
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.events e ON e.id = b.event_id
+  LEFT JOIN public.profiles o ON o.id = e.user_id
+  LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_booking.user_id IS NOT NULL AND NOT COALESCE(v_booking.attendee_email_notifications, true) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.email_outbox (
+    booking_id,
+    template,
+    recipient_email,
+    recipient_name,
+    recipient_user_id,
+    payload,
+    dedupe_key
+  ) VALUES (
+    p_booking_id,
+    p_template,
+    v_booking.email,
+    TRIM(v_booking.first_name || ' ' || v_booking.last_name),
+    v_booking.user_id,
+    jsonb_build_object(
+      'booking_id', v_booking.id,
+      'booking_reference', v_booking.booking_reference,
+      'first_name', v_booking.first_name,
+      'last_name', v_booking.last_name,
+      'email', v_booking.email,
+      'status', v_booking.status,
+      'quantity', v_booking.quantity,
+      'event_title', v_booking.event_title,
+      'organizer_name', NULLIF(v_booking.organizer_name, ''),
+      'organizer_email', v_booking.organizer_email,
+      'location', v_booking.event_location,
+      'is_online', v_booking.event_is_online,
+      'meeting_url', v_booking.event_meeting_url,
+      'starts_at', COALESCE(
+        v_booking.slot_start_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+      ),
+      'ends_at', COALESCE(
+        v_booking.slot_end_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+          + make_interval(mins => v_booking.event_duration)
+      ),
+      'timezone', COALESCE(v_booking.timezone, v_booking.event_timezone),
+      'cancellation_reason', v_booking.cancellation_reason,
+      'calendar_sequence', v_booking.calendar_sequence,
+      'confirmed_at', v_booking.confirmed_at
+    ),
+    COALESCE(p_dedupe_key, p_template || ':' || p_booking_id)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_email_id;
+
+  RETURN v_email_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- BOOKING EMAIL TRIGGER
+-- Recreated to send booking_rescheduled when a confirmed booking moves.
+-- calendar_sequence is bumped by the BEFORE UPDATE trigger, so each move
+-- gets its own email.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.queue_booking_emails()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_created');
+    ELSIF NEW.status = 'confirmed' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_confirmed');
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_confirmed');
+    ELSIF NEW.status = 'cancelled' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_cancelled');
+    END IF;
+  ELSIF NEW.status = 'confirmed' AND (
+    NEW.slot_id IS DISTINCT FROM OLD.slot_id
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.time IS DISTINCT FROM OLD.time
+  ) THEN
+    PERFORM public.enqueue_booking_email(
+      NEW.id,
+      'booking_rescheduled',
+      'booking_rescheduled:' || NEW.id || ':' || NEW.calendar_sequence
+    );
+
+    IF NEW.user_id IS NOT NULL THEN
+      PERFORM public.create_notification(
+        NEW.user_id,
+        'booking_rescheduled',
+        'Booking rescheduled',
+        'Your booking ' || NEW.booking_reference || ' has a new time.',
+        NEW.event_id,
+        NEW.id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS queue_booking_emails_trigger ON public.bookings;
+
+CREATE TRIGGER queue_booking_emails_trigger
+  AFTER INSERT OR UPDATE OF status, slot_id, date, time ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.queue_booking_emails();
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.queue_booking_emails() IS
+'Queues confirmation, reschedule and cancellation emails as bookings change';
@@ -0,0 +1,457 @@
+-- supabase/migrations/20240214000000_booking_meetings.sql
+-- Online meeting links for bookings
+--
+-- Online events can pick a conferencing provider (events.conferencing_provider):
+-- 'static' gives every booking the event's meeting_url (a personal room),
+-- 'generated' a unique room per booking, and other names whichever
+-- provider the app registers for them (see conferencingProvider.ts).
+-- Without one, meeting_url is shared as entered, as before.
+--
+-- Meetings are tracked on the booking. A trigger marks the meeting
+-- pending when the booking is confirmed or moves, and revoking when it is
+-- cancelled; ConferencingService.processMeetings, running with the
+-- service role, claims those bookings, calls the provider and records the
+-- outcome. Failed calls stay pending and are retried on the next run.
+--
+-- The booking's meeting_url is what attendees get: reminder emails and
+-- the organizer's booking feed use it instead of the event's.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS conferencing_provider TEXT;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS meeting_url TEXT,
+  ADD COLUMN IF NOT EXISTS meeting_provider TEXT,
+  ADD COLUMN IF NOT EXISTS meeting_external_id TEXT,
+  ADD COLUMN IF NOT EXISTS meeting_status TEXT,
+  ADD COLUMN IF NOT EXISTS meeting_error TEXT,
+  ADD COLUMN IF NOT EXISTS meeting_locked_at TIMESTAMPTZ;
+
+ALTER TABLE public.bookings
+  DROP CONSTRAINT IF EXISTS bookings_meeting_status_check;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_meeting_status_check
+  CHECK (meeting_status IN ('pending', 'active', 'revoking', 'revoked'));
+
+CREATE INDEX IF NOT EXISTS idx_bookings_meeting_due
+  ON public.bookings(updated_at)
+  WHERE meeting_status IN ('pending', 'revoking');
+
+-- =====================================================
+-- TRACK BOOKING MEETING
+-- Confirmed bookings of events with a provider need a meeting; moved ones
+-- need it regenerated; cancelled ones need it revoked. The link is hidden
+-- as soon as the booking moves or is cancelled, so reschedule emails and
+-- invites don't carry a link for the old time.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.track_booking_meeting()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_provider TEXT;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status != 'cancelled' AND NEW.meeting_status IN ('pending', 'active') THEN
+      NEW.meeting_url := NULL;
+      -- Nothing to revoke when the provider never created the meeting and
+      -- isn't creating it now
+      NEW.meeting_status := CASE
+        WHEN NEW.meeting_external_id IS NULL AND NEW.meeting_locked_at IS NULL THEN 'revoked'
+        ELSE 'revoking'
+      END;
+      NEW.meeting_error := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status != 'confirmed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR OLD.status != 'confirmed' THEN
+    SELECT conferencing_provider INTO v_provider
+    FROM public.events
+    WHERE id = NEW.event_id;
+
+    IF v_provider IS NOT NULL AND COALESCE(NEW.meeting_status, 'revoked') = 'revoked' THEN
+      NEW.meeting_provider := v_provider;
+      NEW.meeting_status := 'pending';
+      NEW.meeting_error := NULL;
+    END IF;
+  ELSIF NEW.meeting_status = 'active' AND (
+    NEW.slot_id IS DISTINCT FROM OLD.slot_id
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.time IS DISTINCT FROM OLD.time
+  ) THEN
+    NEW.meeting_url := NULL;
+    NEW.meeting_status := 'pending';
+    NEW.meeting_error := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS track_booking_meeting_trigger ON public.bookings;
+CREATE TRIGGER track_booking_meeting_trigger
+  BEFORE INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.track_booking_meeting();
+
+-- =====================================================
+-- CLAIM BOOKING MEETINGS
+-- Up to p_limit bookings whose meeting needs creating, regenerating or
+-- revoking, optionally only one booking. Claimed bookings are leased for
+-- p_lease_minutes so runs don't call the provider twice.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.claim_booking_meetings(
+  p_limit INTEGER DEFAULT 20,
+  p_booking_id UUID DEFAULT NULL,
+  p_lease_minutes INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_reference TEXT,
+  meeting_status TEXT,
+  meeting_provider TEXT,
+  meeting_url TEXT,
+  meeting_external_id TEXT,
+  calendar_sequence INTEGER,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  event_title TEXT,
+  room_url TEXT,
+  host_email TEXT,
+  attendee_email TEXT
+) AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.bookings b
+    SET meeting_locked_at = NOW()
+    WHERE b.id IN (
+      SELECT id
+      FROM public.bookings
+      WHERE meeting_status IN ('pending', 'revoking')
+        AND (p_booking_id IS NULL OR id = p_booking_id)
+        AND (meeting_locked_at IS NULL
+          OR meeting_locked_at < NOW() - make_interval(mins => p_lease_minutes))
+      ORDER BY updated_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING b.*
+  )
+  SELECT
+    c.id,
+    c.booking_reference,
+    c.meeting_status,
+    c.meeting_provider,
+    c.meeting_url,
+    c.meeting_external_id,
+    c.calendar_sequence,
+    COALESCE(
+      ts.start_time,
+      (c.date + c.time) AT TIME ZONE COALESCE(c.timezone, e.timezone)
+    ),
+    COALESCE(
+      ts.end_time,
+      (c.date + c.time) AT TIME ZONE COALESCE(c.timezone, e.timezone)
+        + make_interval(mins => e.duration)
+    ),
+    e.title,
+    e.meeting_url,
+    o.email,
+    c.email
+  FROM claimed c
+  JOIN public.events e ON e.id = c.event_id
+  LEFT JOIN public.profiles o ON o.id = e.user_id
+  LEFT JOIN public.time_slots ts ON ts.id = c.slot_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE BOOKING MEETING
+-- Records what the provider did with a claimed booking. p_error keeps the
+-- meeting pending or revoking for the next run. A meeting created for a
+-- booking that moved again (its calendar_sequence changed) or was
+-- cancelled meanwhile is stored but stays due, so the next run updates
+-- or revokes it.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_booking_meeting(
+  p_booking_id UUID,
+  p_calendar_sequence INTEGER,
+  p_meeting_url TEXT DEFAULT NULL,
+  p_external_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_booking RECORD;
+BEGIN
+  SELECT * INTO v_booking
+  FROM public.bookings
+  WHERE id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF p_error IS NOT NULL THEN
+    UPDATE public.bookings
+    SET
+      meeting_error = p_error,
+      meeting_locked_at = NULL
+    WHERE id = p_booking_id;
+
+    RETURN v_booking.meeting_status;
+  END IF;
+
+  IF v_booking.meeting_status IN ('revoking', 'revoked') THEN
+    IF p_meeting_url IS NOT NULL THEN
+      -- Created before the booking was cancelled: revoke it next run
+      UPDATE public.bookings
+      SET
+        meeting_status = 'revoking',
+        meeting_external_id = COALESCE(p_external_id, meeting_external_id),
+        meeting_locked_at = NULL
+      WHERE id = p_booking_id;
+      RETURN 'revoking';
+    END IF;
+
+    UPDATE public.bookings
+    SET
+      meeting_status = 'revoked',
+      meeting_url = NULL,
+      meeting_external_id = NULL,
+      meeting_error = NULL,
+      meeting_locked_at = NULL
+    WHERE id = p_booking_id;
+    RETURN 'revoked';
+  END IF;
+
+  IF v_booking.meeting_status = 'pending' AND p_meeting_url IS NOT NULL THEN
+    -- A booking that moved meanwhile keeps the meeting for updating but
+    -- not the link for the old time
+    UPDATE public.bookings
+    SET
+      meeting_url = CASE
+        WHEN calendar_sequence = p_calendar_sequence THEN p_meeting_url
+        ELSE meeting_url
+      END,
+      meeting_external_id = p_external_id,
+      meeting_status = CASE
+        WHEN calendar_sequence = p_calendar_sequence THEN 'active'
+        ELSE 'pending'
+      END,
+      meeting_error = NULL,
+      meeting_locked_at = NULL
+    WHERE id = p_booking_id
+    RETURNING meeting_status INTO v_booking.meeting_status;
+  END IF;
+
+  RETURN v_booking.meeting_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ENQUEUE BOOKING EMAIL (internal)
+-- Recreated so emails carry the booking's own meeting link when it has one
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_booking_email(
+  p_booking_id UUID,
+  p_template TEXT,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking RECORD;
+  v_email_id UUID;
+BEGIN
+  SELECT
+    b.*,
+    e.title AS event_title,
+    e.location AS event_location,
+    e.is_online AS event_is_online,
+    e.meeting_url AS event_meeting_url,
+    e.timezone AS event_timezone,
+    e.duration AS event_duration,
+    TRIM(o.first_name || ' ' || o.last_name) AS organizer_name,
+    o.email AS organizer_email,
+    ts.start_time AS slot_start_time,
+    ts.end_time AS slot_end_time,
+    p.email_notifications AS attendee_email_notifications
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.events e ON e.id = b.event_id
+  LEFT JOIN public.profiles o ON o.id = e.user_id
+  LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_booking.user_id IS NOT NULL AND NOT COALESCE(v_booking.attendee_email_notifications, true) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.email_outbox (
+    booking_id,
+    template,
+    recipient_email,
+    recipient_name,
+    recipient_user_id,
+    payload,
+    dedupe_key
+  ) VALUES (
+    p_booking_id,
+    p_template,
+    v_booking.email,
+    TRIM(v_booking.first_name || ' ' || v_booking.last_name),
+    v_booking.user_id,
+    jsonb_build_object(
+      'booking_id', v_booking.id,
+      'booking_reference', v_booking.booking_reference,
+      'first_name', v_booking.first_name,
+      'last_name', v_booking.last_name,
+      'email', v_booking.email,
+      'status', v_booking.status,
+      'quantity', v_booking.quantity,
+      'event_title', v_booking.event_title,
+      'organizer_name', NULLIF(v_booking.organizer_name, ''),
+      'organizer_email', v_booking.organizer_email,
+      'location', v_booking.event_location,
+      'is_online', v_booking.event_is_online,
+      'meeting_url', COALESCE(v_booking.meeting_url, v_booking.event_meeting_url),
+      'starts_at', COALESCE(
+        v_booking.slot_start_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+      ),
+      'ends_at', COALESCE(
+        v_booking.slot_end_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+          + make_interval(mins => v_booking.event_duration)
+      ),
+      'timezone', COALESCE(v_booking.timezone, v_booking.event_timezone),
+      'cancellation_reason', v_booking.cancellation_reason,
+      'calendar_sequence', v_booking.calendar_sequence,
+      'confirmed_at', v_booking.confirmed_at
+    ),
+    COALESCE(p_dedupe_key, p_template || ':' || p_booking_id)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_email_id;
+
+  RETURN v_email_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GET BOOKING FEED
+-- Recreated to list each booking's own meeting link
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_booking_feed(p_token TEXT)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_reference TEXT,
+  status TEXT,
+  calendar_sequence INTEGER,
+  start_time TIMESTAMPTZ,
+  end_time TIMESTAMPTZ,
+  event_title TEXT,
+  location TEXT,
+  is_online BOOLEAN,
+  meeting_url TEXT,
+  attendee_name TEXT,
+  attendee_email TEXT,
+  quantity INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM public.booking_feed_tokens
+  WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking feed not found';
+  END IF;
+
+  RETURN QUERY
+  WITH booking_times AS (
+    SELECT
+      b.*,
+      e.title AS event_title,
+      e.location AS event_location,
+      e.is_online AS event_is_online,
+      COALESCE(b.meeting_url, e.meeting_url) AS join_url,
+      COALESCE(
+        ts.start_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+      ) AS starts_at,
+      COALESCE(
+        ts.end_time,
+        (b.date + b.time) AT TIME ZONE COALESCE(b.timezone, e.timezone)
+          + make_interval(mins => e.duration)
+      ) AS ends_at
+    FROM public.bookings b
+    JOIN public.events e ON e.id = b.event_id
+    LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+    WHERE e.user_id = v_user_id
+      AND b.status IN ('confirmed', 'cancelled')
+  )
+  SELECT
+    bt.id,
+    bt.booking_reference,
+    bt.status,
+    bt.calendar_sequence,
+    bt.starts_at,
+    bt.ends_at,
+    bt.event_title,
+    bt.event_location,
+    COALESCE(bt.event_is_online, false),
+    bt.join_url,
+    TRIM(bt.first_name || ' ' || bt.last_name),
+    bt.email,
+    bt.quantity,
+    bt.created_at,
+    bt.updated_at
+  FROM booking_times bt
+  WHERE bt.ends_at > NOW()
+  ORDER BY bt.starts_at
+  LIMIT 1000;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.claim_booking_meetings(INTEGER, UUID, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.complete_booking_meeting(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_booking_meetings(INTEGER, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_booking_meeting(UUID, INTEGER, TEXT, TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.events.conferencing_provider IS
+'Provider of bookings'' meeting links: static, generated or a registered provider; NULL shares meeting_url as entered';
+
+COMMENT ON COLUMN public.bookings.meeting_status IS
+'pending and revoking meetings are due for ConferencingService.processMeetings';
+
+COMMENT ON FUNCTION public.claim_booking_meetings(INTEGER, UUID, INTEGER) IS
+'Claims bookings whose meeting link needs creating, regenerating or revoking';
+
+COMMENT ON FUNCTION public.complete_booking_meeting(UUID, INTEGER, TEXT, TEXT, TEXT) IS
+'Records a provider call for a claimed booking meeting';
@@ -0,0 +1,376 @@
+-- supabase/migrations/20240215000000_event_sessions.sql
+-- Multi-session events
+--
+-- Conferences and workshop series list their sessions in event_sessions
+-- (the agenda), each with its own time, capacity, location and speakers.
+-- Attendees register for one or more sessions at once with
+-- register_for_sessions: one booking per session, linked through
+-- bookings.session_id, all or nothing.
+--
+-- A session's capacity is its max_attendees, or the event's when unset.
+-- current_attendees is kept in step with the session's pending and
+-- confirmed bookings by a trigger, so the public agenda can show the
+-- spots left without reading bookings.
+--
+-- Booking emails of session bookings use the session's title, time and
+-- location.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_bookings_session_email
+  ON public.bookings(session_id, lower(email))
+  WHERE session_id IS NOT NULL AND status IN ('pending', 'confirmed');
+
+-- =====================================================
+-- SESSION ATTENDEES
+-- Recounts the seats taken in the sessions a booking change touches.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.sync_session_attendees()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.event_sessions s
+  SET current_attendees = (
+    SELECT COALESCE(SUM(b.quantity), 0)
+    FROM public.bookings b
+    WHERE b.session_id = s.id
+      AND b.status IN ('pending', 'confirmed')
+  )
+  WHERE s.id IN (
+    CASE WHEN TG_OP != 'INSERT' THEN OLD.session_id END,
+    CASE WHEN TG_OP != 'DELETE' THEN NEW.session_id END
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_session_attendees_trigger ON public.bookings;
+
+CREATE TRIGGER sync_session_attendees_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF status, session_id, quantity ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.sync_session_attendees();
+
+-- Sessions booked before the trigger existed
+UPDATE public.event_sessions s
+SET current_attendees = (
+  SELECT COALESCE(SUM(b.quantity), 0)
+  FROM public.bookings b
+  WHERE b.session_id = s.id
+    AND b.status IN ('pending', 'confirmed')
+);
+
+-- =====================================================
+-- REGISTER FOR SESSIONS
+-- Books one seat in each of the given sessions of an active event.
+-- Sessions are locked in a fixed order, so concurrent registrations
+-- can't both take a session's last seat or deadlock each other. Fails
+-- without booking anything when a session is full, already started,
+-- cancelled, already booked by this email, or overlaps another chosen
+-- session.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.register_for_sessions(
+  p_event_id UUID,
+  p_session_ids UUID[],
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_timezone TEXT DEFAULT NULL,
+  p_custom_responses JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  booking_id UUID,
+  booking_reference TEXT,
+  session_id UUID,
+  status TEXT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_event RECORD;
+  v_session RECORD;
+  v_overlap RECORD;
+  v_session_ids UUID[];
+  v_timezone TEXT;
+  v_custom_responses JSONB;
+  v_booking RECORD;
+BEGIN
+  SELECT id, user_id, title, timezone, max_attendees, requires_approval, custom_fields
+  INTO v_event
+  FROM public.events
+  WHERE id = p_event_id
+    AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found or not open for registration';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT id), '{}') INTO v_session_ids
+  FROM unnest(p_session_ids) AS id;
+
+  IF cardinality(v_session_ids) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one session';
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM public.event_sessions
+    WHERE id = ANY(v_session_ids)
+      AND event_id = p_event_id
+  ) != cardinality(v_session_ids) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  SELECT a.title AS first_title, b.title AS second_title INTO v_overlap
+  FROM public.event_sessions a
+  JOIN public.event_sessions b
+    ON a.id < b.id
+   AND a.start_time < b.end_time
+   AND b.start_time < a.end_time
+  WHERE a.id = ANY(v_session_ids)
+    AND b.id = ANY(v_session_ids)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Sessions "%" and "%" overlap', v_overlap.first_title, v_overlap.second_title;
+  END IF;
+
+  v_custom_responses := public.validate_custom_responses(v_event.custom_fields, p_custom_responses);
+
+  IF p_timezone IS NOT NULL AND public.is_valid_timezone(p_timezone) THEN
+    v_timezone := p_timezone;
+  ELSE
+    v_timezone := v_event.timezone;
+  END IF;
+
+  FOR v_session IN
+    SELECT *
+    FROM public.event_sessions
+    WHERE id = ANY(v_session_ids)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    IF v_session.status != 'scheduled' OR v_session.start_time <= NOW() THEN
+      RAISE EXCEPTION 'Session "%" is no longer open for registration', v_session.title;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM public.bookings b
+      WHERE b.session_id = v_session.id
+        AND lower(b.email) = lower(p_email)
+        AND b.status IN ('pending', 'confirmed')
+    ) THEN
+      RAISE EXCEPTION 'You are already registered for "%"', v_session.title;
+    END IF;
+
+    IF COALESCE(v_session.max_attendees, v_event.max_attendees) IS NOT NULL
+      AND v_session.current_attendees >= COALESCE(v_session.max_attendees, v_event.max_attendees) THEN
+      RAISE EXCEPTION 'Session "%" is full', v_session.title;
+    END IF;
+  END LOOP;
+
+  FOR v_session IN
+    SELECT *
+    FROM public.event_sessions
+    WHERE id = ANY(v_session_ids)
+    ORDER BY start_time
+  LOOP
+    INSERT INTO public.bookings (
+      event_id,
+      session_id,
+      user_id,
+      first_name,
+      last_name,
+      email,
+      phone,
+      date,
+      time,
+      timezone,
+      quantity,
+      status,
+      notes,
+      custom_responses,
+      confirmed_at,
+      approval_expires_at
+    ) VALUES (
+      p_event_id,
+      v_session.id,
+      auth.uid(),
+      p_first_name,
+      p_last_name,
+      p_email,
+      p_phone,
+      (v_session.start_time AT TIME ZONE v_timezone)::DATE,
+      (v_session.start_time AT TIME ZONE v_timezone)::TIME,
+      v_timezone,
+      1,
+      CASE WHEN v_event.requires_approval THEN 'pending' ELSE 'confirmed' END,
+      p_notes,
+      v_custom_responses,
+      CASE WHEN v_event.requires_approval THEN NULL ELSE NOW() END,
+      CASE
+        WHEN v_event.requires_approval THEN LEAST(NOW() + INTERVAL '48 hours', v_session.start_time)
+        ELSE NULL
+      END
+    )
+    RETURNING bookings.id, bookings.booking_reference, bookings.status INTO v_booking;
+
+    INSERT INTO public.audit_log (
+      action,
+      entity_type,
+      entity_id,
+      new_data
+    ) VALUES (
+      'create',
+      'booking',
+      v_booking.id,
+      jsonb_build_object(
+        'session_id', v_session.id,
+        'email', p_email,
+        'timezone', v_timezone,
+        'requires_approval', v_event.requires_approval
+      )
+    );
+
+    IF v_event.requires_approval THEN
+      INSERT INTO public.notifications (
+        user_id, type, title, message, event_id, booking_id, data
+      ) VALUES (
+        v_event.user_id,
+        'booking_approval_requested',
+        'Booking Request',
+        format(
+          '%s %s requested a spot in "%s" of "%s".',
+          p_first_name, p_last_name, COALESCE(v_session.title, 'a session'), v_event.title
+        ),
+        v_event.id,
+        v_booking.id,
+        jsonb_build_object('session_id', v_session.id, 'quantity', 1)
+      );
+    END IF;
+
+    booking_id := v_booking.id;
+    booking_reference := v_booking.booking_reference;
+    session_id := v_session.id;
+    status := v_booking.status;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ENQUEUE BOOKING EMAIL (internal)
+-- Recreated to describe session bookings by their session: its title
+-- after the event's, its time, and its location and meeting link.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_booking_email(
+  p_booking_id UUID,
+  p_template TEXT,
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking RECORD;
+  v_email_id UUID;
+BEGIN
+  SELECT
+    b.*,
+    e.title || COALESCE(': ' || s.title, '') AS event_title,
+    COALESCE(s.location, e.location) AS event_location,
+    e.is_online AS event_is_online,
+    COALESCE(s.meeting_url, e.meeting_url) AS event_meeting_url,
+    e.timezone AS event_timezone,
+    e.duration AS event_duration,
+    TRIM(o.first_name || ' ' || o.last_name) AS organizer_name,
+    o.email AS organizer_email,
+    COALESCE(ts.start_time, s.start_time) AS slot_start_time,
+    COALESCE(ts.end_time, s.end_time) AS slot_end_time,
+    p.email_notifications AS attendee_email_notifications
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.events e ON e.id = b.event_id
+  LEFT JOIN public.event_sessions s ON s.id = b.session_id
+  LEFT JOIN public.profiles o ON o.id = e.user_id
+  LEFT JOIN public.time_slots ts ON ts.id = b.slot_id
+  LEFT JOIN public.profiles p ON p.id = b.user_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_booking.user_id IS NOT NULL AND NOT COALESCE(v_booking.attendee_email_notifications, true) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.email_outbox (
+    booking_id,
+    template,
+    recipient_email,
+    recipient_name,
+    recipient_user_id,
+    payload,
+    dedupe_key
+  ) VALUES (
+    p_booking_id,
+    p_template,
+    v_booking.email,
+    TRIM(v_booking.first_name || ' ' || v_booking.last_name),
+    v_booking.user_id,
+    jsonb_build_object(
+      'booking_id', v_booking.id,
+      'booking_reference', v_booking.booking_reference,
+      'first_name', v_booking.first_name,
+      'last_name', v_booking.last_name,
+      'email', v_booking.email,
+      'status', v_booking.status,
+      'quantity', v_booking.quantity,
+      'event_title', v_booking.event_title,
+      'organizer_name', NULLIF(v_booking.organizer_name, ''),
+      'organizer_email', v_booking.organizer_email,
+      'location', v_booking.event_location,
+      'is_online', v_booking.event_is_online,
+      'meeting_url', COALESCE(v_booking.meeting_url, v_booking.event_meeting_url),
+      'starts_at', COALESCE(
+        v_booking.slot_start_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+      ),
+      'ends_at', COALESCE(
+        v_booking.slot_end_time,
+        (v_booking.date + v_booking.time) AT TIME ZONE COALESCE(v_booking.timezone, v_booking.event_timezone)
+          + make_interval(mins => v_booking.event_duration)
+      ),
+      'timezone', COALESCE(v_booking.timezone, v_booking.event_timezone),
+      'cancellation_reason', v_booking.cancellation_reason,
+      'calendar_sequence', v_booking.calendar_sequence,
+      'confirmed_at', v_booking.confirmed_at
+    ),
+    COALESCE(p_dedupe_key, p_template || ':' || p_booking_id)
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_email_id;
+
+  RETURN v_email_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.sync_session_attendees() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.register_for_sessions(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) TO anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.event_sessions.current_attendees IS
+'Seats taken by pending and confirmed bookings; maintained by sync_session_attendees';
+
+COMMENT ON COLUMN public.event_sessions.speakers IS
+'Speakers shown on the agenda: [{ "name", "title", "bio" }]';
+
+COMMENT ON FUNCTION public.register_for_sessions(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) IS
+'Books one seat in each chosen session of an event, all or nothing, within each session''s capacity';
@@ -0,0 +1,189 @@
+-- supabase/migrations/20240216000000_payment_settlement.sql
+-- Only the service role settles payments and refunds
+--
+-- confirm_slot_payment and confirm_refund let any caller settle a payment
+-- or refund whose provider is 'fake', and payments.provider is whatever
+-- the client passed to start_slot_payment, so a paid slot could be booked
+-- without paying. Outside development, outcomes now have to come from the
+-- payment provider's webhook handler running with the service role.
+--
+-- The in-browser fake provider still settles for local development and
+-- demos when the database setting app.fake_payments is on:
+--   ALTER DATABASE postgres SET app.fake_payments = 'on';
+
+-- =====================================================
+-- FAKE PAYMENTS FLAG
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.fake_payments_enabled()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_setting('app.fake_payments', true), '') = 'on';
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- CONFIRM SLOT PAYMENT
+-- From 20240209000000_sms_notifications.sql; client settlement of fake
+-- payments needs app.fake_payments
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_slot_payment(
+  p_payment_id UUID,
+  p_status TEXT,
+  p_provider_payment_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_payment RECORD;
+  v_lock_validation RECORD;
+  v_booking_id UUID;
+BEGIN
+  IF p_status NOT IN ('paid', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  -- Real providers report from their webhook handler with the service
+  -- role; the fake provider settles from the browser in development only
+  IF COALESCE(auth.role(), '') != 'service_role'
+     AND NOT (v_payment.provider = 'fake' AND public.fake_payments_enabled()) THEN
+    RAISE EXCEPTION 'Payment outcomes must come from the payment provider';
+  END IF;
+
+  IF v_payment.status = p_status THEN
+    RETURN v_payment.booking_id;
+  END IF;
+
+  IF v_payment.status != 'pending' THEN
+    RAISE EXCEPTION 'Payment already settled as %', v_payment.status;
+  END IF;
+
+  IF p_status = 'failed' THEN
+    UPDATE public.payments
+    SET
+      status = 'failed',
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = COALESCE(NULLIF(TRIM(p_failure_reason), ''), 'Payment failed'),
+      settled_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_lock_validation
+  FROM public.verify_lock(v_payment.lock_id);
+
+  IF NOT COALESCE(v_lock_validation.is_valid, false) THEN
+    UPDATE public.payments
+    SET
+      status = 'paid',
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = 'Reservation expired before payment was confirmed',
+      settled_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN NULL;
+  END IF;
+
+  v_booking_id := public.book_locked_slot(
+    v_payment.lock_id,
+    v_payment.booking_details->>'first_name',
+    v_payment.booking_details->>'last_name',
+    v_payment.booking_details->>'email',
+    v_payment.booking_details->>'phone',
+    v_payment.booking_details->>'notes',
+    (v_payment.booking_details->>'quantity')::INTEGER,
+    v_payment.booking_details->>'timezone',
+    v_payment.booking_details->'custom_responses',
+    p_payment_id,
+    COALESCE((v_payment.booking_details->>'sms_opt_in')::BOOLEAN, false)
+  );
+
+  UPDATE public.payments
+  SET
+    status = 'paid',
+    booking_id = v_booking_id,
+    provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  RETURN v_booking_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- CONFIRM REFUND
+-- From 20240205000000_booking_refunds.sql, with the same rule as
+-- confirm_slot_payment
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_refund(
+  p_refund_id UUID,
+  p_status TEXT,
+  p_provider_refund_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_refund RECORD;
+BEGIN
+  IF p_status NOT IN ('succeeded', 'failed') THEN
+    RAISE EXCEPTION 'Invalid refund status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_refund
+  FROM public.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF COALESCE(auth.role(), '') != 'service_role'
+     AND NOT (v_refund.provider = 'fake' AND public.fake_payments_enabled()) THEN
+    RAISE EXCEPTION 'Refund outcomes must come from the payment provider';
+  END IF;
+
+  IF v_refund.status = 'succeeded' THEN
+    IF p_status = 'succeeded' THEN
+      RETURN TRUE;
+    END IF;
+    RAISE EXCEPTION 'Refund already succeeded';
+  END IF;
+
+  UPDATE public.refunds
+  SET
+    status = p_status,
+    provider_refund_id = COALESCE(p_provider_refund_id, provider_refund_id),
+    failure_reason = CASE
+      WHEN p_status = 'failed' THEN COALESCE(NULLIF(TRIM(p_failure_reason), ''), 'Refund failed')
+      ELSE NULL
+    END,
+    settled_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_refund_id;
+
+  IF p_status = 'succeeded' AND v_refund.booking_id IS NOT NULL THEN
+    UPDATE public.bookings
+    SET payment_status = 'refunded'
+    WHERE id = v_refund.booking_id;
+  END IF;
+
+  RETURN p_status = 'succeeded';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.fake_payments_enabled() IS
+'Whether app.fake_payments lets the in-browser fake provider settle payments and refunds (development only)';
@@ -0,0 +1,72 @@
+-- supabase/migrations/20240217000000_revoke_internal_functions.sql
+-- Lock down internal and worker functions
+--
+-- Earlier migrations only revoked EXECUTE on these from PUBLIC. Supabase's
+-- default privileges also grant EXECUTE on every new public-schema
+-- function to anon and authenticated directly, so those grants survived
+-- and anyone could, for example, cancel pending bookings through
+-- resolve_pending_booking, book a paid slot through book_locked_slot, or
+-- read attendee contact details from the outbox claims.
+--
+-- New internal functions should revoke from all three roles.
+
+-- =====================================================
+-- INTERNAL FUNCTIONS
+-- Called only from other SECURITY DEFINER functions
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.resolve_pending_booking(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.book_locked_slot(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_booking_refund(UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_email(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.schedule_booking_reminders(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_booking_sms(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_calendar_integration(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_organizer_busy(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_waitlist(UUID, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- TRIGGER FUNCTIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.queue_booking_emails() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reschedule_booking_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reschedule_event_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_booking_sms() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.bump_booking_calendar_sequence() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.track_booking_meeting() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_session_attendees() FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- WORKER FUNCTIONS
+-- Run by scheduled jobs with the service role
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_email_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_due_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_sms_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_booking_meetings(INTEGER, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_booking_meeting(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_email_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.enqueue_due_reminders(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_sms_delivery(UUID, BOOLEAN, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_booking_meetings(INTEGER, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_booking_meeting(UUID, INTEGER, TEXT, TEXT, TEXT) TO service_role;
+
+-- =====================================================
+-- ORGANIZER FUNCTIONS
+-- Signed-in callers only; each checks ownership itself
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.approve_booking(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.decline_booking(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.refund_unbooked_payment(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.mark_all_notifications_read(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.rotate_booking_feed_token() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_booking_feed_token() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_calendar_export_bookings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.apply_calendar_import(UUID, JSONB, TEXT[], BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_calendar_export(UUID, UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complete_calendar_sync(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.replace_feed_busy_blocks(UUID, JSONB, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,153 @@
+-- supabase/migrations/20240218000000_reschedule_same_price.sql
+-- Rescheduling keeps the booking's payment as it is, so a free booking
+-- could be moved into a paid slot without paying, and a paid booking into
+-- a cheaper slot without the difference being refunded. reschedule_booking
+-- now only moves bookings between slots with the same price and currency;
+-- guests who want a differently priced time cancel and book again.
+
+-- =====================================================
+-- RESCHEDULE BOOKING
+-- From 20240201000000_reschedule_booking.sql, rejecting price changes
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.reschedule_booking(
+  p_reference TEXT,
+  p_email TEXT,
+  p_new_slot_id UUID,
+  p_session_id TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+#variable_conflict use_column
+DECLARE
+  v_booking RECORD;
+  v_event RECORD;
+  v_old_slot RECORD;
+  v_new_slot RECORD;
+  v_lock_id UUID;
+  v_timezone TEXT;
+BEGIN
+  -- Find booking
+  SELECT * INTO v_booking
+  FROM public.bookings
+  WHERE booking_reference = UPPER(TRIM(p_reference))
+    AND LOWER(email) = LOWER(TRIM(p_email))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking cannot be rescheduled';
+  END IF;
+
+  IF v_booking.slot_id IS NULL THEN
+    RAISE EXCEPTION 'Only slot bookings can be rescheduled';
+  END IF;
+
+  IF v_booking.slot_id = p_new_slot_id THEN
+    RAISE EXCEPTION 'Booking is already in this slot';
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = v_booking.event_id;
+
+  -- Lock both slots in a fixed order so concurrent reschedules between
+  -- the same two slots cannot deadlock
+  PERFORM 1
+  FROM public.time_slots
+  WHERE id IN (v_booking.slot_id, p_new_slot_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_old_slot FROM public.time_slots WHERE id = v_booking.slot_id;
+  SELECT * INTO v_new_slot FROM public.time_slots WHERE id = p_new_slot_id;
+
+  IF v_new_slot.id IS NULL OR v_new_slot.event_id != v_booking.event_id THEN
+    RAISE EXCEPTION 'Slot not found';
+  END IF;
+
+  -- The booking keeps its payment, so it can't move into a slot that
+  -- costs more (unpaid) or less (unrefunded)
+  IF COALESCE(v_new_slot.price, 0) != COALESCE(v_old_slot.price, 0)
+     OR (COALESCE(v_new_slot.price, 0) > 0
+         AND COALESCE(v_new_slot.currency, 'USD') != COALESCE(v_old_slot.currency, 'USD')) THEN
+    RAISE EXCEPTION 'Bookings can only move to a slot with the same price';
+  END IF;
+
+  -- Moving off a slot is a cancellation of it, so the same policy applies
+  IF NOT COALESCE(v_event.allow_cancellation, true) THEN
+    RAISE EXCEPTION 'Rescheduling not allowed for this event';
+  END IF;
+
+  IF NOW() > v_old_slot.start_time - make_interval(hours => COALESCE(v_event.cancellation_deadline, 0)) THEN
+    RAISE EXCEPTION 'Rescheduling deadline has passed';
+  END IF;
+
+  -- Hold the new seats; raises if the slot is full, past or unavailable
+  v_lock_id := public.create_slot_lock(
+    p_new_slot_id,
+    v_booking.user_id,
+    COALESCE(p_session_id, 'reschedule_' || v_booking.id::TEXT),
+    v_booking.quantity,
+    1
+  );
+
+  -- Move the seats
+  UPDATE public.time_slots
+  SET
+    booked_count = GREATEST(0, booked_count - v_booking.quantity),
+    status = CASE WHEN status = 'full' THEN 'available' ELSE status END
+  WHERE id = v_old_slot.id;
+
+  UPDATE public.time_slots
+  SET
+    booked_count = booked_count + v_booking.quantity,
+    status = CASE
+      WHEN booked_count + v_booking.quantity >= total_capacity THEN 'full'
+      ELSE 'available'
+    END
+  WHERE id = v_new_slot.id;
+
+  UPDATE public.slot_locks
+  SET
+    is_active = false,
+    released_at = NOW()
+  WHERE id = v_lock_id;
+
+  v_timezone := COALESCE(v_booking.timezone, v_event.timezone);
+
+  UPDATE public.bookings
+  SET
+    slot_id = v_new_slot.id,
+    date = (v_new_slot.start_time AT TIME ZONE v_timezone)::DATE,
+    time = (v_new_slot.start_time AT TIME ZONE v_timezone)::TIME,
+    updated_at = NOW()
+  WHERE id = v_booking.id;
+
+  INSERT INTO public.audit_log (
+    action,
+    entity_type,
+    entity_id,
+    old_data,
+    new_data
+  ) VALUES (
+    'reschedule',
+    'booking',
+    v_booking.id,
+    jsonb_build_object(
+      'slot_id', v_old_slot.id,
+      'start_time', v_old_slot.start_time
+    ),
+    jsonb_build_object(
+      'slot_id', v_new_slot.id,
+      'start_time', v_new_slot.start_time,
+      'quantity', v_booking.quantity,
+      'lock_id', v_lock_id
+    )
+  );
+
+  -- The freed seats go to the old slot's waitlist
+  PERFORM public.process_waitlist(v_booking.event_id, NULL, v_old_slot.id);
+
+  RETURN v_booking.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,339 @@
+-- supabase/migrations/20240219000000_attendee_notifications.sql
+-- In-app notifications for attendees with an account
+--
+-- complete_email_delivery and complete_sms_delivery mark the attendee's
+-- notification for a booking as delivered by email or text, matching it
+-- on the outbox template. Only reschedules, approvals and declines ever
+-- created such a notification, so most write-backs updated nothing.
+--
+-- Booking changes now notify the attendee alongside the email:
+--   - booking_created: a request is waiting for approval
+--   - booking_confirmed: booked without approval (approvals keep their
+--     booking_approved notification)
+--   - booking_cancelled: cancelled by the guest or organizer (declines and
+--     expiries keep their booking_declined notification)
+--   - booking_reminder: each reminder that comes due
+-- The write-backs treat booking_approved as the notification for a
+-- booking_confirmed email and booking_declined as the one for a
+-- booking_cancelled email.
+
+-- =====================================================
+-- NOTIFICATION TYPES FOR TEMPLATE (internal)
+-- Notification types an outbox template reports delivery on
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.notification_types_for_template(p_template TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_template
+    WHEN 'booking_confirmed' THEN ARRAY['booking_confirmed', 'booking_approved']
+    WHEN 'booking_cancelled' THEN ARRAY['booking_cancelled', 'booking_declined']
+    ELSE ARRAY[p_template]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- BOOKING EMAIL TRIGGER
+-- From 20240213000000_email_calendar_invites.sql, also notifying the
+-- attendee of new, confirmed and cancelled bookings
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.queue_booking_emails()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event_title TEXT;
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    SELECT title INTO v_event_title FROM public.events WHERE id = NEW.event_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'pending' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_created');
+
+      IF NEW.user_id IS NOT NULL THEN
+        PERFORM public.create_notification(
+          NEW.user_id,
+          'booking_created',
+          'Booking requested',
+          format('Your request for "%s" is waiting for the organizer''s approval.', v_event_title),
+          NEW.event_id,
+          NEW.id
+        );
+      END IF;
+    ELSIF NEW.status = 'confirmed' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_confirmed');
+
+      IF NEW.user_id IS NOT NULL THEN
+        PERFORM public.create_notification(
+          NEW.user_id,
+          'booking_confirmed',
+          'Booking confirmed',
+          format('Your booking for "%s" is confirmed.', v_event_title),
+          NEW.event_id,
+          NEW.id
+        );
+      END IF;
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_confirmed');
+    ELSIF NEW.status = 'cancelled' THEN
+      PERFORM public.enqueue_booking_email(NEW.id, 'booking_cancelled');
+
+      IF NEW.user_id IS NOT NULL
+        AND NEW.approval_decision IS DISTINCT FROM 'declined'
+        AND NEW.approval_decision IS DISTINCT FROM 'expired'
+      THEN
+        PERFORM public.create_notification(
+          NEW.user_id,
+          'booking_cancelled',
+          'Booking cancelled',
+          format('Your booking for "%s" was cancelled.', v_event_title),
+          NEW.event_id,
+          NEW.id
+        );
+      END IF;
+    END IF;
+  ELSIF NEW.status = 'confirmed' AND (
+    NEW.slot_id IS DISTINCT FROM OLD.slot_id
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.time IS DISTINCT FROM OLD.time
+  ) THEN
+    PERFORM public.enqueue_booking_email(
+      NEW.id,
+      'booking_rescheduled',
+      'booking_rescheduled:' || NEW.id || ':' || NEW.calendar_sequence
+    );
+
+    IF NEW.user_id IS NOT NULL THEN
+      PERFORM public.create_notification(
+        NEW.user_id,
+        'booking_rescheduled',
+        'Booking rescheduled',
+        'Your booking ' || NEW.booking_reference || ' has a new time.',
+        NEW.event_id,
+        NEW.id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- ENQUEUE DUE REMINDERS
+-- From 20240209000000_sms_notifications.sql, also notifying the attendee
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_due_reminders(p_limit INTEGER DEFAULT 100)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reminder RECORD;
+  v_email_id UUID;
+  v_sms_id UUID;
+  v_enqueued INTEGER := 0;
+BEGIN
+  FOR v_reminder IN
+    SELECT
+      r.*,
+      b.status AS booking_status,
+      b.user_id AS booking_user_id,
+      b.event_id AS booking_event_id,
+      e.title AS event_title
+    FROM public.booking_reminders r
+    JOIN public.bookings b ON b.id = r.booking_id
+    JOIN public.events e ON e.id = b.event_id
+    WHERE r.status = 'scheduled'
+      AND r.remind_at <= NOW()
+    ORDER BY r.remind_at
+    LIMIT p_limit
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    -- Skip reminders for bookings no longer confirmed, and ones a later
+    -- reminder for the same booking supersedes
+    IF v_reminder.booking_status != 'confirmed' OR EXISTS (
+      SELECT 1
+      FROM public.booking_reminders later
+      WHERE later.booking_id = v_reminder.booking_id
+        AND later.status = 'scheduled'
+        AND later.remind_at <= NOW()
+        AND later.remind_at > v_reminder.remind_at
+    ) THEN
+      UPDATE public.booking_reminders
+      SET status = 'skipped', processed_at = NOW()
+      WHERE id = v_reminder.id;
+
+      CONTINUE;
+    END IF;
+
+    v_email_id := public.enqueue_booking_email(
+      v_reminder.booking_id,
+      'booking_reminder',
+      'booking_reminder:' || v_reminder.id
+    );
+
+    v_sms_id := public.enqueue_booking_sms(
+      v_reminder.booking_id,
+      'booking_reminder',
+      'booking_reminder:' || v_reminder.id
+    );
+
+    IF v_reminder.booking_user_id IS NOT NULL THEN
+      PERFORM public.create_notification(
+        v_reminder.booking_user_id,
+        'booking_reminder',
+        'Upcoming booking',
+        format('Your booking for "%s" is coming up.', v_reminder.event_title),
+        v_reminder.booking_event_id,
+        v_reminder.booking_id
+      );
+    END IF;
+
+    UPDATE public.booking_reminders
+    SET
+      status = CASE WHEN v_email_id IS NULL AND v_sms_id IS NULL THEN 'skipped' ELSE 'enqueued' END,
+      email_id = v_email_id,
+      sms_id = v_sms_id,
+      processed_at = NOW()
+    WHERE id = v_reminder.id;
+
+    IF v_email_id IS NOT NULL OR v_sms_id IS NOT NULL THEN
+      v_enqueued := v_enqueued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_enqueued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE EMAIL DELIVERY
+-- From 20240206000000_email_outbox.sql, marking the notification that
+-- goes with the template
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_email_delivery(
+  p_email_id UUID,
+  p_sent BOOLEAN,
+  p_provider_message_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_email RECORD;
+BEGIN
+  SELECT * INTO v_email
+  FROM public.email_outbox
+  WHERE id = p_email_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found';
+  END IF;
+
+  IF v_email.status = 'sent' THEN
+    RETURN;
+  END IF;
+
+  IF p_sent THEN
+    UPDATE public.email_outbox
+    SET
+      status = 'sent',
+      provider_message_id = p_provider_message_id,
+      sent_at = NOW(),
+      locked_at = NULL,
+      last_error = NULL,
+      updated_at = NOW()
+    WHERE id = p_email_id;
+
+    IF v_email.recipient_user_id IS NOT NULL THEN
+      UPDATE public.notifications
+      SET
+        sent_via_email = TRUE,
+        sent_at = COALESCE(sent_at, NOW())
+      WHERE user_id = v_email.recipient_user_id
+        AND booking_id = v_email.booking_id
+        AND type = ANY(public.notification_types_for_template(v_email.template));
+    END IF;
+  ELSE
+    UPDATE public.email_outbox
+    SET
+      status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE 'pending' END,
+      next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+      last_error = COALESCE(NULLIF(TRIM(p_error), ''), 'Delivery failed'),
+      locked_at = NULL,
+      updated_at = NOW()
+    WHERE id = p_email_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMPLETE SMS DELIVERY
+-- From 20240209000000_sms_notifications.sql, with the same matching
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.complete_sms_delivery(
+  p_sms_id UUID,
+  p_sent BOOLEAN,
+  p_provider_message_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_retry_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_sms RECORD;
+BEGIN
+  SELECT * INTO v_sms
+  FROM public.sms_outbox
+  WHERE id = p_sms_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SMS not found';
+  END IF;
+
+  IF v_sms.status = 'sent' THEN
+    RETURN;
+  END IF;
+
+  IF p_sent THEN
+    UPDATE public.sms_outbox
+    SET
+      status = 'sent',
+      provider_message_id = p_provider_message_id,
+      sent_at = NOW(),
+      locked_at = NULL,
+      last_error = NULL,
+      updated_at = NOW()
+    WHERE id = p_sms_id;
+
+    IF v_sms.recipient_user_id IS NOT NULL THEN
+      UPDATE public.notifications
+      SET
+        sent_via_sms = TRUE,
+        sent_at = COALESCE(sent_at, NOW())
+      WHERE user_id = v_sms.recipient_user_id
+        AND booking_id = v_sms.booking_id
+        AND type = ANY(public.notification_types_for_template(v_sms.template));
+    END IF;
+  ELSE
+    UPDATE public.sms_outbox
+    SET
+      status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE 'pending' END,
+      next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+      last_error = COALESCE(NULLIF(TRIM(p_error), ''), 'Delivery failed'),
+      locked_at = NULL,
+      updated_at = NOW()
+    WHERE id = p_sms_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.notification_types_for_template(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.queue_booking_emails() IS
+'Queues booking emails and notifies attendees with an account as bookings change';
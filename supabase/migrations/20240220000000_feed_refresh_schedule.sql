@@ -0,0 +1,118 @@
+-- supabase/migrations/20240220000000_feed_refresh_schedule.sql
+-- Server-side feed refreshes with backoff
+--
+-- URL feeds are now fetched by the scheduled api/refresh-feeds.ts (most
+-- calendar hosts refuse cross-origin requests from the browser). A failed
+-- import only set last_error, so the feed stayed due and was fetched again
+-- on every run. Each import now schedules the next one in next_fetch_at:
+-- the feed's refresh interval after a success, and twice as long after
+-- each consecutive failure, up to a day.
+
+-- =====================================================
+-- CALENDAR FEEDS
+-- =====================================================
+ALTER TABLE public.calendar_feeds
+  ADD COLUMN IF NOT EXISTS next_fetch_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+
+-- NULL for feeds never fetched, which are due straight away
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_next_fetch_at
+  ON public.calendar_feeds(next_fetch_at)
+  WHERE source_url IS NOT NULL AND is_enabled;
+
+UPDATE public.calendar_feeds
+SET next_fetch_at = last_fetched_at + make_interval(mins => refresh_interval_minutes)
+WHERE source_url IS NOT NULL
+  AND last_fetched_at IS NOT NULL;
+
+-- =====================================================
+-- REPLACE FEED BUSY BLOCKS
+-- From 20240211000000_ics_busy_feeds.sql, scheduling the next fetch
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.replace_feed_busy_blocks(
+  p_feed_id UUID,
+  p_blocks JSONB,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_feed public.calendar_feeds;
+  v_inserted INTEGER;
+BEGIN
+  SELECT * INTO v_feed
+  FROM public.calendar_feeds
+  WHERE id = p_feed_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Calendar feed not found';
+  END IF;
+
+  IF v_feed.user_id IS DISTINCT FROM auth.uid()
+    AND COALESCE(auth.role(), '') != 'service_role'
+  THEN
+    RAISE EXCEPTION 'Not authorized to update this calendar feed';
+  END IF;
+
+  IF p_error IS NOT NULL THEN
+    UPDATE public.calendar_feeds
+    SET
+      last_error = p_error,
+      consecutive_failures = consecutive_failures + 1,
+      next_fetch_at = NOW() + LEAST(
+        make_interval(mins => refresh_interval_minutes * power(2, LEAST(consecutive_failures + 1, 10))::INTEGER),
+        INTERVAL '1 day'
+      )
+    WHERE id = p_feed_id;
+
+    RETURN 0;
+  END IF;
+
+  DELETE FROM public.calendar_busy_blocks
+  WHERE feed_id = p_feed_id;
+
+  INSERT INTO public.calendar_busy_blocks (
+    feed_id,
+    user_id,
+    external_event_id,
+    title,
+    start_time,
+    end_time
+  )
+  SELECT DISTINCT ON (block.external_event_id)
+    p_feed_id,
+    v_feed.user_id,
+    block.external_event_id,
+    block.title,
+    block.start_time,
+    block.end_time
+  FROM jsonb_to_recordset(COALESCE(p_blocks, '[]'::jsonb)) AS block(
+    external_event_id TEXT,
+    title TEXT,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ
+  )
+  WHERE block.external_event_id IS NOT NULL
+    AND block.end_time > block.start_time;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE public.calendar_feeds
+  SET
+    last_fetched_at = NOW(),
+    last_error = NULL,
+    consecutive_failures = 0,
+    next_fetch_at = NOW() + make_interval(mins => refresh_interval_minutes)
+  WHERE id = p_feed_id;
+
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.calendar_feeds.next_fetch_at IS
+'When api/refresh-feeds.ts fetches the feed next; backs off after failures';
+COMMENT ON COLUMN public.calendar_feeds.consecutive_failures IS
+'Failed imports since the last successful one';
@@ -0,0 +1,126 @@
+-- supabase/migrations/20240221000000_refund_worker.sql
+-- Pending refunds are sent by a server-side worker
+--
+-- Refunds used to be sent from the browser right after a guest cancelled,
+-- or when the organizer pressed retry. Refunds recorded by declines and
+-- expired approvals (resolve_pending_booking), and those of guests who
+-- closed the tab, stayed pending, and only the fake provider can settle
+-- from the browser at all. api/process-refunds.ts now claims pending
+-- refunds on a schedule, sends them through the provider that took the
+-- payment and settles them with confirm_refund as the service role.
+-- Organizers retry a failed refund by putting it back in the queue.
+
+-- =====================================================
+-- REFUNDS
+-- =====================================================
+ALTER TABLE public.refunds
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_refunds_pending
+  ON public.refunds(created_at)
+  WHERE status = 'pending';
+
+-- =====================================================
+-- CLAIM PENDING REFUNDS (worker)
+-- Pending refunds not claimed by another run in the last p_lease_minutes,
+-- with what the provider needs to send them
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.claim_pending_refunds(
+  p_limit INTEGER DEFAULT 20,
+  p_lease_minutes INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  refund_id UUID,
+  provider TEXT,
+  provider_payment_id TEXT,
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  attempts INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE public.refunds r
+    SET
+      attempts = r.attempts + 1,
+      locked_at = NOW(),
+      updated_at = NOW()
+    WHERE r.id IN (
+      SELECT id
+      FROM public.refunds
+      WHERE status = 'pending'
+        AND (locked_at IS NULL OR locked_at < NOW() - make_interval(mins => p_lease_minutes))
+      ORDER BY created_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING r.*
+  )
+  SELECT
+    c.id,
+    c.provider,
+    p.provider_payment_id,
+    c.amount,
+    c.currency,
+    c.attempts
+  FROM claimed c
+  JOIN public.payments p ON p.id = c.payment_id
+  ORDER BY c.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- RETRY REFUND (organizer)
+-- Queues a failed refund of one of the organizer's events again
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.retry_refund(p_refund_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_refund RECORD;
+BEGIN
+  SELECT r.* INTO v_refund
+  FROM public.refunds r
+  JOIN public.payments p ON p.id = r.payment_id
+  JOIN public.time_slots ts ON ts.id = p.slot_id
+  JOIN public.events e ON e.id = ts.event_id
+  WHERE r.id = p_refund_id
+    AND e.user_id = auth.uid()
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status != 'failed' THEN
+    RAISE EXCEPTION 'Only failed refunds can be retried';
+  END IF;
+
+  UPDATE public.refunds
+  SET
+    status = 'pending',
+    failure_reason = NULL,
+    attempts = 0,
+    locked_at = NULL,
+    updated_at = NOW()
+  WHERE id = p_refund_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.claim_pending_refunds(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_pending_refunds(INTEGER, INTEGER) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.retry_refund(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_refund(UUID) TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.claim_pending_refunds(INTEGER, INTEGER) IS
+'Claims pending refunds for the refund worker, reclaiming ones whose run stopped';
+
+COMMENT ON FUNCTION public.retry_refund(UUID) IS
+'Queues a failed refund again for the refund worker; event organizer only';
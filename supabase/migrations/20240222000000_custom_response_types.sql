@@ -0,0 +1,119 @@
+-- supabase/migrations/20240222000000_custom_response_types.sql
+-- Check intake answers by field type on the server
+--
+-- validate_custom_responses only checked that required questions were
+-- answered, so a client skipping the booking form could store any value:
+-- a choice that isn't offered, text in a number field, or a list or
+-- object for a text answer. Each answer is now checked against its field,
+-- with the same rules as the booking form (src/lib/customFields.ts):
+--   - text and textarea: a string of at most 500 or 2000 characters
+--   - select: one of the field's options
+--   - multiselect: a list of the field's options
+--   - checkbox: true or false
+--   - number: a number, or a string holding one (stored as a number)
+--   - phone: digits, spaces and + - ( )
+-- Answers of the wrong JSON type count as unanswered and are dropped, as
+-- are answers to questions the event doesn't have. Answers of the right
+-- type that break the rules reject the booking.
+
+-- =====================================================
+-- VALIDATE CUSTOM RESPONSES
+-- From 20240203000000_custom_intake_fields.sql, checking each answer's type
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.validate_custom_responses(
+  p_fields JSONB,
+  p_responses JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_field JSONB;
+  v_label TEXT;
+  v_options JSONB;
+  v_answer JSONB;
+  v_text TEXT;
+  v_result JSONB := '{}'::jsonb;
+BEGIN
+  IF p_fields IS NULL OR jsonb_typeof(p_fields) != 'array' THEN
+    RETURN v_result;
+  END IF;
+
+  FOR v_field IN SELECT value FROM jsonb_array_elements(p_fields)
+  LOOP
+    v_label := v_field->>'label';
+    v_options := CASE WHEN jsonb_typeof(v_field->'options') = 'array' THEN v_field->'options' ELSE '[]'::jsonb END;
+    v_answer := COALESCE(p_responses, '{}'::jsonb) -> (v_field->>'id');
+    v_text := CASE WHEN jsonb_typeof(v_answer) = 'string' THEN TRIM(v_answer #>> '{}') END;
+
+    -- The answer to store, or NULL when unanswered or of the wrong type
+    v_answer := CASE v_field->>'type'
+      WHEN 'text' THEN to_jsonb(NULLIF(v_text, ''))
+      WHEN 'textarea' THEN to_jsonb(NULLIF(v_text, ''))
+      WHEN 'phone' THEN to_jsonb(NULLIF(v_text, ''))
+      WHEN 'select' THEN to_jsonb(NULLIF(v_text, ''))
+      WHEN 'multiselect' THEN
+        CASE WHEN jsonb_typeof(v_answer) = 'array' AND jsonb_array_length(v_answer) > 0 THEN v_answer END
+      WHEN 'checkbox' THEN
+        CASE WHEN v_answer = 'true'::jsonb THEN v_answer END
+      WHEN 'number' THEN
+        CASE
+          WHEN jsonb_typeof(v_answer) = 'number' THEN v_answer
+          WHEN NULLIF(v_text, '') IS NOT NULL THEN to_jsonb(v_text)
+        END
+    END;
+
+    IF v_answer IS NULL OR v_answer = 'null'::jsonb THEN
+      IF COALESCE((v_field->>'required')::BOOLEAN, false) THEN
+        RAISE EXCEPTION 'Answer required for "%"', v_label;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    CASE v_field->>'type'
+      WHEN 'text' THEN
+        IF length(v_answer #>> '{}') > 500 THEN
+          RAISE EXCEPTION 'Invalid answer for "%": use 500 characters or fewer', v_label;
+        END IF;
+      WHEN 'textarea' THEN
+        IF length(v_answer #>> '{}') > 2000 THEN
+          RAISE EXCEPTION 'Invalid answer for "%": use 2000 characters or fewer', v_label;
+        END IF;
+      WHEN 'phone' THEN
+        IF (v_answer #>> '{}') !~ '^[0-9\s()+-]+$' THEN
+          RAISE EXCEPTION 'Invalid answer for "%": enter a valid phone', v_label;
+        END IF;
+      WHEN 'select' THEN
+        IF NOT v_options @> jsonb_build_array(v_answer) THEN
+          RAISE EXCEPTION 'Invalid answer for "%": choose one of the listed options', v_label;
+        END IF;
+      WHEN 'multiselect' THEN
+        IF EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(v_answer) AS chosen(value)
+          WHERE jsonb_typeof(chosen.value) != 'string'
+             OR NOT v_options @> jsonb_build_array(chosen.value)
+        ) THEN
+          RAISE EXCEPTION 'Invalid answer for "%": choose from the listed options', v_label;
+        END IF;
+      WHEN 'number' THEN
+        IF jsonb_typeof(v_answer) = 'string' THEN
+          IF (v_answer #>> '{}') !~ '^[+-]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][+-]?[0-9]+)?$' THEN
+            RAISE EXCEPTION 'Invalid answer for "%": enter a number', v_label;
+          END IF;
+          v_answer := to_jsonb((v_answer #>> '{}')::NUMERIC);
+        END IF;
+      ELSE
+        NULL;
+    END CASE;
+
+    v_result := v_result || jsonb_build_object(v_field->>'id', v_answer);
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.validate_custom_responses(JSONB, JSONB) IS
+'Checks intake answers against the event''s questions and returns the ones to store';
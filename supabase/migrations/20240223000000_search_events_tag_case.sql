@@ -0,0 +1,114 @@
+-- supabase/migrations/20240223000000_search_events_tag_case.sql
+-- Match search_events tag filters regardless of case
+--
+-- The events listing lowercases the tags it filters by, but organizers
+-- save tags as typed, so an event tagged "Yoga" never matched "yoga".
+-- Both sides of the tag filter are now compared in lower case.
+
+-- =====================================================
+-- SEARCH EVENTS
+-- From 20240128000000_search_events_filters.sql, comparing tags case-insensitively
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.search_events(
+  p_query TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_relevance REAL DEFAULT NULL,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  slug TEXT,
+  description TEXT,
+  type TEXT,
+  duration INTEGER,
+  buffer_time INTEGER,
+  location TEXT,
+  is_online BOOLEAN,
+  max_attendees INTEGER,
+  requires_approval BOOLEAN,
+  allow_cancellation BOOLEAN,
+  cancellation_deadline INTEGER,
+  available_days TEXT[],
+  time_slots JSONB,
+  status TEXT,
+  tags TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  relevance REAL
+) AS $$
+DECLARE
+  v_query TEXT := NULLIF(TRIM(p_query), '');
+  v_tags TEXT[] := (SELECT array_agg(lower(t)) FROM unnest(p_tags) AS t);
+BEGIN
+  IF p_limit IS NULL OR p_limit <= 0 OR p_limit > 100 THEN
+    RAISE EXCEPTION 'Limit must be between 1 and 100';
+  END IF;
+
+  RETURN QUERY
+  WITH ranked AS (
+    SELECT
+      e.*,
+      CASE
+        WHEN v_query IS NULL THEN 0::REAL
+        ELSE ts_rank(
+          to_tsvector('english', e.title || ' ' || COALESCE(e.description, '')),
+          plainto_tsquery('english', v_query)
+        )
+      END AS rank
+    FROM public.events e
+    WHERE
+      e.status = 'active'
+      AND e.visibility = 'public'
+      AND (
+        v_query IS NULL
+        OR to_tsvector('english', e.title || ' ' || COALESCE(e.description, '')) @@
+           plainto_tsquery('english', v_query)
+      )
+      AND (p_type IS NULL OR e.type = p_type)
+      -- Events must carry every requested tag, in any case
+      AND (
+        v_tags IS NULL
+        OR (SELECT array_agg(lower(t)) FROM unnest(e.tags) AS t) @> v_tags
+      )
+  )
+  SELECT
+    r.id,
+    r.user_id,
+    r.title,
+    r.slug,
+    r.description,
+    r.type,
+    r.duration,
+    r.buffer_time,
+    r.location,
+    r.is_online,
+    r.max_attendees,
+    r.requires_approval,
+    r.allow_cancellation,
+    r.cancellation_deadline,
+    r.available_days,
+    r.time_slots,
+    r.status,
+    r.tags,
+    r.created_at,
+    r.updated_at,
+    r.rank
+  FROM ranked r
+  WHERE
+    p_cursor_id IS NULL
+    OR (r.rank, r.created_at, r.id) < (p_cursor_relevance, p_cursor_created_at, p_cursor_id)
+  ORDER BY r.rank DESC, r.created_at DESC, r.id DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.search_events(TEXT, TEXT, TEXT[], INTEGER, REAL, TIMESTAMPTZ, UUID) IS
+'Searches public, active events with optional full-text query, type and tag filters. Tags match in any case. Uses keyset pagination on (relevance, created_at, id).';
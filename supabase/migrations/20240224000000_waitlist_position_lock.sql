@@ -0,0 +1,100 @@
+-- supabase/migrations/20240224000000_waitlist_position_lock.sql
+-- Give concurrent waitlist joins distinct positions
+--
+-- add_to_waitlist took the next position as MAX(position) + 1 without a
+-- lock, so two guests joining at the same moment could both get the same
+-- place in line. It now locks the slot, or the event for event-level
+-- waitlists, before reading the last position, so joins for the same
+-- line run one after another. The lock also covers the duplicate email
+-- check for slot entries.
+
+-- =====================================================
+-- ADD TO WAITLIST
+-- From 20240130000000_slot_waitlist.sql, locking the slot or event first
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.add_to_waitlist(
+  p_event_id UUID,
+  p_session_id UUID DEFAULT NULL,
+  p_first_name TEXT DEFAULT NULL,
+  p_last_name TEXT DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_quantity INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  waitlist_id UUID,
+  waitlist_position INTEGER
+) AS $$
+DECLARE
+  v_slot RECORD;
+  v_existing RECORD;
+  v_waitlist_id UUID;
+  v_position INTEGER;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  IF p_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot
+    FROM public.time_slots
+    WHERE id = p_slot_id
+      AND event_id = p_event_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Slot not found';
+    END IF;
+
+    IF v_slot.start_time <= NOW() THEN
+      RAISE EXCEPTION 'Cannot join the waitlist for a slot in the past';
+    END IF;
+
+    IF p_quantity > v_slot.total_capacity THEN
+      RAISE EXCEPTION 'Quantity exceeds slot capacity of %', v_slot.total_capacity;
+    END IF;
+
+    -- Already waiting for this slot
+    SELECT id, position INTO v_existing
+    FROM public.waitlist
+    WHERE slot_id = p_slot_id
+      AND LOWER(email) = LOWER(p_email)
+      AND notified = FALSE
+      AND converted_to_booking = FALSE;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_existing.id, v_existing.position;
+      RETURN;
+    END IF;
+  ELSE
+    PERFORM 1
+    FROM public.events
+    WHERE id = p_event_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Event not found';
+    END IF;
+  END IF;
+
+  -- Get next position; the row locked above keeps concurrent joins in line
+  SELECT COALESCE(MAX(position), 0) + 1 INTO v_position
+  FROM public.waitlist
+  WHERE event_id = p_event_id
+    AND (p_session_id IS NULL OR session_id = p_session_id)
+    AND slot_id IS NOT DISTINCT FROM p_slot_id;
+
+  -- Add to waitlist
+  INSERT INTO public.waitlist (
+    event_id, session_id, slot_id, first_name, last_name, email, phone,
+    notes, position, quantity, user_id
+  ) VALUES (
+    p_event_id, p_session_id, p_slot_id, p_first_name, p_last_name, p_email, p_phone,
+    p_notes, v_position, p_quantity, auth.uid()
+  ) RETURNING id INTO v_waitlist_id;
+
+  RETURN QUERY SELECT v_waitlist_id, v_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,248 @@
+-- supabase/migrations/20240225000000_waitlist_offer_emails.sql
+-- Email waitlist offers
+--
+-- process_waitlist holds freed seats for the next waitlisted invitees,
+-- but only those with an account heard about it, through an in-app
+-- notification. Guests were never told, so their offers expired unseen
+-- while the seats stayed held from other bookers. Each offer now queues a
+-- waitlist_spot_available email with the link that claims the hold,
+-- /book/<event id>?waitlist=<waitlist id>. As with booking emails,
+-- attendees with an account and email_notifications turned off get no
+-- email; guests always get one.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+ALTER TABLE public.email_outbox
+  DROP CONSTRAINT IF EXISTS email_outbox_template_check;
+
+ALTER TABLE public.email_outbox
+  ADD CONSTRAINT email_outbox_template_check CHECK (template IN (
+    'booking_created', 'booking_confirmed', 'booking_rescheduled',
+    'booking_cancelled', 'booking_reminder', 'waitlist_spot_available'
+  ));
+
+-- =====================================================
+-- ENQUEUE WAITLIST OFFER EMAIL (internal)
+-- Queues the offer email for a waitlist entry holding a slot lock, once
+-- per offer. Returns NULL when the invitee opted out or it was already
+-- queued.
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.enqueue_waitlist_offer_email(p_waitlist_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_entry RECORD;
+  v_email_id UUID;
+BEGIN
+  SELECT
+    w.*,
+    e.title AS event_title,
+    e.location AS event_location,
+    e.is_online AS event_is_online,
+    e.timezone AS event_timezone,
+    TRIM(o.first_name || ' ' || o.last_name) AS organizer_name,
+    ts.start_time AS slot_start_time,
+    ts.end_time AS slot_end_time,
+    p.email_notifications AS attendee_email_notifications
+  INTO v_entry
+  FROM public.waitlist w
+  JOIN public.events e ON e.id = w.event_id
+  JOIN public.time_slots ts ON ts.id = w.slot_id
+  LEFT JOIN public.profiles o ON o.id = e.user_id
+  LEFT JOIN public.profiles p ON p.id = w.user_id
+  WHERE w.id = p_waitlist_id;
+
+  IF NOT FOUND OR v_entry.lock_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_entry.user_id IS NOT NULL AND NOT COALESCE(v_entry.attendee_email_notifications, true) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.email_outbox (
+    template,
+    recipient_email,
+    recipient_name,
+    recipient_user_id,
+    payload,
+    dedupe_key
+  ) VALUES (
+    'waitlist_spot_available',
+    v_entry.email,
+    TRIM(v_entry.first_name || ' ' || v_entry.last_name),
+    v_entry.user_id,
+    jsonb_build_object(
+      'waitlist_id', v_entry.id,
+      'first_name', v_entry.first_name,
+      'last_name', v_entry.last_name,
+      'email', v_entry.email,
+      'quantity', v_entry.quantity,
+      'event_title', v_entry.event_title,
+      'organizer_name', NULLIF(v_entry.organizer_name, ''),
+      'location', v_entry.event_location,
+      'is_online', v_entry.event_is_online,
+      'starts_at', v_entry.slot_start_time,
+      'ends_at', v_entry.slot_end_time,
+      'timezone', v_entry.event_timezone,
+      'expires_at', v_entry.offer_expires_at,
+      'booking_path', format('/book/%s?waitlist=%s', v_entry.event_id, v_entry.id)
+    ),
+    'waitlist_spot_available:' || v_entry.id || ':' || v_entry.lock_id
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_email_id;
+
+  RETURN v_email_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- PROCESS WAITLIST
+-- From 20240130000000_slot_waitlist.sql, emailing each slot offer
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.process_waitlist(
+  p_event_id UUID,
+  p_session_id UUID DEFAULT NULL,
+  p_slot_id UUID DEFAULT NULL,
+  p_hold_minutes INTEGER DEFAULT 30
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_next_waitlist RECORD;
+  v_slot RECORD;
+  v_event RECORD;
+  v_available INTEGER;
+  v_lock_id UUID;
+  v_expires_at TIMESTAMPTZ;
+  v_notified INTEGER := 0;
+BEGIN
+  IF p_slot_id IS NULL THEN
+    -- Get next person on the event waitlist
+    SELECT * INTO v_next_waitlist
+    FROM public.waitlist
+    WHERE event_id = p_event_id
+      AND slot_id IS NULL
+      AND (p_session_id IS NULL OR session_id = p_session_id)
+      AND notified = FALSE
+      AND converted_to_booking = FALSE
+    ORDER BY position
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RETURN 0;
+    END IF;
+
+    UPDATE public.waitlist
+    SET
+      notified = TRUE,
+      notified_at = NOW()
+    WHERE id = v_next_waitlist.id;
+
+    IF v_next_waitlist.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (
+        user_id, type, title, message, event_id
+      ) VALUES (
+        v_next_waitlist.user_id,
+        'waitlist_spot_available',
+        'Spot Available!',
+        'A spot has opened up for the event you''re waitlisted for.',
+        p_event_id
+      );
+    END IF;
+
+    RETURN 1;
+  END IF;
+
+  -- Row lock serializes against create_slot_lock and complete_slot_booking
+  SELECT * INTO v_slot
+  FROM public.time_slots
+  WHERE id = p_slot_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_slot.start_time <= NOW() THEN
+    RETURN 0;
+  END IF;
+
+  SELECT id, title INTO v_event FROM public.events WHERE id = v_slot.event_id;
+
+  FOR v_next_waitlist IN
+    SELECT *
+    FROM public.waitlist
+    WHERE slot_id = p_slot_id
+      AND notified = FALSE
+      AND converted_to_booking = FALSE
+    ORDER BY position
+  LOOP
+    SELECT (v_slot.available_count - COALESCE(
+      (SELECT SUM(sl.quantity)
+       FROM public.slot_locks sl
+       WHERE sl.slot_id = p_slot_id
+         AND sl.is_active = true
+         AND sl.expires_at > NOW()),
+      0
+    )) INTO v_available;
+
+    EXIT WHEN v_available < v_next_waitlist.quantity;
+
+    v_expires_at := NOW() + (p_hold_minutes || ' minutes')::INTERVAL;
+
+    INSERT INTO public.slot_locks (
+      slot_id, user_id, session_id, quantity, expires_at, is_active
+    ) VALUES (
+      p_slot_id, v_next_waitlist.user_id, 'waitlist_' || v_next_waitlist.id,
+      v_next_waitlist.quantity, v_expires_at, true
+    ) RETURNING id INTO v_lock_id;
+
+    UPDATE public.waitlist
+    SET
+      notified = TRUE,
+      notified_at = NOW(),
+      lock_id = v_lock_id,
+      offer_expires_at = v_expires_at
+    WHERE id = v_next_waitlist.id;
+
+    -- Emailed with the claim link; guests without an account have no
+    -- inbox, so email is how they hear about the offer
+    PERFORM public.enqueue_waitlist_offer_email(v_next_waitlist.id);
+
+    IF v_next_waitlist.user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (
+        user_id, type, title, message, event_id, data
+      ) VALUES (
+        v_next_waitlist.user_id,
+        'waitlist_spot_available',
+        'Spot Available!',
+        format(
+          'A spot has opened up for "%s". We''re holding it for you for %s minutes.',
+          v_event.title, p_hold_minutes
+        ),
+        v_event.id,
+        jsonb_build_object(
+          'waitlist_id', v_next_waitlist.id,
+          'slot_id', p_slot_id,
+          'lock_id', v_lock_id,
+          'quantity', v_next_waitlist.quantity,
+          'expires_at', v_expires_at,
+          'booking_path', format('/book/%s?waitlist=%s', v_event.id, v_next_waitlist.id)
+        )
+      );
+    END IF;
+
+    v_notified := v_notified + 1;
+  END LOOP;
+
+  RETURN v_notified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.enqueue_waitlist_offer_email(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.enqueue_waitlist_offer_email(UUID) IS
+'Queues the email telling a waitlisted invitee a seat is held for them';
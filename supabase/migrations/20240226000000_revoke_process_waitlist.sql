@@ -0,0 +1,21 @@
+-- supabase/migrations/20240226000000_revoke_process_waitlist.sql
+-- Stop signed-in users from running process_waitlist
+--
+-- process_waitlist stayed granted to authenticated, and
+-- 20240217000000_revoke_internal_functions.sql first listed it with the
+-- organizer functions that check ownership, which it never did. Any
+-- signed-in user could make any event offer its waitlist seats, holding
+-- them for as many minutes as they passed in p_hold_minutes. It is only
+-- called by the cancellation, approval, reschedule and offer expiry
+-- functions, so it is now internal like them.
+
+-- =====================================================
+-- INTERNAL FUNCTIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.process_waitlist(UUID, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.process_waitlist(UUID, UUID, UUID, INTEGER) IS
+'Offers freed slot seats to waitlisted invitees as time-boxed locks; internal, called when seats free up';
@@ -0,0 +1,30 @@
+-- supabase/migrations/20240227000000_conferencing_provider_check.sql
+-- Only built-in conferencing providers on events
+--
+-- 20240214000000_booking_meetings.sql accepted any conferencing_provider
+-- name, and the app quietly handed names it had no provider for to an
+-- in-memory one, so attendees got links that led nowhere. Providers are
+-- now looked up strictly (a missing one leaves the meeting pending with
+-- the error), and events can only name the built-in ones. Events naming
+-- anything else go back to sharing meeting_url as entered.
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+UPDATE public.events
+SET conferencing_provider = NULL
+WHERE conferencing_provider NOT IN ('static', 'generated');
+
+ALTER TABLE public.events
+  DROP CONSTRAINT IF EXISTS events_conferencing_provider_check;
+
+ALTER TABLE public.events
+  ADD CONSTRAINT events_conferencing_provider_check
+  CHECK (conferencing_provider IN ('static', 'generated'));
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON COLUMN public.events.conferencing_provider IS
+'Provider of bookings'' meeting links: static or generated; NULL shares meeting_url as entered';
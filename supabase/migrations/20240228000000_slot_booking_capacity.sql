@@ -0,0 +1,74 @@
+-- supabase/migrations/20240228000000_slot_booking_capacity.sql
+-- Stop counting slot bookings against the whole event
+--
+-- Events booked by slot keep max_attendees as the seats of each slot, but
+-- check_booking_capacity still counted every confirmed or pending booking
+-- of the event against it, so an event with 10 seats per slot refused its
+-- eleventh booking across all of its slots. Slot bookings are already
+-- held to their slot's capacity when they are locked and confirmed, so
+-- the trigger now leaves them alone and only checks session and
+-- event-wide bookings, as before.
+
+-- =====================================================
+-- CHECK BOOKING CAPACITY
+-- From 20240101000000_initial_schema.sql, skipping slot bookings
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.check_booking_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_max_attendees INTEGER;
+  session_max_attendees INTEGER;
+  current_count INTEGER;
+BEGIN
+  -- Slot bookings are checked against the slot's capacity instead
+  IF NEW.slot_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get event max attendees
+  SELECT max_attendees INTO event_max_attendees
+  FROM public.events
+  WHERE id = NEW.event_id;
+
+  -- Get session max attendees if applicable
+  IF NEW.session_id IS NOT NULL THEN
+    SELECT max_attendees INTO session_max_attendees
+    FROM public.event_sessions
+    WHERE id = NEW.session_id;
+  END IF;
+
+  -- Use session max if available, otherwise event max
+  IF session_max_attendees IS NOT NULL THEN
+    event_max_attendees := session_max_attendees;
+  END IF;
+
+  -- Check capacity if max is set
+  IF event_max_attendees IS NOT NULL THEN
+    IF NEW.session_id IS NOT NULL THEN
+      SELECT COUNT(*) INTO current_count
+      FROM public.bookings
+      WHERE session_id = NEW.session_id
+        AND status IN ('confirmed', 'pending');
+    ELSE
+      SELECT COUNT(*) INTO current_count
+      FROM public.bookings
+      WHERE event_id = NEW.event_id
+        AND session_id IS NULL
+        AND slot_id IS NULL
+        AND status IN ('confirmed', 'pending');
+    END IF;
+
+    IF current_count >= event_max_attendees THEN
+      RAISE EXCEPTION 'Event or session is at maximum capacity';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.check_booking_capacity() IS
+'Holds session and event-wide bookings to max_attendees; slot bookings are held to their slot''s capacity';
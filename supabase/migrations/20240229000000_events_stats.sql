@@ -0,0 +1,55 @@
+-- supabase/migrations/20240229000000_events_stats.sql
+-- Booking counts for a page of events in one call
+--
+-- The organizer's events list called get_event_stats once per event on
+-- the page. get_events_stats counts bookings for all of them in one query,
+-- one row per event (zeros for events without bookings), and only for
+-- events the caller organizes.
+
+-- =====================================================
+-- GET EVENTS STATS
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_events_stats(p_event_ids UUID[])
+RETURNS TABLE (
+  event_id UUID,
+  total_bookings BIGINT,
+  confirmed_bookings BIGINT,
+  pending_bookings BIGINT,
+  cancelled_bookings BIGINT,
+  attendance_rate NUMERIC,
+  avg_booking_lead_time INTERVAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.id AS event_id,
+    COUNT(b.id) AS total_bookings,
+    COUNT(b.id) FILTER (WHERE b.status = 'confirmed') AS confirmed_bookings,
+    COUNT(b.id) FILTER (WHERE b.status = 'pending') AS pending_bookings,
+    COUNT(b.id) FILTER (WHERE b.status = 'cancelled') AS cancelled_bookings,
+    CASE
+      WHEN COUNT(b.id) FILTER (WHERE b.status = 'confirmed') > 0
+      THEN (COUNT(b.id) FILTER (WHERE b.attended = TRUE)::NUMERIC /
+            COUNT(b.id) FILTER (WHERE b.status = 'confirmed') * 100)
+      ELSE 0
+    END AS attendance_rate,
+    AVG((b.date + b.time) - b.created_at) AS avg_booking_lead_time
+  FROM public.events e
+  LEFT JOIN public.bookings b ON b.event_id = e.id
+  WHERE e.id = ANY(p_event_ids)
+    AND e.user_id = auth.uid()
+  GROUP BY e.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- =====================================================
+-- GRANT PERMISSIONS
+-- =====================================================
+REVOKE EXECUTE ON FUNCTION public.get_events_stats(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_events_stats(UUID[]) TO authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+COMMENT ON FUNCTION public.get_events_stats(UUID[]) IS
+'Booking counts per event for the caller''s events among p_event_ids, as get_event_stats';
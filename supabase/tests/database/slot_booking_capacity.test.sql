@@ -0,0 +1,92 @@
+-- supabase/tests/database/slot_booking_capacity.test.sql
+-- Slot bookings aren't counted against the event's max_attendees
+-- (20240228000000_slot_booking_capacity.sql). Run with `supabase test db`.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+-- Organizer and an event with one seat per slot, in two slots
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-0000000000a1', 'organizer@example.com');
+
+INSERT INTO public.events (id, user_id, title, duration, status, max_attendees)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Intro call',
+  30,
+  'active',
+  1
+);
+
+INSERT INTO public.time_slots (id, event_id, start_time, end_time, total_capacity)
+VALUES
+  (
+    '00000000-0000-0000-0000-0000000000c1',
+    '00000000-0000-0000-0000-0000000000e1',
+    NOW() + INTERVAL '2 days',
+    NOW() + INTERVAL '2 days 30 minutes',
+    1
+  ),
+  (
+    '00000000-0000-0000-0000-0000000000c2',
+    '00000000-0000-0000-0000-0000000000e1',
+    NOW() + INTERVAL '3 days',
+    NOW() + INTERVAL '3 days 30 minutes',
+    1
+  );
+
+SELECT lives_ok(
+  $$
+    INSERT INTO public.bookings (event_id, slot_id, first_name, last_name, email, date, time, status)
+    VALUES (
+      '00000000-0000-0000-0000-0000000000e1',
+      '00000000-0000-0000-0000-0000000000c1',
+      'Sam', 'Lee', 'sam@example.com',
+      (NOW() + INTERVAL '2 days')::DATE, '09:00', 'confirmed'
+    )
+  $$,
+  'the first slot is booked'
+);
+
+SELECT lives_ok(
+  $$
+    INSERT INTO public.bookings (event_id, slot_id, first_name, last_name, email, date, time, status)
+    VALUES (
+      '00000000-0000-0000-0000-0000000000e1',
+      '00000000-0000-0000-0000-0000000000c2',
+      'Ana', 'Ruiz', 'ana@example.com',
+      (NOW() + INTERVAL '3 days')::DATE, '09:00', 'confirmed'
+    )
+  $$,
+  'another slot of the same event is booked too'
+);
+
+-- Bookings without a slot are still held to the event's max_attendees,
+-- counting only each other
+INSERT INTO public.bookings (event_id, first_name, last_name, email, date, time, status)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  'Kim', 'Park', 'kim@example.com',
+  (NOW() + INTERVAL '4 days')::DATE, '09:00', 'confirmed'
+);
+
+SELECT throws_ok(
+  $$
+    INSERT INTO public.bookings (event_id, first_name, last_name, email, date, time, status)
+    VALUES (
+      '00000000-0000-0000-0000-0000000000e1',
+      'Lou', 'Chen', 'lou@example.com',
+      (NOW() + INTERVAL '4 days')::DATE, '09:00', 'confirmed'
+    )
+  $$,
+  'Event or session is at maximum capacity',
+  'event-wide bookings past max_attendees are refused'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,99 @@
+-- supabase/tests/database/waitlist_offer_emails.test.sql
+-- A seat offered to a guest on a slot waitlist queues the offer email
+-- (20240225000000_waitlist_offer_emails.sql). Run with `supabase test db`.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Organizer, event and a slot with one free seat
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-0000000000a1', 'organizer@example.com');
+
+INSERT INTO public.events (id, user_id, title, duration, status)
+VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000a1',
+  'Intro call',
+  30,
+  'active'
+);
+
+INSERT INTO public.time_slots (id, event_id, start_time, end_time, total_capacity)
+VALUES (
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-0000000000e1',
+  NOW() + INTERVAL '2 days',
+  NOW() + INTERVAL '2 days 30 minutes',
+  1
+);
+
+-- A guest waiting for the slot, without an account
+INSERT INTO public.waitlist (id, event_id, slot_id, first_name, last_name, email, position, quantity)
+VALUES (
+  '00000000-0000-0000-0000-0000000000d1',
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-0000000000c1',
+  'Sam',
+  'Lee',
+  'sam@example.com',
+  1,
+  1
+);
+
+SELECT is(
+  public.process_waitlist(
+    '00000000-0000-0000-0000-0000000000e1',
+    NULL,
+    '00000000-0000-0000-0000-0000000000c1'
+  ),
+  1,
+  'the guest is offered the free seat'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.email_outbox WHERE template = 'waitlist_spot_available'),
+  1,
+  'the offer queues one email'
+);
+
+SELECT results_eq(
+  $$
+    SELECT recipient_email, recipient_user_id, payload->>'booking_path'
+    FROM public.email_outbox
+    WHERE template = 'waitlist_spot_available'
+  $$,
+  $$
+    VALUES (
+      'sam@example.com'::TEXT,
+      NULL::UUID,
+      '/book/00000000-0000-0000-0000-0000000000e1?waitlist=00000000-0000-0000-0000-0000000000d1'::TEXT
+    )
+  $$,
+  'the email goes to the guest with the link that claims the hold'
+);
+
+SELECT is(
+  (SELECT (payload->>'expires_at')::TIMESTAMPTZ FROM public.email_outbox WHERE template = 'waitlist_spot_available'),
+  (SELECT offer_expires_at FROM public.waitlist WHERE id = '00000000-0000-0000-0000-0000000000d1'),
+  'the email says when the hold runs out'
+);
+
+-- Running it again offers nothing new, so nothing is queued twice
+SELECT public.process_waitlist(
+  '00000000-0000-0000-0000-0000000000e1',
+  NULL,
+  '00000000-0000-0000-0000-0000000000c1'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.email_outbox WHERE template = 'waitlist_spot_available'),
+  1,
+  'each offer is emailed once'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;